@@ -134,6 +134,78 @@ export default function TabLayout() {
           }}
         />
 
+        {/* Household - Accessible via More menu */}
+        <Tabs.Screen
+          name="household"
+          options={{
+            title: "Household",
+            href: null, // Hide from tab bar - accessible via More
+            tabBarIcon: ({ color }) => (
+              <Ionicons name="people-outline" color={color} size={24} />
+            ),
+          }}
+        />
+
+        {/* Reminder digest and quiet hours - Accessible via Settings */}
+        <Tabs.Screen
+          name="notification-settings"
+          options={{
+            title: "Reminder Schedule",
+            href: null, // Hide from tab bar - accessible via Settings
+            tabBarIcon: ({ color }) => (
+              <Ionicons name="alarm-outline" color={color} size={24} />
+            ),
+          }}
+        />
+
+        {/* Expiry urgency thresholds - Accessible via Settings */}
+        <Tabs.Screen
+          name="urgency-settings"
+          options={{
+            title: "Expiry Urgency",
+            href: null, // Hide from tab bar - accessible via Settings
+            tabBarIcon: ({ color }) => (
+              <Ionicons name="color-palette-outline" color={color} size={24} />
+            ),
+          }}
+        />
+
+        {/* Offline edit conflicts - Accessible via Settings */}
+        <Tabs.Screen
+          name="sync-conflicts"
+          options={{
+            title: "Offline Edits",
+            href: null, // Hide from tab bar - accessible via Settings
+            tabBarIcon: ({ color }) => (
+              <Ionicons name="cloud-offline-outline" color={color} size={24} />
+            ),
+          }}
+        />
+
+        {/* Recipe suggestions - Accessible via More menu and This Week */}
+        <Tabs.Screen
+          name="cook"
+          options={{
+            title: "Cook",
+            href: null, // Hide from tab bar - accessible via More
+            tabBarIcon: ({ color }) => (
+              <Ionicons name="restaurant-outline" color={color} size={24} />
+            ),
+          }}
+        />
+
+        {/* Weekly meal plan - Accessible via This Week */}
+        <Tabs.Screen
+          name="meal-plan"
+          options={{
+            title: "Meal Plan",
+            href: null, // Hide from tab bar - accessible via This Week
+            tabBarIcon: ({ color }) => (
+              <Ionicons name="calendar-outline" color={color} size={24} />
+            ),
+          }}
+        />
+
         {/* About - Accessible via More menu */}
         <Tabs.Screen
           name="about"
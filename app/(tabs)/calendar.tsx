@@ -13,6 +13,7 @@ import {
   getErrorMessage,
   isOfflineLikeError,
 } from "@/utils/networkError";
+import { isSingleWholeUnit } from "@/utils/unitConversion";
 import { router, useFocusEffect, useGlobalSearchParams } from "expo-router";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { Alert, StyleSheet, View } from "react-native";
@@ -190,7 +191,7 @@ export default function CalendarScreen() {
     (item: FoodItem) => {
       const maxQty =
         typeof item.quantity === "number" && item.quantity > 0 ? item.quantity : 1;
-      if (maxQty <= 1) {
+      if (isSingleWholeUnit(maxQty, item.unit)) {
         void performConsume(item, 1);
         return;
       }
@@ -247,7 +248,7 @@ export default function CalendarScreen() {
       const maxQty =
         typeof item.quantity === "number" && item.quantity > 0 ? item.quantity : 1;
       if (maxQty <= 1) {
-        void performThrowAway(item, 1);
+        void performThrowAway(item, maxQty);
         return;
       }
       setThrowAwayItem(item);
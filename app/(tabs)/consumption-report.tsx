@@ -1,19 +1,32 @@
 /**
- * Consumption Report — all-time insights, green accent on white.
+ * Consumption Report — insights for a date range (all time by default) with the change from
+ * the period before and a weekly trend, green accent on white.
  */
 
+import { BudgetModal } from "@/components/BudgetModal";
 import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { ReportRangePicker } from "@/components/ReportRangePicker";
+import { WeeklyTrendChart } from "@/components/WeeklyTrendChart";
 import { getReportCategoryIcon } from "@/lib/reportCategoryIcons";
 import { useAuth } from "@/contexts/AuthContext";
-import { loadConsumptionReportAllTime } from "@/services/insightsReportData";
-import { isOfflineLikeError } from "@/utils/networkError";
+import { budgetService } from "@/services/budgetService";
+import { loadPreferredCurrency } from "@/services/currencyPreference";
+import {
+  ConsumptionReportPeriod,
+  loadConsumptionReport,
+} from "@/services/insightsReportData";
+import { BudgetForecast } from "@/utils/budgetForecast";
+import { formatMoney } from "@/utils/itemPrice";
+import { getErrorMessage, isOfflineLikeError } from "@/utils/networkError";
+import { formatPercentChange, ReportRange, reportRange } from "@/utils/reportRange";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { router, useFocusEffect } from "expo-router";
 import { StatusBar } from "expo-status-bar";
-import { ArrowLeft } from "phosphor-react-native";
+import { ArrowLeft, PencilSimple, Warning } from "phosphor-react-native";
 import React, { useCallback, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Platform,
   Pressable,
   RefreshControl,
@@ -28,6 +41,7 @@ const ACCENT = "#3DBF7A";
 const BG = "#FFFFFF";
 const CARD = "#FFFFFF";
 const INK = "#1A1A18";
+const OVER = "#D94F41";
 
 const goBackToMore = () => {
   router.replace("/(tabs)/more");
@@ -46,19 +60,27 @@ export default function ConsumptionReportScreen() {
 
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [data, setData] = useState<Awaited<
-    ReturnType<typeof loadConsumptionReportAllTime>
-  > | null>(null);
+  const [range, setRange] = useState<ReportRange>(() => reportRange("all"));
+  const [period, setPeriod] = useState<ConsumptionReportPeriod | null>(null);
+  const data = period?.report ?? null;
   const [error, setError] = useState<string | null>(null);
   const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+  const [budget, setBudget] = useState<BudgetForecast | null>(null);
+  const [budgetOpen, setBudgetOpen] = useState(false);
+  const [budgetBusy, setBudgetBusy] = useState(false);
+  const [budgetCurrency, setBudgetCurrency] = useState("USD");
 
   const load = useCallback(async () => {
     if (!user?.id) return;
     setLoading(true);
     setError(null);
     try {
-      const d = await loadConsumptionReportAllTime(user.id);
-      setData(d);
+      const [p, forecast] = await Promise.all([
+        loadConsumptionReport(user.id, range),
+        budgetService.loadForecast(user.id),
+      ]);
+      setPeriod(p);
+      setBudget(forecast);
     } catch (e: unknown) {
       if (isOfflineLikeError(e, { hasAuthenticatedUser: Boolean(user?.id) })) {
         setOfflineNoticeVisible(true);
@@ -70,7 +92,7 @@ export default function ConsumptionReportScreen() {
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, range]);
 
   useFocusEffect(
     useCallback(() => {
@@ -88,6 +110,44 @@ export default function ConsumptionReportScreen() {
     setRefreshing(false);
   };
 
+  const openBudget = async () => {
+    setBudgetCurrency(budget?.currency ?? (await loadPreferredCurrency()));
+    setBudgetOpen(true);
+  };
+
+  const runBudgetTask = async (task: () => Promise<unknown>) => {
+    setBudgetBusy(true);
+    try {
+      await task();
+      setBudgetOpen(false);
+      await load();
+    } catch (e: unknown) {
+      if (isOfflineLikeError(e, { hasAuthenticatedUser: Boolean(user?.id) })) {
+        setOfflineNoticeVisible(true);
+      } else {
+        Alert.alert("Budget", getErrorMessage(e) || "Couldn't save your budget.");
+      }
+    } finally {
+      setBudgetBusy(false);
+    }
+  };
+
+  let comparison: string | null = null;
+  if (period?.previous && period.previousRange) {
+    const prevLabel = period.previousRange.label;
+    comparison =
+      period.change.consumed != null
+        ? `Consumed ${formatPercentChange(period.change.consumed)} vs ${prevLabel}`
+        : `${period.report.totalConsumedQty} consumed vs ${period.previous.totalConsumedQty} in ${prevLabel}`;
+  }
+  const trendWeeks = (period?.trend ?? []).map((w) => ({ date: w.date, count: w.consumedCount }));
+
+  const budgetCategories = budget
+    ? Object.entries(budget.categoryForecast)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+    : [];
+
   return (
     <View style={[styles.root, { paddingTop: insets.top }]}>
       <StatusBar style="dark" backgroundColor={BG} />
@@ -105,6 +165,8 @@ export default function ConsumptionReportScreen() {
         </Text>
       </View>
 
+      <ReportRangePicker range={range} onChange={setRange} accent={ACCENT} />
+
       {loading && !data ? (
         <View style={styles.centered}>
           <ActivityIndicator size="large" color={ACCENT} />
@@ -133,6 +195,8 @@ export default function ConsumptionReportScreen() {
             </View>
           </View>
 
+          {comparison ? <Text style={styles.compareText}>{comparison}</Text> : null}
+
           <View style={styles.pairRow}>
             <View style={styles.smallCard}>
               <Text style={styles.smallKicker}>MOST CONSUMED</Text>
@@ -162,6 +226,95 @@ export default function ConsumptionReportScreen() {
             </View>
           </View>
 
+          <Text style={[styles.sectionLabel, styles.sectionLabelByCategory]}>WEEKLY TREND</Text>
+          <View style={styles.card}>
+            <WeeklyTrendChart
+              weeks={trendWeeks}
+              color={ACCENT}
+              emptyText="Nothing consumed in these weeks."
+            />
+          </View>
+
+          <Text style={[styles.sectionLabel, styles.sectionLabelByCategory]}>
+            MONTHLY BUDGET
+          </Text>
+          {!budget ? (
+            <Pressable
+              style={styles.card}
+              onPress={() => void openBudget()}
+              accessibilityRole="button"
+            >
+              <Text style={styles.emptyText}>Set a monthly grocery budget</Text>
+            </Pressable>
+          ) : (
+            <View style={styles.card}>
+              <View style={styles.budgetHeader}>
+                <Text style={styles.budgetSpent} numberOfLines={1}>
+                  {formatMoney(budget.actualSpending, budget.currency)}
+                  <Text style={styles.budgetOf}>
+                    {" "}
+                    of {formatMoney(budget.plannedBudget, budget.currency)}
+                  </Text>
+                </Text>
+                <Pressable
+                  onPress={() => void openBudget()}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Edit monthly budget"
+                >
+                  <PencilSimple size={16} color={ACCENT} weight="bold" />
+                </Pressable>
+              </View>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.barFill,
+                    budget.actualSpending > budget.plannedBudget && styles.barFillOver,
+                    {
+                      width: `${Math.min(
+                        100,
+                        Math.round((100 * budget.actualSpending) / budget.plannedBudget)
+                      )}%`,
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.budgetForecast}>
+                Forecast {formatMoney(budget.forecastSpending, budget.currency)} by month end ·{" "}
+                {budget.variance >= 0
+                  ? `${formatMoney(budget.variance, budget.currency)} left`
+                  : `${formatMoney(-budget.variance, budget.currency)} over`}
+              </Text>
+              {budget.overBudget ? (
+                <View style={styles.budgetAlert} accessibilityRole="alert">
+                  <Warning size={14} color={OVER} weight="fill" />
+                  <Text style={styles.budgetAlertText}>
+                    On track to go {formatMoney(-budget.forecastVariance, budget.currency)} over
+                    budget this month.
+                  </Text>
+                </View>
+              ) : null}
+              {budgetCategories.map(([category, forecast]) => {
+                const Icon = getReportCategoryIcon(category, category);
+                return (
+                  <View key={category} style={styles.budgetCatRow}>
+                    <View style={styles.iconTile}>
+                      <Icon size={14} color={ACCENT} weight="fill" />
+                    </View>
+                    <Text style={styles.catName} numberOfLines={1}>
+                      {category}
+                    </Text>
+                    <Text style={styles.budgetCatAmounts}>
+                      {formatMoney(budget.categoryBreakdown[category] ?? 0, budget.currency)}
+                      {" → "}
+                      {formatMoney(forecast, budget.currency)}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
           <Text style={[styles.sectionLabel, styles.sectionLabelByCategory]}>BY CATEGORY</Text>
           <View style={styles.card}>
             {!data?.categoriesTop5.length ? (
@@ -220,6 +373,17 @@ export default function ConsumptionReportScreen() {
           </View>
         </ScrollView>
       )}
+      <BudgetModal
+        visible={budgetOpen}
+        amount={budget?.plannedBudget ?? null}
+        currency={budgetCurrency}
+        busy={budgetBusy}
+        onSave={(amount, currency) =>
+          void runBudgetTask(() => budgetService.setBudget(amount, currency))
+        }
+        onRemove={() => void runBudgetTask(() => budgetService.removeBudget())}
+        onClose={() => setBudgetOpen(false)}
+      />
       <OfflineNoticeModal
         visible={offlineNoticeVisible}
         onDismiss={() => setOfflineNoticeVisible(false)}
@@ -299,6 +463,14 @@ const styles = StyleSheet.create({
     color: "#FFFFFF",
     letterSpacing: -0.4,
   },
+  compareText: {
+    marginHorizontal: 20,
+    marginTop: 5,
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#2a9960",
+    textAlign: "center",
+  },
   pairRow: {
     flexDirection: "row",
     marginHorizontal: 16,
@@ -426,6 +598,63 @@ const styles = StyleSheet.create({
     borderRadius: 2,
     backgroundColor: ACCENT,
   },
+  barFillOver: {
+    backgroundColor: OVER,
+  },
+  budgetHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    paddingTop: 8,
+    paddingBottom: 6,
+  },
+  budgetSpent: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: "PlusJakartaSans_700Bold",
+    color: ACCENT,
+    letterSpacing: -0.3,
+  },
+  budgetOf: {
+    fontSize: 12,
+    fontFamily: "PlusJakartaSans_600SemiBold",
+    color: "#4B5563",
+  },
+  budgetForecast: {
+    marginTop: 6,
+    marginBottom: 6,
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#2a9960",
+  },
+  budgetAlert: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: "#FEF2F2",
+  },
+  budgetAlertText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#991B1B",
+  },
+  budgetCatRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 2,
+  },
+  budgetCatAmounts: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: INK,
+  },
   emptyText: {
     paddingVertical: 12,
     fontSize: 13,
@@ -0,0 +1,608 @@
+import { CookRecipeModal, CookRecipeRow } from "@/components/CookRecipeModal";
+import SafeAreaWrapper from "@/components/SafeAreaWrapper";
+import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { ToastNotification } from "@/components/ToastNotification";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUrgencySettings } from "@/hooks/useUrgencySettings";
+import { UsageLog } from "@/lib/supabase";
+import { batchOperations, foodItemsService } from "@/services/foodItems";
+import type { ItemUsage } from "@/services/foodItemsRemote";
+import { mealPlanService, withoutReserved } from "@/services/mealPlanService";
+import { recipeService } from "@/services/recipeService";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import { getErrorMessage, isOfflineLikeError } from "@/utils/networkError";
+import { RecipeMatch, suggestedUsageQuantity } from "@/utils/recipeMatching";
+import { Ionicons } from "@expo/vector-icons";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+const MAX_IMPORT_LENGTH = 200_000;
+
+/**
+ * Cook With What's Expiring
+ * Recipes ranked by how much of the soon-to-expire inventory they use, with the
+ * exact items each one consumes. Recipes can be imported as JSON or from a link.
+ */
+export default function CookScreen() {
+  const { user } = useAuth();
+  const tabBarHeight = (useBottomTabBarHeight() as unknown as number) || 24;
+  const subTextColor = "#6B7280";
+
+  const [matches, setMatches] = useState<RecipeMatch[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [importText, setImportText] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+  const [cooking, setCooking] = useState<{ title: string; rows: CookRecipeRow[] } | null>(null);
+  const [cookBusy, setCookBusy] = useState(false);
+  const [toast, setToast] = useState<{
+    visible: boolean;
+    message: string;
+    type: "success" | "info";
+    undoLogs: UsageLog[] | null;
+  }>({ visible: false, message: "", type: "success", undoLogs: null });
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      if (isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
+        setOfflineNoticeVisible(true);
+        return;
+      }
+      Alert.alert("Error", getErrorMessage(error) || fallback);
+    },
+    [user?.id]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const [items, reserved] = await Promise.all([
+        foodItemsService.getItems(),
+        // Reservations are a refinement; offline, rank against the whole inventory.
+        mealPlanService.getReservations().catch(() => new Map<string, number>()),
+      ]);
+      setMatches(await recipeService.rankForInventory(withoutReserved(items, reserved)));
+    } catch (error) {
+      setMatches((prev) => prev ?? []);
+      showError(error, "Couldn't load recipes");
+    }
+  }, [showError]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace({ pathname: "/(auth)/welcome" });
+        return;
+      }
+      void load();
+    }, [user, load])
+  );
+
+  // Ranking and the urgency dots follow the user's thresholds; re-rank when they load
+  // or change while the screen is up.
+  const urgencySettings = useUrgencySettings();
+  const rankedWith = useRef(urgencySettings);
+  useEffect(() => {
+    if (rankedWith.current === urgencySettings) return;
+    rankedWith.current = urgencySettings;
+    if (user) void load();
+  }, [urgencySettings, user, load]);
+
+  const handleImport = async () => {
+    const input = importText.trim();
+    if (!input) return;
+    setImporting(true);
+    try {
+      const recipes = /^https?:\/\//i.test(input)
+        ? await recipeService.importFromUrl(input)
+        : await recipeService.importFromText(input);
+      setImportText("");
+      Alert.alert(
+        "Recipes imported",
+        recipes.length === 1
+          ? `Added "${recipes[0]!.name}".`
+          : `Added ${recipes.length} recipes.`
+      );
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't import that recipe");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const startCooking = (match: RecipeMatch) => {
+    setCooking({
+      title: match.recipe.name,
+      rows: match.uses.map(({ ingredient, item }) => ({
+        item,
+        quantity: suggestedUsageQuantity(ingredient, item),
+      })),
+    });
+  };
+
+  const handleCooked = async (uses: ItemUsage[]) => {
+    setCookBusy(true);
+    try {
+      const logs = await batchOperations.logRecipeUsage(uses);
+      setCooking(null);
+      setToast(
+        logs === null
+          ? {
+              visible: true,
+              message: "Saved offline. It will sync when you're back online.",
+              type: "info",
+              undoLogs: null,
+            }
+          : {
+              visible: true,
+              message: `Logged ${uses.length} ingredient${uses.length === 1 ? "" : "s"}`,
+              type: "success",
+              undoLogs: logs,
+            }
+      );
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't log what you cooked");
+    } finally {
+      setCookBusy(false);
+    }
+  };
+
+  const handleUndoCooked = async (logs: UsageLog[]) => {
+    try {
+      await batchOperations.undoRecipeUsage(logs);
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't undo");
+    }
+  };
+
+  const handleDelete = (match: RecipeMatch) => {
+    Alert.alert("Remove recipe?", `"${match.recipe.name}" will be removed from this device.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          await recipeService.deleteImported(match.recipe.id);
+          await load();
+        },
+      },
+    ]);
+  };
+
+  const renderRecipe = (match: RecipeMatch) => {
+    const { recipe, uses, missing } = match;
+    const expanded = expandedId === recipe.id;
+    return (
+      <View key={recipe.id} style={styles.section}>
+        <Pressable
+          onPress={() => setExpandedId(expanded ? null : recipe.id)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded }}
+          style={({ pressed }) => [styles.sectionContent, pressed && styles.rowPressed]}
+        >
+          <View style={styles.recipeHeader}>
+            <View style={styles.recipeTitleWrap}>
+              <ThemedText style={styles.recipeName} numberOfLines={2}>
+                {recipe.name}
+              </ThemedText>
+              <ThemedText style={[styles.recipeMeta, { color: subTextColor }]}>
+                {recipe.mealType.charAt(0).toUpperCase() + recipe.mealType.slice(1)} ·{" "}
+                {recipe.prepMinutes} min
+                {recipe.source === "imported" ? " · Imported" : ""}
+              </ThemedText>
+            </View>
+            <Ionicons
+              name={expanded ? "chevron-up" : "chevron-down"}
+              size={18}
+              color="#9CA3AF"
+            />
+          </View>
+
+          <ThemedText style={styles.listLabel}>Uses from your kitchen</ThemedText>
+          {uses.map(({ ingredient, item }) => (
+            <View key={`${ingredient.name}-${item.id}`} style={styles.useRow}>
+              <View style={[styles.urgencyDot, { backgroundColor: item.urgency.dotColor }]} />
+              <View style={styles.useTextWrap}>
+                <ThemedText style={styles.useName} numberOfLines={1}>
+                  {item.name} · {formatQuantityWithUnit(item.quantity, item.unit)}
+                </ThemedText>
+                <ThemedText style={[styles.useExpiry, { color: item.urgency.color }]}>
+                  {item.urgency.description}
+                </ThemedText>
+              </View>
+            </View>
+          ))}
+
+          {missing.length > 0 ? (
+            <ThemedText style={[styles.missingText, { color: subTextColor }]}>
+              Also needs: {missing.map((i) => i.name).join(", ")}
+            </ThemedText>
+          ) : null}
+
+          <Pressable
+            style={[styles.primaryButton, styles.cookButton]}
+            onPress={() => startCooking(match)}
+            accessibilityLabel={`I cooked ${recipe.name}`}
+          >
+            <ThemedText style={styles.primaryButtonText}>I cooked this</ThemedText>
+          </Pressable>
+
+          {expanded ? (
+            <View style={styles.details}>
+              {recipe.description ? (
+                <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+                  {recipe.description}
+                </ThemedText>
+              ) : null}
+              <ThemedText style={styles.listLabel}>Ingredients</ThemedText>
+              {recipe.ingredients.map((ingredient, index) => (
+                <ThemedText key={`${ingredient.name}-${index}`} style={styles.stepText}>
+                  •{" "}
+                  {ingredient.text ||
+                    [
+                      ingredient.quantity != null
+                        ? formatQuantityWithUnit(ingredient.quantity, ingredient.unit)
+                        : null,
+                      ingredient.name,
+                      ingredient.optional ? "(optional)" : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" ")}
+                </ThemedText>
+              ))}
+              {recipe.instructions.length > 0 ? (
+                <>
+                  <ThemedText style={[styles.listLabel, styles.stepsLabel]}>Steps</ThemedText>
+                  {recipe.instructions.map((step, index) => (
+                    <ThemedText key={index} style={styles.stepText}>
+                      {index + 1}. {step}
+                    </ThemedText>
+                  ))}
+                </>
+              ) : null}
+              {recipe.source === "imported" ? (
+                <Pressable
+                  style={[styles.secondaryButton, styles.removeButton]}
+                  onPress={() => handleDelete(match)}
+                >
+                  <ThemedText style={styles.secondaryButtonText}>Remove recipe</ThemedText>
+                </Pressable>
+              ) : null}
+            </View>
+          ) : null}
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaWrapper usePadding edges={["top"]}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => router.back()}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="arrow-back" size={21} color="#15803D" />
+          </Pressable>
+          <ThemedText style={styles.headerTitle}>Cook</ThemedText>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: tabBarHeight + 26 },
+          ]}
+        >
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Cook with what&apos;s expiring</ThemedText>
+          </View>
+          {matches === null ? (
+            <ActivityIndicator style={styles.loader} color="#16A34A" />
+          ) : matches.length === 0 ? (
+            <View style={styles.section}>
+              <View style={styles.sectionContent}>
+                <ThemedText style={[styles.emptyText, { color: subTextColor }]}>
+                  Nothing expiring this week matches a recipe yet. Import a few favourites
+                  below.
+                </ThemedText>
+              </View>
+            </View>
+          ) : (
+            matches.map(renderRecipe)
+          )}
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Import a recipe</ThemedText>
+          </View>
+          <View style={styles.section}>
+            <View style={styles.sectionContent}>
+              <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+                Paste a recipe link, or recipe JSON (Schema.org Recipe or FridgeWise format).
+              </ThemedText>
+              <TextInput
+                style={[styles.input, styles.importInput]}
+                value={importText}
+                onChangeText={(v) => setImportText(v.slice(0, MAX_IMPORT_LENGTH))}
+                placeholder="https://… or { … }"
+                placeholderTextColor={subTextColor}
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+                editable={!importing}
+              />
+              <Pressable
+                style={[
+                  styles.primaryButton,
+                  (importing || !importText.trim()) && styles.buttonDisabled,
+                ]}
+                onPress={handleImport}
+                disabled={importing || !importText.trim()}
+              >
+                {importing ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <ThemedText style={styles.primaryButtonText}>Import</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </ScrollView>
+      </ThemedView>
+      <CookRecipeModal
+        visible={cooking !== null}
+        title={cooking?.title ?? ""}
+        rows={cooking?.rows ?? []}
+        busy={cookBusy}
+        onConfirm={(uses) => void handleCooked(uses)}
+        onCancel={() => setCooking(null)}
+      />
+      <ToastNotification
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        duration={toast.undoLogs ? 6000 : 3000}
+        actionLabel={toast.undoLogs ? "Undo" : undefined}
+        onAction={
+          toast.undoLogs ? () => void handleUndoCooked(toast.undoLogs ?? []) : undefined
+        }
+        onHide={() => setToast((prev) => ({ ...prev, visible: false, undoLogs: null }))}
+      />
+      <OfflineNoticeModal
+        visible={offlineNoticeVisible}
+        onDismiss={() => setOfflineNoticeVisible(false)}
+      />
+    </SafeAreaWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 6,
+    paddingBottom: 10,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 18,
+    top: 8,
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 2,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontSize: 30,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "800",
+    color: "#197C47",
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 36,
+    letterSpacing: -0.5,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 34,
+    paddingTop: 6,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  section: {
+    borderRadius: 14,
+    marginBottom: 16,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: "#F3F4F6",
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000000",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 2,
+  },
+  sectionContent: {
+    padding: 14,
+  },
+  sectionTitleWrap: {
+    paddingLeft: 4,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#15803D",
+    letterSpacing: 0.1,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontWeight: "500",
+    textAlign: "center",
+  },
+  helpText: {
+    fontSize: 12,
+    lineHeight: 17,
+    fontWeight: "500",
+    marginBottom: 10,
+  },
+  recipeHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  recipeTitleWrap: {
+    flex: 1,
+    paddingRight: 8,
+  },
+  recipeName: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "700",
+    color: "#111827",
+  },
+  recipeMeta: {
+    fontSize: 12,
+    fontWeight: "500",
+    marginTop: 2,
+  },
+  listLabel: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#6B7280",
+    textTransform: "uppercase",
+    letterSpacing: 0.4,
+    marginBottom: 6,
+  },
+  stepsLabel: {
+    marginTop: 10,
+  },
+  useRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 4,
+  },
+  urgencyDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  useTextWrap: {
+    flex: 1,
+  },
+  useName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  useExpiry: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  missingText: {
+    fontSize: 12,
+    fontWeight: "500",
+    marginTop: 6,
+  },
+  details: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+  },
+  stepText: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: "#374151",
+    marginBottom: 4,
+  },
+  input: {
+    fontSize: 15,
+    fontWeight: "500",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+    borderRadius: 10,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F9FAFB",
+    color: "#111827",
+    marginBottom: 10,
+  },
+  importInput: {
+    minHeight: 84,
+    maxHeight: 180,
+    textAlignVertical: "top",
+  },
+  primaryButton: {
+    backgroundColor: "#22C55E",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  removeButton: {
+    marginTop: 10,
+  },
+  cookButton: {
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.55,
+  },
+  rowPressed: {
+    opacity: 0.78,
+  },
+});
@@ -24,16 +24,15 @@ import { Clock, MagnifyingGlass, Trash } from "phosphor-react-native";
 import { modalStackedCancelContainer, modalStackedCancelLabel } from "@/theme/modalActionStyles";
 import { getFoodCategoryIcon } from "@/lib/foodCategories";
 import { useAuth } from "@/contexts/AuthContext";
+import { FoodLocationIcon } from "@/components/FoodLocationIcon";
 import { ItemCardPendingOverlay } from "@/components/ItemCardPendingOverlay";
 import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
 import SkeletonBlock from "@/components/SkeletonBlock";
-import { supabase, UsageLog } from "@/lib/supabase";
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "@/lib/foodLocations";
+import { FoodItemEvent, FoodLocation, supabase, UsageLog } from "@/lib/supabase";
 import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
 import { isOfflineLikeError } from "@/utils/networkError";
 
-const fridgeIconAsset = require("@/assets/images/icons/fridge_icon.png");
-const shelfIconAsset = require("@/assets/images/icons/shelf_icon.png");
-
 const UI = {
   bg: "#ffffff",
   card: "#ffffff",
@@ -58,10 +57,14 @@ type Row = {
   qty: number;
   unit?: string;
   category?: string;
-  location: "fridge" | "shelf";
+  location: FoodLocation;
   wasExpiredAtLogTime: boolean;
 };
 
+type EventWithItem = FoodItemEvent & {
+  food_items?: { name?: string } | null;
+};
+
 function matchesHistorySearch(r: Row, rawQuery: string): boolean {
   const q = rawQuery.trim().toLowerCase().replace(/\s+/g, " ");
   if (!q) return true;
@@ -93,6 +96,15 @@ type LogWithItem = UsageLog & {
   } | null;
 };
 
+function formatShortYmd(ymd?: string | null): string | null {
+  const m = ymd?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
 function isUsedOrWasted(
   log: LogWithItem
 ): log is LogWithItem & { status: "used" | "wasted" } {
@@ -124,6 +136,8 @@ export default function HistoryScreen() {
   const [initialLoading, setInitialLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [logs, setLogs] = useState<LogWithItem[]>([]);
+  /** Freeze / thaw moves, shown under the consumed list. */
+  const [freezerMoves, setFreezerMoves] = useState<EventWithItem[]>([]);
   const hasLoadedOnceRef = useRef(false);
   const lastLoadedAtRef = useRef<number>(0);
   const params = useLocalSearchParams<{ filter?: string; focusLogId?: string }>();
@@ -175,6 +189,22 @@ export default function HistoryScreen() {
       if (error) throw error;
       setLogs((data as any) ?? []);
       lastLoadedAtRef.current = Date.now();
+
+      const { data: moves, error: movesError } = await supabase
+        .from("food_item_events")
+        .select(
+          `
+          *,
+          food_items!food_item_events_item_id_fkey ( name )
+        `
+        )
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (movesError) {
+        console.warn("History: failed to load freezer moves", movesError);
+      } else {
+        setFreezerMoves((moves as any) ?? []);
+      }
     } catch (error) {
       if (isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
         setOfflineNoticeVisible(true);
@@ -220,8 +250,7 @@ export default function HistoryScreen() {
         hour12: true,
       });
       const timeStr = timeRaw.replace(" AM", " am").replace(" PM", " pm");
-      const locRaw = (l.food_items?.location || "fridge").toLowerCase();
-      const location: "fridge" | "shelf" = locRaw === "shelf" ? "shelf" : "fridge";
+      const location = toFoodLocation(l.food_items?.location);
       const qty =
         typeof l.quantity === "number" ? l.quantity : 1;
       const isoYmd = toIsoYmd(dt);
@@ -261,6 +290,12 @@ export default function HistoryScreen() {
     return base.filter((r) => matchesHistorySearch(r, q));
   }, [allRows, searchQuery]);
 
+  const filteredFreezerMoves = useMemo(() => {
+    const q = searchQuery.trim().toLowerCase();
+    if (!q) return freezerMoves;
+    return freezerMoves.filter((m) => (m.food_items?.name || "").toLowerCase().includes(q));
+  }, [freezerMoves, searchQuery]);
+
   const scheduleScrollToLog = useCallback((fid: string, tab: "used" | "wasted") => {
     const scrollRef = tab === "used" ? usedScrollRef : wastedScrollRef;
     const offsets = tab === "used" ? rowOffsetUsedRef : rowOffsetWastedRef;
@@ -389,7 +424,6 @@ export default function HistoryScreen() {
       const CategoryIcon = getCategoryIcon(r.category, r.name);
       const iconColor =
         r.status === "wasted" || r.wasExpiredAtLogTime ? "#B91C1C" : "#16A34A";
-      const isShelf = r.location === "shelf";
       const isHi = highlightLogId === r.id;
       const hiStyle =
         isHi && r.status === "wasted"
@@ -419,13 +453,9 @@ export default function HistoryScreen() {
               {r.name}
             </Text>
             <View style={styles.rowMetaRow}>
-              <Image
-                source={isShelf ? shelfIconAsset : fridgeIconAsset}
-                style={styles.locIcon}
-                resizeMode="contain"
-              />
+              <FoodLocationIcon location={r.location} style={styles.locIcon} />
               <Text style={styles.rowMeta} numberOfLines={1}>
-                {isShelf ? "Shelf" : "Fridge"} · {qtyLabel(r)}
+                {FOOD_LOCATION_LABELS[r.location]} · {qtyLabel(r)}
               </Text>
             </View>
             <View style={styles.rowTimeRow}>
@@ -458,6 +488,36 @@ export default function HistoryScreen() {
     [deletingId, highlightLogId]
   );
 
+  const renderFreezerMove = (m: EventWithItem) => {
+    const dt = new Date(m.created_at);
+    const frozen = m.kind === "frozen";
+    const expiry = formatShortYmd(m.new_expiry_date);
+    return (
+      <View key={m.id} style={styles.row}>
+        <View style={styles.rowIconTile}>
+          <FoodLocationIcon location={m.to_location} style={styles.moveIcon} />
+        </View>
+        <View style={styles.rowBody}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {m.food_items?.name || "Item"}
+          </Text>
+          <View style={styles.rowMetaRow}>
+            <Text style={styles.rowMeta} numberOfLines={1}>
+              {frozen ? "Frozen" : `Thawed to ${FOOD_LOCATION_LABELS[m.to_location].toLowerCase()}`}
+              {expiry ? ` · expires ${expiry}` : ""}
+            </Text>
+          </View>
+          <View style={styles.rowTimeRow}>
+            <Clock size={12} color={UI.muted} weight="bold" />
+            <Text style={styles.rowTime} numberOfLines={1}>
+              {dt.toLocaleDateString(undefined, { month: "long", day: "numeric" })}
+            </Text>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
   const confirmDeleteFromModal = useCallback(async () => {
     if (!deleteTarget) return;
     const id = deleteTarget.id;
@@ -636,6 +696,12 @@ export default function HistoryScreen() {
                 ) : (
                   filteredUsed.map((r) => renderHistoryRow(r, "used"))
                 )}
+                {!initialLoading && filteredFreezerMoves.length > 0 ? (
+                  <>
+                    <Text style={styles.sectionLabel}>Freezer</Text>
+                    {filteredFreezerMoves.map(renderFreezerMove)}
+                  </>
+                ) : null}
               </View>
             </ScrollView>
             <ScrollView
@@ -933,6 +999,19 @@ const styles = StyleSheet.create({
     height: 12,
     tintColor: UI.muted,
   },
+  moveIcon: {
+    width: 20,
+    height: 20,
+    tintColor: UI.muted,
+  },
+  sectionLabel: {
+    marginTop: 14,
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 0.4,
+    textTransform: "uppercase",
+    color: UI.muted,
+  },
   rowMeta: {
     flex: 1,
     fontSize: 12,
@@ -0,0 +1,627 @@
+import SafeAreaWrapper from "@/components/SafeAreaWrapper";
+import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { SettingsConfirmModal } from "@/components/SettingsConfirmModal";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useAuth } from "@/contexts/AuthContext";
+import { HouseholdInvite, HouseholdMember, HouseholdRole } from "@/lib/supabase";
+import {
+  HouseholdMembership,
+  householdRoleLabel,
+  householdService,
+  normalizeInviteCode,
+} from "@/services/householdService";
+import { getErrorMessage, isOfflineLikeError } from "@/utils/networkError";
+import { Ionicons } from "@expo/vector-icons";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+const MAX_HOUSEHOLD_NAME_LENGTH = 40;
+
+type BusyOp = false | "create" | "join" | "invite" | "leave" | "member";
+
+/**
+ * Household Screen
+ * Create or join a shared household and manage its members (owner / member / viewer).
+ */
+export default function HouseholdScreen() {
+  const { user, userProfile } = useAuth();
+  const tabBarHeight = (useBottomTabBarHeight() as unknown as number) || 24;
+  const subTextColor = "#6B7280";
+
+  const [loading, setLoading] = useState(true);
+  const [membership, setMembership] = useState<HouseholdMembership | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [invite, setInvite] = useState<HouseholdInvite | null>(null);
+  const [householdName, setHouseholdName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [busy, setBusy] = useState<BusyOp>(false);
+  const [leaveModalVisible, setLeaveModalVisible] = useState(false);
+  const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+
+  const displayName = userProfile?.full_name || user?.email || undefined;
+  const isOwner = membership?.role === "owner";
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      if (isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
+        setOfflineNoticeVisible(true);
+        return;
+      }
+      Alert.alert("Error", getErrorMessage(error) || fallback);
+    },
+    [user?.id]
+  );
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      const next = await householdService.getMembership({
+        userId: user.id,
+        force: true,
+      });
+      setMembership(next);
+      setMembers(next ? await householdService.getMembers(next.household.id) : []);
+      if (!next) setInvite(null);
+    } catch (error) {
+      showError(error, "Couldn't load your household");
+    } finally {
+      setLoading(false);
+    }
+  }, [showError, user?.id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace({ pathname: "/(auth)/welcome" });
+        return;
+      }
+      void load();
+    }, [user, load])
+  );
+
+  const handleCreate = async () => {
+    const name = householdName.trim();
+    if (!name) {
+      Alert.alert("Name required", "Give your household a name.");
+      return;
+    }
+    setBusy("create");
+    try {
+      await householdService.createHousehold(name, displayName);
+      setHouseholdName("");
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't create household");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    const code = normalizeInviteCode(inviteCode);
+    if (!code) {
+      Alert.alert("Code required", "Enter the invite code you were sent.");
+      return;
+    }
+    setBusy("join");
+    try {
+      await householdService.joinWithCode(code, displayName);
+      setInviteCode("");
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't join household");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async (role: HouseholdInvite["role"]) => {
+    if (!membership) return;
+    setBusy("invite");
+    try {
+      setInvite(await householdService.createInvite(membership.household.id, role));
+    } catch (error) {
+      showError(error, "Couldn't create invite");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmLeave = async () => {
+    setBusy("leave");
+    try {
+      await householdService.leaveHousehold();
+      setLeaveModalVisible(false);
+      await load();
+    } catch (error) {
+      setLeaveModalVisible(false);
+      showError(error, "Couldn't leave household");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runMemberAction = async (task: () => Promise<void>, fallback: string) => {
+    setBusy("member");
+    try {
+      await task();
+      await load();
+    } catch (error) {
+      showError(error, fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openMemberOptions = (member: HouseholdMember) => {
+    const name = member.display_name || "This member";
+    const setRole = (role: HouseholdRole) =>
+      runMemberAction(
+        () => householdService.setMemberRole(member.user_id, role),
+        "Couldn't change role"
+      );
+    const roleOptions = (["member", "viewer", "owner"] as HouseholdRole[])
+      .filter((role) => role !== member.role)
+      .map((role) => ({
+        text: role === "owner" ? "Make owner" : `Make ${householdRoleLabel(role).toLowerCase()}`,
+        onPress: () => void setRole(role),
+      }));
+
+    Alert.alert(name, `Role: ${householdRoleLabel(member.role)}`, [
+      ...roleOptions,
+      {
+        text: "Remove from household",
+        style: "destructive",
+        onPress: () =>
+          void runMemberAction(
+            () => householdService.removeMember(member.user_id),
+            "Couldn't remove member"
+          ),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const renderNoHousehold = () => (
+    <>
+      <View style={styles.sectionTitleWrap}>
+        <ThemedText style={styles.sectionTitle}>Create a household</ThemedText>
+      </View>
+      <View style={styles.section}>
+        <View style={styles.sectionContent}>
+          <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+            Share one inventory, history and reports with the people you live with.
+            Your current items move into the household.
+          </ThemedText>
+          <TextInput
+            style={styles.input}
+            value={householdName}
+            onChangeText={(v) => setHouseholdName(v.slice(0, MAX_HOUSEHOLD_NAME_LENGTH))}
+            maxLength={MAX_HOUSEHOLD_NAME_LENGTH}
+            placeholder="e.g. Our flat"
+            placeholderTextColor={subTextColor}
+            autoCapitalize="words"
+            editable={busy === false}
+          />
+          <Pressable
+            style={[styles.primaryButton, busy !== false && styles.buttonDisabled]}
+            onPress={handleCreate}
+            disabled={busy !== false}
+          >
+            {busy === "create" ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>Create household</ThemedText>
+            )}
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.sectionTitleWrap}>
+        <ThemedText style={styles.sectionTitle}>Join with a code</ThemedText>
+      </View>
+      <View style={styles.section}>
+        <View style={styles.sectionContent}>
+          <TextInput
+            style={[styles.input, styles.codeInput]}
+            value={inviteCode}
+            onChangeText={(v) => setInviteCode(v.toUpperCase())}
+            maxLength={12}
+            placeholder="INVITE CODE"
+            placeholderTextColor={subTextColor}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            editable={busy === false}
+          />
+          <Pressable
+            style={[styles.primaryButton, busy !== false && styles.buttonDisabled]}
+            onPress={handleJoin}
+            disabled={busy !== false}
+          >
+            {busy === "join" ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>Join household</ThemedText>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+
+  const renderHousehold = (current: HouseholdMembership) => (
+    <>
+      <View style={styles.section}>
+        <View style={styles.sectionContent}>
+          <ThemedText style={styles.householdName}>{current.household.name}</ThemedText>
+          <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+            You are {current.role === "owner" ? "the owner" : `a ${householdRoleLabel(current.role).toLowerCase()}`}
+            {current.role === "viewer" ? " · read-only access" : ""}
+          </ThemedText>
+        </View>
+      </View>
+
+      <View style={styles.sectionTitleWrap}>
+        <ThemedText style={styles.sectionTitle}>Members</ThemedText>
+      </View>
+      <View style={styles.section}>
+        {members.map((member, index) => {
+          const isSelf = member.user_id === user?.id;
+          const canManage = isOwner && !isSelf;
+          return (
+            <View key={member.user_id}>
+              {index > 0 ? <View style={styles.settingsSeparator} /> : null}
+              <Pressable
+                onPress={canManage ? () => openMemberOptions(member) : undefined}
+                disabled={!canManage || busy !== false}
+                style={({ pressed }) => [styles.memberRow, pressed && canManage && styles.rowPressed]}
+              >
+                <View style={styles.settingIconContainer}>
+                  <Ionicons name="person-outline" size={19} color="#16A34A" />
+                </View>
+                <View style={styles.settingContent}>
+                  <ThemedText style={styles.settingTitle} numberOfLines={1}>
+                    {member.display_name || "Member"}
+                    {isSelf ? " (you)" : ""}
+                  </ThemedText>
+                  <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+                    {householdRoleLabel(member.role)}
+                  </ThemedText>
+                </View>
+                {canManage ? (
+                  <Ionicons name="ellipsis-horizontal" size={18} color="#16A34A" />
+                ) : null}
+              </Pressable>
+            </View>
+          );
+        })}
+      </View>
+
+      {isOwner ? (
+        <>
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Invite</ThemedText>
+          </View>
+          <View style={styles.section}>
+            <View style={styles.sectionContent}>
+              {invite ? (
+                <View style={styles.inviteCodeWrap}>
+                  <ThemedText style={styles.inviteCode} selectable>
+                    {invite.code}
+                  </ThemedText>
+                  <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+                    Joins as {householdRoleLabel(invite.role).toLowerCase()} · valid until{" "}
+                    {new Date(invite.expires_at).toLocaleDateString()}
+                  </ThemedText>
+                </View>
+              ) : (
+                <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+                  Create a one-time code and share it with the person you want to add.
+                </ThemedText>
+              )}
+              <View style={styles.buttonRow}>
+                <Pressable
+                  style={[styles.primaryButton, styles.buttonFlex, busy !== false && styles.buttonDisabled]}
+                  onPress={() => handleInvite("member")}
+                  disabled={busy !== false}
+                >
+                  {busy === "invite" ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <ThemedText style={styles.primaryButtonText}>Invite member</ThemedText>
+                  )}
+                </Pressable>
+                <Pressable
+                  style={[styles.secondaryButton, styles.buttonFlex, busy !== false && styles.buttonDisabled]}
+                  onPress={() => handleInvite("viewer")}
+                  disabled={busy !== false}
+                >
+                  <ThemedText style={styles.secondaryButtonText}>Invite viewer</ThemedText>
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        </>
+      ) : null}
+
+      <View style={styles.section}>
+        <Pressable
+          onPress={() => setLeaveModalVisible(true)}
+          disabled={busy !== false}
+          style={({ pressed }) => [styles.memberRow, pressed && styles.rowPressed]}
+        >
+          <View style={styles.settingIconContainer}>
+            <Ionicons name="exit-outline" size={19} color="#DC2626" />
+          </View>
+          <View style={styles.settingContent}>
+            <ThemedText style={[styles.settingTitle, styles.settingTitleDanger]}>
+              Leave household
+            </ThemedText>
+            <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+              Your own items go back to a personal inventory
+            </ThemedText>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color="#16A34A" />
+        </Pressable>
+      </View>
+    </>
+  );
+
+  return (
+    <SafeAreaWrapper usePadding edges={["top"]}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => router.replace("/(tabs)/more")}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="arrow-back" size={21} color="#15803D" />
+          </Pressable>
+          <ThemedText style={styles.headerTitle}>Household</ThemedText>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: tabBarHeight + 26 },
+          ]}
+        >
+          {loading ? (
+            <ActivityIndicator style={styles.loader} color="#16A34A" />
+          ) : membership ? (
+            renderHousehold(membership)
+          ) : (
+            renderNoHousehold()
+          )}
+        </ScrollView>
+      </ThemedView>
+      <SettingsConfirmModal
+        visible={leaveModalVisible}
+        title="Leave household?"
+        message={
+          isOwner && members.length > 1
+            ? "Ownership passes to another member. Items you added return to your personal inventory."
+            : "Items you added return to your personal inventory."
+        }
+        primaryLabel="Leave"
+        primaryVariant="danger"
+        onPrimary={confirmLeave}
+        onSecondary={() => setLeaveModalVisible(false)}
+        busy={busy === "leave"}
+        onRequestClose={busy === "leave" ? () => {} : () => setLeaveModalVisible(false)}
+      />
+      <OfflineNoticeModal
+        visible={offlineNoticeVisible}
+        onDismiss={() => setOfflineNoticeVisible(false)}
+      />
+    </SafeAreaWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 6,
+    paddingBottom: 10,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 18,
+    top: 8,
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 2,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontSize: 30,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "800",
+    color: "#197C47",
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 36,
+    letterSpacing: -0.5,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 34,
+    paddingTop: 6,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  section: {
+    borderRadius: 14,
+    marginBottom: 16,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: "#F3F4F6",
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000000",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 2,
+  },
+  sectionContent: {
+    padding: 14,
+  },
+  sectionTitleWrap: {
+    paddingLeft: 4,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#15803D",
+    letterSpacing: 0.1,
+  },
+  householdName: {
+    fontSize: 22,
+    lineHeight: 28,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "700",
+    color: "#111827",
+    letterSpacing: -0.3,
+    marginBottom: 2,
+  },
+  helpText: {
+    fontSize: 12,
+    lineHeight: 17,
+    fontWeight: "500",
+    marginBottom: 10,
+  },
+  input: {
+    fontSize: 15,
+    fontWeight: "500",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+    borderRadius: 10,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F9FAFB",
+    color: "#111827",
+    marginBottom: 10,
+  },
+  codeInput: {
+    textAlign: "center",
+    letterSpacing: 3,
+    fontFamily: "DMMono_500Medium",
+  },
+  inviteCodeWrap: {
+    alignItems: "center",
+  },
+  inviteCode: {
+    fontSize: 28,
+    lineHeight: 34,
+    fontFamily: "DMMono_500Medium",
+    color: "#15803D",
+    letterSpacing: 4,
+    marginBottom: 4,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  buttonFlex: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: "#22C55E",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  buttonDisabled: {
+    opacity: 0.55,
+  },
+  memberRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+  },
+  settingIconContainer: {
+    width: 24,
+    height: 24,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  settingContent: {
+    flex: 1,
+    paddingRight: 10,
+  },
+  settingTitle: {
+    fontSize: 14,
+    fontFamily: "PlusJakartaSans_600SemiBold",
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  settingTitleDanger: {
+    color: "#B91C1C",
+  },
+  settingDescription: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  settingsSeparator: {
+    height: 1,
+    marginHorizontal: 16,
+    backgroundColor: "#E5E7EB",
+  },
+  rowPressed: {
+    opacity: 0.78,
+  },
+});
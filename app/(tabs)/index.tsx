@@ -37,6 +37,7 @@ import { Dimensions } from "react-native";
 
 import FirstRunOnboarding from "@/components/FirstRunOnboarding";
 import { ConsumeModal } from "@/components/ConsumeModal";
+import { FoodLocationIcon } from "@/components/FoodLocationIcon";
 import {
   ItemCardPendingOverlay,
   type ItemCardPendingTone,
@@ -50,35 +51,39 @@ import {
   MAX_PINNED_ITEMS,
   savePinnedItemIds,
 } from "@/lib/pinnedItemsStorage";
-import { FoodItem, supabase, UsageLog } from "@/lib/supabase";
+import { FoodItem, FoodLocation, supabase, UsageLog } from "@/lib/supabase";
 import { getFoodCategoryIcon } from "@/lib/foodCategories";
+import { FOOD_LOCATION_LABELS, FOOD_LOCATIONS } from "@/lib/foodLocations";
 import { foodItemsService } from "@/services/foodItems";
+import { getInventoryScope, inventoryScopeFilter } from "@/services/householdService";
+import { syncItemExpiryNotificationsAfterSave } from "@/services/itemExpiryNotificationService";
+import {
+  applyFoodItemChange,
+  subscribeToInventoryChanges,
+} from "@/services/inventoryRealtimeService";
 import { modalStackedCancelContainer, modalStackedCancelLabel } from "@/theme/modalActionStyles";
 import { enableAndroidLayoutAnimationExperimental } from "@/utils/enableAndroidLayoutAnimation";
 import { formatExpiry } from "@/utils/formatExpiry";
 import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import { calendarDaysUntil } from "@/utils/localDate";
+import { effectiveExpiryDate } from "@/utils/openedExpiry";
+import { groupProductLots } from "@/utils/productLots";
+import { isSingleWholeUnit } from "@/utils/unitConversion";
+import { calculateUrgency } from "@/utils/urgencyUtils";
 import {
   getErrorMessage,
   isOfflineLikeError,
 } from "@/utils/networkError";
 import { firstNameForGreeting } from "@/utils/personNameInput";
 
-type LocationFilter = "all" | "fridge" | "shelf";
+type LocationFilter = "all" | FoodLocation;
 
-type ItemEntry = {
-  id: string;
-  quantity: number;
-  expiryDate?: string;
-  daysUntilExpiry?: number;
-  location: "fridge" | "shelf";
-};
-
-type ItemGroup = {
-  name: string;
+/** Where a row sits among its product's lots (see utils/productLots). */
+type LotInfo = {
+  index: number;
+  count: number;
   totalQuantity: number;
-  soonestExpiry?: string;
-  soonestDays?: number;
-  entries: ItemEntry[];
+  unit?: string;
 };
 
 type ThisWeekCard = {
@@ -87,7 +92,7 @@ type ThisWeekCard = {
   title: string;
   quantity: number;
   unit?: string;
-  location?: "fridge" | "shelf";
+  location?: FoodLocation;
   category?: string;
   expiryDate?: string;
   statusText: string;
@@ -119,12 +124,7 @@ const UI = {
 
 const getDaysUntilExpiry = (expiryDate?: string): number | undefined => {
   if (!expiryDate) return undefined;
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const expiry = new Date(expiryDate);
-  return Math.ceil(
-    (expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-  );
+  return calendarDaysUntil(expiryDate);
 };
 
 const getDaysAgo = (dateString?: string): number | undefined => {
@@ -137,8 +137,6 @@ const getDaysAgo = (dateString?: string): number | undefined => {
   return diff >= 0 ? diff : undefined;
 };
 
-const fridgeIconAsset = require("@/assets/images/icons/fridge_icon.png");
-const shelfIconAsset = require("@/assets/images/icons/shelf_icon.png");
 const PINNED_ACTION_ROW_H = 44;
 const INVENTORY_ACTION_ROW_H = 44;
 const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
@@ -183,13 +181,10 @@ function parseExpiryDate(iso?: string): Date | null {
   return Number.isNaN(direct.getTime()) ? null : direct;
 }
 
+/** Past a use-by date; best-before items stay usable after theirs. */
 function isFoodItemExpired(item: FoodItem): boolean {
-  const d = parseExpiryDate(item.expiry_date);
-  if (!d) return false;
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  d.setHours(0, 0, 0, 0);
-  return d < today;
+  if (!parseExpiryDate(item.expiry_date)) return false;
+  return calculateUrgency(item).isExpired;
 }
 
 /** Upcoming (soonest expiry first), then no date, then expired (earlier date first). */
@@ -291,6 +286,9 @@ export default function HomeScreen() {
 
   const [locationFilter, setLocationFilter] = useState<LocationFilter>("fridge");
   const [inventoryToggleWidth, setInventoryToggleWidth] = useState(0);
+  /** Outer padding 4 + gap 4 between the three location tabs. */
+  const inventoryToggleTabWidth =
+    inventoryToggleWidth > 0 ? (inventoryToggleWidth - 16) / FOOD_LOCATIONS.length : 0;
   const [searchText, setSearchText] = useState("");
   const [keyboardInset, setKeyboardInset] = useState(0);
   const homeScrollRef = useRef<ScrollView>(null);
@@ -322,7 +320,7 @@ export default function HomeScreen() {
   }, [thisWeekTab]);
   useEffect(() => {
     Animated.timing(inventoryToggleAnim, {
-      toValue: locationFilter === "shelf" ? 1 : 0,
+      toValue: Math.max(0, FOOD_LOCATIONS.indexOf(locationFilter as FoodLocation)),
       duration: 220,
       easing: Easing.out(Easing.quad),
       useNativeDriver: true,
@@ -498,17 +496,18 @@ export default function HomeScreen() {
         return;
       }
 
+      const scopeFilter = inventoryScopeFilter(await getInventoryScope(user.id));
       const [{ count: usedCount, error: usedErr }, { count: wastedCount, error: wastedErr }] =
         await Promise.all([
           supabase
             .from("usage_logs")
             .select("id", { count: "exact", head: true })
-            .eq("user_id", user.id)
+            .eq(scopeFilter.column, scopeFilter.value)
             .eq("status", "used"),
           supabase
             .from("usage_logs")
             .select("id", { count: "exact", head: true })
-            .eq("user_id", user.id)
+            .eq(scopeFilter.column, scopeFilter.value)
             .eq("status", "wasted"),
         ]);
 
@@ -550,7 +549,7 @@ export default function HomeScreen() {
       } else if (itemsSource && itemsSource.length > 0) {
         // Fallback to local derivation if backend call fails
         const localExpiring = itemsSource.filter((it) => {
-          const d = getDaysUntilExpiry(it.expiry_date);
+          const d = getDaysUntilExpiry(effectiveExpiryDate(it));
           return typeof d === "number" && d >= 0 && d <= 7;
         });
         setThisWeekExpiring(localExpiring);
@@ -568,6 +567,7 @@ export default function HomeScreen() {
         setThisWeekExpired([]);
       }
 
+      const scopeFilter = inventoryScopeFilter(await getInventoryScope(user.id));
       const logsResult = await supabase
         .from("usage_logs")
         .select(
@@ -580,7 +580,7 @@ export default function HomeScreen() {
           )
         `
         )
-        .eq("user_id", user.id)
+        .eq(scopeFilter.column, scopeFilter.value)
         .in("status", ["used", "wasted"])
         .gte("logged_at", recentStart.toISOString())
         .lte("logged_at", recentEnd.toISOString())
@@ -632,6 +632,46 @@ export default function HomeScreen() {
     }, [user, userProfile, getUserProfile, loadItems])
   );
 
+  // Realtime: patch items changed on other devices in place; coalesce the
+  // This Week / history refetch that follows a burst of changes.
+  const loadItemsRef = useRef(loadItems);
+  const loadHomeMetaRef = useRef(loadHomeMeta);
+  loadItemsRef.current = loadItems;
+  loadHomeMetaRef.current = loadHomeMeta;
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+    let metaTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleMetaRefresh = () => {
+      if (metaTimer) clearTimeout(metaTimer);
+      metaTimer = setTimeout(() => {
+        metaTimer = null;
+        void loadHomeMetaRef.current({ showLoading: false });
+      }, 600);
+    };
+
+    const unsubscribe = subscribeToInventoryChanges(userId, (change) => {
+      if (change.kind === "resync") {
+        void loadItemsRef.current({ showLoader: false });
+        return;
+      }
+      if (change.kind === "food_item") {
+        runSmoothLayout();
+        setItems((prev) => applyFoodItemChange(prev, change));
+        if (!change.item) {
+          setExpandedInventoryId((prev) => (prev === change.itemId ? null : prev));
+          setExpandedPinnedId((prev) => (prev === change.itemId ? null : prev));
+        }
+      }
+      scheduleMetaRefresh();
+    });
+
+    return () => {
+      if (metaTimer) clearTimeout(metaTimer);
+      unsubscribe();
+    };
+  }, [user?.id]);
+
   useEffect(() => {
     if (!user?.id || loading) return;
     setPinnedIds((prev) => {
@@ -717,10 +757,8 @@ export default function HomeScreen() {
           ? raw.split("T")[0]!
           : raw.slice(0, 10)
         : null;
-    const todayStr = new Date().toISOString().split("T")[0]!;
-
     if (ymd) {
-      if (ymd < todayStr) {
+      if (calendarDaysUntil(ymd) < 0) {
         router.push(
           `/(tabs)/calendar?view=timeline&itemId=${encodeURIComponent(
             item.id
@@ -749,7 +787,7 @@ export default function HomeScreen() {
         name: item.name,
         quantity: String(item.quantity),
         unit: item.unit || "pcs",
-        location: item.location as "fridge" | "shelf",
+        location: item.location as FoodLocation,
         category: item.category || "",
         expiryDate: item.expiry_date || "",
         notes: item.notes || "",
@@ -758,64 +796,41 @@ export default function HomeScreen() {
   }, []);
 
   const derived = useMemo(() => {
-    const groupsByName = new Map<string, ItemGroup>();
     let fridgeCount = 0;
+    let freezerCount = 0;
     let shelfCount = 0;
 
     for (const item of items) {
       if (item.location === "fridge") fridgeCount += 1;
+      if (item.location === "freezer") freezerCount += 1;
       if (item.location === "shelf") shelfCount += 1;
+    }
 
-      const days = getDaysUntilExpiry(item.expiry_date);
-      const entry: ItemEntry = {
-        id: item.id,
-        quantity: item.quantity,
-        expiryDate: item.expiry_date ?? undefined,
-        daysUntilExpiry: days,
-        location: item.location as "fridge" | "shelf",
-      };
-
-      const key = item.name;
-      const existing = groupsByName.get(key);
-      if (!existing) {
-        groupsByName.set(key, {
-          name: key,
-          totalQuantity: item.quantity,
-          soonestExpiry: item.expiry_date ?? undefined,
-          soonestDays: days,
-          entries: [entry],
+    // Rows of the same product (name and unit) are its lots, earliest-expiring first.
+    const groups = groupProductLots(items);
+    const lotInfoById = new Map<string, LotInfo>();
+    for (const group of groups) {
+      group.lots.forEach((lot, index) => {
+        lotInfoById.set(String(lot.id), {
+          index,
+          count: group.lots.length,
+          totalQuantity: group.totalQuantity,
+          unit: group.unit,
         });
-      } else {
-        existing.totalQuantity += item.quantity;
-        existing.entries.push(entry);
-
-        const currSoonest = existing.soonestDays;
-        if (
-          days !== undefined &&
-          (currSoonest === undefined || days < currSoonest)
-        ) {
-          existing.soonestDays = days;
-          existing.soonestExpiry = item.expiry_date ?? undefined;
-        }
-      }
+      });
     }
 
-    const groups = Array.from(groupsByName.values()).map((g) => {
-      g.entries.sort(
-        (a, b) => (a.daysUntilExpiry ?? 999) - (b.daysUntilExpiry ?? 999)
-      );
-      return g;
-    });
-
+    const soonestDays = (g: (typeof groups)[number]) =>
+      getDaysUntilExpiry(effectiveExpiryDate(g.lots[0]!)) ?? 999;
     groups.sort((a, b) => {
-      const ad = a.soonestDays ?? 999;
-      const bd = b.soonestDays ?? 999;
+      const ad = soonestDays(a);
+      const bd = soonestDays(b);
       if (ad !== bd) return ad - bd;
       return a.name.localeCompare(b.name);
     });
 
     const expiringSoon = items.filter((i) => {
-      const d = getDaysUntilExpiry(i.expiry_date);
+      const d = getDaysUntilExpiry(effectiveExpiryDate(i));
       return d !== undefined && d <= 3;
     }).length;
 
@@ -823,7 +838,9 @@ export default function HomeScreen() {
 
     return {
       groups,
+      lotInfoById,
       fridgeCount,
+      freezerCount,
       shelfCount,
     };
   }, [items]);
@@ -955,7 +972,7 @@ export default function HomeScreen() {
         name: item.name,
         quantity: String(item.quantity),
         unit: item.unit || "pcs",
-        location: item.location as "fridge" | "shelf",
+        location: item.location as FoodLocation,
         category: item.category || "",
         expiryDate: item.expiry_date || "",
         notes: item.notes || "",
@@ -1020,7 +1037,7 @@ export default function HomeScreen() {
     const maxQty =
       typeof item.quantity === "number" && item.quantity > 0 ? item.quantity : 1;
     if (maxQty <= 1) {
-      executeThrowAwayForItem(item, 1);
+      executeThrowAwayForItem(item, maxQty);
       return;
     }
     setThrowAwayModalItem(item);
@@ -1070,37 +1087,106 @@ export default function HomeScreen() {
     })();
   }, [removeModalItem, pinnedIds, user?.id, loadHomeMeta, loadItems, showActionError]);
 
+  /** Freeze pushes the expiry out; thaw resets it to a short window (see utils/freezeThaw). */
+  const handleFreezeToggle = useCallback(
+    (item: FoodItem) => {
+      const id = String(item.id);
+      const thawing = item.location === "freezer";
+      setHomeItemActionPending({ id, tone: "green" });
+
+      void (async () => {
+        try {
+          const saved = thawing
+            ? await foodItemsService.thawItem(item)
+            : await foodItemsService.freezeItem(item);
+          runSmoothLayout();
+          setItems((prev) => prev.map((i) => (String(i.id) === id ? saved : i)));
+          setExpandedInventoryId((prev) => (prev === id ? null : prev));
+          syncItemExpiryNotificationsAfterSave(saved).catch((e) =>
+            console.warn("Home: failed to reschedule reminders", e)
+          );
+          await loadHomeMeta({ showLoading: false });
+        } catch (error: any) {
+          if (!isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
+            await loadItems({ showLoader: false });
+          }
+          showActionError(
+            error,
+            thawing
+              ? "Failed to thaw item. Please try again."
+              : "Failed to freeze item. Please try again."
+          );
+        } finally {
+          setHomeItemActionPending(null);
+        }
+      })();
+    },
+    [user?.id, loadHomeMeta, loadItems, showActionError]
+  );
+
+  /** Opening keeps the printed date; the row then counts down to the earlier opened window. */
+  const handleMarkOpened = useCallback(
+    (item: FoodItem) => {
+      const id = String(item.id);
+      setHomeItemActionPending({ id, tone: "green" });
+
+      void (async () => {
+        try {
+          const saved = await foodItemsService.markOpened(item);
+          runSmoothLayout();
+          setItems((prev) => prev.map((i) => (String(i.id) === id ? saved : i)));
+          setExpandedInventoryId((prev) => (prev === id ? null : prev));
+          syncItemExpiryNotificationsAfterSave(saved).catch((e) =>
+            console.warn("Home: failed to reschedule reminders", e)
+          );
+          await loadHomeMeta({ showLoading: false });
+        } catch (error: any) {
+          if (!isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
+            await loadItems({ showLoader: false });
+          }
+          showActionError(error, "Failed to mark item as opened. Please try again.");
+        } finally {
+          setHomeItemActionPending(null);
+        }
+      })();
+    },
+    [user?.id, loadHomeMeta, loadItems, showActionError]
+  );
+
   const executeConsumeForItem = useCallback(
     (currentItem: FoodItem, quantity: number) => {
       const id = String(currentItem.id);
       const pinnedIdsSnapshot = [...pinnedIds];
-      const fullConsume = quantity >= currentItem.quantity;
-      const nextPinned = fullConsume
-        ? pinnedIdsSnapshot.filter((pid) => String(pid) !== id)
-        : pinnedIdsSnapshot;
 
       setExpandedInventoryId((prev) => (prev === id ? null : prev));
       setHomeItemActionPending({ id, tone: "green" });
 
       void (async () => {
         try {
-          await foodItemsService.markItemUsed(currentItem.id, quantity);
+          // Drawn first in, first out, so other lots of the product may shrink instead.
+          const uses = await foodItemsService.markItemUsed(currentItem.id, quantity);
+          const usedById = new Map(uses.map((u) => [String(u.itemId), u.quantity]));
+          const emptiedIds = new Set(
+            items
+              .filter((i) => (usedById.get(String(i.id)) ?? 0) >= i.quantity)
+              .map((i) => String(i.id))
+          );
           runSmoothLayout();
-          if (fullConsume) {
-            setItems((prev) => prev.filter((i) => String(i.id) !== id));
-            setExpandedPinnedId((prev) => (prev === id ? null : prev));
+          setItems((prev) =>
+            prev
+              .filter((i) => !emptiedIds.has(String(i.id)))
+              .map((i) => {
+                const used = usedById.get(String(i.id));
+                return used ? { ...i, quantity: Math.max(0, i.quantity - used) } : i;
+              })
+          );
+          if (emptiedIds.size > 0) {
+            const nextPinned = pinnedIdsSnapshot.filter((pid) => !emptiedIds.has(String(pid)));
+            setExpandedPinnedId((prev) => (prev && emptiedIds.has(prev) ? null : prev));
             setPinnedIds(nextPinned);
             if (user?.id) {
               await savePinnedItemIds(user.id, nextPinned);
             }
-          } else {
-            setItems((prev) =>
-              prev.map((i) =>
-                String(i.id) === id
-                  ? { ...i, quantity: Math.max(0, i.quantity - quantity) }
-                  : i
-              )
-            );
           }
           await loadHomeMeta({ showLoading: false });
         } catch (error: any) {
@@ -1113,14 +1199,14 @@ export default function HomeScreen() {
         }
       })();
     },
-    [pinnedIds, user?.id, loadHomeMeta, loadItems, showActionError]
+    [items, pinnedIds, user?.id, loadHomeMeta, loadItems, showActionError]
   );
 
   const requestConsumeModal = useCallback(
     (it: FoodItem) => {
       const maxQty =
         typeof it.quantity === "number" && it.quantity > 0 ? it.quantity : 1;
-      if (maxQty <= 1) {
+      if (isSingleWholeUnit(maxQty, it.unit)) {
         executeConsumeForItem(it, 1);
         return;
       }
@@ -1191,7 +1277,7 @@ export default function HomeScreen() {
       title: it.name,
       quantity: it.quantity,
       unit: it.unit,
-      location: it.location as "fridge" | "shelf" | undefined,
+      location: it.location as FoodLocation | undefined,
       category: it.category,
       expiryDate: it.expiry_date ?? undefined,
       statusText: formatExpiry(it.expiry_date),
@@ -1205,7 +1291,7 @@ export default function HomeScreen() {
         title: it.name,
         quantity: it.quantity,
         unit: it.unit,
-        location: it.location as "fridge" | "shelf" | undefined,
+        location: it.location as FoodLocation | undefined,
         category: it.category,
         expiryDate: it.expiry_date ?? undefined,
         statusText: "Expired",
@@ -1233,10 +1319,10 @@ export default function HomeScreen() {
         fallbackItem?.name ||
         "Item";
       const loc =
-        (log.food_items?.location as "fridge" | "shelf" | undefined) ||
-        (logAny.item_location as "fridge" | "shelf" | undefined) ||
-        (logAny.location as "fridge" | "shelf" | undefined) ||
-        (fallbackItem?.location as "fridge" | "shelf" | undefined);
+        (log.food_items?.location as FoodLocation | undefined) ||
+        (logAny.item_location as FoodLocation | undefined) ||
+        (logAny.location as FoodLocation | undefined) ||
+        (fallbackItem?.location as FoodLocation | undefined);
       const category =
         log.food_items?.category ||
         fallbackItem?.category ||
@@ -1436,10 +1522,6 @@ export default function HomeScreen() {
                 const qtyStr = formatQuantityWithUnit(c.quantity, c.unit, {
                   fallbackUnit: "pcs",
                 });
-                const locImg =
-                  c.location === "shelf"
-                    ? require("@/assets/images/icons/shelf_icon.png")
-                    : require("@/assets/images/icons/fridge_icon.png");
                 const accent =
                   c.kind === "wasted"
                     ? { fg: UI.red, bg: UI.redBg, border: UI.redBorder }
@@ -1509,7 +1591,7 @@ export default function HomeScreen() {
                           {displayName}
                         </Text>
                         <View style={styles.twMetaRow}>
-                          <Image source={locImg} style={styles.twMetaLocIcon} />
+                          <FoodLocationIcon location={c.location} style={styles.twMetaLocIcon} />
                           <Text style={styles.twMeta} numberOfLines={1}>
                             {qtyStr}
                           </Text>
@@ -1620,8 +1702,6 @@ export default function HomeScreen() {
               const isTwoCol = pinnedItemsOrdered.length === 2;
               const cardWidth = isTwoCol ? pinnedCardHalfW : pinnedStripInnerW;
               const CategoryIcon = getCategoryIcon(it.category, it.name);
-              const locImg =
-                it.location === "shelf" ? shelfIconAsset : fridgeIconAsset;
               const qtyStr = formatQuantityWithUnit(it.quantity, it.unit, {
                 fallbackUnit: "pcs",
               });
@@ -1683,10 +1763,9 @@ export default function HomeScreen() {
                         {it.name}
                       </Text>
                       <View style={styles.pinnedRowMetaRow}>
-                        <Image
-                          source={locImg}
+                        <FoodLocationIcon
+                          location={it.location}
                           style={styles.pinnedRowLocIcon}
-                          resizeMode="contain"
                         />
                         <Text
                           style={[
@@ -1810,89 +1889,59 @@ export default function HomeScreen() {
                 style={[
                   styles.inventoryToggleSlidingPill,
                   {
-                    width:
-                      inventoryToggleWidth > 0
-                        ? (inventoryToggleWidth - 12) / 2
-                        : undefined,
+                    width: inventoryToggleTabWidth,
                     opacity: inventoryToggleWidth > 0 ? 1 : 0,
                     transform: [
                       {
                         translateX: inventoryToggleAnim.interpolate({
-                          inputRange: [0, 1],
+                          inputRange: [0, 1, 2],
                           outputRange:
-                            inventoryToggleWidth > 0
-                              ? [0, (inventoryToggleWidth - 12) / 2 + 4]
-                              : [0, 0],
+                            inventoryToggleTabWidth > 0
+                              ? [0, inventoryToggleTabWidth + 4, 2 * (inventoryToggleTabWidth + 4)]
+                              : [0, 0, 0],
                         }),
                       },
                     ],
                   },
                 ]}
               />
-              <Pressable
-                style={[
-                  styles.inventoryToggleTab,
-                  locationFilter === "fridge" && styles.inventoryToggleTabActive,
-                ]}
-                onPress={() => setLocationFilter("fridge")}
-                accessibilityRole="button"
-                accessibilityState={{ selected: locationFilter === "fridge" }}
-              >
-                <View style={styles.inventoryToggleContent}>
-                  <View style={styles.inventoryToggleLabelRow}>
-                    <Image
-                      source={fridgeIconAsset}
-                      style={[
-                        styles.inventoryToggleIcon,
-                        locationFilter === "fridge"
-                          ? styles.inventoryToggleIconActive
-                          : styles.inventoryToggleIconInactive,
-                      ]}
-                      resizeMode="contain"
-                    />
-                    <Text
-                      style={[
-                        styles.inventoryToggleText,
-                        locationFilter === "fridge" && styles.inventoryToggleTextActive,
-                      ]}
-                    >
-                      Fridge
-                    </Text>
-                  </View>
-                </View>
-              </Pressable>
-              <Pressable
-                style={[
-                  styles.inventoryToggleTab,
-                  locationFilter === "shelf" && styles.inventoryToggleTabActive,
-                ]}
-                onPress={() => setLocationFilter("shelf")}
-                accessibilityRole="button"
-                accessibilityState={{ selected: locationFilter === "shelf" }}
-              >
-                <View style={styles.inventoryToggleContent}>
-                  <View style={styles.inventoryToggleLabelRow}>
-                    <Image
-                      source={shelfIconAsset}
-                      style={[
-                        styles.inventoryToggleIcon,
-                        locationFilter === "shelf"
-                          ? styles.inventoryToggleIconActive
-                          : styles.inventoryToggleIconInactive,
-                      ]}
-                      resizeMode="contain"
-                    />
-                    <Text
-                      style={[
-                        styles.inventoryToggleText,
-                        locationFilter === "shelf" && styles.inventoryToggleTextActive,
-                      ]}
-                    >
-                      Shelf
-                    </Text>
-                  </View>
-                </View>
-              </Pressable>
+              {FOOD_LOCATIONS.map((loc) => {
+                const selected = locationFilter === loc;
+                return (
+                  <Pressable
+                    key={loc}
+                    style={[
+                      styles.inventoryToggleTab,
+                      selected && styles.inventoryToggleTabActive,
+                    ]}
+                    onPress={() => setLocationFilter(loc)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <View style={styles.inventoryToggleContent}>
+                      <View style={styles.inventoryToggleLabelRow}>
+                        <FoodLocationIcon
+                          location={loc}
+                          style={[
+                            styles.inventoryToggleIcon,
+                            selected
+                              ? styles.inventoryToggleIconActive
+                              : styles.inventoryToggleIconInactive,
+                          ]}
+                        />
+                        <Text
+                          style={[
+                            styles.inventoryToggleText,
+                            selected && styles.inventoryToggleTextActive,
+                          ]}
+                        >
+                          {FOOD_LOCATION_LABELS[loc]}
+                        </Text>
+                      </View>
+                    </View>
+                  </Pressable>
+                );
+              })}
             </View>
           </View>
 
@@ -1945,9 +1994,11 @@ export default function HomeScreen() {
           ) : (
             filteredItems.map((it) => {
               const rowId = String(it.id);
-              const expiryText = formatExpiry(it.expiry_date);
+              const lotInfo = derived.lotInfoById.get(rowId);
+              const shownExpiry = effectiveExpiryDate(it);
+              const expiryText = formatExpiry(shownExpiry);
               const expired = isFoodItemExpired(it);
-              const expiryDateObj = parseExpiryDate(it.expiry_date);
+              const expiryDateObj = parseExpiryDate(shownExpiry);
               const expiryDateLabel = expiryDateObj
                 ? expiryDateObj.toLocaleDateString(undefined, {
                     day: "numeric",
@@ -1955,9 +2006,9 @@ export default function HomeScreen() {
                     year: "numeric",
                   })
                 : "";
-              const daysUntilExpiry = getDaysUntilExpiry(it.expiry_date);
-              const expiredDaysAgo = expired ? getDaysAgo(it.expiry_date) : undefined;
-              const expiryRelative = formatExpiry(it.expiry_date);
+              const daysUntilExpiry = getDaysUntilExpiry(shownExpiry);
+              const expiredDaysAgo = expired ? getDaysAgo(shownExpiry) : undefined;
+              const expiryRelative = formatExpiry(shownExpiry);
               const expiryStatusText = expired
                 ? `Expired ${
                     typeof expiredDaysAgo === "number"
@@ -1968,6 +2019,8 @@ export default function HomeScreen() {
                         : `${expiredDaysAgo} days ago`
                       : "recently"
                   }`
+                : typeof daysUntilExpiry === "number" && daysUntilExpiry < 0
+                ? "Past best before"
                 : expiryRelative === "Today"
                 ? "Expires today"
                 : expiryRelative === "Tomorrow"
@@ -2015,8 +2068,16 @@ export default function HomeScreen() {
                         </Text>
                       </View>
                       <View style={styles.inventoryCalMetaRow}>
-                        <Text style={styles.inventoryCalMetaText}>
+                        <Text style={styles.inventoryCalMetaText} numberOfLines={1}>
                           {qtyText || "Quantity not set"}
+                          {it.opened_at ? " · Opened" : ""}
+                          {lotInfo && lotInfo.count > 1
+                            ? ` · Lot ${lotInfo.index + 1} of ${lotInfo.count}, ${formatQuantityWithUnit(
+                                lotInfo.totalQuantity,
+                                lotInfo.unit,
+                                { fallbackUnit: "pcs" }
+                              )} total`
+                            : ""}
                         </Text>
                       </View>
                     </View>
@@ -2088,6 +2149,36 @@ export default function HomeScreen() {
                           />
                           <Text style={styles.inventoryCalActionEdit}>Edit</Text>
                         </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.inventoryCalActionBtn}
+                          onPress={() => handleFreezeToggle(it)}
+                          activeOpacity={0.7}
+                          accessibilityRole="button"
+                          accessibilityLabel={
+                            it.location === "freezer" ? `Thaw ${it.name}` : `Freeze ${it.name}`
+                          }
+                        >
+                          <Ionicons
+                            name={it.location === "freezer" ? "water-outline" : "snow-outline"}
+                            size={14}
+                            color="#0284C7"
+                          />
+                          <Text style={styles.inventoryCalActionEdit}>
+                            {it.location === "freezer" ? "Thaw" : "Freeze"}
+                          </Text>
+                        </TouchableOpacity>
+                        {!it.opened_at && it.location !== "freezer" ? (
+                          <TouchableOpacity
+                            style={styles.inventoryCalActionBtn}
+                            onPress={() => handleMarkOpened(it)}
+                            activeOpacity={0.7}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Mark ${it.name} opened`}
+                          >
+                            <Ionicons name="cube-outline" size={14} color="#0D9488" />
+                            <Text style={styles.inventoryCalActionEdit}>Opened</Text>
+                          </TouchableOpacity>
+                        ) : null}
                         <TouchableOpacity
                           style={styles.inventoryCalUseBtn}
                           onPress={() => {
@@ -2261,8 +2352,6 @@ export default function HomeScreen() {
                     const expired = isFoodItemExpired(it);
                     const CategoryIcon = getCategoryIcon(it.category, it.name);
                     const iconColor = expired ? "#DC2626" : "#15803D";
-                    const locImg =
-                      it.location === "shelf" ? shelfIconAsset : fridgeIconAsset;
                     const qtyStr = formatQuantityWithUnit(it.quantity, it.unit, {
                       fallbackUnit: "pcs",
                     });
@@ -2296,10 +2385,9 @@ export default function HomeScreen() {
                             {it.name}
                           </Text>
                           <View style={styles.pinModalPinnedMetaRow}>
-                            <Image
-                              source={locImg}
+                            <FoodLocationIcon
+                              location={it.location}
                               style={styles.pinModalPinnedLocIcon}
-                              resizeMode="contain"
                             />
                             <Text
                               style={[
@@ -2387,8 +2475,6 @@ export default function HomeScreen() {
                     const expired = isFoodItemExpired(it);
                     const CategoryIcon = getCategoryIcon(it.category, it.name);
                     const iconColor = expired ? "#DC2626" : "#15803D";
-                    const locImg =
-                      it.location === "shelf" ? shelfIconAsset : fridgeIconAsset;
                     const qtyStr = formatQuantityWithUnit(it.quantity, it.unit, {
                       fallbackUnit: "pcs",
                     });
@@ -2426,10 +2512,9 @@ export default function HomeScreen() {
                             {it.name}
                           </Text>
                           <View style={styles.pinPickQtyRow}>
-                            <Image
-                              source={locImg}
+                            <FoodLocationIcon
+                              location={it.location}
                               style={styles.pinPickLocIcon}
-                              resizeMode="contain"
                             />
                             <Text style={styles.pinPickMeta} numberOfLines={1}>
                               {qtyStr}
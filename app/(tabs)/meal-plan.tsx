@@ -0,0 +1,492 @@
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { CaretLeft, CaretRight, CheckCircle, Plus } from "phosphor-react-native";
+
+import { CookRecipeModal, CookRecipeRow } from "@/components/CookRecipeModal";
+import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { PlanMealModal, PlanMealOption } from "@/components/PlanMealModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { Recipe } from "@/lib/recipes";
+import { MealPlanEntry, MealSlot } from "@/lib/supabase";
+import { batchOperations, FoodItemWithUrgency, foodItemsService } from "@/services/foodItems";
+import type { ItemUsage } from "@/services/foodItemsRemote";
+import {
+  MEAL_SLOTS,
+  mealPlanService,
+  reservedQuantities,
+  weekDays,
+  withoutReserved,
+} from "@/services/mealPlanService";
+import { recipeService } from "@/services/recipeService";
+import { getErrorMessage, isOfflineLikeError } from "@/utils/networkError";
+import { matchRecipe } from "@/utils/recipeMatching";
+
+const UI = {
+  bg: "#ffffff",
+  card: "#ffffff",
+  border: "#e8e6e0",
+  divider: "#ece9e2",
+  ink: "#1f2937",
+  muted: "#6b7280",
+  ok: "#166534",
+  okBg: "#DCFCE7",
+  okBorder: "#BBF7D0",
+};
+
+const SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+};
+
+function dayLabel(ymd: string): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Meal Plan
+ * A week of breakfast / lunch / dinner slots. Planned recipes reserve the items
+ * they'll use and send missing ingredients to the shopping list.
+ */
+export default function MealPlanScreen() {
+  const { user } = useAuth();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [items, setItems] = useState<FoodItemWithUrgency[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [planning, setPlanning] = useState<{ day: string; slot: MealSlot } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [cooking, setCooking] = useState<{ entry: MealPlanEntry; rows: CookRecipeRow[] } | null>(
+    null
+  );
+  const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+
+  const days = useMemo(() => {
+    const start = new Date();
+    start.setDate(start.getDate() + weekOffset * 7);
+    return weekDays(start);
+  }, [weekOffset]);
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      if (isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
+        setOfflineNoticeVisible(true);
+        return;
+      }
+      Alert.alert("Error", getErrorMessage(error) || fallback);
+    },
+    [user?.id]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const [weekEntries, inventory, allRecipes] = await Promise.all([
+        mealPlanService.getEntries(days[0]!, days[days.length - 1]!),
+        foodItemsService.getItems(),
+        recipeService.getRecipes(),
+      ]);
+      setEntries(weekEntries);
+      setItems(inventory);
+      setRecipes(allRecipes);
+    } catch (error) {
+      showError(error, "Couldn't load your meal plan");
+    }
+  }, [days, showError]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace({ pathname: "/(auth)/welcome" });
+        return;
+      }
+      void load();
+    }, [user, load])
+  );
+
+  const itemsById = useMemo(() => new Map(items.map((it) => [it.id, it])), [items]);
+
+  /** Recipes for the picker: best use of unreserved, expiring stock first. */
+  const recipeOptions = useMemo((): PlanMealOption[] => {
+    if (!planning) return [];
+    const free = withoutReserved(items, reservedQuantities(entries));
+    return recipes
+      .map((recipe) => matchRecipe(recipe, free))
+      .sort((a, b) => b.score - a.score || b.coverage - a.coverage)
+      .map((m) => ({
+        recipe: m.recipe,
+        detail:
+          m.uses.length === 0
+            ? `Needs ${m.missing.length} ingredient${m.missing.length === 1 ? "" : "s"}`
+            : `Uses ${m.uses.length} item${m.uses.length === 1 ? "" : "s"}` +
+              (m.missing.length > 0 ? ` · needs ${m.missing.length}` : ""),
+      }));
+  }, [planning, items, entries, recipes]);
+
+  const handlePickRecipe = async (recipe: Recipe) => {
+    if (!planning) return;
+    setBusy(true);
+    try {
+      const { addedToShoppingList } = await mealPlanService.planRecipe(
+        recipe,
+        planning.day,
+        planning.slot,
+        items
+      );
+      setPlanning(null);
+      if (addedToShoppingList.length > 0) {
+        Alert.alert(
+          "Added to shopping list",
+          `${addedToShoppingList.join(", ")} ${
+            addedToShoppingList.length === 1 ? "was" : "were"
+          } added for ${recipe.name}.`
+        );
+      }
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't plan that meal");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddText = async (title: string) => {
+    if (!planning) return;
+    setBusy(true);
+    try {
+      await mealPlanService.addEntry({
+        plannedFor: planning.day,
+        slot: planning.slot,
+        title,
+      });
+      setPlanning(null);
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't plan that meal");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCooked = async (uses: ItemUsage[]) => {
+    if (!cooking) return;
+    setBusy(true);
+    try {
+      await batchOperations.logRecipeUsage(uses);
+      await mealPlanService.setCooked(cooking.entry.id, true);
+      setCooking(null);
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't log what you cooked");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runEntryTask = async (task: () => Promise<unknown>) => {
+    try {
+      await task();
+      await load();
+    } catch (error) {
+      showError(error, "Couldn't update the meal plan");
+    }
+  };
+
+  const openEntry = (entry: MealPlanEntry) => {
+    const reserved = (entry.reserved_items ?? []).flatMap((r) => {
+      const item = itemsById.get(r.item_id);
+      return item ? [{ item, quantity: Math.min(r.quantity, item.quantity) }] : [];
+    });
+    Alert.alert(entry.title, dayLabel(entry.planned_for), [
+      entry.cooked_at
+        ? {
+            text: "Not cooked yet",
+            onPress: () => void runEntryTask(() => mealPlanService.setCooked(entry.id, false)),
+          }
+        : {
+            text: "Mark cooked",
+            onPress: () => {
+              if (reserved.length > 0) {
+                setCooking({ entry, rows: reserved });
+              } else {
+                void runEntryTask(() => mealPlanService.setCooked(entry.id, true));
+              }
+            },
+          },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => void runEntryTask(() => mealPlanService.deleteEntry(entry.id)),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await load();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const renderEntry = (entry: MealPlanEntry) => {
+    const reservedNames = (entry.reserved_items ?? [])
+      .map((r) => itemsById.get(r.item_id)?.name)
+      .filter(Boolean);
+    return (
+      <Pressable
+        key={entry.id}
+        style={({ pressed }) => [styles.entry, pressed && { opacity: 0.8 }]}
+        onPress={() => openEntry(entry)}
+        accessibilityRole="button"
+      >
+        <View style={{ flex: 1 }}>
+          <Text
+            style={[styles.entryTitle, entry.cooked_at ? styles.entryCooked : null]}
+            numberOfLines={1}
+          >
+            {entry.title}
+          </Text>
+          {reservedNames.length > 0 && !entry.cooked_at ? (
+            <Text style={styles.entryDetail} numberOfLines={1}>
+              Reserved: {reservedNames.join(", ")}
+            </Text>
+          ) : null}
+        </View>
+        {entry.cooked_at ? <CheckCircle size={18} color={UI.ok} weight="fill" /> : null}
+      </Pressable>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe} edges={["top", "right", "left"]}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        showsVerticalScrollIndicator={false}
+      >
+        <Pressable
+          style={styles.backWrap}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <CaretLeft size={18} color={UI.ink} weight="bold" />
+        </Pressable>
+
+        <Text style={styles.title}>Meal plan</Text>
+        <Text style={styles.subtitle}>
+          Planned recipes hold the items they need; missing ingredients go on your shopping
+          list.
+        </Text>
+
+        <View style={styles.weekNav}>
+          <Pressable
+            style={styles.weekNavBtn}
+            onPress={() => setWeekOffset((w) => w - 1)}
+            accessibilityLabel="Previous week"
+          >
+            <CaretLeft size={16} color={UI.ink} weight="bold" />
+          </Pressable>
+          <Text style={styles.weekLabel}>
+            {dayLabel(days[0]!)} – {dayLabel(days[days.length - 1]!)}
+          </Text>
+          <Pressable
+            style={styles.weekNavBtn}
+            onPress={() => setWeekOffset((w) => w + 1)}
+            accessibilityLabel="Next week"
+          >
+            <CaretRight size={16} color={UI.ink} weight="bold" />
+          </Pressable>
+        </View>
+
+        <View style={styles.list}>
+          {days.map((day) => (
+            <View key={day} style={styles.dayCard}>
+              <Text style={styles.dayTitle}>{dayLabel(day)}</Text>
+              {MEAL_SLOTS.map((slot, index) => {
+                const slotEntries = entries.filter(
+                  (e) => e.planned_for === day && e.slot === slot
+                );
+                return (
+                  <View key={slot} style={[styles.slotRow, index > 0 && styles.slotDivider]}>
+                    <Text style={styles.slotLabel}>{SLOT_LABELS[slot]}</Text>
+                    <View style={{ flex: 1 }}>{slotEntries.map(renderEntry)}</View>
+                    <Pressable
+                      style={styles.addBtn}
+                      onPress={() => setPlanning({ day, slot })}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Plan ${SLOT_LABELS[slot]} for ${dayLabel(day)}`}
+                    >
+                      <Plus size={14} color={UI.ok} weight="bold" />
+                    </Pressable>
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+
+        <View style={{ height: 90 }} />
+      </ScrollView>
+
+      <PlanMealModal
+        visible={planning !== null}
+        title={planning ? `${SLOT_LABELS[planning.slot]} · ${dayLabel(planning.day)}` : ""}
+        options={recipeOptions}
+        busy={busy}
+        onPickRecipe={(recipe) => void handlePickRecipe(recipe)}
+        onAddText={(title) => void handleAddText(title)}
+        onCancel={() => setPlanning(null)}
+      />
+      <CookRecipeModal
+        visible={cooking !== null}
+        title={cooking?.entry.title ?? ""}
+        rows={cooking?.rows ?? []}
+        busy={busy}
+        onConfirm={(uses) => void handleCooked(uses)}
+        onCancel={() => setCooking(null)}
+      />
+      <OfflineNoticeModal
+        visible={offlineNoticeVisible}
+        onDismiss={() => setOfflineNoticeVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: UI.bg,
+  },
+  content: {
+    paddingHorizontal: 18,
+    paddingTop: 10,
+  },
+  backWrap: {
+    width: 34,
+    height: 34,
+    borderRadius: 10,
+    borderWidth: 0.5,
+    borderColor: UI.border,
+    backgroundColor: UI.card,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    marginTop: 10,
+    fontSize: 22,
+    fontWeight: "800",
+    color: UI.ink,
+  },
+  subtitle: {
+    marginTop: 6,
+    fontSize: 13,
+    fontWeight: "600",
+    color: UI.muted,
+  },
+  weekNav: {
+    marginTop: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  weekNavBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 8,
+    borderWidth: 0.5,
+    borderColor: UI.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  weekLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: UI.ink,
+  },
+  list: {
+    marginTop: 14,
+    gap: 10,
+  },
+  dayCard: {
+    backgroundColor: UI.card,
+    borderWidth: 0.5,
+    borderColor: UI.border,
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  dayTitle: {
+    fontSize: 14,
+    fontWeight: "800",
+    color: UI.ink,
+    marginBottom: 4,
+  },
+  slotRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 10,
+    paddingVertical: 7,
+  },
+  slotDivider: {
+    borderTopWidth: 0.5,
+    borderTopColor: UI.divider,
+  },
+  slotLabel: {
+    width: 72,
+    fontSize: 12,
+    fontWeight: "700",
+    color: UI.muted,
+    paddingTop: 2,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingBottom: 4,
+  },
+  entryTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: UI.ink,
+  },
+  entryCooked: {
+    color: UI.muted,
+    textDecorationLine: "line-through",
+  },
+  entryDetail: {
+    marginTop: 1,
+    fontSize: 11,
+    fontWeight: "600",
+    color: UI.muted,
+  },
+  addBtn: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 0.5,
+    borderColor: UI.okBorder,
+    backgroundColor: UI.okBg,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
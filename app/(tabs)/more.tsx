@@ -18,11 +18,14 @@ import { LinearGradient } from "expo-linear-gradient";
 import {
   CaretRight,
   ChatCircleDots,
+  CookingPot,
   Gear,
   Info,
   SignOut,
+  UsersThree,
 } from "phosphor-react-native";
 import { supabase } from "@/lib/supabase";
+import { getInventoryScope, inventoryScopeFilter } from "@/services/householdService";
 
 // =============================================================================
 // INTERFACES
@@ -134,10 +137,18 @@ export default function MoreScreen() {
     router.push("/(tabs)/settings");
   }, []);
 
+  const navigateToHousehold = useCallback(() => {
+    router.push("/(tabs)/household");
+  }, []);
+
   const navigateToProfile = useCallback(() => {
     router.push("/(tabs)/profile");
   }, []);
 
+  const navigateToCook = useCallback(() => {
+    router.push("/(tabs)/cook");
+  }, []);
+
   const generateWasteReport = useCallback(() => {
     router.push("/(tabs)/waste-report");
   }, []);
@@ -187,6 +198,7 @@ export default function MoreScreen() {
     try {
       if (showLoading) setStatsLoading(true);
 
+      const scopeFilter = inventoryScopeFilter(await getInventoryScope(user.id));
       const [
         { data: activeRows, error: activeRowsErr },
         { data: usageRows, error: usageRowsErr },
@@ -194,7 +206,7 @@ export default function MoreScreen() {
         supabase
           .from("food_items")
           .select("id, category, quantity")
-          .eq("user_id", user.id)
+          .eq(scopeFilter.column, scopeFilter.value)
           .gt("quantity", 0),
         supabase
           .from("usage_logs")
@@ -207,7 +219,7 @@ export default function MoreScreen() {
             )
           `
           )
-          .eq("user_id", user.id)
+          .eq(scopeFilter.column, scopeFilter.value)
           .in("status", ["used", "wasted"]),
       ]);
 
@@ -292,6 +304,27 @@ export default function MoreScreen() {
           action: navigateToSettings,
           showChevron: true,
         },
+        {
+          id: "household",
+          title: "Household",
+          description: "Share your inventory with others",
+          icon: <UsersThree size={20} weight="bold" color={accentDark} />,
+          action: navigateToHousehold,
+          showChevron: true,
+        },
+      ],
+    },
+    {
+      title: "Kitchen",
+      items: [
+        {
+          id: "cook",
+          title: "Cook With What's Expiring",
+          description: "Recipes that use up items before they go off",
+          icon: <CookingPot size={20} weight="bold" color={accentDark} />,
+          action: navigateToCook,
+          showChevron: true,
+        },
       ],
     },
     {
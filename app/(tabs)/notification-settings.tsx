@@ -0,0 +1,700 @@
+import SafeAreaWrapper from "@/components/SafeAreaWrapper";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  digestTimesOfDay,
+  formatTimeOfDay,
+  MAX_DIGEST_TIMES,
+  parseTimeOfDay,
+} from "@/services/notificationDigestSchedule";
+import {
+  learnedSendTime,
+  MIN_PATTERN_SAMPLES,
+  shouldReduceFrequency,
+} from "@/services/notificationPattern";
+import {
+  getDefaultNotificationSettings,
+  loadNotificationPattern,
+  loadNotificationSettings,
+  NotificationSettings,
+  sanitizeNotificationSettings,
+  smartNotificationService,
+  UserNotificationPattern,
+} from "@/services/smartNotificationService";
+import { getErrorMessage } from "@/utils/networkError";
+import { Ionicons } from "@expo/vector-icons";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  View,
+} from "react-native";
+
+type Frequency = NotificationSettings["frequency"];
+
+const FREQUENCY_OPTIONS: { value: Frequency; title: string; description: string }[] = [
+  {
+    value: "realtime",
+    title: "As they come",
+    description: "Each reminder at the time set on its item",
+  },
+  {
+    value: "daily",
+    title: "Daily digest",
+    description: "One notification a day listing everything due",
+  },
+  {
+    value: "twice-daily",
+    title: "Twice a day",
+    description: "Morning and evening digests",
+  },
+  {
+    value: "custom",
+    title: "Custom",
+    description: `Up to ${MAX_DIGEST_TIMES} digest times`,
+  },
+];
+
+function timeToDate(hhmm: string): Date {
+  const minutes = parseTimeOfDay(hhmm) ?? 0;
+  const d = new Date();
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return d;
+}
+
+function timeLabel(hhmm: string): string {
+  return timeToDate(hhmm).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function percentLabel(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function responseTimeLabel(minutes: number): string {
+  if (minutes < 1) return "Under a minute";
+  if (minutes < 90) return `${Math.round(minutes)} min`;
+  return `${Math.round(minutes / 60)} h`;
+}
+
+function StatRow({ title, value }: { title: string; value: string }) {
+  return (
+    <View style={styles.optionRow}>
+      <View style={styles.settingContent}>
+        <ThemedText style={styles.settingTitle}>{title}</ThemedText>
+      </View>
+      <ThemedText style={styles.statValue}>{value}</ThemedText>
+    </View>
+  );
+}
+
+type TimeRowProps = {
+  title: string;
+  value: string;
+  editing: boolean;
+  onEdit: () => void;
+  onEditEnd: () => void;
+  onChange: (value: string) => void;
+  onRemove?: () => void;
+  disabled: boolean;
+};
+
+function TimeRow({
+  title,
+  value,
+  editing,
+  onEdit,
+  onEditEnd,
+  onChange,
+  onRemove,
+  disabled,
+}: TimeRowProps) {
+  const onPickerChange = (_event: unknown, date?: Date) => {
+    // Android shows its picker as a dialog that closes on any answer.
+    if (Platform.OS === "android") onEditEnd();
+    if (date) onChange(formatTimeOfDay(date.getHours() * 60 + date.getMinutes()));
+  };
+
+  return (
+    <View style={styles.optionRow}>
+      <View style={styles.settingContent}>
+        <ThemedText style={styles.settingTitle}>{title}</ThemedText>
+      </View>
+      {Platform.OS === "ios" ? (
+        <DateTimePicker
+          value={timeToDate(value)}
+          mode="time"
+          display="compact"
+          disabled={disabled}
+          onChange={onPickerChange}
+        />
+      ) : (
+        <>
+          <Pressable
+            onPress={onEdit}
+            disabled={disabled}
+            style={[styles.timeButton, disabled && styles.buttonDisabled]}
+            accessibilityRole="button"
+            accessibilityLabel={`${title}, ${timeLabel(value)}`}
+          >
+            <ThemedText style={styles.timeButtonText}>{timeLabel(value)}</ThemedText>
+          </Pressable>
+          {editing ? (
+            <DateTimePicker
+              value={timeToDate(value)}
+              mode="time"
+              display="default"
+              onChange={onPickerChange}
+            />
+          ) : null}
+        </>
+      )}
+      {onRemove ? (
+        <Pressable
+          onPress={onRemove}
+          disabled={disabled}
+          style={styles.removeButton}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove ${title}`}
+        >
+          <Ionicons name="close-circle-outline" size={20} color="#9CA3AF" />
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+/**
+ * Reminder Schedule Screen
+ * Whether item reminders arrive one by one or gathered into daily digests, the
+ * quiet hours every FridgeWise notification waits out, and what was learned from
+ * how the user answers reminders.
+ */
+export default function NotificationSettingsScreen() {
+  const { user } = useAuth();
+  const tabBarHeight = (useBottomTabBarHeight() as unknown as number) || 24;
+  const subTextColor = "#6B7280";
+
+  const [draft, setDraft] = useState<NotificationSettings>(getDefaultNotificationSettings);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [pattern, setPattern] = useState<UserNotificationPattern | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace({ pathname: "/(auth)/welcome" });
+        return;
+      }
+      let active = true;
+      void Promise.all([loadNotificationSettings(), loadNotificationPattern()]).then(
+        ([settings, learned]) => {
+          if (!active) return;
+          setDraft(settings);
+          setDirty(false);
+          setPattern(learned);
+        }
+      );
+      return () => {
+        active = false;
+      };
+    }, [user])
+  );
+
+  const update = (next: NotificationSettings) => {
+    setDraft(sanitizeNotificationSettings(next));
+    setDirty(true);
+  };
+
+  const shownDigestTimes = digestTimesOfDay(draft).map(formatTimeOfDay);
+
+  const setDigestTime = (index: number, value: string) => {
+    const times = [...shownDigestTimes];
+    times[index] = value;
+    update({ ...draft, digestTimes: times });
+  };
+
+  const removeDigestTime = (index: number) => {
+    update({ ...draft, digestTimes: shownDigestTimes.filter((_, i) => i !== index) });
+  };
+
+  const addDigestTime = () => {
+    const last = parseTimeOfDay(shownDigestTimes[shownDigestTimes.length - 1]) ?? 0;
+    const next = formatTimeOfDay(Math.min(last + 180, 23 * 60));
+    update({ ...draft, digestTimes: [...shownDigestTimes, next] });
+  };
+
+  const digestTimeTitle = (index: number) => {
+    if (draft.frequency === "daily") return "Send at";
+    if (draft.frequency === "twice-daily") return index === 0 ? "First digest" : "Second digest";
+    return `Digest ${index + 1}`;
+  };
+
+  const resetPattern = () => {
+    Alert.alert(
+      "Reset what was learned?",
+      "Reminders go back to the times you chose until FridgeWise learns again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: () => {
+            void (async () => {
+              try {
+                await smartNotificationService.resetUserPattern();
+                setPattern(await loadNotificationPattern());
+              } catch (error) {
+                Alert.alert("Error", getErrorMessage(error) || "Couldn't reset what was learned");
+              }
+            })();
+          },
+        },
+      ]
+    );
+  };
+
+  const learnedTime = pattern ? learnedSendTime(pattern) : null;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await smartNotificationService.updateSettings(draft);
+      setDraft(smartNotificationService.getSettings());
+      setDirty(false);
+    } catch (error) {
+      Alert.alert("Error", getErrorMessage(error) || "Couldn't save your reminder schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaWrapper usePadding edges={["top"]}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => router.replace("/(tabs)/settings")}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="arrow-back" size={21} color="#15803D" />
+          </Pressable>
+          <ThemedText style={styles.headerTitle}>Reminder Schedule</ThemedText>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: tabBarHeight + 26 },
+          ]}
+        >
+          <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+            Gather the day&apos;s item reminders into one notification, and keep
+            FridgeWise quiet overnight. Reminders due during quiet hours arrive when
+            they end.
+          </ThemedText>
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Delivery</ThemedText>
+          </View>
+          <View style={styles.section}>
+            {FREQUENCY_OPTIONS.map((option, index) => {
+              const selected = draft.frequency === option.value;
+              return (
+                <View key={option.value}>
+                  {index > 0 ? <View style={styles.settingsSeparator} /> : null}
+                  <Pressable
+                    onPress={() => update({ ...draft, frequency: option.value })}
+                    disabled={saving}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                    style={({ pressed }) => [styles.optionRow, pressed && styles.rowPressed]}
+                  >
+                    <View style={styles.settingContent}>
+                      <ThemedText style={styles.settingTitle}>{option.title}</ThemedText>
+                      <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+                        {option.description}
+                      </ThemedText>
+                    </View>
+                    <Ionicons
+                      name={selected ? "radio-button-on" : "radio-button-off"}
+                      size={20}
+                      color={selected ? "#16A34A" : "#9CA3AF"}
+                    />
+                  </Pressable>
+                </View>
+              );
+            })}
+          </View>
+
+          {draft.frequency !== "realtime" ? (
+            <>
+              <View style={styles.sectionTitleWrap}>
+                <ThemedText style={styles.sectionTitle}>Digest times</ThemedText>
+              </View>
+              <View style={styles.section}>
+                {shownDigestTimes.map((time, index) => (
+                  <View key={`${index}-${time}`}>
+                    {index > 0 ? <View style={styles.settingsSeparator} /> : null}
+                    <TimeRow
+                      title={digestTimeTitle(index)}
+                      value={time}
+                      editing={editing === `digest-${index}`}
+                      onEdit={() => setEditing(`digest-${index}`)}
+                      onEditEnd={() => setEditing(null)}
+                      onChange={(value) => setDigestTime(index, value)}
+                      onRemove={
+                        draft.frequency === "custom" && shownDigestTimes.length > 1
+                          ? () => removeDigestTime(index)
+                          : undefined
+                      }
+                      disabled={saving}
+                    />
+                  </View>
+                ))}
+                {draft.frequency === "custom" && shownDigestTimes.length < MAX_DIGEST_TIMES ? (
+                  <>
+                    <View style={styles.settingsSeparator} />
+                    <Pressable
+                      onPress={addDigestTime}
+                      disabled={saving}
+                      style={styles.linkButton}
+                    >
+                      <ThemedText style={styles.linkText}>Add a digest time</ThemedText>
+                    </Pressable>
+                  </>
+                ) : null}
+              </View>
+            </>
+          ) : null}
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Quiet hours</ThemedText>
+          </View>
+          <View style={styles.section}>
+            <View style={styles.optionRow}>
+              <View style={styles.settingContent}>
+                <ThemedText style={styles.settingTitle}>Quiet hours</ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+                  Hold notifications until they end
+                </ThemedText>
+              </View>
+              <Switch
+                value={draft.quietHours.enabled}
+                onValueChange={(enabled) =>
+                  update({ ...draft, quietHours: { ...draft.quietHours, enabled } })
+                }
+                disabled={saving}
+                trackColor={{ false: "#D4D4D8", true: "#22C55E" }}
+                thumbColor="#FFFFFF"
+                ios_backgroundColor="#D4D4D8"
+              />
+            </View>
+            {draft.quietHours.enabled ? (
+              <>
+                <View style={styles.settingsSeparator} />
+                <TimeRow
+                  title="From"
+                  value={draft.quietHours.start}
+                  editing={editing === "quiet-start"}
+                  onEdit={() => setEditing("quiet-start")}
+                  onEditEnd={() => setEditing(null)}
+                  onChange={(value) =>
+                    update({ ...draft, quietHours: { ...draft.quietHours, start: value } })
+                  }
+                  disabled={saving}
+                />
+                <View style={styles.settingsSeparator} />
+                <TimeRow
+                  title="Until"
+                  value={draft.quietHours.end}
+                  editing={editing === "quiet-end"}
+                  onEdit={() => setEditing("quiet-end")}
+                  onEditEnd={() => setEditing(null)}
+                  onChange={(value) =>
+                    update({ ...draft, quietHours: { ...draft.quietHours, end: value } })
+                  }
+                  disabled={saving}
+                />
+              </>
+            ) : null}
+          </View>
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Learned from you</ThemedText>
+          </View>
+          <View style={styles.section}>
+            <View style={styles.optionRow}>
+              <View style={styles.settingContent}>
+                <ThemedText style={styles.settingTitle}>Adapt to my habits</ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+                  Send digests when you usually respond, and fewer if you mostly dismiss them
+                </ThemedText>
+              </View>
+              <Switch
+                value={draft.adaptiveTiming}
+                onValueChange={(adaptiveTiming) => update({ ...draft, adaptiveTiming })}
+                disabled={saving}
+                trackColor={{ false: "#D4D4D8", true: "#22C55E" }}
+                thumbColor="#FFFFFF"
+                ios_backgroundColor="#D4D4D8"
+              />
+            </View>
+            <View style={styles.settingsSeparator} />
+            {pattern && pattern.samples >= MIN_PATTERN_SAMPLES ? (
+              <>
+                <StatRow
+                  title="You usually respond around"
+                  value={learnedTime ? timeLabel(learnedTime) : "No clear time yet"}
+                />
+                <View style={styles.settingsSeparator} />
+                <StatRow title="Acted on" value={percentLabel(pattern.actionTakenRate)} />
+                <View style={styles.settingsSeparator} />
+                <StatRow title="Dismissed" value={percentLabel(pattern.dismissalRate)} />
+                <View style={styles.settingsSeparator} />
+                <StatRow
+                  title="Typical response time"
+                  value={responseTimeLabel(pattern.avgResponseTime)}
+                />
+                {shouldReduceFrequency(pattern) ? (
+                  <>
+                    <View style={styles.settingsSeparator} />
+                    <StatRow title="Reminders" value="Once a day" />
+                  </>
+                ) : null}
+              </>
+            ) : (
+              <StatRow
+                title="Still learning"
+                value={`${pattern?.samples ?? 0} of ${MIN_PATTERN_SAMPLES} responses`}
+              />
+            )}
+            {pattern && pattern.samples > 0 ? (
+              <>
+                <View style={styles.settingsSeparator} />
+                <Pressable onPress={resetPattern} disabled={saving} style={styles.linkButton}>
+                  <ThemedText style={styles.linkText}>Reset what was learned</ThemedText>
+                </Pressable>
+              </>
+            ) : null}
+          </View>
+
+          <View style={styles.buttonRow}>
+            <Pressable
+              style={[styles.secondaryButton, styles.buttonFlex, saving && styles.buttonDisabled]}
+              onPress={() => update(getDefaultNotificationSettings())}
+              disabled={saving}
+            >
+              <ThemedText style={styles.secondaryButtonText}>Reset to defaults</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.primaryButton,
+                styles.buttonFlex,
+                (!dirty || saving) && styles.buttonDisabled,
+              ]}
+              onPress={() => void save()}
+              disabled={!dirty || saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>Save</ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 6,
+    paddingBottom: 10,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 18,
+    top: 8,
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 2,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontSize: 30,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "800",
+    color: "#197C47",
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 36,
+    letterSpacing: -0.5,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 34,
+    paddingTop: 6,
+  },
+  section: {
+    borderRadius: 14,
+    marginBottom: 16,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: "#F3F4F6",
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000000",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 2,
+  },
+  sectionTitleWrap: {
+    paddingLeft: 4,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#15803D",
+    letterSpacing: 0.1,
+  },
+  helpText: {
+    fontSize: 12,
+    lineHeight: 17,
+    fontWeight: "500",
+    marginBottom: 14,
+    paddingHorizontal: 4,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+  },
+  settingContent: {
+    flex: 1,
+    paddingRight: 10,
+  },
+  settingTitle: {
+    fontSize: 14,
+    fontFamily: "PlusJakartaSans_600SemiBold",
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#6B7280",
+  },
+  settingsSeparator: {
+    height: 1,
+    marginHorizontal: 16,
+    backgroundColor: "#E5E7EB",
+  },
+  rowPressed: {
+    opacity: 0.78,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#15803D",
+  },
+  timeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#BBF7D0",
+    backgroundColor: "#F0FDF4",
+  },
+  timeButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#15803D",
+  },
+  removeButton: {
+    marginLeft: 8,
+    padding: 2,
+  },
+  linkButton: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#15803D",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  buttonFlex: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: "#22C55E",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  buttonDisabled: {
+    opacity: 0.55,
+  },
+});
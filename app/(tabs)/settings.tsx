@@ -8,6 +8,7 @@ import {
   clearAllAppData,
   deleteUserAccount,
 } from "@/services/accountDataService";
+import { offlineSyncService } from "@/services/offlineSyncService";
 import { Ionicons } from "@expo/vector-icons";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { router } from "expo-router";
@@ -128,10 +129,19 @@ export default function SettingsScreen() {
   const [showExportSoon, setShowExportSoon] = useState(false);
   const [dataBusy, setDataBusy] = useState<DataBusyOp>(false);
   const [dataModal, setDataModal] = useState<SettingsDataModal>(null);
+  const [conflictCount, setConflictCount] = useState(0);
 
   const closeDataModal = useCallback(() => setDataModal(null), []);
   const anyDataBusy = dataBusy !== false;
 
+  useEffect(
+    () =>
+      offlineSyncService.subscribe((state) => {
+        setConflictCount(state.conflicts.length);
+      }),
+    []
+  );
+
   useEffect(() => {
     if (!showExportSoon) return;
     const timer = setTimeout(() => setShowExportSoon(false), 2600);
@@ -341,6 +351,44 @@ export default function SettingsScreen() {
               primaryColor={primaryColor}
               subTextColor={subTextColor}
             />
+            <View style={styles.settingsSeparator} />
+            <ActionRow
+              icon="alarm-outline"
+              title="Reminder Schedule"
+              description="Digest times, quiet hours and learned timing"
+              onPress={() => router.push("/(tabs)/notification-settings")}
+              subTextColor={subTextColor}
+            />
+            <View style={styles.settingsSeparator} />
+            <ActionRow
+              icon="color-palette-outline"
+              title="Expiry Urgency"
+              description="Choose when items turn orange and yellow"
+              onPress={() => router.push("/(tabs)/urgency-settings")}
+              subTextColor={subTextColor}
+            />
+          </View>
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Sync</ThemedText>
+          </View>
+          <View
+            style={[
+              styles.section,
+              { backgroundColor: cardBackgroundColor, borderColor: cardBorderColor },
+            ]}
+          >
+            <ActionRow
+              icon="cloud-offline-outline"
+              title="Offline Edits"
+              description={
+                conflictCount > 0
+                  ? `${conflictCount} ${conflictCount === 1 ? "edit needs" : "edits need"} your review`
+                  : "Choose how edits made offline are merged"
+              }
+              onPress={() => router.push("/(tabs)/sync-conflicts")}
+              subTextColor={subTextColor}
+            />
           </View>
 
           <View style={styles.sectionTitleWrap}>
@@ -8,8 +8,33 @@ import SkeletonBlock from "@/components/SkeletonBlock";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useAuth } from "@/contexts/AuthContext";
-import { SHOPPING_LIST_STORAGE_KEY } from "@/services/groceryListStorage";
-import { GROCERY_CATEGORY_OPTIONS, GROCERY_CATEGORY_ORDER } from "@/lib/foodCategories";
+import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { ParLevelsModal } from "@/components/ParLevelsModal";
+import { PriceInput } from "@/components/PriceInput";
+import { PutAwayGroceriesModal } from "@/components/PutAwayGroceriesModal";
+import { ShoppingSuggestionsCard } from "@/components/ShoppingSuggestionsCard";
+import {
+  SHOPPING_LIST_STORAGE_KEY,
+  StoredGroceryItem,
+} from "@/services/groceryListStorage";
+import { shoppingListService } from "@/services/shoppingListService";
+import {
+  loadPreferredCurrency,
+  rememberPreferredCurrency,
+} from "@/services/currencyPreference";
+import { shoppingSuggestionService } from "@/services/shoppingSuggestionService";
+import {
+  draftPutAway,
+  PutAwayDraft,
+  putAwayService,
+} from "@/services/putAwayService";
+import { shelfLifeService } from "@/services/shelfLifeService";
+import {
+  categoryLabelForInsights,
+  GROCERY_CATEGORY_OPTIONS,
+  GROCERY_CATEGORY_ORDER,
+} from "@/lib/foodCategories";
+import { ParLevel } from "@/lib/supabase";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
@@ -34,10 +59,24 @@ import { router } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import {
+  DEFAULT_CURRENCY,
+  formatMoney,
+  parsePriceInput,
+  PriceMode,
+  resolveItemPrice,
+} from "@/utils/itemPrice";
 import {
   MAX_INVENTORY_QUANTITY,
   sanitizeQuantityInputString,
 } from "@/utils/quantityLimits";
+import {
+  getErrorMessage,
+  isNetworkRequestFailed,
+  isOfflineLikeError,
+} from "@/utils/networkError";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+import { ShoppingSuggestion } from "@/utils/shoppingSuggestions";
 
 // =============================================================================
 // INTERFACES
@@ -54,6 +93,9 @@ interface GroceryItem {
   completed: boolean;
   addedDate: Date;
   notes?: string;
+  price?: number | null;
+  pricePerUnit?: number | null;
+  currency?: string | null;
 }
 
 type GrocerySection = {
@@ -83,6 +125,41 @@ const UNIT_OPTIONS = [
   "portion",
 ] as const;
 
+function fromStoredGroceryItem(it: StoredGroceryItem): GroceryItem {
+  const status: GroceryItem["status"] = it.status ?? "list";
+  return {
+    ...it,
+    status,
+    priority: it.priority ?? "medium",
+    completed: status !== "list",
+    addedDate: it.addedDate ? new Date(it.addedDate) : new Date(),
+  };
+}
+
+function toStoredGroceryItem(it: GroceryItem): StoredGroceryItem {
+  return { ...it, addedDate: it.addedDate.toISOString() };
+}
+
+/** Grocery category label for an inventory category, when the list has one. */
+function groceryCategoryFor(raw: string | null): string {
+  if (!raw) return "";
+  const label = categoryLabelForInsights(raw);
+  return CATEGORY_ORDER.includes(label as any) ? label : "";
+}
+
+/** "2 pcs · $3.50" when the entry has a price. */
+function groceryMeta(it: GroceryItem): string {
+  const qty = formatQuantityWithUnit(it.quantity, it.unit, { fallbackUnit: "pcs" });
+  if (it.price == null) return qty;
+  return `${qty} · ${formatMoney(it.price, it.currency || DEFAULT_CURRENCY)}`;
+}
+
+/** Params that carry an entry's price onto the add screen. */
+function priceParams(it: GroceryItem): { price?: string; currency?: string } {
+  if (it.price == null) return {};
+  return { price: String(it.price), currency: it.currency || undefined };
+}
+
 function grocerySheetQuantityValid(raw: string): boolean {
   const s = sanitizeQuantityInputString(raw, { allowEmpty: true });
   if (s === "") return false;
@@ -95,7 +172,7 @@ function grocerySheetQuantityValid(raw: string): boolean {
 // =============================================================================
 
 export default function ShoppingListScreen() {
-  useAuth();
+  const { user } = useAuth();
   const insets = useSafeAreaInsets();
   const [shoppingList, setShoppingList] = useState<GroceryItem[]>([]);
   const [initialLoading, setInitialLoading] = useState(true);
@@ -112,6 +189,16 @@ export default function ShoppingListScreen() {
   const [draftQtyStr, setDraftQtyStr] = useState("1");
   const [draftUnit, setDraftUnit] = useState<(typeof UNIT_OPTIONS)[number]>("pcs");
   const [unitOpen, setUnitOpen] = useState(false);
+  const [draftPriceStr, setDraftPriceStr] = useState("");
+  const [draftPriceMode, setDraftPriceMode] = useState<PriceMode>("total");
+  const [draftCurrency, setDraftCurrency] = useState(DEFAULT_CURRENCY);
+  const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+  const [suggestions, setSuggestions] = useState<ShoppingSuggestion[]>([]);
+  const [parLevels, setParLevels] = useState<ParLevel[]>([]);
+  const [parOpen, setParOpen] = useState(false);
+  const [parBusy, setParBusy] = useState(false);
+  const [putAwayDrafts, setPutAwayDrafts] = useState<PutAwayDraft[] | null>(null);
+  const [putAwayBusy, setPutAwayBusy] = useState(false);
 
   // Fixed light theme colors – match other pages
   const backgroundColor = "#FFFFFF";
@@ -126,54 +213,78 @@ export default function ShoppingListScreen() {
   // DATA LOADING
   // =============================================================================
 
+  /** Replace the list with the cloud copy (also refreshes the AsyncStorage cache). */
+  const loadFromCloud = useCallback(async () => {
+    if (!user) return;
+    try {
+      const items = await shoppingListService.getItems();
+      setShoppingList(items.map(fromStoredGroceryItem));
+    } catch (e) {
+      if (!isNetworkRequestFailed(e)) {
+        console.warn("Failed to sync shopping list", e);
+      }
+    }
+  }, [user]);
+
+  /** Restock suggestions and par levels; they stay as they were when offline. */
+  const loadSuggestions = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [nextSuggestions, nextParLevels] = await Promise.all([
+        shoppingSuggestionService.getSuggestions(user.id),
+        shoppingSuggestionService.getParLevels(),
+      ]);
+      setSuggestions(nextSuggestions);
+      setParLevels(nextParLevels);
+    } catch (e) {
+      if (!isNetworkRequestFailed(e)) {
+        console.warn("Failed to load shopping suggestions", e);
+      }
+    }
+  }, [user]);
+
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    // No auto-generated items; keep the user's list.
+    await Promise.all([loadFromCloud(), loadSuggestions()]);
     setRefreshing(false);
-  }, []);
+  }, [loadFromCloud, loadSuggestions]);
 
-  // Load saved list on mount
+  // Show the cached list immediately, then replace it with the cloud copy.
   useEffect(() => {
     (async () => {
       try {
         const raw = await AsyncStorage.getItem(SHOPPING_LIST_STORAGE_KEY);
-        if (!raw) return;
-        const parsed: any[] = JSON.parse(raw);
-        const restored: GroceryItem[] = parsed.map((it) => {
-          const status: GroceryItem["status"] = it.status ?? "list";
-          return {
-            ...it,
-            status,
-            completed: status !== "list",
-            addedDate: it.addedDate ? new Date(it.addedDate) : new Date(),
-          };
-        });
-        setShoppingList(restored);
+        if (raw) {
+          const parsed: StoredGroceryItem[] = JSON.parse(raw);
+          setShoppingList(parsed.map(fromStoredGroceryItem));
+        }
       } catch (e) {
         console.warn("Failed to load shopping list", e);
       } finally {
         setInitialLoading(false);
       }
+      await loadFromCloud();
     })();
-  }, []);
+  }, [loadFromCloud]);
+
+  useEffect(() => {
+    void loadSuggestions();
+  }, [loadSuggestions]);
 
-  // Persist list whenever it changes
+  // Keep the AsyncStorage cache in step for background tasks and offline launches.
   useEffect(() => {
+    if (initialLoading) return;
     (async () => {
       try {
-        const toStore = shoppingList.map((it) => ({
-          ...it,
-          addedDate: it.addedDate.toISOString(),
-        }));
         await AsyncStorage.setItem(
           SHOPPING_LIST_STORAGE_KEY,
-          JSON.stringify(toStore)
+          JSON.stringify(shoppingList.map(toStoredGroceryItem))
         );
       } catch (e) {
         console.warn("Failed to save shopping list", e);
       }
     })();
-  }, [shoppingList]);
+  }, [shoppingList, initialLoading]);
 
   // =============================================================================
   // ACTIONS
@@ -183,12 +294,60 @@ export default function ShoppingListScreen() {
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
   };
 
+  /**
+   * Optimistic write: the list already shows the change; roll back to `previous`
+   * when the cloud rejects it. Changes made offline are kept by the service and
+   * sent on the next load, so they don't land here.
+   */
+  const syncChange = useCallback(
+    async (previous: GroceryItem[], task: () => Promise<void>) => {
+      try {
+        await task();
+      } catch (e) {
+        animateListChange();
+        setShoppingList(previous);
+        if (isOfflineLikeError(e, { hasAuthenticatedUser: Boolean(user) })) {
+          setOfflineNoticeVisible(true);
+        } else {
+          Alert.alert(
+            "Groceries",
+            getErrorMessage(e) || "Couldn't save your change. Please try again."
+          );
+        }
+      }
+    },
+    [user]
+  );
+
+  /** Optimistically prepends `items`, then inserts them in the cloud one by one. */
+  const insertItems = useCallback(
+    (items: GroceryItem[]) => {
+      const previous = shoppingList;
+      setShoppingList((prev) => [...items, ...prev]);
+      void syncChange(previous, async () => {
+        for (const item of items) {
+          const saved = await shoppingListService.addItem(toStoredGroceryItem(item));
+          // Swap the temporary id for the cloud row's id.
+          setShoppingList((prev) =>
+            prev.map((it) =>
+              it.id === item.id ? { ...fromStoredGroceryItem(saved), ...it, id: saved.id } : it
+            )
+          );
+        }
+      });
+    },
+    [shoppingList, syncChange]
+  );
+
   const openAdd = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setDraftName("");
     setDraftCategory("");
     setDraftQtyStr("1");
     setDraftUnit("pcs");
+    setDraftPriceStr("");
+    setDraftPriceMode("total");
+    loadPreferredCurrency().then(setDraftCurrency);
     setUnitOpen(false);
     setEditingId(null);
     setAddOpen(true);
@@ -201,6 +360,10 @@ export default function ShoppingListScreen() {
       setDraftCategory(item.category || "");
       setDraftQtyStr(String(item.quantity));
       setDraftUnit((item.unit as (typeof UNIT_OPTIONS)[number]) || "pcs");
+      setDraftPriceStr(item.price != null ? String(item.price) : "");
+      setDraftPriceMode("total");
+      if (item.currency) setDraftCurrency(item.currency);
+      else loadPreferredCurrency().then(setDraftCurrency);
       setUnitOpen(false);
       setEditingId(item.id);
       setAddOpen(true);
@@ -221,46 +384,184 @@ export default function ShoppingListScreen() {
         parseInt(sanitizeQuantityInputString(draftQtyStr || "1"), 10) || 1
       )
     );
+    const resolved = resolveItemPrice(
+      parsePriceInput(draftPriceStr),
+      draftPriceMode,
+      safeQty,
+      draftCurrency
+    );
+    const price = {
+      price: resolved.price,
+      pricePerUnit: resolved.price_per_unit,
+      currency: resolved.currency,
+    };
+    if (price.price != null) void rememberPreferredCurrency(draftCurrency);
     animateListChange();
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
+    const previous = shoppingList;
     if (editingId) {
+      const id = editingId;
       setShoppingList((prev) =>
         prev.map((it) =>
-          it.id === editingId
+          it.id === id
             ? {
                 ...it,
                 name,
                 category: draftCategory,
                 quantity: safeQty,
                 unit: draftUnit,
+                ...price,
               }
             : it
         )
       );
+      void syncChange(previous, async () => {
+        await shoppingListService.updateItem(id, {
+          name,
+          category: draftCategory,
+          quantity: safeQty,
+          unit: draftUnit,
+          ...price,
+        });
+      });
     } else {
-      const item: GroceryItem = {
-        id: `manual-${Date.now()}`,
-        name,
-        category: draftCategory,
-        quantity: safeQty,
-        unit: draftUnit,
-        status: "list",
-        priority: "medium",
-        completed: false,
-        addedDate: new Date(),
-      };
-      setShoppingList((prev) => [item, ...prev]);
+      insertItems([
+        {
+          id: `manual-${Date.now()}`,
+          name,
+          category: draftCategory,
+          quantity: safeQty,
+          unit: draftUnit,
+          ...price,
+          status: "list",
+          priority: "medium",
+          completed: false,
+          addedDate: new Date(),
+        },
+      ]);
     }
 
     setAddOpen(false);
     setEditingId(null);
-  }, [draftCategory, draftName, draftQtyStr, draftUnit, editingId]);
+  }, [
+    draftCategory,
+    draftCurrency,
+    draftName,
+    draftPriceMode,
+    draftPriceStr,
+    draftQtyStr,
+    draftUnit,
+    editingId,
+    insertItems,
+    shoppingList,
+    syncChange,
+  ]);
+
+  /** Suggestions not already waiting on the list. */
+  const visibleSuggestions = useMemo(() => {
+    const listed = new Set(
+      shoppingList
+        .filter((it) => it.status === "list")
+        .map((it) => normalizeFoodNameForGrouping(it.name))
+    );
+    return suggestions.filter((s) => !listed.has(s.key));
+  }, [shoppingList, suggestions]);
+
+  const addSuggestions = useCallback(
+    (picked: ShoppingSuggestion[]) => {
+      if (picked.length === 0) return;
+      animateListChange();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      const now = Date.now();
+      insertItems(
+        picked.map((s, i) => ({
+          id: `suggested-${now}-${i}`,
+          name: s.name,
+          category: groceryCategoryFor(s.category),
+          quantity: Math.min(MAX_INVENTORY_QUANTITY, s.quantity),
+          unit: s.unit || "pcs",
+          status: "list",
+          priority: s.priority,
+          completed: false,
+          addedDate: new Date(),
+          notes: s.reason,
+        }))
+      );
+    },
+    [insertItems]
+  );
+
+  const boughtCount = shoppingList.filter((it) => it.status === "bought").length;
+
+  const openPutAway = useCallback(async () => {
+    if (!user) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const sources = await shelfLifeService.loadSources(user.id);
+    setPutAwayDrafts(draftPutAway(shoppingList.map(toStoredGroceryItem), sources));
+  }, [shoppingList, user]);
+
+  const confirmPutAway = useCallback(
+    async (drafts: PutAwayDraft[]) => {
+      setPutAwayBusy(true);
+      try {
+        const moved = new Set(await putAwayService.putAway(drafts));
+        animateListChange();
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        setShoppingList((prev) =>
+          prev.map((it) =>
+            moved.has(it.id) ? { ...it, status: "fridge", completed: true } : it
+          )
+        );
+        setPutAwayDrafts(null);
+        void loadSuggestions();
+      } catch (e) {
+        setPutAwayDrafts(null);
+        if (isOfflineLikeError(e, { hasAuthenticatedUser: Boolean(user) })) {
+          setOfflineNoticeVisible(true);
+        } else {
+          Alert.alert(
+            "Put away groceries",
+            getErrorMessage(e) || "Couldn't add everything. Please try again."
+          );
+        }
+        await loadFromCloud();
+      } finally {
+        setPutAwayBusy(false);
+      }
+    },
+    [loadFromCloud, loadSuggestions, user]
+  );
+
+  const runParTask = useCallback(
+    async (task: () => Promise<unknown>) => {
+      setParBusy(true);
+      try {
+        await task();
+        setParLevels(await shoppingSuggestionService.getParLevels());
+        void loadSuggestions();
+      } catch (e) {
+        if (isOfflineLikeError(e, { hasAuthenticatedUser: Boolean(user) })) {
+          setParOpen(false);
+          setOfflineNoticeVisible(true);
+        } else {
+          Alert.alert(
+            "Minimum stock",
+            getErrorMessage(e) || "Couldn't save your change. Please try again."
+          );
+        }
+      } finally {
+        setParBusy(false);
+      }
+    },
+    [loadSuggestions, user]
+  );
 
   const setItemStatus = useCallback(
     (itemId: string, status: GroceryItem["status"]) => {
       animateListChange();
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      const previous = shoppingList;
       setShoppingList((prev) =>
         prev.map((item) =>
           item.id === itemId
@@ -272,15 +573,20 @@ export default function ShoppingListScreen() {
             : item
         )
       );
+      void syncChange(previous, async () => {
+        await shoppingListService.updateItem(itemId, { status });
+      });
     },
-    []
+    [shoppingList, syncChange]
   );
 
   const removeItem = useCallback((itemId: string) => {
     animateListChange();
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const previous = shoppingList;
     setShoppingList((prev) => prev.filter((item) => item.id !== itemId));
-  }, []);
+    void syncChange(previous, () => shoppingListService.deleteItem(itemId));
+  }, [shoppingList, syncChange]);
 
   // =============================================================================
   // RENDER HELPERS
@@ -343,11 +649,7 @@ export default function ShoppingListScreen() {
           {!collapsed && (
             <View style={styles.categoryGroupBody}>
               {section.data.map((sectionItem: GroceryItem, index: number) => {
-                const meta = formatQuantityWithUnit(
-                  sectionItem.quantity,
-                  sectionItem.unit,
-                  { fallbackUnit: "pcs" }
-                );
+                const meta = groceryMeta(sectionItem);
                 const muted = sectionItem.completed;
                 const isLast = index === section.data.length - 1;
                 return (
@@ -434,6 +736,7 @@ export default function ShoppingListScreen() {
                                 quantity: String(sectionItem.quantity),
                                 unit: sectionItem.unit || "pcs",
                                 category: sectionItem.category,
+                                ...priceParams(sectionItem),
                               },
                             });
                           }}
@@ -483,9 +786,7 @@ export default function ShoppingListScreen() {
     }
 
     // Fallback (shouldn't be hit often) – single item card
-    const meta = formatQuantityWithUnit(item.quantity, item.unit, {
-      fallbackUnit: "pcs",
-    });
+    const meta = groceryMeta(item);
     const muted = item.status !== "list";
 
     return (
@@ -531,6 +832,7 @@ export default function ShoppingListScreen() {
                         quantity: String(item.quantity),
                         unit: item.unit || "pcs",
                         category: item.category,
+                        ...priceParams(item),
                       },
                     })
                   }
@@ -640,6 +942,32 @@ export default function ShoppingListScreen() {
             <>
               {/* Simple centered Add button */}
               <View style={styles.addButtonSpacer} />
+              {boughtCount > 0 ? (
+                <TouchableOpacity
+                  style={styles.putAwayButton}
+                  onPress={() => void openPutAway()}
+                  activeOpacity={0.9}
+                  accessibilityRole="button"
+                  accessibilityLabel="Put away bought groceries"
+                >
+                  <Image
+                    source={fridgePng}
+                    style={{ width: 16, height: 16, tintColor: "#FFFFFF" }}
+                    resizeMode="contain"
+                  />
+                  <Text style={styles.putAwayButtonText}>
+                    Put away {boughtCount} bought {boughtCount === 1 ? "item" : "items"}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+              {!initialLoading && user ? (
+                <ShoppingSuggestionsCard
+                  suggestions={visibleSuggestions}
+                  onAdd={(s) => addSuggestions([s])}
+                  onAddAll={() => addSuggestions(visibleSuggestions)}
+                  onManageMinimums={() => setParOpen(true)}
+                />
+              ) : null}
             </>
           }
           renderSectionHeader={() => null}
@@ -696,6 +1024,27 @@ export default function ShoppingListScreen() {
           </TouchableOpacity>
         </View>
 
+        <PutAwayGroceriesModal
+          visible={putAwayDrafts !== null}
+          drafts={putAwayDrafts ?? []}
+          busy={putAwayBusy}
+          onConfirm={(drafts) => void confirmPutAway(drafts)}
+          onCancel={() => setPutAwayDrafts(null)}
+        />
+
+        <ParLevelsModal
+          visible={parOpen}
+          parLevels={parLevels}
+          busy={parBusy}
+          onSave={(level) =>
+            void runParTask(() => shoppingSuggestionService.setParLevel(level))
+          }
+          onRemove={(level) =>
+            void runParTask(() => shoppingSuggestionService.removeParLevel(level.id))
+          }
+          onClose={() => setParOpen(false)}
+        />
+
         <Modal
           visible={addOpen}
           transparent
@@ -915,6 +1264,16 @@ export default function ShoppingListScreen() {
                 </View>
               </View>
 
+              <PriceInput
+                amount={draftPriceStr}
+                onChangeAmount={setDraftPriceStr}
+                mode={draftPriceMode}
+                onChangeMode={setDraftPriceMode}
+                currency={draftCurrency}
+                onChangeCurrency={setDraftCurrency}
+                unit={draftUnit}
+              />
+
               {/* Actions */}
               {/** All fields must be filled for Add to be active */}
               <View style={styles.sheetActions}>
@@ -950,6 +1309,10 @@ export default function ShoppingListScreen() {
             </View>
           </View>
         </Modal>
+        <OfflineNoticeModal
+          visible={offlineNoticeVisible}
+          onDismiss={() => setOfflineNoticeVisible(false)}
+        />
       </ThemedView>
     </ScreenLayout>
   );
@@ -1061,6 +1424,21 @@ const styles = StyleSheet.create({
   addButtonSpacer: {
     height: 6,
   },
+  putAwayButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    height: 42,
+    borderRadius: 21,
+    backgroundColor: "#197C47",
+    marginBottom: 14,
+  },
+  putAwayButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "700",
+  },
   bottomAddWrap: {
     position: "absolute",
     left: 0,
@@ -0,0 +1,606 @@
+import SafeAreaWrapper from "@/components/SafeAreaWrapper";
+import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useAuth } from "@/contexts/AuthContext";
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "@/lib/foodLocations";
+import { FoodItem } from "@/lib/supabase";
+import { foodItemsService } from "@/services/foodItems";
+import {
+  ConflictField,
+  ConflictFieldPicks,
+  ConflictStrategy,
+  differingConflictFields,
+  localConflictRow,
+  mergeConflictFields,
+  offlineSyncService,
+  SyncConflict,
+} from "@/services/offlineSyncService";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import { getErrorMessage, isOfflineLikeError } from "@/utils/networkError";
+import { Ionicons } from "@expo/vector-icons";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+
+const STRATEGY_OPTIONS: {
+  value: ConflictStrategy;
+  title: string;
+  description: string;
+}[] = [
+  {
+    value: "merge",
+    title: "Merge automatically",
+    description: "Keep changes from both sides; the server wins where both edited the same field",
+  },
+  {
+    value: "manual",
+    title: "Ask me",
+    description: "Hold conflicting edits here so you can pick per field",
+  },
+  {
+    value: "local_wins",
+    title: "Keep this device's edits",
+    description: "Offline edits overwrite changes made elsewhere",
+  },
+  {
+    value: "remote_wins",
+    title: "Keep the server version",
+    description: "Offline edits are dropped when someone else changed the item",
+  },
+];
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  quantity: "Quantity",
+  expiry_date: "Expiry date",
+  location: "Location",
+  notes: "Notes",
+};
+
+function formatFieldValue(field: ConflictField, item: FoodItem): string {
+  switch (field) {
+    case "quantity":
+      return formatQuantityWithUnit(item.quantity, item.unit);
+    case "expiry_date": {
+      if (!item.expiry_date) return "No date";
+      const [y, m, d] = item.expiry_date.split("-").map(Number);
+      return new Date(y, m - 1, d).toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      });
+    }
+    case "location":
+      return FOOD_LOCATION_LABELS[toFoodLocation(item.location)];
+    case "notes":
+      return item.notes?.trim() || "No notes";
+  }
+}
+
+function describeConflict(conflict: SyncConflict): string {
+  if (conflict.reason === "rejected") {
+    return conflict.message || "The server didn't accept this change.";
+  }
+  if (!conflict.remote) return "This item was removed on another device.";
+  switch (conflict.mutation.kind) {
+    case "deleteItem":
+      return "You deleted this item offline, but it was changed on another device.";
+    case "logUsage":
+      return "You logged usage offline while the quantity changed on another device.";
+    default:
+      return "Edited on this device while offline and on another device meanwhile.";
+  }
+}
+
+/**
+ * Sync Conflicts Screen
+ * Review offline edits that collided with changes from another device and pick a
+ * version per field. Also chooses how future collisions are handled.
+ */
+export default function SyncConflictsScreen() {
+  const { user } = useAuth();
+  const tabBarHeight = (useBottomTabBarHeight() as unknown as number) || 24;
+  const subTextColor = "#6B7280";
+
+  const [conflicts, setConflicts] = useState<SyncConflict[] | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy | null>(null);
+  const [picks, setPicks] = useState<Record<string, ConflictFieldPicks>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+
+  useEffect(
+    () =>
+      offlineSyncService.subscribe((state) => {
+        setConflicts(state.conflicts);
+      }),
+    []
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace({ pathname: "/(auth)/welcome" });
+        return;
+      }
+      void offlineSyncService.getStrategy().then(setStrategy);
+      void offlineSyncService.getConflicts().then(setConflicts);
+    }, [user])
+  );
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      if (isOfflineLikeError(error, { hasAuthenticatedUser: Boolean(user?.id) })) {
+        setOfflineNoticeVisible(true);
+        return;
+      }
+      Alert.alert("Error", getErrorMessage(error) || fallback);
+    },
+    [user?.id]
+  );
+
+  const chooseStrategy = async (next: ConflictStrategy) => {
+    setStrategy(next);
+    await offlineSyncService.setStrategy(next);
+  };
+
+  const pick = (conflictId: string, field: ConflictField, side: "local" | "remote") => {
+    setPicks((prev) => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [field]: side },
+    }));
+  };
+
+  const resolve = async (conflict: SyncConflict, task: () => Promise<void>) => {
+    setBusyId(conflict.id);
+    try {
+      await task();
+      await offlineSyncService.dismissConflict(conflict.id);
+      setPicks((prev) => {
+        const next = { ...prev };
+        delete next[conflict.id];
+        return next;
+      });
+    } catch (error) {
+      showError(error, "Couldn't save your choice");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveMerged = (conflict: SyncConflict) =>
+    resolve(conflict, async () => {
+      const { mutation, remote } = conflict;
+      if (mutation.kind === "logUsage") {
+        // Log it again rather than overwrite the count, so it stays in History.
+        const keep = (picks[conflict.id]?.quantity ?? "local") === "local";
+        const quantity = Math.min(mutation.quantity, remote?.quantity ?? 0);
+        if (keep && quantity > 0) {
+          await foodItemsService.logUsage(conflict.itemId, mutation.status, quantity);
+        }
+        return;
+      }
+      const updates = mergeConflictFields(conflict, picks[conflict.id] ?? {});
+      if (Object.keys(updates).length > 0) {
+        await foodItemsService.updateItem(conflict.itemId, updates);
+      }
+    });
+
+  const renderFieldRows = (conflict: SyncConflict) => {
+    const local = localConflictRow(conflict);
+    const { remote } = conflict;
+    if (!local || !remote) return null;
+    const fields = differingConflictFields(conflict);
+    if (fields.length === 0) {
+      return (
+        <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+          Both versions already match.
+        </ThemedText>
+      );
+    }
+    const conflictPicks = picks[conflict.id] ?? {};
+    return (
+      <>
+        <View style={styles.columnHeader}>
+          <View style={styles.fieldLabelCell} />
+          <ThemedText style={[styles.columnTitle, { color: subTextColor }]}>This device</ThemedText>
+          <ThemedText style={[styles.columnTitle, { color: subTextColor }]}>Server</ThemedText>
+        </View>
+        {fields.map((field) => {
+          const side = conflictPicks[field] ?? "local";
+          return (
+            <View key={field} style={styles.fieldRow}>
+              <ThemedText style={styles.fieldLabelCell}>{FIELD_LABELS[field]}</ThemedText>
+              {(["local", "remote"] as const).map((option) => {
+                const selected = side === option;
+                return (
+                  <Pressable
+                    key={option}
+                    onPress={() => pick(conflict.id, field, option)}
+                    disabled={busyId !== null}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                    style={[styles.valuePill, selected && styles.valuePillSelected]}
+                  >
+                    <ThemedText
+                      style={[styles.valueText, selected && styles.valueTextSelected]}
+                      numberOfLines={2}
+                    >
+                      {formatFieldValue(field, option === "local" ? local : remote)}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  const renderActions = (conflict: SyncConflict) => {
+    const busy = busyId === conflict.id;
+    const disabled = busyId !== null;
+    const local = localConflictRow(conflict);
+    const { remote } = conflict;
+    const canMerge = conflict.reason === "remote_changed" && local && remote;
+    const canDelete = conflict.reason === "remote_changed" && !local && remote;
+
+    return (
+      <View style={styles.buttonRow}>
+        {canMerge || canDelete ? (
+          <Pressable
+            style={[
+              canDelete ? styles.dangerButton : styles.primaryButton,
+              styles.buttonFlex,
+              disabled && styles.buttonDisabled,
+            ]}
+            onPress={() =>
+              canDelete
+                ? resolve(conflict, () => foodItemsService.deleteItem(conflict.itemId))
+                : saveMerged(conflict)
+            }
+            disabled={disabled}
+          >
+            {busy ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>
+                {canDelete ? "Delete it" : "Save choice"}
+              </ThemedText>
+            )}
+          </Pressable>
+        ) : null}
+        <Pressable
+          style={[styles.secondaryButton, styles.buttonFlex, disabled && styles.buttonDisabled]}
+          onPress={() => resolve(conflict, async () => {})}
+          disabled={disabled}
+        >
+          <ThemedText style={styles.secondaryButtonText}>
+            {canMerge || canDelete ? "Keep server version" : "Dismiss"}
+          </ThemedText>
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaWrapper usePadding edges={["top"]}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => router.replace("/(tabs)/settings")}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="arrow-back" size={21} color="#15803D" />
+          </Pressable>
+          <ThemedText style={styles.headerTitle}>Offline Edits</ThemedText>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: tabBarHeight + 26 },
+          ]}
+        >
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>Needs review</ThemedText>
+          </View>
+          {conflicts === null ? (
+            <ActivityIndicator style={styles.loader} color="#16A34A" />
+          ) : conflicts.length === 0 ? (
+            <View style={styles.section}>
+              <View style={styles.sectionContent}>
+                <ThemedText style={[styles.emptyText, { color: subTextColor }]}>
+                  No offline edits need your attention.
+                </ThemedText>
+              </View>
+            </View>
+          ) : (
+            conflicts.map((conflict) => (
+              <View key={conflict.id} style={styles.section}>
+                <View style={styles.sectionContent}>
+                  <ThemedText style={styles.itemName} numberOfLines={1}>
+                    {conflict.itemName}
+                  </ThemedText>
+                  <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+                    {describeConflict(conflict)}
+                  </ThemedText>
+                  {conflict.reason === "remote_changed" ? renderFieldRows(conflict) : null}
+                  {renderActions(conflict)}
+                </View>
+              </View>
+            ))
+          )}
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>When edits collide</ThemedText>
+          </View>
+          <View style={styles.section}>
+            {STRATEGY_OPTIONS.map((option, index) => {
+              const selected = strategy === option.value;
+              return (
+                <View key={option.value}>
+                  {index > 0 ? <View style={styles.settingsSeparator} /> : null}
+                  <Pressable
+                    onPress={() => void chooseStrategy(option.value)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                    style={({ pressed }) => [styles.optionRow, pressed && styles.rowPressed]}
+                  >
+                    <View style={styles.settingContent}>
+                      <ThemedText style={styles.settingTitle}>{option.title}</ThemedText>
+                      <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+                        {option.description}
+                      </ThemedText>
+                    </View>
+                    <Ionicons
+                      name={selected ? "radio-button-on" : "radio-button-off"}
+                      size={20}
+                      color="#16A34A"
+                    />
+                  </Pressable>
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </ThemedView>
+      <OfflineNoticeModal
+        visible={offlineNoticeVisible}
+        onDismiss={() => setOfflineNoticeVisible(false)}
+      />
+    </SafeAreaWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 6,
+    paddingBottom: 10,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 18,
+    top: 8,
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 2,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontSize: 30,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "800",
+    color: "#197C47",
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 36,
+    letterSpacing: -0.5,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 34,
+    paddingTop: 6,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  section: {
+    borderRadius: 14,
+    marginBottom: 16,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: "#F3F4F6",
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000000",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 2,
+  },
+  sectionContent: {
+    padding: 14,
+  },
+  sectionTitleWrap: {
+    paddingLeft: 4,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#15803D",
+    letterSpacing: 0.1,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontWeight: "500",
+    textAlign: "center",
+  },
+  itemName: {
+    fontSize: 17,
+    lineHeight: 22,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  helpText: {
+    fontSize: 12,
+    lineHeight: 17,
+    fontWeight: "500",
+    marginBottom: 10,
+  },
+  columnHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  columnTitle: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.4,
+    textAlign: "center",
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  fieldLabelCell: {
+    width: 78,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  valuePill: {
+    flex: 1,
+    minHeight: 38,
+    paddingVertical: 7,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F9FAFB",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  valuePillSelected: {
+    borderColor: "#22C55E",
+    backgroundColor: "#F0FDF4",
+  },
+  valueText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#4B5563",
+    textAlign: "center",
+  },
+  valueTextSelected: {
+    color: "#15803D",
+    fontWeight: "700",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  buttonFlex: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: "#22C55E",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  dangerButton: {
+    backgroundColor: "#DC2626",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  buttonDisabled: {
+    opacity: 0.55,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+  },
+  settingContent: {
+    flex: 1,
+    paddingRight: 10,
+  },
+  settingTitle: {
+    fontSize: 14,
+    fontFamily: "PlusJakartaSans_600SemiBold",
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  settingsSeparator: {
+    height: 1,
+    marginHorizontal: 16,
+    backgroundColor: "#E5E7EB",
+  },
+  rowPressed: {
+    opacity: 0.78,
+  },
+});
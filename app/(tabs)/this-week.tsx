@@ -1,5 +1,5 @@
 import { router, useFocusEffect } from "expo-router";
-import React, { useCallback, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Pressable,
   RefreshControl,
@@ -9,12 +9,17 @@ import {
   View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { CaretLeft } from "phosphor-react-native";
+import { CalendarBlank, CaretLeft, CaretRight, CookingPot } from "phosphor-react-native";
 
 import { useAuth } from "@/contexts/AuthContext";
 import { FoodItem, supabase, UsageLog } from "@/lib/supabase";
 import { foodItemsService } from "@/services/foodItems";
+import {
+  applyFoodItemChange,
+  subscribeToInventoryChanges,
+} from "@/services/inventoryRealtimeService";
 import { formatExpiry } from "@/utils/formatExpiry";
+import { calendarDaysUntil } from "@/utils/localDate";
 
 const UI = {
   bg: "#ffffff",
@@ -34,6 +39,13 @@ const UI = {
   okBorder: "#BBF7D0",
 };
 
+/** Same window as `foodItemsService.getExpiringItems(7)`. */
+function isExpiringWithinWeek(item: FoodItem): boolean {
+  if (!item.expiry_date) return false;
+  const days = calendarDaysUntil(item.expiry_date);
+  return days >= 0 && days <= 7;
+}
+
 function PillBadge({
   text,
   tone,
@@ -102,6 +114,39 @@ export default function ThisWeekScreen() {
     }, [user, load])
   );
 
+  // Realtime: patch the expiring list; logs need the item name join, so refetch.
+  const loadRef = useRef(load);
+  loadRef.current = load;
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleReload = () => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        loadRef.current().catch((e) => console.warn("This Week reload failed", e));
+      }, 600);
+    };
+
+    const unsubscribe = subscribeToInventoryChanges(userId, (change) => {
+      if (change.kind === "food_item") {
+        setExpiring((prev) =>
+          applyFoodItemChange(prev, change)
+            .filter(isExpiringWithinWeek)
+            .sort((a, b) => (a.expiry_date ?? "").localeCompare(b.expiry_date ?? ""))
+        );
+      } else {
+        scheduleReload();
+      }
+    });
+
+    return () => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      unsubscribe();
+    };
+  }, [user?.id]);
+
   const rows = useMemo(() => {
     const expiringRows = expiring.map((it) => ({
       key: `e-${it.id}`,
@@ -171,6 +216,34 @@ export default function ThisWeekScreen() {
           Expiring items and your recent usage activity.
         </Text>
 
+        <Pressable
+          style={({ pressed }) => [styles.cookCard, pressed && { opacity: 0.8 }]}
+          onPress={() => router.push("/(tabs)/cook")}
+          accessibilityRole="button"
+          accessibilityLabel="Cook with what's expiring"
+        >
+          <CookingPot size={20} color={UI.ok} weight="bold" />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.rowTitle}>Cook with what&apos;s expiring</Text>
+            <Text style={styles.rowDate}>Recipes that use up this week&apos;s items</Text>
+          </View>
+          <CaretRight size={16} color={UI.muted} weight="bold" />
+        </Pressable>
+
+        <Pressable
+          style={({ pressed }) => [styles.planCard, pressed && { opacity: 0.8 }]}
+          onPress={() => router.push("/(tabs)/meal-plan")}
+          accessibilityRole="button"
+          accessibilityLabel="Open meal plan"
+        >
+          <CalendarBlank size={20} color={UI.ink} weight="bold" />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.rowTitle}>Plan the week&apos;s meals</Text>
+            <Text style={styles.rowDate}>Reserve ingredients and fill the shopping list</Text>
+          </View>
+          <CaretRight size={16} color={UI.muted} weight="bold" />
+        </Pressable>
+
         <View style={styles.list}>
           {rows.length === 0 ? (
             <View style={styles.emptyCard}>
@@ -233,6 +306,30 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: UI.muted,
   },
+  cookCard: {
+    marginTop: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: UI.okBg,
+    borderWidth: 0.5,
+    borderColor: UI.okBorder,
+    borderRadius: 14,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+  },
+  planCard: {
+    marginTop: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: UI.card,
+    borderWidth: 0.5,
+    borderColor: UI.border,
+    borderRadius: 14,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+  },
   list: {
     marginTop: 14,
     gap: 10,
@@ -0,0 +1,466 @@
+import SafeAreaWrapper from "@/components/SafeAreaWrapper";
+import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useAuth } from "@/contexts/AuthContext";
+import { FOOD_CATEGORY_LABELS } from "@/lib/foodCategories";
+import { UrgencySettings, UrgencyThresholds } from "@/lib/supabase";
+import { urgencySettingsService } from "@/services/urgencySettingsService";
+import { getErrorMessage, isOfflineLikeError } from "@/utils/networkError";
+import {
+  DEFAULT_URGENCY_SETTINGS,
+  getActiveUrgencySettings,
+  sanitizeUrgencySettings,
+  urgencyCategoryKey,
+} from "@/utils/urgencyUtils";
+import { Ionicons } from "@expo/vector-icons";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { router, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+
+const WARNING_COLOR = "#EA580C";
+const SOON_COLOR = "#CA8A04";
+
+function daysLabel(days: number): string {
+  if (days === 0) return "On the day";
+  return `${days} day${days === 1 ? "" : "s"} before`;
+}
+
+function thresholdsSummary(t: UrgencyThresholds): string {
+  return `Orange ${t.warningDays}d · Yellow ${t.soonDays}d`;
+}
+
+type StepperRowProps = {
+  title: string;
+  color: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+};
+
+function StepperRow({ title, color, value, min, onChange, disabled }: StepperRowProps) {
+  return (
+    <View style={styles.stepperRow}>
+      <View style={[styles.swatch, { backgroundColor: color }]} />
+      <View style={styles.settingContent}>
+        <ThemedText style={styles.settingTitle}>{title}</ThemedText>
+        <ThemedText style={styles.settingDescription}>{daysLabel(value)}</ThemedText>
+      </View>
+      <Pressable
+        onPress={() => onChange(value - 1)}
+        disabled={disabled || value <= min}
+        style={[styles.stepButton, (disabled || value <= min) && styles.buttonDisabled]}
+        accessibilityRole="button"
+        accessibilityLabel={`Fewer days for ${title}`}
+      >
+        <Ionicons name="remove" size={18} color="#15803D" />
+      </Pressable>
+      <ThemedText style={styles.stepValue}>{value}</ThemedText>
+      <Pressable
+        onPress={() => onChange(value + 1)}
+        disabled={disabled}
+        style={[styles.stepButton, disabled && styles.buttonDisabled]}
+        accessibilityRole="button"
+        accessibilityLabel={`More days for ${title}`}
+      >
+        <Ionicons name="add" size={18} color="#15803D" />
+      </Pressable>
+    </View>
+  );
+}
+
+/**
+ * Expiry Urgency Screen
+ * How many days before expiry items turn orange and yellow, overall and per
+ * category. Red always means the use-by day itself or later.
+ */
+export default function UrgencySettingsScreen() {
+  const { user } = useAuth();
+  const tabBarHeight = (useBottomTabBarHeight() as unknown as number) || 24;
+  const subTextColor = "#6B7280";
+
+  const [draft, setDraft] = useState<UrgencySettings>(getActiveUrgencySettings);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        router.replace({ pathname: "/(auth)/welcome" });
+        return;
+      }
+      setDraft(getActiveUrgencySettings());
+      setDirty(false);
+    }, [user])
+  );
+
+  const update = (next: UrgencySettings) => {
+    setDraft(sanitizeUrgencySettings(next));
+    setDirty(true);
+  };
+
+  const setDefaults = (defaults: UrgencyThresholds) => update({ ...draft, defaults });
+
+  const setCategory = (key: string, thresholds: UrgencyThresholds | null) => {
+    const categories = { ...draft.categories };
+    if (thresholds) categories[key] = thresholds;
+    else delete categories[key];
+    update({ ...draft, categories });
+  };
+
+  const save = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      setDraft(await urgencySettingsService.save(user.id, draft));
+      setDirty(false);
+    } catch (error) {
+      if (isOfflineLikeError(error, { hasAuthenticatedUser: true })) {
+        setOfflineNoticeVisible(true);
+      } else {
+        Alert.alert("Error", getErrorMessage(error) || "Couldn't save your thresholds");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSteppers = (
+    t: UrgencyThresholds,
+    onChange: (next: UrgencyThresholds) => void
+  ) => (
+    <>
+      <StepperRow
+        title="Use soon"
+        color={WARNING_COLOR}
+        value={t.warningDays}
+        min={0}
+        onChange={(warningDays) =>
+          onChange({ warningDays, soonDays: Math.max(t.soonDays, warningDays) })
+        }
+        disabled={saving}
+      />
+      <StepperRow
+        title="Coming up"
+        color={SOON_COLOR}
+        value={t.soonDays}
+        min={t.warningDays}
+        onChange={(soonDays) => onChange({ ...t, soonDays })}
+        disabled={saving}
+      />
+    </>
+  );
+
+  return (
+    <SafeAreaWrapper usePadding edges={["top"]}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable
+            style={styles.backButton}
+            onPress={() => router.replace("/(tabs)/settings")}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="arrow-back" size={21} color="#15803D" />
+          </Pressable>
+          <ThemedText style={styles.headerTitle}>Expiry Urgency</ThemedText>
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: tabBarHeight + 26 },
+          ]}
+        >
+          <ThemedText style={[styles.helpText, { color: subTextColor }]}>
+            Items turn red on their use-by date. Choose how early they turn orange and
+            yellow. Items marked best before only turn orange on their date, and aren&apos;t
+            counted as expired after it.
+          </ThemedText>
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>All items</ThemedText>
+          </View>
+          <View style={styles.section}>{renderSteppers(draft.defaults, setDefaults)}</View>
+
+          <View style={styles.sectionTitleWrap}>
+            <ThemedText style={styles.sectionTitle}>By category</ThemedText>
+          </View>
+          <View style={styles.section}>
+            {FOOD_CATEGORY_LABELS.map((label, index) => {
+              const key = urgencyCategoryKey(label);
+              const override = draft.categories[key];
+              const open = expanded === key;
+              return (
+                <View key={key}>
+                  {index > 0 ? <View style={styles.settingsSeparator} /> : null}
+                  <Pressable
+                    onPress={() => setExpanded(open ? null : key)}
+                    accessibilityRole="button"
+                    accessibilityState={{ expanded: open }}
+                    style={({ pressed }) => [styles.optionRow, pressed && styles.rowPressed]}
+                  >
+                    <View style={styles.settingContent}>
+                      <ThemedText style={styles.settingTitle}>{label}</ThemedText>
+                      <ThemedText style={[styles.settingDescription, { color: subTextColor }]}>
+                        {override ? thresholdsSummary(override) : "Same as all items"}
+                      </ThemedText>
+                    </View>
+                    <Ionicons
+                      name={open ? "chevron-down" : "chevron-forward"}
+                      size={18}
+                      color="#16A34A"
+                    />
+                  </Pressable>
+                  {open ? (
+                    <View style={styles.categoryEditor}>
+                      {renderSteppers(override ?? draft.defaults, (next) =>
+                        setCategory(key, next)
+                      )}
+                      {override ? (
+                        <Pressable
+                          onPress={() => setCategory(key, null)}
+                          disabled={saving}
+                          style={styles.linkButton}
+                        >
+                          <ThemedText style={styles.linkText}>Use the all-items setting</ThemedText>
+                        </Pressable>
+                      ) : null}
+                    </View>
+                  ) : null}
+                </View>
+              );
+            })}
+          </View>
+
+          <View style={styles.buttonRow}>
+            <Pressable
+              style={[styles.secondaryButton, styles.buttonFlex, saving && styles.buttonDisabled]}
+              onPress={() => update(DEFAULT_URGENCY_SETTINGS)}
+              disabled={saving}
+            >
+              <ThemedText style={styles.secondaryButtonText}>Reset to defaults</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.primaryButton,
+                styles.buttonFlex,
+                (!dirty || saving) && styles.buttonDisabled,
+              ]}
+              onPress={() => void save()}
+              disabled={!dirty || saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>Save</ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </ScrollView>
+      </ThemedView>
+      <OfflineNoticeModal
+        visible={offlineNoticeVisible}
+        onDismiss={() => setOfflineNoticeVisible(false)}
+      />
+    </SafeAreaWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 6,
+    paddingBottom: 10,
+    position: "relative",
+  },
+  backButton: {
+    position: "absolute",
+    left: 18,
+    top: 8,
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 2,
+    elevation: 2,
+  },
+  headerTitle: {
+    fontSize: 30,
+    fontFamily: "PlusJakartaSans_700Bold",
+    fontWeight: "800",
+    color: "#197C47",
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 36,
+    letterSpacing: -0.5,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 34,
+    paddingTop: 6,
+  },
+  section: {
+    borderRadius: 14,
+    marginBottom: 16,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: "#F3F4F6",
+    backgroundColor: "#FFFFFF",
+    shadowColor: "#000000",
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 2,
+  },
+  sectionTitleWrap: {
+    paddingLeft: 4,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#15803D",
+    letterSpacing: 0.1,
+  },
+  helpText: {
+    fontSize: 12,
+    lineHeight: 17,
+    fontWeight: "500",
+    marginBottom: 14,
+    paddingHorizontal: 4,
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  stepButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: "#BBF7D0",
+    backgroundColor: "#F0FDF4",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepValue: {
+    minWidth: 28,
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+    textAlign: "center",
+  },
+  categoryEditor: {
+    backgroundColor: "#F9FAFB",
+    paddingBottom: 6,
+  },
+  linkButton: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#15803D",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+  },
+  settingContent: {
+    flex: 1,
+    paddingRight: 10,
+  },
+  settingTitle: {
+    fontSize: 14,
+    fontFamily: "PlusJakartaSans_600SemiBold",
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#6B7280",
+  },
+  settingsSeparator: {
+    height: 1,
+    marginHorizontal: 16,
+    backgroundColor: "#E5E7EB",
+  },
+  rowPressed: {
+    opacity: 0.78,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  buttonFlex: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: "#22C55E",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 42,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  buttonDisabled: {
+    opacity: 0.55,
+  },
+});
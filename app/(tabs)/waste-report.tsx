@@ -1,12 +1,17 @@
 /**
- * Waste Report — all-time insights, red accent on white (parity with consumption report).
+ * Waste Report — insights for a date range (all time by default) with the change from the
+ * period before and a weekly trend, red accent on white (parity with consumption report).
  */
 
 import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
+import { ReportRangePicker } from "@/components/ReportRangePicker";
+import { WeeklyTrendChart } from "@/components/WeeklyTrendChart";
 import { getReportCategoryIcon } from "@/lib/reportCategoryIcons";
 import { useAuth } from "@/contexts/AuthContext";
-import { loadWasteReportAllTime } from "@/services/insightsReportData";
+import { loadWasteReport, WasteReportPeriod } from "@/services/insightsReportData";
+import { formatMoney } from "@/utils/itemPrice";
 import { isOfflineLikeError } from "@/utils/networkError";
+import { formatPercentChange, ReportRange, reportRange } from "@/utils/reportRange";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { router, useFocusEffect } from "expo-router";
 import { StatusBar } from "expo-status-bar";
@@ -49,9 +54,9 @@ export default function WasteReportScreen() {
 
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [data, setData] = useState<Awaited<ReturnType<typeof loadWasteReportAllTime>> | null>(
-    null
-  );
+  const [range, setRange] = useState<ReportRange>(() => reportRange("all"));
+  const [period, setPeriod] = useState<WasteReportPeriod | null>(null);
+  const data = period?.report ?? null;
   const [error, setError] = useState<string | null>(null);
   const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
   const [avgDaysInfoVisible, setAvgDaysInfoVisible] = useState(false);
@@ -61,8 +66,7 @@ export default function WasteReportScreen() {
     setLoading(true);
     setError(null);
     try {
-      const d = await loadWasteReportAllTime(user.id);
-      setData(d);
+      setPeriod(await loadWasteReport(user.id, range));
     } catch (e: unknown) {
       if (isOfflineLikeError(e, { hasAuthenticatedUser: Boolean(user?.id) })) {
         setOfflineNoticeVisible(true);
@@ -74,7 +78,7 @@ export default function WasteReportScreen() {
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, range]);
 
   useFocusEffect(
     useCallback(() => {
@@ -99,6 +103,33 @@ export default function WasteReportScreen() {
       )
     : null;
 
+  const money = data?.money ?? null;
+
+  let comparison: string | null = null;
+  if (period?.previous && period.previousRange) {
+    const prevLabel = period.previousRange.label;
+    comparison =
+      period.change.wasted != null
+        ? `Waste ${formatPercentChange(period.change.wasted)} vs ${prevLabel}`
+        : `${period.report.totalWastedQty} wasted vs ${period.previous.totalWastedQty} in ${prevLabel}`;
+    if (period.change.wastedValue != null) {
+      comparison += ` · money wasted ${formatPercentChange(period.change.wastedValue)}`;
+    }
+  }
+  const trendWeeks = (period?.trend ?? []).map((w) => ({ date: w.date, count: w.wasteCount }));
+  const trendValue = (period?.trend ?? []).reduce((sum, w) => sum + w.wasteValue, 0);
+  const moneyNotes = money
+    ? [
+        money.unpricedWasteLogs > 0
+          ? `${money.unpricedWasteLogs} thrown-out item${
+              money.unpricedWasteLogs === 1 ? "" : "s"
+            } had no price`
+          : null,
+        money.otherCurrencies.length > 0
+          ? `Prices in ${money.otherCurrencies.join(", ")} not included`
+          : null,
+      ].filter(Boolean)
+    : [];
 
   return (
     <View style={[styles.root, { paddingTop: insets.top }]}>
@@ -117,6 +148,8 @@ export default function WasteReportScreen() {
         </Text>
       </View>
 
+      <ReportRangePicker range={range} onChange={setRange} accent={ACCENT} />
+
       {loading && !data ? (
         <View style={styles.centered}>
           <ActivityIndicator size="large" color={ACCENT} />
@@ -157,6 +190,8 @@ export default function WasteReportScreen() {
             </View>
           </View>
 
+          {comparison ? <Text style={styles.compareText}>{comparison}</Text> : null}
+
           <View style={styles.pairRow}>
             <View style={styles.smallCard}>
               <Text style={styles.smallKicker}>MOST THROWN OUT</Text>
@@ -194,6 +229,20 @@ export default function WasteReportScreen() {
             </View>
           </View>
 
+          <Text style={[styles.sectionLabel, styles.sectionLabelByCategory]}>WEEKLY TREND</Text>
+          <View style={styles.card}>
+            <WeeklyTrendChart
+              weeks={trendWeeks}
+              color={ACCENT}
+              emptyText="Nothing thrown out in these weeks."
+            />
+            {money && trendValue > 0 ? (
+              <Text style={styles.trendFootnote}>
+                Worth {formatMoney(trendValue, money.currency)} over these weeks
+              </Text>
+            ) : null}
+          </View>
+
           <Text style={[styles.sectionLabel, styles.sectionLabelExpiry]}>EXPIRY INSIGHTS</Text>
           <View style={styles.insightsGrid}>
             <View style={styles.expiryBeforeExpiryRow}>
@@ -332,6 +381,123 @@ export default function WasteReportScreen() {
               })
             )}
           </View>
+
+          <Text style={[styles.sectionLabel, styles.sectionLabelMostItems]}>MONEY</Text>
+          {!money ? (
+            <View style={styles.card}>
+              <Text style={styles.emptyText}>
+                Add prices to items to see what waste costs you.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.moneyCard}>
+                <View style={styles.moneyCell}>
+                  <Text style={styles.expiredOutcomeKicker}>SPENT</Text>
+                  <Text style={styles.moneyValue} numberOfLines={1} adjustsFontSizeToFit>
+                    {formatMoney(money.totalSpend, money.currency)}
+                  </Text>
+                </View>
+                <View style={styles.expiredOutcomeDivider} />
+                <View style={styles.moneyCell}>
+                  <Text style={styles.expiredOutcomeKicker}>EATEN</Text>
+                  <Text style={styles.moneyValue} numberOfLines={1} adjustsFontSizeToFit>
+                    {formatMoney(money.consumedValue, money.currency)}
+                  </Text>
+                </View>
+                <View style={styles.expiredOutcomeDivider} />
+                <View style={styles.moneyCell}>
+                  <Text style={styles.expiredOutcomeKicker}>WASTED</Text>
+                  <Text style={styles.moneyValue} numberOfLines={1} adjustsFontSizeToFit>
+                    {formatMoney(money.wastedValue, money.currency)}
+                  </Text>
+                </View>
+              </View>
+              {moneyNotes.length > 0 ? (
+                <Text style={styles.moneyFootnote}>{moneyNotes.join(" · ")}</Text>
+              ) : null}
+
+              <Text style={[styles.sectionLabel, styles.sectionLabelByCategory]}>
+                WASTED BY MONTH
+              </Text>
+              <View style={styles.card}>
+                {money.byMonth.length === 0 ? (
+                  <Text style={styles.emptyText}></Text>
+                ) : (
+                  money.byMonth.map((row) => (
+                    <View key={row.key} style={styles.catRow}>
+                      <View style={styles.catLeft}>
+                        <Text style={styles.catName} numberOfLines={1}>
+                          {row.label}
+                        </Text>
+                      </View>
+                      <Text style={styles.catQty}>{formatMoney(row.amount, money.currency)}</Text>
+                      <View style={styles.barTrack}>
+                        <View style={[styles.barFill, { width: `${row.barPct}%` }]} />
+                      </View>
+                    </View>
+                  ))
+                )}
+              </View>
+
+              <Text style={[styles.sectionLabel, styles.sectionLabelByCategory]}>
+                WASTED BY CATEGORY
+              </Text>
+              <View style={styles.card}>
+                {money.byCategory.length === 0 ? (
+                  <Text style={styles.emptyText}></Text>
+                ) : (
+                  money.byCategory.map((row) => {
+                    const Icon = getReportCategoryIcon(row.label, row.label);
+                    return (
+                      <View key={row.key} style={styles.catRow}>
+                        <View style={styles.catLeft}>
+                          <View style={styles.iconTile}>
+                            <Icon size={16} color={ACCENT} weight="fill" />
+                          </View>
+                          <Text style={styles.catName} numberOfLines={1}>
+                            {row.label}
+                          </Text>
+                        </View>
+                        <Text style={styles.catQty}>
+                          {formatMoney(row.amount, money.currency)}
+                        </Text>
+                        <View style={styles.barTrack}>
+                          <View style={[styles.barFill, { width: `${row.barPct}%` }]} />
+                        </View>
+                      </View>
+                    );
+                  })
+                )}
+              </View>
+
+              <Text style={[styles.sectionLabel, styles.sectionLabelMostItems]}>
+                COSTLIEST WASTE
+              </Text>
+              <View style={styles.itemsCard}>
+                {money.byItem.length === 0 ? (
+                  <Text style={styles.itemsEmptyText}></Text>
+                ) : (
+                  money.byItem.map((row, i) => (
+                    <View key={`m-${row.key}`} style={styles.rankRowWrap}>
+                      <View style={styles.rankBadge}>
+                        <Text style={styles.rankBadgeText}>{i + 1}</Text>
+                      </View>
+                      <View style={styles.rankBody}>
+                        <Text style={styles.rankTitleLine} numberOfLines={1}>
+                          <Text style={styles.rankNameInline}>{row.label}</Text>
+                          <Text style={styles.rankTimesInline}>
+                            {" "}
+                            {formatMoney(row.amount, money.currency)}
+                          </Text>
+                        </Text>
+                      </View>
+                    </View>
+                  ))
+                )}
+              </View>
+            </>
+          )}
         </ScrollView>
       )}
 
@@ -466,6 +632,20 @@ const styles = StyleSheet.create({
     letterSpacing: -0.35,
     textAlign: "center",
   },
+  compareText: {
+    marginHorizontal: 20,
+    marginTop: 5,
+    fontSize: 11,
+    fontWeight: "700",
+    color: ACCENT_MUTED,
+    textAlign: "center",
+  },
+  trendFootnote: {
+    fontSize: 11,
+    color: ACCENT_MUTED,
+    textAlign: "center",
+    marginBottom: 6,
+  },
   pairRow: {
     flexDirection: "row",
     marginHorizontal: 16,
@@ -707,6 +887,40 @@ const styles = StyleSheet.create({
     letterSpacing: -0.25,
     textAlign: "center",
   },
+  moneyCard: {
+    flexDirection: "row",
+    alignItems: "stretch",
+    marginHorizontal: 16,
+    backgroundColor: CARD,
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderWidth: 1,
+    borderColor: "rgba(217, 79, 65, 0.2)",
+  },
+  moneyCell: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    minWidth: 0,
+  },
+  moneyValue: {
+    fontSize: 15,
+    fontFamily: "PlusJakartaSans_700Bold",
+    color: ACCENT,
+    letterSpacing: -0.25,
+    textAlign: "center",
+  },
+  moneyFootnote: {
+    marginTop: 4,
+    marginHorizontal: 20,
+    fontSize: 11,
+    fontWeight: "600",
+    color: ACCENT_MUTED,
+    opacity: 0.85,
+  },
   expiredOutcomesEmpty: {
     marginTop: 8,
     fontSize: 12,
@@ -28,6 +28,9 @@ import { CalendarProvider } from "@/contexts/CalendarContext";
 import { SettingsProvider } from "@/contexts/SettingsContext";
 import { TipsProvider } from "@/contexts/TipsContext";
 import { foodItemsService } from "@/services/foodItems";
+// Defines the notification action task at startup, so a background launch for a
+// button press finds it.
+import "@/services/smartNotificationService";
 import { setPendingResetPasswordUrl } from "@/lib/pendingResetUrl";
 import { isSupabaseRecoveryLink } from "@/lib/supabaseRecoveryLink";
 
@@ -84,6 +87,11 @@ export default function RootLayout() {
             scheduleBackgroundTasks,
           } = notifMod;
           await requestNotificationPermissions();
+          // Expiry reminders carry Used it / Threw it away / Extend / Snooze buttons.
+          const { smartNotificationService } = await import(
+            "@/services/smartNotificationService"
+          );
+          await smartNotificationService.setupNotificationCategories();
           await registerBackgroundTasks();
           await scheduleBackgroundTasks();
         } catch {
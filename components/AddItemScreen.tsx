@@ -1,13 +1,37 @@
 import { ThemedText } from "@/components/ThemedText";
 import ScreenLayout from "@/components/ScreenLayout";
 import { OfflineNoticeModal } from "@/components/OfflineNoticeModal";
-import { FoodItem } from "@/lib/supabase";
+import { BarcodeScannerModal } from "@/components/BarcodeScannerModal";
+import { FoodLocationIcon } from "@/components/FoodLocationIcon";
+import { PriceInput } from "@/components/PriceInput";
+import { FOOD_LOCATION_LABELS, FOOD_LOCATIONS, toFoodLocation } from "@/lib/foodLocations";
+import { ExpiryKind, FoodItem, FoodLocation } from "@/lib/supabase";
 import {
   MAX_INVENTORY_QUANTITY,
-  clampIntegerQuantity,
-  sanitizeQuantityInputString,
+  MIN_QUANTITY,
+  parseDecimalQuantity,
+  roundQuantity,
+  sanitizeDecimalQuantityInputString,
 } from "@/utils/quantityLimits";
 import { foodItemsService } from "@/services/foodItems";
+import {
+  loadPreferredCurrency,
+  rememberPreferredCurrency,
+} from "@/services/currencyPreference";
+import {
+  DEFAULT_CURRENCY,
+  parsePriceInput,
+  PriceMode,
+  resolveItemPrice,
+} from "@/utils/itemPrice";
+import { ShelfLifeSources, shelfLifeService } from "@/services/shelfLifeService";
+import { estimateShelfLife, ExpiryEstimate } from "@/utils/expiryEstimate";
+import { expiryKindOf } from "@/utils/urgencyUtils";
+import {
+  BarcodeProduct,
+  barcodeLookupService,
+  normalizeBarcode,
+} from "@/services/barcodeLookupService";
 import {
   formatTimeForStorage,
   normalizeItemNotificationRepeat,
@@ -24,7 +48,14 @@ import Constants from "expo-constants";
 import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import { router, useLocalSearchParams } from "expo-router";
-import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -103,6 +134,11 @@ const commonUnits = [
 ];
 
 const CATEGORY_OPTIONS = FOOD_CATEGORY_OPTIONS;
+
+const EXPIRY_KIND_OPTIONS: { value: ExpiryKind; label: string; hint: string }[] = [
+  { value: "use_by", label: "Use by", hint: "Unsafe to eat after this date" },
+  { value: "best_before", label: "Best before", hint: "Still fine after this date, just past its best" },
+];
 const CATEGORY_LABELS = FOOD_CATEGORY_LABELS;
 const REPEAT_OPTIONS = ["None", "Daily", "Weekly", "Monthly"];
 const CUSTOM_REMINDER_UNITS = ["days", "weeks", "months"];
@@ -154,6 +190,13 @@ const formatReminderDatePreview = (date: Date) =>
     year: "numeric",
   });
 
+const addCalendarDays = (days: number) => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
 const getCalendarDaysAway = (date?: Date | null) => {
   if (!date) return 0;
   const today = new Date();
@@ -163,6 +206,35 @@ const getCalendarDaysAway = (date?: Date | null) => {
   return Math.ceil((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
 };
 
+const startOfToday = () => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const addDaysTo = (from: Date, days: number) => {
+  const date = new Date(from);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+const calendarDaysBetween = (from: Date, to: Date) => {
+  const a = new Date(from);
+  a.setHours(0, 0, 0, 0);
+  const b = new Date(to);
+  b.setHours(0, 0, 0, 0);
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+const SHELF_LIFE_SOURCE_LABELS: Record<ExpiryEstimate["source"], string> = {
+  override: "your setting",
+  history: "your usual",
+  name: "typical",
+  category: "typical for category",
+  default: "rough guess",
+};
+
 const isRepeatOptionEnabled = (option: string, daysAway: number) => {
   if (option === "Weekly") return daysAway >= 7;
   if (option === "Monthly") return daysAway >= 30;
@@ -212,10 +284,13 @@ export default function AddItemScreen() {
     name?: string;
     quantity?: string;
     unit?: string;
-    location?: "fridge" | "shelf";
+    location?: FoodLocation;
     category?: string;
     expiryDate?: string;
     notes?: string;
+    /** Total price from a shopping list entry. */
+    price?: string;
+    currency?: string;
   }>();
   const { user } = useAuth();
   const isEditing = params.edit === "true" && Boolean(params.id);
@@ -232,12 +307,16 @@ export default function AddItemScreen() {
   const [name, setName] = useState(params.name ?? "");
   const [quantity, setQuantity] = useState(params.quantity ?? "1");
   const [unit, setUnit] = useState(params.unit ?? "pcs");
-  const [location, setLocation] = useState<"fridge" | "shelf">(
+  const [location, setLocation] = useState<FoodLocation>(
     params.location ?? "fridge"
   );
   const [category, setCategory] = useState(params.category ?? "");
   const [expiryDate, setExpiryDate] = useState<Date | null>(null);
+  const [expiryKind, setExpiryKind] = useState<ExpiryKind>("use_by");
   const [notes, setNotes] = useState("");
+  const [priceStr, setPriceStr] = useState(params.price ?? "");
+  const [priceMode, setPriceMode] = useState<PriceMode>("total");
+  const [currency, setCurrency] = useState(params.currency ?? DEFAULT_CURRENCY);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [loading, setLoading] = useState(false);
   const [notesFocused, setNotesFocused] = useState(false);
@@ -267,6 +346,9 @@ export default function AddItemScreen() {
   const [suggestions, setSuggestions] = useState<FoodItem[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [offlineNoticeVisible, setOfflineNoticeVisible] = useState(false);
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
+  /** Normalized code from the last scan; remembered against the saved values. */
+  const [scannedBarcode, setScannedBarcode] = useState<string | null>(null);
 
   const [calendarWeeks, setCalendarWeeks] = useState(5);
 
@@ -278,8 +360,18 @@ export default function AddItemScreen() {
   const reminderStepHoldRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const quantityStepHoldRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const reminderDefaultModeRef = useRef(true);
+  /** True once the user picks a date on the calendar; only those are remembered as overrides. */
+  const expiryPickedRef = useRef(false);
+  /**
+   * True once the price fields are touched. Editing saves the price only then, so
+   * a row already partly used keeps the unit price it was bought at.
+   */
+  const priceEditedRef = useRef(false);
+  const [shelfLifeSources, setShelfLifeSources] = useState<ShelfLifeSources | null>(null);
+  /** Day the item was (or is being) added; suggested expiry dates count from here. */
+  const [addedOn, setAddedOn] = useState<Date>(startOfToday);
   const [showSuccess, setShowSuccess] = useState(false);
-  /** Measured height of green header + Fridge/Shelf row (absolute overlay) for scroll inset. */
+  /** Measured height of green header + location row (absolute overlay) for scroll inset. */
   const [headerChromeHeight, setHeaderChromeHeight] = useState(96);
   const fadeAnim = useRef(new Animated.Value(1)).current;
   const successAnim = useRef(new Animated.Value(0)).current;
@@ -306,6 +398,17 @@ export default function AddItemScreen() {
   const reminderLabel = formatReminderDaysLabel(reminderOffsetDays);
   const notificationTimeLabel = formatNotificationTime(notificationTime);
   const expiryDaysAway = getCalendarDaysAway(expiryDate);
+  const expirySuggestion = useMemo(() => {
+    if (!name.trim() || !shelfLifeSources) return null;
+    const estimate = estimateShelfLife(name, category || null, {
+      ...shelfLifeSources,
+      location,
+    });
+    return { ...estimate, date: addDaysTo(addedOn, estimate.days) };
+  }, [name, category, location, shelfLifeSources, addedOn]);
+  const showExpirySuggestion =
+    expirySuggestion !== null &&
+    (!expiryDate || calendarDaysBetween(expiryDate, expirySuggestion.date) !== 0);
   const hasExpiryDate = Boolean(expiryDate);
   const notificationsUnavailable = hasExpiryDate && expiryDaysAway <= 0;
   const todayNotificationTime = createTimeDate(
@@ -404,17 +507,12 @@ export default function AddItemScreen() {
     [adjustReminderCount, stopReminderStepHold]
   );
   const adjustQuantityCount = useCallback((delta: number) => {
-    setQuantity((currentQuantity) =>
-      String(
-        Math.max(
-          1,
-          Math.min(
-            MAX_INVENTORY_QUANTITY,
-            (parseInt(currentQuantity, 10) || 1) + delta
-          )
-        )
-      )
-    );
+    setQuantity((currentQuantity) => {
+      const current = parseDecimalQuantity(currentQuantity, MIN_QUANTITY, MAX_INVENTORY_QUANTITY);
+      const next = Math.min(MAX_INVENTORY_QUANTITY, roundQuantity(current + delta));
+      // Stepping down never reaches zero: 1.5 goes to 0.5, but 1 stays 1.
+      return String(next < MIN_QUANTITY ? current : next);
+    });
   }, []);
   const stopQuantityStepHold = useCallback(() => {
     if (quantityStepHoldRef.current) {
@@ -639,10 +737,6 @@ export default function AddItemScreen() {
     };
   }, []);
 
-  // Add icon requires
-  const fridgeIcon = require("../assets/images/icons/fridge_icon.png");
-  const shelfIcon = require("../assets/images/icons/shelf_icon.png");
-
   // Layout constants
   const UNIT_DROPDOWN_WIDTH = 95;
   const unitDropdownLeft = Math.min(
@@ -697,6 +791,8 @@ export default function AddItemScreen() {
     if (typeof params.notes === "string") {
       setNotes(params.notes);
     }
+    if (typeof params.price === "string") setPriceStr(params.price);
+    if (typeof params.currency === "string") setCurrency(params.currency);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     params.id,
@@ -707,6 +803,8 @@ export default function AddItemScreen() {
     params.category,
     params.expiryDate,
     params.notes,
+    params.price,
+    params.currency,
   ]);
 
   // Reset form and success state when screen comes into focus
@@ -716,6 +814,11 @@ export default function AddItemScreen() {
       setShowSuccess(false);
       fadeAnim.setValue(1);
 
+      shelfLifeService
+        .loadSources(user?.id)
+        .then(setShelfLifeSources)
+        .catch((e) => console.warn("AddItemScreen: failed to load shelf-life data", e));
+
       // Reset form fields if not editing and there's no prefill from groceries
       if (!isEditing && !hasPrefill) {
         setName("");
@@ -724,10 +827,20 @@ export default function AddItemScreen() {
         setLocation("fridge");
         setCategory("");
         setExpiryDate(null);
+        setExpiryKind("use_by");
         setNotes("");
+        setPriceStr("");
+        setPriceMode("total");
         setShowUnitDropdown(false);
+        setScannedBarcode(null);
+        setAddedOn(startOfToday());
+        expiryPickedRef.current = false;
+      }
+      priceEditedRef.current = false;
+      if (!isEditing && !params.currency) {
+        loadPreferredCurrency().then(setCurrency);
       }
-    }, [isEditing, hasPrefill])
+    }, [isEditing, hasPrefill, user?.id, params.currency])
   );
 
   const loadExistingItems = async () => {
@@ -767,6 +880,45 @@ export default function AddItemScreen() {
     }
   };
 
+  const handleBarcodeScanned = async (code: string) => {
+    setShowBarcodeScanner(false);
+    const barcode = normalizeBarcode(code);
+    if (!barcode) {
+      Alert.alert(
+        "Barcode not recognized",
+        "That doesn't look like a valid EAN/UPC code. Try scanning again or enter the item by hand."
+      );
+      return;
+    }
+
+    setScannedBarcode(barcode);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+    let product: BarcodeProduct | null = null;
+    try {
+      product = await barcodeLookupService.lookup(barcode);
+    } catch (error) {
+      console.warn("AddItemScreen: barcode lookup failed", error);
+    }
+
+    if (!product) {
+      Alert.alert(
+        "New product",
+        "We don't know this barcode yet. Fill in the details and we'll remember them for next time."
+      );
+      return;
+    }
+
+    setName(product.name);
+    setShowSuggestions(false);
+    if (product.category) setCategory(product.category);
+    if (product.unit) setUnit(product.unit);
+    if (product.location) setLocation(product.location);
+    if (product.shelfLifeDays != null) {
+      setExpiryDate(addCalendarDays(product.shelfLifeDays));
+    }
+  };
+
   const loadItemData = async () => {
     try {
       // Get items and find the one with matching ID
@@ -775,15 +927,24 @@ export default function AddItemScreen() {
 
       if (item) {
         reminderDefaultModeRef.current = false;
+        expiryPickedRef.current = false;
         setName(item.name);
         setQuantity(String(item.quantity));
         setUnit(item.unit || "pcs");
-        setLocation(item.location as "fridge" | "shelf");
+        setLocation(toFoodLocation(item.location));
         let cat = normalizeLegacyInventoryCategory(item.category || "");
         // Map legacy / unknown categories to chip set
         setCategory(CATEGORY_LABELS.includes(cat) ? cat : cat ? "Other" : "");
         setNotes(item.notes || "");
+        setPriceStr(item.price != null ? String(item.price) : "");
+        setPriceMode("total");
+        if (item.currency) setCurrency(item.currency);
         setExpiryDate(parseYmdToLocalDate(item.expiry_date ?? undefined));
+        setExpiryKind(expiryKindOf(item));
+        const created = item.created_at ? new Date(item.created_at) : null;
+        setAddedOn(
+          created && !Number.isNaN(created.getTime()) ? addDaysTo(created, 0) : startOfToday()
+        );
         setNotificationsEnabled(item.notifications_enabled ?? true);
         setCustomReminderUnit("days");
         setCustomReminderCount(
@@ -810,13 +971,9 @@ export default function AddItemScreen() {
     }
 
     const qStr =
-      quantity.trim() === "" ? "1" : sanitizeQuantityInputString(quantity);
-    const quantityNum = clampIntegerQuantity(
-      parseInt(qStr, 10),
-      1,
-      MAX_INVENTORY_QUANTITY
-    );
-    if (quantityNum <= 0) {
+      quantity.trim() === "" ? "1" : sanitizeDecimalQuantityInputString(quantity);
+    const quantityNum = parseDecimalQuantity(qStr, 0, MAX_INVENTORY_QUANTITY);
+    if (quantityNum < MIN_QUANTITY) {
       Alert.alert("Error", "Please enter a valid quantity");
       return;
     }
@@ -833,13 +990,19 @@ export default function AddItemScreen() {
       const effectiveNotificationsEnabled =
         !expiryDate || daysAway <= 0 ? false : notificationsEnabled;
 
+      const priceData =
+        !isEditing || priceEditedRef.current
+          ? resolveItemPrice(parsePriceInput(priceStr), priceMode, quantityNum, currency)
+          : null;
       const itemData = {
+        ...priceData,
         name: name.trim(),
         quantity: quantityNum,
         unit: unit.trim() || undefined,
         location,
         category: category.trim() || undefined,
         expiry_date: expiryYmd,
+        expiry_kind: expiryKind,
         notes: notes.trim() || undefined,
         notifications_enabled: effectiveNotificationsEnabled,
         notification_reminder_days: Math.max(1, reminderOffsetDays),
@@ -858,6 +1021,32 @@ export default function AddItemScreen() {
         showPermissionDeniedAlert: true,
       });
 
+      if (priceData?.price != null) {
+        void rememberPreferredCurrency(currency);
+      }
+
+      // A hand-picked date that differs from the suggestion becomes the suggestion.
+      if (expiryDate && expiryPickedRef.current && expirySuggestion) {
+        const shelfLifeDays = calendarDaysBetween(addedOn, expiryDate);
+        if (shelfLifeDays >= 1 && shelfLifeDays !== expirySuggestion.days) {
+          shelfLifeService
+            .rememberOverride(itemData.name, { location }, shelfLifeDays)
+            .catch((e) => console.warn("AddItemScreen: failed to remember shelf life", e));
+        }
+      }
+
+      if (scannedBarcode && !isEditing) {
+        barcodeLookupService
+          .remember(scannedBarcode, {
+            name: itemData.name,
+            category: itemData.category,
+            unit: itemData.unit,
+            shelfLifeDays: expiryDate ? daysAway : null,
+            location,
+          })
+          .catch((e) => console.warn("AddItemScreen: failed to remember barcode", e));
+      }
+
       try {
         invalidateCache();
         void refresh();
@@ -936,107 +1125,66 @@ export default function AddItemScreen() {
           {isEditing ? "" : "to"}
         </ThemedText>
       </View>
-      {/* Fridge/Shelf buttons below heading */}
+      {/* Fridge/Freezer/Shelf buttons below heading */}
       <View
         style={{
           flexDirection: "row",
           justifyContent: "center",
           alignItems: "center",
-          gap: 16,
+          gap: 10,
           marginTop: -22,
           marginBottom: 8,
         }}
       >
-        <Pressable
-          style={{
-            flexDirection: "row",
-            alignItems: "center",
-            width: 90,
-            height: 36,
-            borderRadius: 10,
-            backgroundColor: "#FFF",
-            borderWidth: 2,
-            borderColor: location === "fridge" ? "#22C55E" : "#E5E7EB",
-            justifyContent: "center",
-            marginRight: 4,
-            shadowColor: location === "fridge" ? "#000" : undefined,
-            shadowOpacity: location === "fridge" ? 0.1 : 0,
-            shadowRadius: location === "fridge" ? 6 : 0,
-            elevation: location === "fridge" ? 2 : 0,
-          }}
-          onPress={() => {
-            setLocation("fridge");
-            Haptics.selectionAsync();
-          }}
-          accessibilityRole="button"
-          accessibilityState={{ selected: location === "fridge" }}
-        >
-          <Image
-            source={fridgeIcon}
-            style={{
-              width: 18,
-              height: 18,
-              marginRight: 4,
-              tintColor: location === "fridge" ? "#22C55E" : "#A1A1AB",
-            }}
-            resizeMode="contain"
-          />
-          <ThemedText
-            style={{
-              color: location === "fridge" ? "#22C55E" : "#A1A1AB",
-              fontWeight: "700",
-              fontSize: 15,
-              fontFamily: Platform.OS === "ios" ? "System" : "Roboto",
-            }}
-          >
-            Fridge
-          </ThemedText>
-        </Pressable>
-        <Pressable
-          style={{
-            flexDirection: "row",
-            alignItems: "center",
-            width: 90,
-            height: 36,
-            borderRadius: 10,
-            backgroundColor: "#FFF",
-            borderWidth: 2,
-            borderColor: location === "shelf" ? "#22C55E" : "#E5E7EB",
-            justifyContent: "center",
-            marginLeft: 4,
-            shadowColor: location === "shelf" ? "#000" : undefined,
-            shadowOpacity: location === "shelf" ? 0.1 : 0,
-            shadowRadius: location === "shelf" ? 6 : 0,
-            elevation: location === "shelf" ? 2 : 0,
-          }}
-          onPress={() => {
-            setLocation("shelf");
-            Haptics.selectionAsync();
-          }}
-          accessibilityRole="button"
-          accessibilityState={{ selected: location === "shelf" }}
-        >
-          <Image
-            source={shelfIcon}
-            style={{
-              width: 18,
-              height: 18,
-              marginRight: 4,
-              tintColor: location === "shelf" ? "#22C55E" : "#A1A1AB",
-            }}
-            resizeMode="contain"
-          />
-          <ThemedText
-            style={{
-              color: location === "shelf" ? "#22C55E" : "#A1A1AB",
-              fontWeight: "700",
-              fontSize: 15,
-              fontFamily: Platform.OS === "ios" ? "System" : "Roboto",
-            }}
-          >
-            Shelf
-          </ThemedText>
-        </Pressable>
+        {FOOD_LOCATIONS.map((loc) => {
+          const selected = location === loc;
+          return (
+            <Pressable
+              key={loc}
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                width: 96,
+                height: 36,
+                borderRadius: 10,
+                backgroundColor: "#FFF",
+                borderWidth: 2,
+                borderColor: selected ? "#22C55E" : "#E5E7EB",
+                justifyContent: "center",
+                shadowColor: selected ? "#000" : undefined,
+                shadowOpacity: selected ? 0.1 : 0,
+                shadowRadius: selected ? 6 : 0,
+                elevation: selected ? 2 : 0,
+              }}
+              onPress={() => {
+                setLocation(loc);
+                Haptics.selectionAsync();
+              }}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+            >
+              <FoodLocationIcon
+                location={loc}
+                style={{
+                  width: 18,
+                  height: 18,
+                  marginRight: 4,
+                  tintColor: selected ? "#22C55E" : "#A1A1AB",
+                }}
+              />
+              <ThemedText
+                style={{
+                  color: selected ? "#22C55E" : "#A1A1AB",
+                  fontWeight: "700",
+                  fontSize: 15,
+                  fontFamily: Platform.OS === "ios" ? "System" : "Roboto",
+                }}
+              >
+                {FOOD_LOCATION_LABELS[loc]}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
       </View>
         </View>
       </View>
@@ -1126,6 +1274,7 @@ export default function AddItemScreen() {
                           height: 40,
                           fontFamily: Platform.OS === "ios" ? "System" : "Roboto",
                           textAlign: "left",
+                          paddingRight: isEditing ? 14 : 40,
                         }}
                         value={name}
                         onChangeText={(text) => {
@@ -1134,6 +1283,30 @@ export default function AddItemScreen() {
                         }}
                         accessibilityLabel="Item Name"
                       />
+                      {!isEditing && (
+                        <Pressable
+                          onPress={() => {
+                            Haptics.selectionAsync();
+                            Keyboard.dismiss();
+                            setShowBarcodeScanner(true);
+                          }}
+                          hitSlop={8}
+                          style={{
+                            position: "absolute",
+                            right: 6,
+                            top: 5,
+                            width: 30,
+                            height: 30,
+                            borderRadius: 10,
+                            alignItems: "center",
+                            justifyContent: "center",
+                          }}
+                          accessibilityRole="button"
+                          accessibilityLabel="Scan barcode"
+                        >
+                          <Ionicons name="barcode-outline" size={22} color="#16A34A" />
+                        </Pressable>
+                      )}
                     </View>
                   </View>
 
@@ -1207,16 +1380,20 @@ export default function AddItemScreen() {
                         <TextInput
                           value={quantity}
                           onChangeText={(t) =>
-                            setQuantity(sanitizeQuantityInputString(t, { allowEmpty: true }))
+                            setQuantity(
+                              sanitizeDecimalQuantityInputString(t, { allowEmpty: true })
+                            )
                           }
                           onBlur={() =>
                             setQuantity((q) =>
                               q.trim() === ""
                                 ? "1"
-                                : sanitizeQuantityInputString(q)
+                                : String(
+                                    parseDecimalQuantity(q, MIN_QUANTITY, MAX_INVENTORY_QUANTITY)
+                                  )
                             )
                           }
-                          keyboardType="number-pad"
+                          keyboardType="decimal-pad"
                           selectTextOnFocus
                           style={{
                             minWidth: 28,
@@ -1454,6 +1631,24 @@ export default function AddItemScreen() {
                 </View>
               </ScrollView>
             </View>
+            <PriceInput
+              amount={priceStr}
+              onChangeAmount={(t) => {
+                priceEditedRef.current = true;
+                setPriceStr(t);
+              }}
+              mode={priceMode}
+              onChangeMode={(m) => {
+                priceEditedRef.current = true;
+                setPriceMode(m);
+              }}
+              currency={currency}
+              onChangeCurrency={(c) => {
+                priceEditedRef.current = true;
+                setCurrency(c);
+              }}
+              unit={unit}
+            />
             {/* Calendar full width below */}
             <View
               style={{
@@ -1474,6 +1669,53 @@ export default function AddItemScreen() {
               >
                 Expiry Date
               </ThemedText>
+              <View style={styles.expiryKindGroup}>
+                {EXPIRY_KIND_OPTIONS.map((o) => {
+                  const selected = o.value === expiryKind;
+                  return (
+                    <Pressable
+                      key={o.value}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setExpiryKind(o.value);
+                      }}
+                      style={[styles.expiryKindChip, selected && styles.expiryKindChipSelected]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${o.label} date`}
+                      accessibilityHint={o.hint}
+                      accessibilityState={{ selected }}
+                    >
+                      <ThemedText
+                        style={[styles.expiryKindText, selected && styles.expiryKindTextSelected]}
+                      >
+                        {o.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {showExpirySuggestion && expirySuggestion ? (
+                <Pressable
+                  style={styles.expirySuggestion}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    expiryPickedRef.current = false;
+                    setExpiryDate(expirySuggestion.date);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Use suggested expiry date, ${expirySuggestion.days} days`}
+                >
+                  <ThemedText style={styles.expirySuggestionText}>
+                    Suggested{" "}
+                    {expirySuggestion.date.toLocaleDateString(undefined, {
+                      month: "short",
+                      day: "numeric",
+                    })}{" "}
+                    · {expirySuggestion.days}d ({SHELF_LIFE_SOURCE_LABELS[expirySuggestion.source]})
+                  </ThemedText>
+                  <ThemedText style={styles.expirySuggestionAction}>Use</ThemedText>
+                </Pressable>
+              ) : null}
               <View
                 style={{
                   width: "92%",
@@ -1491,6 +1733,7 @@ export default function AddItemScreen() {
                   key={`calendar-${String(params.id ?? "new")}`}
                   selectedDate={expiryDate}
                   onSelect={(date: Date) => {
+                    expiryPickedRef.current = true;
                     setExpiryDate(date);
                     if (reminderDefaultModeRef.current) {
                       const daysAway = getCalendarDaysAway(date);
@@ -2281,6 +2524,11 @@ export default function AddItemScreen() {
           </Animated.View>
         </>
       )}
+      <BarcodeScannerModal
+        visible={showBarcodeScanner}
+        onScanned={(code) => void handleBarcodeScanned(code)}
+        onClose={() => setShowBarcodeScanner(false)}
+      />
       <OfflineNoticeModal
         visible={offlineNoticeVisible}
         onDismiss={() => setOfflineNoticeVisible(false)}
@@ -2316,6 +2564,49 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginBottom: 8,
   },
+  expiryKindGroup: {
+    flexDirection: "row",
+    borderRadius: 999,
+    backgroundColor: "#F0F0F0",
+    padding: 2,
+    marginTop: 12,
+  },
+  expiryKindChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 999,
+  },
+  expiryKindChipSelected: {
+    backgroundColor: "#22C55E",
+  },
+  expiryKindText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#4B5563",
+  },
+  expiryKindTextSelected: {
+    color: "#FFFFFF",
+  },
+  expirySuggestion: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 2,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 999,
+    backgroundColor: "#F0FDF4",
+  },
+  expirySuggestionText: {
+    fontSize: 12,
+    color: "#475569",
+  },
+  expirySuggestionAction: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#15803D",
+  },
   input: {
     height: 50,
     borderRadius: 8,
@@ -0,0 +1,245 @@
+/**
+ * Full-screen camera sheet for scanning EAN/UPC codes on the Add Item screen.
+ * Also accepts a typed code for damaged labels (and simulators without a camera).
+ */
+
+import { Ionicons } from "@expo/vector-icons";
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from "expo-camera";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Linking,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+export type BarcodeScannerModalProps = {
+  visible: boolean;
+  /** Raw code as read by the camera or typed; the caller normalizes and looks it up. */
+  onScanned: (code: string) => void;
+  onClose: () => void;
+};
+
+const BARCODE_TYPES = ["ean13", "ean8", "upc_a"] as const;
+
+export function BarcodeScannerModal({
+  visible,
+  onScanned,
+  onClose,
+}: BarcodeScannerModalProps) {
+  const insets = useSafeAreaInsets();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState("");
+  /** Camera fires many events per second for the same code; only forward the first. */
+  const handledRef = useRef(false);
+  /** The system prompt is shown at most once per open; after that the denied state offers it. */
+  const promptedRef = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    handledRef.current = false;
+    promptedRef.current = false;
+    setManualCode("");
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible || promptedRef.current || permission?.status !== "undetermined") return;
+    promptedRef.current = true;
+    void requestPermission();
+  }, [visible, permission, requestPermission]);
+
+  const handleBarcodeScanned = (result: BarcodeScanningResult) => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+    onScanned(result.data);
+  };
+
+  const submitManualCode = () => {
+    const code = manualCode.trim();
+    if (!code) return;
+    handledRef.current = true;
+    onScanned(code);
+  };
+
+  const renderCameraArea = () => {
+    if (!permission) {
+      return <ActivityIndicator color="#FFF" />;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.permissionBox}>
+          <Ionicons name="camera-outline" size={40} color="#FFF" />
+          <Text style={styles.permissionText}>
+            Camera access is needed to scan barcodes.
+          </Text>
+          <Pressable
+            onPress={() =>
+              permission.canAskAgain ? void requestPermission() : void Linking.openSettings()
+            }
+            style={styles.permissionBtn}
+            accessibilityRole="button"
+          >
+            <Text style={styles.permissionBtnText}>
+              {permission.canAskAgain ? "Allow camera" : "Open Settings"}
+            </Text>
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: [...BARCODE_TYPES] }}
+          onBarcodeScanned={visible ? handleBarcodeScanned : undefined}
+        />
+        <View pointerEvents="none" style={styles.reticle} />
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      statusBarTranslucent
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Scan barcode</Text>
+          <Pressable
+            onPress={onClose}
+            hitSlop={12}
+            accessibilityRole="button"
+            accessibilityLabel="Close scanner"
+          >
+            <Ionicons name="close" size={26} color="#FFF" />
+          </Pressable>
+        </View>
+        <View style={styles.cameraArea}>{renderCameraArea()}</View>
+        <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
+          <Text style={styles.hint}>Point at the barcode or type the numbers below.</Text>
+          <View style={styles.manualRow}>
+            <TextInput
+              value={manualCode}
+              onChangeText={(t) => setManualCode(t.replace(/\D/g, ""))}
+              onSubmitEditing={submitManualCode}
+              placeholder="e.g. 5449000000996"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+              maxLength={14}
+              style={styles.manualInput}
+              accessibilityLabel="Barcode number"
+            />
+            <Pressable
+              onPress={submitManualCode}
+              disabled={!manualCode.trim()}
+              style={[styles.manualBtn, !manualCode.trim() && { opacity: 0.5 }]}
+              accessibilityRole="button"
+              accessibilityLabel="Look up barcode"
+            >
+              <Text style={styles.manualBtnText}>Look up</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#111827",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#FFF",
+  },
+  cameraArea: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  reticle: {
+    width: "78%",
+    height: 150,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: "#22C55E",
+  },
+  permissionBox: {
+    alignItems: "center",
+    paddingHorizontal: 32,
+    gap: 12,
+  },
+  permissionText: {
+    fontSize: 15,
+    color: "#E5E7EB",
+    textAlign: "center",
+    lineHeight: 21,
+  },
+  permissionBtn: {
+    marginTop: 4,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 999,
+    backgroundColor: "#22C55E",
+  },
+  permissionBtnText: {
+    color: "#FFF",
+    fontWeight: "700",
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    backgroundColor: "#111827",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#D1D5DB",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  manualRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  manualInput: {
+    flex: 1,
+    height: 44,
+    borderRadius: 14,
+    backgroundColor: "#FFF",
+    paddingHorizontal: 14,
+    fontSize: 15,
+    color: "#111",
+  },
+  manualBtn: {
+    height: 44,
+    paddingHorizontal: 18,
+    borderRadius: 14,
+    backgroundColor: "#22C55E",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  manualBtnText: {
+    color: "#FFF",
+    fontWeight: "700",
+  },
+});
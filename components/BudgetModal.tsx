@@ -0,0 +1,241 @@
+/**
+ * Monthly grocery budget: amount and currency. Household members share one.
+ */
+
+import {
+  modalRowPrimaryContainer,
+  modalRowPrimaryLabel,
+  modalRowSecondaryContainer,
+  modalRowSecondaryLabel,
+} from "@/theme/modalActionStyles";
+import {
+  parsePriceInput,
+  PRICE_CURRENCIES,
+  sanitizePriceInputString,
+} from "@/utils/itemPrice";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+export interface BudgetModalProps {
+  visible: boolean;
+  /** Current budget, when there is one. */
+  amount: number | null;
+  currency: string;
+  busy?: boolean;
+  onSave: (amount: number, currency: string) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+export function BudgetModal({
+  visible,
+  amount,
+  currency: initialCurrency,
+  busy = false,
+  onSave,
+  onRemove,
+  onClose,
+}: BudgetModalProps) {
+  const [amountStr, setAmountStr] = useState("");
+  const [currency, setCurrency] = useState(initialCurrency);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmountStr(amount != null ? String(amount) : "");
+    setCurrency(initialCurrency);
+  }, [visible, amount, initialCurrency]);
+
+  if (!visible) return null;
+
+  const parsed = parsePriceInput(amountStr);
+  const canSave = parsed != null && parsed > 0 && !busy;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={busy ? undefined : onClose}>
+        <View style={styles.centered}>
+          <Pressable style={styles.card} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.question}>Monthly grocery budget</Text>
+            <Text style={styles.subtitle}>
+              Priced items and bought groceries count toward it.
+            </Text>
+
+            <View style={styles.formRow}>
+              <TouchableOpacity
+                style={styles.currencyPill}
+                onPress={() => {
+                  const i = PRICE_CURRENCIES.indexOf(
+                    currency as (typeof PRICE_CURRENCIES)[number]
+                  );
+                  setCurrency(PRICE_CURRENCIES[(i + 1) % PRICE_CURRENCIES.length]!);
+                }}
+                disabled={busy}
+                accessibilityRole="button"
+                accessibilityLabel={`Currency ${currency}, tap to change`}
+              >
+                <Text style={styles.currencyText}>{currency}</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={styles.input}
+                value={amountStr}
+                onChangeText={(t) => setAmountStr(sanitizePriceInputString(t))}
+                placeholder="e.g. 400"
+                placeholderTextColor="#94A3B8"
+                keyboardType="decimal-pad"
+                autoFocus
+                editable={!busy}
+                accessibilityLabel="Monthly budget"
+              />
+            </View>
+
+            {amount != null ? (
+              <TouchableOpacity
+                style={styles.removeBtn}
+                onPress={onRemove}
+                disabled={busy}
+                accessibilityRole="button"
+              >
+                <Text style={styles.removeBtnText}>Remove budget</Text>
+              </TouchableOpacity>
+            ) : null}
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.cancelBtn}
+                onPress={onClose}
+                disabled={busy}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.cancelBtnText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmBtn, !canSave && styles.disabled]}
+                onPress={() => parsed != null && onSave(parsed, currency)}
+                disabled={!canSave}
+                activeOpacity={0.8}
+              >
+                {busy ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.confirmBtnText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  centered: {
+    width: "100%",
+    maxWidth: 360,
+  },
+  card: {
+    width: "100%",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1E293B",
+    textAlign: "center",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  formRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 14,
+  },
+  currencyPill: {
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    borderRadius: 999,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#FFFFFF",
+  },
+  currencyText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    borderRadius: 10,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F9FAFB",
+    color: "#111827",
+  },
+  removeBtn: {
+    alignSelf: "center",
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  removeBtnText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#EF4444",
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+  },
+  cancelBtn: {
+    ...modalRowSecondaryContainer,
+  },
+  cancelBtnText: {
+    ...modalRowSecondaryLabel,
+  },
+  confirmBtn: {
+    ...modalRowPrimaryContainer,
+    backgroundColor: "#22C55E",
+  },
+  confirmBtnText: {
+    ...modalRowPrimaryLabel,
+  },
+});
@@ -1,5 +1,6 @@
 /**
- * Modal to choose how much of an item was consumed.
+ * Modal to choose how much of an item was consumed, in the item's unit or any
+ * unit it converts to (e.g. 250 g of a 1 kg bag).
  * Logs to usage history and reduces/removes from inventory on confirm.
  */
 
@@ -9,6 +10,7 @@ import {
   modalRowSecondaryContainer,
   modalRowSecondaryLabel,
 } from "@/theme/modalActionStyles";
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "@/lib/foodLocations";
 import { FoodItem } from "@/lib/supabase";
 import React, { useEffect, useState } from "react";
 import {
@@ -23,12 +25,17 @@ import {
 import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
 import {
   MAX_INVENTORY_QUANTITY,
-  parseDigitsToClampedQuantity,
+  MIN_QUANTITY,
+  parseDecimalQuantity,
+  roundQuantity,
+  sanitizeDecimalQuantityInputString,
 } from "@/utils/quantityLimits";
+import { compatibleUnits, convertQuantity } from "@/utils/unitConversion";
 
 export interface ConsumeModalProps {
   visible: boolean;
   item: FoodItem | null;
+  /** Amount in the item's own unit. */
   onConfirm: (quantity: number) => void;
   onCancel: () => void;
 }
@@ -41,44 +48,69 @@ export function ConsumeModal({
 }: ConsumeModalProps) {
   const stockQty = item ? (typeof item.quantity === "number" ? item.quantity : 1) : 1;
   const maxQty = Math.min(stockQty, MAX_INVENTORY_QUANTITY);
-  const isMultiQty = maxQty > 1;
-  const halfQty = Math.floor(maxQty / 2);
-  const [quantity, setQuantity] = useState(1);
+  const itemUnit = item?.unit?.trim() || "pcs";
+  const [unit, setUnit] = useState(itemUnit);
+  const [quantityText, setQuantityText] = useState("1");
+
+  // Everything below is in the unit the user is entering, converted back on confirm.
+  const maxInUnit = convertQuantity(maxQty, itemUnit, unit) ?? maxQty;
+  const minStart = Math.min(1, maxInUnit);
+  const quantity = parseDecimalQuantity(quantityText, MIN_QUANTITY, maxInUnit);
+  const isMultiQty = maxInUnit > 1;
+  const halfQty = roundQuantity(maxInUnit / 2);
+  const units = compatibleUnits(itemUnit);
 
   useEffect(() => {
     if (visible && item) {
-      setQuantity(1);
+      const startUnit = item.unit?.trim() || "pcs";
+      setUnit(startUnit);
+      setQuantityText(String(Math.min(1, Math.min(item.quantity, MAX_INVENTORY_QUANTITY))));
     }
   }, [visible, item]);
 
   const handleDecrement = () => {
-    setQuantity((prev) => Math.max(1, prev - 1));
+    setQuantityText(String(roundQuantity(quantity - 1)));
   };
 
   const handleIncrement = () => {
-    setQuantity((prev) => Math.min(maxQty, prev + 1));
+    setQuantityText(String(Math.min(maxInUnit, roundQuantity(quantity + 1))));
   };
 
   const onQuantityTextChange = (t: string) => {
-    setQuantity(parseDigitsToClampedQuantity(t, 1, maxQty));
+    setQuantityText(
+      sanitizeDecimalQuantityInputString(t, { allowEmpty: true, max: maxInUnit })
+    );
+  };
+
+  const onQuantityBlur = () => {
+    setQuantityText(String(quantity));
+  };
+
+  const handleUnitChange = (next: string) => {
+    if (next === unit) return;
+    const nextMax = convertQuantity(maxQty, itemUnit, next) ?? maxQty;
+    const converted = convertQuantity(quantity, unit, next) ?? quantity;
+    setUnit(next);
+    setQuantityText(String(Math.min(nextMax, Math.max(MIN_QUANTITY, converted))));
   };
 
   const handleConfirm = () => {
-    onConfirm(quantity);
+    const inItemUnit =
+      quantity >= maxInUnit ? maxQty : convertQuantity(quantity, unit, itemUnit) ?? quantity;
+    onConfirm(Math.min(maxQty, Math.max(MIN_QUANTITY, inItemUnit)));
   };
 
   if (!visible || !item) return null;
 
-  const locationLabel = item.location === "fridge" ? "Fridge" : "Shelf";
+  const locationLabel = FOOD_LOCATION_LABELS[toFoodLocation(item.location)];
+  const canDecrement = quantity - 1 >= MIN_QUANTITY;
   const isConsumeAllSelected =
-    isMultiQty && quantity >= maxQty && maxQty === stockQty;
+    quantity >= maxInUnit && maxQty === stockQty && (isMultiQty || unit !== itemUnit);
   const showMinAction = isMultiQty && quantity > halfQty;
 
   const handleToggleMinMax = () => {
-    setQuantity((prev) => {
-      if (!isMultiQty) return prev;
-      return prev > halfQty ? 1 : maxQty;
-    });
+    if (!isMultiQty) return;
+    setQuantityText(String(quantity > halfQty ? minStart : maxInUnit));
   };
 
   return (
@@ -93,38 +125,59 @@ export function ConsumeModal({
           <Pressable style={styles.card} onPress={(e) => e.stopPropagation()}>
             <Text style={styles.question}>How much did you use?</Text>
             <Text style={styles.availability}>
-              Available: {formatQuantityWithUnit(maxQty, item.unit, { fallbackUnit: "pcs" })} in{" "}
+              Available: {formatQuantityWithUnit(maxInUnit, unit, { fallbackUnit: "pcs" })} in{" "}
               {locationLabel}
             </Text>
 
+            {units.length > 1 ? (
+              <View style={styles.unitRow}>
+                {units.map((u) => (
+                  <TouchableOpacity
+                    key={u}
+                    style={[styles.unitChip, u === unit && styles.unitChipSelected]}
+                    onPress={() => handleUnitChange(u)}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: u === unit }}
+                    accessibilityLabel={`Enter amount in ${u}`}
+                  >
+                    <Text style={[styles.unitChipText, u === unit && styles.unitChipTextSelected]}>
+                      {u}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : null}
+
             <View style={styles.quantitySection}>
               <View style={styles.quantityRow}>
                 <TouchableOpacity
-                  style={[styles.qtyBtnOutlined, quantity <= 1 && styles.qtyBtnDisabled]}
+                  style={[styles.qtyBtnOutlined, !canDecrement && styles.qtyBtnDisabled]}
                   onPress={handleDecrement}
-                  disabled={quantity <= 1}
+                  disabled={!canDecrement}
                   activeOpacity={0.7}
                 >
-                  <Text style={[styles.qtyBtnText, quantity <= 1 && styles.qtyBtnTextDisabled]}>−</Text>
+                  <Text style={[styles.qtyBtnText, !canDecrement && styles.qtyBtnTextDisabled]}>−</Text>
                 </TouchableOpacity>
                 <TextInput
                   style={styles.qtyInput}
-                  value={String(quantity)}
+                  value={quantityText}
                   onChangeText={onQuantityTextChange}
-                  keyboardType="number-pad"
+                  onBlur={onQuantityBlur}
+                  keyboardType="decimal-pad"
                   selectTextOnFocus
                   accessibilityLabel="Quantity to consume"
                 />
                 <TouchableOpacity
-                  style={[styles.qtyBtnOutlined, quantity >= maxQty && styles.qtyBtnDisabled]}
+                  style={[styles.qtyBtnOutlined, quantity >= maxInUnit && styles.qtyBtnDisabled]}
                   onPress={handleIncrement}
-                  disabled={quantity >= maxQty}
+                  disabled={quantity >= maxInUnit}
                   activeOpacity={0.7}
                 >
                   <Text
                     style={[
                       styles.qtyBtnText,
-                      quantity >= maxQty && styles.qtyBtnTextDisabled,
+                      quantity >= maxInUnit && styles.qtyBtnTextDisabled,
                     ]}
                   >
                     +
@@ -140,7 +193,7 @@ export function ConsumeModal({
                   accessibilityLabel={
                     showMinAction
                       ? "Set quantity to minimum"
-                      : `Set quantity to max ${maxQty}`
+                      : `Set quantity to max ${maxInUnit}`
                   }
                 >
                   <Text style={styles.maxLinkText}>{showMinAction ? "Min" : "Max"}</Text>
@@ -204,6 +257,33 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginBottom: 14,
   },
+  unitRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  unitChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#CBD5E1",
+  },
+  unitChipSelected: {
+    borderColor: "#15803D",
+    backgroundColor: "#DCFCE7",
+  },
+  unitChipText: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#475569",
+  },
+  unitChipTextSelected: {
+    color: "#15803D",
+    fontWeight: "700",
+  },
   quantitySection: {
     marginBottom: 16,
     alignItems: "center",
@@ -0,0 +1,279 @@
+/**
+ * "I cooked this": review how much of each inventory item a recipe used, then log
+ * them all in one go. A quantity of 0 leaves that item untouched.
+ */
+
+import {
+  modalRowPrimaryContainer,
+  modalRowPrimaryLabel,
+  modalRowSecondaryContainer,
+  modalRowSecondaryLabel,
+} from "@/theme/modalActionStyles";
+import { FoodItem } from "@/lib/supabase";
+import type { ItemUsage } from "@/services/foodItemsRemote";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import {
+  MAX_INVENTORY_QUANTITY,
+  parseDigitsToClampedQuantity,
+} from "@/utils/quantityLimits";
+
+export type CookRecipeRow = {
+  item: FoodItem;
+  /** Pre-filled amount; the user can change it before confirming. */
+  quantity: number;
+};
+
+export interface CookRecipeModalProps {
+  visible: boolean;
+  title: string;
+  rows: CookRecipeRow[];
+  busy?: boolean;
+  onConfirm: (uses: ItemUsage[]) => void;
+  onCancel: () => void;
+}
+
+export function CookRecipeModal({
+  visible,
+  title,
+  rows,
+  busy = false,
+  onConfirm,
+  onCancel,
+}: CookRecipeModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (visible) {
+      setQuantities(Object.fromEntries(rows.map((r) => [r.item.id, r.quantity])));
+    }
+  }, [visible, rows]);
+
+  if (!visible) return null;
+
+  const maxFor = (item: FoodItem) => Math.min(item.quantity, MAX_INVENTORY_QUANTITY);
+  const setQuantity = (item: FoodItem, next: number) => {
+    setQuantities((prev) => ({
+      ...prev,
+      [item.id]: Math.max(0, Math.min(maxFor(item), next)),
+    }));
+  };
+
+  const uses: ItemUsage[] = rows
+    .map(({ item }) => ({ itemId: item.id, quantity: quantities[item.id] ?? 0 }))
+    .filter((u) => u.quantity > 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onCancel}>
+      <Pressable style={styles.overlay} onPress={busy ? undefined : onCancel}>
+        <View style={styles.centered}>
+          <Pressable style={styles.card} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.question}>What did you use?</Text>
+            <Text style={styles.subtitle} numberOfLines={2}>
+              {title}
+            </Text>
+
+            <ScrollView style={styles.list} bounces={false}>
+              {rows.map(({ item }) => {
+                const qty = quantities[item.id] ?? 0;
+                const max = maxFor(item);
+                return (
+                  <View key={item.id} style={styles.row}>
+                    <View style={styles.rowText}>
+                      <Text style={[styles.itemName, qty === 0 && styles.itemSkipped]} numberOfLines={1}>
+                        {item.name}
+                      </Text>
+                      <Text style={styles.availability}>
+                        {formatQuantityWithUnit(item.quantity, item.unit, { fallbackUnit: "pcs" })}{" "}
+                        left
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.qtyBtnOutlined, qty <= 0 && styles.qtyBtnDisabled]}
+                      onPress={() => setQuantity(item, qty - 1)}
+                      disabled={busy || qty <= 0}
+                      activeOpacity={0.7}
+                      accessibilityLabel={`Use less ${item.name}`}
+                    >
+                      <Text style={styles.qtyBtnText}>−</Text>
+                    </TouchableOpacity>
+                    <TextInput
+                      style={styles.qtyInput}
+                      value={String(qty)}
+                      onChangeText={(t) => setQuantity(item, parseDigitsToClampedQuantity(t, 0, max))}
+                      keyboardType="number-pad"
+                      selectTextOnFocus
+                      editable={!busy}
+                      accessibilityLabel={`Quantity of ${item.name} used`}
+                    />
+                    <TouchableOpacity
+                      style={[styles.qtyBtnOutlined, qty >= max && styles.qtyBtnDisabled]}
+                      onPress={() => setQuantity(item, qty + 1)}
+                      disabled={busy || qty >= max}
+                      activeOpacity={0.7}
+                      accessibilityLabel={`Use more ${item.name}`}
+                    >
+                      <Text style={styles.qtyBtnText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.cancelBtn}
+                onPress={onCancel}
+                disabled={busy}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.cancelBtnText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmBtn, uses.length === 0 && styles.qtyBtnDisabled]}
+                onPress={() => onConfirm(uses)}
+                disabled={busy || uses.length === 0}
+                activeOpacity={0.8}
+              >
+                {busy ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.confirmBtnText}>Log usage</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  centered: {
+    width: "100%",
+    maxWidth: 360,
+  },
+  card: {
+    width: "100%",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1E293B",
+    textAlign: "center",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  list: {
+    maxHeight: 320,
+    marginBottom: 14,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  rowText: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1E293B",
+  },
+  itemSkipped: {
+    color: "#94A3B8",
+    textDecorationLine: "line-through",
+  },
+  availability: {
+    fontSize: 12,
+    color: "#64748B",
+    marginTop: 1,
+  },
+  qtyBtnOutlined: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    backgroundColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  qtyBtnDisabled: {
+    opacity: 0.45,
+  },
+  qtyBtnText: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#475569",
+    lineHeight: 16,
+    includeFontPadding: false,
+  },
+  qtyInput: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#334155",
+    minWidth: 36,
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    textAlign: "center",
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+  },
+  cancelBtn: {
+    ...modalRowSecondaryContainer,
+  },
+  cancelBtnText: {
+    ...modalRowSecondaryLabel,
+  },
+  confirmBtn: {
+    ...modalRowPrimaryContainer,
+    backgroundColor: "#22C55E",
+  },
+  confirmBtnText: {
+    ...modalRowPrimaryLabel,
+  },
+});
@@ -29,6 +29,7 @@ import {
   modalStackedCancelLabel,
 } from "@/theme/modalActionStyles";
 import { getFoodCategoryIcon } from "@/lib/foodCategories";
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "@/lib/foodLocations";
 import { Calendar } from "react-native-calendars";
 import {
   Gesture,
@@ -45,8 +46,10 @@ import {
   ItemCardPendingOverlay,
   type ItemCardPendingTone,
 } from "./ItemCardPendingOverlay";
+import { FoodLocationIcon } from "./FoodLocationIcon";
 import { FoodItem } from "../lib/supabase";
 import { formatQuantityWithUnit } from "../utils/formatQuantityUnit";
+import { addDaysYmd, todayYmd } from "../utils/localDate";
 
 // ─── Asset & icon helpers ────────────────────────────────────────────────────
 
@@ -65,8 +68,6 @@ function getCategoryEmoji(category?: string, name?: string) {
   return "🥫";
 }
 
-const fridgeIconAsset = require("../assets/images/icons/fridge_icon.png");
-const shelfIconAsset  = require("../assets/images/icons/shelf_icon.png");
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -259,7 +260,7 @@ function EnhancedCalendarScreenCore({
     []
   );
 
-  const todayStr = useMemo(() => new Date().toISOString().split("T")[0], []);
+  const todayStr = useMemo(() => todayYmd(), []);
   const { width: screenWidth } = useWindowDimensions();
 
   const slideTranslate = useRef(new Animated.Value(0)).current;
@@ -341,9 +342,7 @@ function EnhancedCalendarScreenCore({
     const d = selectedDate ?? todayStr;
     const date = new Date(d + "T00:00:00");
     const isToday    = d === todayStr;
-    const tomorrow   = new Date(todayStr + "T00:00:00");
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const isTomorrow = d === tomorrow.toISOString().split("T")[0];
+    const isTomorrow = d === addDaysYmd(todayStr, 1);
     if (isToday)    return "Today";
     if (isTomorrow) return "Tomorrow";
     return date.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
@@ -808,7 +807,7 @@ function EnhancedCalendarScreenCore({
       onToggleExpand: () => void,
       animVal: Animated.Value,
     ) => {
-      const isShelf = (item.location || "fridge") === "shelf";
+      const location = toFoodLocation(item.location);
       const qtyText = item.quantity
         ? formatQuantityWithUnit(item.quantity, item.unit, {
             fallbackUnit: "pcs",
@@ -835,13 +834,9 @@ function EnhancedCalendarScreenCore({
                     {item.name}
                   </Text>
                   <View style={S.dayItemMetaRow}>
-                    <Image
-                      source={isShelf ? shelfIconAsset : fridgeIconAsset}
-                      style={S.dayItemLocationIcon}
-                      resizeMode="contain"
-                    />
+                    <FoodLocationIcon location={location} style={S.dayItemLocationIcon} />
                     <Text style={S.dayItemMetaText}>
-                      {isShelf ? "Shelf" : "Fridge"}
+                      {FOOD_LOCATION_LABELS[location]}
                       {qtyText ? ` · ${qtyText}` : ""}
                     </Text>
                   </View>
@@ -1254,8 +1249,7 @@ function EnhancedCalendarScreenCore({
                                 : `Expires in ${diff} days`;
                           }
 
-                          const isShelf =
-                            (item.location || "fridge") === "shelf";
+                          const location = toFoodLocation(item.location);
                           const qtyText = item.quantity
                             ? formatQuantityWithUnit(item.quantity, item.unit, {
                                 fallbackUnit: "pcs",
@@ -1294,17 +1288,12 @@ function EnhancedCalendarScreenCore({
                                           {item.name}
                                         </Text>
                                         <View style={S.dayItemMetaRow}>
-                                          <Image
-                                            source={
-                                              isShelf
-                                                ? shelfIconAsset
-                                                : fridgeIconAsset
-                                            }
+                                          <FoodLocationIcon
+                                            location={location}
                                             style={S.dayItemLocationIcon}
-                                            resizeMode="contain"
                                           />
                                           <Text style={S.dayItemMetaText}>
-                                            {isShelf ? "Shelf" : "Fridge"}
+                                            {FOOD_LOCATION_LABELS[location]}
                                             {qtyText ? ` · ${qtyText}` : ""}
                                           </Text>
                                         </View>
@@ -13,19 +13,15 @@ import {
   ViewStyle,
 } from "react-native";
 import { useThemeColor } from "../hooks/useThemeColor";
+import { useUrgencySettings } from "../hooks/useUrgencySettings";
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "../lib/foodLocations";
 import { FoodItem } from "../lib/supabase";
+import { calculateUrgency, UrgencyInfo } from "../utils/urgencyUtils";
 
-// Helper function to get status text based on expiry date
-function getStatusText(expiryDate: string): string {
-  if (!expiryDate) return "SAFE";
-
-  const today = new Date();
-  const expiry = new Date(expiryDate);
-  const diffTime = expiry.getTime() - today.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-  if (diffDays < 0) return "EXPIRED";
-  if (diffDays <= 2) return "WARNING";
+// Helper function to get status text based on the item's urgency
+function getStatusText(urgency: UrgencyInfo): string {
+  if (urgency.isExpired) return "EXPIRED";
+  if (urgency.daysUntilExpiry <= 2) return "WARNING";
   return "SAFE";
 }
 
@@ -39,6 +35,8 @@ export interface EnhancedSwipeableItemCardProps {
   onExtendExpiry: (item: FoodItem, days: number) => void;
   onPress?: (item: FoodItem) => void;
   onDelete?: (item: FoodItem) => void;
+  /** Offered on long press until the item has been opened. */
+  onMarkOpened?: (item: FoodItem) => void;
   disabled?: boolean;
   showQuantitySelector?: boolean;
   enableHaptics?: boolean;
@@ -55,6 +53,7 @@ export function EnhancedSwipeableItemCard({
   onExtendExpiry,
   onPress,
   onDelete,
+  onMarkOpened,
   disabled = false,
   showQuantitySelector = true,
   enableHaptics = true,
@@ -102,6 +101,14 @@ export function EnhancedSwipeableItemCard({
           text: "7 days",
           onPress: () => onExtendExpiry(item, 7),
         },
+        ...(onMarkOpened && !item.opened_at
+          ? [
+              {
+                text: "Mark opened",
+                onPress: () => onMarkOpened(item),
+              },
+            ]
+          : []),
         ...(onDelete
           ? [
               {
@@ -114,7 +121,7 @@ export function EnhancedSwipeableItemCard({
         { text: "Cancel", style: "cancel" },
       ]
     );
-  }, [item, onExtendExpiry, onDelete]);
+  }, [item, onExtendExpiry, onDelete, onMarkOpened]);
 
   const handlePress = useCallback(() => {
     if (onPress && !disabled) {
@@ -126,23 +133,21 @@ export function EnhancedSwipeableItemCard({
   // ITEM STATUS
   // =============================================================================
 
-  const itemStatus = useMemo(() => {
-    if (!item.expiry_date) return "unknown";
-
-    const today = new Date().toISOString().split("T")[0];
-    const expiry = item.expiry_date;
-
-    if (expiry < today) return "expired";
-    if (expiry === today) return "expires-today";
-
-    const daysUntilExpiry = Math.ceil(
-      (new Date(expiry).getTime() - new Date(today).getTime()) /
-        (1000 * 60 * 60 * 24)
-    );
+  // Local calendar days from the effective date (opened window, best before).
+  const urgencySettings = useUrgencySettings();
+  const urgency = useMemo(
+    () => calculateUrgency(item, { settings: urgencySettings }),
+    [item, urgencySettings]
+  );
 
-    if (daysUntilExpiry <= 3) return "expires-soon";
+  const itemStatus = useMemo(() => {
+    if (!Number.isFinite(urgency.daysUntilExpiry)) return "unknown";
+    if (urgency.isExpired) return "expired";
+    // Past best before is orange like the day itself, never expired.
+    if (urgency.daysUntilExpiry <= 0) return "expires-today";
+    if (urgency.daysUntilExpiry <= 3) return "expires-soon";
     return "fresh";
-  }, [item.expiry_date]);
+  }, [urgency]);
 
   const statusColor = useMemo(() => {
     switch (itemStatus) {
@@ -197,15 +202,16 @@ export function EnhancedSwipeableItemCard({
               style={[styles.statusBadge, { backgroundColor: statusColor }]}
             >
               <Text style={styles.statusText}>
-                {getStatusText(item.expiry_date || "")}
+                {getStatusText(urgency)}
               </Text>
             </View>
           </View>
 
           {/* Bottom row: Location and quantity */}
           <Text style={styles.locationText}>
-            {item.location === "fridge" ? "Refrigerator" : "Shelf"} • Qty:{" "}
+            {FOOD_LOCATION_LABELS[toFoodLocation(item.location)]} • Qty:{" "}
             {item.quantity}
+            {item.opened_at ? " • Opened" : ""}
           </Text>
         </View>
       </TouchableOpacity>
@@ -2,8 +2,13 @@
 // Quick action modal for extending item expiry dates with preset options
 
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { useUrgencySettings } from "@/hooks/useUrgencySettings";
 import { FoodItem } from "@/lib/supabase";
-import { calculateEnhancedUrgency } from "@/utils/urgencyUtils";
+import { parseYmdLocal, toLocalYmd } from "@/utils/localDate";
+import {
+  calculateEnhancedUrgency,
+  urgencyThresholdsFor,
+} from "@/utils/urgencyUtils";
 import { Ionicons } from "@expo/vector-icons";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as Haptics from "expo-haptics";
@@ -119,14 +124,19 @@ const ExtendExpiryModal: React.FC<ExtendExpiryModalProps> = ({
   const [customDate, setCustomDate] = useState<Date>(new Date());
   const [animatedValue] = useState(new Animated.Value(0));
 
+  const urgencySettings = useUrgencySettings();
+
   // Calculate item urgency information
   const itemWithUrgency = useMemo(() => {
     if (!item?.expiry_date) return null;
     return {
       ...item,
-      urgency: calculateEnhancedUrgency(item.expiry_date),
+      urgency: calculateEnhancedUrgency(
+        item.expiry_date,
+        urgencyThresholdsFor(item.category, urgencySettings)
+      ),
     };
-  }, [item]);
+  }, [item, urgencySettings]);
 
   // Animation for modal appearance
   React.useEffect(() => {
@@ -179,7 +189,7 @@ const ExtendExpiryModal: React.FC<ExtendExpiryModalProps> = ({
     (option: QuickOption | "custom"): string => {
       if (!item?.expiry_date) return "";
 
-      const currentExpiry = new Date(item.expiry_date);
+      const currentExpiry = parseYmdLocal(item.expiry_date);
       let newExpiry: Date;
 
       if (option === "custom") {
@@ -189,7 +199,7 @@ const ExtendExpiryModal: React.FC<ExtendExpiryModalProps> = ({
         newExpiry.setDate(currentExpiry.getDate() + option.days);
       }
 
-      return newExpiry.toISOString().split("T")[0];
+      return toLocalYmd(newExpiry);
     },
     [item?.expiry_date, customDate]
   );
@@ -244,13 +254,22 @@ const ExtendExpiryModal: React.FC<ExtendExpiryModalProps> = ({
     if (!option) return null;
 
     const newExpiryDate = calculateNewExpiryDate(option);
-    const newUrgency = calculateEnhancedUrgency(newExpiryDate);
+    const newUrgency = calculateEnhancedUrgency(
+      newExpiryDate,
+      urgencyThresholdsFor(item?.category, urgencySettings)
+    );
 
     return {
-      date: new Date(newExpiryDate).toLocaleDateString(),
+      date: parseYmdLocal(newExpiryDate).toLocaleDateString(),
       urgency: newUrgency,
     };
-  }, [selectedOption, item?.expiry_date, calculateNewExpiryDate]);
+  }, [
+    selectedOption,
+    item?.expiry_date,
+    item?.category,
+    calculateNewExpiryDate,
+    urgencySettings,
+  ]);
 
   const expiryPreview = getExpiryPreview();
 
@@ -315,7 +334,7 @@ const ExtendExpiryModal: React.FC<ExtendExpiryModalProps> = ({
                   {item.name}
                 </Text>
                 <Text style={[styles.currentExpiry, { color: textColor }]}>
-                  Current: {new Date(item.expiry_date!).toLocaleDateString()}
+                  Current: {parseYmdLocal(item.expiry_date!).toLocaleDateString()}
                 </Text>
                 <Text
                   style={[
@@ -1,3 +1,4 @@
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "@/lib/foodLocations";
 import React from "react";
 import {
   StyleSheet,
@@ -63,7 +64,7 @@ function getStatusColors(status: FoodItem["status"]) {
  * Format location text for display
  */
 function formatLocation(location: string): string {
-  return location === "fridge" ? "Refrigerator" : "Shelf";
+  return FOOD_LOCATION_LABELS[toFoodLocation(location)];
 }
 
 // =============================================================================
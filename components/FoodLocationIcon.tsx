@@ -0,0 +1,41 @@
+/**
+ * Storage location glyph: the bundled fridge / shelf artwork, or a snowflake for the
+ * freezer. Takes the image style the call sites already use (size, tint, opacity).
+ */
+
+import type { FoodLocation } from "@/lib/supabase";
+import { SnowflakeIcon } from "phosphor-react-native";
+import React from "react";
+import { Image, ImageStyle, StyleProp, StyleSheet } from "react-native";
+
+const fridgeIconAsset = require("@/assets/images/icons/fridge_icon.png");
+const shelfIconAsset = require("@/assets/images/icons/shelf_icon.png");
+
+const FREEZER_ICON_COLOR = "#0284C7";
+
+export interface FoodLocationIconProps {
+  location?: FoodLocation | null;
+  style?: StyleProp<ImageStyle>;
+}
+
+export function FoodLocationIcon({ location, style }: FoodLocationIconProps) {
+  if (location === "freezer") {
+    const { width, tintColor, opacity, margin, marginLeft, marginRight } =
+      StyleSheet.flatten(style) ?? {};
+    return (
+      <SnowflakeIcon
+        size={typeof width === "number" ? width : 14}
+        color={typeof tintColor === "string" ? tintColor : FREEZER_ICON_COLOR}
+        weight="bold"
+        style={{ opacity, margin, marginLeft, marginRight }}
+      />
+    );
+  }
+  return (
+    <Image
+      source={location === "shelf" ? shelfIconAsset : fridgeIconAsset}
+      style={style}
+      resizeMode="contain"
+    />
+  );
+}
@@ -9,12 +9,15 @@ type ItemEntryCardProps = {
   quantity: number;
   isUseFirst?: boolean;
   expiryDate?: string;
+  /** Set once the package is opened; `expiryDate` should then be the effective date. */
+  openedAt?: string | null;
   onDecrement: () => void;
   onIncrement: () => void;
   onUseAll: () => void;
   onOptionsPress?: () => void;
   onEditPress?: () => void;
   onDeletePress?: () => void;
+  onMarkOpened?: () => void;
 };
 
 /**
@@ -24,12 +27,14 @@ const ItemEntryCard: React.FC<ItemEntryCardProps> = ({
   quantity,
   isUseFirst = false,
   expiryDate,
+  openedAt,
   onDecrement,
   onIncrement,
   onUseAll,
   onOptionsPress,
   onEditPress,
   onDeletePress,
+  onMarkOpened,
 }) => {
   const expiryStatus = formatExpiry(expiryDate);
   const { color, backgroundColor, borderColor, iconColor } =
@@ -44,6 +49,13 @@ const ItemEntryCard: React.FC<ItemEntryCardProps> = ({
     }
   };
 
+  const canMarkOpened = Boolean(onMarkOpened) && !openedAt;
+
+  const handleMarkOpened = () => {
+    swipeableRef.current?.close();
+    if (onMarkOpened) onMarkOpened();
+  };
+
   const showDeleteConfirmation = () => {
     swipeableRef.current?.close();
     setDeleteModalVisible(true);
@@ -56,7 +68,12 @@ const ItemEntryCard: React.FC<ItemEntryCardProps> = ({
 
   const renderRightActions = () => {
     return (
-      <View style={styles.rightActionsContainer}>
+      <View
+        style={[
+          styles.rightActionsContainer,
+          canMarkOpened && styles.rightActionsContainerWide,
+        ]}
+      >
         <TouchableOpacity
           style={styles.editButton}
           onPress={handleEditPress}
@@ -66,6 +83,17 @@ const ItemEntryCard: React.FC<ItemEntryCardProps> = ({
           <Text style={styles.actionButtonText}>Edit</Text>
         </TouchableOpacity>
 
+        {canMarkOpened && (
+          <TouchableOpacity
+            style={styles.openedButton}
+            onPress={handleMarkOpened}
+            accessibilityLabel="Mark opened"
+          >
+            <Ionicons name="cube-outline" size={20} color="#FFFFFF" />
+            <Text style={styles.actionButtonText}>Opened</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={styles.deleteButton}
           onPress={showDeleteConfirmation}
@@ -90,6 +118,11 @@ const ItemEntryCard: React.FC<ItemEntryCardProps> = ({
         <View style={styles.topRow}>
           <View style={styles.quantitySection}>
             <Text style={styles.quantityText}>{quantity}</Text>
+            {openedAt ? (
+              <View style={styles.openedBadge}>
+                <Text style={styles.openedBadgeText}>Opened</Text>
+              </View>
+            ) : null}
           </View>
 
           {isUseFirst && (
@@ -220,6 +253,18 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  openedBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: "#CCFBF1",
+  },
+  openedBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#0F766E",
+  },
   useFirstIcon: {
     marginRight: 4,
   },
@@ -312,6 +357,9 @@ const styles = StyleSheet.create({
     width: 160,
     marginBottom: 12,
   },
+  rightActionsContainerWide: {
+    width: 240,
+  },
   editButton: {
     backgroundColor: "#0066FF",
     justifyContent: "center",
@@ -320,6 +368,12 @@ const styles = StyleSheet.create({
     borderTopLeftRadius: 12,
     borderBottomLeftRadius: 12,
   },
+  openedButton: {
+    backgroundColor: "#0D9488",
+    justifyContent: "center",
+    alignItems: "center",
+    width: 80,
+  },
   deleteButton: {
     backgroundColor: "#DC2626",
     justifyContent: "center",
@@ -18,6 +18,7 @@ type ItemEntry = {
   id: string;
   quantity: number;
   expiryDate?: string; // ISO date string
+  openedAt?: string | null;
   isUseFirst?: boolean;
   expiryStatus?: string;
   daysUntilExpiry?: number;
@@ -33,6 +34,7 @@ type ItemGroupCardProps = {
   onEntryOptions?: (entryId: string) => void;
   onEditEntry?: (entryId: string) => void;
   onDeleteEntry?: (entryId: string) => void;
+  onMarkEntryOpened?: (entryId: string) => void;
   initialExpanded?: boolean;
 };
 
@@ -52,6 +54,7 @@ const ItemGroupCard: React.FC<ItemGroupCardProps> = ({
   onEntryOptions,
   onEditEntry,
   onDeleteEntry,
+  onMarkEntryOpened,
   initialExpanded = false,
 }) => {
   // State to track if the card is expanded
@@ -334,6 +337,7 @@ const ItemGroupCard: React.FC<ItemGroupCardProps> = ({
               quantity={entry.quantity}
               isUseFirst={entry.isUseFirst}
               expiryDate={entry.expiryDate}
+              openedAt={entry.openedAt}
               onDecrement={() => onDecrement(entry.id)}
               onIncrement={() => onIncrement(entry.id)}
               onUseAll={() => onUseAll(entry.id)}
@@ -346,6 +350,9 @@ const ItemGroupCard: React.FC<ItemGroupCardProps> = ({
               onDeletePress={
                 onDeleteEntry ? () => onDeleteEntry(entry.id) : undefined
               }
+              onMarkOpened={
+                onMarkEntryOpened ? () => onMarkEntryOpened(entry.id) : undefined
+              }
             />
           ))}
         </View>
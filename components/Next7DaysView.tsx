@@ -1,6 +1,8 @@
 // components/Next7DaysView.tsx
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { useUrgencySettings } from "@/hooks/useUrgencySettings";
 import { FoodItemWithUrgency, foodItemsService } from "@/services/foodItems";
+import { todayYmd } from "@/utils/localDate";
 import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
 import {
   Dimensions,
@@ -27,6 +29,7 @@ const MemoizedItemCard = memo(
     return (
       prevProps.item.id === nextProps.item.id &&
       prevProps.item.expiry_date === nextProps.item.expiry_date &&
+      prevProps.item.opened_at === nextProps.item.opened_at &&
       prevProps.item.quantity === nextProps.item.quantity
     );
   }
@@ -43,6 +46,7 @@ interface Next7DaysViewProps {
   onMarkUsed?: (itemId: string) => void;
   onExtendExpiry?: (itemId: string) => void;
   onDeleteItem?: (itemId: string) => void;
+  onMarkOpened?: (itemId: string) => void;
 }
 
 interface DayGroup {
@@ -64,6 +68,7 @@ export default function Next7DaysView({
   onMarkUsed,
   onExtendExpiry,
   onDeleteItem,
+  onMarkOpened,
 }: Next7DaysViewProps) {
   const [dayGroups, setDayGroups] = useState<DayGroup[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -96,11 +101,8 @@ export default function Next7DaysView({
     try {
       // Get next 7 days starting from today
       const today = new Date();
-      const endDate = new Date(today);
-      endDate.setDate(today.getDate() + 6);
-
-      const startDateStr = today.toISOString().split("T")[0];
-      const endDateStr = endDate.toISOString().split("T")[0];
+      const startDateStr = todayYmd();
+      const endDateStr = todayYmd(6);
 
       const itemsByDate = await foodItemsService.getItemsByExpiryDate(
         startDateStr,
@@ -112,7 +114,7 @@ export default function Next7DaysView({
       for (let i = 0; i < 7; i++) {
         const currentDate = new Date(today);
         currentDate.setDate(today.getDate() + i);
-        const dateStr = currentDate.toISOString().split("T")[0];
+        const dateStr = todayYmd(i);
         const items = itemsByDate[dateStr] || [];
 
         // Calculate urgency stats
@@ -161,9 +163,11 @@ export default function Next7DaysView({
     }
   }, []);
 
+  // Reload when the urgency thresholds load or change so the levels follow them.
+  const urgencySettings = useUrgencySettings();
   useEffect(() => {
     loadNext7Days();
-  }, [loadNext7Days]);
+  }, [loadNext7Days, urgencySettings]);
 
   const onRefresh = useCallback(() => {
     loadNext7Days(true);
@@ -265,6 +269,9 @@ export default function Next7DaysView({
                   onMarkUsed={() => onMarkUsed?.(item.id)}
                   onExtendExpiry={() => onExtendExpiry?.(item.id)}
                   onDelete={() => onDeleteItem?.(item.id)}
+                  onMarkOpened={
+                    onMarkOpened ? () => onMarkOpened(item.id) : undefined
+                  }
                 />
               ))}
             </View>
@@ -285,6 +292,7 @@ export default function Next7DaysView({
       onMarkUsed,
       onExtendExpiry,
       onDeleteItem,
+      onMarkOpened,
     ]
   );
 
@@ -0,0 +1,344 @@
+/**
+ * Minimum stock ("par levels"): products the user never wants to run out of.
+ * Tap a row to edit it; saving a name that groups with an existing one replaces it.
+ */
+
+import {
+  modalRowPrimaryContainer,
+  modalRowPrimaryLabel,
+  modalRowSecondaryContainer,
+  modalRowSecondaryLabel,
+} from "@/theme/modalActionStyles";
+import { ParLevel } from "@/lib/supabase";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import {
+  MAX_INVENTORY_QUANTITY,
+  parseDigitsToClampedQuantity,
+} from "@/utils/quantityLimits";
+
+const MAX_NAME_LENGTH = 60;
+const MAX_UNIT_LENGTH = 12;
+
+export interface ParLevelsModalProps {
+  visible: boolean;
+  parLevels: ParLevel[];
+  busy?: boolean;
+  onSave: (level: { name: string; quantity: number; unit: string }) => void;
+  onRemove: (level: ParLevel) => void;
+  onClose: () => void;
+}
+
+export function ParLevelsModal({
+  visible,
+  parLevels,
+  busy = false,
+  onSave,
+  onRemove,
+  onClose,
+}: ParLevelsModalProps) {
+  const [name, setName] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [unit, setUnit] = useState("");
+
+  const resetForm = () => {
+    setName("");
+    setQuantity(1);
+    setUnit("");
+  };
+
+  useEffect(() => {
+    if (visible) resetForm();
+  }, [visible]);
+
+  // Clear the form once a save lands in the list.
+  useEffect(() => {
+    resetForm();
+  }, [parLevels]);
+
+  if (!visible) return null;
+
+  const canSave = name.trim().length > 0 && !busy;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={busy ? undefined : onClose}>
+        <View style={styles.centered}>
+          <Pressable style={styles.card} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.question}>Minimum stock</Text>
+            <Text style={styles.subtitle}>
+              We&apos;ll suggest a top-up when you have less than this.
+            </Text>
+
+            <ScrollView style={styles.list} bounces={false}>
+              {parLevels.length === 0 ? (
+                <Text style={styles.empty}>No minimums yet, e.g. Milk · 2 L.</Text>
+              ) : (
+                parLevels.map((level) => (
+                  <View key={level.id} style={styles.row}>
+                    <TouchableOpacity
+                      style={styles.rowText}
+                      onPress={() => {
+                        setName(level.name);
+                        setQuantity(level.quantity);
+                        setUnit(level.unit ?? "");
+                      }}
+                      disabled={busy}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Edit minimum for ${level.name}`}
+                    >
+                      <Text style={styles.itemName} numberOfLines={1}>
+                        {level.name}
+                      </Text>
+                      <Text style={styles.itemQty}>
+                        {formatQuantityWithUnit(level.quantity, level.unit ?? undefined)}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => onRemove(level)}
+                      disabled={busy}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Remove minimum for ${level.name}`}
+                    >
+                      <Ionicons name="trash-outline" size={16} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </ScrollView>
+
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={(v) => setName(v.slice(0, MAX_NAME_LENGTH))}
+              placeholder="Item, e.g. Milk"
+              placeholderTextColor="#94A3B8"
+              editable={!busy}
+            />
+            <View style={styles.formRow}>
+              <TouchableOpacity
+                style={[styles.qtyBtnOutlined, quantity <= 1 && styles.disabled]}
+                onPress={() => setQuantity((q) => Math.max(1, q - 1))}
+                disabled={busy || quantity <= 1}
+                accessibilityLabel="Decrease minimum"
+              >
+                <Text style={styles.qtyBtnText}>−</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={styles.qtyInput}
+                value={String(quantity)}
+                onChangeText={(t) =>
+                  setQuantity(parseDigitsToClampedQuantity(t, 1, MAX_INVENTORY_QUANTITY))
+                }
+                keyboardType="number-pad"
+                selectTextOnFocus
+                editable={!busy}
+                accessibilityLabel="Minimum quantity"
+              />
+              <TouchableOpacity
+                style={[
+                  styles.qtyBtnOutlined,
+                  quantity >= MAX_INVENTORY_QUANTITY && styles.disabled,
+                ]}
+                onPress={() => setQuantity((q) => Math.min(MAX_INVENTORY_QUANTITY, q + 1))}
+                disabled={busy || quantity >= MAX_INVENTORY_QUANTITY}
+                accessibilityLabel="Increase minimum"
+              >
+                <Text style={styles.qtyBtnText}>+</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={[styles.input, styles.unitInput]}
+                value={unit}
+                onChangeText={(v) => setUnit(v.slice(0, MAX_UNIT_LENGTH))}
+                placeholder="pcs"
+                placeholderTextColor="#94A3B8"
+                autoCapitalize="none"
+                editable={!busy}
+                accessibilityLabel="Unit"
+              />
+            </View>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.cancelBtn}
+                onPress={onClose}
+                disabled={busy}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.cancelBtnText}>Done</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmBtn, !canSave && styles.disabled]}
+                onPress={() => onSave({ name, quantity, unit: unit.trim() })}
+                disabled={!canSave}
+                activeOpacity={0.8}
+              >
+                {busy ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.confirmBtnText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  centered: {
+    width: "100%",
+    maxWidth: 360,
+  },
+  card: {
+    width: "100%",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1E293B",
+    textAlign: "center",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  list: {
+    maxHeight: 220,
+    marginBottom: 12,
+  },
+  empty: {
+    fontSize: 13,
+    color: "#94A3B8",
+    textAlign: "center",
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  rowText: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1E293B",
+  },
+  itemQty: {
+    fontSize: 13,
+    color: "#64748B",
+  },
+  input: {
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    borderRadius: 10,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F9FAFB",
+    color: "#111827",
+  },
+  formRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 10,
+    marginBottom: 14,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  qtyBtnOutlined: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    backgroundColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  qtyBtnText: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#475569",
+    lineHeight: 16,
+    includeFontPadding: false,
+  },
+  qtyInput: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#334155",
+    minWidth: 36,
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    textAlign: "center",
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+  },
+  cancelBtn: {
+    ...modalRowSecondaryContainer,
+  },
+  cancelBtnText: {
+    ...modalRowSecondaryLabel,
+  },
+  confirmBtn: {
+    ...modalRowPrimaryContainer,
+    backgroundColor: "#22C55E",
+  },
+  confirmBtnText: {
+    ...modalRowPrimaryLabel,
+  },
+});
@@ -0,0 +1,241 @@
+/**
+ * Pick what goes into a meal-plan slot: one of the recipes (best use of the
+ * inventory first) or a free-text meal.
+ */
+
+import {
+  modalRowPrimaryContainer,
+  modalRowSecondaryContainer,
+  modalRowSecondaryLabel,
+} from "@/theme/modalActionStyles";
+import { Recipe } from "@/lib/recipes";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const MAX_MEAL_TITLE_LENGTH = 80;
+
+export type PlanMealOption = {
+  recipe: Recipe;
+  /** Short line under the name, e.g. "Uses 3 items · needs 1". */
+  detail: string;
+};
+
+export interface PlanMealModalProps {
+  visible: boolean;
+  /** e.g. "Dinner · Tue, Oct 21". */
+  title: string;
+  options: PlanMealOption[];
+  busy?: boolean;
+  onPickRecipe: (recipe: Recipe) => void;
+  onAddText: (title: string) => void;
+  onCancel: () => void;
+}
+
+export function PlanMealModal({
+  visible,
+  title,
+  options,
+  busy = false,
+  onPickRecipe,
+  onAddText,
+  onCancel,
+}: PlanMealModalProps) {
+  const [text, setText] = useState("");
+
+  useEffect(() => {
+    if (visible) setText("");
+  }, [visible]);
+
+  if (!visible) return null;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onCancel}>
+      <Pressable style={styles.overlay} onPress={busy ? undefined : onCancel}>
+        <View style={styles.centered}>
+          <Pressable style={styles.card} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.question}>Plan a meal</Text>
+            <Text style={styles.subtitle}>{title}</Text>
+
+            <View style={styles.textRow}>
+              <TextInput
+                style={styles.input}
+                value={text}
+                onChangeText={(v) => setText(v.slice(0, MAX_MEAL_TITLE_LENGTH))}
+                placeholder="Type a meal, e.g. Leftovers"
+                placeholderTextColor="#94A3B8"
+                editable={!busy}
+                returnKeyType="done"
+                onSubmitEditing={() => text.trim() && onAddText(text)}
+              />
+              <TouchableOpacity
+                style={[styles.addBtn, (!text.trim() || busy) && styles.disabled]}
+                onPress={() => onAddText(text)}
+                disabled={!text.trim() || busy}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.addBtnText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.listLabel}>Or pick a recipe</Text>
+            <ScrollView style={styles.list} bounces={false}>
+              {options.map(({ recipe, detail }) => (
+                <TouchableOpacity
+                  key={recipe.id}
+                  style={styles.option}
+                  onPress={() => onPickRecipe(recipe)}
+                  disabled={busy}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.optionName} numberOfLines={1}>
+                    {recipe.name}
+                  </Text>
+                  <Text style={styles.optionDetail} numberOfLines={1}>
+                    {detail}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              {busy ? (
+                <View style={styles.confirmBtn}>
+                  <ActivityIndicator color="#FFFFFF" />
+                </View>
+              ) : (
+                <TouchableOpacity style={styles.cancelBtn} onPress={onCancel} activeOpacity={0.8}>
+                  <Text style={styles.cancelBtnText}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </Pressable>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  centered: {
+    width: "100%",
+    maxWidth: 360,
+  },
+  card: {
+    width: "100%",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1E293B",
+    textAlign: "center",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    marginBottom: 14,
+  },
+  textRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 14,
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    borderRadius: 10,
+    borderWidth: 1.2,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F9FAFB",
+    color: "#111827",
+  },
+  addBtn: {
+    backgroundColor: "#22C55E",
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  addBtnText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  listLabel: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.4,
+    marginBottom: 6,
+  },
+  list: {
+    maxHeight: 300,
+    marginBottom: 14,
+  },
+  option: {
+    paddingVertical: 9,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  optionName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1E293B",
+  },
+  optionDetail: {
+    fontSize: 12,
+    color: "#64748B",
+    marginTop: 1,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+  },
+  cancelBtn: {
+    ...modalRowSecondaryContainer,
+  },
+  cancelBtnText: {
+    ...modalRowSecondaryLabel,
+  },
+  confirmBtn: {
+    ...modalRowPrimaryContainer,
+    backgroundColor: "#22C55E",
+  },
+});
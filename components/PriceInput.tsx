@@ -0,0 +1,170 @@
+// components/PriceInput.tsx
+// Optional price field for add/edit and shopping entries: amount, currency and
+// whether the amount is for the whole entry or for one unit.
+
+import {
+  PRICE_CURRENCIES,
+  PriceMode,
+  sanitizePriceInputString,
+} from "@/utils/itemPrice";
+import * as Haptics from "expo-haptics";
+import React from "react";
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+
+interface PriceInputProps {
+  /** Typed amount; empty for no price. */
+  amount: string;
+  onChangeAmount: (amount: string) => void;
+  mode: PriceMode;
+  onChangeMode: (mode: PriceMode) => void;
+  currency: string;
+  onChangeCurrency: (currency: string) => void;
+  /** Unit of the entry, for the "per unit" option. */
+  unit?: string;
+  label?: string;
+}
+
+function nextCurrency(currency: string): string {
+  const i = PRICE_CURRENCIES.indexOf(currency as (typeof PRICE_CURRENCIES)[number]);
+  return PRICE_CURRENCIES[(i + 1) % PRICE_CURRENCIES.length]!;
+}
+
+export function PriceInput({
+  amount,
+  onChangeAmount,
+  mode,
+  onChangeMode,
+  currency,
+  onChangeCurrency,
+  unit,
+  label = "Price (optional)",
+}: PriceInputProps) {
+  const unitLabel = (unit || "pcs").trim();
+  const modes: { value: PriceMode; label: string }[] = [
+    { value: "total", label: "Total" },
+    { value: "unit", label: `Per ${unitLabel}` },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.row}>
+        <Pressable
+          onPress={() => {
+            Haptics.selectionAsync();
+            onChangeCurrency(nextCurrency(currency));
+          }}
+          style={styles.currencyPill}
+          accessibilityRole="button"
+          accessibilityLabel={`Currency ${currency}, tap to change`}
+        >
+          <Text style={styles.currencyText}>{currency}</Text>
+        </Pressable>
+        <TextInput
+          value={amount}
+          onChangeText={(t) => onChangeAmount(sanitizePriceInputString(t))}
+          placeholder="0.00"
+          placeholderTextColor="#9CA3AF"
+          keyboardType="decimal-pad"
+          style={styles.amountInput}
+          accessibilityLabel="Price"
+        />
+        <View style={styles.modeGroup}>
+          {modes.map((m) => {
+            const selected = m.value === mode;
+            return (
+              <Pressable
+                key={m.value}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  onChangeMode(m.value);
+                }}
+                style={[styles.modeChip, selected && styles.modeChipSelected]}
+                accessibilityRole="button"
+                accessibilityLabel={m.value === "total" ? "Price for all" : `Price per ${unitLabel}`}
+                accessibilityState={{ selected }}
+              >
+                <Text
+                  style={[styles.modeText, selected && styles.modeTextSelected]}
+                  numberOfLines={1}
+                >
+                  {m.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#4B5563",
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  currencyPill: {
+    paddingHorizontal: 10,
+    height: 34,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  currencyText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  amountInput: {
+    flex: 1,
+    minWidth: 64,
+    height: 34,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#F5F5F5",
+    paddingHorizontal: 10,
+    paddingVertical: 0,
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#111827",
+  },
+  modeGroup: {
+    flexDirection: "row",
+    borderRadius: 999,
+    backgroundColor: "#F0F0F0",
+    padding: 2,
+  },
+  modeChip: {
+    paddingHorizontal: 9,
+    paddingVertical: 6,
+    borderRadius: 999,
+    maxWidth: 96,
+  },
+  modeChipSelected: {
+    backgroundColor: "#22C55E",
+  },
+  modeText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#4B5563",
+  },
+  modeTextSelected: {
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,386 @@
+/**
+ * Put away groceries: every bought item with a predicted expiry and storage spot.
+ * Adjust rows one by one or all at once, then add the ticked ones to inventory;
+ * adjusted dates become the suggestion next time.
+ */
+
+import {
+  modalRowPrimaryContainer,
+  modalRowPrimaryLabel,
+  modalRowSecondaryContainer,
+  modalRowSecondaryLabel,
+} from "@/theme/modalActionStyles";
+import { FOOD_LOCATION_LABELS, FOOD_LOCATIONS } from "@/lib/foodLocations";
+import { PutAwayDraft, relocateDraft } from "@/services/putAwayService";
+import { MAX_SHELF_LIFE_DAYS } from "@/services/shelfLifeService";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+
+const SOURCE_LABELS: Record<PutAwayDraft["source"], string> = {
+  override: "your setting",
+  history: "your usual",
+  name: "typical",
+  category: "typical for category",
+  default: "rough guess",
+};
+
+function nextLocation(location: PutAwayDraft["location"]): PutAwayDraft["location"] {
+  return FOOD_LOCATIONS[(FOOD_LOCATIONS.indexOf(location) + 1) % FOOD_LOCATIONS.length]!;
+}
+
+function expiryLabel(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  const date = d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  return `${date} · ${days}d`;
+}
+
+export interface PutAwayGroceriesModalProps {
+  visible: boolean;
+  drafts: PutAwayDraft[];
+  busy?: boolean;
+  onConfirm: (drafts: PutAwayDraft[]) => void;
+  onCancel: () => void;
+}
+
+export function PutAwayGroceriesModal({
+  visible,
+  drafts,
+  busy = false,
+  onConfirm,
+  onCancel,
+}: PutAwayGroceriesModalProps) {
+  const [rows, setRows] = useState<PutAwayDraft[]>([]);
+
+  useEffect(() => {
+    if (visible) setRows(drafts);
+  }, [visible, drafts]);
+
+  if (!visible) return null;
+
+  const update = (groceryId: string, patch: Partial<PutAwayDraft>) =>
+    setRows((prev) => prev.map((r) => (r.groceryId === groceryId ? { ...r, ...patch } : r)));
+  const clampDays = (days: number) => Math.max(1, Math.min(MAX_SHELF_LIFE_DAYS, days));
+  const shiftAll = (delta: number) =>
+    setRows((prev) =>
+      prev.map((r) => (r.include ? { ...r, shelfLifeDays: clampDays(r.shelfLifeDays + delta) } : r))
+    );
+  const locateAll = (location: PutAwayDraft["location"]) =>
+    setRows((prev) => prev.map((r) => (r.include ? relocateDraft(r, location) : r)));
+
+  const includedCount = rows.filter((r) => r.include).length;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onCancel}>
+      <Pressable style={styles.overlay} onPress={busy ? undefined : onCancel}>
+        <View style={styles.centered}>
+          <Pressable style={styles.card} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.question}>Put away groceries</Text>
+            <Text style={styles.subtitle}>Check the dates, then add them to your inventory.</Text>
+
+            <View style={styles.bulkRow}>
+              <TouchableOpacity style={styles.bulkBtn} onPress={() => shiftAll(-1)} disabled={busy}>
+                <Text style={styles.bulkBtnText}>All −1d</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.bulkBtn} onPress={() => shiftAll(1)} disabled={busy}>
+                <Text style={styles.bulkBtnText}>All +1d</Text>
+              </TouchableOpacity>
+              {FOOD_LOCATIONS.map((loc) => (
+                <TouchableOpacity
+                  key={loc}
+                  style={styles.bulkBtn}
+                  onPress={() => locateAll(loc)}
+                  disabled={busy}
+                >
+                  <Text style={styles.bulkBtnText}>
+                    All {FOOD_LOCATION_LABELS[loc].toLowerCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <ScrollView style={styles.list} bounces={false}>
+              {rows.map((row) => (
+                <View
+                  key={row.groceryId}
+                  style={[styles.row, !row.include && styles.rowExcluded]}
+                >
+                  <View style={styles.rowTop}>
+                    <TouchableOpacity
+                      style={[styles.checkbox, row.include && styles.checkboxOn]}
+                      onPress={() => update(row.groceryId, { include: !row.include })}
+                      disabled={busy}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: row.include }}
+                      accessibilityLabel={`Put away ${row.name}`}
+                    >
+                      {row.include ? <Ionicons name="checkmark" size={14} color="#FFFFFF" /> : null}
+                    </TouchableOpacity>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {row.name}
+                    </Text>
+                    <Text style={styles.itemQty}>
+                      {formatQuantityWithUnit(row.quantity, row.unit, { fallbackUnit: "pcs" })}
+                    </Text>
+                  </View>
+
+                  {row.include ? (
+                    <View style={styles.rowBottom}>
+                      <TouchableOpacity
+                        style={styles.locationChip}
+                        onPress={() =>
+                          setRows((prev) =>
+                            prev.map((r) =>
+                              r.groceryId === row.groceryId
+                                ? relocateDraft(r, nextLocation(r.location))
+                                : r
+                            )
+                          )
+                        }
+                        disabled={busy}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Store ${row.name} in the ${FOOD_LOCATION_LABELS[
+                          nextLocation(row.location)
+                        ].toLowerCase()} instead`}
+                      >
+                        <Text style={styles.locationChipText}>
+                          {FOOD_LOCATION_LABELS[row.location]}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.stepBtn}
+                        onPress={() =>
+                          update(row.groceryId, { shelfLifeDays: clampDays(row.shelfLifeDays - 1) })
+                        }
+                        disabled={busy || row.shelfLifeDays <= 1}
+                        accessibilityLabel={`Expire ${row.name} a day earlier`}
+                      >
+                        <Text style={styles.stepBtnText}>−</Text>
+                      </TouchableOpacity>
+                      <View style={styles.expiryWrap}>
+                        <Text style={styles.expiryText}>{expiryLabel(row.shelfLifeDays)}</Text>
+                        <Text style={styles.sourceText}>{SOURCE_LABELS[row.source]}</Text>
+                      </View>
+                      <TouchableOpacity
+                        style={styles.stepBtn}
+                        onPress={() =>
+                          update(row.groceryId, { shelfLifeDays: clampDays(row.shelfLifeDays + 1) })
+                        }
+                        disabled={busy || row.shelfLifeDays >= MAX_SHELF_LIFE_DAYS}
+                        accessibilityLabel={`Expire ${row.name} a day later`}
+                      >
+                        <Text style={styles.stepBtnText}>+</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : null}
+                </View>
+              ))}
+            </ScrollView>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.cancelBtn}
+                onPress={onCancel}
+                disabled={busy}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.cancelBtnText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmBtn, includedCount === 0 && styles.disabled]}
+                onPress={() => onConfirm(rows)}
+                disabled={busy || includedCount === 0}
+                activeOpacity={0.8}
+              >
+                {busy ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.confirmBtnText}>Add {includedCount}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(15, 23, 42, 0.4)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  centered: {
+    width: "100%",
+    maxWidth: 360,
+  },
+  card: {
+    width: "100%",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  question: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#1E293B",
+    textAlign: "center",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#64748B",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  bulkRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 8,
+  },
+  bulkBtn: {
+    paddingVertical: 5,
+    paddingHorizontal: 9,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "#D1D5DB",
+  },
+  bulkBtnText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#475569",
+  },
+  list: {
+    maxHeight: 360,
+    marginBottom: 14,
+  },
+  row: {
+    paddingVertical: 9,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+    gap: 8,
+  },
+  rowExcluded: {
+    opacity: 0.55,
+  },
+  rowTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkboxOn: {
+    backgroundColor: "#22C55E",
+    borderColor: "#22C55E",
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1E293B",
+  },
+  itemQty: {
+    fontSize: 12,
+    color: "#64748B",
+  },
+  rowBottom: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingLeft: 30,
+  },
+  locationChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 999,
+    backgroundColor: "#DCFCE7",
+  },
+  locationChipText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#15803D",
+  },
+  stepBtn: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 1.5,
+    borderColor: "#CBD5E1",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepBtnText: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#475569",
+    lineHeight: 15,
+    includeFontPadding: false,
+  },
+  expiryWrap: {
+    flex: 1,
+    alignItems: "center",
+  },
+  expiryText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#334155",
+  },
+  sourceText: {
+    fontSize: 11,
+    color: "#94A3B8",
+  },
+  disabled: {
+    opacity: 0.45,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+  },
+  cancelBtn: {
+    ...modalRowSecondaryContainer,
+  },
+  cancelBtnText: {
+    ...modalRowSecondaryLabel,
+  },
+  confirmBtn: {
+    ...modalRowPrimaryContainer,
+    backgroundColor: "#22C55E",
+  },
+  confirmBtnText: {
+    ...modalRowPrimaryLabel,
+  },
+});
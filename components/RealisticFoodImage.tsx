@@ -1,10 +1,11 @@
 import FoodIcon from "@/components/FoodIcon";
+import type { FoodLocation } from "@/lib/supabase";
 import React from "react";
 import { ImageStyle, ViewStyle } from "react-native";
 
 type RealisticFoodImageProps = {
   foodName: string;
-  location?: "fridge" | "shelf";
+  location?: FoodLocation;
   size?: number;
   style?: ViewStyle;
   imageStyle?: ImageStyle;
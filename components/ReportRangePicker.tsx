@@ -0,0 +1,223 @@
+/**
+ * Date range chips for the report screens: all time, last 7/30/90 days, a calendar
+ * month (stepped with arrows) or a custom from–to range.
+ */
+
+import {
+  REPORT_RANGE_PRESETS,
+  ReportRange,
+  reportRange,
+  ReportRangePreset,
+  shortDayLabel,
+} from "@/utils/reportRange";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { CaretLeft, CaretRight } from "phosphor-react-native";
+import React, { useState } from "react";
+import { Platform, Pressable, StyleSheet, Text, View } from "react-native";
+
+export interface ReportRangePickerProps {
+  range: ReportRange;
+  onChange: (range: ReportRange) => void;
+  accent: string;
+}
+
+function lastDayOf(range: ReportRange): Date {
+  const d = new Date(range.end);
+  d.setDate(d.getDate() - 1);
+  return d;
+}
+
+export function ReportRangePicker({ range, onChange, accent }: ReportRangePickerProps) {
+  const [editing, setEditing] = useState<"from" | "to" | null>(null);
+  const today = new Date();
+  const from = range.start ?? today;
+  const to = lastDayOf(range);
+
+  const selectPreset = (preset: ReportRangePreset) => {
+    setEditing(null);
+    if (preset === range.preset) return;
+    if (preset === "custom") {
+      // Start from what's on screen, or the last 30 days when coming from all time.
+      const fallback = reportRange("30d");
+      onChange(
+        reportRange("custom", {
+          from: range.start ?? fallback.start!,
+          to: lastDayOf(range),
+        })
+      );
+      return;
+    }
+    onChange(reportRange(preset));
+  };
+
+  const stepMonth = (delta: number) => {
+    const start = range.start ?? today;
+    onChange(
+      reportRange("month", { month: new Date(start.getFullYear(), start.getMonth() + delta, 1) })
+    );
+  };
+  const isCurrentMonth =
+    range.start != null &&
+    range.start.getFullYear() === today.getFullYear() &&
+    range.start.getMonth() === today.getMonth();
+
+  const setCustom = (which: "from" | "to", date: Date) => {
+    onChange(
+      reportRange("custom", which === "from" ? { from: date, to } : { from, to: date })
+    );
+  };
+
+  const onPickerChange = (which: "from" | "to") => (_event: unknown, date?: Date) => {
+    if (Platform.OS === "android") setEditing(null);
+    if (date) setCustom(which, date);
+  };
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.chips}>
+        {REPORT_RANGE_PRESETS.map(({ preset, label }) => {
+          const active = preset === range.preset;
+          return (
+            <Pressable
+              key={preset}
+              onPress={() => selectPreset(preset)}
+              style={[
+                styles.chip,
+                { borderColor: accent },
+                active && { backgroundColor: accent },
+              ]}
+              accessibilityRole="button"
+              accessibilityState={{ selected: active }}
+            >
+              <Text style={[styles.chipText, { color: active ? "#FFFFFF" : accent }]}>
+                {label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {range.preset === "month" ? (
+        <View style={styles.subRow}>
+          <Pressable
+            onPress={() => stepMonth(-1)}
+            style={styles.stepBtn}
+            accessibilityRole="button"
+            accessibilityLabel="Previous month"
+          >
+            <CaretLeft size={16} color={accent} weight="bold" />
+          </Pressable>
+          <Text style={[styles.subLabel, { color: accent }]}>{range.label}</Text>
+          <Pressable
+            onPress={() => stepMonth(1)}
+            disabled={isCurrentMonth}
+            style={[styles.stepBtn, isCurrentMonth && styles.disabled]}
+            accessibilityRole="button"
+            accessibilityLabel="Next month"
+          >
+            <CaretRight size={16} color={accent} weight="bold" />
+          </Pressable>
+        </View>
+      ) : null}
+
+      {range.preset === "custom" ? (
+        Platform.OS === "ios" ? (
+          <View style={styles.subRow}>
+            <Text style={[styles.subLabel, { color: accent }]}>From</Text>
+            <DateTimePicker
+              value={from}
+              mode="date"
+              display="compact"
+              maximumDate={today}
+              onChange={onPickerChange("from")}
+            />
+            <Text style={[styles.subLabel, { color: accent }]}>to</Text>
+            <DateTimePicker
+              value={to}
+              mode="date"
+              display="compact"
+              maximumDate={today}
+              onChange={onPickerChange("to")}
+            />
+          </View>
+        ) : (
+          <View style={styles.subRow}>
+            {(["from", "to"] as const).map((which) => (
+              <Pressable
+                key={which}
+                onPress={() => setEditing(which)}
+                style={[styles.dateBtn, { borderColor: accent }]}
+                accessibilityRole="button"
+                accessibilityLabel={which === "from" ? "Start date" : "End date"}
+              >
+                <Text style={[styles.dateBtnText, { color: accent }]}>
+                  {which === "from" ? "From " : "To "}
+                  {shortDayLabel(which === "from" ? from : to)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        )
+      ) : null}
+
+      {editing && Platform.OS === "android" ? (
+        <DateTimePicker
+          value={editing === "from" ? from : to}
+          mode="date"
+          display="default"
+          maximumDate={today}
+          onChange={onPickerChange(editing)}
+        />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    marginHorizontal: 16,
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  subRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 6,
+  },
+  subLabel: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  stepBtn: {
+    padding: 6,
+  },
+  disabled: {
+    opacity: 0.35,
+  },
+  dateBtn: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  dateBtnText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,182 @@
+/**
+ * Restock suggestions at the top of Groceries: products below their minimum
+ * stock or running low at the usual rate, each with a one-tap Add.
+ */
+
+import { ShoppingSuggestion } from "@/utils/shoppingSuggestions";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+export interface ShoppingSuggestionsCardProps {
+  suggestions: ShoppingSuggestion[];
+  onAdd: (suggestion: ShoppingSuggestion) => void;
+  onAddAll: () => void;
+  onManageMinimums: () => void;
+}
+
+export function ShoppingSuggestionsCard({
+  suggestions,
+  onAdd,
+  onAddAll,
+  onManageMinimums,
+}: ShoppingSuggestionsCardProps) {
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Ionicons name="sparkles-outline" size={16} color="#197C47" />
+        <Text style={styles.title}>Suggested</Text>
+        {suggestions.length > 1 ? (
+          <TouchableOpacity
+            onPress={onAddAll}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel="Add all suggestions"
+          >
+            <Text style={styles.headerAction}>Add all</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {suggestions.length === 0 ? (
+        <Text style={styles.empty}>
+          Nothing to restock yet. Suggestions come from what you use and the minimum stock
+          you set.
+        </Text>
+      ) : (
+        suggestions.map((s, index) => (
+          <View
+            key={s.key}
+            style={[styles.row, index < suggestions.length - 1 && styles.rowDivider]}
+          >
+            <View style={styles.rowText}>
+              <Text style={styles.name} numberOfLines={1}>
+                {s.name}
+                <Text style={styles.qty}>
+                  {"  "}
+                  {formatQuantityWithUnit(s.quantity, s.unit ?? undefined)}
+                </Text>
+              </Text>
+              <Text style={styles.reason} numberOfLines={2}>
+                {s.reason}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.addBtn, s.priority === "high" && styles.addBtnUrgent]}
+              onPress={() => onAdd(s)}
+              activeOpacity={0.85}
+              accessibilityRole="button"
+              accessibilityLabel={`Add ${s.name} to the list`}
+            >
+              <Ionicons
+                name="add"
+                size={16}
+                color={s.priority === "high" ? "#FFFFFF" : "#15803D"}
+              />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <TouchableOpacity
+        style={styles.footer}
+        onPress={onManageMinimums}
+        accessibilityRole="button"
+        accessibilityLabel="Edit minimum stock"
+      >
+        <Text style={styles.footerText}>Minimum stock</Text>
+        <Ionicons name="chevron-forward" size={14} color="#6B7280" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    paddingHorizontal: 14,
+    paddingTop: 12,
+    marginBottom: 14,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1F2937",
+  },
+  headerAction: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#197C47",
+  },
+  empty: {
+    fontSize: 13,
+    color: "#6B7280",
+    lineHeight: 18,
+    paddingBottom: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 9,
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: "#F1F5F9",
+  },
+  rowText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1F2937",
+  },
+  qty: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#6B7280",
+  },
+  reason: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  addBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1.5,
+    borderColor: "#22C55E",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addBtnUrgent: {
+    backgroundColor: "#22C55E",
+  },
+  footer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    gap: 2,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F5F9",
+  },
+  footerText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6B7280",
+  },
+});
@@ -9,6 +9,7 @@ import {
   modalRowSecondaryContainer,
   modalRowSecondaryLabel,
 } from "@/theme/modalActionStyles";
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "@/lib/foodLocations";
 import { FoodItem } from "@/lib/supabase";
 import React, { useEffect, useState } from "react";
 import {
@@ -43,16 +44,18 @@ export function ThrowAwayModal({
   const maxQty = Math.min(stockQty, MAX_INVENTORY_QUANTITY);
   const isMultiQty = maxQty > 1;
   const halfQty = Math.floor(maxQty / 2);
-  const [quantity, setQuantity] = useState(1);
+  // Part of a unit left (0.5 kg) can only be thrown away whole.
+  const minQty = Math.min(1, maxQty);
+  const [quantity, setQuantity] = useState(minQty);
 
   useEffect(() => {
     if (visible && item) {
-      setQuantity(1);
+      setQuantity(minQty);
     }
-  }, [visible, item]);
+  }, [visible, item, minQty]);
 
   const handleDecrement = () => {
-    setQuantity((prev) => Math.max(1, prev - 1));
+    setQuantity((prev) => Math.max(minQty, prev - 1));
   };
 
   const handleIncrement = () => {
@@ -60,7 +63,7 @@ export function ThrowAwayModal({
   };
 
   const onQuantityTextChange = (t: string) => {
-    setQuantity(parseDigitsToClampedQuantity(t, 1, maxQty));
+    setQuantity(parseDigitsToClampedQuantity(t, minQty, maxQty));
   };
 
   const handleConfirm = () => {
@@ -69,7 +72,7 @@ export function ThrowAwayModal({
 
   if (!visible || !item) return null;
 
-  const locationLabel = item.location === "fridge" ? "Fridge" : "Shelf";
+  const locationLabel = FOOD_LOCATION_LABELS[toFoodLocation(item.location)];
   const isThrowAllSelected =
     isMultiQty && quantity >= maxQty && maxQty === stockQty;
   const showMinAction = isMultiQty && quantity > halfQty;
@@ -77,7 +80,7 @@ export function ThrowAwayModal({
   const handleToggleMinMax = () => {
     setQuantity((prev) => {
       if (!isMultiQty) return prev;
-      return prev > halfQty ? 1 : maxQty;
+      return prev > halfQty ? minQty : maxQty;
     });
   };
 
@@ -103,12 +106,12 @@ export function ThrowAwayModal({
             <View style={styles.quantitySection}>
               <View style={styles.quantityRow}>
                 <TouchableOpacity
-                  style={[styles.qtyBtnOutlined, quantity <= 1 && styles.qtyBtnDisabled]}
+                  style={[styles.qtyBtnOutlined, quantity <= minQty && styles.qtyBtnDisabled]}
                   onPress={handleDecrement}
-                  disabled={quantity <= 1}
+                  disabled={quantity <= minQty}
                   activeOpacity={0.7}
                 >
-                  <Text style={[styles.qtyBtnText, quantity <= 1 && styles.qtyBtnTextDisabled]}>−</Text>
+                  <Text style={[styles.qtyBtnText, quantity <= minQty && styles.qtyBtnTextDisabled]}>−</Text>
                 </TouchableOpacity>
                 <TextInput
                   style={styles.qtyInput}
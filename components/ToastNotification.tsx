@@ -1,7 +1,7 @@
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import React, { useEffect, useRef } from "react";
-import { Animated, StyleSheet, Text, View } from "react-native";
+import { Animated, Pressable, StyleSheet, Text, View } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 // =============================================================================
@@ -14,6 +14,9 @@ export interface ToastProps {
   type: "success" | "error" | "warning" | "info";
   duration?: number;
   onHide: () => void;
+  /** Optional inline action, e.g. "Undo". */
+  actionLabel?: string;
+  onAction?: () => void;
 }
 
 // =============================================================================
@@ -26,6 +29,8 @@ export function ToastNotification({
   type = "success",
   duration = 3000,
   onHide,
+  actionLabel,
+  onAction,
 }: ToastProps) {
   const translateY = useRef(new Animated.Value(-100)).current;
   const opacity = useRef(new Animated.Value(0)).current;
@@ -156,6 +161,19 @@ export function ToastNotification({
         >
           {message}
         </Text>
+        {actionLabel && onAction ? (
+          <Pressable
+            onPress={() => {
+              onAction();
+              hideToast();
+            }}
+            hitSlop={8}
+            accessibilityRole="button"
+            style={styles.action}
+          >
+            <Text style={[styles.actionText, { color: config.textColor }]}>{actionLabel}</Text>
+          </Pressable>
+        ) : null}
       </View>
     </Animated.View>
   );
@@ -246,6 +264,16 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     lineHeight: 20,
   },
+  action: {
+    marginLeft: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: "700",
+    textDecorationLine: "underline",
+  },
 });
 
 export default ToastNotification;
@@ -0,0 +1,105 @@
+/**
+ * Bar per week for the report screens, oldest on the left.
+ */
+
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+export interface WeeklyTrendChartProps {
+  /** `date` is the Monday the week starts on (`YYYY-MM-DD`). */
+  weeks: { date: string; count: number }[];
+  color: string;
+  /** Shown under the bars when every week is empty. */
+  emptyText?: string;
+}
+
+const BAR_AREA_HEIGHT = 72;
+
+function weekLabel(ymd: string): string {
+  const [, m, d] = ymd.split("-");
+  return `${Number(d)}/${Number(m)}`;
+}
+
+export function WeeklyTrendChart({ weeks, color, emptyText }: WeeklyTrendChartProps) {
+  const max = Math.max(0, ...weeks.map((w) => w.count));
+  // Label about four weeks so long ranges stay readable.
+  const labelEvery = Math.max(1, Math.ceil(weeks.length / 4));
+
+  return (
+    <View>
+      <View style={styles.bars}>
+        {weeks.map((w) => (
+          <View
+            key={w.date}
+            style={styles.barSlot}
+            accessible
+            accessibilityLabel={`Week of ${w.date}: ${w.count}`}
+          >
+            {w.count > 0 ? <Text style={[styles.count, { color }]}>{w.count}</Text> : null}
+            <View
+              style={[
+                styles.bar,
+                {
+                  backgroundColor: color,
+                  height: max > 0 ? Math.max(2, (w.count / max) * BAR_AREA_HEIGHT) : 2,
+                  opacity: w.count > 0 ? 1 : 0.2,
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {weeks.map((w, i) => (
+          <Text key={w.date} style={styles.label} numberOfLines={1}>
+            {i % labelEvery === 0 ? weekLabel(w.date) : ""}
+          </Text>
+        ))}
+      </View>
+      {max === 0 && emptyText ? <Text style={styles.empty}>{emptyText}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bars: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    height: BAR_AREA_HEIGHT + 14,
+    gap: 3,
+    paddingTop: 6,
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "flex-end",
+  },
+  bar: {
+    width: "100%",
+    maxWidth: 18,
+    borderRadius: 2,
+  },
+  count: {
+    fontSize: 9,
+    fontWeight: "700",
+    marginBottom: 2,
+  },
+  labels: {
+    flexDirection: "row",
+    gap: 3,
+    marginTop: 3,
+    marginBottom: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 8,
+    color: "#6B7280",
+    textAlign: "center",
+  },
+  empty: {
+    fontSize: 12,
+    color: "#6B7280",
+    textAlign: "center",
+    marginBottom: 6,
+  },
+});
@@ -26,6 +26,7 @@ import {
   VirtualizedItemData,
   VirtualWindow,
 } from "../../types/calendar-enhanced";
+import { effectiveExpiryDate } from "../../utils/openedExpiry";
 import EmptyStateView from "../EmptyStateView";
 import ItemEntryCard from "../ItemEntryCard";
 
@@ -124,7 +125,8 @@ const VirtualizedItem: React.FC<VirtualizedItemProps> = memo(
       <View style={[styles.virtualizedItemContainer, style]}>
         <ItemEntryCard
           quantity={item.quantity}
-          expiryDate={item.expiry_date}
+          expiryDate={effectiveExpiryDate(item)}
+          openedAt={item.opened_at}
           onDecrement={() => {}}
           onIncrement={() => {}}
           onUseAll={() => {}}
@@ -4,6 +4,8 @@ import {
   setRememberMePreference,
 } from "@/lib/authPreferences";
 import { supabase, UserProfile } from "@/lib/supabase";
+import { offlineSyncService } from "@/services/offlineSyncService";
+import { urgencySettingsService } from "@/services/urgencySettingsService";
 import { isNetworkRequestFailed } from "@/utils/networkError";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Session, User } from "@supabase/supabase-js";
@@ -228,6 +230,51 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // First sign-in after the cloud shopping list shipped: upload the device-only list once.
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+    void import("@/services/shoppingListService")
+      .then(({ shoppingListService }) => shoppingListService.migrateLocalList(userId))
+      .catch((error) => {
+        if (__DEV__ && !isNetworkRequestFailed(error)) {
+          console.warn("Shopping list migration failed", error);
+        }
+      });
+  }, [user?.id]);
+
+  // Urgency thresholds colour every list, so apply the user's before screens render items.
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) {
+      if (!loading) void urgencySettingsService.clear();
+      return;
+    }
+    void urgencySettingsService.load(userId).catch((error) => {
+      if (__DEV__ && !isNetworkRequestFailed(error)) {
+        console.warn("Urgency settings failed to load", error);
+      }
+    });
+  }, [user?.id, loading]);
+
+  // Register for server-side expiry reminders, which reach the device even if the app
+  // isn't opened again.
+  useEffect(() => {
+    if (!user?.id) return;
+    void import("@/services/pushTokenService")
+      .then(({ pushTokenService }) => pushTokenService.register())
+      .catch((error) => {
+        if (__DEV__) console.warn("Push token registration failed", error);
+      });
+  }, [user?.id]);
+
+  // Push inventory changes queued while offline, now and whenever the network returns.
+  useEffect(() => {
+    if (!user?.id) return;
+    offlineSyncService.start();
+    return () => offlineSyncService.stop();
+  }, [user?.id]);
+
   const signIn = async (
     email: string,
     password: string,
@@ -289,6 +336,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     try {
+      // While the session is still valid: stop server-side reminders to this device.
+      await import("@/services/pushTokenService")
+        .then(({ pushTokenService }) => pushTokenService.unregister())
+        .catch((error) => {
+          if (__DEV__) console.warn("Push token removal failed", error);
+        });
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
       await clearRememberMePreference();
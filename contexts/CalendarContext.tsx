@@ -13,8 +13,12 @@ import React, {
   useReducer,
 } from "react";
 import { clearMonthDataCache } from "../utils/calendarCache";
+import { useAuth } from "./AuthContext";
+import { useUrgencySettings } from "../hooks/useUrgencySettings";
+import { subscribeToInventoryChanges } from "../services/inventoryRealtimeService";
 import { FoodItem } from "../lib/supabase";
 import { CalendarMonth } from "../types/calendar";
+import { calculateUrgency } from "../utils/urgencyUtils";
 import {
   CalendarError,
   FilterOptionsEnhanced,
@@ -103,6 +107,7 @@ export function CalendarProvider({
   },
 }: CalendarProviderProps) {
   const [state, dispatch] = useReducer(calendarReducer, initialCalendarState);
+  const { user } = useAuth();
 
   // =============================================================================
   // CORE ACTION CREATORS
@@ -268,6 +273,39 @@ export function CalendarProvider({
     }
   }, [foodItemsService, setItems, setError, setLoading, invalidateCache]);
 
+  // =============================================================================
+  // REALTIME
+  // =============================================================================
+
+  // Changes from other devices / household members patch the calendar in place.
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+    return subscribeToInventoryChanges(userId, (change) => {
+      if (change.kind === "food_item") {
+        clearMonthDataCache();
+        dispatch({
+          type: "APPLY_REMOTE_ITEM_CHANGE",
+          payload: { itemId: change.itemId, item: change.item },
+        });
+      } else if (change.kind === "resync" && foodItemsService?.getItems) {
+        clearMonthDataCache();
+        foodItemsService
+          .getItems()
+          .then((items: FoodItem[]) => setItems(Array.isArray(items) ? items : []))
+          .catch((error: unknown) =>
+            console.warn("Calendar resync after reconnect failed", error)
+          );
+      }
+    });
+  }, [user?.id, foodItemsService, setItems]);
+
+  // Statistics count items by urgency level, which follows the user's thresholds.
+  const urgencySettings = useUrgencySettings();
+  useEffect(() => {
+    dispatch({ type: "RECALCULATE_STATISTICS" });
+  }, [urgencySettings]);
+
   // =============================================================================
   // COMPUTED VALUES
   // =============================================================================
@@ -278,13 +316,10 @@ export function CalendarProvider({
   }, [state.selectedDate, state.data.itemsByDate]);
 
   const expiringSoonItems = useMemo(() => {
-    const today = new Date();
-    const fiveDaysFromNow = new Date(today.getTime() + 5 * 24 * 60 * 60 * 1000);
-    const fiveDaysFromNowStr = fiveDaysFromNow.toISOString().split("T")[0];
-
+    // Local calendar days from the effective date, past ones included.
     return state.items.filter((item) => {
       if (!item.expiry_date) return false;
-      return item.expiry_date <= fiveDaysFromNowStr;
+      return calculateUrgency(item).daysUntilExpiry <= 5;
     });
   }, [state.items]);
 
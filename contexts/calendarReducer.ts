@@ -5,6 +5,8 @@
  */
 
 import { FoodItem } from "../lib/supabase";
+import { addDaysYmd } from "../utils/localDate";
+import { calculateUrgency } from "../utils/urgencyUtils";
 import { MarkedDatesType } from "../types/calendar";
 import {
   CalendarStateEnhanced,
@@ -53,6 +55,8 @@ export interface CalendarActionType {
     | "MARK_ITEM_USED_SUCCESS"
     | "MARK_ITEM_USED_ERROR"
     | "EXTEND_EXPIRY_OPTIMISTIC"
+    | "APPLY_REMOTE_ITEM_CHANGE"
+    | "RECALCULATE_STATISTICS"
     | "UPDATE_PERFORMANCE_METRICS"
     | "INVALIDATE_CACHE";
   payload?: any;
@@ -129,11 +133,6 @@ export const initialCalendarState: ExtendedCalendarState = {
  * Calculate expiry statistics from items
  */
 function calculateStatistics(items: FoodItem[]): ExpiryStatistics {
-  const now = new Date();
-  const today = now.toISOString().split("T")[0];
-  const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
-    .toISOString()
-    .split("T")[0];
 
   const stats: ExpiryStatistics = {
     total: items.length,
@@ -151,30 +150,17 @@ function calculateStatistics(items: FoodItem[]): ExpiryStatistics {
   items.forEach((item) => {
     if (!item.expiry_date) return;
 
-    // Count expired items
-    if (item.expiry_date < today) {
+    // Local calendar days; best-before items are never counted as expired.
+    const urgency = calculateUrgency(item);
+    if (urgency.isExpired) {
       stats.expired++;
-    } else if (item.expiry_date === today) {
+    } else if (urgency.daysUntilExpiry === 0) {
       stats.expiresToday++;
-    } else if (item.expiry_date <= weekFromNow) {
+    } else if (urgency.daysUntilExpiry > 0 && urgency.daysUntilExpiry <= 7) {
       stats.expiresThisWeek++;
     }
 
-    // Count by urgency (simplified urgency calculation)
-    const daysUntilExpiry = Math.ceil(
-      (new Date(item.expiry_date).getTime() - now.getTime()) /
-        (1000 * 60 * 60 * 24)
-    );
-
-    if (daysUntilExpiry < 0) {
-      stats.byUrgency.critical++;
-    } else if (daysUntilExpiry === 0) {
-      stats.byUrgency.warning++;
-    } else if (daysUntilExpiry <= 3) {
-      stats.byUrgency.soon++;
-    } else {
-      stats.byUrgency.safe++;
-    }
+    stats.byUrgency[urgency.level]++;
   });
 
   return stats;
@@ -482,13 +468,9 @@ export function calendarReducer(
       Object.keys(extendedItemsByDate).forEach((date) => {
         extendedItemsByDate[date] = extendedItemsByDate[date].map((item) => {
           if (item.id === itemId) {
-            const currentExpiry = new Date(item.expiry_date || date);
-            const newExpiry = new Date(
-              currentExpiry.getTime() + days * 24 * 60 * 60 * 1000
-            );
             return {
               ...item,
-              expiry_date: newExpiry.toISOString().split("T")[0],
+              expiry_date: addDaysYmd(item.expiry_date || date, days),
             };
           }
           return item;
@@ -503,6 +485,40 @@ export function calendarReducer(
         },
       };
 
+    case "APPLY_REMOTE_ITEM_CHANGE": {
+      // Realtime patch from another device: upsert by id, drop deleted / used-up rows.
+      const { itemId: changedId, item: changedItem } = action.payload as {
+        itemId: string;
+        item: FoodItem | null;
+      };
+      const remaining = state.items.filter((item) => item.id !== changedId);
+      const patched = changedItem ? [...remaining, changedItem] : remaining;
+      if (!changedItem && remaining.length === state.items.length) {
+        return state;
+      }
+      const patchedItems = sortItems(applyFilters(patched, state.filters), state.sort);
+
+      return {
+        ...state,
+        items: patchedItems,
+        data: {
+          ...state.data,
+          itemsByDate: groupItemsByDate(patchedItems),
+          statistics: calculateStatistics(patchedItems),
+        },
+      };
+    }
+
+    case "RECALCULATE_STATISTICS":
+      // The urgency thresholds changed; the items didn't.
+      return {
+        ...state,
+        data: {
+          ...state.data,
+          statistics: calculateStatistics(state.items),
+        },
+      };
+
     case "UPDATE_PERFORMANCE_METRICS":
       return {
         ...state,
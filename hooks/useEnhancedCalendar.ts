@@ -7,7 +7,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useCalendar } from "../contexts/CalendarContext";
 import { useColorScheme } from "../hooks/useColorScheme";
-import { FoodItem } from "../lib/supabase";
+import { FoodItem, FoodLocation } from "../lib/supabase";
 import { CalendarMonth } from "../types/calendar";
 import {
   FilterOptionsEnhanced,
@@ -21,6 +21,7 @@ import {
 } from "../utils/calendarCache";
 import { createEnhancedMarkedDates } from "../utils/calendarEnhancedDataUtils";
 import { getMonthRange } from "../utils/calendarUtils";
+import { calculateUrgency } from "../utils/urgencyUtils";
 
 // Re-export for backward compatibility
 export { clearMonthDataCache };
@@ -262,14 +263,6 @@ export function useEnhancedCalendar(
         };
       }
 
-      const today = new Date().toISOString().split("T")[0];
-      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
-      const threeDaysFromNow = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
-
       const types: ("expired" | "today" | "soon" | "safe")[] = [];
       let hasExpired = false;
       let hasExpiring = false;
@@ -278,15 +271,17 @@ export function useEnhancedCalendar(
       dateItems.forEach((item) => {
         if (!item.expiry_date) return;
 
-        if (item.expiry_date < today) {
+        // Local calendar days; past best before is due, not expired.
+        const { isExpired, daysUntilExpiry } = calculateUrgency(item);
+        if (isExpired) {
           types.push("expired");
           hasExpired = true;
           urgencyLevel = "critical";
-        } else if (item.expiry_date === today) {
+        } else if (daysUntilExpiry <= 0) {
           types.push("today");
           hasExpiring = true;
           if (urgencyLevel !== "critical") urgencyLevel = "high";
-        } else if (item.expiry_date <= threeDaysFromNow) {
+        } else if (daysUntilExpiry <= 3) {
           types.push("soon");
           hasExpiring = true;
           if (urgencyLevel === "low") urgencyLevel = "medium";
@@ -401,11 +396,6 @@ export function useEnhancedCalendar(
       };
     }
 
-    const today = new Date().toISOString().split("T")[0];
-    const oneWeekFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-      .toISOString()
-      .split("T")[0];
-
     let expired = 0,
       expiresToday = 0,
       expiresThisWeek = 0;
@@ -413,13 +403,14 @@ export function useEnhancedCalendar(
 
     allItems.forEach((item) => {
       if (item.expiry_date) {
-        if (item.expiry_date < today) {
+        const { isExpired, daysUntilExpiry } = calculateUrgency(item);
+        if (isExpired) {
           expired++;
           byUrgency.critical++;
-        } else if (item.expiry_date === today) {
+        } else if (daysUntilExpiry <= 0) {
           expiresToday++;
           byUrgency.warning++;
-        } else if (item.expiry_date <= oneWeekFromNow) {
+        } else if (daysUntilExpiry <= 7) {
           expiresThisWeek++;
           byUrgency.soon++;
         } else {
@@ -662,7 +653,7 @@ export interface UseCalendarFiltersReturn {
   setFilters: (filters: Partial<FilterOptionsEnhanced>) => void;
   clearFilters: () => void;
   toggleCategory: (category: string) => void;
-  toggleLocation: (location: "fridge" | "shelf") => void;
+  toggleLocation: (location: FoodLocation) => void;
   toggleUrgency: (urgency: "expired" | "today" | "soon" | "fresh") => void;
   setSearch: (search: string) => void;
   hasActiveFilters: boolean;
@@ -693,7 +684,7 @@ export function useCalendarFilters(): UseCalendarFiltersReturn {
   );
 
   const toggleLocation = useCallback(
-    (location: "fridge" | "shelf") => {
+    (location: FoodLocation) => {
       const currentLocations = filters.location || [];
       const newLocations = currentLocations.includes(location)
         ? currentLocations.filter((l) => l !== location)
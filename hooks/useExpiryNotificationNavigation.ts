@@ -1,4 +1,5 @@
 import { navigateToExpiryNotificationItem } from "@/services/notificationNavigation";
+import { smartNotificationService } from "@/services/smartNotificationService";
 import * as Notifications from "expo-notifications";
 import { useRouter } from "expo-router";
 import { useEffect } from "react";
@@ -9,27 +10,33 @@ let hasConsumedInitialNotificationResponse = false;
 /**
  * When the user taps a local expiry notification, open Calendar → Timeline on the
  * relevant item. Handles cold start via `getLastNotificationResponseAsync` (listener
- * does not run for the notification that launched the app).
+ * does not run for the notification that launched the app). Button presses (Used it,
+ * Snooze, …) are acted on in place instead of navigating.
  */
 export function useExpiryNotificationNavigation() {
   const router = useRouter();
 
   useEffect(() => {
-    const handleData = (data: unknown) => {
+    const handleResponse = (response: Notifications.NotificationResponse | null) => {
+      if (!response) return;
+      // Learns from every response; button presses are also acted on there.
+      void smartNotificationService.handleNotificationResponse(response);
+      if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+      const data = response.notification.request.content.data;
       if (!data || typeof data !== "object") return;
       navigateToExpiryNotificationItem(router, data as Record<string, unknown>);
     };
 
-    const sub = Notifications.addNotificationResponseReceivedListener((response) => {
-      handleData(response.notification.request.content.data);
-    });
+    const sub = Notifications.addNotificationResponseReceivedListener(handleResponse);
+
+    void smartNotificationService.recordIgnoredNotifications().catch(() => {});
 
     void (async () => {
       if (hasConsumedInitialNotificationResponse) return;
       hasConsumedInitialNotificationResponse = true;
       try {
         const last = await Notifications.getLastNotificationResponseAsync();
-        handleData(last?.notification.request.content.data);
+        handleResponse(last);
       } catch {
         // ignore
       }
@@ -0,0 +1,11 @@
+import { UrgencySettings } from "@/lib/supabase";
+import { getActiveUrgencySettings, subscribeToUrgencySettings } from "@/utils/urgencyUtils";
+import { useSyncExternalStore } from "react";
+
+/**
+ * The user's urgency thresholds. Re-renders when they load after sign-in or are
+ * saved, so urgency worked out on screen doesn't stay on the defaults.
+ */
+export function useUrgencySettings(): UrgencySettings {
+  return useSyncExternalStore(subscribeToUrgencySettings, getActiveUrgencySettings);
+}
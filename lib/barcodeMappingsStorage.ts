@@ -0,0 +1,50 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { FoodLocation } from "@/lib/supabase";
+
+/** Products the user entered for barcodes the bundled catalog doesn't know (device-local). */
+export const BARCODE_MAPPINGS_STORAGE_KEY = "fridgewise_barcode_mappings_v1";
+
+/** Cap so a long-lived install doesn't grow the blob without bound. */
+export const MAX_BARCODE_MAPPINGS = 500;
+
+export type StoredBarcodeMapping = {
+  name: string;
+  category?: string;
+  unit?: string;
+  shelfLifeDays?: number;
+  location?: FoodLocation;
+  /** ISO timestamp; oldest mappings are dropped first once the cap is hit. */
+  updatedAt: string;
+};
+
+export async function loadBarcodeMappings(): Promise<Record<string, StoredBarcodeMapping>> {
+  try {
+    const raw = await AsyncStorage.getItem(BARCODE_MAPPINGS_STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return parsed as Record<string, StoredBarcodeMapping>;
+  } catch (e) {
+    console.warn("barcodeMappingsStorage: failed to load mappings", e);
+    return {};
+  }
+}
+
+export async function saveBarcodeMapping(
+  barcode: string,
+  mapping: Omit<StoredBarcodeMapping, "updatedAt">
+): Promise<void> {
+  const all = await loadBarcodeMappings();
+  all[barcode] = { ...mapping, updatedAt: new Date().toISOString() };
+
+  const codes = Object.keys(all);
+  if (codes.length > MAX_BARCODE_MAPPINGS) {
+    codes
+      .sort((a, b) => all[a]!.updatedAt.localeCompare(all[b]!.updatedAt))
+      .slice(0, codes.length - MAX_BARCODE_MAPPINGS)
+      .forEach((code) => delete all[code]);
+  }
+
+  await AsyncStorage.setItem(BARCODE_MAPPINGS_STORAGE_KEY, JSON.stringify(all));
+}
@@ -0,0 +1,19 @@
+/**
+ * Storage locations an inventory item can live in, with their display labels.
+ */
+import type { FoodLocation } from "@/lib/supabase";
+
+/** Display order for location pickers and filters. */
+export const FOOD_LOCATIONS: readonly FoodLocation[] = ["fridge", "freezer", "shelf"];
+
+export const FOOD_LOCATION_LABELS: Record<FoodLocation, string> = {
+  fridge: "Fridge",
+  freezer: "Freezer",
+  shelf: "Shelf",
+};
+
+/** Location from a raw DB / route value; anything unknown is the fridge. */
+export function toFoodLocation(raw: string | null | undefined): FoodLocation {
+  const value = (raw || "").trim().toLowerCase();
+  return value === "shelf" || value === "freezer" ? value : "fridge";
+}
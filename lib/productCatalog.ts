@@ -0,0 +1,124 @@
+/**
+ * Bundled offline product catalog for barcode scanning on the Add Item screen.
+ * Keys are normalized GTINs (see `normalizeBarcode` in `services/barcodeLookupService.ts`);
+ * `category` is a lowercase slug resolved through `CATEGORY_DISPLAY` in `lib/foodCategories.ts`.
+ */
+
+export type CatalogProduct = {
+  name: string;
+  /** Lowercase category slug, e.g. `dairy`, `snacks`. */
+  category: string;
+  /** Default unit for the quantity picker. */
+  unit: string;
+  /** Typical shelf life from purchase, in calendar days. */
+  shelfLifeDays: number;
+  location: "fridge" | "shelf";
+};
+
+export const PRODUCT_CATALOG: Readonly<Record<string, CatalogProduct>> = {
+  "3017620422003": {
+    name: "Nutella",
+    category: "condiments",
+    unit: "pcs",
+    shelfLifeDays: 270,
+    location: "shelf",
+  },
+  "5449000000996": {
+    name: "Coca-Cola",
+    category: "beverages",
+    unit: "pcs",
+    shelfLifeDays: 180,
+    location: "shelf",
+  },
+  "5000112637922": {
+    name: "Coca-Cola Zero",
+    category: "beverages",
+    unit: "pcs",
+    shelfLifeDays: 180,
+    location: "shelf",
+  },
+  "3274080005003": {
+    name: "Cristaline Water",
+    category: "beverages",
+    unit: "L",
+    shelfLifeDays: 365,
+    location: "shelf",
+  },
+  "5411188110835": {
+    name: "Alpro Soya Drink",
+    category: "dairy",
+    unit: "L",
+    shelfLifeDays: 120,
+    location: "shelf",
+  },
+  "0737628064502": {
+    name: "Thai Kitchen Rice Noodles",
+    category: "grains",
+    unit: "pcs",
+    shelfLifeDays: 365,
+    location: "shelf",
+  },
+  "8076800195057": {
+    name: "Barilla Spaghetti",
+    category: "grains",
+    unit: "g",
+    shelfLifeDays: 540,
+    location: "shelf",
+  },
+  "5010477348678": {
+    name: "Weetabix",
+    category: "grains",
+    unit: "pcs",
+    shelfLifeDays: 270,
+    location: "shelf",
+  },
+  "0016000275287": {
+    name: "Cheerios",
+    category: "grains",
+    unit: "pcs",
+    shelfLifeDays: 270,
+    location: "shelf",
+  },
+  "5000159461122": {
+    name: "Snickers",
+    category: "snacks",
+    unit: "pcs",
+    shelfLifeDays: 270,
+    location: "shelf",
+  },
+  "7622210449283": {
+    name: "Oreo Cookies",
+    category: "snacks",
+    unit: "pcs",
+    shelfLifeDays: 270,
+    location: "shelf",
+  },
+  "8000500310427": {
+    name: "Kinder Bueno",
+    category: "snacks",
+    unit: "pcs",
+    shelfLifeDays: 180,
+    location: "shelf",
+  },
+  "0038000138416": {
+    name: "Pringles Original",
+    category: "snacks",
+    unit: "pcs",
+    shelfLifeDays: 365,
+    location: "shelf",
+  },
+  "8712566441174": {
+    name: "Hellmann's Real Mayonnaise",
+    category: "condiments",
+    unit: "pcs",
+    shelfLifeDays: 180,
+    location: "shelf",
+  },
+  "3045320094084": {
+    name: "Bonne Maman Jam",
+    category: "condiments",
+    unit: "pcs",
+    shelfLifeDays: 365,
+    location: "shelf",
+  },
+};
@@ -0,0 +1,45 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { Recipe } from "@/lib/recipes";
+
+/** Recipes the user imported (JSON / Schema.org); device-local. */
+export const IMPORTED_RECIPES_STORAGE_KEY = "fridgewise_imported_recipes_v1";
+
+/** Cap so a long-lived install doesn't grow the blob without bound. */
+export const MAX_IMPORTED_RECIPES = 200;
+
+export async function loadImportedRecipes(): Promise<Recipe[]> {
+  try {
+    const raw = await AsyncStorage.getItem(IMPORTED_RECIPES_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (r): r is Recipe =>
+        r && typeof r.id === "string" && typeof r.name === "string" && Array.isArray(r.ingredients)
+    );
+  } catch (e) {
+    console.warn("recipeStorage: failed to load imported recipes", e);
+    return [];
+  }
+}
+
+/** Adds or replaces recipes by id; newest first, oldest dropped past the cap. */
+export async function saveImportedRecipes(recipes: Recipe[]): Promise<Recipe[]> {
+  const incoming = new Set(recipes.map((r) => r.id));
+  const existing = await loadImportedRecipes();
+  const next = [...recipes, ...existing.filter((r) => !incoming.has(r.id))].slice(
+    0,
+    MAX_IMPORTED_RECIPES
+  );
+  await AsyncStorage.setItem(IMPORTED_RECIPES_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+export async function removeImportedRecipe(id: string): Promise<void> {
+  const existing = await loadImportedRecipes();
+  await AsyncStorage.setItem(
+    IMPORTED_RECIPES_STORAGE_KEY,
+    JSON.stringify(existing.filter((r) => r.id !== id))
+  );
+}
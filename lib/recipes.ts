@@ -0,0 +1,266 @@
+/**
+ * Recipe model shared by the bundled recipes, imported recipes (JSON / Schema.org
+ * `Recipe`, see `utils/recipeImport.ts`) and the matching engine in
+ * `utils/recipeMatching.ts`.
+ */
+
+export type MealType = "breakfast" | "lunch" | "dinner" | "snack";
+
+export type RecipeIngredient = {
+  /** Food name used for matching, e.g. "cherry tomatoes". */
+  name: string;
+  quantity?: number;
+  unit?: string;
+  /** Optional ingredients improve the score but never block a recipe. */
+  optional?: boolean;
+  /** Ingredient line as written in the source, for display. */
+  text?: string;
+};
+
+export type Recipe = {
+  id: string;
+  name: string;
+  description?: string;
+  mealType: MealType;
+  /** Total time in minutes. */
+  prepMinutes: number;
+  servings?: number;
+  difficulty?: "easy" | "medium" | "hard";
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+  tags: string[];
+  source: "builtin" | "imported";
+  sourceUrl?: string;
+};
+
+function ingredient(
+  name: string,
+  quantity?: number,
+  unit?: string,
+  optional = false
+): RecipeIngredient {
+  return { name, quantity, unit, optional };
+}
+
+export const BUILT_IN_RECIPES: readonly Recipe[] = [
+  {
+    id: "scrambled-eggs",
+    name: "Scrambled Eggs",
+    mealType: "breakfast",
+    prepMinutes: 10,
+    servings: 1,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("eggs", 3, "pcs"),
+      ingredient("milk", 50, "ml", true),
+      ingredient("butter", 10, "g", true),
+      ingredient("cheese", 30, "g", true),
+      ingredient("herbs", undefined, undefined, true),
+    ],
+    instructions: [
+      "Crack eggs into a bowl",
+      "Add milk and whisk",
+      "Cook in a buttered pan over medium heat",
+      "Fold in cheese and herbs just before serving",
+    ],
+    tags: ["protein", "quick", "vegetarian"],
+    source: "builtin",
+  },
+  {
+    id: "fruit-yogurt-bowl",
+    name: "Fruit & Yogurt Bowl",
+    mealType: "breakfast",
+    prepMinutes: 5,
+    servings: 1,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("yogurt", 200, "g"),
+      ingredient("fruit", 1, "pcs", true),
+      ingredient("honey", undefined, undefined, true),
+      ingredient("nuts", 20, "g", true),
+      ingredient("granola", 30, "g", true),
+    ],
+    instructions: ["Spoon yogurt into a bowl", "Top with chopped fruit, nuts and honey"],
+    tags: ["healthy", "quick", "light"],
+    source: "builtin",
+  },
+  {
+    id: "toast-avocado",
+    name: "Avocado Toast",
+    mealType: "breakfast",
+    prepMinutes: 8,
+    servings: 1,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("bread", 2, "slices"),
+      ingredient("avocado", 1, "pcs"),
+      ingredient("lemon", undefined, undefined, true),
+      ingredient("tomato", 1, "pcs", true),
+      ingredient("herbs", undefined, undefined, true),
+    ],
+    instructions: [
+      "Toast the bread",
+      "Mash avocado with lemon juice and salt",
+      "Spread on toast and top with sliced tomato",
+    ],
+    tags: ["healthy", "vegetarian"],
+    source: "builtin",
+  },
+  {
+    id: "sandwich-classic",
+    name: "Classic Sandwich",
+    mealType: "lunch",
+    prepMinutes: 5,
+    servings: 1,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("bread", 2, "slices"),
+      ingredient("meat", 60, "g", true),
+      ingredient("cheese", 30, "g", true),
+      ingredient("lettuce", undefined, undefined, true),
+      ingredient("tomato", 1, "pcs", true),
+    ],
+    instructions: ["Layer fillings between the bread slices"],
+    tags: ["quick", "portable", "filling"],
+    source: "builtin",
+  },
+  {
+    id: "salad-mixed",
+    name: "Mixed Green Salad",
+    mealType: "lunch",
+    prepMinutes: 10,
+    servings: 2,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("lettuce", 1, "pcs"),
+      ingredient("tomato", 2, "pcs", true),
+      ingredient("cucumber", 1, "pcs", true),
+      ingredient("carrots", 1, "pcs", true),
+      ingredient("cheese", 50, "g", true),
+      ingredient("nuts", 20, "g", true),
+    ],
+    instructions: ["Wash and chop the vegetables", "Toss with dressing and top with cheese"],
+    tags: ["healthy", "light", "vegetarian"],
+    source: "builtin",
+  },
+  {
+    id: "pasta-simple",
+    name: "Simple Pasta",
+    mealType: "lunch",
+    prepMinutes: 15,
+    servings: 2,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("pasta", 200, "g"),
+      ingredient("tomato", 3, "pcs", true),
+      ingredient("cheese", 40, "g", true),
+      ingredient("herbs", undefined, undefined, true),
+      ingredient("vegetables", undefined, undefined, true),
+    ],
+    instructions: [
+      "Boil pasta in salted water",
+      "Cook chopped tomatoes and vegetables into a quick sauce",
+      "Toss with the pasta and finish with cheese",
+    ],
+    tags: ["filling", "vegetarian", "comfort"],
+    source: "builtin",
+  },
+  {
+    id: "stir-fry-vegetable",
+    name: "Vegetable Stir Fry",
+    mealType: "dinner",
+    prepMinutes: 20,
+    servings: 2,
+    difficulty: "medium",
+    ingredients: [
+      ingredient("vegetables", 400, "g"),
+      ingredient("rice", 150, "g", true),
+      ingredient("meat", 200, "g", true),
+      ingredient("tofu", 200, "g", true),
+      ingredient("ginger", undefined, undefined, true),
+    ],
+    instructions: [
+      "Cook the rice",
+      "Stir-fry protein in a hot pan, then add sliced vegetables",
+      "Season with soy sauce and ginger; serve over rice",
+    ],
+    tags: ["healthy", "versatile", "one-pan"],
+    source: "builtin",
+  },
+  {
+    id: "chicken-rice",
+    name: "Chicken & Rice",
+    mealType: "dinner",
+    prepMinutes: 30,
+    servings: 2,
+    difficulty: "medium",
+    ingredients: [
+      ingredient("chicken", 300, "g"),
+      ingredient("rice", 150, "g"),
+      ingredient("vegetables", 200, "g", true),
+      ingredient("broth", 500, "ml", true),
+      ingredient("herbs", undefined, undefined, true),
+    ],
+    instructions: [
+      "Brown the chicken pieces",
+      "Add rice and broth, cover and simmer for 18 minutes",
+      "Stir in vegetables for the last 5 minutes",
+    ],
+    tags: ["protein", "filling", "comfort"],
+    source: "builtin",
+  },
+  {
+    id: "soup-vegetable",
+    name: "Vegetable Soup",
+    mealType: "dinner",
+    prepMinutes: 25,
+    servings: 4,
+    difficulty: "medium",
+    ingredients: [
+      ingredient("vegetables", 600, "g"),
+      ingredient("broth", 1, "l", true),
+      ingredient("beans", 400, "g", true),
+      ingredient("pasta", 100, "g", true),
+      ingredient("herbs", undefined, undefined, true),
+    ],
+    instructions: [
+      "Sweat chopped vegetables in a pot",
+      "Add broth and beans and simmer until tender",
+      "Add pasta for the last 10 minutes",
+    ],
+    tags: ["healthy", "warming", "batch-cook"],
+    source: "builtin",
+  },
+  {
+    id: "fruit-snack",
+    name: "Fresh Fruit",
+    mealType: "snack",
+    prepMinutes: 2,
+    servings: 1,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("fruit", 1, "pcs"),
+      ingredient("nuts", 20, "g", true),
+      ingredient("yogurt", 100, "g", true),
+    ],
+    instructions: ["Wash, slice and enjoy"],
+    tags: ["healthy", "quick", "natural"],
+    source: "builtin",
+  },
+  {
+    id: "cheese-crackers",
+    name: "Cheese & Crackers",
+    mealType: "snack",
+    prepMinutes: 3,
+    servings: 1,
+    difficulty: "easy",
+    ingredients: [
+      ingredient("cheese", 50, "g"),
+      ingredient("crackers", 6, "pcs", true),
+      ingredient("fruit", 1, "pcs", true),
+    ],
+    instructions: ["Slice the cheese and serve with crackers and fruit"],
+    tags: ["protein", "satisfying", "quick"],
+    source: "builtin",
+  },
+];
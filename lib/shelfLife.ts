@@ -0,0 +1,259 @@
+/**
+ * Bundled shelf-life knowledge base used to suggest expiry dates (add, edit and
+ * grocery put-away). Name keys are `normalizeFoodNameForGrouping` outputs; category
+ * keys are lowercase category labels (see `CATEGORY_DISPLAY` in `lib/foodCategories.ts`).
+ * Days are calendar days from purchase, unopened, per place the food can be kept;
+ * `openedDays` is how long it lasts once opened in its usual place.
+ */
+
+import type { FoodLocation } from "@/lib/supabase";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+
+export type StorageLocation = FoodLocation;
+
+export type ShelfLifeEntry = {
+  /** Where it keeps best before opening. */
+  location: StorageLocation;
+  /** Unopened shelf life per storage place. */
+  days: Partial<Record<StorageLocation, number>>;
+  /** Shelf life after opening; omitted when opening makes no real difference. */
+  openedDays?: number;
+};
+
+export type ShelfLifeQuery = {
+  /** Where the item is going; defaults to the entry's best place. */
+  location?: StorageLocation;
+  opened?: boolean;
+};
+
+export type ShelfLifeEstimate = {
+  days: number;
+  location: StorageLocation;
+  /** Which row answered: a product name, its category, or the fallback. */
+  source: "name" | "category" | "default";
+};
+
+/** Days the user set by hand for one product kept one way; see {@link shelfLifeOverrideKey}. */
+export type ShelfLifeOverrides = Record<
+  string,
+  {
+    days: number;
+    /** ISO timestamp; oldest overrides are dropped first once the storage cap is hit. */
+    updatedAt: string;
+  }
+>;
+
+/** Frozen at purchase quality for months; used when an entry has no freezer figure. */
+export const FREEZER_FALLBACK_DAYS = 90;
+
+/** A fridge food left out at room temperature. */
+const OUT_OF_FRIDGE_DAYS = 1;
+
+export const SHELF_LIFE_BY_NAME: Readonly<Record<string, ShelfLifeEntry>> = {
+  // Dairy & eggs
+  milk: { location: "fridge", days: { fridge: 7, freezer: 90 }, openedDays: 5 },
+  "oat milk": { location: "shelf", days: { shelf: 270, fridge: 270 }, openedDays: 7 },
+  "soy milk": { location: "shelf", days: { shelf: 270, fridge: 270 }, openedDays: 7 },
+  cream: { location: "fridge", days: { fridge: 10, freezer: 90 }, openedDays: 4 },
+  "sour cream": { location: "fridge", days: { fridge: 21 }, openedDays: 7 },
+  yogurt: { location: "fridge", days: { fridge: 14, freezer: 60 }, openedDays: 5 },
+  yoghurt: { location: "fridge", days: { fridge: 14, freezer: 60 }, openedDays: 5 },
+  cheese: { location: "fridge", days: { fridge: 28, freezer: 180 }, openedDays: 21 },
+  "cream cheese": { location: "fridge", days: { fridge: 21 }, openedDays: 10 },
+  mozzarella: { location: "fridge", days: { fridge: 14, freezer: 90 }, openedDays: 3 },
+  feta: { location: "fridge", days: { fridge: 30 }, openedDays: 7 },
+  parmesan: { location: "fridge", days: { fridge: 90, freezer: 365 }, openedDays: 45 },
+  butter: { location: "fridge", days: { fridge: 60, freezer: 270 }, openedDays: 30 },
+  egg: { location: "fridge", days: { fridge: 28 } },
+  tofu: { location: "fridge", days: { fridge: 30, freezer: 150 }, openedDays: 4 },
+  hummus: { location: "fridge", days: { fridge: 14 }, openedDays: 6 },
+
+  // Meat & fish
+  chicken: { location: "fridge", days: { fridge: 2, freezer: 270 } },
+  turkey: { location: "fridge", days: { fridge: 2, freezer: 270 } },
+  mince: { location: "fridge", days: { fridge: 2, freezer: 120 } },
+  beef: { location: "fridge", days: { fridge: 4, freezer: 270 } },
+  steak: { location: "fridge", days: { fridge: 4, freezer: 270 } },
+  pork: { location: "fridge", days: { fridge: 4, freezer: 180 } },
+  lamb: { location: "fridge", days: { fridge: 4, freezer: 270 } },
+  sausage: { location: "fridge", days: { fridge: 7, freezer: 60 }, openedDays: 2 },
+  bacon: { location: "fridge", days: { fridge: 10, freezer: 30 }, openedDays: 7 },
+  ham: { location: "fridge", days: { fridge: 10, freezer: 60 }, openedDays: 4 },
+  salami: { location: "fridge", days: { fridge: 30 }, openedDays: 14 },
+  fish: { location: "fridge", days: { fridge: 2, freezer: 180 } },
+  salmon: { location: "fridge", days: { fridge: 2, freezer: 180 } },
+  cod: { location: "fridge", days: { fridge: 2, freezer: 180 } },
+  tuna: { location: "shelf", days: { shelf: 730 }, openedDays: 3 },
+  prawn: { location: "fridge", days: { fridge: 2, freezer: 180 } },
+  shrimp: { location: "fridge", days: { fridge: 2, freezer: 180 } },
+
+  // Vegetables
+  lettuce: { location: "fridge", days: { fridge: 7 } },
+  salad: { location: "fridge", days: { fridge: 5 }, openedDays: 2 },
+  spinach: { location: "fridge", days: { fridge: 5, freezer: 240 } },
+  kale: { location: "fridge", days: { fridge: 7 } },
+  broccoli: { location: "fridge", days: { fridge: 5, freezer: 300 } },
+  cauliflower: { location: "fridge", days: { fridge: 7, freezer: 300 } },
+  cabbage: { location: "fridge", days: { fridge: 30 } },
+  mushroom: { location: "fridge", days: { fridge: 5 } },
+  tomato: { location: "shelf", days: { shelf: 5, fridge: 10 } },
+  cucumber: { location: "fridge", days: { fridge: 7 } },
+  pepper: { location: "fridge", days: { fridge: 10 } },
+  zucchini: { location: "fridge", days: { fridge: 7 } },
+  courgette: { location: "fridge", days: { fridge: 7 } },
+  aubergine: { location: "fridge", days: { fridge: 7 } },
+  eggplant: { location: "fridge", days: { fridge: 7 } },
+  "green bean": { location: "fridge", days: { fridge: 7, freezer: 300 } },
+  pea: { location: "freezer", days: { freezer: 300, fridge: 5 } },
+  corn: { location: "fridge", days: { fridge: 3, freezer: 300 } },
+  carrot: { location: "fridge", days: { fridge: 28 } },
+  celery: { location: "fridge", days: { fridge: 14 } },
+  leek: { location: "fridge", days: { fridge: 14 } },
+  "spring onion": { location: "fridge", days: { fridge: 7 } },
+  potato: { location: "shelf", days: { shelf: 30 } },
+  "sweet potato": { location: "shelf", days: { shelf: 21 } },
+  onion: { location: "shelf", days: { shelf: 30 } },
+  garlic: { location: "shelf", days: { shelf: 90 } },
+  ginger: { location: "fridge", days: { fridge: 21, shelf: 7, freezer: 180 } },
+  herb: { location: "fridge", days: { fridge: 7 } },
+  basil: { location: "shelf", days: { shelf: 7, fridge: 3 } },
+
+  // Fruit
+  strawberry: { location: "fridge", days: { fridge: 4, freezer: 240 } },
+  raspberry: { location: "fridge", days: { fridge: 3, freezer: 240 } },
+  blueberry: { location: "fridge", days: { fridge: 10, freezer: 240 } },
+  berry: { location: "fridge", days: { fridge: 4, freezer: 240 } },
+  grape: { location: "fridge", days: { fridge: 10 } },
+  cherry: { location: "fridge", days: { fridge: 7 } },
+  apple: { location: "fridge", days: { fridge: 42, shelf: 10 } },
+  pear: { location: "shelf", days: { shelf: 5, fridge: 10 } },
+  lemon: { location: "fridge", days: { fridge: 28, shelf: 10 } },
+  lime: { location: "fridge", days: { fridge: 28, shelf: 10 } },
+  orange: { location: "shelf", days: { shelf: 14, fridge: 30 } },
+  banana: { location: "shelf", days: { shelf: 5, freezer: 90 } },
+  avocado: { location: "shelf", days: { shelf: 4, fridge: 7 } },
+  mango: { location: "shelf", days: { shelf: 5, fridge: 7 } },
+  pineapple: { location: "shelf", days: { shelf: 3, fridge: 5 } },
+  melon: { location: "shelf", days: { shelf: 7 }, openedDays: 4 },
+  kiwi: { location: "fridge", days: { fridge: 21, shelf: 7 } },
+
+  // Bakery
+  bread: { location: "shelf", days: { shelf: 5, freezer: 90 } },
+  tortilla: { location: "shelf", days: { shelf: 14, fridge: 30 }, openedDays: 7 },
+  croissant: { location: "shelf", days: { shelf: 2, freezer: 60 } },
+
+  // Pantry
+  rice: { location: "shelf", days: { shelf: 365 } },
+  pasta: { location: "shelf", days: { shelf: 365 } },
+  flour: { location: "shelf", days: { shelf: 240 } },
+  oat: { location: "shelf", days: { shelf: 365 } },
+  cereal: { location: "shelf", days: { shelf: 180 }, openedDays: 60 },
+  "peanut butter": { location: "shelf", days: { shelf: 180 }, openedDays: 90 },
+  jam: { location: "shelf", days: { shelf: 365 }, openedDays: 30 },
+  honey: { location: "shelf", days: { shelf: 730 } },
+  ketchup: { location: "shelf", days: { shelf: 365 }, openedDays: 180 },
+  mayonnaise: { location: "shelf", days: { shelf: 180 }, openedDays: 60 },
+  mustard: { location: "shelf", days: { shelf: 365 }, openedDays: 180 },
+  "soy sauce": { location: "shelf", days: { shelf: 730 }, openedDays: 365 },
+  "tomato sauce": { location: "shelf", days: { shelf: 365 }, openedDays: 5 },
+  pesto: { location: "fridge", days: { fridge: 30 }, openedDays: 7 },
+  juice: { location: "fridge", days: { fridge: 14 }, openedDays: 7 },
+  "orange juice": { location: "fridge", days: { fridge: 14 }, openedDays: 7 },
+  wine: { location: "shelf", days: { shelf: 730 }, openedDays: 4 },
+};
+
+export const SHELF_LIFE_BY_CATEGORY: Readonly<Record<string, ShelfLifeEntry>> = {
+  dairy: { location: "fridge", days: { fridge: 7, freezer: 90 }, openedDays: 5 },
+  eggs: { location: "fridge", days: { fridge: 28 } },
+  meat: { location: "fridge", days: { fridge: 3, freezer: 180 } },
+  seafood: { location: "fridge", days: { fridge: 2, freezer: 180 } },
+  deli: { location: "fridge", days: { fridge: 7, freezer: 60 }, openedDays: 4 },
+  vegetables: { location: "fridge", days: { fridge: 7, freezer: 240 } },
+  fruits: { location: "fridge", days: { fridge: 7, freezer: 240 } },
+  "ready-to-eat": { location: "fridge", days: { fridge: 3, freezer: 60 }, openedDays: 2 },
+  frozen: { location: "freezer", days: { freezer: 180, fridge: 2 } },
+  bakery: { location: "shelf", days: { shelf: 5, freezer: 90 } },
+  grains: { location: "shelf", days: { shelf: 180 } },
+  snacks: { location: "shelf", days: { shelf: 90 }, openedDays: 14 },
+  beverages: { location: "shelf", days: { shelf: 180 }, openedDays: 5 },
+  condiments: { location: "shelf", days: { shelf: 180 }, openedDays: 60 },
+  sauces: { location: "shelf", days: { shelf: 180 }, openedDays: 14 },
+  canned: { location: "shelf", days: { shelf: 365 }, openedDays: 3 },
+  spices: { location: "shelf", days: { shelf: 365 } },
+};
+
+export const DEFAULT_SHELF_LIFE: ShelfLifeEntry = {
+  location: "fridge",
+  days: { fridge: 7 },
+};
+
+/** Override key for one product kept one way, e.g. `milk|fridge|opened`. */
+export function shelfLifeOverrideKey(
+  groupKey: string,
+  location: StorageLocation,
+  opened = false
+): string {
+  return `${groupKey}|${location}|${opened ? "opened" : "unopened"}`;
+}
+
+function lookup(
+  table: Readonly<Record<string, ShelfLifeEntry>>,
+  key: string
+): ShelfLifeEntry | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+/**
+ * The knowledge-base row for a food: the whole grouping name first, then its
+ * two-word and single-word tails ("chicken breast" → chicken), then the category.
+ */
+export function findShelfLifeEntry(
+  name: string,
+  category?: string | null
+): { entry: ShelfLifeEntry; source: ShelfLifeEstimate["source"] } {
+  const key = normalizeFoodNameForGrouping(name);
+  const tokens = key.split(" ");
+  const candidates = [key];
+  for (let i = tokens.length - 2; i >= 0; i--) {
+    candidates.push(tokens.slice(i, i + 2).join(" "));
+  }
+  candidates.push(...[...tokens].reverse());
+  for (const candidate of candidates) {
+    const entry = lookup(SHELF_LIFE_BY_NAME, candidate);
+    if (entry) return { entry, source: "name" };
+  }
+
+  const byCategory = lookup(SHELF_LIFE_BY_CATEGORY, (category || "").trim().toLowerCase());
+  if (byCategory) return { entry: byCategory, source: "category" };
+
+  return { entry: DEFAULT_SHELF_LIFE, source: "default" };
+}
+
+/**
+ * Suggested shelf life for a food kept at `query.location` (its best place by
+ * default). Places the entry doesn't list fall back sensibly: freezing keeps
+ * for {@link FREEZER_FALLBACK_DAYS}, a fridge food on the shelf lasts a day, and a
+ * shelf food in the fridge keeps at least as long. Opening shortens it, except
+ * in the freezer.
+ */
+export function lookupShelfLife(
+  name: string,
+  category?: string | null,
+  query: ShelfLifeQuery = {}
+): ShelfLifeEstimate {
+  const { entry, source } = findShelfLifeEntry(name, category);
+  const location = query.location ?? entry.location;
+  const best = entry.days[entry.location] ?? DEFAULT_SHELF_LIFE.days.fridge!;
+
+  let days = entry.days[location];
+  if (days == null) {
+    if (location === "freezer") days = Math.max(best, FREEZER_FALLBACK_DAYS);
+    else if (location === "shelf" && entry.location !== "shelf") days = OUT_OF_FRIDGE_DAYS;
+    else days = best;
+  }
+  if (query.opened && location !== "freezer" && entry.openedDays != null) {
+    days = Math.min(days, entry.openedDays);
+  }
+
+  return { days, location, source };
+}
@@ -0,0 +1,44 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { ShelfLifeOverrides } from "@/lib/shelfLife";
+
+/** Shelf lives the user set by hand, remembered per product (device-local). */
+export const SHELF_LIFE_OVERRIDES_STORAGE_KEY = "fridgewise_shelf_life_overrides_v1";
+
+/** Cap so a long-lived install doesn't grow the blob without bound. */
+export const MAX_SHELF_LIFE_OVERRIDES = 300;
+
+export async function loadShelfLifeOverrides(): Promise<ShelfLifeOverrides> {
+  try {
+    const raw = await AsyncStorage.getItem(SHELF_LIFE_OVERRIDES_STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return parsed as ShelfLifeOverrides;
+  } catch (e) {
+    console.warn("shelfLifeOverridesStorage: failed to load overrides", e);
+    return {};
+  }
+}
+
+export async function saveShelfLifeOverride(key: string, days: number): Promise<void> {
+  const all = await loadShelfLifeOverrides();
+  all[key] = { days, updatedAt: new Date().toISOString() };
+
+  const keys = Object.keys(all);
+  if (keys.length > MAX_SHELF_LIFE_OVERRIDES) {
+    keys
+      .sort((a, b) => all[a]!.updatedAt.localeCompare(all[b]!.updatedAt))
+      .slice(0, keys.length - MAX_SHELF_LIFE_OVERRIDES)
+      .forEach((k) => delete all[k]);
+  }
+
+  await AsyncStorage.setItem(SHELF_LIFE_OVERRIDES_STORAGE_KEY, JSON.stringify(all));
+}
+
+export async function removeShelfLifeOverride(key: string): Promise<void> {
+  const all = await loadShelfLifeOverrides();
+  if (!(key in all)) return;
+  delete all[key];
+  await AsyncStorage.setItem(SHELF_LIFE_OVERRIDES_STORAGE_KEY, JSON.stringify(all));
+}
@@ -251,16 +251,68 @@ export async function updatePasswordDirect(newPassword: string) {
 }
 
 // Database types
+export type HouseholdRole = "owner" | "member" | "viewer";
+
+export interface Household {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HouseholdMember {
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole;
+  /** Name shown to other members; captured when joining. */
+  display_name?: string | null;
+  joined_at: string;
+}
+
+export interface HouseholdInvite {
+  code: string;
+  household_id: string;
+  role: Exclude<HouseholdRole, "owner">;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string;
+  used_by?: string | null;
+  used_at?: string | null;
+}
+
+export type FoodLocation = "fridge" | "shelf" | "freezer";
+
+/**
+ * How the printed date is meant: `use_by` is a safety date and the item is expired
+ * after it; `best_before` is about quality and the item stays usable past it.
+ */
+export type ExpiryKind = "use_by" | "best_before";
+
 export interface FoodItem {
   id: string;
   user_id: string;
+  /** Shared household this row belongs to; null for personal inventory. */
+  household_id?: string | null;
   name: string;
   /** Lowercase trimmed single-spaced name for matching; set on create/update. */
   normalized_name?: string;
+  /** Product this row is a lot of; linked by a trigger from the name. */
+  product_id?: string | null;
   quantity: number;
   unit?: string;
-  location: "fridge" | "shelf";
+  location: FoodLocation;
   expiry_date?: string;
+  /** What `expiry_date` means; treated as `use_by` when missing. */
+  expiry_kind?: ExpiryKind | null;
+  /** When the package was opened; null while sealed. See utils/openedExpiry. */
+  opened_at?: string | null;
+  /** What the whole row cost when added. See utils/itemPrice. */
+  price?: number | null;
+  /** What one `unit` cost; waste and consumption are valued with it. */
+  price_per_unit?: number | null;
+  /** ISO 4217 code for both prices. */
+  currency?: string | null;
   category?: string;
   image_url?: string;
   notes?: string;
@@ -282,12 +334,115 @@ export interface UsageLog {
   id: string;
   item_id: string;
   user_id: string;
+  /** Copied from the item when logged so household history survives item moves. */
+  household_id?: string | null;
   status: "used" | "expired" | "wasted";
   quantity: number;
   logged_at: string;
   created_at: string;
 }
 
+/** One thing the user keeps; each `food_items` row with its name is a lot of it. */
+export interface FoodProduct {
+  id: string;
+  user_id: string;
+  household_id?: string | null;
+  name: string;
+  normalized_name: string;
+  created_at: string;
+}
+
+/** A move into or out of the freezer, logged by a trigger on `food_items`. */
+export interface FoodItemEvent {
+  id: string;
+  item_id: string;
+  user_id: string;
+  kind: "frozen" | "thawed";
+  from_location: FoodLocation;
+  to_location: FoodLocation;
+  previous_expiry_date?: string | null;
+  new_expiry_date?: string | null;
+  created_at: string;
+}
+
+export interface ShoppingListItem {
+  id: string;
+  user_id: string;
+  /** Shared household list this row belongs to; null for a personal list. */
+  household_id?: string | null;
+  /** Device-local id the row was created or migrated under. */
+  client_id?: string | null;
+  name: string;
+  category?: string | null;
+  quantity: number;
+  unit?: string | null;
+  status: "list" | "bought" | "fridge";
+  priority: "high" | "medium" | "low";
+  notes?: string | null;
+  /** Expected or paid price, carried onto the inventory row at put-away. */
+  price?: number | null;
+  price_per_unit?: number | null;
+  currency?: string | null;
+  /** Set by a trigger when the entry leaves the list; counts toward that month's spend. */
+  bought_at?: string | null;
+  added_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MealSlot = "breakfast" | "lunch" | "dinner";
+
+export interface MealPlanReservation {
+  item_id: string;
+  quantity: number;
+}
+
+export interface MealPlanEntry {
+  id: string;
+  user_id: string;
+  /** Shared household plan this row belongs to; null for a personal plan. */
+  household_id?: string | null;
+  /** Local calendar day, `YYYY-MM-DD`. */
+  planned_for: string;
+  slot: MealSlot;
+  /** Built-in or imported recipe id; null for free-text meals. */
+  recipe_id?: string | null;
+  title: string;
+  notes?: string | null;
+  /** Inventory set aside for this meal until it is cooked. */
+  reserved_items: MealPlanReservation[];
+  cooked_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ParLevel {
+  id: string;
+  user_id: string;
+  /** Shared household target; null for a personal one. */
+  household_id?: string | null;
+  name: string;
+  /** `normalizeFoodNameForGrouping(name)`; unique per user or household. */
+  group_key: string;
+  /** Minimum stock to keep on hand. */
+  quantity: number;
+  unit?: string | null;
+  category?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Monthly grocery budget; one per user or one shared by the household. */
+export interface GroceryBudget {
+  id: string;
+  user_id: string;
+  household_id?: string | null;
+  monthly_amount: number;
+  currency: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
@@ -309,10 +464,24 @@ export interface UserProfile {
     low_stock_threshold: number;
     notification_time: string;
   };
+  /** Urgency thresholds chosen in Settings; null until the user changes them. */
+  urgency_settings?: UrgencySettings | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Days before expiry at which an item turns "warning" (orange) and "soon" (yellow). */
+export interface UrgencyThresholds {
+  warningDays: number;
+  soonDays: number;
+}
+
+export interface UrgencySettings {
+  defaults: UrgencyThresholds;
+  /** Per-category overrides keyed by lowercase category label, e.g. `seafood`. */
+  categories: Record<string, UrgencyThresholds>;
+}
+
 // Enhanced Analytics Types
 export interface WasteAnalytics {
   totalWasted: number;
@@ -338,6 +507,12 @@ export interface WasteTrendData {
   wasteValue: number;
 }
 
+export interface ConsumptionTrendData {
+  date: string;
+  consumedCount: number;
+  consumedValue: number;
+}
+
 export interface ItemWasteData {
   name: string;
   count: number;
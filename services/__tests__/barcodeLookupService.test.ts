@@ -0,0 +1,92 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  barcodeLookupService,
+  inventoryCategoryForBarcode,
+  normalizeBarcode,
+} from "../barcodeLookupService";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+describe("barcodeLookupService", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe("normalizeBarcode", () => {
+    it("keeps valid EAN-13 and EAN-8 codes", () => {
+      expect(normalizeBarcode("3017620422003")).toBe("3017620422003");
+      expect(normalizeBarcode("20724696")).toBe("20724696");
+    });
+
+    it("pads UPC-A and trims GTIN-14 to EAN-13", () => {
+      expect(normalizeBarcode("737628064502")).toBe("0737628064502");
+      expect(normalizeBarcode("03017620422003")).toBe("3017620422003");
+    });
+
+    it("rejects bad check digits and wrong lengths", () => {
+      expect(normalizeBarcode("3017620422004")).toBeNull();
+      expect(normalizeBarcode("12345")).toBeNull();
+      expect(normalizeBarcode("")).toBeNull();
+    });
+  });
+
+  it("maps catalog slugs onto inventory chips", () => {
+    expect(inventoryCategoryForBarcode("dairy")).toBe("Dairy");
+    expect(inventoryCategoryForBarcode("household")).toBe("Other");
+    expect(inventoryCategoryForBarcode("")).toBe("");
+  });
+
+  it("finds catalog products by UPC-A", async () => {
+    const product = await barcodeLookupService.lookup("737628064502");
+    expect(product).toMatchObject({
+      barcode: "0737628064502",
+      category: "Grains",
+      source: "catalog",
+    });
+  });
+
+  it("returns null for unknown codes", async () => {
+    expect(await barcodeLookupService.lookup("20724696")).toBeNull();
+  });
+
+  it("remembers user mappings and prefers them over the catalog", async () => {
+    await barcodeLookupService.remember("20724696", {
+      name: "Oat milk",
+      category: "Dairy",
+      unit: "L",
+      shelfLifeDays: 10,
+      location: "fridge",
+    });
+    expect(await barcodeLookupService.lookup("20724696")).toMatchObject({
+      name: "Oat milk",
+      category: "Dairy",
+      unit: "L",
+      shelfLifeDays: 10,
+      source: "user",
+    });
+
+    await barcodeLookupService.remember("3017620422003", {
+      name: "Hazelnut spread",
+      category: "Condiments",
+      unit: "pcs",
+      location: "shelf",
+    });
+    expect(await barcodeLookupService.lookup("3017620422003")).toMatchObject({
+      name: "Hazelnut spread",
+      source: "user",
+    });
+  });
+
+  it("does not store a mapping identical to the catalog entry", async () => {
+    await barcodeLookupService.remember("5449000000996", {
+      name: "Coca-Cola",
+      category: "Beverages",
+      unit: "pcs",
+      location: "shelf",
+    });
+    expect(await AsyncStorage.getItem("fridgewise_barcode_mappings_v1")).toBeNull();
+  });
+});
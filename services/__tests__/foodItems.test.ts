@@ -0,0 +1,88 @@
+import { foodItemsService } from "../foodItems";
+
+const mockFetchItem = jest.fn();
+const mockLogUsage = jest.fn();
+const mockLogRecipeUsage = jest.fn();
+const mockLots = jest.fn();
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({ eq: () => ({ gt: () => mockLots() }) }),
+    }),
+  },
+}));
+
+jest.mock("@/services/foodItemsRemote", () => ({
+  remoteFoodItemMutations: {
+    fetchItem: (...args: unknown[]) => mockFetchItem(...args),
+    logUsage: (...args: unknown[]) => mockLogUsage(...args),
+    logRecipeUsage: (...args: unknown[]) => mockLogRecipeUsage(...args),
+  },
+}));
+
+jest.mock("@/services/inventoryRealtimeService", () => ({
+  noteLocalInventoryWrite: jest.fn(),
+}));
+
+jest.mock("@/services/offlineSyncService", () => ({
+  offlineSyncService: {
+    readItem: (_id: string, fetch: () => Promise<unknown>) => fetch(),
+    rememberItems: () => Promise.resolve(),
+    perform: async (_ops: unknown, run: () => Promise<unknown>) => ({ result: await run() }),
+  },
+}));
+
+const lot = (id: string, quantity: number, expiry_date: string) => ({
+  id,
+  user_id: "u1",
+  product_id: "p1",
+  name: "Milk",
+  category: "Dairy",
+  location: "fridge",
+  quantity,
+  unit: "L",
+  expiry_date,
+  created_at: "2026-10-01T10:00:00.000Z",
+});
+
+describe("foodItemsService.markItemUsed", () => {
+  const older = lot("older", 1, "2026-10-20");
+  const newer = lot("newer", 2, "2026-10-25");
+
+  beforeEach(() => {
+    mockFetchItem.mockReset().mockResolvedValue(newer);
+    mockLots.mockReset().mockResolvedValue({ data: [newer, older], error: null });
+    mockLogUsage.mockReset().mockResolvedValue(undefined);
+    mockLogRecipeUsage.mockReset().mockResolvedValue([]);
+  });
+
+  it("logs one usage when a single lot covers the amount", async () => {
+    const uses = await foodItemsService.markItemUsed("newer", 1);
+    expect(uses).toEqual([{ itemId: "older", quantity: 1 }]);
+    expect(mockLogUsage).toHaveBeenCalledWith("older", "used", 1);
+    expect(mockLogRecipeUsage).not.toHaveBeenCalled();
+  });
+
+  it("draws across lots in one batch when the amount spans them", async () => {
+    const uses = await foodItemsService.markItemUsed("newer", 2);
+    expect(uses).toEqual([
+      { itemId: "older", quantity: 1 },
+      { itemId: "newer", quantity: 1 },
+    ]);
+    expect(mockLogRecipeUsage).toHaveBeenCalledWith(uses);
+    expect(mockLogUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe("foodItemsService.markLotUsed", () => {
+  it("logs the whole lot against itself without drawing from older lots", async () => {
+    mockFetchItem.mockReset().mockResolvedValue(lot("newer", 2, "2026-10-25"));
+    mockLots.mockReset().mockResolvedValue({ data: [lot("older", 1, "2026-10-20")], error: null });
+    mockLogUsage.mockReset().mockResolvedValue(undefined);
+
+    await foodItemsService.markLotUsed("newer");
+    expect(mockLogUsage).toHaveBeenCalledWith("newer", "used", 2);
+    expect(mockLots).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  canEditHouseholdInventory,
+  inventoryScopeFilter,
+  normalizeInviteCode,
+} from "../householdService";
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {},
+}));
+
+describe("householdService helpers", () => {
+  describe("normalizeInviteCode", () => {
+    it("uppercases and strips separators", () => {
+      expect(normalizeInviteCode("ab12-cd34")).toBe("AB12CD34");
+      expect(normalizeInviteCode("  ab12 cd34 ")).toBe("AB12CD34");
+    });
+
+    it("returns empty string for blank input", () => {
+      expect(normalizeInviteCode("  - ")).toBe("");
+    });
+  });
+
+  describe("inventoryScopeFilter", () => {
+    it("filters by household when the user belongs to one", () => {
+      expect(inventoryScopeFilter({ userId: "u1", householdId: "h1" })).toEqual({
+        column: "household_id",
+        value: "h1",
+      });
+    });
+
+    it("falls back to the user's own rows", () => {
+      expect(inventoryScopeFilter({ userId: "u1", householdId: null })).toEqual({
+        column: "user_id",
+        value: "u1",
+      });
+    });
+  });
+
+  describe("canEditHouseholdInventory", () => {
+    it("allows personal inventories, owners and members", () => {
+      expect(canEditHouseholdInventory(null)).toBe(true);
+      expect(canEditHouseholdInventory(undefined)).toBe(true);
+      expect(canEditHouseholdInventory("owner")).toBe(true);
+      expect(canEditHouseholdInventory("member")).toBe(true);
+    });
+
+    it("blocks viewers", () => {
+      expect(canEditHouseholdInventory("viewer")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { loadConsumptionReport, loadWasteReport } from "../insightsReportData";
+import { reportRange } from "@/utils/reportRange";
+
+const mockRpc = jest.fn();
+
+jest.mock("@/lib/supabase", () => {
+  const mockLogs = [
+    {
+      id: "l1",
+      status: "wasted",
+      quantity: 1,
+      logged_at: "2026-10-10T09:00:00.000Z",
+      food_items: {
+        name: "Milk",
+        category: "dairy",
+        expiry_date: "2026-10-08",
+        price_per_unit: 1.5,
+        quantity: 0,
+        currency: "EUR",
+      },
+    },
+    {
+      id: "l2",
+      status: "expired",
+      quantity: 2,
+      logged_at: "2026-10-09T09:00:00.000Z",
+      food_items: {
+        name: "milk 1L",
+        category: "Dairy",
+        expiry_date: "2026-10-09",
+        price_per_unit: 1.5,
+        quantity: 0,
+        currency: "EUR",
+      },
+    },
+    {
+      id: "l3",
+      status: "used",
+      quantity: 1,
+      logged_at: "2026-10-08T09:00:00.000Z",
+      food_items: { name: "Bread", category: "bakery", expiry_date: "2026-10-12", quantity: 0 },
+    },
+  ];
+  const query = (table: string) => {
+    let head = false;
+    const q: Record<string, unknown> = {};
+    for (const m of ["eq", "neq", "in", "gte", "lt", "gt", "not", "order", "range"]) {
+      q[m] = () => q;
+    }
+    q.select = (_cols: string, opts?: { head?: boolean }) => {
+      head = Boolean(opts?.head);
+      return q;
+    };
+    q.then = (resolve: (v: unknown) => unknown, reject: (e: unknown) => unknown) => {
+      const result =
+        table === "usage_logs"
+          ? { data: mockLogs, error: null }
+          : head
+            ? { count: 4, error: null }
+            : { data: [], error: null };
+      return Promise.resolve(result).then(resolve, reject);
+    };
+    return q;
+  };
+  return {
+    supabase: {
+      rpc: (...args: unknown[]) => mockRpc(...args),
+      from: (table: string) => query(table),
+    },
+  };
+});
+
+jest.mock("@/services/householdService", () => ({
+  getInventoryScope: (userId: string) => Promise.resolve({ userId, householdId: null }),
+  inventoryScopeFilter: () => ({ column: "user_id", value: "u1" }),
+}));
+
+/** What the RPC returns for the same three logs as the raw-log mock. */
+const rpcResult = {
+  items_added: 4,
+  counts: { used: 1, wasted: 1, expired: 1 },
+  wasted_timing: { before: 0, on_or_after: 1, unknown: 0 },
+  days_past_expiry: { sum: 2, count: 2 },
+  consumed_after_expiry: 0,
+  categories: [
+    { status: "wasted", category: "dairy", times: 1 },
+    { status: "expired", category: "Dairy", times: 1 },
+    { status: "used", category: "bakery", times: 1 },
+  ],
+  items: [
+    { side: "waste", item_key: "Milk", name: "Milk", category: "dairy", times: 1 },
+    { side: "waste", item_key: "milk 1L", name: "milk 1L", category: "Dairy", times: 1 },
+    { side: "used", item_key: "Bread", name: "Bread", category: "bakery", times: 1 },
+  ],
+  days: [
+    { side: "waste", day: "2026-10-10", currency: "EUR", times: 1, value: 1.5 },
+    { side: "waste", day: "2026-10-09", currency: "EUR", times: 1, value: 3 },
+    { side: "used", day: "2026-10-08", currency: null, times: 1, value: null },
+  ],
+  money: [
+    {
+      status: "wasted",
+      month: "2026-10",
+      currency: "EUR",
+      item_key: "Milk",
+      name: "Milk",
+      category: "dairy",
+      logs: 1,
+      value: 1.5,
+    },
+    {
+      status: "expired",
+      month: "2026-10",
+      currency: "EUR",
+      item_key: "milk 1L",
+      name: "milk 1L",
+      category: "Dairy",
+      logs: 1,
+      value: 3,
+    },
+    {
+      status: "used",
+      month: "2026-10",
+      currency: null,
+      item_key: "Bread",
+      name: "Bread",
+      category: "bakery",
+      logs: 1,
+      value: null,
+    },
+  ],
+  purchases: [],
+};
+
+const range = reportRange("all", { today: new Date(2026, 9, 18) });
+
+describe("insights reports", () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("builds the waste report from the database aggregates", async () => {
+    mockRpc.mockResolvedValue({ data: rpcResult, error: null });
+
+    const { report, trend } = await loadWasteReport("u1", range);
+
+    expect(mockRpc).toHaveBeenCalledWith(
+      "insights_report_aggregates",
+      expect.objectContaining({ p_since: null, p_until: null })
+    );
+    expect(report.totalWastedQty).toBe(2);
+    expect(report.mostWasted).toEqual({ name: "Milk", times: 2 });
+    expect(report.categoriesTop5).toEqual([
+      { key: "Dairy", displayLabel: "Dairy", qty: 2, barPct: 100 },
+    ]);
+    expect(report.expiredOutcomeRates).toEqual({
+      thrownAwayPct: 100,
+      consumedPct: 0,
+      thrownAwayQty: 2,
+      consumedQty: 0,
+    });
+    expect(report.money?.wastedValue).toBe(4.5);
+    expect(trend.reduce((n, w) => n + w.wasteCount, 0)).toBe(2);
+  });
+
+  it("aggregates raw logs the same way when the RPC fails", async () => {
+    mockRpc.mockResolvedValue({ data: rpcResult, error: null });
+    const fromRpc = await loadWasteReport("u1", range);
+    mockRpc.mockResolvedValue({ data: null, error: new Error("Could not find the function") });
+    const local = await loadWasteReport("u1", range);
+
+    expect(local.report).toEqual(fromRpc.report);
+    expect(local.trend).toEqual(fromRpc.trend);
+  });
+
+  it("builds the consumption report from either source", async () => {
+    mockRpc.mockResolvedValue({ data: rpcResult, error: null });
+    const fromRpc = await loadConsumptionReport("u1", range);
+    mockRpc.mockRejectedValue(new Error("Could not find the function"));
+    const local = await loadConsumptionReport("u1", range);
+
+    expect(fromRpc.report.totalConsumedQty).toBe(1);
+    expect(fromRpc.report.mostConsumed).toEqual({ name: "Bread", times: 1 });
+    expect(local.report).toEqual(fromRpc.report);
+  });
+
+  it("passes an offline failure on instead of paging raw logs", async () => {
+    mockRpc.mockRejectedValue(new Error("Network request failed"));
+
+    await expect(loadWasteReport("u1", range)).rejects.toThrow("Network request failed");
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+import type { FoodItem } from "@/lib/supabase";
+
+import {
+  applyFoodItemChange,
+  isLocalInventoryEcho,
+  noteLocalInventoryWrite,
+} from "../inventoryRealtimeService";
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {},
+}));
+
+function item(id: string, quantity: number): FoodItem {
+  return {
+    id,
+    user_id: "u1",
+    name: `Item ${id}`,
+    quantity,
+    location: "fridge",
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+describe("inventoryRealtimeService", () => {
+  describe("applyFoodItemChange", () => {
+    const items = [item("a", 1), item("b", 2)];
+
+    it("replaces an existing row in place", () => {
+      const next = applyFoodItemChange(items, {
+        kind: "food_item",
+        itemId: "b",
+        item: { ...item("b", 5), urgency: {} as any },
+      });
+      expect(next.map((it) => [it.id, it.quantity])).toEqual([
+        ["a", 1],
+        ["b", 5],
+      ]);
+    });
+
+    it("appends rows it hasn't seen", () => {
+      const next = applyFoodItemChange(items, {
+        kind: "food_item",
+        itemId: "c",
+        item: { ...item("c", 1), urgency: {} as any },
+      });
+      expect(next.map((it) => it.id)).toEqual(["a", "b", "c"]);
+    });
+
+    it("removes deleted rows and keeps the same array when nothing matches", () => {
+      expect(
+        applyFoodItemChange(items, { kind: "food_item", itemId: "a", item: null }).map(
+          (it) => it.id
+        )
+      ).toEqual(["b"]);
+      expect(applyFoodItemChange(items, { kind: "food_item", itemId: "z", item: null })).toBe(
+        items
+      );
+    });
+  });
+
+  describe("local write echoes", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("treats events for rows this device just wrote as echoes until the window passes", () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2026-10-18T12:00:00.000Z"));
+
+      noteLocalInventoryWrite("food_items", "item-1");
+      expect(isLocalInventoryEcho("food_items", "item-1")).toBe(true);
+      expect(isLocalInventoryEcho("usage_logs", "item-1")).toBe(false);
+      expect(isLocalInventoryEcho("food_items", "item-2")).toBe(false);
+
+      jest.setSystemTime(new Date("2026-10-18T12:00:06.000Z"));
+      expect(isLocalInventoryEcho("food_items", "item-1")).toBe(false);
+    });
+
+    it("matches the echo on the written values, once", () => {
+      noteLocalInventoryWrite("food_items", "item-1", { quantity: 2, location: "fridge" });
+
+      // Another device's change to the same row isn't the echo.
+      expect(isLocalInventoryEcho("food_items", "item-1", { ...item("item-1", 5) })).toBe(false);
+      expect(isLocalInventoryEcho("food_items", "item-1", { ...item("item-1", 2) })).toBe(true);
+      expect(isLocalInventoryEcho("food_items", "item-1", { ...item("item-1", 2) })).toBe(false);
+
+      noteLocalInventoryWrite("usage_logs", "item-1", { status: "used", quantity: 0.5 });
+      expect(
+        isLocalInventoryEcho("usage_logs", "item-1", { status: "used", quantity: "0.500" })
+      ).toBe(true);
+    });
+  });
+});
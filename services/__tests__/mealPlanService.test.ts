@@ -0,0 +1,179 @@
+import type { Recipe } from "@/lib/recipes";
+import type { MealPlanEntry } from "@/lib/supabase";
+import type { FoodItemWithUrgency } from "@/services/foodItems";
+
+import {
+  mealPlanService,
+  reservedQuantities,
+  weekDays,
+  withoutReserved,
+} from "../mealPlanService";
+
+const mockReservationRows = jest.fn();
+const mockInsert = jest.fn();
+const mockGetMembership = jest.fn();
+const mockShoppingItems = jest.fn();
+const mockAddShoppingItem = jest.fn();
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    auth: {
+      getUser: () => Promise.resolve({ data: { user: { id: "u1" } }, error: null }),
+    },
+    from: () => ({
+      select: () => ({
+        gte: () => ({ is: () => mockReservationRows() }),
+      }),
+      insert: (row: unknown) => ({
+        select: () => ({ single: () => mockInsert(row) }),
+      }),
+    }),
+  },
+}));
+
+jest.mock("@/services/householdService", () => ({
+  canEditHouseholdInventory: (role: string | null | undefined) => role !== "viewer",
+  householdService: {
+    getMembership: () => mockGetMembership(),
+  },
+}));
+
+jest.mock("@/services/shoppingListService", () => ({
+  shoppingListService: {
+    getItems: () => mockShoppingItems(),
+    addItem: (item: unknown) => mockAddShoppingItem(item),
+  },
+}));
+
+function item(id: string, name: string, quantity: number): FoodItemWithUrgency {
+  return {
+    id,
+    user_id: "u1",
+    name,
+    quantity,
+    location: "fridge",
+    expiry_date: "2099-01-01",
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-01T00:00:00.000Z",
+    urgency: {
+      level: "safe",
+      daysUntilExpiry: 30,
+      color: "#000",
+      dotColor: "#000",
+      backgroundColor: "#fff",
+      borderColor: "#fff",
+      description: "Fresh",
+    },
+  } as FoodItemWithUrgency;
+}
+
+function entry(reserved: { item_id: string; quantity: number }[], cooked = false): MealPlanEntry {
+  return {
+    id: `e-${Math.random()}`,
+    user_id: "u1",
+    planned_for: "2026-10-20",
+    slot: "dinner",
+    title: "Dinner",
+    reserved_items: reserved,
+    cooked_at: cooked ? "2026-10-20T19:00:00.000Z" : null,
+    created_at: "2026-10-18T00:00:00.000Z",
+    updated_at: "2026-10-18T00:00:00.000Z",
+  };
+}
+
+describe("meal plan reservations", () => {
+  it("lists seven local days from the start date", () => {
+    expect(weekDays(new Date(2026, 9, 29))).toEqual([
+      "2026-10-29",
+      "2026-10-30",
+      "2026-10-31",
+      "2026-11-01",
+      "2026-11-02",
+      "2026-11-03",
+      "2026-11-04",
+    ]);
+  });
+
+  it("sums reservations across uncooked meals only", () => {
+    const reserved = reservedQuantities([
+      entry([{ item_id: "a", quantity: 2 }]),
+      entry([{ item_id: "a", quantity: 1 }, { item_id: "b", quantity: 1 }]),
+      entry([{ item_id: "b", quantity: 5 }], true),
+    ]);
+    expect(Object.fromEntries(reserved)).toEqual({ a: 3, b: 1 });
+  });
+
+  it("subtracts held quantities and drops fully reserved items", () => {
+    const free = withoutReserved(
+      [item("a", "Eggs", 6), item("b", "Milk", 1), item("c", "Rice", 2)],
+      new Map([
+        ["a", 4],
+        ["b", 1],
+      ])
+    );
+    expect(free.map((it) => [it.id, it.quantity])).toEqual([
+      ["a", 2],
+      ["c", 2],
+    ]);
+  });
+});
+
+describe("mealPlanService.planRecipe", () => {
+  const recipe: Recipe = {
+    id: "omelette",
+    name: "Omelette",
+    mealType: "breakfast",
+    prepMinutes: 10,
+    ingredients: [
+      { name: "eggs", quantity: 3 },
+      { name: "cheese" },
+      { name: "spinach" },
+    ],
+    instructions: [],
+    tags: [],
+    source: "builtin",
+  };
+
+  beforeEach(() => {
+    mockReservationRows.mockReset().mockResolvedValue({
+      data: [{ reserved_items: [{ item_id: "eggs", quantity: 2 }], cooked_at: null }],
+      error: null,
+    });
+    mockInsert.mockReset().mockImplementation((row) =>
+      Promise.resolve({ data: { ...row, id: "entry-1" }, error: null })
+    );
+    mockGetMembership.mockReset().mockResolvedValue(null);
+    mockShoppingItems.mockReset().mockResolvedValue([
+      { id: "s1", name: "Cheese", quantity: 1, status: "list" },
+    ]);
+    mockAddShoppingItem.mockReset().mockResolvedValue(undefined);
+  });
+
+  it("reserves free stock and lists only missing ingredients not already on the list", async () => {
+    const result = await mealPlanService.planRecipe(recipe, "2026-10-20", "breakfast", [
+      item("eggs", "Eggs", 6),
+    ]);
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        planned_for: "2026-10-20",
+        slot: "breakfast",
+        recipe_id: "omelette",
+        reserved_items: [{ item_id: "eggs", quantity: 3 }],
+      })
+    );
+    expect(result.addedToShoppingList).toEqual(["spinach"]);
+    expect(mockAddShoppingItem).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "meal-entry-1-0", name: "Spinach", notes: "For Omelette" })
+    );
+  });
+
+  it("refuses to plan for household viewers", async () => {
+    mockGetMembership.mockResolvedValue({ role: "viewer", household: { id: "h1" } });
+
+    await expect(
+      mealPlanService.planRecipe(recipe, "2026-10-20", "breakfast", [item("eggs", "Eggs", 6)])
+    ).rejects.toThrow("Viewers can't change this household's meal plan.");
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  deferPastQuietHours,
+  digestTimesOfDay,
+  DigestSettings,
+  isInQuietHours,
+  planReminderSlots,
+  splitReminderIdsAtLimit,
+} from "../notificationDigestSchedule";
+
+describe("notificationDigestSchedule", () => {
+  const quietHours = { enabled: true, start: "22:00", end: "07:00" };
+  const settings = (overrides: Partial<DigestSettings> = {}): DigestSettings => ({
+    frequency: "daily",
+    digestTimes: ["09:00", "18:00"],
+    quietHours,
+    ...overrides,
+  });
+  const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute);
+  const now = at(18, 8);
+
+  describe("quiet hours", () => {
+    it("spans midnight and ends on the end minute", () => {
+      expect(isInQuietHours(at(18, 23), quietHours)).toBe(true);
+      expect(isInQuietHours(at(18, 6, 59), quietHours)).toBe(true);
+      expect(isInQuietHours(at(18, 7), quietHours)).toBe(false);
+      expect(isInQuietHours(at(18, 23), { ...quietHours, enabled: false })).toBe(false);
+    });
+
+    it("defers to the end of the window, the next morning when before midnight", () => {
+      expect(deferPastQuietHours(at(18, 23, 30), quietHours)).toEqual(at(19, 7));
+      expect(deferPastQuietHours(at(19, 2), quietHours)).toEqual(at(19, 7));
+      expect(deferPastQuietHours(at(19, 12), quietHours)).toEqual(at(19, 12));
+    });
+  });
+
+  describe("digestTimesOfDay", () => {
+    it("uses as many times as the frequency needs", () => {
+      expect(digestTimesOfDay(settings({ frequency: "realtime" }))).toEqual([]);
+      expect(digestTimesOfDay(settings())).toEqual([540]);
+      expect(digestTimesOfDay(settings({ frequency: "twice-daily" }))).toEqual([540, 1080]);
+    });
+
+    it("tops up from the defaults", () => {
+      expect(
+        digestTimesOfDay(settings({ frequency: "twice-daily", digestTimes: ["20:00"] }))
+      ).toEqual([540, 1200]);
+      expect(digestTimesOfDay(settings({ frequency: "custom", digestTimes: [] }))).toEqual([540]);
+    });
+  });
+
+  describe("planReminderSlots", () => {
+    const milk = { id: "milk" };
+    const eggs = { id: "eggs" };
+
+    it("merges a day's reminders into one digest", () => {
+      const slots = planReminderSlots(
+        [
+          { item: milk, fireAt: at(19, 13) },
+          { item: eggs, fireAt: at(19, 17, 30) },
+          { item: milk, fireAt: at(20, 13) },
+        ],
+        settings(),
+        { now }
+      );
+      expect(slots).toEqual([
+        { fireAt: at(19, 9), items: [milk, eggs] },
+        { fireAt: at(20, 9), items: [milk] },
+      ]);
+    });
+
+    it("uses the latest digest that isn't later than the reminder", () => {
+      const slots = planReminderSlots(
+        [
+          { item: milk, fireAt: at(19, 8) },
+          { item: eggs, fireAt: at(19, 19) },
+        ],
+        settings({ frequency: "twice-daily" }),
+        { now }
+      );
+      expect(slots.map((s) => s.fireAt)).toEqual([at(19, 9), at(19, 18)]);
+    });
+
+    it("keeps a reminder's own time once today's digest has gone out", () => {
+      const slots = planReminderSlots([{ item: milk, fireAt: at(18, 13) }], settings(), {
+        now: at(18, 10),
+      });
+      expect(slots).toEqual([{ fireAt: at(18, 13), items: [milk] }]);
+    });
+
+    it("holds realtime reminders past quiet hours", () => {
+      const slots = planReminderSlots(
+        [
+          { item: milk, fireAt: at(18, 23) },
+          { item: eggs, fireAt: at(19, 7) },
+        ],
+        settings({ frequency: "realtime" }),
+        { now }
+      );
+      expect(slots).toEqual([{ fireAt: at(19, 7), items: [milk, eggs] }]);
+    });
+
+    it("keeps the soonest slots within the limit", () => {
+      const occurrences = [20, 19, 21].map((day) => ({ item: milk, fireAt: at(day, 13) }));
+      const slots = planReminderSlots(occurrences, settings(), { now, limit: 2 });
+      expect(slots.map((s) => s.fireAt)).toEqual([at(19, 9), at(20, 9)]);
+    });
+  });
+
+  describe("splitReminderIdsAtLimit", () => {
+    const reminder = (id: string, day: number) => ({ item: { id }, fireAt: at(day, 13) });
+    const occurrences = [
+      reminder("milk:2026-10-17", 17),
+      reminder("milk:2026-10-19", 19),
+      reminder("eggs:2026-10-20", 20),
+      reminder("milk:2026-10-20", 20),
+    ];
+    const planned = planReminderSlots(occurrences, settings(), { now, limit: Infinity });
+
+    it("leaves the reminders past the limit to the server", () => {
+      expect(splitReminderIdsAtLimit(occurrences, planned, 1)).toEqual({
+        local: ["milk:2026-10-17", "milk:2026-10-19"],
+        overflow: ["eggs:2026-10-20", "milk:2026-10-20"],
+      });
+    });
+
+    it("keeps everything local within the limit", () => {
+      expect(splitReminderIdsAtLimit(occurrences, planned, 64).overflow).toEqual([]);
+      expect(splitReminderIdsAtLimit(occurrences, planned, 0)).toEqual({
+        local: ["milk:2026-10-17"],
+        overflow: ["milk:2026-10-19", "eggs:2026-10-20", "milk:2026-10-20"],
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  adaptDigestSettings,
+  emptyNotificationPattern,
+  expiryCheckDeliveryTime,
+  expiryCheckLookaheadDays,
+  learnedSendTime,
+  markNotificationIgnored,
+  NotificationInteraction,
+  recordNotificationInteraction,
+  sanitizeNotificationPattern,
+  shouldReduceFrequency,
+} from "../notificationPattern";
+import type { UserNotificationPattern } from "../smartNotificationService";
+
+describe("notificationPattern", () => {
+  const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute);
+  const quietHours = { enabled: true, start: "22:00", end: "07:00" };
+  const settings = {
+    frequency: "twice-daily" as const,
+    digestTimes: ["09:00", "18:00"],
+    quietHours,
+    adaptiveTiming: true,
+  };
+
+  const learn = (
+    kinds: NotificationInteraction["kind"][],
+    hour = 19
+  ): UserNotificationPattern =>
+    kinds.reduce(
+      (pattern, kind, i) =>
+        recordNotificationInteraction(pattern, {
+          kind,
+          at: at(10 + i, hour, 30),
+          sentAt: at(10 + i, hour, 0),
+          type: "item_expiry",
+        }),
+      emptyNotificationPattern("u1")
+    );
+
+  describe("recordNotificationInteraction", () => {
+    it("learns the hour responses come in once there are enough", () => {
+      expect(learnedSendTime(learn(["open", "action", "open", "action"]))).toBeNull();
+
+      const pattern = learn(["open", "action", "open", "action", "action"]);
+      expect(learnedSendTime(pattern)).toBe("19:00");
+      expect(pattern.avgResponseTime).toBeCloseTo(30);
+      expect(pattern.preferredNotificationTypes).toEqual(["item_expiry"]);
+    });
+
+    it("tracks how often reminders are acted on and dismissed", () => {
+      const pattern = learn(["action", "dismiss", "dismiss", "dismiss"]);
+      expect(pattern.samples).toBe(4);
+      expect(pattern.actionTakenRate).toBeCloseTo(0.25);
+      expect(pattern.dismissalRate).toBeCloseTo(0.75);
+    });
+  });
+
+  describe("shouldReduceFrequency", () => {
+    it("holds back until there are enough responses", () => {
+      expect(shouldReduceFrequency(learn(["dismiss", "dismiss"]))).toBe(false);
+      expect(shouldReduceFrequency(learn(Array(6).fill("dismiss")))).toBe(true);
+      expect(shouldReduceFrequency(learn(["action", "action", "dismiss", "dismiss", "dismiss"])))
+        .toBe(false);
+    });
+  });
+
+  describe("adaptDigestSettings", () => {
+    it("moves the closest digest to the learned time", () => {
+      const pattern = learn(Array(5).fill("open"));
+      expect(adaptDigestSettings(settings, pattern)).toEqual({
+        frequency: "twice-daily",
+        digestTimes: ["09:00", "19:00"],
+        quietHours,
+      });
+      expect(adaptDigestSettings({ ...settings, frequency: "daily" }, pattern).digestTimes).toEqual([
+        "19:00",
+      ]);
+    });
+
+    it("sends one daily digest to users who keep dismissing", () => {
+      const adapted = adaptDigestSettings(
+        { ...settings, frequency: "realtime" },
+        learn(Array(6).fill("dismiss"))
+      );
+      expect(adapted.frequency).toBe("daily");
+    });
+
+    it("changes nothing when turned off or still learning", () => {
+      const pattern = learn(Array(6).fill("dismiss"));
+      const off = adaptDigestSettings({ ...settings, adaptiveTiming: false }, pattern);
+      expect(off).toEqual({ frequency: "twice-daily", digestTimes: ["09:00", "18:00"], quietHours });
+      expect(adaptDigestSettings(settings, learn(["open"])).digestTimes).toEqual([
+        "09:00",
+        "18:00",
+      ]);
+    });
+  });
+
+  describe("daily expiry check", () => {
+    const pattern = learn(Array(5).fill("open"));
+
+    it("waits for the learned time when it is still ahead today", () => {
+      expect(expiryCheckDeliveryTime(at(18, 12), settings, pattern)).toEqual(at(18, 19));
+      expect(expiryCheckDeliveryTime(at(18, 20), settings, pattern)).toEqual(at(18, 20));
+      expect(expiryCheckDeliveryTime(at(18, 23), settings, emptyNotificationPattern())).toEqual(
+        at(19, 7)
+      );
+    });
+
+    it("looks less far ahead for users who keep dismissing", () => {
+      expect(expiryCheckLookaheadDays(settings, pattern)).toBe(3);
+      expect(expiryCheckLookaheadDays(settings, learn(Array(6).fill("dismiss")))).toBe(1);
+    });
+  });
+
+  it("counts an ignored notification once", () => {
+    const once = markNotificationIgnored(emptyNotificationPattern(), "n1");
+    expect(once?.ignoredNotificationIds).toEqual(["n1"]);
+    expect(markNotificationIgnored(once!, "n1")).toBeNull();
+  });
+
+  it("restores a stored pattern", () => {
+    const pattern = learn(Array(5).fill("open"));
+    expect(sanitizeNotificationPattern(JSON.parse(JSON.stringify(pattern)))).toEqual(pattern);
+    expect(sanitizeNotificationPattern({ dismissalRate: 4, responseHours: "x" })).toEqual({
+      ...emptyNotificationPattern(),
+      dismissalRate: 1,
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { FoodItem } from "@/lib/supabase";
+import { remoteFoodItemMutations } from "@/services/foodItemsRemote";
+
+import {
+  differingConflictFields,
+  localConflictRow,
+  mergeConflictFields,
+  offlineSyncService,
+  projectQueuedItem,
+  QueuedMutation,
+  resolveQueuedMutation,
+  SYNC_STRATEGY_STORAGE_KEY,
+  SyncConflict,
+} from "../offlineSyncService";
+
+const mockResync = jest.fn();
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+jest.mock("@react-native-community/netinfo", () =>
+  require("@react-native-community/netinfo/jest/netinfo-mock.js")
+);
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    auth: {
+      getSession: () =>
+        Promise.resolve({ data: { session: { user: { id: "u1" } } }, error: null }),
+    },
+  },
+}));
+
+jest.mock("@/services/foodItemsRemote", () => ({
+  remoteFoodItemMutations: {
+    fetchItem: jest.fn(),
+    addItem: jest.fn(),
+    updateItem: jest.fn(),
+    deleteItem: jest.fn(),
+    logUsage: jest.fn(),
+    batchDeleteItems: jest.fn(),
+  },
+}));
+
+jest.mock("@/services/inventoryRealtimeService", () => ({
+  requestInventoryResync: () => mockResync(),
+}));
+
+function row(overrides: Partial<FoodItem> = {}): FoodItem {
+  return {
+    id: "item-1",
+    user_id: "u1",
+    name: "Milk",
+    quantity: 2,
+    location: "fridge",
+    expiry_date: "2026-10-20",
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function queued(mutation: QueuedMutation["mutation"], base: FoodItem | null = row()) {
+  return { id: "q1", userId: "u1", queuedAt: "2026-10-18T00:00:00.000Z", mutation, base };
+}
+
+const mockRemote = remoteFoodItemMutations as unknown as Record<
+  keyof typeof remoteFoodItemMutations,
+  jest.Mock
+>;
+
+const offline = () => Promise.reject(new TypeError("Network request failed"));
+
+describe("offlineSyncService", () => {
+  describe("resolveQueuedMutation", () => {
+    const edited = row({ expiry_date: "2026-10-25", updated_at: "2026-10-02T00:00:00.000Z" });
+    const update = queued({
+      kind: "updateItem",
+      itemId: "item-1",
+      updates: { expiry_date: "2026-10-22", notes: "top shelf" },
+    });
+
+    it("applies changes to rows nobody else touched", () => {
+      expect(resolveQueuedMutation(update, row(), "manual")).toEqual({
+        action: "apply",
+        mutation: update.mutation,
+      });
+    });
+
+    it("honors each strategy when the same field changed on both sides", () => {
+      expect(resolveQueuedMutation(update, edited, "local_wins").action).toBe("apply");
+      expect(resolveQueuedMutation(update, edited, "remote_wins").action).toBe("drop");
+      expect(resolveQueuedMutation(update, edited, "manual").action).toBe("conflict");
+      expect(resolveQueuedMutation(update, edited, "merge")).toEqual({
+        action: "apply",
+        mutation: { ...update.mutation, updates: { notes: "top shelf" } },
+      });
+    });
+
+    it("treats usage as additive and drops changes to rows that are gone", () => {
+      const usage = queued({ kind: "logUsage", itemId: "item-1", status: "used", quantity: 2 });
+      const partlyUsed = row({ quantity: 1, updated_at: "2026-10-02T00:00:00.000Z" });
+      expect(resolveQueuedMutation(usage, partlyUsed, "merge")).toEqual({
+        action: "apply",
+        mutation: { ...usage.mutation, quantity: 1 },
+      });
+      expect(resolveQueuedMutation(usage, null, "local_wins").action).toBe("drop");
+    });
+  });
+
+  it("projects queued changes over the last server copy", () => {
+    const queue = [
+      queued({ kind: "updateItem", itemId: "item-1", updates: { notes: "opened" } }),
+      queued({ kind: "logUsage", itemId: "item-1", status: "used", quantity: 1 }),
+    ];
+    expect(projectQueuedItem("item-1", row(), queue)).toMatchObject({ quantity: 1, notes: "opened" });
+    expect(
+      projectQueuedItem("item-1", row(), [...queue, queued({ kind: "deleteItem", itemId: "item-1" })])
+    ).toBeNull();
+  });
+
+  describe("conflict fields", () => {
+    const conflict = (mutation: SyncConflict["mutation"], local: FoodItem | null) => ({
+      id: "c1",
+      itemId: "item-1",
+      itemName: "Milk",
+      mutation,
+      base: row(),
+      local,
+      remote: row({ quantity: 3, expiry_date: "2026-10-25" }),
+      reason: "remote_changed" as const,
+      detectedAt: "2026-10-18T00:00:00.000Z",
+    });
+    const edit = conflict(
+      {
+        kind: "updateItem",
+        itemId: "item-1",
+        updates: { quantity: 1, expiry_date: "2026-10-22", notes: "opened" },
+      },
+      row({ quantity: 1, expiry_date: "2026-10-22", notes: "opened" })
+    );
+
+    it("builds the merged record from per-field picks", () => {
+      expect(differingConflictFields(edit)).toEqual(["quantity", "expiry_date", "notes"]);
+      expect(mergeConflictFields(edit, { expiry_date: "remote" })).toEqual({
+        quantity: 1,
+        notes: "opened",
+      });
+      expect(
+        mergeConflictFields(edit, { quantity: "remote", expiry_date: "remote", notes: "remote" })
+      ).toEqual({});
+    });
+
+    it("leaves fields this device never changed on the server's value", () => {
+      const notesOnly = conflict(
+        { kind: "updateItem", itemId: "item-1", updates: { notes: "opened" } },
+        row({ notes: "opened" })
+      );
+      expect(differingConflictFields(notesOnly)).toEqual(["notes"]);
+      expect(mergeConflictFields(notesOnly, {})).toEqual({ notes: "opened" });
+    });
+
+    it("shows held usage taken from the server's quantity and never writes it over", () => {
+      const usage = conflict(
+        { kind: "logUsage", itemId: "item-1", status: "used", quantity: 1 },
+        row({ quantity: 1 })
+      );
+      expect(localConflictRow(usage)).toMatchObject({ quantity: 2, expiry_date: "2026-10-25" });
+      expect(differingConflictFields(usage)).toEqual(["quantity"]);
+      expect(mergeConflictFields(usage, {})).toEqual({});
+    });
+  });
+
+  describe("queue", () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+      Object.values(mockRemote).forEach((fn) => fn.mockReset());
+      mockResync.mockReset();
+    });
+
+    it("queues mutations while offline and replays them in order", async () => {
+      await offlineSyncService.rememberItems([row()]);
+
+      const added = await offlineSyncService.perform(
+        [{ kind: "addItem", itemId: "", item: { name: "Eggs", quantity: 6, location: "fridge" } }],
+        offline
+      );
+      const localId = added.queued ? added.items[0]!.id : "";
+      expect(localId).toMatch(/^local-/);
+      await offlineSyncService.perform(
+        [{ kind: "updateItem", itemId: localId, updates: { quantity: 4 } }],
+        offline
+      );
+      const online = jest.fn();
+      await offlineSyncService.perform(
+        [{ kind: "logUsage", itemId: "item-1", status: "used", quantity: 1 }],
+        online
+      );
+      // Earlier changes are still queued, so this one waits behind them.
+      expect(online).not.toHaveBeenCalled();
+      expect(await offlineSyncService.pendingCount("u1")).toBe(3);
+
+      mockRemote.addItem.mockResolvedValue(row({ id: "eggs-1", name: "Eggs", quantity: 6 }));
+      mockRemote.fetchItem.mockImplementation((id: string) =>
+        Promise.resolve(id === "eggs-1" ? row({ id: "eggs-1", name: "Eggs", quantity: 6 }) : row())
+      );
+      mockRemote.updateItem.mockResolvedValue(row({ id: "eggs-1", quantity: 4 }));
+      mockRemote.logUsage.mockResolvedValue(undefined);
+
+      await offlineSyncService.flush();
+
+      expect(mockRemote.updateItem).toHaveBeenCalledWith("eggs-1", { quantity: 4 });
+      expect(mockRemote.logUsage).toHaveBeenCalledWith("item-1", "used", 1);
+      expect(await offlineSyncService.pendingCount()).toBe(0);
+      expect(mockResync).toHaveBeenCalled();
+    });
+
+    it("keeps manual conflicts in the conflict list until dismissed", async () => {
+      await AsyncStorage.setItem(SYNC_STRATEGY_STORAGE_KEY, "manual");
+      await offlineSyncService.rememberItems([row()]);
+      await offlineSyncService.perform(
+        [{ kind: "updateItem", itemId: "item-1", updates: { expiry_date: "2026-10-22" } }],
+        offline
+      );
+      const remote = row({ expiry_date: "2026-10-25", updated_at: "2026-10-02T00:00:00.000Z" });
+      mockRemote.fetchItem.mockResolvedValue(remote);
+
+      await offlineSyncService.flush();
+
+      expect(mockRemote.updateItem).not.toHaveBeenCalled();
+      const [conflict] = await offlineSyncService.getConflicts();
+      expect(conflict).toMatchObject({
+        itemId: "item-1",
+        reason: "remote_changed",
+        local: { expiry_date: "2026-10-22" },
+        remote,
+      });
+      await offlineSyncService.dismissConflict(conflict.id);
+      expect(await offlineSyncService.getConflicts()).toEqual([]);
+    });
+
+    it("stops at the first network failure and keeps the rest queued", async () => {
+      await offlineSyncService.rememberItems([row()]);
+      await offlineSyncService.perform([{ kind: "deleteItem", itemId: "item-1" }], offline);
+      mockRemote.fetchItem.mockRejectedValue(new TypeError("Network request failed"));
+
+      await offlineSyncService.flush();
+
+      expect(await offlineSyncService.pendingCount()).toBe(1);
+      expect(await offlineSyncService.getConflicts()).toEqual([]);
+    });
+  });
+});
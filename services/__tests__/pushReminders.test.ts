@@ -0,0 +1,140 @@
+import type { FoodItem } from "@/lib/supabase";
+import { toLocalYmd } from "@/utils/localDate";
+import {
+  addDays,
+  dueReminders,
+  groupedBody,
+  PushToken,
+  recipientItems,
+  ReminderItem,
+  remindsOn,
+  singleItemBody,
+} from "../../supabase/functions/send-expiry-reminders/reminders";
+import { calculateItemReminderOccurrences } from "../itemExpiryReminderSchedule";
+
+// The push service works out reminder days on its own; they must be the days the
+// app schedules locally, or devices would get a reminder twice or not at all.
+describe("send-expiry-reminders", () => {
+  const TODAY = "2026-10-18";
+
+  const reminderItem = (overrides: Partial<ReminderItem> = {}): ReminderItem => ({
+    id: "milk",
+    user_id: "u1",
+    household_id: null,
+    name: "milk",
+    expiry_date: "2026-10-25",
+    expiry_kind: null,
+    notification_time: "13:00",
+    notification_reminder_days: 7,
+    notification_repeat: "none",
+    ...overrides,
+  });
+
+  describe("remindsOn", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2026, 9, 18, 8, 0));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const localDays = (item: ReminderItem): string[] =>
+      calculateItemReminderOccurrences(
+        { ...item, quantity: 1, location: "fridge", notifications_enabled: true } as FoodItem,
+        new Date(2026, 9, 18, 0, 0)
+      ).map(toLocalYmd);
+
+    const serverDays = (item: ReminderItem): string[] => {
+      const days: string[] = [];
+      for (let day = TODAY; day <= item.expiry_date; day = addDays(day, 1)) {
+        if (remindsOn(item, day, TODAY)) days.push(day);
+      }
+      return days;
+    };
+
+    const repeats = ["none", "daily", "weekly", "monthly", null, "yearly"];
+    const reminderDays = [1, 3, 7, 40, null];
+    const expiries = ["2026-10-19", "2026-10-25", "2026-11-20", "2027-01-31"];
+
+    it.each(repeats)("matches the app's schedule with %s repeat", (repeat) => {
+      for (const days of reminderDays) {
+        for (const expiry of expiries) {
+          const item = reminderItem({
+            expiry_date: expiry,
+            notification_reminder_days: days,
+            notification_repeat: repeat,
+          });
+          expect({ days, expiry, on: serverDays(item) }).toEqual({
+            days,
+            expiry,
+            on: localDays(item),
+          });
+        }
+      }
+    });
+  });
+
+  describe("dueReminders", () => {
+    const token: PushToken = {
+      token: "t1",
+      user_id: "u1",
+      time_zone: "UTC",
+      quiet_hours_start: "22:00",
+      quiet_hours_end: "07:00",
+      local_reminder_keys: ["eggs:2026-10-18"],
+    };
+    const milk = reminderItem({ expiry_date: "2026-10-25" });
+    const eggs = reminderItem({ id: "eggs", name: "eggs", expiry_date: "2026-10-25" });
+
+    it("sends what's due and leaves the device's own reminders to it", () => {
+      const due = dueReminders(token, [milk, eggs], new Set(), new Date("2026-10-18T14:00Z"));
+      expect(due).toEqual([{ item: milk, remindOn: TODAY }]);
+    });
+
+    it("waits for the reminder time and skips what was already sent", () => {
+      expect(dueReminders(token, [milk], new Set(), new Date("2026-10-18T12:00Z"))).toEqual(
+        []
+      );
+      expect(
+        dueReminders(token, [milk], new Set(["t1:milk:2026-10-18"]), new Date("2026-10-18T14:00Z"))
+      ).toEqual([]);
+    });
+
+    it("sends a reminder quiet hours held back the morning after", () => {
+      const late = { ...milk, notification_time: "23:00" };
+      expect(dueReminders(token, [late], new Set(), new Date("2026-10-19T02:00Z"))).toEqual([]);
+      expect(dueReminders(token, [late], new Set(), new Date("2026-10-19T07:00Z"))).toEqual([
+        { item: late, remindOn: TODAY },
+      ]);
+    });
+  });
+
+  describe("recipientItems", () => {
+    it("includes the household's shared items once and no one else's", () => {
+      const own = reminderItem({ household_id: "h1" });
+      const shared = reminderItem({ id: "eggs", user_id: "u2", household_id: "h1" });
+      const other = reminderItem({ id: "jam", user_id: "u3", household_id: "h2" });
+      expect(recipientItems("u1", "h1", [own, shared, other, own])).toEqual([own, shared]);
+      expect(recipientItems("u1", undefined, [own, shared, other])).toEqual([own]);
+    });
+  });
+
+  describe("message text", () => {
+    it("words a single reminder like the app", () => {
+      expect(singleItemBody(reminderItem({ expiry_date: "2026-10-19" }), TODAY)).toBe(
+        "Expires tomorrow · October 19, 2026"
+      );
+      expect(
+        singleItemBody(reminderItem({ expiry_kind: "best_before" }), TODAY)
+      ).toBe("Best before in 7 days · October 25, 2026");
+    });
+
+    it("names the first items of a digest", () => {
+      const names = ["milk", "eggs", "bread"].map((name) => reminderItem({ name }));
+      expect(groupedBody(names.slice(0, 2))).toBe("Milk and Eggs need attention.");
+      expect(groupedBody(names)).toBe("Milk, Eggs, and 1 more item need attention.");
+    });
+  });
+});
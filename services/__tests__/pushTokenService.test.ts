@@ -0,0 +1,96 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  PUSH_REGISTRATION_STORAGE_KEY,
+  PUSH_TOKEN_STORAGE_KEY,
+  pushTokenService,
+} from "../pushTokenService";
+
+const mockRpc = jest.fn();
+const mockUserId = jest.fn();
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+jest.mock("expo-notifications", () => ({
+  getPermissionsAsync: () => Promise.resolve({ status: "granted" }),
+  getExpoPushTokenAsync: () => Promise.resolve({ data: "ExponentPushToken[abc]" }),
+}));
+
+jest.mock("expo-constants", () => ({
+  expoConfig: { extra: { eas: { projectId: "project-1" } } },
+}));
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    auth: {
+      getSession: () =>
+        Promise.resolve({ data: { session: { user: { id: mockUserId() } } } }),
+    },
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: () => ({ delete: () => ({ eq: () => Promise.resolve({ error: null }) }) }),
+  },
+}));
+
+jest.mock("../smartNotificationService", () => ({
+  loadNotificationSettings: () =>
+    Promise.resolve({ quietHours: { enabled: true, start: "22:00", end: "07:00" } }),
+}));
+
+describe("pushTokenService.register", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockRpc.mockReset().mockResolvedValue({ error: null });
+    mockUserId.mockReset().mockReturnValue("u1");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends the device's reminder keys with its token", async () => {
+    await pushTokenService.register(["milk:2026-10-20", "eggs:2026-10-19"]);
+    expect(mockRpc).toHaveBeenCalledWith(
+      "register_push_token",
+      expect.objectContaining({
+        p_token: "ExponentPushToken[abc]",
+        p_quiet_hours_start: "22:00",
+        p_quiet_hours_end: "07:00",
+        p_local_reminder_keys: ["eggs:2026-10-19", "milk:2026-10-20"],
+      })
+    );
+    expect(await AsyncStorage.getItem(PUSH_TOKEN_STORAGE_KEY)).toBe("ExponentPushToken[abc]");
+  });
+
+  it("skips the request while nothing has changed", async () => {
+    await pushTokenService.register(["milk:2026-10-20", "eggs:2026-10-19"]);
+    await pushTokenService.register(["eggs:2026-10-19", "milk:2026-10-20"]);
+    await pushTokenService.register();
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+
+    await pushTokenService.register(["milk:2026-10-20"]);
+    expect(mockRpc).toHaveBeenCalledTimes(2);
+  });
+
+  it("registers again for another account on the device", async () => {
+    await pushTokenService.register(["milk:2026-10-20"]);
+    mockUserId.mockReturnValue("u2");
+    await pushTokenService.register();
+    expect(mockRpc).toHaveBeenCalledTimes(2);
+    expect(mockRpc.mock.calls[1][1]).toMatchObject({ p_local_reminder_keys: null });
+  });
+
+  it("sends again after a failed or removed registration", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockRpc.mockResolvedValueOnce({ error: new Error("boom") });
+    await pushTokenService.register(["milk:2026-10-20"]);
+    await pushTokenService.register(["milk:2026-10-20"]);
+    expect(mockRpc).toHaveBeenCalledTimes(2);
+
+    await pushTokenService.unregister();
+    expect(await AsyncStorage.getItem(PUSH_REGISTRATION_STORAGE_KEY)).toBeNull();
+    await pushTokenService.register(["milk:2026-10-20"]);
+    expect(mockRpc).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,232 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  SHOPPING_LIST_STORAGE_KEY,
+  loadPendingGroceryListItems,
+} from "../groceryListStorage";
+import {
+  SHOPPING_LIST_MIGRATED_STORAGE_KEY,
+  SHOPPING_LIST_PENDING_STORAGE_KEY,
+  shoppingListMigratedStorageKey,
+  shoppingListRowToStored,
+  shoppingListService,
+} from "../shoppingListService";
+
+const mockUpsert = jest.fn();
+const mockSelectOrder = jest.fn();
+const mockInsert = jest.fn();
+const mockUpdate = jest.fn();
+const mockUserId = jest.fn();
+
+const offline = { error: new Error("Network request failed") };
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    auth: {
+      getUser: () =>
+        Promise.resolve({ data: { user: { id: mockUserId() } }, error: null }),
+    },
+    from: () => ({
+      upsert: (...args: unknown[]) => mockUpsert(...args),
+      select: () => ({ order: () => mockSelectOrder() }),
+      insert: (...args: unknown[]) => ({
+        select: () => ({ single: () => mockInsert(...args) }),
+      }),
+      update: (...args: unknown[]) => ({
+        eq: () => ({ select: () => ({ single: () => mockUpdate(...args) }) }),
+      }),
+    }),
+  },
+}));
+
+jest.mock("@/services/householdService", () => ({
+  canEditHouseholdInventory: (role: string | null | undefined) => role !== "viewer",
+  householdService: {
+    getMembership: () => Promise.resolve(null),
+  },
+}));
+
+const row = {
+  id: "6f1c1c1e-8a8b-4c5e-9d0a-2b6f7e8d9c01",
+  user_id: "u1",
+  household_id: null,
+  client_id: "manual-1",
+  name: "Milk",
+  category: "Dairy",
+  quantity: 2,
+  unit: "L",
+  status: "list" as const,
+  priority: "high" as const,
+  notes: null,
+  added_at: "2026-10-01T10:00:00.000Z",
+  created_at: "2026-10-01T10:00:00.000Z",
+  updated_at: "2026-10-01T10:00:00.000Z",
+};
+
+describe("shoppingListService", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockUpsert.mockReset().mockResolvedValue({ error: null });
+    mockSelectOrder.mockReset().mockResolvedValue({ data: [row], error: null });
+    mockInsert.mockReset().mockResolvedValue({ data: row, error: null });
+    mockUpdate.mockReset().mockResolvedValue({ data: row, error: null });
+    mockUserId.mockReset().mockReturnValue("u1");
+  });
+
+  it("maps cloud rows to stored grocery items", () => {
+    expect(shoppingListRowToStored(row)).toEqual({
+      id: row.id,
+      name: "Milk",
+      category: "Dairy",
+      quantity: 2,
+      unit: "L",
+      status: "list",
+      priority: "high",
+      completed: false,
+      addedDate: row.added_at,
+      notes: undefined,
+    });
+  });
+
+  it("uploads the local list once per account", async () => {
+    await AsyncStorage.setItem(
+      SHOPPING_LIST_STORAGE_KEY,
+      JSON.stringify([
+        { id: "manual-1", name: "Milk", quantity: 2, status: "list" },
+        { id: "manual-2", name: "  ", quantity: 1 },
+      ])
+    );
+
+    expect(await shoppingListService.migrateLocalList("u1")).toBe(1);
+    expect(mockUpsert).toHaveBeenCalledTimes(1);
+    const [rows, options] = mockUpsert.mock.calls[0];
+    expect(rows).toEqual([
+      expect.objectContaining({ user_id: "u1", client_id: "manual-1", name: "Milk" }),
+    ]);
+    expect(options).toEqual({ onConflict: "user_id,client_id", ignoreDuplicates: true });
+    expect(await AsyncStorage.getItem(shoppingListMigratedStorageKey("u1"))).toBe("true");
+
+    // The list key now caches u1's cloud list; u2 still gets the original.
+    await AsyncStorage.setItem(SHOPPING_LIST_STORAGE_KEY, JSON.stringify([]));
+    expect(await shoppingListService.migrateLocalList("u1")).toBe(0);
+    expect(await shoppingListService.migrateLocalList("u2")).toBe(1);
+    expect(mockUpsert).toHaveBeenCalledTimes(2);
+    expect(mockUpsert.mock.calls[1][0]).toEqual([
+      expect.objectContaining({ user_id: "u2", client_id: "manual-1" }),
+    ]);
+  });
+
+  it("keeps decimal amounts to three places", async () => {
+    await AsyncStorage.setItem(
+      SHOPPING_LIST_STORAGE_KEY,
+      JSON.stringify([{ id: "manual-1", name: "Flour", quantity: 0.5, status: "list" }])
+    );
+    await shoppingListService.migrateLocalList("u1");
+    expect(mockUpsert.mock.calls[0][0]).toEqual([expect.objectContaining({ quantity: 0.5 })]);
+
+    await shoppingListService.updateItem(row.id, { quantity: 0.1 + 0.2 });
+    expect(mockUpdate).toHaveBeenCalledWith({ quantity: 0.3 });
+  });
+
+  it("treats the account an older build migrated as done", async () => {
+    await AsyncStorage.setItem(SHOPPING_LIST_MIGRATED_STORAGE_KEY, "u1");
+    await AsyncStorage.setItem(
+      SHOPPING_LIST_STORAGE_KEY,
+      JSON.stringify([{ id: row.id, name: "Milk", quantity: 2 }])
+    );
+
+    expect(await shoppingListService.migrateLocalList("u1")).toBe(0);
+    // Other accounts find only a cloud cache, which isn't theirs to upload.
+    expect(await shoppingListService.migrateLocalList("u2")).toBe(0);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it("leaves the local list alone when the upload fails", async () => {
+    const local = [{ id: "manual-1", name: "Eggs", quantity: 12, status: "list" }];
+    await AsyncStorage.setItem(SHOPPING_LIST_STORAGE_KEY, JSON.stringify(local));
+    mockUpsert.mockResolvedValue(offline);
+
+    await expect(shoppingListService.getItems()).rejects.toThrow("Network request failed");
+    expect(await AsyncStorage.getItem(shoppingListMigratedStorageKey("u1"))).toBeNull();
+    expect(JSON.parse((await AsyncStorage.getItem(SHOPPING_LIST_STORAGE_KEY))!)).toEqual(local);
+
+    mockUpsert.mockResolvedValue({ error: null });
+    await shoppingListService.getItems();
+    expect(mockUpsert).toHaveBeenLastCalledWith(
+      [expect.objectContaining({ client_id: "manual-1", name: "Eggs" })],
+      expect.anything()
+    );
+    expect(await AsyncStorage.getItem(shoppingListMigratedStorageKey("u1"))).toBe("true");
+  });
+
+  it("mirrors the cloud list for loadPendingGroceryListItems", async () => {
+    await AsyncStorage.setItem(shoppingListMigratedStorageKey("u1"), "true");
+
+    await shoppingListService.getItems();
+    const pending = await loadPendingGroceryListItems();
+    expect(pending.map((it) => it.name)).toEqual(["Milk"]);
+  });
+
+  describe("offline changes", () => {
+    const bread = { id: "manual-9", name: "Bread", quantity: 1, status: "list" as const };
+
+    beforeEach(async () => {
+      await AsyncStorage.setItem(shoppingListMigratedStorageKey("u1"), "true");
+      await AsyncStorage.setItem(
+        SHOPPING_LIST_STORAGE_KEY,
+        JSON.stringify([shoppingListRowToStored(row)])
+      );
+    });
+
+    it("keeps an item added offline and uploads it on the next load", async () => {
+      mockInsert.mockResolvedValue(offline);
+
+      expect(await shoppingListService.addItem(bread)).toEqual(bread);
+      const cached = JSON.parse((await AsyncStorage.getItem(SHOPPING_LIST_STORAGE_KEY))!);
+      expect(cached.map((it: { name: string }) => it.name)).toEqual(["Bread", "Milk"]);
+
+      await shoppingListService.getItems();
+      expect(mockUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: "u1", client_id: "manual-9", name: "Bread" }),
+        { onConflict: "user_id,client_id", ignoreDuplicates: true }
+      );
+      expect(await AsyncStorage.getItem(SHOPPING_LIST_PENDING_STORAGE_KEY)).toBeNull();
+    });
+
+    it("keeps a check-off made offline, in order after earlier changes", async () => {
+      mockUpdate.mockResolvedValue(offline);
+
+      const updated = await shoppingListService.updateItem(row.id, { status: "bought" });
+      expect(updated).toMatchObject({ id: row.id, status: "bought", completed: true });
+
+      // Queued behind the first change rather than sent on its own; the retry it
+      // sets off is still offline.
+      await shoppingListService.updateItem(row.id, { quantity: 3 });
+      await expect(shoppingListService.flushPending()).rejects.toThrow(
+        "Network request failed"
+      );
+      expect(mockUpdate.mock.calls.map(([payload]) => payload)).toEqual([
+        { status: "bought" },
+        { status: "bought" },
+      ]);
+
+      mockUpdate.mockResolvedValue({ data: row, error: null });
+      await shoppingListService.getItems();
+      expect(mockUpdate.mock.calls.slice(2).map(([payload]) => payload)).toEqual([
+        { status: "bought" },
+        { quantity: 3 },
+      ]);
+      expect(await AsyncStorage.getItem(SHOPPING_LIST_PENDING_STORAGE_KEY)).toBeNull();
+    });
+
+    it("still rejects changes the server refuses", async () => {
+      mockInsert.mockResolvedValue({ error: new Error("permission denied") });
+      await expect(shoppingListService.addItem(bread)).rejects.toThrow("permission denied");
+      expect(await AsyncStorage.getItem(SHOPPING_LIST_PENDING_STORAGE_KEY)).toBeNull();
+    });
+  });
+});
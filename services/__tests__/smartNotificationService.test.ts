@@ -0,0 +1,165 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+
+import {
+  NOTIFICATION_SETTINGS_STORAGE_KEY,
+  smartNotificationService,
+} from "../smartNotificationService";
+
+const mockMarkLotUsed = jest.fn();
+const mockMarkItemWasted = jest.fn();
+const mockExtendExpiry = jest.fn();
+const mockCancelItemReminders = jest.fn();
+const mockRescheduleAll = jest.fn();
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+jest.mock("expo-notifications", () => ({
+  DEFAULT_ACTION_IDENTIFIER: "expo.modules.notifications.actions.DEFAULT",
+  SchedulableTriggerInputTypes: { DATE: "date", CALENDAR: "calendar" },
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve("new-id")),
+  dismissNotificationAsync: jest.fn(() => Promise.resolve()),
+  clearLastNotificationResponse: jest.fn(),
+  registerTaskAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("expo-task-manager", () => ({ defineTask: jest.fn() }));
+
+jest.mock("../notificationService", () => ({
+  NOTIFICATION_ACTION_TASK: "NOTIFICATION_ACTION_TASK",
+}));
+
+jest.mock("@/lib/supabase", () => ({
+  supabase: {
+    auth: { getSession: () => Promise.resolve({ data: { session: null } }) },
+  },
+}));
+
+jest.mock("@/services/foodItems", () => ({
+  foodItemsService: {
+    markLotUsed: (...args: unknown[]) => mockMarkLotUsed(...args),
+    markItemWasted: (...args: unknown[]) => mockMarkItemWasted(...args),
+    extendExpiry: (...args: unknown[]) => mockExtendExpiry(...args),
+  },
+}));
+
+jest.mock("../itemExpiryNotificationService", () => ({
+  cancelSingleItemReminderNotifications: (...args: unknown[]) =>
+    mockCancelItemReminders(...args),
+  rescheduleAllItemReminderNotificationsForUser: () => mockRescheduleAll(),
+}));
+
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+
+let responseCount = 0;
+
+/** A button press on a single-item reminder; each call is a new response. */
+function press(actionIdentifier: string): Notifications.NotificationResponse {
+  responseCount += 1;
+  return {
+    actionIdentifier,
+    notification: {
+      date: Date.now(),
+      request: {
+        identifier: `reminder-${responseCount}`,
+        content: {
+          title: "Milk",
+          body: "Expires tomorrow · October 19, 2026",
+          data: { type: "item_expiry", itemId: "milk", group: false },
+          categoryIdentifier: "EXPIRY_WARNING",
+        },
+      },
+    },
+  } as unknown as Notifications.NotificationResponse;
+}
+
+describe("smartNotificationService notification actions", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    schedule.mockClear();
+    mockMarkLotUsed.mockReset().mockResolvedValue(undefined);
+    mockMarkItemWasted.mockReset().mockResolvedValue(undefined);
+    mockExtendExpiry.mockReset().mockResolvedValue({});
+    mockCancelItemReminders.mockReset().mockResolvedValue(undefined);
+    mockRescheduleAll.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("marks the notified lot used and clears its reminders", async () => {
+    await smartNotificationService.handleNotificationResponse(press("MARK_USED"));
+    expect(mockMarkLotUsed).toHaveBeenCalledWith("milk");
+    expect(mockCancelItemReminders).toHaveBeenCalledWith("milk");
+    expect(mockRescheduleAll).toHaveBeenCalled();
+  });
+
+  it("logs the item as wasted", async () => {
+    await smartNotificationService.handleNotificationResponse(press("MARK_WASTED"));
+    expect(mockMarkItemWasted).toHaveBeenCalledWith("milk");
+    expect(mockCancelItemReminders).toHaveBeenCalledWith("milk");
+  });
+
+  it("extends the expiry by three days", async () => {
+    await smartNotificationService.handleNotificationResponse(press("EXTEND_EXPIRY"));
+    expect(mockExtendExpiry).toHaveBeenCalledWith("milk", 3);
+    expect(mockRescheduleAll).toHaveBeenCalled();
+  });
+
+  it("keeps the reminder and says so when the change fails", async () => {
+    mockMarkLotUsed.mockRejectedValue(new Error("Not enough in stock"));
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await smartNotificationService.handleNotificationResponse(press("MARK_USED"));
+
+    expect(mockCancelItemReminders).not.toHaveBeenCalled();
+    expect(mockRescheduleAll).not.toHaveBeenCalled();
+    expect(schedule).toHaveBeenCalledWith({
+      content: expect.objectContaining({
+        title: "Milk",
+        body: "Couldn't save that, try again. Expires tomorrow · October 19, 2026",
+        data: { type: "item_expiry", itemId: "milk", group: false },
+        categoryIdentifier: "EXPIRY_WARNING",
+      }),
+      trigger: null,
+    });
+  });
+
+  it("acts on a response once", async () => {
+    const response = press("MARK_WASTED");
+    await smartNotificationService.handleNotificationResponse(response);
+    await smartNotificationService.handleNotificationResponse(response);
+    expect(mockMarkItemWasted).toHaveBeenCalledTimes(1);
+  });
+
+  describe("snooze", () => {
+    it("shows the reminder again three hours later", async () => {
+      jest.useFakeTimers({ now: new Date(2026, 9, 18, 12, 0) });
+      await smartNotificationService.handleNotificationResponse(press("SNOOZE"));
+      expect(schedule).toHaveBeenCalledWith({
+        content: expect.objectContaining({
+          title: "Milk",
+          data: { type: "item_expiry", itemId: "milk", group: false, snoozed: true },
+        }),
+        trigger: { type: "date", date: new Date(2026, 9, 18, 15, 0) },
+      });
+    });
+
+    it("holds the reminder until quiet hours end", async () => {
+      await AsyncStorage.setItem(
+        NOTIFICATION_SETTINGS_STORAGE_KEY,
+        JSON.stringify({ quietHours: { enabled: true, start: "22:00", end: "07:00" } })
+      );
+      jest.useFakeTimers({ now: new Date(2026, 9, 18, 21, 0) });
+      await smartNotificationService.handleNotificationResponse(press("SNOOZE"));
+      expect(schedule.mock.calls[0][0].trigger).toEqual({
+        type: "date",
+        date: new Date(2026, 9, 19, 7, 0),
+      });
+    });
+  });
+});
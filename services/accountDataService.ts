@@ -1,6 +1,7 @@
 import { clearRememberMePreference } from "@/lib/authPreferences";
 import { supabase } from "@/lib/supabase";
 import { SHOPPING_LIST_STORAGE_KEY } from "@/services/groceryListStorage";
+import { householdService } from "@/services/householdService";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 async function clearFridgewiseAsyncStorage(): Promise<void> {
@@ -51,6 +52,7 @@ export async function purgeUserRemoteData(userId: string): Promise<void> {
   // Only tables that exist in this project’s Supabase schema. Optional tables are skipped on error.
   const tablesInOrder = [
     { name: "usage_logs", column: "user_id" as const },
+    { name: "shopping_list_items", column: "user_id" as const },
     { name: "food_items", column: "user_id" as const },
   ];
 
@@ -105,6 +107,10 @@ async function deleteAuthLogin(): Promise<void> {
  * Full account teardown: app data, profile, auth login, local storage, sign out.
  */
 export async function deleteUserAccount(userId: string): Promise<void> {
+  // Leave first so ownership passes on and shared rows are detached before purge.
+  await householdService.leaveHousehold().catch((e) => {
+    console.warn("leave household before account deletion:", e);
+  });
   await purgeUserRemoteData(userId);
   const { error: profileErr } = await supabase
     .from("user_profiles")
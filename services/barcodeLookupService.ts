@@ -0,0 +1,127 @@
+// services/barcodeLookupService.ts
+import {
+  loadBarcodeMappings,
+  saveBarcodeMapping,
+} from "@/lib/barcodeMappingsStorage";
+import {
+  FOOD_CATEGORY_LABELS,
+  categoryLabelForInsights,
+  normalizeLegacyInventoryCategory,
+} from "@/lib/foodCategories";
+import { PRODUCT_CATALOG } from "@/lib/productCatalog";
+import type { FoodLocation } from "@/lib/supabase";
+
+export type BarcodeProduct = {
+  /** Normalized GTIN the product was found under. */
+  barcode: string;
+  name: string;
+  /** Inventory chip label (`Dairy`, `Snacks`, …); empty when unknown. */
+  category: string;
+  unit: string | null;
+  shelfLifeDays: number | null;
+  location: FoodLocation | null;
+  /** `user` = remembered from an earlier save on this device; wins over the catalog. */
+  source: "user" | "catalog";
+};
+
+export type BarcodeProductInput = {
+  name: string;
+  category?: string;
+  unit?: string;
+  shelfLifeDays?: number | null;
+  location?: FoodLocation;
+};
+
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1).split("").reverse();
+  const sum = body.reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Canonical key for an EAN/UPC scan: UPC-A (12) and GTIN-14 with a leading zero
+ * become EAN-13, EAN-8 stays 8 digits. Returns null for anything that fails the
+ * GS1 check digit so a misread never gets remembered.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  let digits = raw.replace(/\D/g, "");
+  if (digits.length === 12) digits = `0${digits}`;
+  if (digits.length === 14 && digits.startsWith("0")) digits = digits.slice(1);
+  if (digits.length !== 8 && digits.length !== 13) return null;
+  return hasValidCheckDigit(digits) ? digits : null;
+}
+
+/** Map a catalog slug or free-text category onto the Add Item category chips. */
+export function inventoryCategoryForBarcode(raw: string | undefined): string {
+  const trimmed = (raw ?? "").trim();
+  if (!trimmed) return "";
+  const label = normalizeLegacyInventoryCategory(categoryLabelForInsights(trimmed));
+  return FOOD_CATEGORY_LABELS.includes(label) ? label : "Other";
+}
+
+export const barcodeLookupService = {
+  /** Remembered user mapping first, then the bundled catalog; null when neither knows the code. */
+  async lookup(rawBarcode: string): Promise<BarcodeProduct | null> {
+    const barcode = normalizeBarcode(rawBarcode);
+    if (!barcode) return null;
+
+    const mappings = await loadBarcodeMappings();
+    const mapped = mappings[barcode];
+    if (mapped?.name) {
+      return {
+        barcode,
+        name: mapped.name,
+        category: inventoryCategoryForBarcode(mapped.category),
+        unit: mapped.unit ?? null,
+        shelfLifeDays: mapped.shelfLifeDays ?? null,
+        location: mapped.location ?? null,
+        source: "user",
+      };
+    }
+
+    const product = PRODUCT_CATALOG[barcode];
+    if (!product) return null;
+    return {
+      barcode,
+      name: product.name,
+      category: inventoryCategoryForBarcode(product.category),
+      unit: product.unit,
+      shelfLifeDays: product.shelfLifeDays,
+      location: product.location,
+      source: "catalog",
+    };
+  },
+
+  /**
+   * Remember what the user saved for a scanned code so the next scan pre-fills
+   * instantly. Skipped when the values match the catalog entry unchanged.
+   */
+  async remember(rawBarcode: string, input: BarcodeProductInput): Promise<void> {
+    const barcode = normalizeBarcode(rawBarcode);
+    const name = input.name.trim();
+    if (!barcode || !name) return;
+
+    const product = PRODUCT_CATALOG[barcode];
+    if (
+      product &&
+      product.name === name &&
+      inventoryCategoryForBarcode(product.category) ===
+        inventoryCategoryForBarcode(input.category) &&
+      product.unit === input.unit &&
+      product.location === input.location
+    ) {
+      return;
+    }
+
+    await saveBarcodeMapping(barcode, {
+      name,
+      category: input.category?.trim() || undefined,
+      unit: input.unit?.trim() || undefined,
+      shelfLifeDays:
+        input.shelfLifeDays != null && input.shelfLifeDays > 0
+          ? Math.round(input.shelfLifeDays)
+          : undefined,
+      location: input.location,
+    });
+  },
+};
@@ -0,0 +1,140 @@
+// services/budgetService.ts
+import { categoryLabelForInsights } from "@/lib/foodCategories";
+import { GroceryBudget, supabase } from "@/lib/supabase";
+import {
+  canEditHouseholdInventory,
+  getInventoryScope,
+  householdService,
+  InventoryScope,
+  inventoryScopeFilter,
+} from "@/services/householdService";
+import { BudgetForecast, forecastBudget, Spend } from "@/utils/budgetForecast";
+import { MAX_PRICE, roundMoney } from "@/utils/itemPrice";
+
+type PricedRow = {
+  price: number | null;
+  currency: string | null;
+  category: string | null;
+};
+
+async function requireUserId(): Promise<string> {
+  const { data: userData, error: authError } = await supabase.auth.getUser();
+  if (authError) throw authError;
+  if (!userData.user) throw new Error("User not authenticated");
+  return userData.user.id;
+}
+
+async function fetchBudget(scope: InventoryScope): Promise<GroceryBudget | null> {
+  let query = supabase.from("grocery_budgets").select("*");
+  query = scope.householdId
+    ? query.eq("household_id", scope.householdId)
+    : query.eq("user_id", scope.userId).is("household_id", null);
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return (data as GroceryBudget | null) ?? null;
+}
+
+function toSpend(row: PricedRow, at: string): Spend {
+  return {
+    amount: Number(row.price),
+    currency: row.currency,
+    category: categoryLabelForInsights(row.category ?? ""),
+    at,
+  };
+}
+
+/**
+ * Priced purchases since the start of last month: items added to inventory and
+ * shopping entries bought but not put away yet (put-away entries are counted
+ * through the item they became).
+ */
+async function fetchSpends(scope: InventoryScope, today: Date): Promise<Spend[]> {
+  const since = new Date(today.getFullYear(), today.getMonth() - 1, 1).toISOString();
+  const scopeFilter = inventoryScopeFilter(scope);
+  const [items, bought] = await Promise.all([
+    supabase
+      .from("food_items")
+      .select("price, currency, category, created_at")
+      .eq(scopeFilter.column, scopeFilter.value)
+      .not("price", "is", null)
+      .gte("created_at", since),
+    supabase
+      .from("shopping_list_items")
+      .select("price, currency, category, bought_at")
+      .eq(scopeFilter.column, scopeFilter.value)
+      .eq("status", "bought")
+      .not("price", "is", null)
+      .gte("bought_at", since),
+  ]);
+  if (items.error) throw items.error;
+  if (bought.error) throw bought.error;
+
+  return [
+    ...((items.data ?? []) as (PricedRow & { created_at: string })[]).map((r) =>
+      toSpend(r, r.created_at)
+    ),
+    ...((bought.data ?? []) as (PricedRow & { bought_at: string })[]).map((r) =>
+      toSpend(r, r.bought_at)
+    ),
+  ];
+}
+
+export const budgetService = {
+  /** The signed-in user's budget (the household's when they belong to one). */
+  async getBudget(): Promise<GroceryBudget | null> {
+    return fetchBudget(await getInventoryScope(await requireUserId()));
+  },
+
+  async setBudget(monthlyAmount: number, currency: string): Promise<GroceryBudget> {
+    const amount = roundMoney(monthlyAmount);
+    if (!(amount > 0) || amount > MAX_PRICE) {
+      throw new Error(`Enter a budget between 0 and ${MAX_PRICE}.`);
+    }
+
+    const userId = await requireUserId();
+    const membership = await householdService.getMembership({ userId });
+    if (!canEditHouseholdInventory(membership?.role)) {
+      throw new Error("Viewers can't change this household's budget.");
+    }
+
+    const householdId = membership?.household.id ?? null;
+    const existing = await fetchBudget({ userId, householdId });
+    const fields = { monthly_amount: amount, currency };
+    const { data, error } = existing
+      ? await supabase
+          .from("grocery_budgets")
+          .update(fields)
+          .eq("id", existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from("grocery_budgets")
+          .insert({ ...fields, user_id: userId, household_id: householdId })
+          .select()
+          .single();
+
+    if (error) throw error;
+    return data as GroceryBudget;
+  },
+
+  /** Removes the signed-in user's budget (the household's when they belong to one). */
+  async removeBudget(): Promise<void> {
+    const budget = await budgetService.getBudget();
+    if (!budget) return;
+    const { error } = await supabase.from("grocery_budgets").delete().eq("id", budget.id);
+    if (error) throw error;
+  },
+
+  /** This month's spend against the budget and its month-end forecast; null without a budget. */
+  async loadForecast(userId: string, today = new Date()): Promise<BudgetForecast | null> {
+    const scope = await getInventoryScope(userId);
+    const budget = await fetchBudget(scope);
+    if (!budget) return null;
+    const spends = await fetchSpends(scope, today);
+    return forecastBudget(
+      { monthlyAmount: Number(budget.monthly_amount), currency: budget.currency },
+      spends,
+      today
+    );
+  },
+};
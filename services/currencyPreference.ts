@@ -0,0 +1,22 @@
+// services/currencyPreference.ts
+import { DEFAULT_CURRENCY } from "@/utils/itemPrice";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/** Currency the last price was entered in; new prices start in it. */
+export const PREFERRED_CURRENCY_STORAGE_KEY = "fridgewise_currency_v1";
+
+export async function loadPreferredCurrency(): Promise<string> {
+  try {
+    return (await AsyncStorage.getItem(PREFERRED_CURRENCY_STORAGE_KEY)) || DEFAULT_CURRENCY;
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+}
+
+export async function rememberPreferredCurrency(currency: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PREFERRED_CURRENCY_STORAGE_KEY, currency);
+  } catch (e) {
+    console.warn("currencyPreference: failed to save currency", e);
+  }
+}
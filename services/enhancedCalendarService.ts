@@ -15,6 +15,7 @@ import {
   memoizedGenerateDateIndicators,
   sortItems,
 } from "../utils/calendarEnhancedDataUtils";
+import { todayYmd } from "../utils/localDate";
 import { foodItemsService } from "./foodItems";
 
 // =============================================================================
@@ -398,8 +399,7 @@ export async function getTodayData(): Promise<{
   indicators: any[];
   statistics: import("../types/calendar").ExpiryStatistics;
 }> {
-  const today = new Date().toISOString().split("T")[0];
-  return enhancedCalendarService.getDateData(today);
+  return enhancedCalendarService.getDateData(todayYmd());
 }
 
 /**
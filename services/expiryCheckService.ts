@@ -1,22 +1,21 @@
-import { supabase } from "@/lib/supabase";
+import { FoodItem, supabase } from "@/lib/supabase";
 import { formatExpiry } from "@/utils/formatExpiry";
+import { todayYmd } from "@/utils/localDate";
+import { withEffectiveExpiry } from "@/utils/openedExpiry";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as BackgroundTask from "expo-background-task";
+import * as Notifications from "expo-notifications";
 import * as TaskManager from "expo-task-manager";
 import { clearLocalExpiryAlertsForCurrentUser } from "./itemExpiryNotificationService";
+import { MAX_PENDING_NOTIFICATIONS } from "./notificationDigestSchedule";
+import { expiryCheckDeliveryTime, expiryCheckLookaheadDays } from "./notificationPattern";
 import { EXPIRY_CHECK_TASK, scheduleNotification } from "./notificationService";
+import {
+  loadNotificationPattern,
+  loadNotificationSettings,
+} from "./smartNotificationService";
 
-// Define the food item type
-interface FoodItem {
-  id: string;
-  name: string;
-  expiry_date: string;
-  quantity: number;
-  user_id: string;
-  category: string;
-  location: string;
-  created_at: string;
-}
+type DatedFoodItem = FoodItem & { expiry_date: string };
 
 /**
  * Check for items that are expiring soon and schedule notifications if needed
@@ -34,35 +33,43 @@ export async function checkExpiringItems(
   }
 
   try {
-    // Get the current date
-    const today = new Date();
-
-    // Set the date for items expiring within 3 days
-    const threeDaysFromNow = new Date();
-    threeDaysFromNow.setDate(today.getDate() + 3);
-
-    // Query Supabase for items expiring within the next 3 days
-    const { data: expiringItems, error } = await supabase
+    const [notificationSettings, pattern] = await Promise.all([
+      loadNotificationSettings(),
+      loadNotificationPattern(),
+    ]);
+
+    // Items expiring within the next few local calendar days (fewer for users who
+    // mostly dismiss these alerts). Opened items are fetched whatever their printed
+    // date, since the after-opening window can end well before it.
+    const from = todayYmd();
+    const to = todayYmd(expiryCheckLookaheadDays(notificationSettings, pattern));
+    const { data: rows, error } = await supabase
       .from("food_items")
       .select("*")
       .eq("user_id", userId)
-      .lte("expiry_date", threeDaysFromNow.toISOString().split("T")[0])
-      .gte("expiry_date", today.toISOString().split("T")[0])
-      .order("expiry_date", { ascending: true });
+      .or(`opened_at.not.is.null,and(expiry_date.gte.${from},expiry_date.lte.${to})`);
 
     if (error) {
       console.error("Error fetching expiring items:", error);
       return false;
     }
 
+    const expiringItems = ((rows ?? []) as FoodItem[])
+      .map(withEffectiveExpiry)
+      .filter(
+        (item): item is DatedFoodItem =>
+          !!item.expiry_date && item.expiry_date >= from && item.expiry_date <= to
+      )
+      .sort((a, b) => a.expiry_date.localeCompare(b.expiry_date));
+
   // If there are no expiring items, return
   if (!expiringItems || expiringItems.length === 0) {
     return false;
   }
 
     // Group items by expiry date
-    const itemsByExpiryDate = expiringItems.reduce<Record<string, FoodItem[]>>(
-      (acc, item: FoodItem) => {
+    const itemsByExpiryDate = expiringItems.reduce<Record<string, DatedFoodItem[]>>(
+      (acc, item) => {
         const expiryDate = item.expiry_date;
         if (!acc[expiryDate]) {
           acc[expiryDate] = [];
@@ -73,10 +80,22 @@ export async function checkExpiringItems(
       {}
     );
 
+    // Alerts go out at the learned time if it is still ahead today, and wait out
+    // quiet hours.
+    const now = new Date();
+    const deliverAt = expiryCheckDeliveryTime(now, notificationSettings, pattern);
+    const trigger: Notifications.NotificationTriggerInput =
+      deliverAt.getTime() === now.getTime()
+        ? null
+        : { type: Notifications.SchedulableTriggerInputTypes.DATE, date: deliverAt };
+    let budget =
+      MAX_PENDING_NOTIFICATIONS - (await Notifications.getAllScheduledNotificationsAsync()).length;
+
     // Schedule notifications for each expiry date group
     for (const [expiryDate, items] of Object.entries(itemsByExpiryDate)) {
-      const expiryDateObj = new Date(expiryDate);
-      const formattedExpiry = formatExpiry(expiryDateObj.toISOString());
+      if (trigger && budget <= 0) break;
+
+      const formattedExpiry = formatExpiry(expiryDate);
 
       // Create a notification message based on the number of items
       let notificationTitle = "";
@@ -101,8 +120,10 @@ export async function checkExpiringItems(
           items: items.map((item: FoodItem) => item.id),
           expiryYmd: expiryDate,
         },
-        "expiry-alerts"
+        "expiry-alerts",
+        trigger
       );
+      budget -= 1;
     }
 
     return true;
@@ -1,11 +1,22 @@
 // services/foodItems.ts
-import { FoodItem, supabase, UsageLog } from "@/lib/supabase";
-import { normalizeFoodName } from "@/utils/normalizeFoodName";
+import { FoodItem, FoodLocation, supabase, UsageLog } from "@/lib/supabase";
+import {
+  ItemUsage,
+  NewFoodItem,
+  remoteFoodItemMutations,
+} from "@/services/foodItemsRemote";
+import { noteLocalInventoryWrite } from "@/services/inventoryRealtimeService";
+import {
+  offlineSyncService,
+  PerformOutcome,
+} from "@/services/offlineSyncService";
 import {
   assertNewItemQuantity,
   assertStoredQuantity,
-  assertUsageQuantity,
 } from "@/utils/quantityLimits";
+import { freezeUpdate, thawUpdate } from "@/utils/freezeThaw";
+import { parseYmdLocal, todayYmd, toLocalYmd } from "@/utils/localDate";
+import { planFifoUsage } from "@/utils/productLots";
 import {
   addUrgencyToItem,
   addUrgencyToItems,
@@ -14,26 +25,28 @@ import {
 
 export type FoodItemWithUrgency = FoodItem & { urgency: UrgencyInfo };
 
-let notificationMaintenanceQueue: Promise<void> = Promise.resolve();
-
-function enqueueNotificationMaintenance(
-  label: string,
-  task: () => Promise<void>
-): void {
-  notificationMaintenanceQueue = notificationMaintenanceQueue
-    .catch(() => {
-      // Keep the queue alive if an earlier maintenance task failed.
-    })
-    .then(task)
-    .catch((error) => {
-      console.warn(label, error);
-    });
+/** Row returned by a mutation that may have been queued for later sync. */
+function itemFromOutcome(outcome: PerformOutcome<FoodItem>): FoodItemWithUrgency {
+  if ("result" in outcome) {
+    void offlineSyncService.rememberItems([outcome.result]);
+    return addUrgencyToItem(outcome.result);
+  }
+  const row = outcome.items[0];
+  if (!row) throw new Error("Item not found");
+  return addUrgencyToItem(row);
+}
+
+/** Server rows read for display double as the base for offline conflict checks. */
+function rememberWithUrgency(rows: FoodItem[]): FoodItemWithUrgency[] {
+  void offlineSyncService.rememberItems(rows);
+  return addUrgencyToItems(rows);
 }
 
 export const foodItemsService = {
-  // Get all food items for the current user
+  // Get all food items for the current user. Household members also receive the
+  // household's shared rows (RLS, see the households migration).
   async getItems(
-    location?: "fridge" | "shelf"
+    location?: FoodLocation
   ): Promise<FoodItemWithUrgency[]> {
     let query = supabase
       .from("food_items")
@@ -49,46 +62,41 @@ export const foodItemsService = {
     if (error) throw error;
 
     // Add urgency information to each item
-    return addUrgencyToItems(data as FoodItem[]);
+    return rememberWithUrgency(data as FoodItem[]);
   },
 
   // Get items expiring soon
   async getExpiringItems(
     daysAhead: number = 7
   ): Promise<FoodItemWithUrgency[]> {
-    const today = new Date();
-    const futureDate = new Date();
-    futureDate.setDate(today.getDate() + daysAhead);
-
     const { data, error } = await supabase
       .from("food_items")
       .select("*")
       .gt("quantity", 0)
-      .gte("expiry_date", today.toISOString().split("T")[0])
-      .lte("expiry_date", futureDate.toISOString().split("T")[0])
+      .gte("expiry_date", todayYmd())
+      .lte("expiry_date", todayYmd(daysAhead))
       .order("expiry_date", { ascending: true });
 
     if (error) throw error;
 
     // Add urgency information to each item
-    return addUrgencyToItems(data as FoodItem[]);
+    return rememberWithUrgency(data as FoodItem[]);
   },
 
-  // Get expired items
+  // Get expired items (past a use-by date; best-before items are still usable)
   async getExpiredItems(): Promise<FoodItemWithUrgency[]> {
-    const today = new Date().toISOString().split("T")[0];
-
     const { data, error } = await supabase
       .from("food_items")
       .select("*")
       .gt("quantity", 0)
-      .lt("expiry_date", today)
+      .neq("expiry_kind", "best_before")
+      .lt("expiry_date", todayYmd())
       .order("expiry_date", { ascending: true });
 
     if (error) throw error;
 
     // Add urgency information to each item
-    return addUrgencyToItems(data as FoodItem[]);
+    return rememberWithUrgency(data as FoodItem[]);
   },
 
   // Get items grouped by expiry date for calendar view
@@ -112,6 +120,7 @@ export const foodItemsService = {
 
     const { data, error } = await query;
     if (error) throw error;
+    void offlineSyncService.rememberItems(data as FoodItem[]);
 
     // Group items by expiry date and add urgency information
     const itemsByDate: Record<string, FoodItemWithUrgency[]> = {};
@@ -128,30 +137,14 @@ export const foodItemsService = {
     return itemsByDate;
   },
 
-  // Add a new food item
-  async addItem(
-    item: Omit<FoodItem, "id" | "user_id" | "created_at" | "updated_at">
-  ): Promise<FoodItemWithUrgency> {
-    const { data: userData, error: authError } = await supabase.auth.getUser();
-    if (authError) throw authError;
-    if (!userData.user) throw new Error("User not authenticated");
-
+  // Add a new food item. Offline it is queued and returned with a local id.
+  async addItem(item: NewFoodItem): Promise<FoodItemWithUrgency> {
     assertNewItemQuantity(item.quantity);
-
-    const { data, error } = await supabase
-      .from("food_items")
-      .insert({
-        ...item,
-        user_id: userData.user.id,
-        normalized_name: normalizeFoodName(item.name ?? ""),
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    // Add urgency information to the returned item
-    return addUrgencyToItem(data as FoodItem);
+    const outcome = await offlineSyncService.perform(
+      [{ kind: "addItem", itemId: "", item }],
+      () => remoteFoodItemMutations.addItem(item)
+    );
+    return itemFromOutcome(outcome);
   },
 
   // Update a food item
@@ -159,74 +152,117 @@ export const foodItemsService = {
     id: string,
     updates: Partial<FoodItem>
   ): Promise<FoodItemWithUrgency> {
-    const payload: Partial<FoodItem> = { ...updates };
-    if (typeof updates.name === "string") {
-      payload.normalized_name = normalizeFoodName(updates.name);
-    }
-    const { data, error } = await supabase
-      .from("food_items")
-      .update(payload)
-      .eq("id", id)
-      .select()
-      .single();
+    const outcome = await offlineSyncService.perform(
+      [{ kind: "updateItem", itemId: id, updates }],
+      () => remoteFoodItemMutations.updateItem(id, updates)
+    );
+    return itemFromOutcome(outcome);
+  },
 
-    if (error) throw error;
+  /**
+   * Move an item into the freezer; the expiry is pushed out to the freezer shelf
+   * life. The move is logged server-side (`food_item_events`).
+   */
+  async freezeItem(item: FoodItem): Promise<FoodItemWithUrgency> {
+    return this.updateItem(item.id, freezeUpdate(item));
+  },
 
-    // Add urgency information to the returned item
-    return addUrgencyToItem(data as FoodItem);
+  /** Take an item out of the freezer; its expiry resets to a short window. */
+  async thawItem(item: FoodItem): Promise<FoodItemWithUrgency> {
+    return this.updateItem(item.id, thawUpdate(item));
+  },
+
+  /**
+   * Record that the package was opened. The printed expiry stays as it is; the
+   * after-opening window is applied when reading it (see utils/openedExpiry).
+   */
+  async markOpened(item: FoodItem): Promise<FoodItemWithUrgency> {
+    if (item.opened_at) return addUrgencyToItem(item);
+    return this.updateItem(item.id, { opened_at: new Date().toISOString() });
   },
 
   /**
    * Remove an inventory row without recording waste/consumption.
    * Preserves usage_logs (consume / throw away) for History and reports.
    * When history exists, sets quantity to 0 so food_items rows remain for joins.
+   * Counts logs from every household member, not only the caller's.
    */
   async deleteItem(id: string): Promise<void> {
-    const { data: userData, error: authError } = await supabase.auth.getUser();
-    if (authError) throw authError;
-    if (!userData.user) throw new Error("User not authenticated");
-
-    const { count, error: countError } = await supabase
-      .from("usage_logs")
-      .select("id", { count: "exact", head: true })
-      .eq("item_id", id)
-      .eq("user_id", userData.user.id);
-
-    if (countError) throw countError;
-
-    if ((count ?? 0) > 0) {
-      const { error } = await supabase
-        .from("food_items")
-        .update({ quantity: 0 })
-        .eq("id", id);
-      if (error) throw error;
+    await offlineSyncService.perform([{ kind: "deleteItem", itemId: id }], () =>
+      remoteFoodItemMutations.deleteItem(id)
+    );
+  },
+
+  /**
+   * Every lot of the item's product that is still in stock (the item included).
+   * Rows not yet linked to a product, e.g. created offline, are their own only lot.
+   */
+  async getLots(item: FoodItem): Promise<FoodItem[]> {
+    if (!item.product_id) return [item];
+    const { data, error } = await supabase
+      .from("food_items")
+      .select("*")
+      .eq("product_id", item.product_id)
+      .gt("quantity", 0);
+
+    if (error) throw error;
+    const rows = (data ?? []) as FoodItem[];
+    void offlineSyncService.rememberItems(rows);
+    return rows.some((row) => row.id === item.id) ? rows : [item, ...rows];
+  },
+
+  /**
+   * Mark item as used (consumed). The amount is drawn first in, first out from
+   * the product's earliest-expiring lots, so using "2 milk" from a newer carton
+   * still empties the older one first. Without a quantity, the item's own
+   * quantity is used. Logs to usage_logs and reduces/removes from food_items;
+   * returns how much was taken from each lot.
+   */
+  async markItemUsed(itemId: string, quantity?: number): Promise<ItemUsage[]> {
+    const item = await offlineSyncService.readItem(itemId, () =>
+      remoteFoodItemMutations.fetchItem(itemId)
+    );
+    if (!item) throw new Error("Item not found");
+    const qty = quantity ?? item.quantity;
+
+    // Offline the other lots can't be listed; draw from this one alone.
+    const lots = await this.getLots(item).catch((): FoodItem[] => [item]);
+    const uses = planFifoUsage(item, lots, qty);
+    if (uses.length === 1) {
+      await this.logUsage(uses[0]!.itemId, "used", uses[0]!.quantity);
     } else {
-      const { error } = await supabase.from("food_items").delete().eq("id", id);
-      if (error) throw error;
+      await batchOperations.logRecipeUsage(uses);
     }
-
-    enqueueNotificationMaintenance("notification maintenance after deleteItem:", async () => {
-      const {
-        cancelLegacyExpiryBatchNotificationsForFoodItemId,
-        rescheduleAllItemReminderNotificationsForUser,
-      } = await import("@/services/itemExpiryNotificationService");
-      await cancelLegacyExpiryBatchNotificationsForFoodItemId(id);
-      await rescheduleAllItemReminderNotificationsForUser();
-    });
+    return uses;
   },
 
-  // Mark item as used (consumed). Logs to usage_logs and reduces/removes from food_items.
-  async markItemUsed(itemId: string, quantity?: number): Promise<void> {
-    const { data: item, error: itemError } = await supabase
-      .from("food_items")
-      .select("quantity")
-      .eq("id", itemId)
-      .single();
+  /** Use up the whole of one lot, leaving older lots of the product alone. */
+  async markLotUsed(itemId: string): Promise<void> {
+    const item = await offlineSyncService.readItem(itemId, () =>
+      remoteFoodItemMutations.fetchItem(itemId)
+    );
+    if (!item) throw new Error("Item not found");
+    await this.logUsage(itemId, "used", item.quantity);
+  },
 
-    if (itemError) throw itemError;
+  /** Throw away the whole of one lot and log it as waste. */
+  async markItemWasted(itemId: string): Promise<void> {
+    const item = await offlineSyncService.readItem(itemId, () =>
+      remoteFoodItemMutations.fetchItem(itemId)
+    );
     if (!item) throw new Error("Item not found");
-    const qty = quantity ?? (item as FoodItem).quantity;
-    await this.logUsage(itemId, "used", qty);
+    await this.logUsage(itemId, "wasted", item.quantity);
+  },
+
+  /** Push the printed expiry date back by `days`. */
+  async extendExpiry(itemId: string, days: number): Promise<FoodItemWithUrgency> {
+    const item = await offlineSyncService.readItem(itemId, () =>
+      remoteFoodItemMutations.fetchItem(itemId)
+    );
+    if (!item?.expiry_date) throw new Error("Item not found");
+    const expiry = parseYmdLocal(item.expiry_date);
+    expiry.setDate(expiry.getDate() + days);
+    return this.updateItem(itemId, { expiry_date: toLocalYmd(expiry) });
   },
 
   // Log item usage
@@ -235,60 +271,10 @@ export const foodItemsService = {
     status: "used" | "expired" | "wasted",
     quantity: number
   ): Promise<void> {
-    const { data: userData, error: authError } = await supabase.auth.getUser();
-    if (authError) throw authError;
-    if (!userData.user) throw new Error("User not authenticated");
-
-    // First, get the current item
-    const { data: item, error: itemError } = await supabase
-      .from("food_items")
-      .select("*")
-      .eq("id", itemId)
-      .single();
-
-    if (itemError) throw itemError;
-
-    const stock = (item as FoodItem).quantity;
-    assertUsageQuantity(quantity, stock);
-
-    // Log the usage
-    const { error: logError } = await supabase.from("usage_logs").insert({
-      item_id: itemId,
-      user_id: userData.user.id,
-      status,
-      quantity,
-    });
-
-    if (logError) throw logError;
-
-    // Keep row for history joins; hide zero qty in read queries
-    const remainingQuantity = (item as FoodItem).quantity - quantity;
-
-    if (remainingQuantity <= 0) {
-      const updated = await this.updateItem(itemId, { quantity: 0 });
-      enqueueNotificationMaintenance(
-        "notification maintenance after full usage:",
-        async () => {
-          const {
-            cancelLegacyExpiryBatchNotificationsForFoodItemId,
-            syncItemExpiryNotificationsAfterSave,
-          } = await import("@/services/itemExpiryNotificationService");
-          await cancelLegacyExpiryBatchNotificationsForFoodItemId(itemId);
-          await syncItemExpiryNotificationsAfterSave(updated);
-        }
-      );
-    } else {
-      await this.updateItem(itemId, { quantity: remainingQuantity });
-      enqueueNotificationMaintenance(
-        "notification maintenance after partial usage:",
-        async () => {
-          const { rescheduleAllItemReminderNotificationsForUser } = await import(
-            "@/services/itemExpiryNotificationService"
-          );
-          await rescheduleAllItemReminderNotificationsForUser();
-        }
-      );
-    }
+    await offlineSyncService.perform(
+      [{ kind: "logUsage", itemId, status, quantity }],
+      () => remoteFoodItemMutations.logUsage(itemId, status, quantity)
+    );
   },
 
   // Get usage statistics
@@ -336,7 +322,7 @@ export const foodItemsService = {
     if (error) throw error;
 
     // Add urgency information to each item
-    return addUrgencyToItems(data as FoodItem[]);
+    return rememberWithUrgency(data as FoodItem[]);
   },
 };
 
@@ -353,7 +339,17 @@ export const batchOperations = {
         if (itemUpdates.quantity !== undefined) {
           assertStoredQuantity(itemUpdates.quantity);
         }
-        return supabase.from("food_items").update(itemUpdates).eq("id", id);
+        return offlineSyncService.perform(
+          [{ kind: "updateItem", itemId: id, updates: itemUpdates }],
+          async () => {
+            noteLocalInventoryWrite("food_items", id, itemUpdates);
+            const { error } = await supabase
+              .from("food_items")
+              .update(itemUpdates)
+              .eq("id", id);
+            if (error) throw error;
+          }
+        );
       });
 
       const results = await Promise.allSettled(promises);
@@ -369,17 +365,42 @@ export const batchOperations = {
     }
   },
 
+  /**
+   * "I cooked this": log usage for every ingredient at once. Online this is a
+   * single transaction and returns the logs for {@link undoRecipeUsage}; offline
+   * the usages are queued in order and null is returned (nothing to undo yet).
+   */
+  async logRecipeUsage(uses: ItemUsage[]): Promise<UsageLog[] | null> {
+    const active = uses.filter((u) => u.quantity > 0);
+    if (active.length === 0) return [];
+    active.forEach((u) => assertStoredQuantity(u.quantity));
+    const outcome = await offlineSyncService.perform(
+      active.map(({ itemId, quantity }) => ({
+        kind: "logUsage" as const,
+        itemId,
+        status: "used" as const,
+        quantity,
+      })),
+      () => remoteFoodItemMutations.logRecipeUsage(active)
+    );
+    return "result" in outcome ? outcome.result : null;
+  },
+
+  /** Undo a {@link logRecipeUsage} call. Needs a connection. */
+  async undoRecipeUsage(logs: UsageLog[]): Promise<void> {
+    if (logs.length === 0) return;
+    await remoteFoodItemMutations.undoRecipeUsage(logs);
+  },
+
   /**
    * Batch delete multiple items
    */
   async batchDeleteItems(itemIds: string[]): Promise<void> {
     try {
-      const { error } = await supabase
-        .from("food_items")
-        .delete()
-        .in("id", itemIds);
-
-      if (error) throw error;
+      await offlineSyncService.perform(
+        itemIds.map((itemId) => ({ kind: "deleteItem" as const, itemId, hard: true })),
+        () => remoteFoodItemMutations.batchDeleteItems(itemIds)
+      );
     } catch (error) {
       console.error("Batch delete failed:", error);
       throw error;
@@ -394,10 +415,8 @@ export const batchOperations = {
   ): Promise<Record<string, Record<string, FoodItem[]>>> {
     try {
       const promises = months.map(async ({ year, month }) => {
-        const startDate = new Date(year, month - 1, 1)
-          .toISOString()
-          .split("T")[0];
-        const endDate = new Date(year, month, 0).toISOString().split("T")[0];
+        const startDate = toLocalYmd(new Date(year, month - 1, 1));
+        const endDate = toLocalYmd(new Date(year, month, 0));
 
         const data = await foodItemsService.getItemsByExpiryDate(
           startDate,
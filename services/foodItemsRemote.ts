@@ -0,0 +1,249 @@
+// services/foodItemsRemote.ts
+import { FoodItem, supabase, UsageLog } from "@/lib/supabase";
+import {
+  canEditHouseholdInventory,
+  householdService,
+} from "@/services/householdService";
+import { noteLocalInventoryWrite } from "@/services/inventoryRealtimeService";
+import { normalizeFoodName } from "@/utils/normalizeFoodName";
+import {
+  assertNewItemQuantity,
+  assertUsageQuantity,
+  roundQuantity,
+} from "@/utils/quantityLimits";
+
+export type NewFoodItem = Omit<FoodItem, "id" | "user_id" | "created_at" | "updated_at">;
+
+export type ItemUsage = { itemId: string; quantity: number };
+
+let notificationMaintenanceQueue: Promise<void> = Promise.resolve();
+
+function enqueueNotificationMaintenance(
+  label: string,
+  task: () => Promise<void>
+): void {
+  notificationMaintenanceQueue = notificationMaintenanceQueue
+    .catch(() => {
+      // Keep the queue alive if an earlier maintenance task failed.
+    })
+    .then(task)
+    .catch((error) => {
+      console.warn(label, error);
+    });
+}
+
+/**
+ * Server round trips behind the foodItemsService mutations. Screens go through
+ * foodItemsService; the offline sync engine replays queued changes through these.
+ */
+export const remoteFoodItemMutations = {
+  async fetchItem(id: string): Promise<FoodItem | null> {
+    const { data, error } = await supabase
+      .from("food_items")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as FoodItem | null) ?? null;
+  },
+
+  async addItem(item: NewFoodItem): Promise<FoodItem> {
+    const { data: userData, error: authError } = await supabase.auth.getUser();
+    if (authError) throw authError;
+    if (!userData.user) throw new Error("User not authenticated");
+
+    assertNewItemQuantity(item.quantity);
+
+    const membership = await householdService.getMembership({
+      userId: userData.user.id,
+    });
+    if (!canEditHouseholdInventory(membership?.role)) {
+      throw new Error("Viewers can't add items to this household.");
+    }
+
+    const { data, error } = await supabase
+      .from("food_items")
+      .insert({
+        ...item,
+        user_id: userData.user.id,
+        household_id: membership?.household.id ?? null,
+        normalized_name: normalizeFoodName(item.name ?? ""),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    noteLocalInventoryWrite("food_items", (data as FoodItem).id, {
+      quantity: (data as FoodItem).quantity,
+    });
+    return data as FoodItem;
+  },
+
+  async updateItem(id: string, updates: Partial<FoodItem>): Promise<FoodItem> {
+    const payload: Partial<FoodItem> = { ...updates };
+    if (typeof updates.name === "string") {
+      payload.normalized_name = normalizeFoodName(updates.name);
+    }
+    noteLocalInventoryWrite("food_items", id, payload);
+    const { data, error } = await supabase
+      .from("food_items")
+      .update(payload)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as FoodItem;
+  },
+
+  async deleteItem(id: string): Promise<void> {
+    const { data: userData, error: authError } = await supabase.auth.getUser();
+    if (authError) throw authError;
+    if (!userData.user) throw new Error("User not authenticated");
+
+    const { count, error: countError } = await supabase
+      .from("usage_logs")
+      .select("id", { count: "exact", head: true })
+      .eq("item_id", id);
+
+    if (countError) throw countError;
+
+    // Rows with history are zeroed rather than deleted.
+    noteLocalInventoryWrite("food_items", id, (count ?? 0) > 0 ? { quantity: 0 } : undefined);
+    if ((count ?? 0) > 0) {
+      const { error } = await supabase
+        .from("food_items")
+        .update({ quantity: 0 })
+        .eq("id", id);
+      if (error) throw error;
+    } else {
+      const { error } = await supabase.from("food_items").delete().eq("id", id);
+      if (error) throw error;
+    }
+
+    enqueueNotificationMaintenance("notification maintenance after deleteItem:", async () => {
+      const {
+        cancelLegacyExpiryBatchNotificationsForFoodItemId,
+        rescheduleAllItemReminderNotificationsForUser,
+      } = await import("@/services/itemExpiryNotificationService");
+      await cancelLegacyExpiryBatchNotificationsForFoodItemId(id);
+      await rescheduleAllItemReminderNotificationsForUser();
+    });
+  },
+
+  async logUsage(
+    itemId: string,
+    status: "used" | "expired" | "wasted",
+    quantity: number
+  ): Promise<void> {
+    const { data: userData, error: authError } = await supabase.auth.getUser();
+    if (authError) throw authError;
+    if (!userData.user) throw new Error("User not authenticated");
+
+    // First, get the current item
+    const { data: item, error: itemError } = await supabase
+      .from("food_items")
+      .select("*")
+      .eq("id", itemId)
+      .single();
+
+    if (itemError) throw itemError;
+
+    const stock = (item as FoodItem).quantity;
+    assertUsageQuantity(quantity, stock);
+
+    // Log the usage
+    noteLocalInventoryWrite("usage_logs", itemId, { status, quantity });
+    const { error: logError } = await supabase.from("usage_logs").insert({
+      item_id: itemId,
+      user_id: userData.user.id,
+      household_id: (item as FoodItem).household_id ?? null,
+      status,
+      quantity,
+    });
+
+    if (logError) throw logError;
+
+    // Keep row for history joins; hide zero qty in read queries
+    const remainingQuantity = roundQuantity((item as FoodItem).quantity - quantity);
+
+    if (remainingQuantity <= 0) {
+      const updated = await remoteFoodItemMutations.updateItem(itemId, { quantity: 0 });
+      enqueueNotificationMaintenance(
+        "notification maintenance after full usage:",
+        async () => {
+          const {
+            cancelLegacyExpiryBatchNotificationsForFoodItemId,
+            syncItemExpiryNotificationsAfterSave,
+          } = await import("@/services/itemExpiryNotificationService");
+          await cancelLegacyExpiryBatchNotificationsForFoodItemId(itemId);
+          await syncItemExpiryNotificationsAfterSave(updated);
+        }
+      );
+    } else {
+      await remoteFoodItemMutations.updateItem(itemId, { quantity: remainingQuantity });
+      enqueueNotificationMaintenance(
+        "notification maintenance after partial usage:",
+        async () => {
+          const { rescheduleAllItemReminderNotificationsForUser } = await import(
+            "@/services/itemExpiryNotificationService"
+          );
+          await rescheduleAllItemReminderNotificationsForUser();
+        }
+      );
+    }
+  },
+
+  /**
+   * Logs "used" for several items and decrements them in one transaction
+   * (`cook_recipe` RPC). Returns the new usage logs so the caller can undo.
+   */
+  async logRecipeUsage(uses: ItemUsage[]): Promise<UsageLog[]> {
+    // The RPC decrements the rows itself, so their new quantities aren't known here.
+    uses.forEach(({ itemId, quantity }) => {
+      noteLocalInventoryWrite("usage_logs", itemId, { status: "used", quantity });
+      noteLocalInventoryWrite("food_items", itemId);
+    });
+    const { data, error } = await supabase.rpc("cook_recipe", {
+      p_uses: uses.map(({ itemId, quantity }) => ({ item_id: itemId, quantity })),
+    });
+    if (error) throw error;
+
+    enqueueNotificationMaintenance("notification maintenance after recipe usage:", async () => {
+      const { rescheduleAllItemReminderNotificationsForUser } = await import(
+        "@/services/itemExpiryNotificationService"
+      );
+      await rescheduleAllItemReminderNotificationsForUser();
+    });
+    return (data as UsageLog[]) ?? [];
+  },
+
+  /** Restores quantities and removes the logs written by {@link logRecipeUsage}. */
+  async undoRecipeUsage(logs: Pick<UsageLog, "id" | "item_id">[]): Promise<void> {
+    // Only log inserts are listened for, so just the restored rows echo.
+    logs.forEach(({ item_id }) => noteLocalInventoryWrite("food_items", item_id));
+    const { error } = await supabase.rpc("undo_cook_recipe", {
+      p_log_ids: logs.map((log) => log.id),
+    });
+    if (error) throw error;
+
+    enqueueNotificationMaintenance("notification maintenance after undoing recipe usage:", async () => {
+      const { rescheduleAllItemReminderNotificationsForUser } = await import(
+        "@/services/itemExpiryNotificationService"
+      );
+      await rescheduleAllItemReminderNotificationsForUser();
+    });
+  },
+
+  async batchDeleteItems(itemIds: string[]): Promise<void> {
+    itemIds.forEach((id) => noteLocalInventoryWrite("food_items", id));
+    const { error } = await supabase
+      .from("food_items")
+      .delete()
+      .in("id", itemIds);
+
+    if (error) throw error;
+  },
+};
+
@@ -1,6 +1,9 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-/** Must match `shopping-list.tsx` so background tasks read the same data. */
+/**
+ * Device cache of the cloud `shopping_list_items` table (see `shoppingListService`).
+ * Must match `shopping-list.tsx` so background tasks read the same data.
+ */
 export const SHOPPING_LIST_STORAGE_KEY = "fridgewise_shopping_list_v1";
 
 export type StoredGroceryItem = {
@@ -14,6 +17,10 @@ export type StoredGroceryItem = {
   completed?: boolean;
   addedDate?: string;
   notes?: string;
+  /** What the entry costs in all; see `utils/itemPrice`. */
+  price?: number | null;
+  pricePerUnit?: number | null;
+  currency?: string | null;
 };
 
 /** Items still to buy (on the Groceries screen, not fridge/purchased). */
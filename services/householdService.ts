@@ -0,0 +1,189 @@
+// services/householdService.ts
+import {
+  Household,
+  HouseholdInvite,
+  HouseholdMember,
+  HouseholdRole,
+  supabase,
+} from "@/lib/supabase";
+
+export type HouseholdMembership = {
+  household: Household;
+  role: HouseholdRole;
+};
+
+/**
+ * Which rows count as "my inventory": the household's shared rows when the user
+ * belongs to one, otherwise their personal rows.
+ */
+export type InventoryScope = {
+  userId: string;
+  householdId: string | null;
+};
+
+/** Membership lookup cached per user; cleared whenever this device changes membership. */
+let membershipCache: {
+  userId: string;
+  membership: HouseholdMembership | null;
+} | null = null;
+
+export function clearHouseholdCache(): void {
+  membershipCache = null;
+}
+
+/** Invite codes are 8 hex chars; users may type them lowercase or with spaces/dashes. */
+export function normalizeInviteCode(raw: string): string {
+  return raw.replace(/[^0-9a-z]/gi, "").toUpperCase();
+}
+
+export function canEditHouseholdInventory(role: HouseholdRole | null | undefined): boolean {
+  return role == null || role === "owner" || role === "member";
+}
+
+export function householdRoleLabel(role: HouseholdRole): string {
+  switch (role) {
+    case "owner":
+      return "Owner";
+    case "member":
+      return "Member";
+    case "viewer":
+      return "Viewer";
+  }
+}
+
+async function requireUserId(): Promise<string> {
+  const { data: userData, error: authError } = await supabase.auth.getUser();
+  if (authError) throw authError;
+  if (!userData.user) throw new Error("User not authenticated");
+  return userData.user.id;
+}
+
+async function fetchMembership(userId: string): Promise<HouseholdMembership | null> {
+  const { data, error } = await supabase
+    .from("household_members")
+    .select("role, households ( id, name, created_by, created_at, updated_at )")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  const row = data as unknown as {
+    role: HouseholdRole;
+    households: Household | null;
+  } | null;
+  if (!row?.households) return null;
+  return { household: row.households, role: row.role };
+}
+
+export const householdService = {
+  /** Household the signed-in user belongs to (null when using a personal inventory). */
+  async getMembership(options?: {
+    userId?: string;
+    force?: boolean;
+  }): Promise<HouseholdMembership | null> {
+    const userId = options?.userId ?? (await requireUserId());
+    if (!options?.force && membershipCache?.userId === userId) {
+      return membershipCache.membership;
+    }
+    const membership = await fetchMembership(userId);
+    membershipCache = { userId, membership };
+    return membership;
+  },
+
+  async getMembers(householdId: string): Promise<HouseholdMember[]> {
+    const { data, error } = await supabase
+      .from("household_members")
+      .select("*")
+      .eq("household_id", householdId)
+      .order("joined_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as HouseholdMember[];
+  },
+
+  /** Creates a household owned by the caller and moves their inventory into it. */
+  async createHousehold(name: string, displayName?: string): Promise<Household> {
+    const { data, error } = await supabase.rpc("create_household", {
+      p_name: name.trim(),
+      p_display_name: displayName?.trim() || null,
+    });
+    clearHouseholdCache();
+    if (error) throw error;
+    return data as Household;
+  },
+
+  async createInvite(
+    householdId: string,
+    role: HouseholdInvite["role"] = "member"
+  ): Promise<HouseholdInvite> {
+    const { data, error } = await supabase.rpc("create_household_invite", {
+      p_household_id: householdId,
+      p_role: role,
+    });
+    if (error) throw error;
+    return data as HouseholdInvite;
+  },
+
+  /** Joins with an invite code; the caller's existing inventory becomes shared. */
+  async joinWithCode(code: string, displayName?: string): Promise<Household> {
+    const { data, error } = await supabase.rpc("join_household", {
+      p_code: normalizeInviteCode(code),
+      p_display_name: displayName?.trim() || null,
+    });
+    clearHouseholdCache();
+    if (error) throw error;
+    return data as Household;
+  },
+
+  /**
+   * Leaves the current household. The caller's own items go back to a personal
+   * inventory; ownership passes to the longest-standing member.
+   */
+  async leaveHousehold(): Promise<void> {
+    const { error } = await supabase.rpc("leave_household");
+    clearHouseholdCache();
+    if (error) throw error;
+  },
+
+  async setMemberRole(userId: string, role: HouseholdRole): Promise<void> {
+    const { error } = await supabase.rpc("set_household_member_role", {
+      p_user_id: userId,
+      p_role: role,
+    });
+    clearHouseholdCache();
+    if (error) throw error;
+  },
+
+  async removeMember(userId: string): Promise<void> {
+    const { error } = await supabase.rpc("remove_household_member", {
+      p_user_id: userId,
+    });
+    if (error) throw error;
+  },
+};
+
+/**
+ * Resolve the inventory scope for report / history queries. Falls back to the
+ * personal scope when membership can't be read (offline, table not deployed yet).
+ */
+export async function getInventoryScope(userId: string): Promise<InventoryScope> {
+  try {
+    const membership = await householdService.getMembership({ userId });
+    return { userId, householdId: membership?.household.id ?? null };
+  } catch (e) {
+    console.warn("householdService: membership lookup failed", e);
+    return { userId, householdId: null };
+  }
+}
+
+/**
+ * Column filter that narrows a `food_items` / `usage_logs` query to `scope`:
+ * `query.eq(filter.column, filter.value)`.
+ */
+export function inventoryScopeFilter(scope: InventoryScope): {
+  column: "household_id" | "user_id";
+  value: string;
+} {
+  return scope.householdId
+    ? { column: "household_id", value: scope.householdId }
+    : { column: "user_id", value: scope.userId };
+}
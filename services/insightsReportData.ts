@@ -1,17 +1,48 @@
 /**
- * All-time aggregates for Waste & Consumption report screens (usage_logs + food_items).
+ * Aggregates for Waste & Consumption report screens (usage_logs + food_items), all time
+ * or over a date range compared with the period before it. Postgres computes them
+ * (`insights_report_aggregates`); raw logs are paged and aggregated here as a fallback.
+ * Household members see the whole household's history, not just their own logs.
  */
 
 import { categoryLabelForInsights } from "@/lib/foodCategories";
-import { supabase } from "@/lib/supabase";
+import { ConsumptionTrendData, supabase, WasteTrendData } from "@/lib/supabase";
+import {
+  getInventoryScope,
+  InventoryScope,
+  inventoryScopeFilter,
+} from "@/services/householdService";
+import { unitPriceOf } from "@/utils/itemPrice";
+import { todayYmd } from "@/utils/localDate";
+import { isNetworkRequestFailed } from "@/utils/networkError";
 import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+import {
+  isInReportRange,
+  percentChange,
+  previousReportRange,
+  ReportRange,
+  reportRange,
+  weeklyTrend,
+} from "@/utils/reportRange";
+import {
+  logValue,
+  Purchase,
+  summarizeWasteCost,
+  ValuedLog,
+  WasteCostSummary,
+} from "@/utils/wasteCost";
 
 type FoodJoin = {
   name?: string | null;
   category?: string | null;
+  unit?: string | null;
   normalized_name?: string | null;
   created_at?: string | null;
   expiry_date?: string | null;
+  price?: number | null;
+  price_per_unit?: number | null;
+  quantity?: number | null;
+  currency?: string | null;
 };
 
 type LogRow = {
@@ -22,16 +53,21 @@ type LogRow = {
   food_items?: FoodJoin | null;
 };
 
+type DatedPurchase = Purchase & { created_at: string };
+
 const PAGE = 800;
 
 async function fetchAllLogs(
-  userId: string,
-  statuses: ("used" | "wasted" | "expired")[]
+  scope: InventoryScope,
+  statuses: ("used" | "wasted" | "expired")[],
+  sinceIso?: string,
+  untilIso?: string
 ): Promise<LogRow[]> {
   const out: LogRow[] = [];
+  const scopeFilter = inventoryScopeFilter(scope);
   let from = 0;
   for (;;) {
-    const { data, error } = await supabase
+    let query = supabase
       .from("usage_logs")
       .select(
         `
@@ -42,14 +78,22 @@ async function fetchAllLogs(
         food_items!usage_logs_item_id_fkey (
           name,
           category,
+          unit,
           normalized_name,
           created_at,
-          expiry_date
+          expiry_date,
+          price,
+          price_per_unit,
+          quantity,
+          currency
         )
       `
       )
-      .eq("user_id", userId)
-      .in("status", statuses)
+      .eq(scopeFilter.column, scopeFilter.value)
+      .in("status", statuses);
+    if (sinceIso) query = query.gte("logged_at", sinceIso);
+    if (untilIso) query = query.lt("logged_at", untilIso);
+    const { data, error } = await query
       .order("logged_at", { ascending: false })
       .range(from, from + PAGE - 1);
 
@@ -62,6 +106,36 @@ async function fetchAllLogs(
   return out;
 }
 
+/** Prices of every priced row added (optionally within created_at bounds), for total spend. */
+async function fetchPurchases(
+  scope: InventoryScope,
+  sinceIso?: string,
+  untilIso?: string
+): Promise<DatedPurchase[]> {
+  const out: DatedPurchase[] = [];
+  const scopeFilter = inventoryScopeFilter(scope);
+  let from = 0;
+  for (;;) {
+    let query = supabase
+      .from("food_items")
+      .select("price, currency, created_at")
+      .eq(scopeFilter.column, scopeFilter.value)
+      .not("price", "is", null);
+    if (sinceIso) query = query.gte("created_at", sinceIso);
+    if (untilIso) query = query.lt("created_at", untilIso);
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .range(from, from + PAGE - 1);
+
+    if (error) throw error;
+    const batch = (data as DatedPurchase[]) ?? [];
+    out.push(...batch);
+    if (batch.length < PAGE) break;
+    from += PAGE;
+  }
+  return out;
+}
+
 function itemKey(f: FoodJoin | null | undefined): string {
   const raw = f?.normalized_name?.trim() || f?.name || "item";
   return normalizeFoodNameForGrouping(raw);
@@ -80,6 +154,28 @@ function categoryLabel(raw: string): string {
   return categoryLabelForInsights(raw);
 }
 
+function toValuedLog(l: LogRow): ValuedLog {
+  const f = l.food_items;
+  const key = itemKey(f);
+  const unitPrice = f
+    ? unitPriceOf({
+        price: f.price,
+        price_per_unit: f.price_per_unit,
+        quantity: Number(f.quantity) || 0,
+      })
+    : null;
+  return {
+    status: l.status as ValuedLog["status"],
+    quantity: l.quantity,
+    loggedAt: l.logged_at,
+    itemKey: key,
+    itemName: displayItemName(f, key),
+    categoryLabel: categoryLabel((f?.category || "").trim() || "other"),
+    unitPrice,
+    currency: f?.currency ?? null,
+  };
+}
+
 /**
  * Calendar days from expiry date to the day the log was recorded (how long it sat
  * past expiry before removal). Returns null if missing dates or log was before expiry day.
@@ -171,6 +267,8 @@ export type WasteReportData = {
   rateFootnote: string;
   categoriesTop5: CategoryRow[];
   itemsTop5: RankedItemRow[];
+  /** Money wasted, spent and eaten; null until some item has a price. */
+  money: WasteCostSummary | null;
 };
 
 export type ConsumptionReportData = {
@@ -182,11 +280,22 @@ export type ConsumptionReportData = {
   itemsTop5: RankedItemRow[];
 };
 
-async function countFoodItemRows(userId: string): Promise<number> {
-  const { count, error } = await supabase
+/** Rows added to inventory, all time or within the range. */
+async function countFoodItemRows(
+  scope: InventoryScope,
+  range?: ReportRange | null
+): Promise<number> {
+  const scopeFilter = inventoryScopeFilter(scope);
+  let query = supabase
     .from("food_items")
     .select("id", { count: "exact", head: true })
-    .eq("user_id", userId);
+    .eq(scopeFilter.column, scopeFilter.value);
+  if (range?.start) {
+    query = query
+      .gte("created_at", range.start.toISOString())
+      .lt("created_at", range.end.toISOString());
+  }
+  const { count, error } = await query;
   if (error) {
     console.warn("food_items count failed", error);
     return 0;
@@ -194,16 +303,20 @@ async function countFoodItemRows(userId: string): Promise<number> {
   return count ?? 0;
 }
 
-/** Rows still in inventory with expiry date before today (local calendar day). */
-async function countExpiredItemsStillInFridge(userId: string): Promise<number> {
-  const today = new Date().toISOString().split("T")[0]!;
+/**
+ * Rows still in inventory past a use-by date (local calendar day). Best-before items
+ * are still usable, so they don't count.
+ */
+async function countExpiredItemsStillInFridge(scope: InventoryScope): Promise<number> {
+  const scopeFilter = inventoryScopeFilter(scope);
   const { count, error } = await supabase
     .from("food_items")
     .select("id", { count: "exact", head: true })
-    .eq("user_id", userId)
+    .eq(scopeFilter.column, scopeFilter.value)
     .gt("quantity", 0)
+    .neq("expiry_kind", "best_before")
     .not("expiry_date", "is", null)
-    .lt("expiry_date", today);
+    .lt("expiry_date", todayYmd());
   if (error) {
     console.warn("food_items expired-in-fridge count failed", error);
     return 0;
@@ -211,30 +324,327 @@ async function countExpiredItemsStillInFridge(userId: string): Promise<number> {
   return count ?? 0;
 }
 
-export async function loadWasteReportAllTime(userId: string): Promise<WasteReportData> {
-  const [wasteLogs, usedLogs, itemsAdded, stillExpiredInFridge] = await Promise.all([
-    fetchAllLogs(userId, ["wasted", "expired"]),
-    fetchAllLogs(userId, ["used"]),
-    countFoodItemRows(userId),
-    countExpiredItemsStillInFridge(userId),
+
+type LogStatus = "used" | "wasted" | "expired";
+type Side = "used" | "waste";
+
+/**
+ * Counts both report screens are built from, for one period. Comes from the
+ * `insights_report_aggregates` RPC, or from raw logs when that can't be reached.
+ */
+type ReportAggregates = {
+  itemsAdded: number;
+  counts: Record<LogStatus, number>;
+  /** Manual `wasted` logs by when they were logged relative to the expiry day. */
+  wastedTiming: { before: number; onOrAfter: number; unknown: number };
+  /** Logs made on or after the expiry day: days past it summed, and how many. */
+  daysPastExpiry: { sum: number; count: number };
+  /** `used` logs made on or after the expiry day. */
+  consumedAfterExpiry: number;
+  /** Raw category (blank as `other`); labelled when the report is built. */
+  categories: { status: LogStatus; category: string; times: number }[];
+  /** `key` is the raw grouping name; name and category are the newest log's. */
+  items: { side: Side; key: string; name: string; category: string; times: number }[];
+  /** Trend points (one per log, or per day and currency from the RPC); `value` is in `currency`. */
+  days: { side: Side; at: string; currency: string | null; times: number; value: number }[];
+  valued: ValuedLog[];
+  purchases: Purchase[];
+};
+
+/** `insights_report_aggregates` result (see the migration for how each part is grouped). */
+type AggregatesRpcResult = {
+  items_added: number;
+  counts: Record<LogStatus, number>;
+  wasted_timing: { before: number; on_or_after: number; unknown: number };
+  days_past_expiry: { sum: number; count: number };
+  consumed_after_expiry: number;
+  categories: { status: LogStatus; category: string; times: number }[];
+  items: { side: Side; item_key: string; name: string; category: string; times: number }[];
+  days: {
+    side: Side;
+    day: string;
+    currency: string | null;
+    times: number;
+    value: number | null;
+  }[];
+  money: {
+    status: LogStatus;
+    month: string;
+    currency: string | null;
+    item_key: string;
+    name: string;
+    category: string;
+    logs: number;
+    value: number | null;
+  }[];
+  purchases: { currency: string | null; total: number; rows: number }[];
+};
+
+function localMidnightIso(ymd: string): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(y!, (m ?? 1) - 1, d ?? 1).toISOString();
+}
+
+function deviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+function fromRpcResult(r: AggregatesRpcResult): ReportAggregates {
+  return {
+    itemsAdded: Number(r.items_added) || 0,
+    counts: {
+      used: Number(r.counts.used) || 0,
+      wasted: Number(r.counts.wasted) || 0,
+      expired: Number(r.counts.expired) || 0,
+    },
+    wastedTiming: {
+      before: Number(r.wasted_timing.before) || 0,
+      onOrAfter: Number(r.wasted_timing.on_or_after) || 0,
+      unknown: Number(r.wasted_timing.unknown) || 0,
+    },
+    daysPastExpiry: {
+      sum: Number(r.days_past_expiry.sum) || 0,
+      count: Number(r.days_past_expiry.count) || 0,
+    },
+    consumedAfterExpiry: Number(r.consumed_after_expiry) || 0,
+    categories: r.categories,
+    items: r.items.map((i) => ({
+      side: i.side,
+      key: i.item_key,
+      name: i.name,
+      category: i.category,
+      times: i.times,
+    })),
+    days: r.days.map((d) => ({
+      side: d.side,
+      at: localMidnightIso(d.day),
+      currency: d.currency,
+      times: d.times,
+      value: Number(d.value) || 0,
+    })),
+    // Each group stands for its logs: quantity 1 at the group's total.
+    valued: r.money.map((m) => {
+      const key = normalizeFoodNameForGrouping(m.item_key);
+      return {
+        status: m.status,
+        quantity: 1,
+        loggedAt: localMidnightIso(`${m.month}-01`),
+        itemKey: key,
+        itemName: displayItemName({ name: m.name }, key),
+        categoryLabel: categoryLabel(m.category),
+        unitPrice: m.value == null ? null : Number(m.value),
+        currency: m.currency,
+        logs: m.logs,
+      };
+    }),
+    purchases: r.purchases.map((p) => ({
+      price: Number(p.total),
+      currency: p.currency,
+      rows: p.rows,
+    })),
+  };
+}
+
+async function fetchAggregates(range: ReportRange): Promise<ReportAggregates> {
+  const { data, error } = await supabase.rpc("insights_report_aggregates", {
+    p_since: range.start?.toISOString() ?? null,
+    p_until: range.start ? range.end.toISOString() : null,
+    p_tz: deviceTimeZone(),
+  });
+  if (error) throw error;
+  return fromRpcResult(data as AggregatesRpcResult);
+}
+
+/** The same aggregates as the RPC, from raw logs (newest first). */
+function aggregateLogs(
+  logs: LogRow[],
+  itemsAdded: number,
+  purchases: Purchase[]
+): ReportAggregates {
+  const agg: ReportAggregates = {
+    itemsAdded,
+    counts: { used: 0, wasted: 0, expired: 0 },
+    wastedTiming: { before: 0, onOrAfter: 0, unknown: 0 },
+    daysPastExpiry: { sum: 0, count: 0 },
+    consumedAfterExpiry: 0,
+    categories: [],
+    items: [],
+    days: [],
+    valued: [],
+    purchases,
+  };
+  const categories = new Map<string, ReportAggregates["categories"][number]>();
+  const items = new Map<string, ReportAggregates["items"][number]>();
+
+  for (const l of logs) {
+    const status = l.status as LogStatus;
+    const side: Side = status === "used" ? "used" : "waste";
+    const f = l.food_items;
+    agg.counts[status] += 1;
+
+    if (status === "wasted") {
+      const t = logTimingVsExpiry(l.logged_at, f?.expiry_date);
+      if (t === "before") agg.wastedTiming.before += 1;
+      else if (t === "onOrAfter") agg.wastedTiming.onOrAfter += 1;
+      else agg.wastedTiming.unknown += 1;
+    }
+    const d = daysPastExpiryUntilLogged(l.logged_at, f?.expiry_date);
+    if (d != null) {
+      agg.daysPastExpiry.sum += d;
+      agg.daysPastExpiry.count += 1;
+      if (status === "used") agg.consumedAfterExpiry += 1;
+    }
+
+    const category = (f?.category || "").trim() || "other";
+    const cat = categories.get(`${status}|${category}`) ?? { status, category, times: 0 };
+    cat.times += 1;
+    categories.set(`${status}|${category}`, cat);
+
+    const key = f?.normalized_name?.trim() || f?.name || "item";
+    const item = items.get(`${side}|${key}`) ?? {
+      side,
+      key,
+      name: (f?.name || "").trim(),
+      category,
+      times: 0,
+    };
+    item.times += 1;
+    items.set(`${side}|${key}`, item);
+
+    const valued = toValuedLog(l);
+    agg.valued.push(valued);
+    agg.days.push({
+      side,
+      at: l.logged_at,
+      currency: valued.currency,
+      times: 1,
+      value: logValue(valued),
+    });
+  }
+
+  agg.categories = [...categories.values()];
+  agg.items = [...items.values()];
+  return agg;
+}
+
+const loggedAt = (l: LogRow) => l.logged_at;
+
+function within<T>(rows: T[], range: ReportRange, at: (row: T) => string): T[] {
+  if (!range.start) return rows;
+  return rows.filter((r) => isInReportRange(at(r), range));
+}
+
+/** Pages through raw logs once for every range and aggregates each on the phone. */
+async function aggregateLocally(
+  scope: InventoryScope,
+  ranges: ReportRange[]
+): Promise<ReportAggregates[]> {
+  const bounded = ranges.every((r) => r.start);
+  const sinceIso = bounded
+    ? new Date(Math.min(...ranges.map((r) => r.start!.getTime()))).toISOString()
+    : undefined;
+  const untilIso = bounded
+    ? new Date(Math.max(...ranges.map((r) => r.end.getTime()))).toISOString()
+    : undefined;
+  const [logs, purchases, itemsAdded] = await Promise.all([
+    fetchAllLogs(scope, ["used", "wasted", "expired"], sinceIso, untilIso),
+    fetchPurchases(scope, sinceIso, untilIso),
+    Promise.all(ranges.map((r) => countFoodItemRows(scope, r))),
   ]);
+  return ranges.map((r, i) =>
+    aggregateLogs(
+      within(logs, r, loggedAt),
+      itemsAdded[i] ?? 0,
+      within(purchases, r, (p) => p.created_at)
+    )
+  );
+}
 
-  /** One log = one item (grams/units on the log are not summed for totals). */
-  const totalWastedQty = wasteLogs.length;
-  const expiredLogs = wasteLogs.filter((l) => l.status === "expired");
-  const thrownAwayLogs = wasteLogs.filter((l) => l.status === "wasted");
-  const totalExpiredQty = expiredLogs.length;
-  const totalThrownAwayQty = thrownAwayLogs.length;
-
-  let wastedBeforeExpiryQty = 0;
-  let wastedAfterExpiryQty = 0;
-  let wastedTimingUnknownQty = 0;
-  for (const l of thrownAwayLogs) {
-    const t = logTimingVsExpiry(l.logged_at, l.food_items?.expiry_date);
-    if (t === "before") wastedBeforeExpiryQty += 1;
-    else if (t === "onOrAfter") wastedAfterExpiryQty += 1;
-    else wastedTimingUnknownQty += 1;
+/**
+ * Aggregates per range from the database; when the RPC fails (not deployed yet)
+ * they're computed from raw logs instead. Those are fetched too, so offline the
+ * error is passed on rather than tried twice.
+ */
+async function loadAggregates(
+  scope: InventoryScope,
+  ranges: ReportRange[]
+): Promise<ReportAggregates[]> {
+  try {
+    return await Promise.all(ranges.map(fetchAggregates));
+  } catch (e) {
+    if (isNetworkRequestFailed(e)) throw e;
+    console.warn("insights_report_aggregates failed, aggregating locally", e);
+    return aggregateLocally(scope, ranges);
+  }
+}
+
+/** Category label totals, most first. */
+function categoryTotals(
+  categories: ReportAggregates["categories"],
+  statuses: LogStatus[]
+): [string, number][] {
+  const byLabel = new Map<string, number>();
+  for (const c of categories) {
+    if (!statuses.includes(c.status)) continue;
+    const label = categoryLabel(c.category);
+    byLabel.set(label, (byLabel.get(label) || 0) + c.times);
+  }
+  return [...byLabel.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+function categoryRows(totals: [string, number][]): CategoryRow[] {
+  const maxCat = totals[0]?.[1] ?? 0;
+  return totals.slice(0, 5).map(([displayLabel, q]) => ({
+    key: displayLabel,
+    displayLabel,
+    qty: q,
+    barPct: maxCat > 0 ? Math.round((q / maxCat) * 100) : 0,
+  }));
+}
+
+/** Items on one side merged by normalized key, most logged first. */
+function itemTotals(
+  items: ReportAggregates["items"],
+  side: Side
+): { name: string; category: string; times: number }[] {
+  const byKey = new Map<string, { name: string; category: string; times: number }>();
+  for (const i of items) {
+    if (i.side !== side) continue;
+    const k = normalizeFoodNameForGrouping(i.key);
+    const cur = byKey.get(k) ?? {
+      name: displayItemName({ name: i.name }, k),
+      category: i.category,
+      times: 0,
+    };
+    cur.times += i.times;
+    byKey.set(k, cur);
   }
+  return [...byKey.values()].sort((a, b) => b.times - a.times);
+}
+
+function rankedItems(totals: { name: string; category: string; times: number }[]): RankedItemRow[] {
+  return totals.slice(0, 5).map((v, i) => ({
+    rank: i + 1,
+    name: v.name,
+    categoryLabel: categoryLabel(v.category),
+    times: v.times,
+  }));
+}
+
+function buildWasteReport(agg: ReportAggregates, stillExpiredInFridge: number): WasteReportData {
+  /** One log = one item (grams/units on the log are not summed for totals). */
+  const totalExpiredQty = agg.counts.expired;
+  const totalThrownAwayQty = agg.counts.wasted;
+  const totalWastedQty = totalExpiredQty + totalThrownAwayQty;
+  const {
+    before: wastedBeforeExpiryQty,
+    onOrAfter: wastedAfterExpiryQty,
+    unknown: wastedTimingUnknownQty,
+  } = agg.wastedTiming;
 
   let expiredWhenThrownOutPct: number | null = null;
   if (totalThrownAwayQty > 0) {
@@ -242,50 +652,21 @@ export async function loadWasteReportAllTime(userId: string): Promise<WasteRepor
   }
 
   let avgDaysPastExpiryWhenRemoved: number | null = null;
-  {
-    let sum = 0;
-    let n = 0;
-    const actedOnPastExpiry = [...wasteLogs, ...usedLogs];
-    for (const l of actedOnPastExpiry) {
-      const d = daysPastExpiryUntilLogged(l.logged_at, l.food_items?.expiry_date);
-      if (d != null) {
-        sum += d;
-        n += 1;
-      }
-    }
-    if (n > 0) avgDaysPastExpiryWhenRemoved = Math.round((sum / n) * 10) / 10;
+  if (agg.daysPastExpiry.count > 0) {
+    avgDaysPastExpiryWhenRemoved =
+      Math.round((agg.daysPastExpiry.sum / agg.daysPastExpiry.count) * 10) / 10;
   }
 
-  const byExpiredCat = new Map<string, number>();
-  for (const l of expiredLogs) {
-    const raw = (l.food_items?.category || "").trim() || "other";
-    const label = categoryLabel(raw);
-    byExpiredCat.set(label, (byExpiredCat.get(label) || 0) + 1);
-  }
-  const expiredCatSorted = [...byExpiredCat.entries()].sort((a, b) => b[1] - a[1]);
+  const expiredCatSorted = categoryTotals(agg.categories, ["expired"]);
   const mostExpiredCategory =
     expiredCatSorted[0] != null
       ? { displayLabel: expiredCatSorted[0][0], qty: expiredCatSorted[0][1] }
       : null;
 
   /** Wasted after expiry day + all `expired` logs (removed as expired / discard). */
-  let thrownAwayExpiredQty = 0;
-  for (const l of wasteLogs) {
-    if (l.status === "expired") {
-      thrownAwayExpiredQty += 1;
-      continue;
-    }
-    if (l.status === "wasted") {
-      const d = daysPastExpiryUntilLogged(l.logged_at, l.food_items?.expiry_date);
-      if (d != null) thrownAwayExpiredQty += 1;
-    }
-  }
+  const thrownAwayExpiredQty = totalExpiredQty + wastedAfterExpiryQty;
   /** Used logs recorded on or after expiry day. */
-  let consumedAfterExpiryQty = 0;
-  for (const l of usedLogs) {
-    const d = daysPastExpiryUntilLogged(l.logged_at, l.food_items?.expiry_date);
-    if (d != null) consumedAfterExpiryQty += 1;
-  }
+  const consumedAfterExpiryQty = agg.consumedAfterExpiry;
 
   const discardVsConsumeDen = thrownAwayExpiredQty + consumedAfterExpiryQty;
   let expiredOutcomeRates: ExpiredOutcomeRates | null = null;
@@ -300,66 +681,21 @@ export async function loadWasteReportAllTime(userId: string): Promise<WasteRepor
     };
   }
 
-  const wasteEvents = wasteLogs.length;
-  const usedEvents = usedLogs.length;
+  const wasteEvents = totalWastedQty;
+  const usedEvents = agg.counts.used;
 
   let wasteRatePct: number | null = null;
   let rateFootnote = "Compared to used & wasted logs";
-  if (itemsAdded > 0) {
-    wasteRatePct = Math.min(100, Math.round((100 * wasteEvents) / itemsAdded));
+  if (agg.itemsAdded > 0) {
+    wasteRatePct = Math.min(100, Math.round((100 * wasteEvents) / agg.itemsAdded));
     rateFootnote = "Compared to items you've added";
   } else if (wasteEvents + usedEvents > 0) {
     wasteRatePct = Math.round((100 * wasteEvents) / (wasteEvents + usedEvents));
     rateFootnote = "Compared to used & wasted logs";
   }
 
-  const byItemTimes = new Map<
-    string,
-    { times: number; sample: FoodJoin | null; display: string }
-  >();
-  for (const l of wasteLogs) {
-    const k = itemKey(l.food_items);
-    const cur = byItemTimes.get(k) ?? { times: 0, sample: l.food_items ?? null, display: "" };
-    cur.times += 1;
-    cur.sample = cur.sample || l.food_items || null;
-    if (!cur.display) cur.display = displayItemName(l.food_items, k);
-    byItemTimes.set(k, cur);
-  }
-
-  let mostWasted: { name: string; times: number } | null = null;
-  for (const [, v] of byItemTimes) {
-    const name = v.display || displayItemName(v.sample, "");
-    if (!mostWasted || v.times > mostWasted.times) {
-      mostWasted = { name, times: v.times };
-    }
-  }
-
-  const byCatQty = new Map<string, number>();
-  for (const l of wasteLogs) {
-    const raw = (l.food_items?.category || "").trim() || "other";
-    const label = categoryLabel(raw);
-    byCatQty.set(label, (byCatQty.get(label) || 0) + 1);
-  }
-  const catSorted = [...byCatQty.entries()].sort((a, b) => b[1] - a[1]);
-  const maxCat = catSorted[0]?.[1] ?? 0;
-  const categoriesTop5: CategoryRow[] = catSorted.slice(0, 5).map(([displayLabel, q]) => ({
-    key: displayLabel,
-    displayLabel,
-    qty: q,
-    barPct: maxCat > 0 ? Math.round((q / maxCat) * 100) : 0,
-  }));
-
-  const itemSorted = [...byItemTimes.entries()].sort((a, b) => b[1].times - a[1].times);
-  const itemsTop5: RankedItemRow[] = itemSorted.slice(0, 5).map(([k, v], i) => {
-    const name = v.display || displayItemName(v.sample, k);
-    const catRaw = v.sample?.category || "";
-    return {
-      rank: i + 1,
-      name,
-      categoryLabel: categoryLabel(catRaw),
-      times: v.times,
-    };
-  });
+  const items = itemTotals(agg.items, "waste");
+  const mostWasted = items[0] ? { name: items[0].name, times: items[0].times } : null;
 
   return {
     totalWastedQty,
@@ -376,89 +712,211 @@ export async function loadWasteReportAllTime(userId: string): Promise<WasteRepor
     mostWasted,
     wasteRatePct,
     rateFootnote,
-    categoriesTop5,
-    itemsTop5,
+    categoriesTop5: categoryRows(categoryTotals(agg.categories, ["wasted", "expired"])),
+    itemsTop5: rankedItems(items),
+    money: summarizeWasteCost(agg.valued, agg.purchases),
   };
 }
 
-export async function loadConsumptionReportAllTime(
-  userId: string
-): Promise<ConsumptionReportData> {
-  const [usedLogs, wasteLogs, itemsAdded] = await Promise.all([
-    fetchAllLogs(userId, ["used"]),
-    fetchAllLogs(userId, ["wasted", "expired"]),
-    countFoodItemRows(userId),
-  ]);
-
+function buildConsumptionReport(agg: ReportAggregates): ConsumptionReportData {
   /** One "used" log = one consumed item (not sum of quantity field). */
-  const totalConsumedQty = usedLogs.length;
-  const usedEvents = usedLogs.length;
-  const wasteEvents = wasteLogs.length;
+  const totalConsumedQty = agg.counts.used;
+  const usedEvents = agg.counts.used;
+  const wasteEvents = agg.counts.wasted + agg.counts.expired;
 
   let consumeRatePct: number | null = null;
   let rateFootnote = "Compared to used & wasted logs";
-  if (itemsAdded > 0) {
-    consumeRatePct = Math.min(100, Math.round((100 * usedEvents) / itemsAdded));
+  if (agg.itemsAdded > 0) {
+    consumeRatePct = Math.min(100, Math.round((100 * usedEvents) / agg.itemsAdded));
     rateFootnote = "Compared to items you've added";
   } else if (usedEvents + wasteEvents > 0) {
     consumeRatePct = Math.round((100 * usedEvents) / (usedEvents + wasteEvents));
     rateFootnote = "Compared to used & wasted logs";
   }
 
-  const byItemTimes = new Map<
-    string,
-    { times: number; sample: FoodJoin | null; display: string }
-  >();
-  for (const l of usedLogs) {
-    const k = itemKey(l.food_items);
-    const cur = byItemTimes.get(k) ?? { times: 0, sample: l.food_items ?? null, display: "" };
-    cur.times += 1;
-    cur.sample = cur.sample || l.food_items || null;
-    if (!cur.display) cur.display = displayItemName(l.food_items, k);
-    byItemTimes.set(k, cur);
-  }
-
-  let mostConsumed: { name: string; times: number } | null = null;
-  for (const [, v] of byItemTimes) {
-    const name = v.display || displayItemName(v.sample, "");
-    if (!mostConsumed || v.times > mostConsumed.times) {
-      mostConsumed = { name, times: v.times };
-    }
-  }
-
-  const byCatQty = new Map<string, number>();
-  for (const l of usedLogs) {
-    const raw = (l.food_items?.category || "").trim() || "other";
-    const label = categoryLabel(raw);
-    byCatQty.set(label, (byCatQty.get(label) || 0) + 1);
-  }
-  const catSorted = [...byCatQty.entries()].sort((a, b) => b[1] - a[1]);
-  const maxCat = catSorted[0]?.[1] ?? 0;
-  const categoriesTop5: CategoryRow[] = catSorted.slice(0, 5).map(([displayLabel, q]) => ({
-    key: displayLabel,
-    displayLabel,
-    qty: q,
-    barPct: maxCat > 0 ? Math.round((q / maxCat) * 100) : 0,
-  }));
-
-  const itemSorted = [...byItemTimes.entries()].sort((a, b) => b[1].times - a[1].times);
-  const itemsTop5: RankedItemRow[] = itemSorted.slice(0, 5).map(([k, v], i) => {
-    const name = v.display || displayItemName(v.sample, k);
-    const catRaw = v.sample?.category || "";
-    return {
-      rank: i + 1,
-      name,
-      categoryLabel: categoryLabel(catRaw),
-      times: v.times,
-    };
-  });
+  const items = itemTotals(agg.items, "used");
+  const mostConsumed = items[0] ? { name: items[0].name, times: items[0].times } : null;
 
   return {
     totalConsumedQty,
     mostConsumed,
     consumeRatePct,
     rateFootnote,
-    categoriesTop5,
-    itemsTop5,
+    categoriesTop5: categoryRows(categoryTotals(agg.categories, ["used"])),
+    itemsTop5: rankedItems(items),
+  };
+}
+
+/** Weekly counts and worth (in `currency`) of one side's logs across the range. */
+function trendFor(agg: ReportAggregates, side: Side, range: ReportRange, currency: string | null) {
+  return weeklyTrend(
+    agg.days
+      .filter((d) => d.side === side)
+      .map((d) => ({
+        at: d.at,
+        count: d.times,
+        value: currency && (!d.currency || d.currency === currency) ? d.value : 0,
+      })),
+    range
+  );
+}
+
+/** A report over a date range, next to the one for the period before it. */
+export type WasteReportPeriod = {
+  range: ReportRange;
+  report: WasteReportData;
+  /** Null for all time. */
+  previousRange: ReportRange | null;
+  previous: WasteReportData | null;
+  /** Percent change from the previous period; null when there's nothing to compare with. */
+  change: { wasted: number | null; wastedValue: number | null };
+  /** Weekly waste across the range (value in the report's money currency). */
+  trend: WasteTrendData[];
+};
+
+export type ConsumptionReportPeriod = {
+  range: ReportRange;
+  report: ConsumptionReportData;
+  previousRange: ReportRange | null;
+  previous: ConsumptionReportData | null;
+  change: { consumed: number | null };
+  trend: ConsumptionTrendData[];
+};
+
+export async function loadWasteReport(
+  userId: string,
+  range: ReportRange
+): Promise<WasteReportPeriod> {
+  const scope = await getInventoryScope(userId);
+  const previousRange = previousReportRange(range);
+  const [[agg, previousAgg], stillExpiredInFridge] = await Promise.all([
+    loadAggregates(scope, previousRange ? [range, previousRange] : [range]),
+    countExpiredItemsStillInFridge(scope),
+  ]);
+
+  const report = buildWasteReport(agg!, stillExpiredInFridge);
+  const previous = previousAgg ? buildWasteReport(previousAgg, stillExpiredInFridge) : null;
+  const money = report.money;
+  const previousMoney = previous?.money;
+  const trend = trendFor(agg!, "waste", range, money?.currency ?? null).map((w) => ({
+    date: w.date,
+    wasteCount: w.count,
+    wasteValue: w.value,
+  }));
+
+  return {
+    range,
+    report,
+    previousRange,
+    previous,
+    change: {
+      wasted: previous ? percentChange(report.totalWastedQty, previous.totalWastedQty) : null,
+      wastedValue:
+        money && previousMoney && money.currency === previousMoney.currency
+          ? percentChange(money.wastedValue, previousMoney.wastedValue)
+          : null,
+    },
+    trend,
+  };
+}
+
+export async function loadConsumptionReport(
+  userId: string,
+  range: ReportRange
+): Promise<ConsumptionReportPeriod> {
+  const scope = await getInventoryScope(userId);
+  const previousRange = previousReportRange(range);
+  const [agg, previousAgg] = await loadAggregates(
+    scope,
+    previousRange ? [range, previousRange] : [range]
+  );
+
+  const report = buildConsumptionReport(agg!);
+  const previous = previousAgg ? buildConsumptionReport(previousAgg) : null;
+  const currency =
+    summarizeWasteCost(
+      agg!.valued.filter((l) => l.status === "used"),
+      []
+    )?.currency ?? null;
+  const trend = trendFor(agg!, "used", range, currency).map((w) => ({
+    date: w.date,
+    consumedCount: w.count,
+    consumedValue: w.value,
+  }));
+
+  return {
+    range,
+    report,
+    previousRange,
+    previous,
+    change: {
+      consumed: previous
+        ? percentChange(report.totalConsumedQty, previous.totalConsumedQty)
+        : null,
+    },
+    trend,
   };
 }
+
+export async function loadWasteReportAllTime(userId: string): Promise<WasteReportData> {
+  return (await loadWasteReport(userId, reportRange("all"))).report;
+}
+
+export async function loadConsumptionReportAllTime(
+  userId: string
+): Promise<ConsumptionReportData> {
+  return (await loadConsumptionReport(userId, reportRange("all"))).report;
+}
+
+/** Consumption of one product (grouping key) over a recent window. */
+export type UsageHistoryRow = {
+  key: string;
+  name: string;
+  category: string | null;
+  unit: string | null;
+  /** Sum of `quantity` across `used` logs. */
+  usedQty: number;
+  /** Number of `used` logs. */
+  events: number;
+  firstLoggedAt: string;
+  lastLoggedAt: string;
+};
+
+/**
+ * Per-product `used` totals for the last `days` days, for shopping suggestions.
+ * Unlike the report totals above, this sums log quantities.
+ */
+export async function loadUsageHistory(
+  userId: string,
+  days = 90
+): Promise<UsageHistoryRow[]> {
+  const scope = await getInventoryScope(userId);
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  const usedLogs = await fetchAllLogs(scope, ["used"], since.toISOString());
+
+  const byKey = new Map<string, UsageHistoryRow>();
+  for (const l of usedLogs) {
+    const k = itemKey(l.food_items);
+    const qty = Number(l.quantity) > 0 ? Number(l.quantity) : 1;
+    const cur = byKey.get(k);
+    if (!cur) {
+      byKey.set(k, {
+        key: k,
+        name: displayItemName(l.food_items, k),
+        category: l.food_items?.category?.trim() || null,
+        unit: l.food_items?.unit?.trim() || null,
+        usedQty: qty,
+        events: 1,
+        firstLoggedAt: l.logged_at,
+        lastLoggedAt: l.logged_at,
+      });
+      continue;
+    }
+    cur.usedQty += qty;
+    cur.events += 1;
+    // Logs arrive newest first.
+    cur.firstLoggedAt = l.logged_at;
+  }
+  return [...byKey.values()];
+}
@@ -0,0 +1,254 @@
+// services/inventoryRealtimeService.ts
+import { FoodItem, supabase, UsageLog } from "@/lib/supabase";
+import {
+  getInventoryScope,
+  inventoryScopeFilter,
+} from "@/services/householdService";
+import { addUrgencyToItem, UrgencyInfo } from "@/utils/urgencyUtils";
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+} from "@supabase/supabase-js";
+import { AppState, AppStateStatus } from "react-native";
+
+export type InventoryChange =
+  | {
+      kind: "food_item";
+      /** Row after the change; null when it was deleted or used up (quantity 0). */
+      item: (FoodItem & { urgency: UrgencyInfo }) | null;
+      itemId: string;
+    }
+  | { kind: "usage_log"; log: UsageLog }
+  /** Events may have been missed while disconnected; refetch instead of patching. */
+  | { kind: "resync" };
+
+export type InventoryChangeListener = (change: InventoryChange) => void;
+
+type InventoryTable = "food_items" | "usage_logs";
+
+/** How long after this device writes a row its realtime echo is looked for. */
+const LOCAL_WRITE_ECHO_MS = 5000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+type LocalWrite = { values?: Record<string, unknown>; until: number };
+
+const localWrites = new Map<string, LocalWrite[]>();
+
+function localWriteKey(table: InventoryTable, itemId: string) {
+  return `${table}:${itemId}`;
+}
+
+function sameValue(written: unknown, echoed: unknown): boolean {
+  if (written === undefined) return true;
+  // numeric columns can come back as strings.
+  if (typeof written === "number") return Number(echoed) === written;
+  return echoed === written;
+}
+
+/**
+ * Record that this device is writing `itemId` so the realtime event it causes is
+ * treated as an echo: screens already applied the change optimistically, and
+ * re-applying relative updates (quantity - n) would double count. usage_logs are
+ * keyed by their `item_id` because the log id is unknown until the insert returns.
+ *
+ * `values` are the columns being written; only an event carrying them is the echo,
+ * so another device's change to the same row in the meantime still comes through.
+ * Leave them out only where the outcome isn't known here (deletes, server-side
+ * decrements).
+ */
+export function noteLocalInventoryWrite(
+  table: InventoryTable,
+  itemId: string,
+  values?: Record<string, unknown>
+): void {
+  const key = localWriteKey(table, itemId);
+  const pending = localWrites.get(key) ?? [];
+  localWrites.set(key, [...pending, { values, until: Date.now() + LOCAL_WRITE_ECHO_MS }]);
+}
+
+/** Whether `row` is the echo of a noted write; each write is matched once. */
+export function isLocalInventoryEcho(
+  table: InventoryTable,
+  itemId: string,
+  row: Record<string, unknown> = {}
+): boolean {
+  const key = localWriteKey(table, itemId);
+  const now = Date.now();
+  const pending = (localWrites.get(key) ?? []).filter((write) => write.until >= now);
+  const index = pending.findIndex(
+    ({ values }) =>
+      !values || Object.entries(values).every(([column, v]) => sameValue(v, row[column]))
+  );
+  if (index !== -1) pending.splice(index, 1);
+  if (pending.length > 0) localWrites.set(key, pending);
+  else localWrites.delete(key);
+  return index !== -1;
+}
+
+/**
+ * Apply a `food_item` change to a screen's list: replace or insert by id, drop
+ * rows that were deleted or used up.
+ */
+export function applyFoodItemChange<T extends FoodItem>(
+  items: T[],
+  change: Extract<InventoryChange, { kind: "food_item" }>
+): T[] {
+  const index = items.findIndex((it) => it.id === change.itemId);
+  if (!change.item) {
+    return index === -1 ? items : items.filter((it) => it.id !== change.itemId);
+  }
+  const next = change.item as unknown as T;
+  if (index === -1) return [...items, next];
+  const copy = items.slice();
+  copy[index] = next;
+  return copy;
+}
+
+const listeners = new Set<InventoryChangeListener>();
+let channel: RealtimeChannel | null = null;
+let activeUserId: string | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let hasSubscribedOnce = false;
+let appStateSubscription: { remove: () => void } | null = null;
+
+function emit(change: InventoryChange) {
+  listeners.forEach((listener) => {
+    try {
+      listener(change);
+    } catch (e) {
+      console.warn("inventoryRealtime: listener failed", e);
+    }
+  });
+}
+
+function handleFoodItemPayload(payload: RealtimePostgresChangesPayload<FoodItem>) {
+  const row = payload.eventType === "DELETE" ? null : payload.new;
+  const itemId = payload.eventType === "DELETE" ? payload.old.id : payload.new.id;
+  if (!itemId || isLocalInventoryEcho("food_items", itemId, { ...row })) return;
+
+  emit({
+    kind: "food_item",
+    itemId,
+    item: row && row.quantity > 0 ? addUrgencyToItem(row) : null,
+  });
+}
+
+function handleUsageLogPayload(payload: RealtimePostgresChangesPayload<UsageLog>) {
+  if (payload.eventType !== "INSERT") return;
+  const log = payload.new;
+  if (!log.item_id || isLocalInventoryEcho("usage_logs", log.item_id, { ...log })) return;
+  emit({ kind: "usage_log", log });
+}
+
+function clearReconnectTimer() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+}
+
+function teardownChannel() {
+  clearReconnectTimer();
+  if (channel) {
+    const old = channel;
+    channel = null;
+    void supabase.removeChannel(old);
+  }
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || !activeUserId) return;
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempts);
+  reconnectAttempts += 1;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    void connect();
+  }, delay);
+}
+
+async function connect(): Promise<void> {
+  const userId = activeUserId;
+  if (!userId) return;
+  teardownChannel();
+
+  const scopeFilter = inventoryScopeFilter(await getInventoryScope(userId));
+  // Stopped or switched accounts while the scope was loading.
+  if (activeUserId !== userId || channel) return;
+
+  const filter = `${scopeFilter.column}=eq.${scopeFilter.value}`;
+  const next = supabase
+    .channel(`inventory:${scopeFilter.value}`)
+    .on<FoodItem>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "food_items", filter },
+      handleFoodItemPayload
+    )
+    .on<UsageLog>(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "usage_logs", filter },
+      handleUsageLogPayload
+    );
+  channel = next;
+
+  next.subscribe((status) => {
+    if (channel !== next) return;
+    if (status === "SUBSCRIBED") {
+      reconnectAttempts = 0;
+      if (hasSubscribedOnce) emit({ kind: "resync" });
+      hasSubscribedOnce = true;
+      return;
+    }
+    if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+      scheduleReconnect();
+    }
+  });
+}
+
+function handleAppStateChange(state: AppStateStatus) {
+  if (state !== "active" || !activeUserId) return;
+  // The socket is often dropped while backgrounded; reconnect right away.
+  if (!channel || channel.state !== "joined") {
+    clearReconnectTimer();
+    reconnectAttempts = 0;
+    void connect();
+  }
+}
+
+function start(userId: string) {
+  if (activeUserId === userId && channel) return;
+  activeUserId = userId;
+  hasSubscribedOnce = false;
+  reconnectAttempts = 0;
+  appStateSubscription ??= AppState.addEventListener("change", handleAppStateChange);
+  void connect();
+}
+
+function stop() {
+  activeUserId = null;
+  teardownChannel();
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+}
+
+/** Ask listeners to refetch, e.g. after queued offline changes reached the server. */
+export function requestInventoryResync(): void {
+  emit({ kind: "resync" });
+}
+
+/**
+ * Listen for food_items / usage_logs changes made by other devices or household
+ * members. One shared channel is opened for the first listener and closed with the last.
+ */
+export function subscribeToInventoryChanges(
+  userId: string,
+  listener: InventoryChangeListener
+): () => void {
+  listeners.add(listener);
+  start(userId);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
@@ -1,5 +1,8 @@
 import type { FoodItem } from "@/lib/supabase";
 import { supabase } from "@/lib/supabase";
+import { parseYmdLocal, toLocalYmd } from "@/utils/localDate";
+import { withEffectiveExpiry } from "@/utils/openedExpiry";
+import { expiryKindOf } from "@/utils/urgencyUtils";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Notifications from "expo-notifications";
 import { Alert, Platform } from "react-native";
@@ -8,8 +11,20 @@ import {
   calculateItemReminderOccurrences,
   expiryCalendarDaysAway,
 } from "./itemExpiryReminderSchedule";
+import {
+  MAX_PENDING_NOTIFICATIONS,
+  planReminderSlots,
+  ReminderOccurrence,
+  splitReminderIdsAtLimit,
+} from "./notificationDigestSchedule";
+import { adaptDigestSettings } from "./notificationPattern";
+import { pushReminderKey, pushTokenService } from "./pushTokenService";
+import {
+  EXPIRY_ACTIONS_CATEGORY,
+  loadNotificationPattern,
+  loadNotificationSettings,
+} from "./smartNotificationService";
 
-const MAX_TOTAL_ITEM_REMINDER_NOTIFICATIONS = 64;
 const DEFAULT_TIME = "13:00";
 
 /** Same key as `SettingsContext` — expiry toggle lives on device. */
@@ -67,15 +82,6 @@ export function normalizeRepeatForUi(value?: string | null): string {
   return map[r] ?? "None";
 }
 
-function parseYmdLocal(ymd: string): Date {
-  const m = ymd.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (!m) {
-    const d = new Date(ymd);
-    return d;
-  }
-  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
-}
-
 export { parseNotificationIdsFromRow } from "./notificationIdsParse";
 
 export async function cancelNotificationIds(ids: string[]): Promise<void> {
@@ -132,6 +138,26 @@ export async function cancelAllScheduledItemExpiryNotifications(): Promise<void>
   }
 }
 
+/**
+ * Cancels the single-item reminders (including snoozed ones) for `itemId`, e.g. right
+ * after it was used up from a notification while offline. Grouped reminders keep it
+ * until the next full reschedule.
+ */
+export async function cancelSingleItemReminderNotifications(itemId: string): Promise<void> {
+  try {
+    const all = await Notifications.getAllScheduledNotificationsAsync();
+    for (const n of all) {
+      const data = n.content.data as Record<string, unknown>;
+      const t = notificationDataType(data);
+      if ((t === "item_expiry" || t === "expiry") && data.itemId === itemId) {
+        await Notifications.cancelScheduledNotificationAsync(n.identifier);
+      }
+    }
+  } catch (e) {
+    console.warn("cancelSingleItemReminderNotifications:", e);
+  }
+}
+
 /**
  * Cancels scheduled locals from inventory expiry flows: grouped batch (`expiry`) and
  * per-item DATE reminders (`item_expiry`). Does not touch other `data.type` values.
@@ -157,6 +183,7 @@ export async function clearLocalExpiryAlertsForCurrentUser(): Promise<void> {
   await cancelAllFridgeExpiryScheduledNotifications();
   if (userId) {
     await clearAllNotificationIdsForUser(userId);
+    await pushTokenService.unregister();
   }
 }
 
@@ -204,6 +231,12 @@ function singleItemBody(item: FoodItem): string {
   const ymd = item.expiry_date ?? "";
   const dateStr = formatExpiryYmdLong(ymd);
   const days = expiryCalendarDaysAway(ymd);
+  if (expiryKindOf(item) === "best_before") {
+    if (days < 0) return `Past best before · ${dateStr}`;
+    if (days === 0) return `Best before today · ${dateStr}`;
+    if (days === 1) return `Best before tomorrow · ${dateStr}`;
+    return `Best before in ${days} days · ${dateStr}`;
+  }
   if (days < 0) return `Expired · ${dateStr}`;
   if (days === 0) return `Expires today · ${dateStr}`;
   if (days === 1) return `Expires tomorrow · ${dateStr}`;
@@ -235,20 +268,12 @@ function groupedReminderBody(items: FoodItem[]): string {
   return `${a}, ${b}, and ${more} more item${more === 1 ? "" : "s"} need attention.`;
 }
 
-function triggerGroupKey(d: Date): string {
-  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}-${d.getHours()}-${d.getMinutes()}`;
-}
-
-type ReminderSlot = {
-  fireAt: Date;
-  items: FoodItem[];
-};
-
 async function scheduleNotificationAt(
   title: string,
   body: string,
   fireDate: Date,
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  categoryIdentifier?: string
 ): Promise<string | null> {
   try {
     return await Notifications.scheduleNotificationAsync({
@@ -256,6 +281,7 @@ async function scheduleNotificationAt(
         title,
         body,
         data,
+        ...(categoryIdentifier ? { categoryIdentifier } : {}),
         ...(Platform.OS === "ios" ? { subtitle: itemReminderSubtitleIos() } : {}),
         sound: "default",
         ...(Platform.OS === "ios"
@@ -277,6 +303,9 @@ async function scheduleNotificationAt(
   }
 }
 
+/** One item's reminder on one day, keyed as the push service knows it. */
+type PlannedReminder = { id: string; item: FoodItem };
+
 function itemEligibleForReminders(item: FoodItem): boolean {
   if ((item.quantity ?? 0) <= 0) return false;
   if (!item.notifications_enabled) return false;
@@ -287,7 +316,14 @@ function itemEligibleForReminders(item: FoodItem): boolean {
 
 /**
  * Rebuilds every per-item reminder notification for the signed-in user.
- * Groups by exact trigger minute so items that share the same user-chosen fire time become one notification.
+ * Reminders are merged per the notification settings, adapted to the learned response
+ * pattern: into the day's digest(s), or by exact
+ * trigger minute in realtime mode. None fire in quiet hours, and together with other pending
+ * notifications they stay within the OS limit. Snoozed reminders stay while their item is
+ * still eligible. Offline, the scheduled reminders are left as they are.
+ *
+ * The device then tells the server which reminders it has, so the push service only
+ * sends the ones that didn't fit or that it never scheduled.
  */
 export async function rescheduleAllItemReminderNotificationsForUser(
   options?: { showPermissionDeniedAlert?: boolean }
@@ -299,12 +335,10 @@ export async function rescheduleAllItemReminderNotificationsForUser(
   if (!(await readExpiryAlertsEnabledFromDevice())) {
     await cancelAllFridgeExpiryScheduledNotifications();
     await clearAllNotificationIdsForUser(userId);
+    await pushTokenService.unregister();
     return;
   }
 
-  await cancelAllScheduledItemExpiryNotifications();
-  await clearAllNotificationIdsForUser(userId);
-
   const { data: rows, error } = await supabase
     .from("food_items")
     .select("*")
@@ -316,36 +350,50 @@ export async function rescheduleAllItemReminderNotificationsForUser(
     return;
   }
 
-  const items = (rows as FoodItem[]).filter(itemEligibleForReminders);
-  const now = new Date();
-  const slotMap = new Map<string, ReminderSlot>();
-
-  for (const item of items) {
-    for (const fireAt of calculateItemReminderOccurrences(item, now)) {
-      const key = triggerGroupKey(fireAt);
-      const existing = slotMap.get(key);
-      if (!existing) {
-        slotMap.set(key, { fireAt, items: [item] });
-      } else {
-        if (!existing.items.some((i) => i.id === item.id)) {
-          existing.items.push(item);
-        }
-      }
+  // Opened items are reminded about against their after-opening date.
+  const items = (rows as FoodItem[])
+    .map(withEffectiveExpiry)
+    .filter(itemEligibleForReminders);
+
+  const eligibleIds = new Set(items.map((item) => item.id));
+  try {
+    for (const n of await Notifications.getAllScheduledNotificationsAsync()) {
+      const data = n.content.data as Record<string, unknown>;
+      if (notificationDataType(data) !== "item_expiry") continue;
+      if (data.snoozed === true && eligibleIds.has(String(data.itemId))) continue;
+      await Notifications.cancelScheduledNotificationAsync(n.identifier);
     }
+  } catch (e) {
+    console.warn("rescheduleAllItemReminderNotificationsForUser:", e);
   }
+  await clearAllNotificationIdsForUser(userId);
 
-  let slots = Array.from(slotMap.values()).sort(
-    (a, b) => a.fireAt.getTime() - b.fireAt.getTime()
+  // Reminders since yesterday are planned too: those already past were delivered here,
+  // and the server must not push them again.
+  const now = new Date();
+  const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  const occurrences: ReminderOccurrence<PlannedReminder>[] = items.flatMap((item) =>
+    calculateItemReminderOccurrences(item, since).map((fireAt) => ({
+      item: { id: pushReminderKey(item.id, toLocalYmd(fireAt)), item },
+      fireAt,
+    }))
   );
 
-  if (slots.length === 0) return;
+  // Leave room for whatever else is pending (daily checks, smart notifications, snoozes).
+  const pending = (await Notifications.getAllScheduledNotificationsAsync()).length;
+  const limit = Math.max(0, MAX_PENDING_NOTIFICATIONS - pending);
+  // Send times and frequency follow what was learned from the user's responses.
+  const settings = adaptDigestSettings(
+    await loadNotificationSettings(),
+    await loadNotificationPattern()
+  );
+  const planned = planReminderSlots(occurrences, settings, { now, limit: Infinity });
+  const slots = planned.slice(0, limit);
 
-  if (slots.length > MAX_TOTAL_ITEM_REMINDER_NOTIFICATIONS) {
-    console.warn(
-      `Capping item reminder notifications at ${MAX_TOTAL_ITEM_REMINDER_NOTIFICATIONS} (had ${slots.length} slots).`
-    );
-    slots = slots.slice(0, MAX_TOTAL_ITEM_REMINDER_NOTIFICATIONS);
-  }
+  // Reminders past the limit are left to the server.
+  await pushTokenService.register(splitReminderIdsAtLimit(occurrences, planned, limit).local);
+
+  if (slots.length === 0) return;
 
   const status = await requestNotificationPermissions();
   if (status !== "granted") {
@@ -361,7 +409,9 @@ export async function rescheduleAllItemReminderNotificationsForUser(
   const itemIdToIds = new Map<string, string[]>();
 
   for (const slot of slots) {
-    const list = sortItemsByExpiryUrgency(slot.items);
+    const list = sortItemsByExpiryUrgency([
+      ...new Map(slot.items.map(({ item }) => [item.id, item])).values(),
+    ]);
     let notifId: string | null = null;
 
     if (list.length === 1) {
@@ -378,7 +428,8 @@ export async function rescheduleAllItemReminderNotificationsForUser(
           itemId: item.id,
           group: false,
           expiryYmd: expiryYmd || undefined,
-        }
+        },
+        EXPIRY_ACTIONS_CATEGORY
       );
     } else {
       const count = list.length;
@@ -1,25 +1,13 @@
 import type { FoodItem } from "@/lib/supabase";
+import { calendarDaysUntil, parseYmdLocal } from "@/utils/localDate";
 
 const MAX_SCHEDULED_PER_ITEM = 64;
 const DEFAULT_TIME = "13:00";
 
 export type ItemNotificationRepeat = "none" | "daily" | "weekly" | "monthly";
 
-function parseYmdLocal(ymd: string): Date {
-  const m = ymd.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (!m) {
-    const d = new Date(ymd);
-    return d;
-  }
-  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
-}
-
 export function expiryCalendarDaysAway(expiryYmd: string): number {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const e = parseYmdLocal(expiryYmd);
-  e.setHours(0, 0, 0, 0);
-  return Math.ceil((e.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+  return calendarDaysUntil(expiryYmd);
 }
 
 function normalizeTimeString(value?: string | null): string {
@@ -0,0 +1,210 @@
+// services/mealPlanService.ts
+import { Recipe } from "@/lib/recipes";
+import {
+  MealPlanEntry,
+  MealPlanReservation,
+  MealSlot,
+  supabase,
+} from "@/lib/supabase";
+import type { FoodItemWithUrgency } from "@/services/foodItems";
+import {
+  canEditHouseholdInventory,
+  householdService,
+} from "@/services/householdService";
+import { shoppingListService } from "@/services/shoppingListService";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+import { matchRecipe, suggestedUsageQuantity } from "@/utils/recipeMatching";
+
+export const MEAL_SLOTS: MealSlot[] = ["breakfast", "lunch", "dinner"];
+
+/** Local calendar day as `YYYY-MM-DD` (meal plans follow the phone's calendar). */
+export function ymdLocal(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/** The 7 local days starting at `start`. */
+export function weekDays(start: Date): string[] {
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+    return ymdLocal(day);
+  });
+}
+
+/** Quantity per item held by meals that haven't been cooked yet. */
+export function reservedQuantities(entries: MealPlanEntry[]): Map<string, number> {
+  const reserved = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.cooked_at) continue;
+    for (const r of entry.reserved_items ?? []) {
+      reserved.set(r.item_id, (reserved.get(r.item_id) ?? 0) + r.quantity);
+    }
+  }
+  return reserved;
+}
+
+/**
+ * Inventory minus what planned meals hold. Items fully reserved drop out, so
+ * suggestions and new plans only use what's actually free.
+ */
+export function withoutReserved<T extends FoodItemWithUrgency>(
+  items: T[],
+  reserved: Map<string, number>
+): T[] {
+  return items
+    .map((item) => {
+      const held = reserved.get(item.id) ?? 0;
+      return held > 0 ? { ...item, quantity: item.quantity - held } : item;
+    })
+    .filter((item) => item.quantity > 0);
+}
+
+export type PlanRecipeResult = {
+  entry: MealPlanEntry;
+  /** Missing ingredient names added to the shopping list. */
+  addedToShoppingList: string[];
+};
+
+async function requireUserId(): Promise<string> {
+  const { data: userData, error: authError } = await supabase.auth.getUser();
+  if (authError) throw authError;
+  if (!userData.user) throw new Error("User not authenticated");
+  return userData.user.id;
+}
+
+export const mealPlanService = {
+  /** Entries from `fromDay` through `toDay` (inclusive, `YYYY-MM-DD`). */
+  async getEntries(fromDay: string, toDay: string): Promise<MealPlanEntry[]> {
+    const { data, error } = await supabase
+      .from("meal_plan_entries")
+      .select("*")
+      .gte("planned_for", fromDay)
+      .lte("planned_for", toDay)
+      .order("planned_for", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as MealPlanEntry[];
+  },
+
+  /** Reservations held by today's and future uncooked meals. */
+  async getReservations(): Promise<Map<string, number>> {
+    const { data, error } = await supabase
+      .from("meal_plan_entries")
+      .select("reserved_items, cooked_at")
+      .gte("planned_for", ymdLocal(new Date()))
+      .is("cooked_at", null);
+
+    if (error) throw error;
+    return reservedQuantities((data ?? []) as MealPlanEntry[]);
+  },
+
+  async addEntry(entry: {
+    plannedFor: string;
+    slot: MealSlot;
+    title: string;
+    recipeId?: string | null;
+    notes?: string | null;
+    reservedItems?: MealPlanReservation[];
+  }): Promise<MealPlanEntry> {
+    const title = entry.title.trim();
+    if (!title) throw new Error("Give the meal a name.");
+
+    const userId = await requireUserId();
+    const membership = await householdService.getMembership({ userId });
+    if (!canEditHouseholdInventory(membership?.role)) {
+      throw new Error("Viewers can't change this household's meal plan.");
+    }
+
+    const { data, error } = await supabase
+      .from("meal_plan_entries")
+      .insert({
+        user_id: userId,
+        household_id: membership?.household.id ?? null,
+        planned_for: entry.plannedFor,
+        slot: entry.slot,
+        title,
+        recipe_id: entry.recipeId ?? null,
+        notes: entry.notes?.trim() || null,
+        reserved_items: entry.reservedItems ?? [],
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as MealPlanEntry;
+  },
+
+  /**
+   * Plan a recipe: reserve the inventory it would use (after existing
+   * reservations) and put missing required ingredients on the shopping list,
+   * skipping anything already on it.
+   */
+  async planRecipe(
+    recipe: Recipe,
+    plannedFor: string,
+    slot: MealSlot,
+    items: FoodItemWithUrgency[]
+  ): Promise<PlanRecipeResult> {
+    const free = withoutReserved(items, await mealPlanService.getReservations());
+    const match = matchRecipe(recipe, free);
+
+    const entry = await mealPlanService.addEntry({
+      plannedFor,
+      slot,
+      title: recipe.name,
+      recipeId: recipe.id,
+      reservedItems: match.uses
+        .map(({ ingredient, item }) => ({
+          item_id: item.id,
+          quantity: suggestedUsageQuantity(ingredient, item),
+        }))
+        .filter((r) => r.quantity > 0),
+    });
+
+    const addedToShoppingList: string[] = [];
+    if (match.missing.length > 0) {
+      const onList = new Set(
+        (await shoppingListService.getItems())
+          .filter((it) => (it.status ?? "list") === "list")
+          .map((it) => normalizeFoodNameForGrouping(it.name))
+      );
+      for (const ingredient of match.missing) {
+        const key = normalizeFoodNameForGrouping(ingredient.name);
+        if (onList.has(key)) continue;
+        onList.add(key);
+        await shoppingListService.addItem({
+          id: `meal-${entry.id}-${addedToShoppingList.length}`,
+          name: ingredient.name.charAt(0).toUpperCase() + ingredient.name.slice(1),
+          quantity: 1,
+          status: "list",
+          priority: "medium",
+          notes: `For ${recipe.name}`,
+        });
+        addedToShoppingList.push(ingredient.name);
+      }
+    }
+
+    return { entry, addedToShoppingList };
+  },
+
+  /** Marks a meal cooked (or not), which releases (or restores) its reservations. */
+  async setCooked(id: string, cooked: boolean): Promise<MealPlanEntry> {
+    const { data, error } = await supabase
+      .from("meal_plan_entries")
+      .update({ cooked_at: cooked ? new Date().toISOString() : null })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as MealPlanEntry;
+  },
+
+  async deleteEntry(id: string): Promise<void> {
+    const { error } = await supabase.from("meal_plan_entries").delete().eq("id", id);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,176 @@
+import type { NotificationSettings } from "./smartNotificationService";
+
+/**
+ * iOS keeps at most 64 pending local notifications per app and silently drops the
+ * rest; every scheduler shares this budget.
+ */
+export const MAX_PENDING_NOTIFICATIONS = 64;
+
+/** Most digest times a custom schedule can have. */
+export const MAX_DIGEST_TIMES = 4;
+
+export const DEFAULT_DIGEST_TIMES = ["09:00", "18:00"];
+
+export type DigestSettings = Pick<
+  NotificationSettings,
+  "frequency" | "digestTimes" | "quietHours"
+>;
+
+export type ReminderOccurrence<T> = { item: T; fireAt: Date };
+
+export type ReminderSlot<T> = { fireAt: Date; items: T[] };
+
+/** Minutes after midnight for `HH:mm`, or null when it isn't a valid time. */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const m = typeof value === "string" ? value.match(/^(\d{1,2}):(\d{2})$/) : null;
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+function minutesOf(d: Date): number {
+  return d.getHours() * 60 + d.getMinutes();
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  return new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    Math.floor(minutes / 60),
+    minutes % 60,
+    0,
+    0
+  );
+}
+
+/**
+ * Whether `d` falls in quiet hours. The window may run past midnight
+ * (22:00–07:00); its end is the first minute notifications may fire again.
+ */
+export function isInQuietHours(
+  d: Date,
+  quietHours: NotificationSettings["quietHours"]
+): boolean {
+  if (!quietHours.enabled) return false;
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+  const now = minutesOf(d);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** `d`, or the end of the quiet hours it falls in. */
+export function deferPastQuietHours(
+  d: Date,
+  quietHours: NotificationSettings["quietHours"]
+): Date {
+  if (!isInQuietHours(d, quietHours)) return d;
+  const end = parseTimeOfDay(quietHours.end)!;
+  const deferred = atMinutes(d, end);
+  // Before midnight in an overnight window: the quiet hours end tomorrow.
+  if (minutesOf(d) >= end) deferred.setDate(deferred.getDate() + 1);
+  return deferred;
+}
+
+/**
+ * Times of day (minutes, ascending) that reminders are gathered into, or an empty
+ * list when each reminder fires at its own time.
+ */
+export function digestTimesOfDay(settings: DigestSettings): number[] {
+  if (settings.frequency === "realtime") return [];
+  const wanted =
+    settings.frequency === "daily" ? 1 : settings.frequency === "twice-daily" ? 2 : MAX_DIGEST_TIMES;
+  const chosen = [
+    ...new Set(
+      (settings.digestTimes ?? [])
+        .map(parseTimeOfDay)
+        .filter((t): t is number => t !== null)
+    ),
+  ];
+  // Top up from the defaults when fewer times were chosen than the mode needs.
+  const minimum = settings.frequency === "custom" ? 1 : wanted;
+  for (const t of DEFAULT_DIGEST_TIMES.map((d) => parseTimeOfDay(d)!)) {
+    if (chosen.length >= minimum) break;
+    if (!chosen.includes(t)) chosen.push(t);
+  }
+  return chosen.slice(0, wanted).sort((a, b) => a - b);
+}
+
+/**
+ * When a reminder goes out under the digest settings: in the latest digest of its
+ * day that isn't later than the reminder itself (the first one when it is earlier
+ * than all of them), then moved out of quiet hours.
+ */
+export function digestFireTime(fireAt: Date, settings: DigestSettings): Date {
+  const times = digestTimesOfDay(settings);
+  let at = fireAt;
+  if (times.length > 0) {
+    const own = minutesOf(fireAt);
+    const slot = [...times].reverse().find((t) => t <= own) ?? times[0]!;
+    at = atMinutes(fireAt, slot);
+  }
+  return deferPastQuietHours(at, settings.quietHours);
+}
+
+function slotKey(d: Date): string {
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}-${d.getHours()}-${d.getMinutes()}`;
+}
+
+/**
+ * Merges per-item reminder occurrences into the notifications to schedule: one per
+ * digest time per day (or per exact minute in realtime mode), none in quiet hours,
+ * soonest first and at most `limit` of them.
+ *
+ * A digest that has already gone out today doesn't swallow a later reminder; that
+ * one keeps its own time.
+ */
+export function planReminderSlots<T extends { id: string }>(
+  occurrences: ReminderOccurrence<T>[],
+  settings: DigestSettings,
+  options: { now?: Date; limit?: number } = {}
+): ReminderSlot<T>[] {
+  const now = options.now ?? new Date();
+  const slots = new Map<string, ReminderSlot<T>>();
+
+  for (const { item, fireAt } of occurrences) {
+    let at = digestFireTime(fireAt, settings);
+    if (at.getTime() <= now.getTime()) {
+      at = deferPastQuietHours(fireAt, settings.quietHours);
+    }
+    if (at.getTime() <= now.getTime()) continue;
+
+    const key = slotKey(at);
+    const slot = slots.get(key);
+    if (!slot) slots.set(key, { fireAt: at, items: [item] });
+    else if (!slot.items.some((i) => i.id === item.id)) slot.items.push(item);
+  }
+
+  const sorted = [...slots.values()].sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  return sorted.slice(0, Math.max(0, options.limit ?? MAX_PENDING_NOTIFICATIONS));
+}
+
+/**
+ * Splits reminder ids by whether the device delivers them when only the first `limit`
+ * of the `planned` slots are scheduled. Occurrences no slot holds have already gone
+ * out, so they count as local too.
+ */
+export function splitReminderIdsAtLimit<T extends { id: string }>(
+  occurrences: ReminderOccurrence<T>[],
+  planned: ReminderSlot<T>[],
+  limit: number
+): { local: string[]; overflow: string[] } {
+  const overflow = new Set(
+    planned.slice(Math.max(0, limit)).flatMap((slot) => slot.items.map((item) => item.id))
+  );
+  const ids = [...new Set(occurrences.map((o) => o.item.id))];
+  return { local: ids.filter((id) => !overflow.has(id)), overflow: [...overflow] };
+}
@@ -0,0 +1,232 @@
+import {
+  deferPastQuietHours,
+  digestTimesOfDay,
+  DigestSettings,
+  formatTimeOfDay,
+  parseTimeOfDay,
+} from "./notificationDigestSchedule";
+import type {
+  NotificationSettings,
+  UserNotificationPattern,
+} from "./smartNotificationService";
+
+/** Responses needed before the learned time or rates change anything. */
+export const MIN_PATTERN_SAMPLES = 5;
+
+/** Weight of the newest response in the running rates and response time. */
+const LEARNING_RATE = 0.2;
+
+/** Dismissed this often, and acted on this rarely, reminders are sent less often. */
+const REDUCE_DISMISSAL_RATE = 0.6;
+const REDUCE_ACTION_RATE = 0.25;
+
+/** Days ahead the daily expiry check looks, normally and when sending less often. */
+export const EXPIRY_CHECK_LOOKAHEAD_DAYS = 3;
+export const REDUCED_EXPIRY_CHECK_LOOKAHEAD_DAYS = 1;
+
+/** Ignored-notification ids remembered so each is counted once. */
+const MAX_IGNORED_IDS = 50;
+
+/**
+ * What the user did with a notification: pressed one of its buttons, opened the app
+ * from it, snoozed it, or dismissed or ignored it.
+ */
+export type NotificationInteraction = {
+  kind: "action" | "open" | "snooze" | "dismiss";
+  /** When the user responded. */
+  at: Date;
+  /** When the notification was shown. */
+  sentAt: Date;
+  type: string;
+};
+
+export function emptyNotificationPattern(userId = ""): UserNotificationPattern {
+  return {
+    userId,
+    bestTimeToNotify: null,
+    avgResponseTime: 0,
+    preferredNotificationTypes: [],
+    dismissalRate: 0,
+    actionTakenRate: 0,
+    responseHours: Array.from({ length: 24 }, () => 0),
+    samples: 0,
+    ignoredNotificationIds: [],
+    lastUpdated: new Date(0),
+  };
+}
+
+/** A stored pattern, with missing or malformed fields reset. */
+export function sanitizeNotificationPattern(raw: unknown): UserNotificationPattern {
+  const empty = emptyNotificationPattern();
+  if (!raw || typeof raw !== "object") return empty;
+  const o = raw as Partial<Record<keyof UserNotificationPattern, unknown>>;
+  const rate = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : 0;
+  const count = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0 ? Math.floor(v) : 0;
+  const strings = (v: unknown) =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === "string") : [];
+  const hours = Array.isArray(o.responseHours) ? o.responseHours : [];
+  const best = typeof o.bestTimeToNotify === "string" ? parseTimeOfDay(o.bestTimeToNotify) : null;
+  const lastUpdated = new Date(typeof o.lastUpdated === "string" ? o.lastUpdated : 0);
+  return {
+    userId: typeof o.userId === "string" ? o.userId : "",
+    bestTimeToNotify: best === null ? null : formatTimeOfDay(best),
+    avgResponseTime:
+      typeof o.avgResponseTime === "number" && o.avgResponseTime > 0 ? o.avgResponseTime : 0,
+    preferredNotificationTypes: strings(o.preferredNotificationTypes),
+    dismissalRate: rate(o.dismissalRate),
+    actionTakenRate: rate(o.actionTakenRate),
+    responseHours: empty.responseHours.map((_, h) => count(hours[h])),
+    samples: count(o.samples),
+    ignoredNotificationIds: strings(o.ignoredNotificationIds).slice(-MAX_IGNORED_IDS),
+    lastUpdated: Number.isNaN(lastUpdated.getTime()) ? new Date(0) : lastUpdated,
+  };
+}
+
+function ema(previous: number, value: number, samples: number): number {
+  // The first responses are averaged plainly so one early answer doesn't dominate.
+  const weight = Math.max(LEARNING_RATE, 1 / (samples + 1));
+  return previous + (value - previous) * weight;
+}
+
+/** The hour most responses came in, as `HH:00`, once there are enough of them. */
+function bestHour(responseHours: number[]): string | null {
+  const total = responseHours.reduce((sum, n) => sum + n, 0);
+  if (total < MIN_PATTERN_SAMPLES) return null;
+  let best = 0;
+  responseHours.forEach((n, h) => {
+    if (n > responseHours[best]!) best = h;
+  });
+  return formatTimeOfDay(best * 60);
+}
+
+/** The pattern after one more interaction. */
+export function recordNotificationInteraction(
+  pattern: UserNotificationPattern,
+  interaction: NotificationInteraction
+): UserNotificationPattern {
+  const responded = interaction.kind === "action" || interaction.kind === "open";
+  const responseHours = [...pattern.responseHours];
+  if (responded) responseHours[interaction.at.getHours()] += 1;
+
+  const minutes = Math.max(0, (interaction.at.getTime() - interaction.sentAt.getTime()) / 60000);
+  const respondedTypes = responded
+    ? [interaction.type, ...pattern.preferredNotificationTypes.filter((t) => t !== interaction.type)]
+    : pattern.preferredNotificationTypes;
+
+  return {
+    ...pattern,
+    bestTimeToNotify: bestHour(responseHours),
+    avgResponseTime: responded
+      ? ema(pattern.avgResponseTime, minutes, pattern.samples)
+      : pattern.avgResponseTime,
+    preferredNotificationTypes: respondedTypes.filter(Boolean).slice(0, 5),
+    dismissalRate: ema(
+      pattern.dismissalRate,
+      interaction.kind === "dismiss" ? 1 : 0,
+      pattern.samples
+    ),
+    actionTakenRate: ema(
+      pattern.actionTakenRate,
+      interaction.kind === "action" ? 1 : 0,
+      pattern.samples
+    ),
+    responseHours,
+    samples: pattern.samples + 1,
+    lastUpdated: interaction.at,
+  };
+}
+
+/** Remembers that a notification was counted as ignored; null if it already was. */
+export function markNotificationIgnored(
+  pattern: UserNotificationPattern,
+  notificationId: string
+): UserNotificationPattern | null {
+  if (pattern.ignoredNotificationIds.includes(notificationId)) return null;
+  return {
+    ...pattern,
+    ignoredNotificationIds: [...pattern.ignoredNotificationIds, notificationId].slice(
+      -MAX_IGNORED_IDS
+    ),
+  };
+}
+
+/** The learned send time, or null while there isn't enough to go on. */
+export function learnedSendTime(pattern: UserNotificationPattern): string | null {
+  return pattern.samples >= MIN_PATTERN_SAMPLES ? pattern.bestTimeToNotify : null;
+}
+
+/** Whether reminders mostly go unanswered, so fewer should be sent. */
+export function shouldReduceFrequency(pattern: UserNotificationPattern): boolean {
+  return (
+    pattern.samples >= MIN_PATTERN_SAMPLES &&
+    pattern.dismissalRate >= REDUCE_DISMISSAL_RATE &&
+    pattern.actionTakenRate < REDUCE_ACTION_RATE
+  );
+}
+
+/**
+ * Digest settings with the learned pattern applied: the digest time nearest the
+ * learned time moves to it, and a user who keeps dismissing reminders gets one
+ * daily digest. Realtime reminders keep the times set on their items unless
+ * frequency is reduced.
+ */
+export function adaptDigestSettings(
+  settings: Pick<NotificationSettings, "adaptiveTiming"> & DigestSettings,
+  pattern: UserNotificationPattern
+): DigestSettings {
+  const { frequency, digestTimes, quietHours } = settings;
+  if (!settings.adaptiveTiming) return { frequency, digestTimes, quietHours };
+
+  const reduce = shouldReduceFrequency(pattern);
+  const learned = parseTimeOfDay(learnedSendTime(pattern));
+  const nextFrequency = reduce ? "daily" : frequency;
+  if (nextFrequency === "realtime" || learned === null) {
+    return { frequency: nextFrequency, digestTimes, quietHours };
+  }
+
+  if (nextFrequency === "daily") {
+    return { frequency: nextFrequency, digestTimes: [formatTimeOfDay(learned)], quietHours };
+  }
+
+  // Otherwise the digest closest to the learned time moves to it.
+  const times = digestTimesOfDay({ frequency: nextFrequency, digestTimes, quietHours });
+  const distance = (t: number) => Math.abs(t - learned);
+  const nearest = times.reduce((best, t, i) => (distance(t) < distance(times[best]!) ? i : best), 0);
+  times[nearest] = learned;
+  return {
+    frequency: nextFrequency,
+    digestTimes: [...new Set(times)].sort((a, b) => a - b).map(formatTimeOfDay),
+    quietHours,
+  };
+}
+
+/** How many days ahead the daily expiry check warns about. */
+export function expiryCheckLookaheadDays(
+  settings: Pick<NotificationSettings, "adaptiveTiming">,
+  pattern: UserNotificationPattern
+): number {
+  return settings.adaptiveTiming && shouldReduceFrequency(pattern)
+    ? REDUCED_EXPIRY_CHECK_LOOKAHEAD_DAYS
+    : EXPIRY_CHECK_LOOKAHEAD_DAYS;
+}
+
+/**
+ * When the daily expiry check's alert goes out: at the learned time if that is still
+ * ahead today, otherwise now; never in quiet hours.
+ */
+export function expiryCheckDeliveryTime(
+  now: Date,
+  settings: Pick<NotificationSettings, "adaptiveTiming" | "quietHours">,
+  pattern: UserNotificationPattern
+): Date {
+  let at = now;
+  const learned = settings.adaptiveTiming ? parseTimeOfDay(learnedSendTime(pattern)) : null;
+  if (learned !== null) {
+    const today = new Date(now);
+    today.setHours(Math.floor(learned / 60), learned % 60, 0, 0);
+    if (today.getTime() > now.getTime()) at = today;
+  }
+  return deferPastQuietHours(at, settings.quietHours);
+}
@@ -5,19 +5,54 @@ import { Platform } from "react-native";
 
 // Define task names for background task operations
 export const EXPIRY_CHECK_TASK = "EXPIRY_CHECK_TASK";
+export const NOTIFICATION_ACTION_TASK = "NOTIFICATION_ACTION_TASK";
 
 // Check if running in Expo Go
 const isExpoGo = Constants.appOwnership === "expo";
 
+/** Item ids an item reminder is about. */
+function reminderItemIds(data: Record<string, unknown> | undefined): string[] {
+  if (!data || data.type !== "item_expiry") return [];
+  if (Array.isArray(data.itemIds)) return data.itemIds.map(String);
+  return data.itemId ? [String(data.itemId)] : [];
+}
+
+/**
+ * Whether a pushed item reminder repeats one this device already showed itself, as
+ * when the device reported its scheduled reminders to the server late.
+ */
+async function isDuplicatePushReminder(
+  notification: Notifications.Notification
+): Promise<boolean> {
+  const data = notification.request.content.data as Record<string, unknown> | undefined;
+  if (data?.source !== "push") return false;
+  const itemIds = reminderItemIds(data);
+  if (itemIds.length === 0) return false;
+  try {
+    const today = new Date().toDateString();
+    return (await Notifications.getPresentedNotificationsAsync()).some((n) => {
+      const shown = n.request.content.data as Record<string, unknown> | undefined;
+      if (shown?.source === "push" || new Date(n.date).toDateString() !== today) return false;
+      const shownIds = reminderItemIds(shown);
+      return itemIds.every((id) => shownIds.includes(id));
+    });
+  } catch {
+    return false;
+  }
+}
+
 // Configure how notifications appear when the app is in the foreground
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-    shouldShowBanner: true,
-    shouldShowList: true,
-    priority: Notifications.AndroidNotificationPriority.HIGH,
-  }),
+  handleNotification: async (notification) => {
+    const show = !(await isDuplicatePushReminder(notification));
+    return {
+      shouldPlaySound: show,
+      shouldSetBadge: show,
+      shouldShowBanner: show,
+      shouldShowList: show,
+      priority: Notifications.AndroidNotificationPriority.HIGH,
+    };
+  },
 });
 
 /**
@@ -137,6 +172,10 @@ export async function registerBackgroundTasks() {
     // Register the expiry check task
     registerExpiryCheckTask();
 
+    // Notification buttons pressed while the app isn't in the foreground
+    const { registerNotificationActionTask } = await import("./smartNotificationService");
+    await registerNotificationActionTask();
+
   } catch (error) {
     console.warn("Failed to register background tasks:", error);
   }
@@ -0,0 +1,653 @@
+// services/offlineSyncService.ts
+import { FoodItem, supabase } from "@/lib/supabase";
+import { NewFoodItem, remoteFoodItemMutations as remote } from "@/services/foodItemsRemote";
+import { requestInventoryResync } from "@/services/inventoryRealtimeService";
+import { getErrorMessage, isNetworkRequestFailed } from "@/utils/networkError";
+import { assertUsageQuantity, roundQuantity } from "@/utils/quantityLimits";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo, { NetInfoSubscription } from "@react-native-community/netinfo";
+import { AppState } from "react-native";
+
+/** Inventory mutations waiting for the network, oldest first. */
+export const SYNC_QUEUE_STORAGE_KEY = "fridgewise_sync_queue_v1";
+/** Changes that could not be applied as-is; shown to the user until dismissed. */
+export const SYNC_CONFLICTS_STORAGE_KEY = "fridgewise_sync_conflicts_v1";
+/** Last server copy of each food item this device read: the base for conflict checks. */
+export const SYNC_SNAPSHOT_STORAGE_KEY = "fridgewise_sync_snapshot_v1";
+export const SYNC_STRATEGY_STORAGE_KEY = "fridgewise_sync_strategy_v1";
+
+const MAX_SNAPSHOT_ITEMS = 1000;
+const MAX_CONFLICTS = 100;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const LOCAL_ID_PREFIX = "local-";
+
+/**
+ * What to do when a queued change meets a row someone else edited meanwhile:
+ * - `local_wins`: apply the queued change anyway.
+ * - `remote_wins`: discard the queued change.
+ * - `merge`: keep remote values for fields both sides changed, apply the rest.
+ * - `manual`: hold the change in the conflict list for the user to decide.
+ */
+export type ConflictStrategy = "local_wins" | "remote_wins" | "merge" | "manual";
+
+export const DEFAULT_CONFLICT_STRATEGY: ConflictStrategy = "merge";
+
+export type FoodItemMutation =
+  /** `itemId` is a device-local id until the insert reaches the server. */
+  | { kind: "addItem"; itemId: string; item: NewFoodItem }
+  | { kind: "updateItem"; itemId: string; updates: Partial<FoodItem> }
+  /** `hard` deletes skip the usage-history check (batch delete). */
+  | { kind: "deleteItem"; itemId: string; hard?: boolean }
+  | {
+      kind: "logUsage";
+      itemId: string;
+      status: "used" | "expired" | "wasted";
+      quantity: number;
+    };
+
+export interface QueuedMutation {
+  id: string;
+  userId: string;
+  queuedAt: string;
+  mutation: FoodItemMutation;
+  /** Server row the change was made against; null when this device never read one. */
+  base: FoodItem | null;
+}
+
+export interface SyncConflict {
+  id: string;
+  itemId: string;
+  itemName: string;
+  mutation: FoodItemMutation;
+  base: FoodItem | null;
+  /** The row as this device left it (base plus the held change); null for deletes. */
+  local: FoodItem | null;
+  /** Server row when the conflict was detected; null if it no longer exists. */
+  remote: FoodItem | null;
+  /** `remote_changed`: edited elsewhere. `rejected`: the server refused the change. */
+  reason: "remote_changed" | "rejected";
+  message?: string;
+  detectedAt: string;
+}
+
+/** Fields the conflict screen compares and lets the user pick a side for. */
+export const CONFLICT_FIELDS = ["quantity", "expiry_date", "location", "notes"] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+export type ConflictFieldPicks = Partial<Record<ConflictField, "local" | "remote">>;
+
+export interface SyncState {
+  pending: number;
+  conflicts: SyncConflict[];
+  syncing: boolean;
+}
+
+export type SyncStateListener = (state: SyncState) => void;
+
+export type MutationResolution =
+  | { action: "apply"; mutation: FoodItemMutation }
+  | { action: "drop" }
+  | { action: "conflict" };
+
+export type PerformOutcome<T> =
+  | { queued: false; result: T }
+  /** Projected rows after the queued changes, per mutation; null when removed. */
+  | { queued: true; items: (FoodItem | null)[] };
+
+export function isLocalItemId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+function newId(prefix: string): string {
+  return `${prefix}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Fields of `updates` that the server changed to something else since `base`. */
+export function contestedFields(
+  updates: Partial<FoodItem>,
+  base: FoodItem,
+  remote: FoodItem
+): (keyof FoodItem)[] {
+  return (Object.keys(updates) as (keyof FoodItem)[]).filter(
+    (key) => !sameValue(remote[key], base[key]) && !sameValue(remote[key], updates[key])
+  );
+}
+
+/**
+ * Decide how a queued change lands on the current server row. Rows whose
+ * `updated_at` still matches the base are applied as-is; otherwise `strategy` picks.
+ */
+export function resolveQueuedMutation(
+  queued: QueuedMutation,
+  remote: FoodItem | null,
+  strategy: ConflictStrategy
+): MutationResolution {
+  const { mutation, base } = queued;
+  if (mutation.kind === "addItem") return { action: "apply", mutation };
+  // Deleted (or used up) elsewhere: nothing left to change.
+  if (!remote) return { action: "drop" };
+  if (!base || remote.updated_at === base.updated_at) return { action: "apply", mutation };
+
+  switch (mutation.kind) {
+    case "updateItem": {
+      const contested = contestedFields(mutation.updates, base, remote);
+      if (contested.length === 0 || strategy === "local_wins") {
+        return { action: "apply", mutation };
+      }
+      if (strategy === "manual") return { action: "conflict" };
+      if (strategy === "remote_wins") return { action: "drop" };
+      const updates = { ...mutation.updates };
+      contested.forEach((key) => delete updates[key]);
+      return Object.keys(updates).length > 0
+        ? { action: "apply", mutation: { ...mutation, updates } }
+        : { action: "drop" };
+    }
+    case "deleteItem":
+      if (strategy === "local_wins") return { action: "apply", mutation };
+      if (strategy === "manual") return { action: "conflict" };
+      // A row that was edited elsewhere is kept for merge, too.
+      return { action: "drop" };
+    case "logUsage": {
+      if (remote.quantity === base.quantity) return { action: "apply", mutation };
+      if (strategy === "manual") return { action: "conflict" };
+      if (strategy === "remote_wins" || remote.quantity <= 0) return { action: "drop" };
+      // Usage is additive: record what is still there to use.
+      return {
+        action: "apply",
+        mutation: { ...mutation, quantity: Math.min(mutation.quantity, remote.quantity) },
+      };
+    }
+  }
+}
+
+/** Conflict fields the held change set itself; the rest of `local` is just the base. */
+function fieldsChangedHere(mutation: FoodItemMutation): ConflictField[] {
+  switch (mutation.kind) {
+    case "updateItem":
+      return CONFLICT_FIELDS.filter((field) => field in mutation.updates);
+    case "logUsage":
+      return ["quantity"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The row this device's side of the conflict stands for. Usage is additive, so a
+ * held `logUsage` is shown taken from the server's current quantity.
+ */
+export function localConflictRow(conflict: SyncConflict): FoodItem | null {
+  const { mutation, local, remote } = conflict;
+  if (mutation.kind === "logUsage" && remote) {
+    return { ...remote, quantity: Math.max(0, roundQuantity(remote.quantity - mutation.quantity)) };
+  }
+  return local;
+}
+
+/** Fields this device changed offline that the server now holds differently. */
+export function differingConflictFields(conflict: SyncConflict): ConflictField[] {
+  const local = localConflictRow(conflict);
+  const { remote } = conflict;
+  if (!local || !remote) return [];
+  return fieldsChangedHere(conflict.mutation).filter(
+    (field) => !sameValue(local[field], remote[field])
+  );
+}
+
+/**
+ * Updates that turn the server row into the user's pick. Differing fields
+ * default to this device's value; fields it never changed keep the server's.
+ * Held usage isn't an update: it is logged again (see `logUsage`).
+ */
+export function mergeConflictFields(
+  conflict: SyncConflict,
+  picks: ConflictFieldPicks
+): Partial<FoodItem> {
+  const updates: Partial<FoodItem> = {};
+  const { local } = conflict;
+  if (!local || conflict.mutation.kind === "logUsage") return updates;
+  differingConflictFields(conflict).forEach((field) => {
+    if ((picks[field] ?? "local") === "local") {
+      Object.assign(updates, { [field]: local[field] ?? null });
+    }
+  });
+  return updates;
+}
+
+/**
+ * Replay `queue` over `base` to get the row screens should show for `itemId`;
+ * null once it is deleted (used-up rows keep quantity 0, like on the server).
+ */
+export function projectQueuedItem(
+  itemId: string,
+  base: FoodItem | null,
+  queue: QueuedMutation[]
+): FoodItem | null {
+  let row = base;
+  for (const { mutation, userId, queuedAt } of queue) {
+    if (mutation.itemId !== itemId) continue;
+    switch (mutation.kind) {
+      case "addItem":
+        row = {
+          ...mutation.item,
+          id: itemId,
+          user_id: userId,
+          created_at: queuedAt,
+          updated_at: queuedAt,
+        };
+        break;
+      case "updateItem":
+        row = row ? { ...row, ...mutation.updates } : null;
+        break;
+      case "deleteItem":
+        row = null;
+        break;
+      case "logUsage":
+        row = row
+          ? { ...row, quantity: Math.max(0, roundQuantity(row.quantity - mutation.quantity)) }
+          : null;
+        break;
+    }
+  }
+  return row;
+}
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+let storageChain: Promise<unknown> = Promise.resolve();
+
+/** Serialize read-modify-write cycles on the sync keys. */
+function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = storageChain.then(task, task);
+  storageChain = run.catch(() => {});
+  return run;
+}
+
+const loadQueue = () => readJson<QueuedMutation[]>(SYNC_QUEUE_STORAGE_KEY, []);
+const loadConflicts = () => readJson<SyncConflict[]>(SYNC_CONFLICTS_STORAGE_KEY, []);
+const loadSnapshot = () => readJson<Record<string, FoodItem>>(SYNC_SNAPSHOT_STORAGE_KEY, {});
+
+async function saveQueue(queue: QueuedMutation[]) {
+  await AsyncStorage.setItem(SYNC_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+}
+
+async function saveConflicts(conflicts: SyncConflict[]) {
+  await AsyncStorage.setItem(SYNC_CONFLICTS_STORAGE_KEY, JSON.stringify(conflicts));
+}
+
+/** Signed-in user from the stored session; works without a network round trip. */
+async function sessionUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+const listeners = new Set<SyncStateListener>();
+let flushing: Promise<void> | null = null;
+let retryAttempts = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let netInfoSubscription: NetInfoSubscription | null = null;
+let appStateSubscription: { remove: () => void } | null = null;
+
+async function emitState(): Promise<void> {
+  if (listeners.size === 0) return;
+  const state = await offlineSyncService.getState();
+  listeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch (e) {
+      console.warn("offlineSync: listener failed", e);
+    }
+  });
+}
+
+function clearRetryTimer() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+function scheduleRetry() {
+  if (retryTimer || !netInfoSubscription) return;
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retryAttempts);
+  retryAttempts += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void offlineSyncService.flush();
+  }, delay);
+}
+
+async function recordConflict(
+  queued: QueuedMutation,
+  reason: SyncConflict["reason"],
+  remote: FoodItem | null,
+  message?: string
+): Promise<void> {
+  const local = projectQueuedItem(queued.mutation.itemId, queued.base, [queued]);
+  const conflict: SyncConflict = {
+    id: newId("conflict-"),
+    itemId: queued.mutation.itemId,
+    itemName: remote?.name ?? local?.name ?? queued.base?.name ?? "Item",
+    mutation: queued.mutation,
+    base: queued.base,
+    local,
+    remote,
+    reason,
+    message,
+    detectedAt: new Date().toISOString(),
+  };
+  await withStorageLock(async () => {
+    const conflicts = await loadConflicts();
+    conflicts.push(conflict);
+    await saveConflicts(conflicts.slice(-MAX_CONFLICTS));
+  });
+}
+
+/**
+ * Drop a handled change. After an applied one, later changes to the same row are
+ * rebased on the row we wrote (and moved to its server id) so our own write isn't
+ * mistaken for someone else's edit.
+ */
+async function completeQueued(
+  queued: QueuedMutation,
+  applied: boolean,
+  row: FoodItem | null
+): Promise<void> {
+  const itemId = queued.mutation.itemId;
+  let rebased = applied ? row : null;
+  if (applied && !rebased) {
+    const queue = await withStorageLock(loadQueue);
+    if (queue.some((q) => q.id !== queued.id && q.mutation.itemId === itemId)) {
+      rebased = await remote.fetchItem(itemId).catch(() => null);
+    }
+  }
+
+  await withStorageLock(async () => {
+    const next = (await loadQueue())
+      .filter((q) => q.id !== queued.id)
+      .map((q) =>
+        rebased && q.mutation.itemId === itemId
+          ? { ...q, mutation: { ...q.mutation, itemId: rebased.id }, base: rebased }
+          : q
+      );
+    await saveQueue(next);
+  });
+  if (rebased) await offlineSyncService.rememberItems([rebased]);
+}
+
+async function runFlush(): Promise<void> {
+  const userId = await sessionUserId();
+  if (!userId) return;
+  const strategy = await offlineSyncService.getStrategy();
+  let applied = 0;
+
+  for (;;) {
+    const queued = (await withStorageLock(loadQueue)).find((q) => q.userId === userId);
+    if (!queued) break;
+    const { mutation } = queued;
+
+    try {
+      if (mutation.kind === "addItem") {
+        const row = await remote.addItem(mutation.item);
+        await completeQueued(queued, true, row);
+        applied += 1;
+        continue;
+      }
+      if (isLocalItemId(mutation.itemId)) {
+        throw new Error("The item this change belongs to was never saved.");
+      }
+
+      const current = await remote.fetchItem(mutation.itemId);
+      const resolution = resolveQueuedMutation(queued, current, strategy);
+      let row: FoodItem | null = null;
+      if (resolution.action === "conflict") {
+        await recordConflict(queued, "remote_changed", current);
+      } else if (resolution.action === "apply") {
+        const change = resolution.mutation;
+        if (change.kind === "updateItem") {
+          row = await remote.updateItem(change.itemId, change.updates);
+        } else if (change.kind === "deleteItem") {
+          await (change.hard
+            ? remote.batchDeleteItems([change.itemId])
+            : remote.deleteItem(change.itemId));
+        } else if (change.kind === "logUsage") {
+          await remote.logUsage(change.itemId, change.status, change.quantity);
+        }
+        applied += 1;
+      }
+      await completeQueued(queued, resolution.action === "apply", row);
+    } catch (error) {
+      if (isNetworkRequestFailed(error)) {
+        scheduleRetry();
+        break;
+      }
+      await recordConflict(queued, "rejected", null, getErrorMessage(error));
+      await withStorageLock(async () =>
+        saveQueue((await loadQueue()).filter((q) => q.id !== queued.id))
+      );
+    }
+    await emitState();
+  }
+
+  if (applied > 0) {
+    retryAttempts = 0;
+    // Screens hold optimistic rows (and local ids); have them refetch.
+    requestInventoryResync();
+  }
+}
+
+export const offlineSyncService = {
+  /**
+   * Run `online` now, or queue `mutations` when the network is unavailable (or
+   * earlier changes are still queued, so order is kept). Queued results are
+   * projected from this device's last server copy of each row.
+   */
+  async perform<T>(
+    mutations: FoodItemMutation[],
+    online: () => Promise<T>
+  ): Promise<PerformOutcome<T>> {
+    const userId = await sessionUserId();
+    if (userId && (await offlineSyncService.pendingCount(userId)) === 0) {
+      try {
+        return { queued: false, result: await online() };
+      } catch (error) {
+        if (!isNetworkRequestFailed(error)) throw error;
+      }
+    }
+    if (!userId) return { queued: false, result: await online() };
+
+    const items = await offlineSyncService.enqueue(userId, mutations);
+    void emitState();
+    if (netInfoSubscription) void offlineSyncService.flush();
+    return { queued: true, items };
+  },
+
+  /** Append `mutations` to the queue; returns the projected row after each one. */
+  async enqueue(
+    userId: string,
+    mutations: FoodItemMutation[]
+  ): Promise<(FoodItem | null)[]> {
+    return withStorageLock(async () => {
+      const [queue, snapshot] = await Promise.all([loadQueue(), loadSnapshot()]);
+      const items: (FoodItem | null)[] = [];
+
+      for (const mutation of mutations) {
+        const queuedMutation =
+          mutation.kind === "addItem" && !isLocalItemId(mutation.itemId)
+            ? { ...mutation, itemId: newId(LOCAL_ID_PREFIX) }
+            : mutation;
+        const base = snapshot[queuedMutation.itemId] ?? null;
+        const before = projectQueuedItem(queuedMutation.itemId, base, queue);
+
+        if (queuedMutation.kind !== "addItem" && !before) {
+          throw new Error("This item isn't available offline. Reconnect and try again.");
+        }
+        if (queuedMutation.kind === "logUsage") {
+          assertUsageQuantity(queuedMutation.quantity, before!.quantity);
+        }
+
+        queue.push({
+          id: newId("sync-"),
+          userId,
+          queuedAt: new Date().toISOString(),
+          mutation: queuedMutation,
+          base,
+        });
+        items.push(projectQueuedItem(queuedMutation.itemId, base, queue));
+      }
+
+      await saveQueue(queue);
+      return items;
+    });
+  },
+
+  /**
+   * Read one row the way `perform` writes it: from the server when nothing is
+   * queued, otherwise (or when the network is down) from the local projection.
+   */
+  async readItem(
+    itemId: string,
+    online: () => Promise<FoodItem | null>
+  ): Promise<FoodItem | null> {
+    const userId = await sessionUserId();
+    if (!userId || (await offlineSyncService.pendingCount(userId)) === 0) {
+      try {
+        return await online();
+      } catch (error) {
+        if (!userId || !isNetworkRequestFailed(error)) throw error;
+      }
+    }
+    return offlineSyncService.getProjectedItem(itemId);
+  },
+
+  /** Remember server rows as the base for later conflict checks. */
+  async rememberItems(rows: FoodItem[]): Promise<void> {
+    if (rows.length === 0) return;
+    await withStorageLock(async () => {
+      const snapshot = await loadSnapshot();
+      rows.forEach((row) => {
+        snapshot[row.id] = row;
+      });
+      let entries = Object.values(snapshot);
+      if (entries.length > MAX_SNAPSHOT_ITEMS) {
+        entries = entries
+          .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+          .slice(0, MAX_SNAPSHOT_ITEMS);
+      }
+      await AsyncStorage.setItem(
+        SYNC_SNAPSHOT_STORAGE_KEY,
+        JSON.stringify(Object.fromEntries(entries.map((row) => [row.id, row])))
+      );
+    }).catch((error) => console.warn("offlineSync: snapshot write failed", error));
+  },
+
+  /** Row as this device currently sees it (last server copy plus queued changes). */
+  async getProjectedItem(itemId: string): Promise<FoodItem | null> {
+    const [queue, snapshot] = await Promise.all([loadQueue(), loadSnapshot()]);
+    return projectQueuedItem(itemId, snapshot[itemId] ?? null, queue);
+  },
+
+  async pendingCount(userId?: string): Promise<number> {
+    const queue = await loadQueue();
+    return userId ? queue.filter((q) => q.userId === userId).length : queue.length;
+  },
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    return loadConflicts();
+  },
+
+  async dismissConflict(conflictId: string): Promise<void> {
+    await withStorageLock(async () =>
+      saveConflicts((await loadConflicts()).filter((c) => c.id !== conflictId))
+    );
+    await emitState();
+  },
+
+  async getState(): Promise<SyncState> {
+    const userId = await sessionUserId();
+    return {
+      pending: userId ? await offlineSyncService.pendingCount(userId) : 0,
+      conflicts: await loadConflicts(),
+      syncing: flushing !== null,
+    };
+  },
+
+  subscribe(listener: SyncStateListener): () => void {
+    listeners.add(listener);
+    void offlineSyncService.getState().then((state) => {
+      if (listeners.has(listener)) listener(state);
+    });
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  async getStrategy(): Promise<ConflictStrategy> {
+    const stored = await AsyncStorage.getItem(SYNC_STRATEGY_STORAGE_KEY);
+    return stored === "local_wins" ||
+      stored === "remote_wins" ||
+      stored === "merge" ||
+      stored === "manual"
+      ? stored
+      : DEFAULT_CONFLICT_STRATEGY;
+  },
+
+  async setStrategy(strategy: ConflictStrategy): Promise<void> {
+    await AsyncStorage.setItem(SYNC_STRATEGY_STORAGE_KEY, strategy);
+  },
+
+  /** Push queued changes for the signed-in user. Concurrent calls share one run. */
+  flush(): Promise<void> {
+    if (!flushing) {
+      clearRetryTimer();
+      flushing = runFlush()
+        .catch((error) => console.warn("offlineSync: flush failed", error))
+        .finally(() => {
+          flushing = null;
+          void emitState();
+        });
+      void emitState();
+    }
+    return flushing;
+  },
+
+  /** Flush now and whenever connectivity returns or the app comes to the foreground. */
+  start(): void {
+    if (netInfoSubscription) return;
+    let wasConnected = true;
+    netInfoSubscription = NetInfo.addEventListener((state) => {
+      const connected = state.isConnected !== false;
+      if (connected && !wasConnected) {
+        retryAttempts = 0;
+        void offlineSyncService.flush();
+      }
+      wasConnected = connected;
+    });
+    appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") void offlineSyncService.flush();
+    });
+    void offlineSyncService.flush();
+  },
+
+  stop(): void {
+    netInfoSubscription?.();
+    netInfoSubscription = null;
+    appStateSubscription?.remove();
+    appStateSubscription = null;
+    clearRetryTimer();
+    retryAttempts = 0;
+  },
+};
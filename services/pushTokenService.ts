@@ -0,0 +1,123 @@
+// services/pushTokenService.ts
+import { supabase } from "@/lib/supabase";
+import { isNetworkRequestFailed } from "@/utils/networkError";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import Constants from "expo-constants";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { loadNotificationSettings } from "./smartNotificationService";
+
+/** This device's Expo push token, once registered, so it can be removed on sign-out. */
+export const PUSH_TOKEN_STORAGE_KEY = "fridgewise_push_token_v1";
+
+/** What this device last sent to `register_push_token`, so unchanged details aren't sent again. */
+export const PUSH_REGISTRATION_STORAGE_KEY = "fridgewise_push_registration_v1";
+
+/** Same key as `SettingsContext` — expiry toggle lives on device. */
+const EXPIRY_ALERTS_STORAGE_KEY = "settings.expiryAlerts";
+
+/** Identifies a reminder across devices and the server: `item_id:YYYY-MM-DD`. */
+export function pushReminderKey(itemId: string, day: string): string {
+  return `${itemId}:${day}`;
+}
+
+type PushRegistration = {
+  userId: string | null;
+  token: string;
+  timeZone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  localReminderKeys: string[] | null;
+};
+
+async function loadLastRegistration(): Promise<PushRegistration | null> {
+  try {
+    const raw = await AsyncStorage.getItem(PUSH_REGISTRATION_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PushRegistration) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function getExpoPushToken(): Promise<string | null> {
+  if (Platform.OS !== "ios" && Platform.OS !== "android") return null;
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status !== "granted") return null;
+
+  // Push tokens are issued per EAS project; builds without one get local reminders only.
+  const projectId =
+    Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  if (!projectId) return null;
+
+  const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+  return data;
+}
+
+export const pushTokenService = {
+  /**
+   * Registers this device for server-side expiry reminders. `localReminderKeys` lists
+   * the reminders scheduled on the device (see `pushReminderKey`) so the server skips
+   * them; leave it out to keep the ones last reported. Nothing is sent while the
+   * account, token, time zone, quiet hours and keys are as last registered.
+   */
+  async register(localReminderKeys?: string[]): Promise<void> {
+    try {
+      const alertsOn = (await AsyncStorage.getItem(EXPIRY_ALERTS_STORAGE_KEY)) !== "false";
+      if (!alertsOn) return;
+
+      const token = await getExpoPushToken();
+      if (!token) return;
+
+      const [{ quietHours }, { data: sessionData }, last] = await Promise.all([
+        loadNotificationSettings(),
+        supabase.auth.getSession(),
+        loadLastRegistration(),
+      ]);
+      const userId = sessionData.session?.user.id ?? null;
+      const keys = localReminderKeys ? [...new Set(localReminderKeys)].sort() : null;
+      const next: PushRegistration = {
+        userId,
+        token,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        quietHoursStart: quietHours.enabled ? quietHours.start : null,
+        quietHoursEnd: quietHours.enabled ? quietHours.end : null,
+        // Null keeps the server's keys, which are the last ones sent for this account.
+        localReminderKeys: keys ?? (last?.userId === userId ? last.localReminderKeys : null),
+      };
+      if (last && JSON.stringify(last) === JSON.stringify(next)) return;
+
+      const { error } = await supabase.rpc("register_push_token", {
+        p_token: token,
+        p_platform: Platform.OS,
+        p_time_zone: next.timeZone,
+        p_quiet_hours_start: next.quietHoursStart,
+        p_quiet_hours_end: next.quietHoursEnd,
+        p_local_reminder_keys: keys,
+      });
+      if (error) throw error;
+      await AsyncStorage.multiSet([
+        [PUSH_TOKEN_STORAGE_KEY, token],
+        [PUSH_REGISTRATION_STORAGE_KEY, JSON.stringify(next)],
+      ]);
+    } catch (e) {
+      if (!isNetworkRequestFailed(e)) {
+        console.warn("pushTokenService: failed to register push token", e);
+      }
+    }
+  },
+
+  /** Stops server-side reminders to this device. Call while still signed in. */
+  async unregister(): Promise<void> {
+    try {
+      const token = await AsyncStorage.getItem(PUSH_TOKEN_STORAGE_KEY);
+      if (!token) return;
+      const { error } = await supabase.from("push_tokens").delete().eq("token", token);
+      if (error) throw error;
+      await AsyncStorage.multiRemove([PUSH_TOKEN_STORAGE_KEY, PUSH_REGISTRATION_STORAGE_KEY]);
+    } catch (e) {
+      if (!isNetworkRequestFailed(e)) {
+        console.warn("pushTokenService: failed to remove push token", e);
+      }
+    }
+  },
+};
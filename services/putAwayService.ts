@@ -0,0 +1,136 @@
+// services/putAwayService.ts
+import { FOOD_CATEGORY_LABELS } from "@/lib/foodCategories";
+import { FOOD_LOCATIONS } from "@/lib/foodLocations";
+import { FoodLocation } from "@/lib/supabase";
+import { foodItemsService } from "@/services/foodItems";
+import type { StoredGroceryItem } from "@/services/groceryListStorage";
+import { rescheduleAllItemReminderNotificationsForUser } from "@/services/itemExpiryNotificationService";
+import { ShelfLifeSources, shelfLifeService } from "@/services/shelfLifeService";
+import { shoppingListService } from "@/services/shoppingListService";
+import { estimateShelfLife, ExpiryEstimate } from "@/utils/expiryEstimate";
+import { DEFAULT_CURRENCY, resolveItemPrice } from "@/utils/itemPrice";
+import { isNetworkRequestFailed } from "@/utils/networkError";
+import { MAX_INVENTORY_QUANTITY } from "@/utils/quantityLimits";
+
+/** One bought grocery on its way into inventory; every field is adjustable. */
+export type PutAwayDraft = {
+  groceryId: string;
+  name: string;
+  /** Inventory category label, when the grocery's category is one. */
+  category?: string;
+  quantity: number;
+  unit?: string;
+  location: FoodLocation;
+  /** Days from today until the expiry date. */
+  shelfLifeDays: number;
+  /** What was suggested; a different `shelfLifeDays` is remembered as an override. */
+  suggestedDays: number;
+  source: ExpiryEstimate["source"];
+  /** Suggestion for each place it could go, so moving a row re-suggests its date. */
+  estimates: Record<FoodLocation, Pick<ExpiryEstimate, "days" | "source">>;
+  /** Unticked rows stay on the list as bought. */
+  include: boolean;
+  /** The grocery's unit price, priced again for the quantity put away. */
+  pricePerUnit: number | null;
+  currency: string | null;
+};
+
+function addDaysYmd(days: number, from = new Date()): string {
+  const d = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+/**
+ * Drafts for every bought grocery with a predicted expiry and location.
+ * Household supplies start unticked: they don't belong in the food inventory.
+ */
+export function draftPutAway(
+  groceries: StoredGroceryItem[],
+  sources: ShelfLifeSources
+): PutAwayDraft[] {
+  return groceries
+    .filter((g) => (g.status ?? (g.completed ? "bought" : "list")) === "bought")
+    .map((g) => {
+      const category = FOOD_CATEGORY_LABELS.includes(g.category ?? "")
+        ? g.category
+        : undefined;
+      const estimate = estimateShelfLife(g.name, category, sources);
+      const estimates = Object.fromEntries(
+        FOOD_LOCATIONS.map((location) => {
+          const { days, source } = estimateShelfLife(g.name, category, { ...sources, location });
+          return [location, { days, source }];
+        })
+      ) as PutAwayDraft["estimates"];
+      return {
+        groceryId: g.id,
+        name: g.name,
+        category,
+        quantity: Math.min(MAX_INVENTORY_QUANTITY, Math.max(1, Math.round(g.quantity || 1))),
+        unit: g.unit,
+        location: estimate.location,
+        shelfLifeDays: estimate.days,
+        suggestedDays: estimate.days,
+        source: estimate.source,
+        estimates,
+        include: g.category !== "Household",
+        pricePerUnit: g.pricePerUnit ?? null,
+        currency: g.currency ?? null,
+      };
+    });
+}
+
+/** The draft stored somewhere else, with that place's suggested date. */
+export function relocateDraft(draft: PutAwayDraft, location: FoodLocation): PutAwayDraft {
+  const { days, source } = draft.estimates[location];
+  return { ...draft, location, shelfLifeDays: days, suggestedDays: days, source };
+}
+
+export const putAwayService = {
+  /**
+   * Adds each ticked draft to inventory and marks its grocery as put away.
+   * Inventory writes queue offline like any other add; offline, the grocery is
+   * only marked on this device and stays bought in the cloud. Returns the
+   * grocery ids moved. Dates the user adjusted are remembered for next time.
+   */
+  async putAway(drafts: PutAwayDraft[]): Promise<string[]> {
+    const moved: string[] = [];
+    for (const draft of drafts) {
+      if (!draft.include) continue;
+      await foodItemsService.addItem({
+        name: draft.name.trim(),
+        quantity: draft.quantity,
+        unit: draft.unit || undefined,
+        location: draft.location,
+        category: draft.category,
+        expiry_date: addDaysYmd(draft.shelfLifeDays),
+        ...resolveItemPrice(
+          draft.pricePerUnit,
+          "unit",
+          draft.quantity,
+          draft.currency || DEFAULT_CURRENCY
+        ),
+      });
+      moved.push(draft.groceryId);
+      if (draft.shelfLifeDays !== draft.suggestedDays) {
+        shelfLifeService
+          .rememberOverride(draft.name, { location: draft.location }, draft.shelfLifeDays)
+          .catch((e) => console.warn("putAwayService: failed to remember shelf life", e));
+      }
+      try {
+        await shoppingListService.updateItem(draft.groceryId, { status: "fridge" });
+      } catch (e) {
+        if (!isNetworkRequestFailed(e)) throw e;
+      }
+    }
+
+    if (moved.length > 0) {
+      rescheduleAllItemReminderNotificationsForUser().catch((e) =>
+        console.warn("putAwayService: failed to reschedule reminders", e)
+      );
+    }
+    return moved;
+  },
+};
@@ -0,0 +1,63 @@
+// services/recipeService.ts
+import {
+  loadImportedRecipes,
+  removeImportedRecipe,
+  saveImportedRecipes,
+} from "@/lib/recipeStorage";
+import { BUILT_IN_RECIPES, Recipe } from "@/lib/recipes";
+import type { FoodItemWithUrgency } from "@/services/foodItems";
+import { parseRecipes } from "@/utils/recipeImport";
+import { RecipeMatch, rankRecipesForInventory } from "@/utils/recipeMatching";
+
+const FETCH_TIMEOUT_MS = 15000;
+
+async function fetchPage(url: string): Promise<string> {
+  const controller = typeof AbortController !== "undefined" ? new AbortController() : null;
+  const timeoutId = setTimeout(() => controller?.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "text/html,application/json,application/ld+json" },
+      ...(controller ? { signal: controller.signal } : null),
+    });
+    if (!response.ok) {
+      throw new Error(`Couldn't load that page (HTTP ${response.status}).`);
+    }
+    return await response.text();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export const recipeService = {
+  /** Bundled recipes plus anything imported on this device (imports win on id clashes). */
+  async getRecipes(): Promise<Recipe[]> {
+    const imported = await loadImportedRecipes();
+    const importedIds = new Set(imported.map((r) => r.id));
+    return [...imported, ...BUILT_IN_RECIPES.filter((r) => !importedIds.has(r.id))];
+  },
+
+  /** Recipes that use up what's expiring, best first. */
+  async rankForInventory(items: FoodItemWithUrgency[]): Promise<RecipeMatch[]> {
+    return rankRecipesForInventory(await recipeService.getRecipes(), items);
+  },
+
+  /** Import from pasted JSON (native or Schema.org) or page HTML. */
+  async importFromText(text: string, sourceUrl?: string): Promise<Recipe[]> {
+    const recipes = parseRecipes(text, sourceUrl);
+    await saveImportedRecipes(recipes);
+    return recipes;
+  },
+
+  /** Fetch a recipe page and import the Schema.org Recipe it publishes. */
+  async importFromUrl(rawUrl: string): Promise<Recipe[]> {
+    const url = rawUrl.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error("Enter a full link starting with http:// or https://");
+    }
+    return recipeService.importFromText(await fetchPage(url), url);
+  },
+
+  async deleteImported(id: string): Promise<void> {
+    await removeImportedRecipe(id);
+  },
+};
@@ -0,0 +1,88 @@
+// services/shelfLifeService.ts
+import {
+  ShelfLifeOverrides,
+  shelfLifeOverrideKey,
+  StorageLocation,
+} from "@/lib/shelfLife";
+import {
+  loadShelfLifeOverrides,
+  removeShelfLifeOverride,
+  saveShelfLifeOverride,
+} from "@/lib/shelfLifeOverridesStorage";
+import { supabase } from "@/lib/supabase";
+import {
+  getInventoryScope,
+  inventoryScopeFilter,
+} from "@/services/householdService";
+import {
+  LearnedShelfLife,
+  learnShelfLifeDays,
+  ShelfLifeSample,
+} from "@/utils/expiryEstimate";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+
+/** Recent dated items the shelf-life history is learned from. */
+const HISTORY_SAMPLE_LIMIT = 500;
+
+/** Longest shelf life a user can pin for a product, in days. */
+export const MAX_SHELF_LIFE_DAYS = 730;
+
+/** Everything `estimateShelfLife` needs besides the bundled table. */
+export type ShelfLifeSources = {
+  learned: LearnedShelfLife;
+  overrides: ShelfLifeOverrides;
+};
+
+export type ShelfLifeStorage = {
+  location: StorageLocation;
+  opened?: boolean;
+};
+
+export const shelfLifeService = {
+  /** Shelf life learned from the user's (or household's) own dated items. */
+  async loadLearned(userId: string): Promise<LearnedShelfLife> {
+    const scopeFilter = inventoryScopeFilter(await getInventoryScope(userId));
+    const { data, error } = await supabase
+      .from("food_items")
+      .select("name, normalized_name, created_at, expiry_date")
+      .eq(scopeFilter.column, scopeFilter.value)
+      .not("expiry_date", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(HISTORY_SAMPLE_LIMIT);
+
+    if (error) throw error;
+    return learnShelfLifeDays((data ?? []) as ShelfLifeSample[]);
+  },
+
+  /**
+   * Overrides and history for suggesting expiry dates. Without history (e.g.
+   * offline) the overrides and the bundled table still answer.
+   */
+  async loadSources(userId: string | null | undefined): Promise<ShelfLifeSources> {
+    const [learned, overrides] = await Promise.all([
+      userId
+        ? this.loadLearned(userId).catch((): LearnedShelfLife => new Map())
+        : Promise.resolve<LearnedShelfLife>(new Map()),
+      loadShelfLifeOverrides(),
+    ]);
+    return { learned, overrides };
+  },
+
+  /** Remembers the user's own shelf life for this product kept this way. */
+  async rememberOverride(name: string, storage: ShelfLifeStorage, days: number): Promise<void> {
+    const key = normalizeFoodNameForGrouping(name);
+    if (!key) return;
+    const clamped = Math.max(1, Math.min(MAX_SHELF_LIFE_DAYS, Math.round(days)));
+    await saveShelfLifeOverride(
+      shelfLifeOverrideKey(key, storage.location, storage.opened),
+      clamped
+    );
+  },
+
+  /** Drops a remembered override so suggestions fall back to history or the table. */
+  async forgetOverride(name: string, storage: ShelfLifeStorage): Promise<void> {
+    const key = normalizeFoodNameForGrouping(name);
+    if (!key) return;
+    await removeShelfLifeOverride(shelfLifeOverrideKey(key, storage.location, storage.opened));
+  },
+};
@@ -0,0 +1,389 @@
+// services/shoppingListService.ts
+import { ShoppingListItem, supabase } from "@/lib/supabase";
+import {
+  loadFullShoppingListRaw,
+  saveShoppingListRaw,
+  StoredGroceryItem,
+} from "@/services/groceryListStorage";
+import {
+  canEditHouseholdInventory,
+  householdService,
+} from "@/services/householdService";
+import { isNetworkRequestFailed } from "@/utils/networkError";
+import { MIN_QUANTITY, roundQuantity } from "@/utils/quantityLimits";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/**
+ * Per-account marker (see `shoppingListMigratedStorageKey`): the pre-cloud list has
+ * been uploaded for that user. Without a user id it is the device-wide marker older
+ * builds set for the first account only.
+ */
+export const SHOPPING_LIST_MIGRATED_STORAGE_KEY = "fridgewise_shopping_list_migrated_v1";
+
+/**
+ * The device-only list from before the cloud list, set aside on first sync because
+ * the list key then becomes a cache of the cloud. Every account that signs in on the
+ * device gets it once.
+ */
+export const SHOPPING_LIST_LEGACY_STORAGE_KEY = "fridgewise_shopping_list_legacy_v1";
+
+/** Changes made while offline, oldest first; replayed before the list is next read. */
+export const SHOPPING_LIST_PENDING_STORAGE_KEY = "fridgewise_shopping_list_pending_v1";
+
+export function shoppingListMigratedStorageKey(userId: string): string {
+  return `${SHOPPING_LIST_MIGRATED_STORAGE_KEY}:${userId}`;
+}
+
+export type ShoppingListItemUpdate = Partial<
+  Pick<
+    StoredGroceryItem,
+    | "name"
+    | "category"
+    | "quantity"
+    | "unit"
+    | "status"
+    | "priority"
+    | "notes"
+    | "price"
+    | "pricePerUnit"
+    | "currency"
+  >
+>;
+
+export type PendingShoppingListChange =
+  | { kind: "add"; item: StoredGroceryItem }
+  | { kind: "update"; id: string; updates: ShoppingListItemUpdate }
+  | { kind: "delete"; id: string };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Rows created on this device before the insert returned still carry their local id. */
+function idColumnFor(id: string): "id" | "client_id" {
+  return UUID_RE.test(id) ? "id" : "client_id";
+}
+
+export function shoppingListRowToStored(row: ShoppingListItem): StoredGroceryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category ?? undefined,
+    quantity: row.quantity,
+    unit: row.unit ?? undefined,
+    status: row.status,
+    priority: row.priority,
+    completed: row.status !== "list",
+    addedDate: row.added_at,
+    notes: row.notes ?? undefined,
+    price: row.price ?? undefined,
+    pricePerUnit: row.price_per_unit ?? undefined,
+    currency: row.currency ?? undefined,
+  };
+}
+
+/** The cached list with a change applied, as the screen shows it before it syncs. */
+export function applyPendingShoppingListChange(
+  items: StoredGroceryItem[],
+  change: PendingShoppingListChange
+): StoredGroceryItem[] {
+  switch (change.kind) {
+    case "add":
+      return [change.item, ...items.filter((it) => it.id !== change.item.id)];
+    case "update":
+      return items.map((it) =>
+        it.id === change.id
+          ? {
+              ...it,
+              ...change.updates,
+              ...(change.updates.status !== undefined
+                ? { completed: change.updates.status !== "list" }
+                : {}),
+            }
+          : it
+      );
+    case "delete":
+      return items.filter((it) => it.id !== change.id);
+  }
+}
+
+async function loadPending(): Promise<PendingShoppingListChange[]> {
+  try {
+    const raw = await AsyncStorage.getItem(SHOPPING_LIST_PENDING_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingShoppingListChange[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function savePending(changes: PendingShoppingListChange[]): Promise<void> {
+  if (changes.length === 0) {
+    await AsyncStorage.removeItem(SHOPPING_LIST_PENDING_STORAGE_KEY);
+  } else {
+    await AsyncStorage.setItem(SHOPPING_LIST_PENDING_STORAGE_KEY, JSON.stringify(changes));
+  }
+}
+
+/**
+ * Run `online` now, or keep the change for later when the network is unavailable
+ * (or earlier changes are still waiting, so order is kept). A kept change is applied
+ * to the cached list right away.
+ */
+async function runOrKeep<T>(
+  change: PendingShoppingListChange,
+  online: () => Promise<T>
+): Promise<T | null> {
+  const pending = await loadPending();
+  if (pending.length === 0) {
+    try {
+      return await online();
+    } catch (error) {
+      if (!isNetworkRequestFailed(error)) throw error;
+    }
+  }
+  await savePending([...pending, change]);
+  await saveShoppingListRaw(
+    applyPendingShoppingListChange(await loadFullShoppingListRaw(), change)
+  );
+  if (pending.length > 0) void shoppingListService.flushPending().catch(() => {});
+  return null;
+}
+
+/** Rows the app may write for the user: the household list, or their own for viewers' old items. */
+async function insertTarget(
+  userId: string
+): Promise<{ householdId: string | null; canEdit: boolean }> {
+  const membership = await householdService.getMembership({ userId });
+  return {
+    householdId: membership?.household.id ?? null,
+    canEdit: canEditHouseholdInventory(membership?.role),
+  };
+}
+
+/** List amounts keep three decimals like inventory ones (0.5 kg), and stay above 0. */
+function listQuantity(quantity: number | undefined): number {
+  return Math.max(MIN_QUANTITY, roundQuantity(quantity || 1));
+}
+
+function storedToInsertRow(
+  item: StoredGroceryItem,
+  userId: string,
+  householdId: string | null
+) {
+  const status = item.status ?? (item.completed ? "bought" : "list");
+  return {
+    user_id: userId,
+    household_id: householdId,
+    client_id: item.id,
+    name: item.name.trim(),
+    category: item.category || null,
+    quantity: listQuantity(item.quantity),
+    unit: item.unit || null,
+    status,
+    priority: item.priority ?? "medium",
+    notes: item.notes || null,
+    price: item.price ?? null,
+    price_per_unit: item.pricePerUnit ?? null,
+    currency: item.price != null ? item.currency ?? null : null,
+    added_at: item.addedDate ?? new Date().toISOString(),
+  };
+}
+
+async function requireUserId(): Promise<string> {
+  const { data: userData, error: authError } = await supabase.auth.getUser();
+  if (authError) throw authError;
+  if (!userData.user) throw new Error("User not authenticated");
+  return userData.user.id;
+}
+
+export const shoppingListService = {
+  /**
+   * Full list for the signed-in user (household list when they belong to one).
+   * Also refreshes the AsyncStorage copy that background tasks read through
+   * `loadPendingGroceryListItems`.
+   */
+  async getItems(): Promise<StoredGroceryItem[]> {
+    // Never overwrite a local list, or local changes, that haven't been uploaded yet.
+    await shoppingListService.migrateLocalList(await requireUserId());
+    await shoppingListService.flushPending();
+
+    const { data, error } = await supabase
+      .from("shopping_list_items")
+      .select("*")
+      .order("added_at", { ascending: false });
+
+    if (error) throw error;
+    const items = ((data ?? []) as ShoppingListItem[]).map(shoppingListRowToStored);
+    await saveShoppingListRaw(items);
+    return items;
+  },
+
+  /** Offline the item is kept with its local id and added once the network is back. */
+  async addItem(item: StoredGroceryItem): Promise<StoredGroceryItem> {
+    const saved = await runOrKeep({ kind: "add", item }, async () => {
+      const userId = await requireUserId();
+      const { householdId, canEdit } = await insertTarget(userId);
+      if (!canEdit) {
+        throw new Error("Viewers can't change this household's shopping list.");
+      }
+
+      const { data, error } = await supabase
+        .from("shopping_list_items")
+        .insert(storedToInsertRow(item, userId, householdId))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return shoppingListRowToStored(data as ShoppingListItem);
+    });
+    return saved ?? item;
+  },
+
+  /** Offline the change is kept and returns the item as cached on the device. */
+  async updateItem(
+    id: string,
+    updates: ShoppingListItemUpdate
+  ): Promise<StoredGroceryItem> {
+    const saved = await runOrKeep({ kind: "update", id, updates }, () =>
+      updateRemote(id, updates)
+    );
+    if (saved) return saved;
+    const cached = (await loadFullShoppingListRaw()).find((it) => it.id === id);
+    if (!cached) throw new Error("Item not found");
+    return cached;
+  },
+
+  /** Offline the removal is kept and the item leaves the cached list right away. */
+  async deleteItem(id: string): Promise<void> {
+    await runOrKeep({ kind: "delete", id }, () => deleteRemote(id));
+  },
+
+  /**
+   * Replay changes made offline, oldest first. Stops at the first network failure
+   * (and throws it) so the rest keep their order; a change the server rejects is
+   * dropped.
+   */
+  flushPending(): Promise<void> {
+    flushing ??= replayPending().finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  },
+
+  /**
+   * Upload of the pre-cloud AsyncStorage list, once per account. Idempotent per item
+   * (`user_id, client_id` is unique), so a retry after a failure is safe; the account
+   * is only marked once the upload went through. Returns the number of items sent.
+   */
+  async migrateLocalList(userId: string): Promise<number> {
+    const [migrated, deviceMigratedBy] = await Promise.all([
+      AsyncStorage.getItem(shoppingListMigratedStorageKey(userId)),
+      AsyncStorage.getItem(SHOPPING_LIST_MIGRATED_STORAGE_KEY),
+    ]);
+    if (migrated || deviceMigratedBy === userId) return 0;
+
+    const local = (await loadLegacyList()).filter(
+      (it) => typeof it?.name === "string" && it.name.trim().length > 0
+    );
+    if (local.length > 0) {
+      const { householdId, canEdit } = await insertTarget(userId);
+      // Viewers can't write into the household; their old list stays personal.
+      const { error } = await supabase
+        .from("shopping_list_items")
+        .upsert(
+          local.map((it) => storedToInsertRow(it, userId, canEdit ? householdId : null)),
+          { onConflict: "user_id,client_id", ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    }
+
+    await AsyncStorage.setItem(shoppingListMigratedStorageKey(userId), "true");
+    return local.length;
+  },
+};
+
+/**
+ * The pre-cloud list. Set aside from the list key the first time; once any account
+ * has synced on this device (older builds marked that device-wide) the list key only
+ * caches the cloud, so there is none.
+ */
+async function loadLegacyList(): Promise<StoredGroceryItem[]> {
+  try {
+    const saved = await AsyncStorage.getItem(SHOPPING_LIST_LEGACY_STORAGE_KEY);
+    if (saved !== null) return JSON.parse(saved) as StoredGroceryItem[];
+  } catch {
+    return [];
+  }
+  if (await AsyncStorage.getItem(SHOPPING_LIST_MIGRATED_STORAGE_KEY)) return [];
+  const local = await loadFullShoppingListRaw();
+  await AsyncStorage.setItem(SHOPPING_LIST_LEGACY_STORAGE_KEY, JSON.stringify(local));
+  return local;
+}
+
+let flushing: Promise<void> | null = null;
+
+async function replayPending(): Promise<void> {
+  for (;;) {
+    const [change] = await loadPending();
+    if (!change) return;
+    try {
+      if (change.kind === "add") {
+        const userId = await requireUserId();
+        const { householdId, canEdit } = await insertTarget(userId);
+        if (!canEdit) {
+          throw new Error("Viewers can't change this household's shopping list.");
+        }
+        // Idempotent on (user_id, client_id), in case an earlier attempt got through.
+        const { error } = await supabase
+          .from("shopping_list_items")
+          .upsert(storedToInsertRow(change.item, userId, householdId), {
+            onConflict: "user_id,client_id",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      } else if (change.kind === "update") {
+        await updateRemote(change.id, change.updates);
+      } else {
+        await deleteRemote(change.id);
+      }
+    } catch (error) {
+      if (isNetworkRequestFailed(error)) throw error;
+      console.warn("shoppingListService: dropped an offline change", error);
+    }
+    await savePending((await loadPending()).slice(1));
+  }
+}
+
+async function updateRemote(
+  id: string,
+  updates: ShoppingListItemUpdate
+): Promise<StoredGroceryItem> {
+  const payload: Record<string, unknown> = {};
+  if (updates.name !== undefined) payload.name = updates.name.trim();
+  if (updates.category !== undefined) payload.category = updates.category || null;
+  if (updates.quantity !== undefined) payload.quantity = listQuantity(updates.quantity);
+  if (updates.unit !== undefined) payload.unit = updates.unit || null;
+  if (updates.status !== undefined) payload.status = updates.status;
+  if (updates.priority !== undefined) payload.priority = updates.priority;
+  if (updates.notes !== undefined) payload.notes = updates.notes || null;
+  if (updates.price !== undefined) payload.price = updates.price;
+  if (updates.pricePerUnit !== undefined) payload.price_per_unit = updates.pricePerUnit;
+  if (updates.currency !== undefined) payload.currency = updates.currency;
+
+  const { data, error } = await supabase
+    .from("shopping_list_items")
+    .update(payload)
+    .eq(idColumnFor(id), id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return shoppingListRowToStored(data as ShoppingListItem);
+}
+
+async function deleteRemote(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("shopping_list_items")
+    .delete()
+    .eq(idColumnFor(id), id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,112 @@
+// services/shoppingSuggestionService.ts
+import { ParLevel, supabase } from "@/lib/supabase";
+import { foodItemsService } from "@/services/foodItems";
+import {
+  canEditHouseholdInventory,
+  householdService,
+} from "@/services/householdService";
+import { loadUsageHistory } from "@/services/insightsReportData";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+import { MAX_INVENTORY_QUANTITY } from "@/utils/quantityLimits";
+import {
+  ShoppingSuggestion,
+  suggestShoppingItems,
+} from "@/utils/shoppingSuggestions";
+
+/** How far back consumption history is averaged. */
+const USAGE_HISTORY_DAYS = 90;
+
+async function requireUserId(): Promise<string> {
+  const { data: userData, error: authError } = await supabase.auth.getUser();
+  if (authError) throw authError;
+  if (!userData.user) throw new Error("User not authenticated");
+  return userData.user.id;
+}
+
+export const shoppingSuggestionService = {
+  /** Par levels for the signed-in user (the household's when they belong to one). */
+  async getParLevels(): Promise<ParLevel[]> {
+    const { data, error } = await supabase
+      .from("par_levels")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as ParLevel[];
+  },
+
+  /**
+   * Creates or replaces the par level for a product. Names that group together
+   * ("Milk", "Whole milk 1L") share one target.
+   */
+  async setParLevel(level: {
+    name: string;
+    quantity: number;
+    unit?: string | null;
+    category?: string | null;
+  }): Promise<ParLevel> {
+    const name = level.name.trim();
+    if (!name) throw new Error("Enter an item name.");
+    const quantity = Math.round(level.quantity);
+    if (!(quantity >= 1) || quantity > MAX_INVENTORY_QUANTITY) {
+      throw new Error(`Minimum stock must be between 1 and ${MAX_INVENTORY_QUANTITY}.`);
+    }
+
+    const userId = await requireUserId();
+    const membership = await householdService.getMembership({ userId });
+    if (!canEditHouseholdInventory(membership?.role)) {
+      throw new Error("Viewers can't change this household's minimum stock.");
+    }
+
+    const groupKey = normalizeFoodNameForGrouping(name);
+    const fields = {
+      name,
+      quantity,
+      unit: level.unit || null,
+      category: level.category || null,
+    };
+    const existing = (await shoppingSuggestionService.getParLevels()).find(
+      (p) => p.group_key === groupKey
+    );
+
+    const { data, error } = existing
+      ? await supabase
+          .from("par_levels")
+          .update(fields)
+          .eq("id", existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from("par_levels")
+          .insert({
+            ...fields,
+            user_id: userId,
+            household_id: membership?.household.id ?? null,
+            group_key: groupKey,
+          })
+          .select()
+          .single();
+
+    if (error) throw error;
+    return data as ParLevel;
+  },
+
+  async removeParLevel(id: string): Promise<void> {
+    const { error } = await supabase.from("par_levels").delete().eq("id", id);
+    if (error) throw error;
+  },
+
+  /**
+   * Products to restock, from par levels and the last
+   * {@link USAGE_HISTORY_DAYS} days of `used` logs against current inventory.
+   * Callers filter out what's already on the list.
+   */
+  async getSuggestions(userId: string): Promise<ShoppingSuggestion[]> {
+    const [history, items, parLevels] = await Promise.all([
+      loadUsageHistory(userId, USAGE_HISTORY_DAYS),
+      foodItemsService.getItems(),
+      shoppingSuggestionService.getParLevels(),
+    ]);
+    return suggestShoppingItems({ history, items, parLevels });
+  },
+};
@@ -1,8 +1,29 @@
 // services/smartNotificationService.ts
-import { FoodItemWithUrgency } from "@/services/foodItems";
+import { supabase } from "@/lib/supabase";
+import { foodItemsService, FoodItemWithUrgency } from "@/services/foodItems";
 import { getMealSuggestions as generateMealSuggestions } from "@/utils/mealPlanningUtils";
 import { UrgencyLevel } from "@/utils/urgencyUtils";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import {
+  DEFAULT_DIGEST_TIMES,
+  deferPastQuietHours,
+  formatTimeOfDay,
+  isInQuietHours,
+  MAX_DIGEST_TIMES,
+  MAX_PENDING_NOTIFICATIONS,
+  parseTimeOfDay,
+} from "./notificationDigestSchedule";
+import {
+  emptyNotificationPattern,
+  learnedSendTime,
+  markNotificationIgnored,
+  NotificationInteraction,
+  recordNotificationInteraction,
+  sanitizeNotificationPattern,
+} from "./notificationPattern";
+import { NOTIFICATION_ACTION_TASK } from "./notificationService";
 const getBestMealForTime = (
   items: FoodItemWithUrgency[],
   timeOfDay: "morning" | "midday" | "evening"
@@ -30,7 +51,168 @@ export interface NotificationSettings {
     start: string; // "22:00"
     end: string; // "07:00"
   };
+  /**
+   * `realtime` sends each item reminder at its own time; the others gather a day's
+   * reminders into one digest at the first (`daily`), first two (`twice-daily`) or
+   * all (`custom`) of `digestTimes`.
+   */
   frequency: "realtime" | "daily" | "twice-daily" | "custom";
+  digestTimes: string[]; // ["09:00", "18:00"]
+  /** Let the learned {@link UserNotificationPattern} move send times and thin out reminders. */
+  adaptiveTiming: boolean;
+}
+
+/** Category with the Used it / Threw it away / Extend / Snooze buttons. */
+export const EXPIRY_ACTIONS_CATEGORY = "EXPIRY_WARNING";
+
+/** How far "Extend 3 days" pushes the expiry date. */
+const EXTEND_EXPIRY_DAYS = 3;
+
+/** How long "Snooze" holds a reminder back before showing it again. */
+const SNOOZE_MINUTES = 3 * 60;
+
+/** Device-local; the background expiry check reads it too. */
+export const NOTIFICATION_SETTINGS_STORAGE_KEY = "fridgewise_notification_settings_v1";
+
+/** What was learned from how this device's user answers notifications. */
+export const NOTIFICATION_PATTERN_STORAGE_KEY = "fridgewise_notification_pattern_v1";
+
+/** iOS reports swiping a notification away as this action (with `customDismissAction`). */
+const IOS_DISMISS_ACTION_IDENTIFIER = "com.apple.UNNotificationDismissActionIdentifier";
+
+/** A reminder still in the tray this long after it was shown counts as ignored. */
+const IGNORED_AFTER_HOURS = 12;
+
+/** Notifications whose answers feed the learned pattern. */
+const REMINDER_NOTIFICATION_TYPES = ["item_expiry", "expiry"];
+
+const NOTIFICATION_FREQUENCIES: NotificationSettings["frequency"][] = [
+  "realtime",
+  "daily",
+  "twice-daily",
+  "custom",
+];
+
+/** `data.type` of everything this service schedules. Item reminders are not among them. */
+const SMART_NOTIFICATION_TYPES = [
+  "expiry",
+  "meal-suggestion",
+  "morning-reminder",
+  "evening-planning",
+];
+
+export function getDefaultNotificationSettings(): NotificationSettings {
+  return {
+    enabled: true,
+    criticalItems: true,
+    warningItems: true,
+    soonItems: false,
+    mealSuggestions: true,
+    morningReminder: true,
+    eveningPlanning: false,
+    quietHours: {
+      enabled: true,
+      start: "22:00",
+      end: "07:00",
+    },
+    frequency: "daily",
+    digestTimes: [...DEFAULT_DIGEST_TIMES],
+    adaptiveTiming: true,
+  };
+}
+
+function validTime(value: unknown, fallback: string): string {
+  const minutes = parseTimeOfDay(typeof value === "string" ? value : null);
+  return minutes === null ? fallback : formatTimeOfDay(minutes);
+}
+
+/** Stored settings over the defaults, with unknown or malformed values dropped. */
+export function sanitizeNotificationSettings(raw: unknown): NotificationSettings {
+  const defaults = getDefaultNotificationSettings();
+  const o = (raw && typeof raw === "object" ? raw : {}) as Partial<NotificationSettings>;
+  const bool = (v: unknown, fallback: boolean) => (typeof v === "boolean" ? v : fallback);
+  const quiet = (o.quietHours ?? {}) as Partial<NotificationSettings["quietHours"]>;
+  const digestTimes = Array.isArray(o.digestTimes)
+    ? [
+        ...new Set(
+          o.digestTimes
+            .map((t) => parseTimeOfDay(typeof t === "string" ? t : null))
+            .filter((t): t is number => t !== null)
+            .sort((a, b) => a - b)
+            .map(formatTimeOfDay)
+        ),
+      ].slice(0, MAX_DIGEST_TIMES)
+    : defaults.digestTimes;
+  return {
+    enabled: bool(o.enabled, defaults.enabled),
+    criticalItems: bool(o.criticalItems, defaults.criticalItems),
+    warningItems: bool(o.warningItems, defaults.warningItems),
+    soonItems: bool(o.soonItems, defaults.soonItems),
+    mealSuggestions: bool(o.mealSuggestions, defaults.mealSuggestions),
+    morningReminder: bool(o.morningReminder, defaults.morningReminder),
+    eveningPlanning: bool(o.eveningPlanning, defaults.eveningPlanning),
+    quietHours: {
+      enabled: bool(quiet.enabled, defaults.quietHours.enabled),
+      start: validTime(quiet.start, defaults.quietHours.start),
+      end: validTime(quiet.end, defaults.quietHours.end),
+    },
+    frequency: NOTIFICATION_FREQUENCIES.includes(o.frequency as NotificationSettings["frequency"])
+      ? (o.frequency as NotificationSettings["frequency"])
+      : defaults.frequency,
+    digestTimes: digestTimes.length > 0 ? digestTimes : defaults.digestTimes,
+    adaptiveTiming: bool(o.adaptiveTiming, defaults.adaptiveTiming),
+  };
+}
+
+export async function loadNotificationSettings(): Promise<NotificationSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(NOTIFICATION_SETTINGS_STORAGE_KEY);
+    return sanitizeNotificationSettings(raw ? JSON.parse(raw) : null);
+  } catch (e) {
+    console.warn("smartNotificationService: failed to load settings", e);
+    return getDefaultNotificationSettings();
+  }
+}
+
+/** The learned pattern for the signed-in user; empty when none, or another user's. */
+export async function loadNotificationPattern(): Promise<UserNotificationPattern> {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user?.id ?? "";
+  try {
+    const raw = await AsyncStorage.getItem(NOTIFICATION_PATTERN_STORAGE_KEY);
+    const pattern = sanitizeNotificationPattern(raw ? JSON.parse(raw) : null);
+    return pattern.userId === userId ? pattern : emptyNotificationPattern(userId);
+  } catch (e) {
+    console.warn("smartNotificationService: failed to load notification pattern", e);
+    return emptyNotificationPattern(userId);
+  }
+}
+
+async function saveNotificationPattern(pattern: UserNotificationPattern): Promise<void> {
+  try {
+    await AsyncStorage.setItem(NOTIFICATION_PATTERN_STORAGE_KEY, JSON.stringify(pattern));
+  } catch (e) {
+    console.warn("smartNotificationService: failed to save notification pattern", e);
+  }
+}
+
+/**
+ * Item reminder functions, loaded on first use: itemExpiryNotificationService imports
+ * this module, so importing it at the top would be circular.
+ */
+function itemReminders(): typeof import("./itemExpiryNotificationService") {
+  return require("./itemExpiryNotificationService");
+}
+
+function notificationDataType(data: unknown): string {
+  const t = data && typeof data === "object" ? (data as { type?: unknown }).type : undefined;
+  return typeof t === "string" ? t : "";
+}
+
+/** The item a single-item expiry notification is about. */
+function notificationItemId(data: unknown): string | null {
+  const id = data && typeof data === "object" ? (data as { itemId?: unknown }).itemId : undefined;
+  return typeof id === "string" && id.length > 0 ? id : null;
 }
 
 export interface NotificationTemplate {
@@ -56,11 +238,14 @@ export interface NotificationAction {
 
 export interface UserNotificationPattern {
   userId: string;
-  bestTimeToNotify: string; // "07:30"
+  bestTimeToNotify: string | null; // "07:30"; null until enough responses
   avgResponseTime: number; // minutes
   preferredNotificationTypes: string[];
   dismissalRate: number; // 0-1
   actionTakenRate: number; // 0-1
+  responseHours: number[]; // responses per hour of day, 24 entries
+  samples: number; // interactions learned from
+  ignoredNotificationIds: string[]; // already counted as ignored
   lastUpdated: Date;
 }
 
@@ -69,26 +254,17 @@ class SmartNotificationService {
   private userPattern: UserNotificationPattern | null = null;
   private isInitialized = false;
 
-  constructor() {
-    this.settings = this.getDefaultSettings();
-  }
+  /** Room left under the OS pending limit while a batch is being scheduled. */
+  private pendingBudget = MAX_PENDING_NOTIFICATIONS;
 
-  private getDefaultSettings(): NotificationSettings {
-    return {
-      enabled: true,
-      criticalItems: true,
-      warningItems: true,
-      soonItems: false,
-      mealSuggestions: true,
-      morningReminder: true,
-      eveningPlanning: false,
-      quietHours: {
-        enabled: true,
-        start: "22:00",
-        end: "07:00",
-      },
-      frequency: "daily",
-    };
+  /**
+   * Responses already acted on in this JS runtime. On Android a button press can reach
+   * both the response listener and the background task.
+   */
+  private handledResponses = new Set<string>();
+
+  constructor() {
+    this.settings = getDefaultNotificationSettings();
   }
 
   /**
@@ -96,6 +272,9 @@ class SmartNotificationService {
    */
   async initialize(): Promise<boolean> {
     try {
+      this.settings = await loadNotificationSettings();
+      this.userPattern = await loadNotificationPattern();
+
       // Request permissions
       const { status } = await Notifications.requestPermissionsAsync();
 
@@ -126,21 +305,37 @@ class SmartNotificationService {
   }
 
   /**
-   * Set up notification categories with action buttons
+   * Set up notification categories with action buttons. The expiry buttons work
+   * without opening the app.
    */
-  private async setupNotificationCategories(): Promise<void> {
-    await Notifications.setNotificationCategoryAsync("EXPIRY_WARNING", [
-      {
-        identifier: "MARK_USED",
-        buttonTitle: "Mark as Used",
-        options: { foreground: false },
-      },
-      {
-        identifier: "EXTEND_EXPIRY",
-        buttonTitle: "Extend Date",
-        options: { foreground: true },
-      },
-    ] as any);
+  async setupNotificationCategories(): Promise<void> {
+    await Notifications.setNotificationCategoryAsync(
+      EXPIRY_ACTIONS_CATEGORY,
+      [
+        {
+          identifier: "MARK_USED",
+          buttonTitle: "Used it",
+          options: { opensAppToForeground: false },
+        },
+        {
+          identifier: "MARK_WASTED",
+          buttonTitle: "Threw it away",
+          options: { opensAppToForeground: false, isDestructive: true },
+        },
+        {
+          identifier: "EXTEND_EXPIRY",
+          buttonTitle: `Extend ${EXTEND_EXPIRY_DAYS} days`,
+          options: { opensAppToForeground: false },
+        },
+        {
+          identifier: "SNOOZE",
+          buttonTitle: "Snooze",
+          options: { opensAppToForeground: false },
+        },
+      ],
+      // Report swipe-aways on iOS so dismissals can be learned from.
+      { customDismissAction: true }
+    );
 
     await Notifications.setNotificationCategoryAsync("MEAL_SUGGESTION", [
       {
@@ -171,6 +366,9 @@ class SmartNotificationService {
 
     // Cancel existing notifications first
     await this.cancelAllNotifications();
+    this.pendingBudget =
+      MAX_PENDING_NOTIFICATIONS -
+      (await Notifications.getAllScheduledNotificationsAsync()).length;
 
     // Group items by urgency
     const criticalItems = items.filter(
@@ -224,26 +422,18 @@ class SmartNotificationService {
       let trigger: Notifications.NotificationTriggerInput;
 
       if (urgencyLevel === "critical") {
-        // Critical items: notify immediately and every 4 hours
-        trigger = {
-          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-          seconds: 1,
-          repeats: false,
-        } as any;
-        await Notifications.scheduleNotificationAsync({
-          content: notification,
-          trigger,
-        });
+        // Critical items: notify immediately and every 4 hours, holding any that
+        // land in quiet hours until they end
+        trigger = this.dateTrigger(new Date(now.getTime() + 1000));
+        await this.schedule(notification, trigger);
 
         // Schedule follow-up notifications every 4 hours
         for (let i = 1; i <= 3; i++) {
-          trigger = {
-            type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-            seconds: i * 4 * 60 * 60,
-            repeats: false,
-          } as any;
-          await Notifications.scheduleNotificationAsync({
-            content: {
+          trigger = this.dateTrigger(
+            new Date(now.getTime() + i * 4 * 60 * 60 * 1000)
+          );
+          await this.schedule(
+            {
               ...notification,
               title: `⚠️ Still Expiring: ${item.name}`,
               body: `${item.name} ${
@@ -252,35 +442,33 @@ class SmartNotificationService {
                   : "expires soon"
               }. Take action now!`,
             },
-            trigger,
-          });
+            trigger
+          );
         }
       } else if (urgencyLevel === "warning") {
         // Warning items: notify at optimal time
-        const optimalTime = this.getOptimalNotificationTime();
+        const optimalTime = this.outsideQuietHours(
+          this.getOptimalNotificationTime()
+        );
         trigger = {
           type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
           hour: optimalTime.hour,
           minute: optimalTime.minute,
           repeats: false,
         } as any;
-        await Notifications.scheduleNotificationAsync({
-          content: notification,
-          trigger,
-        });
+        await this.schedule(notification, trigger);
       } else {
         // Soon items: notify once at user's preferred time
-        const preferredTime = this.getUserPreferredTime();
+        const preferredTime = this.outsideQuietHours(
+          this.getUserPreferredTime()
+        );
         trigger = {
           type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
           hour: preferredTime.hour,
           minute: preferredTime.minute,
           repeats: false,
         } as any;
-        await Notifications.scheduleNotificationAsync({
-          content: notification,
-          trigger,
-        });
+        await this.schedule(notification, trigger);
       }
     }
   }
@@ -309,7 +497,7 @@ class SmartNotificationService {
     return {
       title: `${urgencyEmoji[urgencyLevel]} ${item.name} ${urgencyText[urgencyLevel]}`,
       body: `${item.quantity} ${item.unit} in ${item.location}. ${item.urgency.description}`,
-      categoryIdentifier: "EXPIRY_WARNING",
+      categoryIdentifier: EXPIRY_ACTIONS_CATEGORY,
       data: {
         itemId: item.id,
         urgencyLevel,
@@ -336,7 +524,8 @@ class SmartNotificationService {
       { hour: 17, minute: 0, timeOfDay: "evening" as const },
     ];
 
-    for (const { hour, minute, timeOfDay } of mealTimes) {
+    for (const { timeOfDay, ...mealTime } of mealTimes) {
+      const { hour, minute } = this.outsideQuietHours(mealTime);
       const bestMeal = getBestMealForTime(items, timeOfDay);
 
       if (bestMeal) {
@@ -354,15 +543,12 @@ class SmartNotificationService {
           },
         };
 
-        await Notifications.scheduleNotificationAsync({
-          content: notification,
-          trigger: {
-            type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
-            hour,
-            minute,
-            repeats: true,
-          } as any,
-        });
+        await this.schedule(notification, {
+          type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
+          hour,
+          minute,
+          repeats: true,
+        } as any);
       }
     }
   }
@@ -393,15 +579,11 @@ class SmartNotificationService {
       },
     };
 
-    await Notifications.scheduleNotificationAsync({
-      content: notification,
-      trigger: {
-        type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
-        hour: 8,
-        minute: 0,
-        repeats: true,
-      } as any,
-    });
+    await this.schedule(notification, {
+      type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
+      ...this.outsideQuietHours({ hour: 8, minute: 0 }),
+      repeats: true,
+    } as any);
   }
 
   /**
@@ -426,32 +608,98 @@ class SmartNotificationService {
       },
     };
 
-    await Notifications.scheduleNotificationAsync({
-      content: notification,
-      trigger: {
-        type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
-        hour: 19,
-        minute: 0,
-        repeats: true,
-      } as any,
+    await this.schedule(notification, {
+      type: Notifications.SchedulableTriggerInputTypes.CALENDAR,
+      ...this.outsideQuietHours({ hour: 19, minute: 0 }),
+      repeats: true,
+    } as any);
+  }
+
+  /**
+   * Learn from a response and act on a button pressed on the notification, once per
+   * response. Navigating for taps on the notification itself is left to the caller.
+   */
+  async handleNotificationResponse(
+    response: Notifications.NotificationResponse
+  ): Promise<void> {
+    const { request } = response.notification;
+    const key = `${request.identifier}:${response.actionIdentifier}`;
+    if (this.handledResponses.has(key)) return;
+    this.handledResponses.add(key);
+
+    const actionId = response.actionIdentifier;
+    const kind: NotificationInteraction["kind"] =
+      actionId === Notifications.DEFAULT_ACTION_IDENTIFIER
+        ? "open"
+        : actionId === IOS_DISMISS_ACTION_IDENTIFIER
+          ? "dismiss"
+          : actionId === "SNOOZE"
+            ? "snooze"
+            : "action";
+    await this.updateUserPattern({
+      kind,
+      at: new Date(),
+      sentAt: new Date(response.notification.date),
+      type: notificationDataType(request.content.data),
     });
+    if (kind === "open" || kind === "dismiss") return;
+
+    // Android leaves the notification up after a button press.
+    await Notifications.dismissNotificationAsync(request.identifier).catch(() => {});
+    Notifications.clearLastNotificationResponse();
+
+    await this.handleNotificationAction(
+      response.actionIdentifier,
+      request.content.data,
+      response.notification
+    );
   }
 
   /**
-   * Handle notification action responses
+   * Handle notification action responses. Inventory changes go through
+   * foodItemsService, so they are queued while offline.
    */
   async handleNotificationAction(
     actionId: string,
-    notificationData: any
+    notificationData: any,
+    notification?: Notifications.Notification
   ): Promise<void> {
+    const itemId = notificationItemId(notificationData);
+
     switch (actionId) {
       case "MARK_USED":
-        // Handle marking item as used
-        // This would integrate with foodItemsService
+        // The notification names this lot; its use isn't drawn from older ones.
+        if (itemId) {
+          await this.runItemAction(
+            itemId,
+            () => foodItemsService.markLotUsed(itemId),
+            notification
+          );
+        }
+        break;
+
+      case "MARK_WASTED":
+        if (itemId) {
+          await this.runItemAction(
+            itemId,
+            () => foodItemsService.markItemWasted(itemId),
+            notification
+          );
+        }
         break;
 
       case "EXTEND_EXPIRY":
-        // Handle extending expiry date
+        if (itemId) {
+          await this.runItemAction(
+            itemId,
+            () => foodItemsService.extendExpiry(itemId, EXTEND_EXPIRY_DAYS),
+            notification
+          );
+        }
+        break;
+
+      case "SNOOZE":
+        if (notification) await this.snooze(notification);
         break;
 
       case "VIEW_RECIPES":
@@ -476,8 +724,67 @@ class SmartNotificationService {
         }
     }
 
-    // Update user patterns based on action taken
-    await this.updateUserPattern(actionId, notificationData);
+  }
+
+  /**
+   * Apply an inventory change from a notification button, then bring the item's
+   * remaining reminders in line with it.
+   */
+  private async runItemAction(
+    itemId: string,
+    action: () => Promise<unknown>,
+    notification?: Notifications.Notification
+  ): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      console.warn("smartNotificationService: notification action failed", error);
+      // The reminder stays: nothing changed, and pressing the button took it away.
+      if (notification) await this.showActionFailed(notification);
+      return;
+    }
+    const {
+      cancelSingleItemReminderNotifications,
+      rescheduleAllItemReminderNotificationsForUser,
+    } = itemReminders();
+    // Offline the full reschedule can't read the inventory; drop this item's own
+    // reminders so they don't outlive the change.
+    await cancelSingleItemReminderNotifications(itemId);
+    await rescheduleAllItemReminderNotificationsForUser();
+  }
+
+  /** Show the reminder again, saying its button didn't go through. */
+  private async showActionFailed(notification: Notifications.Notification): Promise<void> {
+    const { title, body, data, categoryIdentifier } = notification.request.content;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title,
+        body: `Couldn't save that, try again. ${body ?? ""}`.trim(),
+        data,
+        ...(categoryIdentifier ? { categoryIdentifier } : {}),
+      },
+      trigger: null,
+    });
+  }
+
+  /** Show the same notification again later, outside quiet hours. */
+  private async snooze(notification: Notifications.Notification): Promise<void> {
+    const { title, body, data, categoryIdentifier } = notification.request.content;
+    // Read from storage: in the background task this service was never initialized.
+    const { quietHours } = await loadNotificationSettings();
+    const fireAt = deferPastQuietHours(
+      new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000),
+      quietHours
+    );
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title,
+        body,
+        data: { ...data, snoozed: true },
+        ...(categoryIdentifier ? { categoryIdentifier } : {}),
+      },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: fireAt },
+    });
   }
 
   /**
@@ -486,9 +793,21 @@ class SmartNotificationService {
   async updateSettings(
     newSettings: Partial<NotificationSettings>
   ): Promise<void> {
-    this.settings = { ...this.settings, ...newSettings };
-    // Save to persistent storage
-    // await AsyncStorage.setItem('notificationSettings', JSON.stringify(this.settings));
+    this.settings = sanitizeNotificationSettings({
+      ...this.settings,
+      ...newSettings,
+    });
+    try {
+      await AsyncStorage.setItem(
+        NOTIFICATION_SETTINGS_STORAGE_KEY,
+        JSON.stringify(this.settings)
+      );
+    } catch (e) {
+      console.warn("smartNotificationService: failed to save settings", e);
+    }
+
+    // Item reminders are grouped and held by these settings too
+    await itemReminders().rescheduleAllItemReminderNotificationsForUser();
   }
 
   /**
@@ -499,10 +818,53 @@ class SmartNotificationService {
   }
 
   /**
-   * Cancel all scheduled notifications
+   * Cancel the notifications this service scheduled. Per-item expiry reminders are
+   * left alone.
    */
   async cancelAllNotifications(): Promise<void> {
-    await Notifications.cancelAllScheduledNotificationsAsync();
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const request of scheduled) {
+      if (
+        SMART_NOTIFICATION_TYPES.includes(
+          notificationDataType(request.content.data)
+        )
+      ) {
+        await Notifications.cancelScheduledNotificationAsync(
+          request.identifier
+        );
+      }
+    }
+  }
+
+  /**
+   * Schedule unless the pending-notification budget is used up; the OS would drop
+   * anything past it without telling us.
+   */
+  private async schedule(
+    content: Notifications.NotificationContentInput,
+    trigger: Notifications.NotificationTriggerInput
+  ): Promise<void> {
+    if (this.pendingBudget <= 0) return;
+    this.pendingBudget -= 1;
+    await Notifications.scheduleNotificationAsync({ content, trigger });
+  }
+
+  private dateTrigger(at: Date): Notifications.NotificationTriggerInput {
+    return {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: deferPastQuietHours(at, this.settings.quietHours),
+    };
+  }
+
+  /** A daily time of day, moved to the end of quiet hours when it falls inside them. */
+  private outsideQuietHours(time: { hour: number; minute: number }): {
+    hour: number;
+    minute: number;
+  } {
+    const today = new Date();
+    today.setHours(time.hour, time.minute, 0, 0);
+    const at = deferPastQuietHours(today, this.settings.quietHours);
+    return { hour: at.getHours(), minute: at.getMinutes() };
   }
 
   /**
@@ -525,11 +887,12 @@ class SmartNotificationService {
    * Get optimal notification time based on user patterns
    */
   private getOptimalNotificationTime(): { hour: number; minute: number } {
-    if (this.userPattern?.bestTimeToNotify) {
-      const [hour, minute] = this.userPattern.bestTimeToNotify
-        .split(":")
-        .map(Number);
-      return { hour, minute };
+    const learned =
+      this.settings.adaptiveTiming && this.userPattern
+        ? parseTimeOfDay(learnedSendTime(this.userPattern))
+        : null;
+    if (learned !== null) {
+      return { hour: Math.floor(learned / 60), minute: learned % 60 };
     }
 
     // Default to 9 AM if no pattern data
@@ -545,70 +908,69 @@ class SmartNotificationService {
   }
 
   /**
-   * Update user notification patterns based on interactions
+   * Update user notification patterns based on interactions. Only reminders count;
+   * the stored pattern is reread because the background task may have changed it.
    */
   private async updateUserPattern(
-    actionId: string,
-    notificationData: any
+    interaction: NotificationInteraction
   ): Promise<void> {
-    // This would track user behavior to improve notification timing
-    // and relevance over time
-
-    if (!this.userPattern) {
-      this.userPattern = {
-        userId: "current-user", // Would get from auth
-        bestTimeToNotify: "09:00",
-        avgResponseTime: 15,
-        preferredNotificationTypes: [],
-        dismissalRate: 0,
-        actionTakenRate: 0,
-        lastUpdated: new Date(),
-      };
-    }
+    if (!REMINDER_NOTIFICATION_TYPES.includes(interaction.type)) return;
+    this.userPattern = recordNotificationInteraction(
+      await loadNotificationPattern(),
+      interaction
+    );
+    await saveNotificationPattern(this.userPattern);
+  }
 
-    // Update patterns based on action
-    const now = new Date();
-    this.userPattern.lastUpdated = now;
+  /**
+   * Count reminders left unanswered in the tray as dismissed. Each one is counted
+   * once, however often the app is opened.
+   */
+  async recordIgnoredNotifications(): Promise<void> {
+    const presented = await Notifications.getPresentedNotificationsAsync();
+    const cutoff = Date.now() - IGNORED_AFTER_HOURS * 60 * 60 * 1000;
+    let pattern = await loadNotificationPattern();
+    let changed = false;
+
+    for (const notification of presented) {
+      const { identifier, content } = notification.request;
+      const type = notificationDataType(content.data);
+      if (!REMINDER_NOTIFICATION_TYPES.includes(type) || notification.date > cutoff) {
+        continue;
+      }
+      const marked = markNotificationIgnored(pattern, identifier);
+      if (!marked) continue;
+      pattern = recordNotificationInteraction(marked, {
+        kind: "dismiss",
+        at: new Date(),
+        sentAt: new Date(notification.date),
+        type,
+      });
+      changed = true;
+    }
 
-    if (actionId !== "DISMISS") {
-      this.userPattern.actionTakenRate = Math.min(
-        this.userPattern.actionTakenRate + 0.1,
-        1.0
-      );
+    if (changed) {
+      this.userPattern = pattern;
+      await saveNotificationPattern(pattern);
     }
+  }
 
-    // Save updated pattern
-    // await AsyncStorage.setItem('userNotificationPattern', JSON.stringify(this.userPattern));
+  /** Forget what was learned; reminders go back to the chosen times. */
+  async resetUserPattern(): Promise<void> {
+    this.userPattern = null;
+    try {
+      await AsyncStorage.removeItem(NOTIFICATION_PATTERN_STORAGE_KEY);
+    } catch (e) {
+      console.warn("smartNotificationService: failed to reset notification pattern", e);
+    }
+    await itemReminders().rescheduleAllItemReminderNotificationsForUser();
   }
 
   /**
    * Check if current time is within quiet hours
    */
   private isQuietHours(): boolean {
-    if (!this.settings.quietHours.enabled) return false;
-
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentTime = currentHour * 60 + currentMinute;
-
-    const [startHour, startMinute] = this.settings.quietHours.start
-      .split(":")
-      .map(Number);
-    const [endHour, endMinute] = this.settings.quietHours.end
-      .split(":")
-      .map(Number);
-
-    const startTime = startHour * 60 + startMinute;
-    const endTime = endHour * 60 + endMinute;
-
-    if (startTime <= endTime) {
-      // Same day quiet hours (e.g., 14:00 - 18:00)
-      return currentTime >= startTime && currentTime <= endTime;
-    } else {
-      // Overnight quiet hours (e.g., 22:00 - 07:00)
-      return currentTime >= startTime || currentTime <= endTime;
-    }
+    return isInQuietHours(new Date(), this.settings.quietHours);
   }
 
   /**
@@ -647,3 +1009,24 @@ class SmartNotificationService {
 
 // Export singleton instance
 export const smartNotificationService = new SmartNotificationService();
+
+// Receives notification button presses while the app is in the background or not
+// running (Android). Defined when the module loads, so a launch just for the task
+// finds it before any screen mounts.
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+  NOTIFICATION_ACTION_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error("Error in notification action task:", error);
+      return;
+    }
+    if (data && "actionIdentifier" in data) {
+      await smartNotificationService.handleNotificationResponse(data);
+    }
+  }
+);
+
+/** Have the OS deliver notification button presses to the action task. */
+export async function registerNotificationActionTask(): Promise<void> {
+  await Notifications.registerTaskAsync(NOTIFICATION_ACTION_TASK);
+}
@@ -0,0 +1,82 @@
+// services/urgencySettingsService.ts
+import { supabase, UrgencySettings } from "@/lib/supabase";
+import { isNetworkRequestFailed } from "@/utils/networkError";
+import {
+  DEFAULT_URGENCY_SETTINGS,
+  sanitizeUrgencySettings,
+  setActiveUrgencySettings,
+} from "@/utils/urgencyUtils";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+/** Last thresholds seen for this device, so lists colour correctly before the profile loads. */
+export const URGENCY_SETTINGS_STORAGE_KEY = "fridgewise_urgency_settings_v1";
+
+async function readCached(): Promise<UrgencySettings | null> {
+  try {
+    const raw = await AsyncStorage.getItem(URGENCY_SETTINGS_STORAGE_KEY);
+    return raw ? sanitizeUrgencySettings(JSON.parse(raw)) : null;
+  } catch (e) {
+    console.warn("urgencySettingsService: failed to read cached settings", e);
+    return null;
+  }
+}
+
+async function writeCached(settings: UrgencySettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(URGENCY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("urgencySettingsService: failed to cache settings", e);
+  }
+}
+
+export const urgencySettingsService = {
+  /**
+   * Applies the cached thresholds, then the ones on the user's profile. Offline, the
+   * cached ones stay in effect.
+   */
+  async load(userId: string): Promise<UrgencySettings> {
+    const cached = await readCached();
+    if (cached) setActiveUrgencySettings(cached);
+
+    const { data, error } = await supabase
+      .from("user_profiles")
+      .select("urgency_settings")
+      .eq("id", userId)
+      .maybeSingle();
+    if (error) {
+      if (!isNetworkRequestFailed(error)) {
+        console.warn("urgencySettingsService: failed to load settings", error.message);
+      }
+      return cached ?? DEFAULT_URGENCY_SETTINGS;
+    }
+
+    const settings = sanitizeUrgencySettings(data?.urgency_settings);
+    setActiveUrgencySettings(settings);
+    await writeCached(settings);
+    return settings;
+  },
+
+  /** Saves to the profile so the thresholds follow the user to other devices. */
+  async save(userId: string, settings: UrgencySettings): Promise<UrgencySettings> {
+    const clean = sanitizeUrgencySettings(settings);
+    const { error } = await supabase
+      .from("user_profiles")
+      .update({ urgency_settings: clean })
+      .eq("id", userId);
+    if (error) throw error;
+
+    setActiveUrgencySettings(clean);
+    await writeCached(clean);
+    return clean;
+  },
+
+  /** Forgets the signed-out user's thresholds on this device. */
+  async clear(): Promise<void> {
+    setActiveUrgencySettings(null);
+    try {
+      await AsyncStorage.removeItem(URGENCY_SETTINGS_STORAGE_KEY);
+    } catch (e) {
+      console.warn("urgencySettingsService: failed to clear cached settings", e);
+    }
+  },
+};
@@ -0,0 +1,199 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  addDays,
+  dueReminders,
+  type PushToken,
+  recipientItems,
+  type ReminderItem,
+  reminderMessage,
+  utcToYmd,
+} from "./reminders.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+/** Expo takes at most 100 messages per request. */
+const EXPO_PUSH_BATCH = 100;
+
+/** Users per food_items query, to keep the `in` filter's URL short. */
+const USER_BATCH = 200;
+
+type ExpoPushTicket = {
+  status: "ok" | "error";
+  details?: { error?: string };
+};
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function chunk<T>(list: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < list.length; i += size) chunks.push(list.slice(i, i + size));
+  return chunks;
+}
+
+async function sendPushes(messages: unknown[]): Promise<ExpoPushTicket[]> {
+  const accessToken = Deno.env.get("EXPO_ACCESS_TOKEN");
+  const res = await fetch(EXPO_PUSH_URL, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(messages),
+  });
+  if (!res.ok) throw new Error(`Expo push failed: ${res.status} ${await res.text()}`);
+  const { data } = (await res.json()) as { data: ExpoPushTicket[] };
+  return data;
+}
+
+/**
+ * Runs hourly from pg_cron (see the push_tokens migration). Pushes each device the
+ * expiry reminders that are due in its time zone and that it has no local
+ * notification for. Opened items are left to the app: their after-opening date
+ * comes from shelf-life data the server doesn't have.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      return json({ error: "Server misconfigured" }, 500);
+    }
+
+    // Only the scheduled job may trigger a run.
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const admin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const now = new Date();
+    const { data: tokenRows, error: tokensError } = await admin
+      .from("push_tokens")
+      .select(
+        "token, user_id, time_zone, quiet_hours_start, quiet_hours_end, local_reminder_keys"
+      );
+    if (tokensError) return json({ error: tokensError.message }, 500);
+
+    const tokens = (tokenRows ?? []) as PushToken[];
+    const userIds = [...new Set(tokens.map((t) => t.user_id))];
+    let sentCount = 0;
+    const staleTokens: string[] = [];
+
+    for (const users of chunk(userIds, USER_BATCH)) {
+      const { data: memberRows, error: membersError } = await admin
+        .from("household_members")
+        .select("user_id, household_id")
+        .in("user_id", users);
+      if (membersError) return json({ error: membersError.message }, 500);
+      const householdOf = new Map<string, string>(
+        (memberRows ?? []).map((m) => [m.user_id, m.household_id] as [string, string])
+      );
+      const householdIds = [...new Set(householdOf.values())];
+
+      // Members are reminded about the household's shared items as well as their own.
+      const itemQuery = () =>
+        admin
+          .from("food_items")
+          .select(
+            "id, user_id, household_id, name, expiry_date, expiry_kind, notification_time, notification_reminder_days, notification_repeat"
+          )
+          .gt("quantity", 0)
+          .eq("notifications_enabled", true)
+          .not("expiry_date", "is", null)
+          .is("opened_at", null);
+      const [own, shared] = await Promise.all([
+        itemQuery().in("user_id", users),
+        householdIds.length > 0
+          ? itemQuery().in("household_id", householdIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      const itemsError = own.error ?? shared.error;
+      if (itemsError) return json({ error: itemsError.message }, 500);
+
+      const batchTokens = tokens.filter((t) => users.includes(t.user_id));
+      const { data: deliveryRows, error: deliveriesError } = await admin
+        .from("push_reminder_deliveries")
+        .select("token, item_id, remind_on")
+        .in(
+          "token",
+          batchTokens.map((t) => t.token)
+        )
+        .gte("remind_on", addDays(utcToYmd(now), -2));
+      if (deliveriesError) return json({ error: deliveriesError.message }, 500);
+
+      const sent = new Set(
+        (deliveryRows ?? []).map((d) => `${d.token}:${d.item_id}:${d.remind_on}`)
+      );
+      const items = [...(own.data ?? []), ...(shared.data ?? [])] as ReminderItem[];
+
+      const outgoing = batchTokens
+        .map((token) => ({
+          token,
+          due: dueReminders(
+            token,
+            recipientItems(token.user_id, householdOf.get(token.user_id), items),
+            sent,
+            now
+          ),
+        }))
+        .filter(({ due }) => due.length > 0);
+
+      for (const batch of chunk(outgoing, EXPO_PUSH_BATCH)) {
+        const tickets = await sendPushes(
+          batch.map(({ token, due }) => reminderMessage(token, due, now))
+        );
+        const deliveries = batch.flatMap(({ token, due }, i) => {
+          const ticket = tickets[i];
+          if (ticket?.details?.error === "DeviceNotRegistered") staleTokens.push(token.token);
+          if (ticket?.status !== "ok") return [];
+          sentCount += 1;
+          return due.map(({ item, remindOn }) => ({
+            token: token.token,
+            item_id: item.id,
+            remind_on: remindOn,
+          }));
+        });
+        if (deliveries.length > 0) {
+          const { error } = await admin
+            .from("push_reminder_deliveries")
+            .upsert(deliveries, { ignoreDuplicates: true });
+          if (error) return json({ error: error.message }, 500);
+        }
+      }
+    }
+
+    // Uninstalled apps: their tokens won't work again.
+    if (staleTokens.length > 0) {
+      await admin.from("push_tokens").delete().in("token", staleTokens);
+    }
+
+    return json({ ok: true, sent: sentCount, removedTokens: staleTokens.length }, 200);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Internal error";
+    return json({ error: message }, 500);
+  }
+});
@@ -0,0 +1,262 @@
+// Reminder days and message text for the push service. Plain TypeScript with no
+// runtime imports, so the app's tests can check it against the local reminders.
+
+const DEFAULT_TIME = "13:00";
+
+export type PushToken = {
+  token: string;
+  user_id: string;
+  time_zone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  local_reminder_keys: string[] | null;
+};
+
+export type ReminderItem = {
+  id: string;
+  user_id: string;
+  household_id: string | null;
+  name: string | null;
+  expiry_date: string;
+  expiry_kind: string | null;
+  notification_time: string | null;
+  notification_reminder_days: number | null;
+  notification_repeat: string | null;
+};
+
+export type DueReminder = { item: ReminderItem; remindOn: string };
+
+// ---------------------------------------------------------------------------
+// Dates. Days are `YYYY-MM-DD` in the device's time zone, worked on as UTC dates.
+// ---------------------------------------------------------------------------
+
+function ymdToUtc(ymd: string): Date {
+  const [y, m, d] = ymd.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+export function utcToYmd(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function addDays(ymd: string, days: number): string {
+  const d = ymdToUtc(ymd);
+  d.setUTCDate(d.getUTCDate() + days);
+  return utcToYmd(d);
+}
+
+function addMonth(ymd: string): string {
+  const d = ymdToUtc(ymd);
+  const day = d.getUTCDate();
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  if (d.getUTCDate() !== day) d.setUTCDate(0);
+  return utcToYmd(d);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((ymdToUtc(to).getTime() - ymdToUtc(from).getTime()) / 86400000);
+}
+
+/** Minutes after midnight for `HH:mm`, or null when it isn't a valid time. */
+function parseTimeOfDay(value: string | null | undefined): number | null {
+  const m = typeof value === "string" ? value.match(/^(\d{1,2}):(\d{2})$/) : null;
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+/** Today and the minutes past midnight in `timeZone`; UTC when the zone is unknown. */
+function localClock(now: Date, timeZone: string): { today: string; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+  } catch {
+    return localClock(now, "UTC");
+  }
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    today: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: (Number(part("hour")) % 24) * 60 + Number(part("minute")),
+  };
+}
+
+function isInQuietHours(minutes: number, start: string | null, end: string | null): boolean {
+  const s = parseTimeOfDay(start);
+  const e = parseTimeOfDay(end);
+  if (s === null || e === null || s === e) return false;
+  return s < e ? minutes >= s && minutes < e : minutes >= s || minutes < e;
+}
+
+// ---------------------------------------------------------------------------
+// Reminder days, worked out as in services/itemExpiryReminderSchedule.ts
+// (services/__tests__/pushReminders.test.ts keeps the two in step).
+// ---------------------------------------------------------------------------
+
+function reminderMinutes(item: ReminderItem): number {
+  return parseTimeOfDay(item.notification_time) ?? parseTimeOfDay(DEFAULT_TIME)!;
+}
+
+export function remindsOn(item: ReminderItem, day: string, today: string): boolean {
+  const expiry = item.expiry_date.slice(0, 10);
+  const away = daysBetween(today, expiry);
+  if (away <= 0) return false;
+
+  const reminderDays = Math.max(1, item.notification_reminder_days ?? 7);
+  const r = (item.notification_repeat ?? "none").toLowerCase();
+  let repeat = ["daily", "weekly", "monthly"].includes(r) ? r : "none";
+  if (repeat === "weekly" && away < 7) repeat = "none";
+  if (repeat === "monthly" && away < 30) repeat = "none";
+
+  let cursor = addDays(expiry, -reminderDays);
+  if (repeat === "none") return cursor === day;
+  while (cursor <= expiry && cursor <= day) {
+    if (cursor === day) return true;
+    if (repeat === "daily") cursor = addDays(cursor, 1);
+    else if (repeat === "weekly") cursor = addDays(cursor, 7);
+    else cursor = addMonth(cursor);
+  }
+  return false;
+}
+
+/**
+ * The items a user is reminded about: their own and their household's, each once
+ * even when it was fetched as both.
+ */
+export function recipientItems(
+  userId: string,
+  householdId: string | undefined,
+  items: ReminderItem[]
+): ReminderItem[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const theirs =
+      item.user_id === userId || (!!householdId && item.household_id === householdId);
+    if (!theirs || seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+}
+
+/**
+ * Reminders for the token's user that are due and not yet sent: today's once their
+ * time has passed, and yesterday's that quiet hours held back overnight. Those the
+ * device has scheduled itself are left to it.
+ */
+export function dueReminders(
+  token: PushToken,
+  items: ReminderItem[],
+  sent: Set<string>,
+  now: Date
+): DueReminder[] {
+  const { today, minutes } = localClock(now, token.time_zone);
+  if (isInQuietHours(minutes, token.quiet_hours_start, token.quiet_hours_end)) return [];
+
+  const yesterday = addDays(today, -1);
+  const local = new Set(token.local_reminder_keys ?? []);
+  const due: DueReminder[] = [];
+  for (const item of items) {
+    const at = reminderMinutes(item);
+    const heldOver =
+      isInQuietHours(at, token.quiet_hours_start, token.quiet_hours_end) &&
+      remindsOn(item, yesterday, today);
+    if (heldOver) due.push({ item, remindOn: yesterday });
+    if (at <= minutes && remindsOn(item, today, today)) due.push({ item, remindOn: today });
+  }
+  return due.filter(
+    ({ item, remindOn }) =>
+      !local.has(`${item.id}:${remindOn}`) &&
+      !sent.has(`${token.token}:${item.id}:${remindOn}`)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Message text, matching the local reminders in services/itemExpiryNotificationService.ts
+// (services/__tests__/pushReminders.test.ts keeps the two in step).
+// ---------------------------------------------------------------------------
+
+function itemTitle(item: ReminderItem): string {
+  const t = (item.name ?? "").trim() || "Item";
+  return t.charAt(0).toLocaleUpperCase() + t.slice(1);
+}
+
+export function singleItemBody(item: ReminderItem, today: string): string {
+  const expiry = item.expiry_date.slice(0, 10);
+  const dateStr = ymdToUtc(expiry).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+  const days = daysBetween(today, expiry);
+  if (item.expiry_kind === "best_before") {
+    if (days < 0) return `Past best before · ${dateStr}`;
+    if (days === 0) return `Best before today · ${dateStr}`;
+    if (days === 1) return `Best before tomorrow · ${dateStr}`;
+    return `Best before in ${days} days · ${dateStr}`;
+  }
+  if (days < 0) return `Expired · ${dateStr}`;
+  if (days === 0) return `Expires today · ${dateStr}`;
+  if (days === 1) return `Expires tomorrow · ${dateStr}`;
+  return `Expires in ${days} days · ${dateStr}`;
+}
+
+export function groupedBody(items: ReminderItem[]): string {
+  const names = items.map(itemTitle);
+  const n = names.length;
+  if (n >= 6) return "Open FridgeWise to review them.";
+  if (n === 2) return `${names[0]} and ${names[1]} need attention.`;
+  const more = n - 2;
+  return `${names[0]}, ${names[1]}, and ${more} more item${more === 1 ? "" : "s"} need attention.`;
+}
+
+/** One push per device: the item itself, or a digest of everything due. */
+export function reminderMessage(token: PushToken, due: DueReminder[], now: Date) {
+  const { today } = localClock(now, token.time_zone);
+  const items = [...new Map(due.map(({ item }) => [item.id, item])).values()].sort(
+    (a, b) => daysBetween(b.expiry_date, a.expiry_date)
+  );
+  const focus = items[0];
+  const base = {
+    to: token.token,
+    sound: "default",
+    priority: "high",
+    channelId: "expiry-alerts",
+  };
+  if (items.length === 1) {
+    return {
+      ...base,
+      title: itemTitle(focus),
+      body: singleItemBody(focus, today),
+      categoryId: "EXPIRY_WARNING",
+      data: {
+        type: "item_expiry",
+        itemId: focus.id,
+        group: false,
+        expiryYmd: focus.expiry_date.slice(0, 10),
+        source: "push",
+      },
+    };
+  }
+  return {
+    ...base,
+    title: `${items.length} item reminders`,
+    body: groupedBody(items),
+    data: {
+      type: "item_expiry",
+      group: true,
+      itemIds: items.map((i) => i.id),
+      expiryYmd: focus.expiry_date.slice(0, 10),
+      source: "push",
+    },
+  };
+}
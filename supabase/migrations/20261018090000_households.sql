@@ -0,0 +1,388 @@
+-- Shared household inventories: households, members with roles, and invite codes.
+-- food_items / usage_logs keep their per-user owner (`user_id`) and gain an optional
+-- `household_id`; rows with a household are visible to every member of it.
+
+create table if not exists public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.household_members (
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member',
+  display_name text,
+  joined_at timestamptz not null default now(),
+  primary key (household_id, user_id)
+);
+
+alter table public.household_members
+  drop constraint if exists household_members_role_check;
+
+alter table public.household_members
+  add constraint household_members_role_check
+  check (role in ('owner', 'member', 'viewer'));
+
+-- One household per user keeps "my inventory" unambiguous on every screen.
+create unique index if not exists household_members_user_id_key
+  on public.household_members (user_id);
+
+create table if not exists public.household_invites (
+  code text primary key,
+  household_id uuid not null references public.households (id) on delete cascade,
+  role text not null default 'member',
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default (now() + interval '7 days'),
+  used_by uuid references auth.users (id) on delete set null,
+  used_at timestamptz
+);
+
+alter table public.household_invites
+  drop constraint if exists household_invites_role_check;
+
+alter table public.household_invites
+  add constraint household_invites_role_check
+  check (role in ('member', 'viewer'));
+
+alter table public.food_items
+  add column if not exists household_id uuid references public.households (id) on delete set null;
+
+alter table public.usage_logs
+  add column if not exists household_id uuid references public.households (id) on delete set null;
+
+create index if not exists food_items_household_id_idx
+  on public.food_items (household_id);
+
+create index if not exists usage_logs_household_id_idx
+  on public.usage_logs (household_id);
+
+-- ---------------------------------------------------------------------------
+-- Membership helpers (security definer so policies can call them without
+-- recursing through household_members RLS).
+-- ---------------------------------------------------------------------------
+
+create or replace function public.household_role_for(p_household_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role
+  from public.household_members
+  where household_id = p_household_id
+    and user_id = auth.uid();
+$$;
+
+create or replace function public.is_household_member(p_household_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.household_role_for(p_household_id) is not null;
+$$;
+
+create or replace function public.can_edit_household(p_household_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.household_role_for(p_household_id) in ('owner', 'member'), false);
+$$;
+
+-- ---------------------------------------------------------------------------
+-- RLS: household tables are read-only to members; writes go through the RPCs below.
+-- ---------------------------------------------------------------------------
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+alter table public.household_invites enable row level security;
+
+drop policy if exists "Members can read their household" on public.households;
+create policy "Members can read their household"
+  on public.households for select
+  using (public.is_household_member(id));
+
+drop policy if exists "Members can read household members" on public.household_members;
+create policy "Members can read household members"
+  on public.household_members for select
+  using (public.is_household_member(household_id));
+
+drop policy if exists "Owners can read household invites" on public.household_invites;
+create policy "Owners can read household invites"
+  on public.household_invites for select
+  using (public.household_role_for(household_id) = 'owner');
+
+-- Inventory: existing per-user policies stay; these add shared access on top.
+drop policy if exists "Household members can read shared food items" on public.food_items;
+create policy "Household members can read shared food items"
+  on public.food_items for select
+  using (household_id is not null and public.is_household_member(household_id));
+
+drop policy if exists "Household editors can update shared food items" on public.food_items;
+create policy "Household editors can update shared food items"
+  on public.food_items for update
+  using (household_id is not null and public.can_edit_household(household_id))
+  with check (household_id is not null and public.can_edit_household(household_id));
+
+drop policy if exists "Household editors can delete shared food items" on public.food_items;
+create policy "Household editors can delete shared food items"
+  on public.food_items for delete
+  using (household_id is not null and public.can_edit_household(household_id));
+
+-- Viewers may not write into a household, even through their own per-user policies.
+drop policy if exists "Household viewers cannot insert food items" on public.food_items;
+create policy "Household viewers cannot insert food items"
+  on public.food_items as restrictive for insert
+  with check (household_id is null or public.can_edit_household(household_id));
+
+drop policy if exists "Household viewers cannot update food items" on public.food_items;
+create policy "Household viewers cannot update food items"
+  on public.food_items as restrictive for update
+  using (household_id is null or public.can_edit_household(household_id));
+
+drop policy if exists "Household viewers cannot delete food items" on public.food_items;
+create policy "Household viewers cannot delete food items"
+  on public.food_items as restrictive for delete
+  using (household_id is null or public.can_edit_household(household_id));
+
+drop policy if exists "Household members can read shared usage logs" on public.usage_logs;
+create policy "Household members can read shared usage logs"
+  on public.usage_logs for select
+  using (household_id is not null and public.is_household_member(household_id));
+
+drop policy if exists "Household viewers cannot insert usage logs" on public.usage_logs;
+create policy "Household viewers cannot insert usage logs"
+  on public.usage_logs as restrictive for insert
+  with check (household_id is null or public.can_edit_household(household_id));
+
+-- ---------------------------------------------------------------------------
+-- RPCs
+-- ---------------------------------------------------------------------------
+
+-- Moves the caller's personal inventory + history into (or out of) a household.
+create or replace function public.assign_own_rows_to_household(p_household_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.food_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.usage_logs
+    set household_id = p_household_id
+    where user_id = auth.uid();
+$$;
+
+revoke execute on function public.assign_own_rows_to_household(uuid) from public, anon, authenticated;
+
+create or replace function public.create_household(p_name text, p_display_name text default null)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if exists (select 1 from public.household_members where user_id = auth.uid()) then
+    raise exception 'You already belong to a household';
+  end if;
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Household name is required';
+  end if;
+
+  insert into public.households (name, created_by)
+    values (trim(p_name), auth.uid())
+    returning * into v_household;
+
+  insert into public.household_members (household_id, user_id, role, display_name)
+    values (v_household.id, auth.uid(), 'owner', nullif(trim(p_display_name), ''));
+
+  perform public.assign_own_rows_to_household(v_household.id);
+  return v_household;
+end;
+$$;
+
+create or replace function public.create_household_invite(p_household_id uuid, p_role text default 'member')
+returns public.household_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.household_invites;
+begin
+  if public.household_role_for(p_household_id) is distinct from 'owner' then
+    raise exception 'Only the household owner can invite members';
+  end if;
+  if p_role not in ('member', 'viewer') then
+    raise exception 'Invalid role';
+  end if;
+
+  insert into public.household_invites (code, household_id, role, created_by)
+    values (
+      upper(substr(md5(gen_random_uuid()::text || clock_timestamp()::text), 1, 8)),
+      p_household_id,
+      p_role,
+      auth.uid()
+    )
+    returning * into v_invite;
+  return v_invite;
+end;
+$$;
+
+create or replace function public.join_household(p_code text, p_display_name text default null)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.household_invites;
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if exists (select 1 from public.household_members where user_id = auth.uid()) then
+    raise exception 'You already belong to a household';
+  end if;
+
+  select * into v_invite
+    from public.household_invites
+    where code = upper(trim(p_code))
+    for update;
+
+  if v_invite.code is null or v_invite.used_at is not null or v_invite.expires_at < now() then
+    raise exception 'Invite code is invalid or has expired';
+  end if;
+
+  insert into public.household_members (household_id, user_id, role, display_name)
+    values (v_invite.household_id, auth.uid(), v_invite.role, nullif(trim(p_display_name), ''));
+
+  update public.household_invites
+    set used_by = auth.uid(), used_at = now()
+    where code = v_invite.code;
+
+  perform public.assign_own_rows_to_household(v_invite.household_id);
+
+  select * into v_household from public.households where id = v_invite.household_id;
+  return v_household;
+end;
+$$;
+
+create or replace function public.leave_household()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member public.household_members;
+  v_successor uuid;
+begin
+  select * into v_member from public.household_members where user_id = auth.uid();
+  if v_member.user_id is null then
+    return;
+  end if;
+
+  delete from public.household_members where user_id = auth.uid();
+  perform public.assign_own_rows_to_household(null);
+
+  if v_member.role = 'owner' then
+    select user_id into v_successor
+      from public.household_members
+      where household_id = v_member.household_id
+      order by (role = 'member') desc, joined_at asc
+      limit 1;
+
+    if v_successor is null then
+      delete from public.households where id = v_member.household_id;
+    else
+      update public.household_members
+        set role = 'owner'
+        where household_id = v_member.household_id and user_id = v_successor;
+    end if;
+  end if;
+end;
+$$;
+
+create or replace function public.set_household_member_role(p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household_id uuid;
+begin
+  select household_id into v_household_id from public.household_members where user_id = auth.uid();
+  if v_household_id is null or public.household_role_for(v_household_id) <> 'owner' then
+    raise exception 'Only the household owner can change roles';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'Owners cannot change their own role';
+  end if;
+  if p_role not in ('owner', 'member', 'viewer') then
+    raise exception 'Invalid role';
+  end if;
+
+  update public.household_members
+    set role = p_role
+    where household_id = v_household_id and user_id = p_user_id;
+
+  -- Handing over ownership demotes the previous owner to a regular member.
+  if p_role = 'owner' then
+    update public.household_members
+      set role = 'member'
+      where household_id = v_household_id and user_id = auth.uid();
+  end if;
+end;
+$$;
+
+create or replace function public.remove_household_member(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household_id uuid;
+begin
+  select household_id into v_household_id from public.household_members where user_id = auth.uid();
+  if v_household_id is null or public.household_role_for(v_household_id) <> 'owner' then
+    raise exception 'Only the household owner can remove members';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'Use leave household to remove yourself';
+  end if;
+
+  delete from public.household_members
+    where household_id = v_household_id and user_id = p_user_id;
+
+  update public.food_items set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+  update public.usage_logs set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+end;
+$$;
+
+grant execute on function public.create_household(text, text) to authenticated;
+grant execute on function public.create_household_invite(uuid, text) to authenticated;
+grant execute on function public.join_household(text, text) to authenticated;
+grant execute on function public.leave_household() to authenticated;
+grant execute on function public.set_household_member_role(uuid, text) to authenticated;
+grant execute on function public.remove_household_member(uuid) to authenticated;
@@ -0,0 +1,158 @@
+-- Cloud-synced shopping list (previously AsyncStorage-only under `fridgewise_shopping_list_v1`).
+-- Mirrors `StoredGroceryItem`; household members share one list like they share inventory.
+
+create table if not exists public.shopping_list_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  household_id uuid references public.households (id) on delete set null,
+  -- Local id the row was created or migrated under; makes the first-login upload idempotent.
+  client_id text,
+  name text not null,
+  category text,
+  quantity integer not null default 1,
+  unit text,
+  status text not null default 'list',
+  priority text not null default 'medium',
+  notes text,
+  added_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.shopping_list_items
+  drop constraint if exists shopping_list_items_quantity_check;
+
+alter table public.shopping_list_items
+  add constraint shopping_list_items_quantity_check
+  check (quantity > 0);
+
+alter table public.shopping_list_items
+  drop constraint if exists shopping_list_items_status_check;
+
+alter table public.shopping_list_items
+  add constraint shopping_list_items_status_check
+  check (status in ('list', 'bought', 'fridge'));
+
+alter table public.shopping_list_items
+  drop constraint if exists shopping_list_items_priority_check;
+
+alter table public.shopping_list_items
+  add constraint shopping_list_items_priority_check
+  check (priority in ('high', 'medium', 'low'));
+
+create unique index if not exists shopping_list_items_user_client_id_key
+  on public.shopping_list_items (user_id, client_id);
+
+create index if not exists shopping_list_items_household_id_idx
+  on public.shopping_list_items (household_id);
+
+create or replace function public.touch_shopping_list_items_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists shopping_list_items_touch_updated_at on public.shopping_list_items;
+create trigger shopping_list_items_touch_updated_at
+  before update on public.shopping_list_items
+  for each row execute function public.touch_shopping_list_items_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- RLS: owner rows plus the household's shared rows; viewers are read-only.
+-- ---------------------------------------------------------------------------
+
+alter table public.shopping_list_items enable row level security;
+
+drop policy if exists "Users can read own or household shopping list" on public.shopping_list_items;
+create policy "Users can read own or household shopping list"
+  on public.shopping_list_items for select
+  using (
+    user_id = auth.uid()
+    or (household_id is not null and public.is_household_member(household_id))
+  );
+
+drop policy if exists "Users can add to their shopping list" on public.shopping_list_items;
+create policy "Users can add to their shopping list"
+  on public.shopping_list_items for insert
+  with check (
+    user_id = auth.uid()
+    and (household_id is null or public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can update own or household shopping list" on public.shopping_list_items;
+create policy "Users can update own or household shopping list"
+  on public.shopping_list_items for update
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  )
+  with check (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can delete own or household shopping list" on public.shopping_list_items;
+create policy "Users can delete own or household shopping list"
+  on public.shopping_list_items for delete
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+-- ---------------------------------------------------------------------------
+-- Household moves carry the caller's shopping list along with their inventory.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.assign_own_rows_to_household(p_household_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.food_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.usage_logs
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.shopping_list_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+$$;
+
+revoke execute on function public.assign_own_rows_to_household(uuid) from public, anon, authenticated;
+
+create or replace function public.remove_household_member(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household_id uuid;
+begin
+  select household_id into v_household_id from public.household_members where user_id = auth.uid();
+  if v_household_id is null or public.household_role_for(v_household_id) <> 'owner' then
+    raise exception 'Only the household owner can remove members';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'Use leave household to remove yourself';
+  end if;
+
+  delete from public.household_members
+    where household_id = v_household_id and user_id = p_user_id;
+
+  update public.food_items set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+  update public.usage_logs set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+  update public.shopping_list_items set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+end;
+$$;
+
+grant execute on function public.remove_household_member(uuid) to authenticated;
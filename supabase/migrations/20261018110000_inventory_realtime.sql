@@ -0,0 +1,20 @@
+-- Realtime inventory updates: publish food_items / usage_logs changes to subscribed
+-- clients (RLS still decides which rows each subscriber receives).
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'food_items'
+  ) then
+    alter publication supabase_realtime add table public.food_items;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'usage_logs'
+  ) then
+    alter publication supabase_realtime add table public.usage_logs;
+  end if;
+end;
+$$;
@@ -0,0 +1,102 @@
+-- "I cooked this": log usage for every ingredient of a recipe and decrement the items
+-- in one transaction, plus the matching undo. Both check the same edit rights as the
+-- food_items policies (own personal rows, or an editable household).
+
+create or replace function public.can_edit_food_item(p_item public.food_items)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_item.household_id is null then p_item.user_id = auth.uid()
+    else public.can_edit_household(p_item.household_id)
+  end;
+$$;
+
+-- p_uses: [{ "item_id": uuid, "quantity": number }, ...]
+create or replace function public.cook_recipe(p_uses jsonb)
+returns setof public.usage_logs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_use jsonb;
+  v_quantity numeric;
+  v_item public.food_items;
+  v_log public.usage_logs;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if jsonb_typeof(p_uses) is distinct from 'array' or jsonb_array_length(p_uses) = 0 then
+    raise exception 'Nothing to log';
+  end if;
+
+  for v_use in select * from jsonb_array_elements(p_uses) loop
+    v_quantity := (v_use ->> 'quantity')::numeric;
+
+    select * into v_item
+      from public.food_items
+      where id = (v_use ->> 'item_id')::uuid
+      for update;
+
+    if v_item.id is null or not public.can_edit_food_item(v_item) then
+      raise exception 'Item not found';
+    end if;
+    if v_quantity is null or v_quantity <= 0 or v_quantity > v_item.quantity then
+      raise exception 'Not enough % left', v_item.name;
+    end if;
+
+    insert into public.usage_logs (item_id, user_id, household_id, status, quantity)
+      values (v_item.id, auth.uid(), v_item.household_id, 'used', v_quantity)
+      returning * into v_log;
+
+    -- Keep the row for history joins; read queries hide zero quantities.
+    update public.food_items
+      set quantity = greatest(v_item.quantity - v_quantity, 0)
+      where id = v_item.id;
+
+    return next v_log;
+  end loop;
+end;
+$$;
+
+-- Reverses a cook_recipe call: restores the quantities and removes its usage logs.
+create or replace function public.undo_cook_recipe(p_log_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_log public.usage_logs;
+  v_item public.food_items;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  for v_log in
+    select * from public.usage_logs
+      where id = any (p_log_ids) and user_id = auth.uid() and status = 'used'
+      for update
+  loop
+    select * into v_item from public.food_items where id = v_log.item_id for update;
+    if v_item.id is not null then
+      if not public.can_edit_food_item(v_item) then
+        raise exception 'You can no longer edit %', v_item.name;
+      end if;
+      update public.food_items
+        set quantity = v_item.quantity + v_log.quantity
+        where id = v_item.id;
+    end if;
+    delete from public.usage_logs where id = v_log.id;
+  end loop;
+end;
+$$;
+
+grant execute on function public.cook_recipe(jsonb) to authenticated;
+grant execute on function public.undo_cook_recipe(uuid[]) to authenticated;
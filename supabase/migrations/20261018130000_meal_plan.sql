@@ -0,0 +1,163 @@
+-- Weekly meal plan: recipes or free-text meals assigned to a day and slot. Inventory
+-- items set aside for a meal are stored on the entry (`reserved_items`) until it is
+-- cooked, so suggestions elsewhere don't hand them out twice.
+
+create table if not exists public.meal_plan_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  household_id uuid references public.households (id) on delete set null,
+  planned_for date not null,
+  slot text not null,
+  -- Built-in or imported recipe id; null for free-text meals.
+  recipe_id text,
+  title text not null,
+  notes text,
+  -- [{ "item_id": uuid, "quantity": number }]
+  reserved_items jsonb not null default '[]'::jsonb,
+  cooked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.meal_plan_entries
+  drop constraint if exists meal_plan_entries_slot_check;
+
+alter table public.meal_plan_entries
+  add constraint meal_plan_entries_slot_check
+  check (slot in ('breakfast', 'lunch', 'dinner'));
+
+alter table public.meal_plan_entries
+  drop constraint if exists meal_plan_entries_title_check;
+
+alter table public.meal_plan_entries
+  add constraint meal_plan_entries_title_check
+  check (length(trim(title)) > 0);
+
+alter table public.meal_plan_entries
+  drop constraint if exists meal_plan_entries_reserved_items_check;
+
+alter table public.meal_plan_entries
+  add constraint meal_plan_entries_reserved_items_check
+  check (jsonb_typeof(reserved_items) = 'array');
+
+create index if not exists meal_plan_entries_user_planned_for_idx
+  on public.meal_plan_entries (user_id, planned_for);
+
+create index if not exists meal_plan_entries_household_planned_for_idx
+  on public.meal_plan_entries (household_id, planned_for);
+
+create or replace function public.touch_meal_plan_entries_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists meal_plan_entries_touch_updated_at on public.meal_plan_entries;
+create trigger meal_plan_entries_touch_updated_at
+  before update on public.meal_plan_entries
+  for each row execute function public.touch_meal_plan_entries_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- RLS: owner rows plus the household's shared plan; viewers are read-only.
+-- ---------------------------------------------------------------------------
+
+alter table public.meal_plan_entries enable row level security;
+
+drop policy if exists "Users can read own or household meal plan" on public.meal_plan_entries;
+create policy "Users can read own or household meal plan"
+  on public.meal_plan_entries for select
+  using (
+    user_id = auth.uid()
+    or (household_id is not null and public.is_household_member(household_id))
+  );
+
+drop policy if exists "Users can add to their meal plan" on public.meal_plan_entries;
+create policy "Users can add to their meal plan"
+  on public.meal_plan_entries for insert
+  with check (
+    user_id = auth.uid()
+    and (household_id is null or public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can update own or household meal plan" on public.meal_plan_entries;
+create policy "Users can update own or household meal plan"
+  on public.meal_plan_entries for update
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  )
+  with check (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can delete own or household meal plan" on public.meal_plan_entries;
+create policy "Users can delete own or household meal plan"
+  on public.meal_plan_entries for delete
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+-- ---------------------------------------------------------------------------
+-- Household moves carry the caller's meal plan along with their inventory.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.assign_own_rows_to_household(p_household_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.food_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.usage_logs
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.shopping_list_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.meal_plan_entries
+    set household_id = p_household_id
+    where user_id = auth.uid();
+$$;
+
+revoke execute on function public.assign_own_rows_to_household(uuid) from public, anon, authenticated;
+
+create or replace function public.remove_household_member(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household_id uuid;
+begin
+  select household_id into v_household_id from public.household_members where user_id = auth.uid();
+  if v_household_id is null or public.household_role_for(v_household_id) <> 'owner' then
+    raise exception 'Only the household owner can remove members';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'Use leave household to remove yourself';
+  end if;
+
+  delete from public.household_members
+    where household_id = v_household_id and user_id = p_user_id;
+
+  update public.food_items set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+  update public.usage_logs set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+  update public.shopping_list_items set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+  update public.meal_plan_entries set household_id = null
+    where household_id = v_household_id and user_id = p_user_id;
+end;
+$$;
+
+grant execute on function public.remove_household_member(uuid) to authenticated;
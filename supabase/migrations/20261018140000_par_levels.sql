@@ -0,0 +1,137 @@
+-- Par levels: the minimum stock the user always wants of a product, keyed by its
+-- grouping name so "Milk" and "Whole milk 1L" share one target. The Groceries
+-- screen compares these (and usage_logs history) against food_items to suggest
+-- list entries.
+
+create table if not exists public.par_levels (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  household_id uuid references public.households (id) on delete set null,
+  name text not null,
+  -- normalizeFoodNameForGrouping(name), computed on the client.
+  group_key text not null,
+  quantity integer not null,
+  unit text,
+  category text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.par_levels
+  drop constraint if exists par_levels_quantity_check;
+
+alter table public.par_levels
+  add constraint par_levels_quantity_check
+  check (quantity > 0);
+
+alter table public.par_levels
+  drop constraint if exists par_levels_name_check;
+
+alter table public.par_levels
+  add constraint par_levels_name_check
+  check (length(trim(name)) > 0 and length(trim(group_key)) > 0);
+
+-- One target per product: per user for personal rows, per household for shared ones.
+create unique index if not exists par_levels_personal_group_key_idx
+  on public.par_levels (user_id, group_key)
+  where household_id is null;
+
+create unique index if not exists par_levels_household_group_key_idx
+  on public.par_levels (household_id, group_key)
+  where household_id is not null;
+
+create or replace function public.touch_par_levels_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists par_levels_touch_updated_at on public.par_levels;
+create trigger par_levels_touch_updated_at
+  before update on public.par_levels
+  for each row execute function public.touch_par_levels_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- RLS: owner rows plus the household's shared targets; viewers are read-only.
+-- ---------------------------------------------------------------------------
+
+alter table public.par_levels enable row level security;
+
+drop policy if exists "Users can read own or household par levels" on public.par_levels;
+create policy "Users can read own or household par levels"
+  on public.par_levels for select
+  using (
+    user_id = auth.uid()
+    or (household_id is not null and public.is_household_member(household_id))
+  );
+
+drop policy if exists "Users can add par levels" on public.par_levels;
+create policy "Users can add par levels"
+  on public.par_levels for insert
+  with check (
+    user_id = auth.uid()
+    and (household_id is null or public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can update own or household par levels" on public.par_levels;
+create policy "Users can update own or household par levels"
+  on public.par_levels for update
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  )
+  with check (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can delete own or household par levels" on public.par_levels;
+create policy "Users can delete own or household par levels"
+  on public.par_levels for delete
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+-- ---------------------------------------------------------------------------
+-- Household moves: personal targets join the household unless it already has
+-- one for the same product (the household's wins). Targets set by a removed
+-- member stay with the household, so remove_household_member is unchanged.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.assign_own_rows_to_household(p_household_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.food_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.usage_logs
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.shopping_list_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.meal_plan_entries
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  delete from public.par_levels mine
+    where mine.user_id = auth.uid()
+      and mine.household_id is null
+      and exists (
+        select 1 from public.par_levels theirs
+        where theirs.household_id = p_household_id
+          and theirs.group_key = mine.group_key
+      );
+  update public.par_levels
+    set household_id = p_household_id
+    where user_id = auth.uid();
+$$;
+
+revoke execute on function public.assign_own_rows_to_household(uuid) from public, anon, authenticated;
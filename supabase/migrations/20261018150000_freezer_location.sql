@@ -0,0 +1,87 @@
+-- Freezer as a third storage location, plus a log of freeze / thaw moves. The log is
+-- written by a trigger so every path that changes `location` (the Freeze / Thaw
+-- actions, the edit screen, replayed offline updates) is recorded the same way.
+
+alter table public.food_items
+  drop constraint if exists food_items_location_check;
+
+alter table public.food_items
+  add constraint food_items_location_check
+  check (location in ('fridge', 'shelf', 'freezer'));
+
+create table if not exists public.food_item_events (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.food_items (id) on delete cascade,
+  -- Who moved it; the item's owner when the change came from a service role.
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null,
+  from_location text not null,
+  to_location text not null,
+  previous_expiry_date date,
+  new_expiry_date date,
+  created_at timestamptz not null default now()
+);
+
+alter table public.food_item_events
+  drop constraint if exists food_item_events_kind_check;
+
+alter table public.food_item_events
+  add constraint food_item_events_kind_check
+  check (kind in ('frozen', 'thawed'));
+
+create index if not exists food_item_events_item_created_idx
+  on public.food_item_events (item_id, created_at desc);
+
+create or replace function public.log_food_item_freezer_move()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.location is distinct from old.location
+     and 'freezer' in (new.location, old.location) then
+    insert into public.food_item_events (
+      item_id, user_id, kind, from_location, to_location,
+      previous_expiry_date, new_expiry_date
+    )
+    values (
+      new.id,
+      coalesce(auth.uid(), new.user_id),
+      case when new.location = 'freezer' then 'frozen' else 'thawed' end,
+      old.location,
+      new.location,
+      old.expiry_date,
+      new.expiry_date
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists food_items_log_freezer_move on public.food_items;
+create trigger food_items_log_freezer_move
+  after update of location on public.food_items
+  for each row execute function public.log_food_item_freezer_move();
+
+-- ---------------------------------------------------------------------------
+-- RLS: readable by whoever can read the item (owner or its household). Rows
+-- are only written by the trigger above.
+-- ---------------------------------------------------------------------------
+
+alter table public.food_item_events enable row level security;
+
+drop policy if exists "Users can read events for visible items" on public.food_item_events;
+create policy "Users can read events for visible items"
+  on public.food_item_events for select
+  using (
+    exists (
+      select 1
+      from public.food_items f
+      where f.id = item_id
+        and (
+          f.user_id = auth.uid()
+          or (f.household_id is not null and public.is_household_member(f.household_id))
+        )
+    )
+  );
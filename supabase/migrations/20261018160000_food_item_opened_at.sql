@@ -0,0 +1,6 @@
+-- When a package was opened. The app derives an effective expiry from it (the
+-- earlier of the printed date and the "use within N days of opening" window),
+-- so the printed expiry_date itself is left untouched.
+
+alter table public.food_items
+  add column if not exists opened_at timestamptz;
@@ -0,0 +1,118 @@
+-- Products: one row per thing the user keeps (e.g. "milk"), with every food_items
+-- row of that name as one of its lots. A trigger links rows on insert / rename /
+-- household move, so offline-replayed inserts and the household move functions
+-- keep lots together without the app having to look products up first.
+
+create table if not exists public.food_products (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Shared household product; null for a personal one.
+  household_id uuid references public.households (id) on delete cascade,
+  name text not null,
+  normalized_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists food_products_personal_name_idx
+  on public.food_products (user_id, normalized_name)
+  where household_id is null;
+
+create unique index if not exists food_products_household_name_idx
+  on public.food_products (household_id, normalized_name)
+  where household_id is not null;
+
+alter table public.food_items
+  add column if not exists product_id uuid references public.food_products (id) on delete set null;
+
+create index if not exists food_items_product_idx
+  on public.food_items (product_id)
+  where quantity > 0;
+
+-- Same normalization as `normalizeFoodName` in the app.
+create or replace function public.normalize_food_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(trim(coalesce(p_name, '')), '\s+', ' ', 'g'));
+$$;
+
+create or replace function public.food_product_for(
+  p_user_id uuid,
+  p_household_id uuid,
+  p_name text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key text := public.normalize_food_name(p_name);
+  v_id uuid;
+begin
+  if v_key = '' then
+    return null;
+  end if;
+
+  if p_household_id is null then
+    insert into public.food_products (user_id, household_id, name, normalized_name)
+      values (p_user_id, null, trim(p_name), v_key)
+      on conflict (user_id, normalized_name) where household_id is null do nothing;
+    select id into v_id
+      from public.food_products
+      where user_id = p_user_id and household_id is null and normalized_name = v_key;
+  else
+    insert into public.food_products (user_id, household_id, name, normalized_name)
+      values (p_user_id, p_household_id, trim(p_name), v_key)
+      on conflict (household_id, normalized_name) where household_id is not null do nothing;
+    select id into v_id
+      from public.food_products
+      where household_id = p_household_id and normalized_name = v_key;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+-- Takes any owner and household, so only the trigger below may call it.
+revoke execute on function public.food_product_for(uuid, uuid, text) from public, anon, authenticated;
+
+create or replace function public.assign_food_item_product()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.product_id := public.food_product_for(new.user_id, new.household_id, new.name);
+  return new;
+end;
+$$;
+
+revoke execute on function public.assign_food_item_product() from public, anon, authenticated;
+
+drop trigger if exists food_items_assign_product on public.food_items;
+create trigger food_items_assign_product
+  before insert or update of name, household_id on public.food_items
+  for each row execute function public.assign_food_item_product();
+
+-- Existing rows become lots of their product.
+update public.food_items
+  set product_id = public.food_product_for(user_id, household_id, name)
+  where product_id is null;
+
+-- ---------------------------------------------------------------------------
+-- RLS: readable by the owner or the household. Rows are only written by the
+-- trigger above.
+-- ---------------------------------------------------------------------------
+
+alter table public.food_products enable row level security;
+
+drop policy if exists "Users can read own or household products" on public.food_products;
+create policy "Users can read own or household products"
+  on public.food_products for select
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.is_household_member(household_id))
+  );
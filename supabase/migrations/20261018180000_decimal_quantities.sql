@@ -0,0 +1,24 @@
+-- Decimal quantities (0.5 kg, 250 ml): inventory and usage amounts keep three
+-- decimals, matching QUANTITY_DECIMALS in utils/quantityLimits.ts. The
+-- cook_recipe functions already work in numeric. The checks are `not valid` so
+-- rows written before the app enforced these limits don't block the migration.
+
+alter table public.food_items
+  alter column quantity type numeric(10, 3) using quantity::numeric(10, 3);
+
+alter table public.food_items
+  drop constraint if exists food_items_quantity_check;
+
+alter table public.food_items
+  add constraint food_items_quantity_check
+  check (quantity >= 0 and quantity <= 999) not valid;
+
+alter table public.usage_logs
+  alter column quantity type numeric(10, 3) using quantity::numeric(10, 3);
+
+alter table public.usage_logs
+  drop constraint if exists usage_logs_quantity_check;
+
+alter table public.usage_logs
+  add constraint usage_logs_quantity_check
+  check (quantity > 0) not valid;
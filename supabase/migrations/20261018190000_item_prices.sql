@@ -0,0 +1,37 @@
+-- Optional prices on inventory rows and shopping list entries. `price` is what the
+-- whole row cost and `price_per_unit` what one of its `unit` cost; the app fills
+-- in both from whichever the user typed. Waste and consumption are valued at
+-- `usage_logs.quantity * food_items.price_per_unit`, so the unit price stays put
+-- as the row's quantity goes down. `currency` is an ISO 4217 code.
+
+alter table public.food_items
+  add column if not exists price numeric(12,2),
+  add column if not exists price_per_unit numeric(14,4),
+  add column if not exists currency text;
+
+alter table public.shopping_list_items
+  add column if not exists price numeric(12,2),
+  add column if not exists price_per_unit numeric(14,4),
+  add column if not exists currency text;
+
+alter table public.food_items
+  drop constraint if exists food_items_price_check;
+
+alter table public.food_items
+  add constraint food_items_price_check
+  check (
+    (price is null or price >= 0)
+    and (price_per_unit is null or price_per_unit >= 0)
+    and (currency is null or currency ~ '^[A-Z]{3}$')
+  );
+
+alter table public.shopping_list_items
+  drop constraint if exists shopping_list_items_price_check;
+
+alter table public.shopping_list_items
+  add constraint shopping_list_items_price_check
+  check (
+    (price is null or price >= 0)
+    and (price_per_unit is null or price_per_unit >= 0)
+    and (currency is null or currency ~ '^[A-Z]{3}$')
+  );
@@ -0,0 +1,164 @@
+-- Monthly grocery budget: one per user, or one shared by a household. Spending
+-- is not stored; the app adds up priced food_items added in the month and
+-- priced shopping entries bought in it (see services/budgetService).
+
+create table if not exists public.grocery_budgets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  household_id uuid references public.households (id) on delete set null,
+  monthly_amount numeric(12,2) not null,
+  currency text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.grocery_budgets
+  drop constraint if exists grocery_budgets_amount_check;
+
+alter table public.grocery_budgets
+  add constraint grocery_budgets_amount_check
+  check (monthly_amount > 0 and currency ~ '^[A-Z]{3}$');
+
+create unique index if not exists grocery_budgets_personal_idx
+  on public.grocery_budgets (user_id)
+  where household_id is null;
+
+create unique index if not exists grocery_budgets_household_idx
+  on public.grocery_budgets (household_id)
+  where household_id is not null;
+
+create or replace function public.touch_grocery_budgets_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists grocery_budgets_touch_updated_at on public.grocery_budgets;
+create trigger grocery_budgets_touch_updated_at
+  before update on public.grocery_budgets
+  for each row execute function public.touch_grocery_budgets_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- When a shopping entry was bought, so it counts toward that month's spend.
+-- Cleared when it goes back on the list.
+-- ---------------------------------------------------------------------------
+
+alter table public.shopping_list_items
+  add column if not exists bought_at timestamptz;
+
+update public.shopping_list_items
+  set bought_at = updated_at
+  where status <> 'list' and bought_at is null;
+
+create or replace function public.stamp_shopping_list_items_bought_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'list' then
+    new.bought_at := null;
+  elsif tg_op = 'INSERT' or old.status = 'list' then
+    new.bought_at := coalesce(new.bought_at, now());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists shopping_list_items_stamp_bought_at on public.shopping_list_items;
+create trigger shopping_list_items_stamp_bought_at
+  before insert or update of status on public.shopping_list_items
+  for each row execute function public.stamp_shopping_list_items_bought_at();
+
+-- ---------------------------------------------------------------------------
+-- RLS: owner row plus the household's shared budget; viewers are read-only.
+-- ---------------------------------------------------------------------------
+
+alter table public.grocery_budgets enable row level security;
+
+drop policy if exists "Users can read own or household budget" on public.grocery_budgets;
+create policy "Users can read own or household budget"
+  on public.grocery_budgets for select
+  using (
+    user_id = auth.uid()
+    or (household_id is not null and public.is_household_member(household_id))
+  );
+
+drop policy if exists "Users can add a budget" on public.grocery_budgets;
+create policy "Users can add a budget"
+  on public.grocery_budgets for insert
+  with check (
+    user_id = auth.uid()
+    and (household_id is null or public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can update own or household budget" on public.grocery_budgets;
+create policy "Users can update own or household budget"
+  on public.grocery_budgets for update
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  )
+  with check (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+drop policy if exists "Users can delete own or household budget" on public.grocery_budgets;
+create policy "Users can delete own or household budget"
+  on public.grocery_budgets for delete
+  using (
+    (household_id is null and user_id = auth.uid())
+    or (household_id is not null and public.can_edit_household(household_id))
+  );
+
+-- ---------------------------------------------------------------------------
+-- Household moves: a personal budget becomes the household's unless it already
+-- has one (the household's wins).
+-- ---------------------------------------------------------------------------
+
+create or replace function public.assign_own_rows_to_household(p_household_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.food_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.usage_logs
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.shopping_list_items
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  update public.meal_plan_entries
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  delete from public.par_levels mine
+    where mine.user_id = auth.uid()
+      and mine.household_id is null
+      and exists (
+        select 1 from public.par_levels theirs
+        where theirs.household_id = p_household_id
+          and theirs.group_key = mine.group_key
+      );
+  update public.par_levels
+    set household_id = p_household_id
+    where user_id = auth.uid();
+  delete from public.grocery_budgets mine
+    where mine.user_id = auth.uid()
+      and mine.household_id is null
+      and exists (
+        select 1 from public.grocery_budgets theirs
+        where theirs.household_id = p_household_id
+      );
+  update public.grocery_budgets
+    set household_id = p_household_id
+    where user_id = auth.uid();
+$$;
+
+revoke execute on function public.assign_own_rows_to_household(uuid) from public, anon, authenticated;
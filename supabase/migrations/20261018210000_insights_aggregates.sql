@@ -0,0 +1,186 @@
+-- Aggregates behind the Waste & Consumption reports, computed in the database so the app
+-- doesn't page through every usage log. Scope matches the app: the caller's household when
+-- they belong to one, otherwise their own rows. Calendar days (before/after expiry, daily
+-- buckets, months) are taken in p_tz, the device's time zone, so they match the phone.
+--
+-- Item keys and categories are returned raw; the app normalizes and labels them, then
+-- merges groups that end up with the same key.
+
+create index if not exists usage_logs_user_id_logged_at_idx
+  on public.usage_logs (user_id, logged_at);
+
+create index if not exists usage_logs_household_id_logged_at_idx
+  on public.usage_logs (household_id, logged_at);
+
+create or replace function public.insights_report_aggregates(
+  p_since timestamptz default null,
+  p_until timestamptz default null,
+  p_tz text default 'UTC'
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_household_id uuid;
+  v_tz text := coalesce(nullif(p_tz, ''), 'UTC');
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+  if not exists (select 1 from pg_timezone_names where name = v_tz) then
+    v_tz := 'UTC';
+  end if;
+
+  select household_id into v_household_id
+    from public.household_members
+    where user_id = v_user_id;
+
+  with logs as (
+    select
+      l.status,
+      case when l.status = 'used' then 'used' else 'waste' end as side,
+      l.logged_at,
+      (l.logged_at at time zone v_tz)::date as log_day,
+      (l.logged_at at time zone v_tz)::date - f.expiry_date::date as days_past,
+      coalesce(nullif(btrim(f.normalized_name), ''), nullif(f.name, ''), 'item') as item_key,
+      btrim(coalesce(f.name, '')) as item_name,
+      coalesce(nullif(btrim(f.category), ''), 'other') as category,
+      case when l.quantity > 0 then l.quantity else 1 end as quantity,
+      coalesce(
+        f.price_per_unit,
+        case when f.price is not null and f.quantity > 0 then round(f.price / f.quantity, 4) end
+      ) as unit_price,
+      f.currency
+    from public.usage_logs l
+    left join public.food_items f on f.id = l.item_id
+    where l.status in ('used', 'wasted', 'expired')
+      and (
+        (v_household_id is not null and l.household_id = v_household_id)
+        or (v_household_id is null and l.user_id = v_user_id)
+      )
+      and (p_since is null or l.logged_at >= p_since)
+      and (p_until is null or l.logged_at < p_until)
+  ),
+  added as (
+    select f.price, f.currency
+    from public.food_items f
+    where (
+        (v_household_id is not null and f.household_id = v_household_id)
+        or (v_household_id is null and f.user_id = v_user_id)
+      )
+      and (p_since is null or f.created_at >= p_since)
+      and (p_until is null or f.created_at < p_until)
+  )
+  select jsonb_build_object(
+    'items_added', (select count(*) from added),
+    'counts', jsonb_build_object(
+      'used', (select count(*) from logs where status = 'used'),
+      'wasted', (select count(*) from logs where status = 'wasted'),
+      'expired', (select count(*) from logs where status = 'expired')
+    ),
+    'wasted_timing', (
+      select jsonb_build_object(
+        'before', count(*) filter (where days_past < 0),
+        'on_or_after', count(*) filter (where days_past >= 0),
+        'unknown', count(*) filter (where days_past is null)
+      )
+      from logs
+      where status = 'wasted'
+    ),
+    'days_past_expiry', (
+      select jsonb_build_object('sum', coalesce(sum(days_past), 0), 'count', count(*))
+      from logs
+      where days_past >= 0
+    ),
+    'consumed_after_expiry', (
+      select count(*) from logs where status = 'used' and days_past >= 0
+    ),
+    'categories', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'status', status, 'category', category, 'times', times
+      )), '[]'::jsonb)
+      from (
+        select status, category, count(*) as times
+        from logs
+        group by status, category
+      ) c
+    ),
+    'items', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'side', side, 'item_key', item_key, 'name', name, 'category', category, 'times', times
+      )), '[]'::jsonb)
+      from (
+        select
+          side,
+          item_key,
+          (array_agg(item_name order by logged_at desc))[1] as name,
+          (array_agg(category order by logged_at desc))[1] as category,
+          count(*) as times
+        from logs
+        group by side, item_key
+      ) i
+    ),
+    'days', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'side', side, 'day', day, 'currency', currency, 'times', times, 'value', value
+      )), '[]'::jsonb)
+      from (
+        select
+          side,
+          to_char(log_day, 'YYYY-MM-DD') as day,
+          currency,
+          count(*) as times,
+          round(sum(quantity * unit_price), 2) as value
+        from logs
+        group by side, log_day, currency
+      ) d
+    ),
+    'money', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'status', status,
+        'month', month,
+        'currency', currency,
+        'item_key', item_key,
+        'name', name,
+        'category', category,
+        'logs', log_count,
+        'value', value
+      )), '[]'::jsonb)
+      from (
+        select
+          status,
+          to_char(log_day, 'YYYY-MM') as month,
+          currency,
+          item_key,
+          (array_agg(item_name order by logged_at desc))[1] as name,
+          (array_agg(category order by logged_at desc))[1] as category,
+          count(*) as log_count,
+          round(sum(quantity * unit_price), 2) as value
+        from logs
+        group by status, month, currency, item_key, unit_price is null
+      ) m
+    ),
+    'purchases', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'currency', currency, 'total', total, 'rows', row_count
+      )), '[]'::jsonb)
+      from (
+        select currency, round(sum(price), 2) as total, count(*) as row_count
+        from added
+        where price is not null
+        group by currency
+      ) p
+    )
+  ) into v_result;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.insights_report_aggregates(timestamptz, timestamptz, text)
+  to authenticated;
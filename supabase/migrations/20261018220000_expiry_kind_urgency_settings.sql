@@ -0,0 +1,31 @@
+-- What an item's printed date means, and the user's own urgency thresholds.
+--
+-- `expiry_kind` is 'use_by' (a safety date: the item is expired after it) or
+-- 'best_before' (a quality date: the item is past its best, not expired). Existing
+-- rows keep today's behaviour as use-by.
+--
+-- `urgency_settings` holds the days before expiry at which items turn "warning" and
+-- "soon", with per-category overrides keyed by lowercase category label:
+--   {"defaults": {"warningDays": 2, "soonDays": 7},
+--    "categories": {"seafood": {"warningDays": 1, "soonDays": 2}}}
+-- Null means the app defaults.
+
+alter table public.food_items
+  add column if not exists expiry_kind text not null default 'use_by';
+
+alter table public.food_items
+  drop constraint if exists food_items_expiry_kind_check;
+
+alter table public.food_items
+  add constraint food_items_expiry_kind_check
+  check (expiry_kind in ('use_by', 'best_before'));
+
+alter table public.user_profiles
+  add column if not exists urgency_settings jsonb;
+
+alter table public.user_profiles
+  drop constraint if exists user_profiles_urgency_settings_check;
+
+alter table public.user_profiles
+  add constraint user_profiles_urgency_settings_check
+  check (urgency_settings is null or jsonb_typeof(urgency_settings) = 'object');
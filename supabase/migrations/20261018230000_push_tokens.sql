@@ -0,0 +1,137 @@
+-- Server-side expiry reminders. Each device registers its Expo push token along
+-- with what the server needs to time pushes (time zone, quiet hours) and which
+-- reminders it already has scheduled locally, as `item_id:YYYY-MM-DD` keys. The
+-- hourly `send-expiry-reminders` edge function pushes every due reminder the
+-- device has no local notification for.
+
+create table if not exists public.push_tokens (
+  token text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  platform text not null,
+  time_zone text not null default 'UTC',
+  quiet_hours_start text,
+  quiet_hours_end text,
+  local_reminder_keys text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.push_tokens
+  drop constraint if exists push_tokens_platform_check;
+
+alter table public.push_tokens
+  add constraint push_tokens_platform_check
+  check (platform in ('ios', 'android'));
+
+create index if not exists push_tokens_user_id_idx
+  on public.push_tokens (user_id);
+
+alter table public.push_tokens enable row level security;
+
+drop policy if exists "Users can read own push tokens" on public.push_tokens;
+create policy "Users can read own push tokens"
+  on public.push_tokens for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can delete own push tokens" on public.push_tokens;
+create policy "Users can delete own push tokens"
+  on public.push_tokens for delete
+  using (user_id = auth.uid());
+
+-- A device's token stays the same across accounts, so registering goes through
+-- this function: it takes the token over from whoever signed in on it before.
+-- Null reminder keys keep the ones already stored for the same user.
+create or replace function public.register_push_token(
+  p_token text,
+  p_platform text,
+  p_time_zone text,
+  p_quiet_hours_start text,
+  p_quiet_hours_end text,
+  p_local_reminder_keys text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if coalesce(p_token, '') = '' then
+    raise exception 'Missing push token';
+  end if;
+
+  insert into public.push_tokens (
+    token, user_id, platform, time_zone, quiet_hours_start, quiet_hours_end, local_reminder_keys
+  )
+  values (
+    p_token,
+    auth.uid(),
+    p_platform,
+    coalesce(nullif(p_time_zone, ''), 'UTC'),
+    p_quiet_hours_start,
+    p_quiet_hours_end,
+    coalesce(p_local_reminder_keys, '{}')
+  )
+  on conflict (token) do update set
+    user_id = excluded.user_id,
+    platform = excluded.platform,
+    time_zone = excluded.time_zone,
+    quiet_hours_start = excluded.quiet_hours_start,
+    quiet_hours_end = excluded.quiet_hours_end,
+    local_reminder_keys = case
+      when p_local_reminder_keys is not null then p_local_reminder_keys
+      when push_tokens.user_id = excluded.user_id then push_tokens.local_reminder_keys
+      else '{}'
+    end,
+    updated_at = now();
+end;
+$$;
+
+grant execute on function public.register_push_token(text, text, text, text, text, text[])
+  to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Reminders already pushed, so the hourly run sends each one once per device.
+-- Only the edge function (service role) reads or writes these.
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.push_reminder_deliveries (
+  token text not null references public.push_tokens (token) on delete cascade,
+  item_id uuid not null references public.food_items (id) on delete cascade,
+  remind_on date not null,
+  sent_at timestamptz not null default now(),
+  primary key (token, item_id, remind_on)
+);
+
+alter table public.push_reminder_deliveries enable row level security;
+
+-- ---------------------------------------------------------------------------
+-- Hourly schedule. Needs the `project_url` and `service_role_key` secrets in
+-- Vault (Dashboard → Project Settings → Vault).
+-- ---------------------------------------------------------------------------
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.unschedule('send-expiry-reminders')
+  where exists (select 1 from cron.job where jobname = 'send-expiry-reminders');
+
+select cron.schedule(
+  'send-expiry-reminders',
+  '5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/send-expiry-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
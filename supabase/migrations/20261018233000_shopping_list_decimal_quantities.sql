@@ -0,0 +1,5 @@
+-- Shopping list amounts keep three decimals (0.5 kg) like inventory ones; see
+-- 20261018180000_decimal_quantities.sql.
+
+alter table public.shopping_list_items
+  alter column quantity type numeric(10, 3) using quantity::numeric(10, 3);
@@ -1,7 +1,7 @@
 // Enhanced Calendar Data Models and Interfaces
 // Extends existing calendar types with improvements for UI/UX issues
 
-import { FoodItem } from "../lib/supabase";
+import { FoodItem, FoodLocation } from "../lib/supabase";
 import { CalendarMonth, MarkedDatesType } from "./calendar";
 
 // =============================================================================
@@ -293,7 +293,7 @@ export interface CalendarError {
 
 export interface FilterOptionsEnhanced {
   category?: string[];
-  location?: ("fridge" | "shelf")[];
+  location?: FoodLocation[];
   urgency?: ("expired" | "today" | "soon" | "fresh")[];
   dateRange?: {
     start: string;
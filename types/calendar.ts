@@ -1,7 +1,7 @@
 // Enhanced Expiry Calendar Types
 // Based on design specifications from Phase 2
 
-import { FoodItem } from "../lib/supabase";
+import { FoodItem, FoodLocation } from "../lib/supabase";
 
 // Panel state management
 export type PanelState = "default" | "selected" | "empty";
@@ -191,7 +191,7 @@ export interface ExpiryStatistics {
 // Filter and sort options
 export interface FilterOptions {
   category?: string;
-  location?: "fridge" | "shelf";
+  location?: FoodLocation;
   urgency?: ExpiryStatus["urgency"];
   dateRange?: {
     start: string;
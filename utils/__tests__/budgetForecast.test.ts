@@ -0,0 +1,68 @@
+import { forecastBudget, Spend } from "../budgetForecast";
+
+const spend = (amount: number, at: string, category = "Dairy", currency = "EUR"): Spend => ({
+  amount,
+  currency,
+  category,
+  at,
+});
+
+const budget = { monthlyAmount: 300, currency: "EUR" };
+// 10 of 30 days into November.
+const today = new Date(2026, 10, 10, 12, 0);
+
+describe("forecastBudget", () => {
+  it("projects the run rate to month end without history", () => {
+    const forecast = forecastBudget(
+      budget,
+      [spend(60, "2026-11-02T10:00:00"), spend(40, "2026-11-09T10:00:00", "Meat")],
+      today
+    );
+
+    expect(forecast.month).toBe("2026-11");
+    expect(forecast.actualSpending).toBe(100);
+    expect(forecast.variance).toBe(200);
+    expect(forecast.forecastSpending).toBe(300);
+    expect(forecast.overBudget).toBe(false);
+    expect(forecast.categoryBreakdown).toEqual({ Dairy: 60, Meat: 40 });
+    expect(forecast.categoryForecast).toEqual({ Dairy: 180, Meat: 120 });
+  });
+
+  it("leans on last month's total early in the month", () => {
+    const forecast = forecastBudget(
+      budget,
+      [spend(50, "2026-11-02T10:00:00"), spend(450, "2026-10-15T10:00:00")],
+      today
+    );
+
+    // 1/3 × 150 run rate + 2/3 × 450 last month.
+    expect(forecast.forecastSpending).toBe(350);
+    expect(forecast.overBudget).toBe(true);
+    expect(forecast.forecastVariance).toBe(-50);
+  });
+
+  it("never forecasts less than what's already spent", () => {
+    const forecast = forecastBudget(
+      budget,
+      [spend(280, "2026-11-03T10:00:00"), spend(30, "2026-10-15T10:00:00")],
+      new Date(2026, 10, 29, 12, 0)
+    );
+
+    expect(forecast.forecastSpending).toBeGreaterThanOrEqual(280);
+  });
+
+  it("leaves out other currencies and older months", () => {
+    const forecast = forecastBudget(
+      budget,
+      [
+        spend(20, "2026-11-02T10:00:00", "Dairy", "USD"),
+        spend(99, "2026-08-02T10:00:00"),
+      ],
+      today
+    );
+
+    expect(forecast.actualSpending).toBe(0);
+    expect(forecast.forecastSpending).toBe(0);
+    expect(forecast.categoryForecast).toEqual({});
+  });
+});
@@ -0,0 +1,51 @@
+import { FoodItem } from "@/lib/supabase";
+import {
+  calculateExpiryStatistics,
+  calculateLegendCounts,
+  generateDateIndicators,
+} from "../calendarEnhancedDataUtils";
+
+function item(id: string, overrides: Partial<FoodItem>): FoodItem {
+  return {
+    id,
+    user_id: "u1",
+    name: id,
+    quantity: 1,
+    location: "fridge",
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("calendarEnhancedDataUtils", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Late evening: a UTC "today" would already be tomorrow east of Greenwich.
+    jest.setSystemTime(new Date(2026, 9, 18, 23, 30));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const items = [
+    item("milk", { expiry_date: "2026-10-17" }),
+    item("crackers", { expiry_date: "2026-10-10", expiry_kind: "best_before" }),
+    item("eggs", { expiry_date: "2026-10-18" }),
+    item("cheese", { expiry_date: "2026-10-22" }),
+  ];
+
+  it("counts past best before as due, not expired", () => {
+    expect(calculateLegendCounts(items)).toMatchObject({ expired: 1, today: 2, future: 1 });
+    expect(generateDateIndicators([items[1]]).expiryTypes).toEqual(["today"]);
+  });
+
+  it("buckets statistics by local calendar day", () => {
+    expect(calculateExpiryStatistics(items)).toMatchObject({
+      expiredItems: 1,
+      expiringToday: 2,
+      expiringThisWeek: 1,
+    });
+  });
+});
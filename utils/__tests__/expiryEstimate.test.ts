@@ -0,0 +1,94 @@
+import { lookupShelfLife, shelfLifeOverrideKey } from "@/lib/shelfLife";
+
+import { estimateShelfLife, learnShelfLifeDays } from "../expiryEstimate";
+
+function sample(name: string, createdAt: string, expiry: string | undefined) {
+  return { name, created_at: createdAt, expiry_date: expiry };
+}
+
+describe("lookupShelfLife", () => {
+  it("prefers the product name, then its words, then the category", () => {
+    expect(lookupShelfLife("Milk 1L", "Dairy")).toEqual({
+      days: 7,
+      location: "fridge",
+      source: "name",
+    });
+    expect(lookupShelfLife("Chicken breasts", "Meat")).toMatchObject({ days: 2, source: "name" });
+    expect(lookupShelfLife("Peanut butter", null)).toMatchObject({ days: 180, location: "shelf" });
+    expect(lookupShelfLife("Crackers", "Snacks")).toMatchObject({ days: 90, source: "category" });
+    expect(lookupShelfLife("Mystery box", "constructor")).toMatchObject({ source: "default" });
+  });
+
+  it("answers per storage place and shortens opened items outside the freezer", () => {
+    expect(lookupShelfLife("Chicken", "Meat", { location: "freezer" }).days).toBe(270);
+    expect(lookupShelfLife("Cheddar cheese", "Dairy", { location: "shelf" }).days).toBe(1);
+    expect(lookupShelfLife("Rice", "Grains", { location: "fridge" }).days).toBe(365);
+    expect(lookupShelfLife("Rice", "Grains", { location: "freezer" }).days).toBe(365);
+    expect(lookupShelfLife("Ketchup", null, { opened: true })).toMatchObject({
+      days: 180,
+      location: "shelf",
+    });
+    expect(lookupShelfLife("Milk", null, { location: "freezer", opened: true }).days).toBe(90);
+    expect(lookupShelfLife("Frozen peas", "Frozen").location).toBe("freezer");
+  });
+});
+
+describe("learnShelfLifeDays", () => {
+  it("takes the median gap per product and ignores unusable rows", () => {
+    const learned = learnShelfLifeDays([
+      sample("Milk", "2026-09-01T09:00:00", "2026-09-11"),
+      sample("milk 2L", "2026-09-10T09:00:00", "2026-09-22"),
+      sample("Milk", "2026-09-20T09:00:00", "2026-10-04"),
+      sample("Milk", "2026-09-25T09:00:00", "2026-09-20"),
+      sample("Milk", "2026-09-25T09:00:00", undefined),
+    ]);
+
+    expect(learned.get("milk")).toEqual({ days: 12, samples: 3 });
+  });
+});
+
+describe("estimateShelfLife", () => {
+  const learned = learnShelfLifeDays([
+    sample("Yogurt", "2026-09-01T09:00:00", "2026-09-22"),
+    sample("Yogurt", "2026-09-10T09:00:00", "2026-10-01"),
+    sample("Bread", "2026-09-10T09:00:00", "2026-09-20"),
+  ]);
+
+  it("uses the user's own history once there are enough samples", () => {
+    expect(estimateShelfLife("Yogurts", "Dairy", { learned })).toEqual({
+      days: 21,
+      location: "fridge",
+      source: "history",
+    });
+    expect(estimateShelfLife("Bread", "Bakery", { learned })).toMatchObject({
+      days: 5,
+      source: "name",
+    });
+  });
+
+  it("skips history for opened items or another storage place", () => {
+    expect(estimateShelfLife("Yogurt", "Dairy", { learned, opened: true })).toMatchObject({
+      days: 5,
+      source: "name",
+    });
+    expect(estimateShelfLife("Yogurt", "Dairy", { learned, location: "freezer" })).toMatchObject({
+      days: 60,
+      source: "name",
+    });
+  });
+
+  it("puts a remembered override first, per place and opened state", () => {
+    const overrides = {
+      [shelfLifeOverrideKey("yogurt", "fridge")]: { days: 10, updatedAt: "2026-10-01T00:00:00Z" },
+    };
+
+    expect(estimateShelfLife("Yogurt", "Dairy", { learned, overrides })).toEqual({
+      days: 10,
+      location: "fridge",
+      source: "override",
+    });
+    expect(
+      estimateShelfLife("Yogurt", "Dairy", { learned, overrides, opened: true })
+    ).toMatchObject({ source: "name" });
+  });
+});
@@ -0,0 +1,37 @@
+import { freezeUpdate, thawUpdate } from "../freezeThaw";
+
+const NOW = new Date(2026, 9, 18, 9, 0);
+
+describe("freezeUpdate", () => {
+  it("extends the expiry to the freezer shelf life", () => {
+    expect(
+      freezeUpdate({ name: "Chicken thighs", category: "Meat", expiry_date: "2026-10-20" }, NOW)
+    ).toEqual({ location: "freezer", expiry_date: "2027-07-15" });
+  });
+
+  it("never brings an expiry forward", () => {
+    expect(
+      freezeUpdate({ name: "Tuna", category: "Canned", expiry_date: "2029-01-01" }, NOW)
+    ).toEqual({ location: "freezer", expiry_date: "2029-01-01" });
+  });
+});
+
+describe("thawUpdate", () => {
+  it("resets to a short window where the food usually lives", () => {
+    expect(
+      thawUpdate({ name: "Chicken thighs", category: "Meat", expiry_date: "2027-07-15" }, NOW)
+    ).toEqual({ location: "fridge", expiry_date: "2026-10-20" });
+    expect(
+      thawUpdate({ name: "Sourdough bread", category: "Bakery", expiry_date: "2027-01-01" }, NOW)
+    ).toEqual({ location: "shelf", expiry_date: "2026-10-20" });
+    expect(
+      thawUpdate({ name: "Frozen peas", category: "Frozen", expiry_date: "2027-01-01" }, NOW)
+    ).toMatchObject({ location: "fridge" });
+  });
+
+  it("keeps an expiry that had already passed", () => {
+    expect(
+      thawUpdate({ name: "Salmon", category: "Seafood", expiry_date: "2026-10-01" }, NOW)
+    ).toEqual({ location: "fridge", expiry_date: "2026-10-01" });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  effectiveExpiryDate,
+  openedUseByDate,
+  withEffectiveExpiry,
+} from "../openedExpiry";
+import { calculateUrgency } from "../urgencyUtils";
+
+// Local noon so the calendar day is the same in every test timezone.
+const OPENED = new Date(2026, 9, 18, 12, 0).toISOString();
+
+describe("openedUseByDate", () => {
+  it("is null while the package is sealed", () => {
+    expect(
+      openedUseByDate({ name: "Milk", location: "fridge", expiry_date: "2026-10-25" })
+    ).toBeNull();
+  });
+
+  it("adds the after-opening window for where the item is kept", () => {
+    expect(
+      openedUseByDate({ name: "Milk", location: "fridge", opened_at: OPENED })
+    ).toBe("2026-10-23");
+    expect(
+      openedUseByDate({ name: "Tuna", location: "shelf", opened_at: OPENED })
+    ).toBe("2026-10-21");
+  });
+});
+
+describe("effectiveExpiryDate", () => {
+  it("uses the opened window when it comes before the printed date", () => {
+    expect(
+      effectiveExpiryDate({
+        name: "Tuna",
+        location: "shelf",
+        expiry_date: "2028-05-01",
+        opened_at: OPENED,
+      })
+    ).toBe("2026-10-21");
+  });
+
+  it("keeps the printed date when it comes first", () => {
+    expect(
+      effectiveExpiryDate({
+        name: "Milk",
+        location: "fridge",
+        expiry_date: "2026-10-20",
+        opened_at: OPENED,
+      })
+    ).toBe("2026-10-20");
+  });
+
+  it("falls back to the opened window without a printed date", () => {
+    expect(
+      effectiveExpiryDate({ name: "Yogurt", location: "fridge", opened_at: OPENED })
+    ).toBe("2026-10-23");
+  });
+});
+
+describe("withEffectiveExpiry", () => {
+  it("returns sealed items unchanged", () => {
+    const item = { name: "Milk", location: "fridge" as const, expiry_date: "2026-10-25" };
+    expect(withEffectiveExpiry(item)).toBe(item);
+  });
+});
+
+describe("calculateUrgency for opened items", () => {
+  it("counts down from the after-opening window", () => {
+    const urgency = calculateUrgency(
+      {
+        id: "milk",
+        user_id: "u1",
+        name: "Milk",
+        category: "test",
+        location: "fridge",
+        quantity: 1,
+        expiry_date: "2026-11-15",
+        opened_at: OPENED,
+        created_at: "2026-10-01T00:00:00Z",
+        updated_at: "2026-10-01T00:00:00Z",
+      },
+      { today: new Date(2026, 9, 20, 12, 0) }
+    );
+
+    expect(urgency.level).toBe("soon");
+    expect(urgency.daysUntilExpiry).toBe(3);
+  });
+});
@@ -0,0 +1,75 @@
+import { FoodItem } from "@/lib/supabase";
+import { groupProductLots, planFifoUsage, sortLotsFifo } from "../productLots";
+
+const lot = (
+  id: string,
+  quantity: number,
+  expiry_date?: string,
+  overrides: Partial<FoodItem> = {}
+): FoodItem => ({
+  id,
+  user_id: "u1",
+  name: "Milk",
+  quantity,
+  unit: "pcs",
+  location: "fridge",
+  expiry_date,
+  created_at: `2026-10-0${id.length}T08:00:00Z`,
+  updated_at: "2026-10-01T08:00:00Z",
+  ...overrides,
+});
+
+describe("sortLotsFifo", () => {
+  it("puts the earliest expiry first and undated lots last", () => {
+    const sorted = sortLotsFifo([
+      lot("a", 1),
+      lot("b", 1, "2026-10-30"),
+      lot("c", 1, "2026-10-20"),
+    ]);
+    expect(sorted.map((l) => l.id)).toEqual(["c", "b", "a"]);
+  });
+});
+
+describe("planFifoUsage", () => {
+  const older = lot("old", 2, "2026-10-20");
+  const newer = lot("new", 3, "2026-10-28");
+
+  it("draws from the earliest-expiring lot even when a newer one was picked", () => {
+    expect(planFifoUsage(newer, [older, newer], 1)).toEqual([
+      { itemId: "old", quantity: 1 },
+    ]);
+  });
+
+  it("spills over into the next lot", () => {
+    expect(planFifoUsage(newer, [older, newer], 4)).toEqual([
+      { itemId: "old", quantity: 2 },
+      { itemId: "new", quantity: 2 },
+    ]);
+  });
+
+  it("leaves lots in another unit alone", () => {
+    const litres = lot("litres", 5, "2026-10-19", { unit: "l" });
+    expect(planFifoUsage(newer, [litres, older, newer], 1)).toEqual([
+      { itemId: "old", quantity: 1 },
+    ]);
+  });
+
+  it("refuses more than the lots hold", () => {
+    expect(() => planFifoUsage(newer, [older, newer], 6)).toThrow(
+      "Quantity cannot exceed 5"
+    );
+  });
+});
+
+describe("groupProductLots", () => {
+  it("totals lots of the same product and unit", () => {
+    const groups = groupProductLots([
+      lot("b", 3, "2026-10-28"),
+      lot("a", 2, "2026-10-20", { name: " milk " }),
+      lot("c", 1, undefined, { name: "Eggs" }),
+    ]);
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ name: "Milk", totalQuantity: 5 });
+    expect(groups[0]!.lots.map((l) => l.id)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,117 @@
+// utils/__tests__/recipeImport.test.ts
+import {
+  parseIngredientLine,
+  parseIsoDurationMinutes,
+  parseRecipes,
+} from "../recipeImport";
+
+const schemaRecipe = {
+  "@context": "https://schema.org",
+  "@type": "Recipe",
+  name: "Tomato &amp; Basil Pasta",
+  recipeCategory: "Main course",
+  prepTime: "PT10M",
+  cookTime: "PT15M",
+  recipeYield: ["4", "4 servings"],
+  keywords: "pasta, quick, Vegetarian",
+  recipeIngredient: [
+    "400 g spaghetti",
+    "1 1/2 cups cherry tomatoes, halved",
+    "½ cup parmesan (optional)",
+    "Fresh basil",
+  ],
+  recipeInstructions: [
+    { "@type": "HowToSection", itemListElement: [{ "@type": "HowToStep", text: "Boil the pasta." }] },
+    { "@type": "HowToStep", text: "Toss with tomatoes and basil." },
+  ],
+};
+
+describe("recipeImport", () => {
+  describe("parseIngredientLine", () => {
+    it("splits quantity, unit and a matchable name", () => {
+      expect(parseIngredientLine("1 1/2 cups cherry tomatoes, halved")).toMatchObject({
+        name: "cherry tomatoes",
+        quantity: 1.5,
+        unit: "cup",
+      });
+      expect(parseIngredientLine("200g flour")).toMatchObject({
+        name: "flour",
+        quantity: 200,
+        unit: "g",
+      });
+      expect(parseIngredientLine("2 eggs")).toMatchObject({ name: "eggs", quantity: 2 });
+    });
+
+    it("flags optional ingredients", () => {
+      expect(parseIngredientLine("½ cup parmesan (optional)")).toMatchObject({
+        name: "parmesan",
+        quantity: 0.5,
+        optional: true,
+      });
+    });
+  });
+
+  it("reads ISO-8601 durations", () => {
+    expect(parseIsoDurationMinutes("PT1H30M")).toBe(90);
+    expect(parseIsoDurationMinutes("15 minutes")).toBeUndefined();
+  });
+
+  it("imports Schema.org JSON-LD", () => {
+    const [recipe] = parseRecipes(JSON.stringify(schemaRecipe));
+    expect(recipe).toMatchObject({
+      id: "imported-tomato-basil-pasta",
+      name: "Tomato & Basil Pasta",
+      mealType: "dinner",
+      prepMinutes: 25,
+      servings: 4,
+      tags: ["pasta", "quick", "vegetarian"],
+      instructions: ["Boil the pasta.", "Toss with tomatoes and basil."],
+      source: "imported",
+    });
+    expect(recipe!.ingredients.map((i) => i.name)).toEqual([
+      "spaghetti",
+      "cherry tomatoes",
+      "parmesan",
+      "fresh basil",
+    ]);
+  });
+
+  it("finds recipes inside an HTML page's @graph", () => {
+    const html = `<html><head>
+      <script type="application/ld+json">{ not json }</script>
+      <script type="application/ld+json">${JSON.stringify({
+        "@graph": [{ "@type": "WebPage" }, schemaRecipe],
+      })}</script>
+    </head></html>`;
+    expect(parseRecipes(html, "https://example.com/pasta")[0]).toMatchObject({
+      name: "Tomato & Basil Pasta",
+      sourceUrl: "https://example.com/pasta",
+    });
+  });
+
+  it("imports the app's own JSON format", () => {
+    const [recipe] = parseRecipes(
+      JSON.stringify([
+        {
+          name: "Banana Bread",
+          mealType: "snack",
+          prepMinutes: 70,
+          ingredients: [{ name: "bananas", quantity: 3 }, "250 g flour"],
+          instructions: "Mash bananas\nMix and bake",
+        },
+      ])
+    );
+    expect(recipe).toMatchObject({
+      id: "imported-banana-bread",
+      mealType: "snack",
+      prepMinutes: 70,
+      instructions: ["Mash bananas", "Mix and bake"],
+    });
+    expect(recipe!.ingredients[1]).toMatchObject({ name: "flour", quantity: 250, unit: "g" });
+  });
+
+  it("rejects input without a recipe", () => {
+    expect(() => parseRecipes("{ nope")).toThrow("valid recipe JSON");
+    expect(() => parseRecipes("<html></html>")).toThrow("No recipe found");
+  });
+});
@@ -0,0 +1,155 @@
+// utils/__tests__/recipeMatching.test.ts
+import { Recipe } from "@/lib/recipes";
+import { FoodItem } from "@/lib/supabase";
+import type { FoodItemWithUrgency } from "@/services/foodItems";
+import { addUrgencyToItem } from "@/utils/urgencyUtils";
+
+import {
+  ingredientMatchesItem,
+  matchRecipe,
+  rankRecipesForInventory,
+  suggestedUsageQuantity,
+} from "../recipeMatching";
+
+const createItem = (
+  name: string,
+  expiryDate?: string,
+  quantity = 1,
+  unit?: string,
+): FoodItemWithUrgency =>
+  addUrgencyToItem({
+    id: `item-${name}-${expiryDate ?? "none"}`,
+    user_id: "test-user",
+    name,
+    quantity,
+    unit,
+    location: "fridge",
+    expiry_date: expiryDate,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  } as FoodItem) as FoodItemWithUrgency;
+
+const recipe = (
+  id: string,
+  ingredients: Recipe["ingredients"],
+  prepMinutes = 10,
+): Recipe => ({
+  id,
+  name: id,
+  mealType: "dinner",
+  prepMinutes,
+  ingredients,
+  instructions: [],
+  tags: [],
+  source: "builtin",
+});
+
+describe("recipeMatching", () => {
+  beforeAll(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2024-01-15T12:00:00Z"));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  describe("ingredientMatchesItem", () => {
+    it("matches plurals, sizes and extra words through the grouping normalizer", () => {
+      expect(ingredientMatchesItem("tomatoes", "Cherry Tomato 250g")).toBe(
+        true,
+      );
+      expect(ingredientMatchesItem("chopped tomatoes", "Tomatoes")).toBe(true);
+      expect(ingredientMatchesItem("eggs", "Free Range Egg")).toBe(true);
+    });
+
+    it("matches generic ingredients through their group", () => {
+      expect(ingredientMatchesItem("vegetables", "Broccoli")).toBe(true);
+      expect(ingredientMatchesItem("fruit", "Strawberries")).toBe(true);
+      expect(ingredientMatchesItem("meat", "Chicken Thighs")).toBe(true);
+    });
+
+    it("does not match on substrings of unrelated words", () => {
+      expect(ingredientMatchesItem("pea", "Peanut Butter")).toBe(false);
+      expect(ingredientMatchesItem("rice", "Licorice")).toBe(false);
+    });
+  });
+
+  describe("matchRecipe", () => {
+    const omelette = recipe("omelette", [
+      { name: "eggs" },
+      { name: "cheese", optional: true },
+      { name: "spinach" },
+    ]);
+
+    it("uses the soonest-expiring item and skips expired ones", () => {
+      const match = matchRecipe(omelette, [
+        createItem("Eggs", "2024-01-25"),
+        createItem("Eggs", "2024-01-16"),
+        createItem("Cheddar", "2024-01-10"),
+      ]);
+      expect(match.uses.map((u) => u.item.expiry_date)).toEqual(["2024-01-16"]);
+      expect(match.missing.map((i) => i.name)).toEqual(["spinach"]);
+      expect(match.coverage).toBe(0.5);
+    });
+
+    it("scores urgent items above safe ones", () => {
+      const urgent = matchRecipe(omelette, [
+        createItem("Eggs", "2024-01-15"),
+        createItem("Spinach", "2024-01-16"),
+      ]);
+      const relaxed = matchRecipe(omelette, [
+        createItem("Eggs", "2024-03-01"),
+        createItem("Spinach", "2024-03-01"),
+      ]);
+      expect(urgent.coverage).toBe(1);
+      expect(urgent.score).toBeGreaterThan(relaxed.score);
+      expect(relaxed.expiringCount).toBe(0);
+    });
+  });
+
+  describe("rankRecipesForInventory", () => {
+    it("ranks by urgency-weighted coverage and hides recipes with nothing expiring", () => {
+      const items = [
+        createItem("Chicken Breast", "2024-01-16"),
+        createItem("Rice", "2024-06-01"),
+        createItem("Bread"),
+      ];
+      const ranked = rankRecipesForInventory(
+        [
+          recipe("toast", [{ name: "bread" }]),
+          recipe("chicken-rice", [{ name: "chicken" }, { name: "rice" }], 30),
+          recipe("chicken-salad", [{ name: "chicken" }, { name: "lettuce" }]),
+        ],
+        items,
+      );
+      expect(ranked.map((m) => m.recipe.id)).toEqual([
+        "chicken-rice",
+        "chicken-salad",
+      ]);
+    });
+  });
+
+  describe("suggestedUsageQuantity", () => {
+    it("uses the recipe amount only when the units agree, capped at stock", () => {
+      expect(
+        suggestedUsageQuantity(
+          { name: "eggs", quantity: 3, unit: "pcs" },
+          createItem("Eggs", undefined, 6),
+        ),
+      ).toBe(3);
+      expect(
+        suggestedUsageQuantity(
+          { name: "milk", quantity: 300, unit: "ml" },
+          createItem("Milk", undefined, 250, "ml"),
+        ),
+      ).toBe(250);
+      expect(
+        suggestedUsageQuantity(
+          { name: "pasta", quantity: 200, unit: "g" },
+          createItem("Pasta", undefined, 2, "pack"),
+        ),
+      ).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  formatPercentChange,
+  isInReportRange,
+  percentChange,
+  previousReportRange,
+  reportRange,
+  weeklyTrend,
+} from "../reportRange";
+
+// Sunday 18 October 2026, afternoon.
+const today = new Date(2026, 9, 18, 15, 30);
+
+describe("reportRange", () => {
+  it("covers the last N days including today", () => {
+    const range = reportRange("7d", { today });
+
+    expect(range.start).toEqual(new Date(2026, 9, 12));
+    expect(range.end).toEqual(new Date(2026, 9, 19));
+    expect(range.label).toBe("Last 7 days");
+    expect(isInReportRange(new Date(2026, 9, 12, 0, 5).toISOString(), range)).toBe(true);
+    expect(isInReportRange(new Date(2026, 9, 11, 23, 55).toISOString(), range)).toBe(false);
+  });
+
+  it("has no start for all time", () => {
+    const range = reportRange("all", { today });
+
+    expect(range.start).toBeNull();
+    expect(previousReportRange(range)).toBeNull();
+    expect(isInReportRange("2019-01-01T00:00:00Z", range)).toBe(true);
+  });
+
+  it("compares a calendar month with the month before", () => {
+    const range = reportRange("month", { month: new Date(2026, 2, 10) });
+    const previous = previousReportRange(range)!;
+
+    expect(range.label).toBe("Mar 2026");
+    expect(range.end).toEqual(new Date(2026, 3, 1));
+    expect(previous.start).toEqual(new Date(2026, 1, 1));
+    expect(previous.end).toEqual(new Date(2026, 2, 1));
+    expect(previous.label).toBe("Feb 2026");
+  });
+
+  it("orders custom days and compares them with as many days before", () => {
+    const range = reportRange("custom", {
+      from: new Date(2026, 9, 10),
+      to: new Date(2026, 9, 1),
+    });
+    const previous = previousReportRange(range)!;
+
+    expect(range.start).toEqual(new Date(2026, 9, 1));
+    expect(range.end).toEqual(new Date(2026, 9, 11));
+    expect(range.label).toBe("1 Oct – 10 Oct");
+    expect(previous.start).toEqual(new Date(2026, 8, 21));
+    expect(previous.end).toEqual(new Date(2026, 9, 1));
+    expect(previous.label).toBe("previous 10 days");
+  });
+});
+
+describe("weeklyTrend", () => {
+  it("buckets events by Monday, empty weeks included", () => {
+    const range = reportRange("30d", { today });
+    const trend = weeklyTrend(
+      [
+        { at: new Date(2026, 9, 13, 9).toISOString(), value: 2.5 },
+        { at: new Date(2026, 9, 18, 9).toISOString(), value: 1 },
+        { at: new Date(2026, 9, 1, 9).toISOString(), value: 4 },
+        // Before the range.
+        { at: new Date(2026, 8, 1, 9).toISOString(), value: 9 },
+      ],
+      range
+    );
+
+    expect(trend[0]!.date).toBe("2026-09-14");
+    expect(trend[trend.length - 1]).toEqual({ date: "2026-10-12", count: 2, value: 3.5 });
+    expect(trend.find((w) => w.date === "2026-09-28")).toEqual({
+      date: "2026-09-28",
+      count: 1,
+      value: 4,
+    });
+    expect(trend.find((w) => w.date === "2026-10-05")).toEqual({
+      date: "2026-10-05",
+      count: 0,
+      value: 0,
+    });
+    expect(trend.reduce((n, w) => n + w.count, 0)).toBe(3);
+  });
+
+  it("shows the last twelve weeks for all time", () => {
+    expect(weeklyTrend([], reportRange("all", { today }))).toHaveLength(12);
+  });
+});
+
+describe("percentChange", () => {
+  it("needs a previous value to compare with", () => {
+    expect(percentChange(12, 10)).toBe(20);
+    expect(percentChange(5, 10)).toBe(-50);
+    expect(percentChange(5, 0)).toBeNull();
+    expect(formatPercentChange(20)).toBe("▲20%");
+    expect(formatPercentChange(-50)).toBe("▼50%");
+    expect(formatPercentChange(0)).toBe("no change");
+  });
+});
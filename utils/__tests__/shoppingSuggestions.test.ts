@@ -0,0 +1,115 @@
+import type { FoodItem, ParLevel } from "@/lib/supabase";
+import type { UsageHistoryRow } from "@/services/insightsReportData";
+
+import { suggestShoppingItems } from "../shoppingSuggestions";
+
+const NOW = new Date(2026, 9, 18, 12, 0, 0);
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 86400000).toISOString();
+}
+
+function item(name: string, quantity: number, unit?: string, expiry = "2026-11-01"): FoodItem {
+  return {
+    id: `${name}-${quantity}`,
+    user_id: "u1",
+    name,
+    quantity,
+    unit,
+    location: "fridge",
+    expiry_date: expiry,
+    created_at: daysAgo(1),
+    updated_at: daysAgo(1),
+  };
+}
+
+function history(partial: Partial<UsageHistoryRow> & { key: string }): UsageHistoryRow {
+  return {
+    name: partial.key,
+    category: null,
+    unit: null,
+    usedQty: 1,
+    events: 1,
+    firstLoggedAt: daysAgo(30),
+    lastLoggedAt: daysAgo(1),
+    ...partial,
+  };
+}
+
+function par(name: string, quantity: number, unit: string | null = null): ParLevel {
+  return {
+    id: `par-${name}`,
+    user_id: "u1",
+    name,
+    group_key: name.toLowerCase(),
+    quantity,
+    unit,
+    created_at: daysAgo(10),
+    updated_at: daysAgo(10),
+  };
+}
+
+describe("suggestShoppingItems", () => {
+  it("tops up a regularly used product that won't last the week", () => {
+    const [milk] = suggestShoppingItems({
+      history: [
+        history({
+          key: "milk",
+          name: "Milk",
+          unit: "L",
+          usedQty: 12,
+          events: 6,
+          firstLoggedAt: daysAgo(30),
+        }),
+      ],
+      items: [item("Milk 1L", 0.5, "L")],
+      parLevels: [],
+      now: NOW,
+    });
+
+    // 12 L over 30 days = 0.4 L/day; a week needs 2.8 L, 0.5 L on hand.
+    expect(milk).toMatchObject({ key: "milk", quantity: 3, onHand: 0.5, priority: "high" });
+    expect(milk!.reason).toBe("You usually use 2 L every 5 days; you have 0.5 L left");
+    expect(milk!.daysLeft).toBeCloseTo(1.25);
+  });
+
+  it("ignores products with enough stock or too little history", () => {
+    const suggestions = suggestShoppingItems({
+      history: [
+        history({ key: "egg", usedQty: 12, events: 4 }),
+        history({ key: "butter", usedQty: 1, events: 1 }),
+      ],
+      items: [item("Eggs", 12)],
+      parLevels: [],
+      now: NOW,
+    });
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it("suggests par level shortfalls and skips expired or other-unit stock", () => {
+    const [rice] = suggestShoppingItems({
+      history: [],
+      items: [item("Rice", 1, "kg", "2026-10-01"), item("Rice", 500, "g"), item("Rice", 1, "kg")],
+      parLevels: [par("Rice", 3, "kg")],
+      now: NOW,
+    });
+
+    expect(rice).toMatchObject({ name: "Rice", quantity: 2, onHand: 1, unit: "kg" });
+    expect(rice!.reason).toBe("Below your minimum of 3 kg; you have 1 kg left");
+  });
+
+  it("lists out-of-stock products first", () => {
+    const suggestions = suggestShoppingItems({
+      history: [],
+      items: [item("Bread", 1)],
+      parLevels: [par("Bread", 2), par("Yogurt", 4)],
+      now: NOW,
+    });
+
+    expect(suggestions.map((s) => [s.key, s.priority])).toEqual([
+      ["yogurt", "high"],
+      ["bread", "medium"],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  compatibleUnits,
+  convertQuantity,
+  isSingleWholeUnit,
+} from "../unitConversion";
+import {
+  assertUsageQuantity,
+  parseDecimalQuantity,
+  sanitizeDecimalQuantityInputString,
+} from "../quantityLimits";
+
+describe("convertQuantity", () => {
+  it("converts within a dimension in any spelling", () => {
+    expect(convertQuantity(250, "g", "kg")).toBe(0.25);
+    expect(convertQuantity(1, "L", "ml")).toBe(1000);
+    expect(convertQuantity(2, "cups", "ml")).toBe(480);
+    expect(convertQuantity(1, "dozen", "pcs")).toBe(12);
+    expect(convertQuantity(1, "lb", "oz")).toBe(16);
+  });
+
+  it("refuses to convert across dimensions or unknown units", () => {
+    expect(convertQuantity(1, "kg", "ml")).toBeNull();
+    expect(convertQuantity(1, "cans", "pcs")).toBeNull();
+    expect(convertQuantity(3, "cans", "Cans")).toBe(3);
+  });
+});
+
+describe("compatibleUnits", () => {
+  it("lists the item's own unit first, then the rest of its dimension", () => {
+    expect(compatibleUnits("L")).toEqual(["L", "ml", "cup", "tbsp", "tsp"]);
+    expect(compatibleUnits(undefined)).toEqual(["pcs", "dozen"]);
+    expect(compatibleUnits("jar")).toEqual(["jar"]);
+  });
+});
+
+describe("isSingleWholeUnit", () => {
+  it("is only true for one piece-like unit", () => {
+    expect(isSingleWholeUnit(1, "pcs")).toBe(true);
+    expect(isSingleWholeUnit(1, "can")).toBe(true);
+    expect(isSingleWholeUnit(1, "kg")).toBe(false);
+    expect(isSingleWholeUnit(0.5, "pcs")).toBe(false);
+  });
+});
+
+describe("decimal quantities", () => {
+  it("parses and sanitizes typed decimals", () => {
+    expect(parseDecimalQuantity("0,5", 0.001, 999)).toBe(0.5);
+    expect(parseDecimalQuantity("abc", 1, 999)).toBe(1);
+    expect(sanitizeDecimalQuantityInputString("1.23456")).toBe("1.234");
+    expect(sanitizeDecimalQuantityInputString("0.", { allowEmpty: true })).toBe("0.");
+    expect(sanitizeDecimalQuantityInputString("5000")).toBe("999");
+  });
+
+  it("accepts fractional usage up to the stock", () => {
+    expect(() => assertUsageQuantity(0.25, 0.5)).not.toThrow();
+    expect(() => assertUsageQuantity(0.75, 0.5)).toThrow("Quantity cannot exceed 0.5");
+    expect(() => assertUsageQuantity(0.0001, 1)).toThrow("at most 3 decimals");
+  });
+});
@@ -0,0 +1,139 @@
+import { FoodItem } from "@/lib/supabase";
+import {
+  calculateUrgency,
+  DEFAULT_URGENCY_SETTINGS,
+  sanitizeUrgencySettings,
+  getActiveUrgencySettings,
+  setActiveUrgencySettings,
+  subscribeToUrgencySettings,
+  urgencyThresholdsFor,
+} from "../urgencyUtils";
+
+// Sunday 18 October 2026, late evening: a UTC-midnight calculation would be a day off
+// in most time zones.
+const today = new Date(2026, 9, 18, 23, 30);
+
+function item(overrides: Partial<FoodItem>): FoodItem {
+  return {
+    id: "i1",
+    user_id: "u1",
+    name: "Salmon",
+    quantity: 1,
+    location: "fridge",
+    category: "Seafood",
+    created_at: "2026-10-01T00:00:00.000Z",
+    updated_at: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const settings = sanitizeUrgencySettings({
+  defaults: { warningDays: 2, soonDays: 7 },
+  categories: {
+    Seafood: { warningDays: 1, soonDays: 2 },
+    canned: { warningDays: 14, soonDays: 30 },
+  },
+});
+
+describe("urgency thresholds", () => {
+  afterEach(() => setActiveUrgencySettings(null));
+
+  it("counts local calendar days", () => {
+    expect(calculateUrgency(item({ expiry_date: "2026-10-18" }), { today })).toMatchObject({
+      level: "critical",
+      daysUntilExpiry: 0,
+      isExpired: false,
+      description: "Expires today",
+    });
+    expect(calculateUrgency(item({ expiry_date: "2026-10-17" }), { today })).toMatchObject({
+      level: "critical",
+      daysUntilExpiry: -1,
+      isExpired: true,
+      description: "Expired 1 day ago",
+    });
+  });
+
+  it("uses the category's thresholds over the defaults", () => {
+    const fish = item({ expiry_date: "2026-10-20" });
+    expect(calculateUrgency(fish, { today, settings }).level).toBe("soon");
+    expect(calculateUrgency(fish, { today }).level).toBe("warning");
+
+    const beans = item({ name: "Beans", category: "Canned", expiry_date: "2026-11-10" });
+    expect(calculateUrgency(beans, { today, settings }).level).toBe("soon");
+    expect(calculateUrgency(beans, { today }).level).toBe("safe");
+  });
+
+  it("falls back to the defaults for other categories", () => {
+    expect(urgencyThresholdsFor("Dairy", settings)).toEqual({ warningDays: 2, soonDays: 7 });
+    expect(urgencyThresholdsFor(" seafood ", settings)).toEqual({ warningDays: 1, soonDays: 2 });
+  });
+
+  it("applies the active settings when none are passed", () => {
+    setActiveUrgencySettings(settings);
+    expect(calculateUrgency(item({ expiry_date: "2026-10-20" }), { today }).level).toBe("soon");
+  });
+
+  it("keeps past-best-before items usable", () => {
+    const crackers = item({
+      name: "Crackers",
+      category: "Snacks",
+      expiry_kind: "best_before",
+      expiry_date: "2026-10-15",
+    });
+    expect(calculateUrgency(crackers, { today })).toMatchObject({
+      level: "warning",
+      isExpired: false,
+      expiryKind: "best_before",
+      description: "Past best before by 3 days",
+    });
+    expect(
+      calculateUrgency({ ...crackers, expiry_date: "2026-10-18" }, { today }).description
+    ).toBe("Best before today");
+  });
+
+  it("treats the after-opening window as a use-by date", () => {
+    const opened = item({
+      name: "Milk",
+      category: "Dairy",
+      expiry_kind: "best_before",
+      expiry_date: "2026-11-30",
+      opened_at: new Date(2026, 8, 1, 12).toISOString(),
+    });
+    expect(calculateUrgency(opened, { today })).toMatchObject({
+      level: "critical",
+      isExpired: true,
+    });
+  });
+});
+
+describe("subscribeToUrgencySettings", () => {
+  afterEach(() => setActiveUrgencySettings(null));
+
+  it("tells listeners when the thresholds load and stops after unsubscribing", () => {
+    const listener = jest.fn(() => getActiveUrgencySettings());
+    const unsubscribe = subscribeToUrgencySettings(listener);
+
+    setActiveUrgencySettings(settings);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.results[0]!.value).toEqual(settings);
+
+    unsubscribe();
+    setActiveUrgencySettings(null);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("sanitizeUrgencySettings", () => {
+  it("defaults missing or bad values and keeps soon after warning", () => {
+    expect(sanitizeUrgencySettings(null)).toEqual(DEFAULT_URGENCY_SETTINGS);
+    expect(
+      sanitizeUrgencySettings({
+        defaults: { warningDays: 5, soonDays: 3 },
+        categories: { "": { warningDays: 1 }, Eggs: { warningDays: -4, soonDays: "x" } },
+      })
+    ).toEqual({
+      defaults: { warningDays: 5, soonDays: 5 },
+      categories: { eggs: { warningDays: 0, soonDays: 5 } },
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { resolveItemPrice, sanitizePriceInputString } from "../itemPrice";
+import { summarizeWasteCost, ValuedLog } from "../wasteCost";
+
+const log = (
+  status: ValuedLog["status"],
+  quantity: number,
+  unitPrice: number | null,
+  overrides: Partial<ValuedLog> = {}
+): ValuedLog => ({
+  status,
+  quantity,
+  loggedAt: "2026-10-10T12:00:00",
+  itemKey: "milk",
+  itemName: "Milk",
+  categoryLabel: "Dairy",
+  unitPrice,
+  currency: unitPrice == null ? null : "EUR",
+  ...overrides,
+});
+
+describe("resolveItemPrice", () => {
+  it("derives the unit price from a total", () => {
+    expect(resolveItemPrice(3, "total", 4, "EUR")).toEqual({
+      price: 3,
+      price_per_unit: 0.75,
+      currency: "EUR",
+    });
+  });
+
+  it("derives the total from a unit price", () => {
+    expect(resolveItemPrice(1.25, "unit", 0.5, "EUR")).toEqual({
+      price: 0.63,
+      price_per_unit: 1.25,
+      currency: "EUR",
+    });
+  });
+
+  it("clears the price when no amount is given", () => {
+    expect(resolveItemPrice(null, "total", 2, "EUR").price).toBeNull();
+  });
+
+  it("keeps two decimals while typing", () => {
+    expect(sanitizePriceInputString("4,599")).toBe("4.59");
+    expect(sanitizePriceInputString("")).toBe("");
+  });
+});
+
+describe("summarizeWasteCost", () => {
+  it("returns null when nothing has a price", () => {
+    expect(summarizeWasteCost([log("wasted", 1, null)], [])).toBeNull();
+  });
+
+  it("values waste and consumption at quantity times unit price", () => {
+    const summary = summarizeWasteCost(
+      [
+        log("wasted", 2, 1.5),
+        log("expired", 1, 4, {
+          itemKey: "cheese",
+          itemName: "Cheese",
+          loggedAt: "2026-09-03T12:00:00",
+        }),
+        log("used", 3, 1.5),
+        log("wasted", 1, null),
+      ],
+      [{ price: 10, currency: "EUR" }, { price: 6.5, currency: "EUR" }]
+    )!;
+
+    expect(summary.currency).toBe("EUR");
+    expect(summary.wastedValue).toBe(7);
+    expect(summary.consumedValue).toBe(4.5);
+    expect(summary.totalSpend).toBe(16.5);
+    expect(summary.unpricedWasteLogs).toBe(1);
+    expect(summary.byMonth.map((r) => [r.key, r.label, r.amount])).toEqual([
+      ["2026-10", "Oct 2026", 3],
+      ["2026-09", "Sep 2026", 4],
+    ]);
+    expect(summary.byItem.map((r) => [r.label, r.amount, r.barPct])).toEqual([
+      ["Cheese", 4, 100],
+      ["Milk", 3, 75],
+    ]);
+    expect(summary.byCategory).toHaveLength(1);
+  });
+
+  it("reports in the most used currency and leaves the others out", () => {
+    const summary = summarizeWasteCost(
+      [
+        log("wasted", 1, 2),
+        log("wasted", 1, 2),
+        log("wasted", 1, 100, { currency: "JPY" }),
+      ],
+      [{ price: 500, currency: "JPY" }]
+    )!;
+
+    expect(summary.currency).toBe("EUR");
+    expect(summary.wastedValue).toBe(4);
+    expect(summary.totalSpend).toBe(0);
+    expect(summary.otherCurrencies).toEqual(["JPY"]);
+  });
+});
@@ -0,0 +1,109 @@
+// utils/budgetForecast.ts
+import { BudgetAnalysis } from "@/lib/supabase";
+import { roundMoney } from "@/utils/itemPrice";
+
+/** One priced purchase: an item added or a shopping entry bought. */
+export type Spend = {
+  amount: number;
+  currency: string | null;
+  /** Report category label. */
+  category: string;
+  /** When it was added or bought (ISO). */
+  at: string;
+};
+
+/**
+ * {@link BudgetAnalysis} for the current month: `actualSpending` so far and
+ * `variance` what's left of the budget (negative when over).
+ */
+export interface BudgetForecast extends BudgetAnalysis {
+  /** `YYYY-MM` */
+  month: string;
+  currency: string;
+  daysElapsed: number;
+  daysInMonth: number;
+  /** Expected spend by the end of the month. */
+  forecastSpending: number;
+  /** Budget minus forecast; negative when heading over. */
+  forecastVariance: number;
+  overBudget: boolean;
+  /** Forecast split across categories in proportion to spend. */
+  categoryForecast: Record<string, number>;
+}
+
+function monthKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function totalsByCategory(spends: Spend[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const s of spends) out[s.category] = (out[s.category] ?? 0) + s.amount;
+  return out;
+}
+
+function roundValues(totals: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(totals).map(([k, v]) => [k, roundMoney(v)]));
+}
+
+/**
+ * Month-end spend from this month's run rate. Early in the month the run rate
+ * says little, so it's blended with last month's total, leaning on it less as
+ * the days go by. Spends in other currencies are left out.
+ */
+export function forecastBudget(
+  budget: { monthlyAmount: number; currency: string },
+  spends: Spend[],
+  today = new Date()
+): BudgetForecast {
+  const month = monthKey(today);
+  const previousMonth = monthKey(new Date(today.getFullYear(), today.getMonth() - 1, 1));
+  const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+  const daysElapsed = today.getDate();
+
+  const current: Spend[] = [];
+  const previous: Spend[] = [];
+  for (const s of spends) {
+    if ((s.currency ?? budget.currency) !== budget.currency) continue;
+    const at = new Date(s.at);
+    if (Number.isNaN(at.getTime())) continue;
+    const key = monthKey(at);
+    if (key === month) current.push(s);
+    else if (key === previousMonth) previous.push(s);
+  }
+
+  const spent = current.reduce((sum, s) => sum + s.amount, 0);
+  const previousTotal = previous.reduce((sum, s) => sum + s.amount, 0);
+  const runRate = (spent / daysElapsed) * daysInMonth;
+  const weight = daysElapsed / daysInMonth;
+  const forecast =
+    previousTotal > 0
+      ? Math.max(spent, weight * runRate + (1 - weight) * previousTotal)
+      : runRate;
+
+  const categoryBreakdown = totalsByCategory(current);
+  const shares = spent > 0 ? categoryBreakdown : totalsByCategory(previous);
+  const shareTotal = spent > 0 ? spent : previousTotal;
+  const categoryForecast: Record<string, number> = {};
+  if (shareTotal > 0) {
+    for (const [category, amount] of Object.entries(shares)) {
+      categoryForecast[category] = (amount / shareTotal) * forecast;
+    }
+  }
+
+  const plannedBudget = roundMoney(budget.monthlyAmount);
+  const forecastSpending = roundMoney(forecast);
+  return {
+    plannedBudget,
+    actualSpending: roundMoney(spent),
+    variance: roundMoney(plannedBudget - spent),
+    categoryBreakdown: roundValues(categoryBreakdown),
+    month,
+    currency: budget.currency,
+    daysElapsed,
+    daysInMonth,
+    forecastSpending,
+    forecastVariance: roundMoney(plannedBudget - forecastSpending),
+    overBudget: forecastSpending > plannedBudget,
+    categoryForecast: roundValues(categoryForecast),
+  };
+}
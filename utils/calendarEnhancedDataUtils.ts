@@ -11,6 +11,8 @@ import {
   PatternIndicator,
   SortOptionsEnhanced,
 } from "../types/calendar-enhanced";
+import { calendarDaysUntil, toLocalYmd, todayYmd } from "./localDate";
+import { calculateUrgency } from "./urgencyUtils";
 
 // =============================================================================
 // COLOR SCHEME UTILITIES
@@ -112,13 +114,7 @@ export function calculateExpiryStatus(
   expiryDate: string,
   colorScheme: CalendarColorScheme = DEFAULT_COLOR_SCHEME
 ): ExpiryStatusResult {
-  const toUtcMidnight = (d: Date) =>
-    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
-  const todayUtc = toUtcMidnight(new Date());
-  const expiryUtc = toUtcMidnight(new Date(expiryDate));
-  const daysUntilExpiry = Math.round(
-    (expiryUtc - todayUtc) / (24 * 60 * 60 * 1000)
-  );
+  const daysUntilExpiry = calendarDaysUntil(expiryDate);
 
   if (daysUntilExpiry < 0) {
     return {
@@ -224,6 +220,16 @@ export function generatePatternIndicators(
 // DATE INDICATORS GENERATION
 // =============================================================================
 
+/**
+ * Expired, due today, or later, in local calendar days from the effective date.
+ * Past best before counts as today: worth using up, not unsafe.
+ */
+function expiryTypeOf(item: FoodItem): "expired" | "today" | "future" {
+  const { isExpired, daysUntilExpiry } = calculateUrgency(item);
+  if (isExpired) return "expired";
+  return daysUntilExpiry <= 0 ? "today" : "future";
+}
+
 /**
  * Generate date indicators for calendar dates
  */
@@ -231,8 +237,6 @@ export function generateDateIndicators(
   items: FoodItem[],
   colorScheme: CalendarColorScheme = DEFAULT_COLOR_SCHEME
 ): DateIndicators {
-  const today = new Date().toISOString().split("T")[0];
-
   const expiryTypes: ("expired" | "today" | "future")[] = [];
   let urgencyLevel: "low" | "medium" | "high" | "critical" = "low";
 
@@ -241,13 +245,8 @@ export function generateDateIndicators(
 
     const status = calculateExpiryStatus(item.expiry_date, colorScheme);
 
-    if (item.expiry_date < today && !expiryTypes.includes("expired")) {
-      expiryTypes.push("expired");
-    } else if (item.expiry_date === today && !expiryTypes.includes("today")) {
-      expiryTypes.push("today");
-    } else if (item.expiry_date > today && !expiryTypes.includes("future")) {
-      expiryTypes.push("future");
-    }
+    const type = expiryTypeOf(item);
+    if (!expiryTypes.includes(type)) expiryTypes.push(type);
 
     // Update urgency level to highest found
     if (status.urgencyLevel === "critical") urgencyLevel = "critical";
@@ -295,7 +294,7 @@ export function createEnhancedMarkedDates(
     maxDotsPerDate = 3,
   } = options;
   const markedDates: MarkedDatesType = {};
-  const today = new Date().toISOString().split("T")[0];
+  const today = todayYmd();
 
   Object.entries(itemsByDate).forEach(([date, items]) => {
     if (items.length === 0) return;
@@ -513,14 +512,9 @@ export function calculateExpiryStatistics(
   items: FoodItem[],
   colorScheme: CalendarColorScheme = DEFAULT_COLOR_SCHEME
 ): ExpiryStatistics {
-  const today = new Date().toISOString().split("T")[0];
-  const oneWeekFromNow = new Date();
-  oneWeekFromNow.setDate(oneWeekFromNow.getDate() + 7);
-  const oneWeekFromNowStr = oneWeekFromNow.toISOString().split("T")[0];
-
   const oneMonthFromNow = new Date();
   oneMonthFromNow.setMonth(oneMonthFromNow.getMonth() + 1);
-  const oneMonthFromNowStr = oneMonthFromNow.toISOString().split("T")[0];
+  const daysToOneMonth = calendarDaysUntil(toLocalYmd(oneMonthFromNow));
 
   let expiredItems = 0;
   let expiringToday = 0;
@@ -543,16 +537,16 @@ export function calculateExpiryStatistics(
     // Process expiry dates
     if (item.expiry_date) {
       itemsWithExpiry++;
-      const status = calculateExpiryStatus(item.expiry_date, colorScheme);
-      totalDays += status.daysUntilExpiry;
+      const { isExpired, daysUntilExpiry } = calculateUrgency(item);
+      totalDays += daysUntilExpiry;
 
-      if (item.expiry_date < today) {
+      if (isExpired) {
         expiredItems++;
-      } else if (item.expiry_date === today) {
+      } else if (daysUntilExpiry <= 0) {
         expiringToday++;
-      } else if (item.expiry_date <= oneWeekFromNowStr) {
+      } else if (daysUntilExpiry <= 7) {
         expiringThisWeek++;
-      } else if (item.expiry_date <= oneMonthFromNowStr) {
+      } else if (daysUntilExpiry <= daysToOneMonth) {
         expiringThisMonth++;
       }
     }
@@ -585,8 +579,6 @@ export function calculateLegendCounts(
   items: FoodItem[],
   colorScheme: CalendarColorScheme = DEFAULT_COLOR_SCHEME
 ): LegendItemCounts {
-  const today = new Date().toISOString().split("T")[0];
-
   let expired = 0;
   let todayCount = 0;
   let future = 0;
@@ -594,9 +586,10 @@ export function calculateLegendCounts(
   items.forEach((item) => {
     if (!item.expiry_date) return;
 
-    if (item.expiry_date < today) {
+    const type = expiryTypeOf(item);
+    if (type === "expired") {
       expired++;
-    } else if (item.expiry_date === today) {
+    } else if (type === "today") {
       todayCount++;
     } else {
       future++;
@@ -1,7 +1,9 @@
 // Enhanced Calendar Utility Functions
 // Based on design specifications from Phase 2
 
+import { FOOD_LOCATION_LABELS, toFoodLocation } from "../lib/foodLocations";
 import { FoodItem } from "../lib/supabase";
+import { addDaysYmd, todayYmd, toLocalYmd } from "./localDate";
 import {
   CalendarData,
   ExpiryCalculation,
@@ -237,8 +239,8 @@ export function getMonthRange(year: number, month: number): MonthRange {
   const endDate = new Date(year, month, 1);
 
   return {
-    startDate: startDate.toISOString().split("T")[0],
-    endDate: endDate.toISOString().split("T")[0],
+    startDate: toLocalYmd(startDate),
+    endDate: toLocalYmd(endDate),
   };
 }
 
@@ -381,17 +383,14 @@ export function isValidDateString(dateString: string): boolean {
  * Get current date in YYYY-MM-DD format
  */
 export function getCurrentDateString(): string {
-  const today = new Date();
-  return today.toISOString().split("T")[0];
+  return todayYmd();
 }
 
 /**
  * Add days to a date string
  */
 export function addDaysToDate(dateString: string, days: number): string {
-  const date = new Date(dateString);
-  date.setDate(date.getDate() + days);
-  return date.toISOString().split("T")[0];
+  return addDaysYmd(dateString, days);
 }
 
 /**
@@ -401,7 +400,7 @@ export function getItemMetaText(item: FoodItem): string {
   const parts: string[] = [];
 
   if (item.location) {
-    parts.push(item.location === "fridge" ? "Fridge" : "Shelf");
+    parts.push(FOOD_LOCATION_LABELS[toFoodLocation(item.location)]);
   }
 
   if (item.created_at) {
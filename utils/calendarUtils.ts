@@ -1,10 +1,12 @@
 // utils/calendarUtils.ts
 import { FoodItem } from "@/lib/supabase";
 import { MarkedDates } from "react-native-calendars/src/types";
+import { todayYmd, toLocalYmd } from "./localDate";
 import {
   calculateEnhancedUrgency,
   getCalendarDateAccessibilityLabel,
   getCalendarDotColors,
+  urgencyThresholdsFor,
 } from "./urgencyUtils";
 
 /**
@@ -29,7 +31,10 @@ export function formatItemsForCalendar(
 
     // Calculate urgency statistics for this date
     const urgencyStats = items.reduce((acc, item) => {
-      const urgency = calculateEnhancedUrgency(item.expiry_date!);
+      const urgency = calculateEnhancedUrgency(
+        item.expiry_date!,
+        urgencyThresholdsFor(item.category)
+      );
       acc[urgency.level] = (acc[urgency.level] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
@@ -83,8 +88,8 @@ export function getMonthRange(
   endDate.setDate(endDate.getDate() + 7);
 
   return {
-    startDate: startDate.toISOString().split("T")[0],
-    endDate: endDate.toISOString().split("T")[0],
+    startDate: toLocalYmd(startDate),
+    endDate: toLocalYmd(endDate),
   };
 }
 
@@ -148,7 +153,7 @@ export function formatDateForDisplay(dateString: string): string {
  * Used for default date selection
  */
 export function getCurrentDateString(): string {
-  return new Date().toISOString().split("T")[0];
+  return todayYmd();
 }
 
 /**
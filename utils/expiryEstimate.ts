@@ -0,0 +1,105 @@
+// utils/expiryEstimate.ts
+import { FoodItem } from "@/lib/supabase";
+import {
+  lookupShelfLife,
+  ShelfLifeOverrides,
+  shelfLifeOverrideKey,
+  StorageLocation,
+} from "@/lib/shelfLife";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+
+/** Past items need at least this many dated rows before their gap beats the table. */
+const MIN_HISTORY_SAMPLES = 2;
+
+/** Gaps outside this range are typos or long-life pantry goods, not a signal. */
+const MAX_LEARNED_DAYS = 730;
+
+export type ShelfLifeSample = Pick<
+  FoodItem,
+  "name" | "normalized_name" | "created_at" | "expiry_date"
+>;
+
+export type LearnedShelfLife = Map<string, { days: number; samples: number }>;
+
+export type ExpiryEstimate = {
+  days: number;
+  location: StorageLocation;
+  source: "override" | "history" | "name" | "category" | "default";
+};
+
+export type ExpiryEstimateOptions = {
+  learned?: LearnedShelfLife;
+  overrides?: ShelfLifeOverrides;
+  /** Where the item is going; defaults to the knowledge base's best place. */
+  location?: StorageLocation;
+  opened?: boolean;
+};
+
+function ymdToLocalDate(ymd: string): Date | null {
+  const m = ymd.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]!
+    : Math.round((sorted[mid - 1]! + sorted[mid]!) / 2);
+}
+
+/**
+ * Median calendar days between adding an item and its expiry date, per grouping
+ * name, from the user's own past items.
+ */
+export function learnShelfLifeDays(samples: ShelfLifeSample[]): LearnedShelfLife {
+  const gaps = new Map<string, number[]>();
+  for (const s of samples) {
+    if (!s.expiry_date || !s.created_at) continue;
+    const expiry = ymdToLocalDate(s.expiry_date);
+    const created = new Date(s.created_at);
+    if (!expiry || Number.isNaN(created.getTime())) continue;
+    const addedDay = new Date(created.getFullYear(), created.getMonth(), created.getDate());
+    const days = Math.round((expiry.getTime() - addedDay.getTime()) / 86400000);
+    if (days < 1 || days > MAX_LEARNED_DAYS) continue;
+
+    const key = normalizeFoodNameForGrouping(s.normalized_name || s.name);
+    const list = gaps.get(key) ?? [];
+    list.push(days);
+    gaps.set(key, list);
+  }
+
+  const learned: LearnedShelfLife = new Map();
+  for (const [key, list] of gaps) {
+    learned.set(key, { days: median(list), samples: list.length });
+  }
+  return learned;
+}
+
+/**
+ * Suggested shelf life for an item: the user's remembered override for that
+ * product and storage, then their own history (unopened, usual place only),
+ * then the bundled knowledge base.
+ */
+export function estimateShelfLife(
+  name: string,
+  category: string | null | undefined,
+  options: ExpiryEstimateOptions = {}
+): ExpiryEstimate {
+  const { learned, overrides, opened = false } = options;
+  const table = lookupShelfLife(name, category, { location: options.location, opened });
+  const key = normalizeFoodNameForGrouping(name);
+
+  const override = overrides?.[shelfLifeOverrideKey(key, table.location, opened)];
+  if (override && override.days >= 1) {
+    return { days: override.days, location: table.location, source: "override" };
+  }
+
+  const usualPlace = lookupShelfLife(name, category).location;
+  const own = learned?.get(key);
+  if (own && own.samples >= MIN_HISTORY_SAMPLES && !opened && table.location === usualPlace) {
+    return { days: own.days, location: table.location, source: "history" };
+  }
+  return table;
+}
@@ -1,12 +1,9 @@
+import { calendarDaysUntil } from "@/utils/localDate";
+
 export function formatExpiry(dateString?: string): string {
   if (!dateString) return "";
 
-  const expiryDate = new Date(dateString);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const diffTime = expiryDate.getTime() - today.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  const diffDays = calendarDaysUntil(dateString);
 
   if (diffDays < 0) return "Expired";
   if (diffDays === 0) return "Today";
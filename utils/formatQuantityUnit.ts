@@ -1,3 +1,5 @@
+import { roundQuantity } from "@/utils/quantityLimits";
+
 const INVARIANT_UNITS = new Set([
   "l",
   "ml",
@@ -82,7 +84,8 @@ export function formatQuantityWithUnit(
     typeof quantity === "number"
       ? quantity
       : Number.parseFloat(String(quantity).trim());
-  const safeQty = Number.isFinite(qtyNum) ? qtyNum : quantity;
+  // Decimal quantities show at their stored precision (0.25 kg, not 0.25000000001 kg).
+  const safeQty = Number.isFinite(qtyNum) ? roundQuantity(qtyNum) : quantity;
   const fallbackUnit = options?.fallbackUnit ?? "pcs";
   const normalized = normalizeUnit(unit || fallbackUnit);
   const isSingular = typeof safeQty === "number" ? Math.abs(safeQty) === 1 : String(safeQty) === "1";
@@ -0,0 +1,52 @@
+// utils/freezeThaw.ts
+import { lookupShelfLife } from "@/lib/shelfLife";
+import { FoodItem } from "@/lib/supabase";
+
+/** Thawed food is treated like fresh chilled food: use it within a couple of days. */
+export const THAWED_SHELF_LIFE_DAYS = 2;
+
+type StorageUpdate = Pick<FoodItem, "location" | "expiry_date">;
+
+function addDaysYmd(from: Date, days: number): string {
+  const d = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+/**
+ * Moves an item into the freezer: the expiry becomes the freezer shelf life from
+ * today, or stays put when it was already later.
+ */
+export function freezeUpdate(
+  item: Pick<FoodItem, "name" | "category" | "expiry_date">,
+  now = new Date()
+): StorageUpdate {
+  const { days } = lookupShelfLife(item.name, item.category, { location: "freezer" });
+  const frozenUntil = addDaysYmd(now, days);
+  const current = item.expiry_date?.slice(0, 10);
+  return {
+    location: "freezer",
+    expiry_date: current && current > frozenUntil ? current : frozenUntil,
+  };
+}
+
+/**
+ * Takes an item out of the freezer to where it usually lives (the fridge for
+ * frozen goods) with a short window, never later than the frozen expiry.
+ */
+export function thawUpdate(
+  item: Pick<FoodItem, "name" | "category" | "expiry_date">,
+  now = new Date()
+): StorageUpdate {
+  const usual = lookupShelfLife(item.name, item.category).location;
+  const location = usual === "freezer" ? "fridge" : usual;
+  const { days } = lookupShelfLife(item.name, item.category, { location });
+  const thawedUntil = addDaysYmd(now, Math.max(1, Math.min(THAWED_SHELF_LIFE_DAYS, days)));
+  const current = item.expiry_date?.slice(0, 10);
+  return {
+    location,
+    expiry_date: current && current < thawedUntil ? current : thawedUntil,
+  };
+}
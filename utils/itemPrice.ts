@@ -0,0 +1,89 @@
+// utils/itemPrice.ts
+import { FoodItem } from "@/lib/supabase";
+
+/** Currencies offered on add/edit, in picker order. */
+export const PRICE_CURRENCIES = ["USD", "EUR", "GBP", "INR", "CAD", "AUD", "JPY"] as const;
+
+export const DEFAULT_CURRENCY = "USD";
+
+/** Largest price a row can carry (`numeric(12,2)` leaves far more room). */
+export const MAX_PRICE = 99999;
+
+/** Whether a typed amount is what the whole row cost or what one unit cost. */
+export type PriceMode = "total" | "unit";
+
+export type ItemPrice = Pick<FoodItem, "price" | "price_per_unit" | "currency">;
+
+export const NO_PRICE: ItemPrice = { price: null, price_per_unit: null, currency: null };
+
+export function roundMoney(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function roundUnitPrice(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+/**
+ * Price typing: digits and one decimal point (a comma counts as one), at most
+ * two decimals. Empty stays empty: the price is optional.
+ */
+export function sanitizePriceInputString(raw: string): string {
+  const cleaned = raw.replace(",", ".").replace(/[^\d.]/g, "");
+  const [whole = "", ...rest] = cleaned.split(".");
+  if (whole === "" && rest.length === 0) return "";
+  const wholeNum = Math.min(MAX_PRICE, parseInt(whole || "0", 10));
+  return rest.length > 0 ? `${wholeNum}.${rest.join("").slice(0, 2)}` : String(wholeNum);
+}
+
+/** Typed price, or null when blank or not a number. */
+export function parsePriceInput(raw: string): number | null {
+  const n = Number.parseFloat(raw.replace(",", "."));
+  if (!Number.isFinite(n) || n < 0) return null;
+  return Math.min(MAX_PRICE, roundMoney(n));
+}
+
+/**
+ * Both prices from the one the user typed, for `quantity` of the row's unit.
+ * A null amount clears the price.
+ */
+export function resolveItemPrice(
+  amount: number | null,
+  mode: PriceMode,
+  quantity: number,
+  currency: string
+): ItemPrice {
+  if (amount == null || !(quantity > 0)) return NO_PRICE;
+  if (mode === "unit") {
+    return {
+      price: roundMoney(amount * quantity),
+      price_per_unit: roundUnitPrice(amount),
+      currency,
+    };
+  }
+  return {
+    price: roundMoney(amount),
+    price_per_unit: roundUnitPrice(amount / quantity),
+    currency,
+  };
+}
+
+/** What one unit of the row cost; null when it has no price. */
+export function unitPriceOf(
+  item: Pick<FoodItem, "price" | "price_per_unit" | "quantity">
+): number | null {
+  if (item.price_per_unit != null) return Number(item.price_per_unit);
+  if (item.price != null && item.quantity > 0) {
+    return roundUnitPrice(Number(item.price) / item.quantity);
+  }
+  return null;
+}
+
+/** "$4.50", "€4,50"…; falls back to "4.50 XYZ" when the currency is unknown. */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${roundMoney(amount).toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,48 @@
+// utils/localDate.ts
+
+/**
+ * Calendar-day helpers in the device's time zone. Expiry dates are stored as plain
+ * `YYYY-MM-DD` days, so they are compared with the phone's local today, never with a
+ * UTC midnight.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** `YYYY-MM-DD` for the local calendar day of `d`. */
+export function toLocalYmd(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+/** Local `YYYY-MM-DD` for today, or `days` after it. */
+export function todayYmd(days = 0, now = new Date()): string {
+  return toLocalYmd(new Date(now.getFullYear(), now.getMonth(), now.getDate() + days));
+}
+
+/**
+ * Local midnight of a `YYYY-MM-DD` day. A timestamp prefixed with a date uses that
+ * date; anything else falls back to `new Date(value)`.
+ */
+export function parseYmdLocal(ymd: string): Date {
+  const m = ymd.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|T)/);
+  if (!m) return new Date(ymd);
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+/** The `YYYY-MM-DD` day `days` calendar days after `ymd` (before it when negative). */
+export function addDaysYmd(ymd: string, days: number): string {
+  return todayYmd(days, parseYmdLocal(ymd));
+}
+
+/**
+ * Whole calendar days from `today` until `ymd`: 0 on the day itself, negative once
+ * it has passed. Unaffected by daylight-saving changes in between.
+ */
+export function calendarDaysUntil(ymd: string, today = new Date()): number {
+  const d = parseYmdLocal(ymd);
+  const target = Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+  const from = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((target - from) / MS_PER_DAY);
+}
@@ -1,5 +1,7 @@
 // utils/mealPlanningUtils.ts
+import { BUILT_IN_RECIPES, Recipe } from "@/lib/recipes";
 import { FoodItemWithUrgency } from "@/services/foodItems";
+import { ingredientGroupsForItem, rankRecipesForInventory } from "@/utils/recipeMatching";
 
 export interface MealOpportunity {
   id: string;
@@ -13,19 +15,10 @@ export interface MealOpportunity {
   tags: string[];
   nutritionScore: number;
   wasteReduction: number; // Percentage of expiring items used
-}
-
-export interface RecipeTemplate {
-  id: string;
-  name: string;
-  category: string;
-  ingredients: string[];
-  requiredIngredients: string[]; // Must have these
-  optionalIngredients: string[]; // Nice to have these
-  prepTime: number;
-  difficulty: "easy" | "medium" | "hard";
-  tags: string[];
-  instructions?: string[];
+  /** Recipe this opportunity was built from. */
+  recipeId: string;
+  /** Required ingredients that aren't in the inventory. */
+  missingIngredients: string[];
 }
 
 export interface MealPlanningAnalysis {
@@ -45,235 +38,6 @@ export interface MealPlanningAnalysis {
   unusedCritical: FoodItemWithUrgency[];
 }
 
-// Recipe templates database
-const RECIPE_TEMPLATES: RecipeTemplate[] = [
-  // Breakfast recipes
-  {
-    id: "scrambled-eggs",
-    name: "Scrambled Eggs",
-    category: "breakfast",
-    ingredients: ["eggs", "milk", "butter", "cheese"],
-    requiredIngredients: ["eggs"],
-    optionalIngredients: ["milk", "butter", "cheese", "herbs"],
-    prepTime: 10,
-    difficulty: "easy",
-    tags: ["protein", "quick", "vegetarian"],
-    instructions: [
-      "Crack eggs into bowl",
-      "Add milk and whisk",
-      "Cook in buttered pan over medium heat",
-      "Add cheese if available",
-    ],
-  },
-  {
-    id: "fruit-yogurt-bowl",
-    name: "Fruit & Yogurt Bowl",
-    category: "breakfast",
-    ingredients: ["yogurt", "fruit", "honey", "nuts"],
-    requiredIngredients: ["yogurt"],
-    optionalIngredients: ["fruit", "honey", "nuts", "granola"],
-    prepTime: 5,
-    difficulty: "easy",
-    tags: ["healthy", "quick", "light"],
-  },
-  {
-    id: "toast-avocado",
-    name: "Avocado Toast",
-    category: "breakfast",
-    ingredients: ["bread", "avocado", "lemon", "salt"],
-    requiredIngredients: ["bread", "avocado"],
-    optionalIngredients: ["lemon", "tomato", "herbs"],
-    prepTime: 8,
-    difficulty: "easy",
-    tags: ["healthy", "vegetarian", "trendy"],
-  },
-
-  // Lunch recipes
-  {
-    id: "sandwich-classic",
-    name: "Classic Sandwich",
-    category: "lunch",
-    ingredients: ["bread", "meat", "cheese", "lettuce", "tomato"],
-    requiredIngredients: ["bread"],
-    optionalIngredients: ["meat", "cheese", "lettuce", "tomato", "mayo"],
-    prepTime: 5,
-    difficulty: "easy",
-    tags: ["quick", "portable", "filling"],
-  },
-  {
-    id: "salad-mixed",
-    name: "Mixed Green Salad",
-    category: "lunch",
-    ingredients: ["lettuce", "tomato", "cucumber", "carrots", "dressing"],
-    requiredIngredients: ["lettuce"],
-    optionalIngredients: ["tomato", "cucumber", "carrots", "cheese", "nuts"],
-    prepTime: 10,
-    difficulty: "easy",
-    tags: ["healthy", "light", "vegetarian"],
-  },
-  {
-    id: "pasta-simple",
-    name: "Simple Pasta",
-    category: "lunch",
-    ingredients: ["pasta", "tomato", "cheese", "herbs", "oil"],
-    requiredIngredients: ["pasta"],
-    optionalIngredients: ["tomato", "cheese", "herbs", "vegetables"],
-    prepTime: 15,
-    difficulty: "easy",
-    tags: ["filling", "vegetarian", "comfort"],
-  },
-
-  // Dinner recipes
-  {
-    id: "stir-fry-vegetable",
-    name: "Vegetable Stir Fry",
-    category: "dinner",
-    ingredients: ["vegetables", "rice", "soy sauce", "oil", "garlic"],
-    requiredIngredients: ["vegetables"],
-    optionalIngredients: ["rice", "meat", "tofu", "ginger", "sesame"],
-    prepTime: 20,
-    difficulty: "medium",
-    tags: ["healthy", "versatile", "one-pan"],
-  },
-  {
-    id: "chicken-rice",
-    name: "Chicken & Rice",
-    category: "dinner",
-    ingredients: ["chicken", "rice", "vegetables", "broth", "spices"],
-    requiredIngredients: ["chicken", "rice"],
-    optionalIngredients: ["vegetables", "broth", "herbs"],
-    prepTime: 30,
-    difficulty: "medium",
-    tags: ["protein", "filling", "comfort"],
-  },
-  {
-    id: "soup-vegetable",
-    name: "Vegetable Soup",
-    category: "dinner",
-    ingredients: ["vegetables", "broth", "herbs", "beans"],
-    requiredIngredients: ["vegetables"],
-    optionalIngredients: ["broth", "beans", "pasta", "meat"],
-    prepTime: 25,
-    difficulty: "medium",
-    tags: ["healthy", "warming", "batch-cook"],
-  },
-
-  // Snacks
-  {
-    id: "fruit-snack",
-    name: "Fresh Fruit",
-    category: "snack",
-    ingredients: ["fruit"],
-    requiredIngredients: ["fruit"],
-    optionalIngredients: ["nuts", "yogurt", "honey"],
-    prepTime: 2,
-    difficulty: "easy",
-    tags: ["healthy", "quick", "natural"],
-  },
-  {
-    id: "cheese-crackers",
-    name: "Cheese & Crackers",
-    category: "snack",
-    ingredients: ["cheese", "crackers"],
-    requiredIngredients: ["cheese"],
-    optionalIngredients: ["crackers", "fruit", "nuts"],
-    prepTime: 3,
-    difficulty: "easy",
-    tags: ["protein", "satisfying", "quick"],
-  },
-];
-
-// Category mapping for food items
-const FOOD_CATEGORY_MAP: Record<string, string[]> = {
-  // Proteins
-  eggs: ["eggs", "egg"],
-  meat: ["chicken", "beef", "pork", "turkey", "ham", "bacon"],
-  fish: ["fish", "salmon", "tuna", "cod"],
-  cheese: ["cheese", "cheddar", "mozzarella", "parmesan"],
-  yogurt: ["yogurt", "greek yogurt"],
-  milk: ["milk", "dairy"],
-  tofu: ["tofu", "tempeh"],
-  beans: ["beans", "lentils", "chickpeas"],
-
-  // Vegetables
-  vegetables: [
-    "lettuce",
-    "spinach",
-    "kale",
-    "broccoli",
-    "carrots",
-    "tomato",
-    "cucumber",
-    "bell pepper",
-    "onion",
-    "garlic",
-    "mushroom",
-  ],
-  lettuce: ["lettuce", "greens", "spinach", "arugula"],
-  tomato: ["tomato", "tomatoes"],
-  carrots: ["carrots", "carrot"],
-  cucumber: ["cucumber"],
-
-  // Fruits
-  fruit: [
-    "apple",
-    "banana",
-    "orange",
-    "berry",
-    "strawberry",
-    "blueberry",
-    "grape",
-    "avocado",
-  ],
-  avocado: ["avocado"],
-
-  // Grains & Starches
-  bread: ["bread", "toast", "baguette", "rolls"],
-  pasta: ["pasta", "noodles", "spaghetti", "macaroni"],
-  rice: ["rice", "brown rice", "wild rice"],
-
-  // Pantry
-  oil: ["oil", "olive oil", "vegetable oil"],
-  herbs: ["herbs", "basil", "parsley", "cilantro", "oregano"],
-  spices: ["spices", "salt", "pepper", "paprika"],
-  nuts: ["nuts", "almonds", "walnuts", "peanuts"],
-  honey: ["honey", "maple syrup"],
-  butter: ["butter", "margarine"],
-};
-
-/**
- * Normalizes food item names for recipe matching
- */
-function normalizeIngredientName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-/**
- * Checks if a food item matches a recipe ingredient
- */
-function matchesIngredient(
-  foodItem: FoodItemWithUrgency,
-  ingredient: string
-): boolean {
-  const foodName = normalizeIngredientName(foodItem.name);
-  const ingredientName = normalizeIngredientName(ingredient);
-
-  // Direct name match
-  if (foodName.includes(ingredientName) || ingredientName.includes(foodName)) {
-    return true;
-  }
-
-  // Category-based matching
-  const categories = FOOD_CATEGORY_MAP[ingredientName] || [];
-  return categories.some((category) =>
-    foodName.includes(normalizeIngredientName(category))
-  );
-}
-
 /**
  * Calculates urgency score for a meal opportunity
  */
@@ -305,26 +69,21 @@ function calculateNutritionScore(ingredients: FoodItemWithUrgency[]): number {
   const categories = new Set<string>();
 
   ingredients.forEach((item) => {
-    const normalizedName = normalizeIngredientName(item.name);
-    Object.entries(FOOD_CATEGORY_MAP).forEach(([category, variations]) => {
-      if (variations.some((variation) => normalizedName.includes(variation))) {
-        categories.add(category);
-      }
-    });
+    ingredientGroupsForItem(item.name).forEach((group) => categories.add(group));
   });
 
   // Score based on nutritional diversity
   const proteinCategories = [
-    "eggs",
+    "egg",
     "meat",
     "fish",
     "cheese",
     "yogurt",
     "tofu",
-    "beans",
+    "bean",
   ];
-  const vegetableCategories = ["vegetables", "lettuce", "tomato", "carrots"];
-  const fruitCategories = ["fruit", "avocado"];
+  const vegetableCategories = ["vegetable", "lettuce"];
+  const fruitCategories = ["fruit"];
   const grainCategories = ["bread", "pasta", "rice"];
 
   let score = 0;
@@ -332,7 +91,7 @@ function calculateNutritionScore(ingredients: FoodItemWithUrgency[]): number {
   if (vegetableCategories.some((cat) => categories.has(cat))) score += 25;
   if (fruitCategories.some((cat) => categories.has(cat))) score += 20;
   if (grainCategories.some((cat) => categories.has(cat))) score += 20;
-  if (categories.has("herbs") || categories.has("spices")) score += 10;
+  if (categories.has("herb") || categories.has("spice")) score += 10;
 
   return Math.min(score, 100);
 }
@@ -361,91 +120,37 @@ function calculateWasteReduction(
   );
 }
 
-/**
- * Matches food items to recipe templates
- */
-function matchRecipe(
-  recipe: RecipeTemplate,
-  availableItems: FoodItemWithUrgency[]
-): {
-  matchedIngredients: FoodItemWithUrgency[];
-  matchScore: number;
-  hasRequired: boolean;
-} {
-  const matchedIngredients: FoodItemWithUrgency[] = [];
-  let requiredMatches = 0;
-  let totalMatches = 0;
-
-  // Check required ingredients
-  recipe.requiredIngredients.forEach((ingredient) => {
-    const matchedItem = availableItems.find((item) =>
-      matchesIngredient(item, ingredient)
-    );
-    if (matchedItem) {
-      matchedIngredients.push(matchedItem);
-      requiredMatches++;
-      totalMatches++;
-    }
-  });
-
-  // Check optional ingredients
-  recipe.optionalIngredients.forEach((ingredient) => {
-    const matchedItem = availableItems.find(
-      (item) =>
-        matchesIngredient(item, ingredient) &&
-        !matchedIngredients.includes(item)
-    );
-    if (matchedItem) {
-      matchedIngredients.push(matchedItem);
-      totalMatches++;
-    }
-  });
-
-  const hasRequired = requiredMatches === recipe.requiredIngredients.length;
-  const totalPossibleMatches =
-    recipe.requiredIngredients.length + recipe.optionalIngredients.length;
-  const matchScore =
-    totalPossibleMatches > 0 ? (totalMatches / totalPossibleMatches) * 100 : 0;
-
-  return { matchedIngredients, matchScore, hasRequired };
-}
-
 /**
  * Generates meal opportunities from available food items
  */
 export function generateMealOpportunities(
-  items: FoodItemWithUrgency[]
+  items: FoodItemWithUrgency[],
+  recipes: readonly Recipe[] = BUILT_IN_RECIPES
 ): MealOpportunity[] {
-  const opportunities: MealOpportunity[] = [];
-
-  RECIPE_TEMPLATES.forEach((recipe) => {
-    const { matchedIngredients, matchScore, hasRequired } = matchRecipe(
-      recipe,
-      items
-    );
-
-    // Only create opportunity if we have required ingredients and decent match
-    if (hasRequired && matchScore >= 30) {
-      const urgencyScore = calculateUrgencyScore(matchedIngredients);
-      const nutritionScore = calculateNutritionScore(matchedIngredients);
-      const wasteReduction = calculateWasteReduction(matchedIngredients, items);
+  const matches = rankRecipesForInventory(recipes, items, {
+    minCoverage: 1,
+    expiringOnly: false,
+  });
 
-      opportunities.push({
-        id: `${recipe.id}-${Date.now()}`,
-        type: recipe.category as MealOpportunity["type"],
-        title: recipe.name,
-        description: `Use ${matchedIngredients.length} available ingredient${
-          matchedIngredients.length !== 1 ? "s" : ""
-        }`,
-        ingredients: matchedIngredients,
-        urgencyScore,
-        estimatedPrepTime: recipe.prepTime,
-        difficulty: recipe.difficulty,
-        tags: [...recipe.tags],
-        nutritionScore,
-        wasteReduction,
-      });
-    }
+  const opportunities = matches.map(({ recipe, uses, missing }): MealOpportunity => {
+    const matchedIngredients = uses.map((u) => u.item);
+    return {
+      id: `${recipe.id}-${Date.now()}`,
+      recipeId: recipe.id,
+      type: recipe.mealType,
+      title: recipe.name,
+      description: `Use ${matchedIngredients.length} available ingredient${
+        matchedIngredients.length !== 1 ? "s" : ""
+      }`,
+      ingredients: matchedIngredients,
+      missingIngredients: missing.map((i) => i.name),
+      urgencyScore: calculateUrgencyScore(matchedIngredients),
+      estimatedPrepTime: recipe.prepMinutes,
+      difficulty: recipe.difficulty ?? "medium",
+      tags: [...recipe.tags],
+      nutritionScore: calculateNutritionScore(matchedIngredients),
+      wasteReduction: calculateWasteReduction(matchedIngredients, items),
+    };
   });
 
   // Sort by urgency score (prioritize expiring items) and match quality
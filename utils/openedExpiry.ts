@@ -0,0 +1,54 @@
+// utils/openedExpiry.ts
+import { lookupShelfLife } from "@/lib/shelfLife";
+import { FoodItem } from "@/lib/supabase";
+import { toLocalYmd } from "@/utils/localDate";
+
+type OpenableItem = Pick<
+  FoodItem,
+  "name" | "category" | "location" | "expiry_date" | "expiry_kind" | "opened_at"
+>;
+
+/** How many days the item keeps once opened, where it is stored now. */
+export function openedShelfLifeDays(
+  item: Pick<FoodItem, "name" | "category" | "location">
+): number {
+  return lookupShelfLife(item.name, item.category, {
+    location: item.location,
+    opened: true,
+  }).days;
+}
+
+/** Last day to use an opened item (`YYYY-MM-DD`), or null while it is sealed. */
+export function openedUseByDate(item: OpenableItem): string | null {
+  if (!item.opened_at) return null;
+  const opened = new Date(item.opened_at);
+  if (Number.isNaN(opened.getTime())) return null;
+  const useBy = new Date(
+    opened.getFullYear(),
+    opened.getMonth(),
+    opened.getDate() + openedShelfLifeDays(item)
+  );
+  return toLocalYmd(useBy);
+}
+
+/**
+ * The date the item actually goes off: the printed date, or the after-opening
+ * window when that comes first.
+ */
+export function effectiveExpiryDate(item: OpenableItem): string | undefined {
+  const printed = item.expiry_date?.slice(0, 10) || undefined;
+  const useBy = openedUseByDate(item);
+  if (!useBy) return printed;
+  return printed && printed <= useBy ? printed : useBy;
+}
+
+/**
+ * Copy of the item with `expiry_date` replaced by its effective expiry. When the
+ * after-opening window wins, that date is a use-by date whatever the label said.
+ */
+export function withEffectiveExpiry<T extends OpenableItem>(item: T): T {
+  if (!item.opened_at) return item;
+  const expiry_date = effectiveExpiryDate(item);
+  if (expiry_date === item.expiry_date?.slice(0, 10)) return { ...item, expiry_date };
+  return { ...item, expiry_date, expiry_kind: "use_by" };
+}
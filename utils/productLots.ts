@@ -0,0 +1,110 @@
+// utils/productLots.ts
+import { FoodItem } from "@/lib/supabase";
+import type { ItemUsage } from "@/services/foodItemsRemote";
+import { effectiveExpiryDate } from "@/utils/openedExpiry";
+import { normalizeFoodName } from "@/utils/normalizeFoodName";
+import { assertUsageQuantity, roundQuantity } from "@/utils/quantityLimits";
+
+type Lot = Pick<
+  FoodItem,
+  | "id"
+  | "name"
+  | "category"
+  | "location"
+  | "quantity"
+  | "unit"
+  | "expiry_date"
+  | "opened_at"
+  | "created_at"
+>;
+
+export type ProductGroup<T extends Lot> = {
+  /** {@link productLotKey}: the product's normalized name plus the unit. */
+  key: string;
+  name: string;
+  unit?: string;
+  totalQuantity: number;
+  /** Earliest-expiring first, the order {@link planFifoUsage} draws from them in. */
+  lots: T[];
+};
+
+function unitKey(unit?: string | null): string {
+  return (unit ?? "").trim().toLowerCase();
+}
+
+/** Lots only add up (and are drawn from together) when they share a unit. */
+export function productLotKey(item: Pick<FoodItem, "name" | "unit">): string {
+  return `${normalizeFoodName(item.name)}|${unitKey(item.unit)}`;
+}
+
+/**
+ * First in, first out: the lot that goes off first comes first (opened lots by
+ * their opened window), undated lots last, ties by when they were added.
+ */
+export function sortLotsFifo<T extends Lot>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => {
+    const ea = effectiveExpiryDate(a);
+    const eb = effectiveExpiryDate(b);
+    if (ea !== eb) {
+      if (!ea) return 1;
+      if (!eb) return -1;
+      return ea < eb ? -1 : 1;
+    }
+    return (a.created_at ?? "").localeCompare(b.created_at ?? "");
+  });
+}
+
+/**
+ * Splits `quantity` across the lots, earliest-expiring first. Lots in another
+ * unit than `item` are left alone. Throws when the lots don't hold enough.
+ */
+export function planFifoUsage<T extends Lot>(
+  item: T,
+  lots: T[],
+  quantity: number
+): ItemUsage[] {
+  const key = productLotKey(item);
+  const candidates = lots.filter(
+    (lot) => lot.id !== item.id && lot.quantity > 0 && productLotKey(lot) === key
+  );
+  const ordered = sortLotsFifo([item, ...candidates]);
+  const available = roundQuantity(ordered.reduce((sum, lot) => sum + lot.quantity, 0));
+  assertUsageQuantity(quantity, available);
+
+  const uses: ItemUsage[] = [];
+  let remaining = quantity;
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const take = roundQuantity(Math.min(lot.quantity, remaining));
+    if (take <= 0) continue;
+    uses.push({ itemId: lot.id, quantity: take });
+    remaining = roundQuantity(remaining - take);
+  }
+  return uses;
+}
+
+/** Groups rows into products with their lots and total on hand. */
+export function groupProductLots<T extends Lot>(items: T[]): ProductGroup<T>[] {
+  const byKey = new Map<string, ProductGroup<T>>();
+  for (const item of items) {
+    if (item.quantity <= 0) continue;
+    const key = productLotKey(item);
+    const group = byKey.get(key);
+    if (group) {
+      group.totalQuantity = roundQuantity(group.totalQuantity + item.quantity);
+      group.lots.push(item);
+    } else {
+      byKey.set(key, {
+        key,
+        name: item.name,
+        unit: item.unit,
+        totalQuantity: item.quantity,
+        lots: [item],
+      });
+    }
+  }
+  return Array.from(byKey.values()).map((group) => ({
+    ...group,
+    lots: sortLotsFifo(group.lots),
+  }));
+}
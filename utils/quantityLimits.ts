@@ -1,6 +1,19 @@
-/** Max whole-number quantity users can enter in inventory, modals, and add/edit. */
+/** Max quantity users can enter in inventory, modals, and add/edit. */
 export const MAX_INVENTORY_QUANTITY = 999;
 
+/** Inventory quantities keep up to three decimals (`numeric(10,3)`): 0.5 kg, 0.25 l. */
+export const QUANTITY_DECIMALS = 3;
+
+const QUANTITY_SCALE = 10 ** QUANTITY_DECIMALS;
+
+/** Smallest amount that can be stored or logged. */
+export const MIN_QUANTITY = 1 / QUANTITY_SCALE;
+
+/** Rounds to the stored precision, dropping float noise (0.1 + 0.2 → 0.3). */
+export function roundQuantity(n: number): number {
+  return Math.round(n * QUANTITY_SCALE) / QUANTITY_SCALE;
+}
+
 export function clampIntegerQuantity(
   n: number,
   min: number,
@@ -26,6 +39,39 @@ export function parseDigitsToClampedQuantity(
   return clampIntegerQuantity(n, min, max);
 }
 
+/**
+ * Typed decimal ("0.5", "0,5"), rounded to the stored precision and clamped to
+ * [min, max]. Unparseable input gives min.
+ */
+export function parseDecimalQuantity(raw: string, min: number, max: number): number {
+  const n = Number.parseFloat(raw.replace(",", ".").replace(/[^\d.]/g, ""));
+  if (!Number.isFinite(n)) return min;
+  return Math.min(max, Math.max(min, roundQuantity(n)));
+}
+
+/**
+ * Inventory quantity typing: digits and one decimal point (a comma counts as one),
+ * at most {@link QUANTITY_DECIMALS} decimals, capped at `max` (MAX by default;
+ * more when entering in a smaller unit, e.g. ml of a 2 L bottle). A trailing
+ * point is kept so "0." can become "0.5". Allows empty string while editing.
+ */
+export function sanitizeDecimalQuantityInputString(
+  raw: string,
+  options?: { allowEmpty?: boolean; max?: number }
+): string {
+  const max = options?.max ?? MAX_INVENTORY_QUANTITY;
+  const cleaned = raw.replace(",", ".").replace(/[^\d.]/g, "");
+  const [whole = "", ...rest] = cleaned.split(".");
+  const hasPoint = rest.length > 0;
+  const decimals = rest.join("").slice(0, QUANTITY_DECIMALS);
+  if (whole === "" && !hasPoint) {
+    return options?.allowEmpty ? "" : "1";
+  }
+  const wholeNum = parseInt(whole || "0", 10);
+  if (wholeNum >= max) return String(max);
+  return hasPoint ? `${wholeNum}.${decimals}` : String(wholeNum);
+}
+
 /**
  * Add/edit screen: sanitize free typing; integers only, clamped to 1..MAX.
  * Allows empty string while editing (caller may normalize on blur).
@@ -43,42 +89,42 @@ export function sanitizeQuantityInputString(
   return String(clampIntegerQuantity(n, 1, MAX_INVENTORY_QUANTITY));
 }
 
-function isWholeNumber(n: number): boolean {
-  return Number.isFinite(n) && Math.floor(n) === n;
+function hasStoredPrecision(n: number): boolean {
+  return Number.isFinite(n) && Math.abs(roundQuantity(n) - n) < 1e-9;
 }
 
-/** `food_items.quantity`: 0 (depleted) or 1..MAX — use in updates. */
+/** `food_items.quantity`: 0 (depleted) up to MAX, three decimals — use in updates. */
 export function assertStoredQuantity(q: number): void {
-  if (!isWholeNumber(q)) {
-    throw new Error("Quantity must be a whole number");
+  if (!hasStoredPrecision(q)) {
+    throw new Error(`Quantity can have at most ${QUANTITY_DECIMALS} decimals`);
   }
   if (q < 0 || q > MAX_INVENTORY_QUANTITY) {
     throw new Error(`Quantity must be between 0 and ${MAX_INVENTORY_QUANTITY}`);
   }
 }
 
-/** New inventory row: 1..MAX */
+/** New inventory row: more than 0, up to MAX. */
 export function assertNewItemQuantity(q: number): void {
-  if (!isWholeNumber(q)) {
-    throw new Error("Quantity must be a whole number");
+  if (!hasStoredPrecision(q)) {
+    throw new Error(`Quantity can have at most ${QUANTITY_DECIMALS} decimals`);
   }
-  if (q < 1 || q > MAX_INVENTORY_QUANTITY) {
-    throw new Error(`Quantity must be between 1 and ${MAX_INVENTORY_QUANTITY}`);
+  if (q < MIN_QUANTITY || q > MAX_INVENTORY_QUANTITY) {
+    throw new Error(`Quantity must be more than 0 and at most ${MAX_INVENTORY_QUANTITY}`);
   }
 }
 
 /**
- * Single `usage_logs` row: 1..min(MAX, available stock).
+ * Single `usage_logs` row: more than 0, up to min(MAX, available stock).
  * Keeps service layer aligned with app UI caps.
  */
 export function assertUsageQuantity(quantity: number, availableStock: number): void {
-  if (!isWholeNumber(quantity)) {
-    throw new Error("Quantity must be a whole number");
+  if (!hasStoredPrecision(quantity)) {
+    throw new Error(`Quantity can have at most ${QUANTITY_DECIMALS} decimals`);
   }
-  if (quantity < 1) {
-    throw new Error("Quantity must be at least 1");
+  if (quantity < MIN_QUANTITY) {
+    throw new Error("Quantity must be more than 0");
   }
-  const cap = Math.min(MAX_INVENTORY_QUANTITY, Math.max(0, availableStock));
+  const cap = roundQuantity(Math.min(MAX_INVENTORY_QUANTITY, Math.max(0, availableStock)));
   if (quantity > cap) {
     throw new Error(`Quantity cannot exceed ${cap}`);
   }
@@ -0,0 +1,348 @@
+// utils/recipeImport.ts
+import { MealType, Recipe, RecipeIngredient } from "@/lib/recipes";
+
+/**
+ * Parses recipes from either the app's own JSON shape (`Recipe`, without `source`)
+ * or Schema.org `Recipe` JSON-LD as published by most recipe sites. Accepts a
+ * single object, an array, an `@graph` wrapper, or a whole HTML page.
+ */
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25,
+  "½": 0.5,
+  "¾": 0.75,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅛": 0.125,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  g: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  l: "l",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  cup: "cup",
+  cups: "cup",
+  tbsp: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  clove: "clove",
+  cloves: "clove",
+  slice: "slices",
+  slices: "slices",
+  can: "can",
+  cans: "can",
+  pinch: "pinch",
+  handful: "handful",
+  bunch: "bunch",
+};
+
+const MEAL_TYPES: MealType[] = ["breakfast", "lunch", "dinner", "snack"];
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function cleanText(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+function parseAmount(token: string): number | undefined {
+  if (UNICODE_FRACTIONS[token] != null) return UNICODE_FRACTIONS[token];
+  const mixed = token.match(/^(\d+)([¼½¾⅓⅔⅛])$/);
+  if (mixed) return Number(mixed[1]) + UNICODE_FRACTIONS[mixed[2]!]!;
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction && Number(fraction[2]) > 0) return Number(fraction[1]) / Number(fraction[2]);
+  const n = Number(token.replace(",", "."));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Splits an ingredient line like "1 1/2 cups chopped tomatoes, drained" into
+ * quantity, unit and a matchable name ("chopped tomatoes").
+ */
+export function parseIngredientLine(line: string): RecipeIngredient {
+  const text = cleanText(line);
+  const optional = /\(optional\)|\boptional\b/i.test(text);
+  let rest = text
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\boptional\b/i, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  let quantity: number | undefined;
+  const tokens = rest.split(" ");
+  while (tokens.length > 1) {
+    const amount = parseAmount(tokens[0]!);
+    if (amount == null) break;
+    quantity = (quantity ?? 0) + amount;
+    tokens.shift();
+  }
+
+  let unit: string | undefined;
+  if (quantity != null && tokens.length > 1) {
+    const attached = tokens[0]!.toLowerCase().replace(/\.$/, "");
+    if (UNIT_ALIASES[attached]) {
+      unit = UNIT_ALIASES[attached];
+      tokens.shift();
+      if (tokens[0]?.toLowerCase() === "of") tokens.shift();
+    }
+  } else if (tokens.length > 0) {
+    // "200g flour"
+    const glued = tokens[0]!.match(/^(\d+(?:[.,]\d+)?)([a-z]+)$/i);
+    if (glued && UNIT_ALIASES[glued[2]!.toLowerCase()]) {
+      quantity = parseAmount(glued[1]!);
+      unit = UNIT_ALIASES[glued[2]!.toLowerCase()];
+      tokens.shift();
+    }
+  }
+
+  rest = tokens.join(" ");
+  const name = rest.split(/,| - | for /)[0]!.trim().toLowerCase() || text.toLowerCase();
+  return { name, quantity, unit, optional: optional || undefined, text };
+}
+
+/** ISO-8601 duration ("PT1H30M") in minutes. */
+export function parseIsoDurationMinutes(value: unknown): number | undefined {
+  if (typeof value !== "string") return undefined;
+  const m = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!m) return undefined;
+  const [, d, h, min, s] = m;
+  const total =
+    Number(d ?? 0) * 24 * 60 + Number(h ?? 0) * 60 + Number(min ?? 0) + Number(s ?? 0) / 60;
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+function parseInstructions(value: unknown): string[] {
+  const steps: string[] = [];
+  const visit = (node: unknown) => {
+    if (typeof node === "string") {
+      node
+        .split(/\n+/)
+        .map(cleanText)
+        .filter(Boolean)
+        .forEach((s) => steps.push(s));
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (node && typeof node === "object") {
+      const obj = node as Record<string, unknown>;
+      if (obj.itemListElement) visit(obj.itemListElement);
+      else if (obj.text) visit(obj.text);
+      else if (obj.name) visit(obj.name);
+    }
+  };
+  visit(value);
+  return steps;
+}
+
+function parseMealType(...hints: unknown[]): MealType {
+  const words = hints
+    .flatMap((h) => asArray(h as string | string[]))
+    .filter((h): h is string => typeof h === "string")
+    .join(" ")
+    .toLowerCase();
+  const direct = MEAL_TYPES.find((t) => words.includes(t));
+  if (direct) return direct;
+  if (/brunch|morning/.test(words)) return "breakfast";
+  if (/main|supper|entr[eé]e/.test(words)) return "dinner";
+  if (/appetizer|dessert|side/.test(words)) return "snack";
+  return "dinner";
+}
+
+function parseServings(value: unknown): number | undefined {
+  for (const v of asArray(value as unknown)) {
+    const n = typeof v === "number" ? v : Number(String(v).match(/\d+/)?.[0]);
+    if (Number.isFinite(n) && n > 0) return n;
+  }
+  return undefined;
+}
+
+function parseKeywords(value: unknown): string[] {
+  const raw = asArray(value as string | string[]).filter((v) => typeof v === "string");
+  return [...new Set(raw.flatMap((k) => k.split(",")).map((k) => k.trim().toLowerCase()))]
+    .filter(Boolean)
+    .slice(0, 10);
+}
+
+function isType(node: Record<string, unknown>, type: string): boolean {
+  return asArray(node["@type"] as string | string[]).some(
+    (t) => typeof t === "string" && t.toLowerCase() === type.toLowerCase()
+  );
+}
+
+function fromSchemaOrg(node: Record<string, unknown>, sourceUrl?: string): Recipe {
+  const name = cleanText(node.name);
+  if (!name) throw new Error("Recipe has no name.");
+  const ingredients = asArray(
+    (node.recipeIngredient ?? node.ingredients) as string | string[]
+  )
+    .filter((line) => typeof line === "string" && cleanText(line))
+    .map(parseIngredientLine);
+  if (ingredients.length === 0) throw new Error(`"${name}" has no ingredients.`);
+
+  const url = typeof node.url === "string" ? node.url : sourceUrl;
+  const summedTime =
+    (parseIsoDurationMinutes(node.prepTime) ?? 0) + (parseIsoDurationMinutes(node.cookTime) ?? 0);
+  return {
+    id: `imported-${slugify(name)}`,
+    name,
+    description: cleanText(node.description) || undefined,
+    mealType: parseMealType(node.recipeCategory, node.keywords, name),
+    prepMinutes: parseIsoDurationMinutes(node.totalTime) ?? (summedTime || 30),
+    servings: parseServings(node.recipeYield),
+    ingredients,
+    instructions: parseInstructions(node.recipeInstructions),
+    tags: parseKeywords(node.keywords),
+    source: "imported",
+    sourceUrl: url,
+  };
+}
+
+function fromNative(node: Record<string, unknown>, sourceUrl?: string): Recipe {
+  const name = cleanText(node.name);
+  if (!name) throw new Error("Recipe has no name.");
+  const ingredients = asArray(node.ingredients as unknown[])
+    .map((i): RecipeIngredient | null => {
+      if (typeof i === "string") return parseIngredientLine(i);
+      if (!i || typeof i !== "object") return null;
+      const obj = i as Record<string, unknown>;
+      const ingredientName = cleanText(obj.name).toLowerCase();
+      if (!ingredientName) return null;
+      return {
+        name: ingredientName,
+        quantity: typeof obj.quantity === "number" && obj.quantity > 0 ? obj.quantity : undefined,
+        unit: typeof obj.unit === "string" ? obj.unit : undefined,
+        optional: obj.optional === true || undefined,
+        text: typeof obj.text === "string" ? obj.text : undefined,
+      };
+    })
+    .filter((i): i is RecipeIngredient => i != null);
+  if (ingredients.length === 0) throw new Error(`"${name}" has no ingredients.`);
+
+  const mealType = MEAL_TYPES.includes(node.mealType as MealType)
+    ? (node.mealType as MealType)
+    : parseMealType(node.tags, name);
+  const prepMinutes = Number(node.prepMinutes);
+  return {
+    id: `imported-${slugify(typeof node.id === "string" && node.id ? node.id : name)}`,
+    name,
+    description: cleanText(node.description) || undefined,
+    mealType,
+    prepMinutes: Number.isFinite(prepMinutes) && prepMinutes > 0 ? prepMinutes : 30,
+    servings: parseServings(node.servings),
+    difficulty: ["easy", "medium", "hard"].includes(node.difficulty as string)
+      ? (node.difficulty as Recipe["difficulty"])
+      : undefined,
+    ingredients,
+    instructions: parseInstructions(node.instructions),
+    tags: parseKeywords(node.tags),
+    source: "imported",
+    sourceUrl: typeof node.sourceUrl === "string" ? node.sourceUrl : sourceUrl,
+  };
+}
+
+/** Every Schema.org Recipe (or native recipe) object found in parsed JSON. */
+function collectRecipeNodes(json: unknown): Record<string, unknown>[] {
+  const found: Record<string, unknown>[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+    const obj = node as Record<string, unknown>;
+    if (isType(obj, "Recipe") || (!obj["@type"] && obj.name && obj.ingredients)) {
+      found.push(obj);
+      return;
+    }
+    if (obj["@graph"]) visit(obj["@graph"]);
+    if (obj.mainEntity) visit(obj.mainEntity);
+    if (obj.recipes) visit(obj.recipes);
+  };
+  visit(json);
+  return found;
+}
+
+/** JSON-LD blocks embedded in a recipe web page. */
+function extractJsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const re = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(html))) {
+    try {
+      blocks.push(JSON.parse(match[1]!.trim()));
+    } catch {
+      // Sites sometimes ship broken JSON-LD next to a valid block; skip it.
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Parses pasted JSON or a fetched HTML page into recipes. Throws a user-facing
+ * error when nothing usable is found.
+ */
+export function parseRecipes(input: string, sourceUrl?: string): Recipe[] {
+  const trimmed = input.trim();
+  if (!trimmed) throw new Error("Nothing to import.");
+
+  let roots: unknown[];
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      roots = [JSON.parse(trimmed)];
+    } catch {
+      throw new Error("That doesn't look like valid recipe JSON.");
+    }
+  } else {
+    roots = extractJsonLdBlocks(trimmed);
+  }
+
+  const nodes = roots.flatMap(collectRecipeNodes);
+  if (nodes.length === 0) throw new Error("No recipe found.");
+  return nodes.map((node) =>
+    node["@type"] ? fromSchemaOrg(node, sourceUrl) : fromNative(node, sourceUrl)
+  );
+}
@@ -0,0 +1,245 @@
+// utils/recipeMatching.ts
+import { Recipe, RecipeIngredient } from "@/lib/recipes";
+import type { FoodItemWithUrgency } from "@/services/foodItems";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+import { UrgencyLevel } from "@/utils/urgencyUtils";
+
+/** Generic recipe words ("vegetables", "fruit") and the foods that satisfy them. */
+const INGREDIENT_GROUPS_RAW: Record<string, string[]> = {
+  // Proteins
+  eggs: ["egg"],
+  meat: ["chicken", "beef", "pork", "turkey", "ham", "bacon", "sausage", "mince"],
+  fish: ["fish", "salmon", "tuna", "cod", "prawn", "shrimp"],
+  cheese: ["cheese", "cheddar", "mozzarella", "parmesan", "feta", "halloumi"],
+  yogurt: ["yogurt", "yoghurt", "skyr"],
+  milk: ["milk"],
+  tofu: ["tofu", "tempeh"],
+  beans: ["bean", "lentil", "chickpea"],
+
+  // Vegetables
+  vegetables: [
+    "lettuce",
+    "spinach",
+    "kale",
+    "broccoli",
+    "carrot",
+    "tomato",
+    "cucumber",
+    "pepper",
+    "onion",
+    "mushroom",
+    "zucchini",
+    "courgette",
+    "cabbage",
+    "cauliflower",
+    "pea",
+    "green bean",
+    "leek",
+    "celery",
+    "asparagus",
+  ],
+  lettuce: ["lettuce", "greens", "spinach", "arugula", "rocket"],
+
+  // Fruits
+  fruit: [
+    "apple",
+    "banana",
+    "orange",
+    "berry",
+    "strawberry",
+    "blueberry",
+    "raspberry",
+    "grape",
+    "pear",
+    "peach",
+    "plum",
+    "mango",
+    "kiwi",
+    "melon",
+  ],
+
+  // Grains & starches
+  bread: ["bread", "toast", "baguette", "roll", "bagel", "pita"],
+  pasta: ["pasta", "noodle", "spaghetti", "macaroni", "penne", "fusilli"],
+  rice: ["rice"],
+
+  // Pantry
+  herbs: ["herb", "basil", "parsley", "cilantro", "coriander", "oregano", "dill", "mint"],
+  spices: ["spice", "salt", "paprika", "cumin"],
+  nuts: ["nut", "almond", "walnut", "peanut", "cashew", "hazelnut"],
+  honey: ["honey", "maple syrup"],
+  butter: ["butter", "margarine"],
+  broth: ["broth", "stock"],
+};
+
+function tokensOf(key: string): string[] {
+  return key.split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Grouping keys, so "eggs" and "Egg" land on the same entry. */
+const INGREDIENT_GROUPS: Record<string, string[][]> = Object.fromEntries(
+  Object.entries(INGREDIENT_GROUPS_RAW).map(([group, members]) => [
+    normalizeFoodNameForGrouping(group),
+    members.map((m) => tokensOf(normalizeFoodNameForGrouping(m))),
+  ])
+);
+
+function containsTokens(haystack: string[], needle: string[]): boolean {
+  return needle.length > 0 && needle.every((t) => haystack.includes(t));
+}
+
+/**
+ * Whether an inventory item can stand in for a recipe ingredient. Both names go
+ * through `normalizeFoodNameForGrouping` ("Cherry Tomatoes 250g" ≈ "tomato"); one
+ * name's words must all appear in the other, or the ingredient is a generic group.
+ */
+export function ingredientMatchesItem(ingredientName: string, itemName: string): boolean {
+  const ingredientTokens = tokensOf(normalizeFoodNameForGrouping(ingredientName));
+  const itemTokens = tokensOf(normalizeFoodNameForGrouping(itemName));
+  if (ingredientTokens.length === 0 || itemTokens.length === 0) return false;
+  if (
+    containsTokens(itemTokens, ingredientTokens) ||
+    containsTokens(ingredientTokens, itemTokens)
+  ) {
+    return true;
+  }
+  const members = INGREDIENT_GROUPS[ingredientTokens.join(" ")];
+  return members?.some((member) => containsTokens(itemTokens, member)) ?? false;
+}
+
+/** Generic groups an item belongs to (used for the nutrition-diversity score). */
+export function ingredientGroupsForItem(itemName: string): string[] {
+  const itemTokens = tokensOf(normalizeFoodNameForGrouping(itemName));
+  return Object.entries(INGREDIENT_GROUPS)
+    .filter(([, members]) => members.some((member) => containsTokens(itemTokens, member)))
+    .map(([group]) => group);
+}
+
+/** How much using up one item is worth, by how soon it expires. */
+export const URGENCY_WEIGHTS: Record<UrgencyLevel, number> = {
+  critical: 1,
+  warning: 0.7,
+  soon: 0.4,
+  safe: 0.1,
+};
+
+/** Units that just mean "how many" (an empty unit counts pieces too). */
+const COUNT_UNITS = new Set(["", "pcs", "pc", "piece", "pieces", "item", "items"]);
+
+/** Optional ingredients count for half. */
+const OPTIONAL_WEIGHT = 0.5;
+
+export type RecipeIngredientUse = {
+  ingredient: RecipeIngredient;
+  item: FoodItemWithUrgency;
+};
+
+export type RecipeMatch = {
+  recipe: Recipe;
+  /** Inventory item picked for each matched ingredient (most urgent first). */
+  uses: RecipeIngredientUse[];
+  /** Required ingredients with no matching item. */
+  missing: RecipeIngredient[];
+  /** Share of required ingredients on hand, 0–1. */
+  coverage: number;
+  /** Used items expiring within a week. */
+  expiringCount: number;
+  score: number;
+};
+
+function daysLeft(item: FoodItemWithUrgency): number {
+  const days = item.urgency.daysUntilExpiry;
+  return Number.isFinite(days) ? days : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Assign inventory items to a recipe's ingredients. Each item is used once, and
+ * the soonest-expiring candidate wins. Items past a use-by date are never
+ * suggested; past-best-before ones are, and go first.
+ */
+export function matchRecipe(recipe: Recipe, items: FoodItemWithUrgency[]): RecipeMatch {
+  const usable = items
+    .filter((it) => it.quantity > 0 && !it.urgency.isExpired)
+    .sort((a, b) => daysLeft(a) - daysLeft(b));
+  const taken = new Set<string>();
+  const uses: RecipeIngredientUse[] = [];
+  const missing: RecipeIngredient[] = [];
+
+  // Required first, so optional ingredients can't claim the items they need.
+  const ordered = [...recipe.ingredients].sort(
+    (a, b) => Number(Boolean(a.optional)) - Number(Boolean(b.optional))
+  );
+  for (const ingredient of ordered) {
+    const item = usable.find(
+      (it) => !taken.has(it.id) && ingredientMatchesItem(ingredient.name, it.name)
+    );
+    if (item) {
+      taken.add(item.id);
+      uses.push({ ingredient, item });
+    } else if (!ingredient.optional) {
+      missing.push(ingredient);
+    }
+  }
+
+  const required = recipe.ingredients.filter((i) => !i.optional).length;
+  const coverage =
+    required === 0 ? (uses.length > 0 ? 1 : 0) : (required - missing.length) / required;
+  const urgencyPoints = uses.reduce(
+    (sum, { ingredient, item }) =>
+      sum + URGENCY_WEIGHTS[item.urgency.level] * (ingredient.optional ? OPTIONAL_WEIGHT : 1),
+    0
+  );
+
+  return {
+    recipe,
+    uses,
+    missing,
+    coverage,
+    expiringCount: uses.filter(({ item }) => item.urgency.level !== "safe").length,
+    score: Math.round(urgencyPoints * coverage * 100) / 100,
+  };
+}
+
+/**
+ * Recipes worth cooking now, best first: weighted by how urgent the used items
+ * are and how many required ingredients are on hand.
+ */
+export function rankRecipesForInventory(
+  recipes: readonly Recipe[],
+  items: FoodItemWithUrgency[],
+  options?: { minCoverage?: number; expiringOnly?: boolean }
+): RecipeMatch[] {
+  const minCoverage = options?.minCoverage ?? 0.5;
+  const expiringOnly = options?.expiringOnly ?? true;
+
+  return recipes
+    .map((recipe) => matchRecipe(recipe, items))
+    .filter(
+      (m) =>
+        m.uses.length > 0 &&
+        m.coverage >= minCoverage &&
+        (!expiringOnly || m.expiringCount > 0)
+    )
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.coverage - a.coverage ||
+        a.recipe.prepMinutes - b.recipe.prepMinutes
+    );
+}
+
+/**
+ * Starting quantity for "I cooked this": the recipe amount when it's in the item's
+ * own unit, otherwise one unit of the item. Never more than is in stock.
+ */
+export function suggestedUsageQuantity(
+  ingredient: RecipeIngredient,
+  item: FoodItemWithUrgency
+): number {
+  const itemUnit = (item.unit ?? "").trim().toLowerCase();
+  const ingredientUnit = (ingredient.unit ?? "").trim().toLowerCase();
+  const sameUnit =
+    itemUnit === ingredientUnit || (COUNT_UNITS.has(itemUnit) && COUNT_UNITS.has(ingredientUnit));
+  const wanted = sameUnit && ingredient.quantity ? Math.ceil(ingredient.quantity) : 1;
+  return Math.max(0, Math.min(item.quantity, wanted));
+}
@@ -0,0 +1,182 @@
+// utils/reportRange.ts
+
+export type ReportRangePreset = "all" | "7d" | "30d" | "90d" | "month" | "custom";
+
+/** Local days from `start` (inclusive) to `end` (exclusive); no start for all time. */
+export type ReportRange = {
+  preset: ReportRangePreset;
+  start: Date | null;
+  end: Date;
+  label: string;
+};
+
+/** One week of a trend series; `date` is the Monday it starts on (`YYYY-MM-DD`). */
+export type WeeklyBucket = {
+  date: string;
+  count: number;
+  value: number;
+};
+
+export const REPORT_RANGE_PRESETS: { preset: ReportRangePreset; label: string }[] = [
+  { preset: "all", label: "All" },
+  { preset: "7d", label: "7D" },
+  { preset: "30d", label: "30D" },
+  { preset: "90d", label: "90D" },
+  { preset: "month", label: "Month" },
+  { preset: "custom", label: "Custom" },
+];
+
+/** Weeks shown for the all-time trend. */
+const ALL_TIME_TREND_WEEKS = 12;
+
+const PRESET_DAYS: Partial<Record<ReportRangePreset, number>> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+function toLocalYmd(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+/** "Oct 2026" */
+export function monthLabel(d: Date): string {
+  return `${MONTH_LABELS[d.getMonth()]} ${d.getFullYear()}`;
+}
+
+/** "12 Oct" */
+export function shortDayLabel(d: Date): string {
+  return `${d.getDate()} ${MONTH_LABELS[d.getMonth()]}`;
+}
+
+function monthRange(month: Date): ReportRange {
+  const start = new Date(month.getFullYear(), month.getMonth(), 1);
+  return {
+    preset: "month",
+    start,
+    end: new Date(month.getFullYear(), month.getMonth() + 1, 1),
+    label: monthLabel(start),
+  };
+}
+
+/**
+ * The range a preset covers as of `today`. `month` picks the calendar month
+ * (this one by default); `from` / `to` are the inclusive days of a custom range.
+ */
+export function reportRange(
+  preset: ReportRangePreset,
+  options: { today?: Date; month?: Date; from?: Date; to?: Date } = {}
+): ReportRange {
+  const today = options.today ?? new Date();
+  const tomorrow = addDays(startOfDay(today), 1);
+  if (preset === "month") return monthRange(options.month ?? today);
+  if (preset === "custom") {
+    let from = startOfDay(options.from ?? today);
+    let to = startOfDay(options.to ?? today);
+    if (from > to) [from, to] = [to, from];
+    return {
+      preset,
+      start: from,
+      end: addDays(to, 1),
+      label: `${shortDayLabel(from)} – ${shortDayLabel(to)}`,
+    };
+  }
+  const days = PRESET_DAYS[preset];
+  if (!days) return { preset: "all", start: null, end: tomorrow, label: "All time" };
+  return { preset, start: addDays(tomorrow, -days), end: tomorrow, label: `Last ${days} days` };
+}
+
+/** The period a range is compared with: the month before, or as many days just before. */
+export function previousReportRange(range: ReportRange): ReportRange | null {
+  if (!range.start) return null;
+  if (range.preset === "month") {
+    return monthRange(new Date(range.start.getFullYear(), range.start.getMonth() - 1, 1));
+  }
+  const days = Math.round((range.end.getTime() - range.start.getTime()) / 86400000);
+  const start = addDays(range.start, -days);
+  return {
+    preset: range.preset,
+    start,
+    end: range.start,
+    label: `previous ${days} days`,
+  };
+}
+
+export function isInReportRange(iso: string, range: ReportRange): boolean {
+  const t = new Date(iso).getTime();
+  if (Number.isNaN(t)) return false;
+  return (!range.start || t >= range.start.getTime()) && t < range.end.getTime();
+}
+
+/** Monday of the week `d` falls in. */
+function weekStart(d: Date): Date {
+  const day = startOfDay(d);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+/**
+ * Weekly totals across the range (the last {@link ALL_TIME_TREND_WEEKS} weeks
+ * for all time), oldest first, empty weeks included. `count` lets one event stand
+ * for several (already aggregated by day).
+ */
+export function weeklyTrend(
+  events: { at: string; value: number; count?: number }[],
+  range: ReportRange
+): WeeklyBucket[] {
+  const last = weekStart(addDays(range.end, -1));
+  const first = range.start
+    ? weekStart(range.start)
+    : addDays(last, -7 * (ALL_TIME_TREND_WEEKS - 1));
+  const buckets = new Map<string, WeeklyBucket>();
+  for (let w = first; w <= last; w = addDays(w, 7)) {
+    const date = toLocalYmd(w);
+    buckets.set(date, { date, count: 0, value: 0 });
+  }
+  for (const e of events) {
+    const at = new Date(e.at);
+    if (Number.isNaN(at.getTime()) || !isInReportRange(e.at, range)) continue;
+    const bucket = buckets.get(toLocalYmd(weekStart(at)));
+    if (!bucket) continue;
+    bucket.count += e.count ?? 1;
+    bucket.value = Math.round((bucket.value + e.value) * 100) / 100;
+  }
+  return [...buckets.values()];
+}
+
+/** Whole-percent change from `previous`; null when there's nothing to compare with. */
+export function percentChange(current: number, previous: number): number | null {
+  if (!(previous > 0)) return null;
+  return Math.round((100 * (current - previous)) / previous);
+}
+
+/** "▲12%", "▼5%" or "no change". */
+export function formatPercentChange(pct: number): string {
+  if (pct === 0) return "no change";
+  return `${pct > 0 ? "▲" : "▼"}${Math.abs(pct)}%`;
+}
@@ -0,0 +1,138 @@
+// utils/shoppingSuggestions.ts
+import { FoodItem, ParLevel } from "@/lib/supabase";
+import type { UsageHistoryRow } from "@/services/insightsReportData";
+import { formatQuantityWithUnit } from "@/utils/formatQuantityUnit";
+import { normalizeFoodNameForGrouping } from "@/utils/normalizeFoodName";
+
+/** Days of stock a shopping trip should cover. */
+export const SUGGESTION_HORIZON_DAYS = 7;
+
+/** A product needs at least this many `used` logs before its rate is trusted. */
+const MIN_USAGE_EVENTS = 2;
+
+/** Shortest window a usage rate is averaged over, so one busy week doesn't spike it. */
+const MIN_USAGE_SPAN_DAYS = 7;
+
+export type ShoppingSuggestion = {
+  /** `normalizeFoodNameForGrouping` key shared by the history, par level and stock. */
+  key: string;
+  name: string;
+  category: string | null;
+  unit: string | null;
+  /** Whole units to buy. */
+  quantity: number;
+  onHand: number;
+  /** e.g. "You usually use 2 L every 5 days; you have 0.5 L left". */
+  reason: string;
+  priority: "high" | "medium";
+  /** Days the current stock lasts at the usual rate; null without history. */
+  daysLeft: number | null;
+};
+
+function sameUnit(a?: string | null, b?: string | null): boolean {
+  const norm = (u?: string | null) => (u || "pcs").trim().toLowerCase();
+  return norm(a) === norm(b);
+}
+
+function ymd(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/** Unexpired stock per grouping key, in the given unit. */
+function onHandFor(key: string, unit: string | null, items: FoodItem[], today: string): number {
+  let total = 0;
+  for (const item of items) {
+    if (!(item.quantity > 0)) continue;
+    if (item.expiry_date && item.expiry_date < today) continue;
+    if (!sameUnit(item.unit, unit)) continue;
+    if (normalizeFoodNameForGrouping(item.normalized_name || item.name) !== key) continue;
+    total += item.quantity;
+  }
+  return total;
+}
+
+/**
+ * Proposes shopping list entries from par levels (minimum stock) and recent
+ * consumption. A product is suggested when it's below its par level, or when
+ * stock won't last {@link SUGGESTION_HORIZON_DAYS} at the usual rate; the
+ * quantity tops it up to whichever target is higher.
+ */
+export function suggestShoppingItems({
+  history,
+  items,
+  parLevels,
+  now = new Date(),
+  horizonDays = SUGGESTION_HORIZON_DAYS,
+}: {
+  history: UsageHistoryRow[];
+  items: FoodItem[];
+  parLevels: ParLevel[];
+  now?: Date;
+  horizonDays?: number;
+}): ShoppingSuggestion[] {
+  const today = ymd(now);
+  const historyByKey = new Map(history.map((h) => [h.key, h]));
+  const parByKey = new Map(parLevels.map((p) => [p.group_key, p]));
+  const keys = new Set([...historyByKey.keys(), ...parByKey.keys()]);
+
+  const out: ShoppingSuggestion[] = [];
+  for (const key of keys) {
+    const par = parByKey.get(key);
+    const usage = historyByKey.get(key);
+    const unit = par?.unit || usage?.unit || null;
+    const onHand = onHandFor(key, unit, items, today);
+    const fmt = (q: number) => formatQuantityWithUnit(round1(q), unit ?? undefined);
+
+    let target = par ? par.quantity : 0;
+    let daysLeft: number | null = null;
+    let usageReason: string | null = null;
+
+    // Only trust a rate measured in the same unit the stock is counted in.
+    if (usage && usage.events >= MIN_USAGE_EVENTS && sameUnit(usage.unit, unit)) {
+      const spanDays = Math.max(
+        MIN_USAGE_SPAN_DAYS,
+        (now.getTime() - new Date(usage.firstLoggedAt).getTime()) / 86400000
+      );
+      const perDay = usage.usedQty / spanDays;
+      const everyDays = Math.max(1, Math.round(spanDays / usage.events));
+      daysLeft = perDay > 0 ? onHand / perDay : null;
+      target = Math.max(target, perDay * horizonDays);
+      usageReason =
+        `You usually use ${fmt(usage.usedQty / usage.events)} ` +
+        `every ${everyDays === 1 ? "day" : `${everyDays} days`}; you have ${fmt(onHand)} left`;
+    }
+
+    const quantity = Math.ceil(round1(target - onHand));
+    if (quantity < 1) continue;
+
+    const belowPar = par != null && onHand < par.quantity;
+    out.push({
+      key,
+      name: par?.name || usage?.name || key,
+      category: par?.category || usage?.category || null,
+      unit,
+      quantity,
+      onHand,
+      reason:
+        usageReason && !(belowPar && daysLeft != null && daysLeft >= horizonDays)
+          ? usageReason
+          : `Below your minimum of ${fmt(par?.quantity ?? 0)}; you have ${fmt(onHand)} left`,
+      priority: onHand <= 0 || (daysLeft != null && daysLeft <= 2) ? "high" : "medium",
+      daysLeft,
+    });
+  }
+
+  return out.sort(
+    (a, b) =>
+      (a.priority === "high" ? 0 : 1) - (b.priority === "high" ? 0 : 1) ||
+      (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) ||
+      a.name.localeCompare(b.name)
+  );
+}
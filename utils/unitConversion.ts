@@ -0,0 +1,118 @@
+// utils/unitConversion.ts
+import { roundQuantity } from "@/utils/quantityLimits";
+
+export type UnitDimension = "mass" | "volume" | "count";
+
+type UnitDefinition = {
+  dimension: UnitDimension;
+  /** Size in the dimension's base unit: grams, millilitres or pieces. */
+  factor: number;
+};
+
+/** Canonical units, in the order they're offered as alternatives. */
+const UNITS: Record<string, UnitDefinition> = {
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 28.349523125 },
+  lb: { dimension: "mass", factor: 453.59237 },
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  cup: { dimension: "volume", factor: 240 },
+  tbsp: { dimension: "volume", factor: 15 },
+  tsp: { dimension: "volume", factor: 5 },
+  pcs: { dimension: "count", factor: 1 },
+  dozen: { dimension: "count", factor: 12 },
+};
+
+/** Spellings users pick or type for the canonical units above. */
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  kilogram: "kg",
+  kilograms: "kg",
+  kgs: "kg",
+  ounce: "oz",
+  ounces: "oz",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  millilitre: "ml",
+  millilitres: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  litre: "l",
+  litres: "l",
+  liter: "l",
+  liters: "l",
+  cups: "cup",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  pc: "pcs",
+  piece: "pcs",
+  pieces: "pcs",
+  dozens: "dozen",
+};
+
+/** Canonical unit for `unit`, or null when it doesn't convert (cans, slices…). */
+export function canonicalUnit(unit?: string | null): string | null {
+  const key = (unit ?? "").trim().toLowerCase() || "pcs";
+  const canonical = UNIT_ALIASES[key] ?? key;
+  return UNITS[canonical] ? canonical : null;
+}
+
+export function unitDimension(unit?: string | null): UnitDimension | null {
+  const canonical = canonicalUnit(unit);
+  return canonical ? UNITS[canonical]!.dimension : null;
+}
+
+/** Same unit (in any spelling), or two units of the same dimension. */
+export function canConvertUnits(from?: string | null, to?: string | null): boolean {
+  const a = canonicalUnit(from);
+  const b = canonicalUnit(to);
+  if (!a || !b) {
+    return (from ?? "").trim().toLowerCase() === (to ?? "").trim().toLowerCase();
+  }
+  return UNITS[a]!.dimension === UNITS[b]!.dimension;
+}
+
+/**
+ * `quantity` of `from` expressed in `to`, rounded to the stored precision; null
+ * when the units don't convert (e.g. kg to ml — no densities here).
+ */
+export function convertQuantity(
+  quantity: number,
+  from?: string | null,
+  to?: string | null
+): number | null {
+  if (!canConvertUnits(from, to)) return null;
+  const a = canonicalUnit(from);
+  const b = canonicalUnit(to);
+  if (!a || !b || a === b) return roundQuantity(quantity);
+  return roundQuantity((quantity * UNITS[a]!.factor) / UNITS[b]!.factor);
+}
+
+/**
+ * Units a quantity in `unit` can be entered in: `unit` itself first (as
+ * spelled), then the other units of its dimension.
+ */
+export function compatibleUnits(unit?: string | null): string[] {
+  const own = (unit ?? "").trim() || "pcs";
+  const canonical = canonicalUnit(own);
+  if (!canonical) return [own];
+  const dimension = UNITS[canonical]!.dimension;
+  const others = Object.keys(UNITS).filter(
+    (u) => u !== canonical && UNITS[u]!.dimension === dimension
+  );
+  return [own, ...others];
+}
+
+/**
+ * Exactly one piece (or can, jar…): nothing to pick, so consuming it can skip
+ * the amount picker. One kilogram or one dozen can still be used in part.
+ */
+export function isSingleWholeUnit(quantity: number, unit?: string | null): boolean {
+  const canonical = canonicalUnit(unit);
+  return quantity === 1 && (canonical === null || canonical === "pcs");
+}
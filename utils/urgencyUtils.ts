@@ -1,11 +1,21 @@
 // utils/urgencyUtils.ts
-import { FoodItem } from "@/lib/supabase";
+import {
+  ExpiryKind,
+  FoodItem,
+  UrgencySettings,
+  UrgencyThresholds,
+} from "@/lib/supabase";
+import { calendarDaysUntil } from "@/utils/localDate";
+import { effectiveExpiryDate } from "@/utils/openedExpiry";
 
 export type UrgencyLevel = "critical" | "warning" | "soon" | "safe";
 
 export interface UrgencyInfo {
   level: UrgencyLevel;
   daysUntilExpiry: number;
+  /** Past a use-by date. Best-before items never count as expired. */
+  isExpired: boolean;
+  expiryKind: ExpiryKind;
   color: string;
   dotColor: string;
   backgroundColor: string;
@@ -13,16 +23,148 @@ export interface UrgencyInfo {
   description: string;
 }
 
+/** Critical is always the day itself (or past it); these move warning and soon. */
+export const DEFAULT_URGENCY_THRESHOLDS: UrgencyThresholds = {
+  warningDays: 2,
+  soonDays: 7,
+};
+
+export const DEFAULT_URGENCY_SETTINGS: UrgencySettings = {
+  defaults: DEFAULT_URGENCY_THRESHOLDS,
+  categories: {},
+};
+
+const MAX_THRESHOLD_DAYS = 365;
+
+function clampDays(value: unknown, fallback: number): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(MAX_THRESHOLD_DAYS, Math.max(0, Math.round(n)));
+}
+
+function sanitizeThresholds(raw: unknown, fallback: UrgencyThresholds): UrgencyThresholds {
+  const o = (raw && typeof raw === "object" ? raw : {}) as Partial<UrgencyThresholds>;
+  const warningDays = clampDays(o.warningDays, fallback.warningDays);
+  const soonDays = Math.max(warningDays, clampDays(o.soonDays, fallback.soonDays));
+  return { warningDays, soonDays };
+}
+
+/** Key a category is stored under in `UrgencySettings.categories`. */
+export function urgencyCategoryKey(category: string | null | undefined): string {
+  return (category ?? "").trim().toLowerCase();
+}
+
+/** Settings from storage or the profile row, with bad or missing values defaulted. */
+export function sanitizeUrgencySettings(raw: unknown): UrgencySettings {
+  const o = (raw && typeof raw === "object" ? raw : {}) as Partial<UrgencySettings>;
+  const defaults = sanitizeThresholds(o.defaults, DEFAULT_URGENCY_THRESHOLDS);
+  const categories: Record<string, UrgencyThresholds> = {};
+  if (o.categories && typeof o.categories === "object") {
+    for (const [category, thresholds] of Object.entries(o.categories)) {
+      const key = urgencyCategoryKey(category);
+      if (key) categories[key] = sanitizeThresholds(thresholds, defaults);
+    }
+  }
+  return { defaults, categories };
+}
+
+let activeSettings: UrgencySettings = DEFAULT_URGENCY_SETTINGS;
+const settingsListeners = new Set<() => void>();
+
+/** Thresholds used when `calculateUrgency` isn't given any; set once they load. */
+export function setActiveUrgencySettings(settings: UrgencySettings | null): void {
+  activeSettings = settings ? sanitizeUrgencySettings(settings) : DEFAULT_URGENCY_SETTINGS;
+  settingsListeners.forEach((listener) => listener());
+}
+
+/** Called whenever the active thresholds change; returns the unsubscribe. */
+export function subscribeToUrgencySettings(listener: () => void): () => void {
+  settingsListeners.add(listener);
+  return () => {
+    settingsListeners.delete(listener);
+  };
+}
+
+export function getActiveUrgencySettings(): UrgencySettings {
+  return activeSettings;
+}
+
+/** The category's override when there is one, otherwise the user's defaults. */
+export function urgencyThresholdsFor(
+  category: string | null | undefined,
+  settings: UrgencySettings = activeSettings
+): UrgencyThresholds {
+  return settings.categories[urgencyCategoryKey(category)] ?? settings.defaults;
+}
+
+export function expiryKindOf(item: Pick<FoodItem, "expiry_kind">): ExpiryKind {
+  return item.expiry_kind === "best_before" ? "best_before" : "use_by";
+}
+
+const PALETTE: Record<
+  UrgencyLevel,
+  Pick<UrgencyInfo, "color" | "dotColor" | "backgroundColor" | "borderColor">
+> = {
+  critical: {
+    color: "#DC2626", // Red-600
+    dotColor: "#EF4444", // Red-500
+    backgroundColor: "#FEF2F2", // Red-50
+    borderColor: "#FCA5A5", // Red-300
+  },
+  warning: {
+    color: "#EA580C", // Orange-600
+    dotColor: "#F97316", // Orange-500
+    backgroundColor: "#FFF7ED", // Orange-50
+    borderColor: "#FED7AA", // Orange-200
+  },
+  soon: {
+    color: "#FACC15", // Yellow-400
+    dotColor: "#EAB308", // Yellow-500
+    backgroundColor: "#FEFCE8", // Yellow-50
+    borderColor: "#FEF08A", // Yellow-200
+  },
+  safe: {
+    color: "#16A34A", // Green-600
+    dotColor: "#22C55E", // Green-500
+    backgroundColor: "#F0FDF4", // Green-50
+    borderColor: "#BBF7D0", // Green-200
+  },
+};
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n !== 1 ? "s" : ""}`;
+}
+
+export interface UrgencyOptions {
+  /** Defaults to now; only its local calendar day matters. */
+  today?: Date;
+  /** Defaults to the active settings. */
+  settings?: UrgencySettings;
+}
+
 /**
- * Calculate the urgency level and associated styling for a food item
+ * Calculate the urgency level and associated styling for a food item.
+ * Opened items count down from the earlier of the printed date and their
+ * after-opening window. Days are local calendar days, and the warning/soon
+ * cut-offs come from the item's category or the user's defaults.
+ *
+ * A use-by item is critical on its date and expired after it. A best-before
+ * item only turns orange there: it is past its best, not unsafe.
  * @param item FoodItem with expiry_date
  * @returns UrgencyInfo object with level, colors, and metadata
  */
-export function calculateUrgency(item: FoodItem): UrgencyInfo {
-  if (!item.expiry_date) {
+export function calculateUrgency(
+  item: FoodItem,
+  options: UrgencyOptions = {}
+): UrgencyInfo {
+  const expiryKind = expiryKindOf(item);
+  const expiryDate = effectiveExpiryDate(item);
+  if (!expiryDate) {
     return {
       level: "safe",
       daysUntilExpiry: Infinity,
+      isExpired: false,
+      expiryKind,
       color: "#6B7280", // Gray
       dotColor: "#9CA3AF",
       backgroundColor: "#F9FAFB",
@@ -31,83 +173,43 @@ export function calculateUrgency(item: FoodItem): UrgencyInfo {
     };
   }
 
-  const now = new Date();
-  const toUtcMidnight = (d: Date) =>
-    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
-  const todayUtc = toUtcMidnight(now);
-  const expiry = new Date(item.expiry_date);
-  const expiryUtc = toUtcMidnight(expiry);
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const daysUntilExpiry = Math.round((expiryUtc - todayUtc) / msPerDay);
+  const daysUntilExpiry = calendarDaysUntil(expiryDate, options.today);
+  const { warningDays, soonDays } = urgencyThresholdsFor(
+    item.category,
+    options.settings ?? activeSettings
+  );
+  // After opening, the item is judged by its use-by window whatever the label says.
+  const bestBefore =
+    expiryKind === "best_before" && expiryDate === item.expiry_date?.slice(0, 10);
+  const info = (level: UrgencyLevel, description: string): UrgencyInfo => ({
+    level,
+    daysUntilExpiry,
+    isExpired: !bestBefore && daysUntilExpiry < 0,
+    expiryKind,
+    ...PALETTE[level],
+    description,
+  });
 
-  // Define urgency tiers
   if (daysUntilExpiry < 0) {
-    // Expired
-    return {
-      level: "critical",
-      daysUntilExpiry,
-      color: "#DC2626", // Red-600
-      dotColor: "#EF4444", // Red-500
-      backgroundColor: "#FEF2F2", // Red-50
-      borderColor: "#FCA5A5", // Red-300
-      description: `Expired ${Math.abs(daysUntilExpiry)} day${
-        Math.abs(daysUntilExpiry) !== 1 ? "s" : ""
-      } ago`,
-    };
+    const ago = Math.abs(daysUntilExpiry);
+    return bestBefore
+      ? info("warning", `Past best before by ${plural(ago, "day")}`)
+      : info("critical", `Expired ${plural(ago, "day")} ago`);
   }
 
   if (daysUntilExpiry === 0) {
-    // Expires today
-    return {
-      level: "critical",
-      daysUntilExpiry,
-      color: "#DC2626", // Red-600
-      dotColor: "#EF4444", // Red-500
-      backgroundColor: "#FEF2F2", // Red-50
-      borderColor: "#FCA5A5", // Red-300
-      description: "Expires today",
-    };
+    return bestBefore
+      ? info("warning", "Best before today")
+      : info("critical", "Expires today");
   }
 
-  if (daysUntilExpiry <= 2) {
-    // Expires in 1-2 days
-    return {
-      level: "warning",
-      daysUntilExpiry,
-      color: "#EA580C", // Orange-600
-      dotColor: "#F97316", // Orange-500
-      backgroundColor: "#FFF7ED", // Orange-50
-      borderColor: "#FED7AA", // Orange-200
-      description: `Expires in ${daysUntilExpiry} day${
-        daysUntilExpiry !== 1 ? "s" : ""
-      }`,
-    };
-  }
+  const upcoming = bestBefore
+    ? `Best before in ${plural(daysUntilExpiry, "day")}`
+    : `Expires in ${plural(daysUntilExpiry, "day")}`;
 
-  if (daysUntilExpiry <= 7) {
-    // Expires in 3-7 days
-    return {
-      level: "soon",
-      daysUntilExpiry,
-      color: "#FACC15", // Yellow-400
-      dotColor: "#EAB308", // Yellow-500
-      backgroundColor: "#FEFCE8", // Yellow-50
-      borderColor: "#FEF08A", // Yellow-200
-      description: `Expires in ${daysUntilExpiry} days`,
-    };
-  }
-
-  // Expires in more than 7 days
-  return {
-    level: "safe",
-    daysUntilExpiry,
-    color: "#16A34A", // Green-600
-    dotColor: "#22C55E", // Green-500
-    backgroundColor: "#F0FDF4", // Green-50
-    borderColor: "#BBF7D0", // Green-200
-    description:
-      daysUntilExpiry <= 30 ? `Expires in ${daysUntilExpiry} days` : "Fresh",
-  };
+  if (daysUntilExpiry <= warningDays) return info("warning", upcoming);
+  if (daysUntilExpiry <= soonDays) return info("soon", upcoming);
+  return info("safe", daysUntilExpiry <= 30 ? upcoming : "Fresh");
 }
 
 /**
@@ -178,9 +280,13 @@ export function getCalendarDotColors(items: FoodItem[]): Array<{
 
 /**
  * Enhanced urgency calculation with Phase 2 design system
- * Returns detailed urgency information for visual hierarchy
+ * Returns detailed urgency information for visual hierarchy.
+ * Pass `urgencyThresholdsFor(item.category)` to honour category overrides.
  */
-export function calculateEnhancedUrgency(expiryDate: string): {
+export function calculateEnhancedUrgency(
+  expiryDate: string,
+  thresholds: UrgencyThresholds = activeSettings.defaults
+): {
   level: "critical" | "warning" | "soon" | "safe";
   color: string;
   backgroundColor: string;
@@ -189,14 +295,7 @@ export function calculateEnhancedUrgency(expiryDate: string): {
   dotSize: number; // Phase 2 responsive dot sizes
   visualWeight: number; // For animation and hierarchy
 } {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const expiry = new Date(expiryDate);
-  expiry.setHours(0, 0, 0, 0);
-
-  const diffTime = expiry.getTime() - today.getTime();
-  const daysUntilExpiry = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  const daysUntilExpiry = calendarDaysUntil(expiryDate);
 
   if (daysUntilExpiry < 0) {
     return {
@@ -222,7 +321,7 @@ export function calculateEnhancedUrgency(expiryDate: string): {
     };
   }
 
-  if (daysUntilExpiry <= 2) {
+  if (daysUntilExpiry <= thresholds.warningDays) {
     return {
       level: "warning",
       color: "#F97316",
@@ -236,7 +335,7 @@ export function calculateEnhancedUrgency(expiryDate: string): {
     };
   }
 
-  if (daysUntilExpiry <= 7) {
+  if (daysUntilExpiry <= thresholds.soonDays) {
     return {
       level: "soon",
       color: "#EAB308",
@@ -273,7 +372,10 @@ export function getCalendarDateAccessibilityLabel(
   }
 
   const urgencyCounts = items.reduce((acc, item) => {
-    const urgency = calculateEnhancedUrgency(item.expiry_date!);
+    const urgency = calculateEnhancedUrgency(
+      item.expiry_date!,
+      urgencyThresholdsFor(item.category)
+    );
     acc[urgency.level] = (acc[urgency.level] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
@@ -0,0 +1,188 @@
+// utils/wasteCost.ts
+import { roundMoney } from "@/utils/itemPrice";
+import { monthLabel } from "@/utils/reportRange";
+
+/** A usage log with what one unit of its item cost. */
+export type ValuedLog = {
+  status: "used" | "wasted" | "expired";
+  quantity: number | null;
+  loggedAt: string;
+  /** Grouping key of the item (normalized name). */
+  itemKey: string;
+  itemName: string;
+  categoryLabel: string;
+  unitPrice: number | null;
+  currency: string | null;
+  /** Logs this row stands for when already aggregated (quantity 1, unitPrice = total). */
+  logs?: number;
+};
+
+/** What an inventory row cost when it was added. */
+export type Purchase = {
+  price: number | null;
+  currency: string | null;
+  /** Rows this price sums when already aggregated. */
+  rows?: number;
+};
+
+export type MoneyRow = {
+  key: string;
+  label: string;
+  amount: number;
+  barPct: number;
+};
+
+export type WasteCostSummary = {
+  /** Every amount below is in this currency; others are left out. */
+  currency: string;
+  wastedValue: number;
+  consumedValue: number;
+  /** Sum of prices of the rows added. */
+  totalSpend: number;
+  /** Wasted or expired logs whose item had no price. */
+  unpricedWasteLogs: number;
+  /** `YYYY-MM` keys, newest first, months with priced waste only. */
+  byMonth: MoneyRow[];
+  byCategory: MoneyRow[];
+  byItem: MoneyRow[];
+  /** Other currencies seen on prices, not converted. */
+  otherCurrencies: string[];
+};
+
+function monthKey(iso: string): string | null {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return null;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthKeyLabel(key: string): string {
+  const [y, m] = key.split("-");
+  return monthLabel(new Date(Number(y), Number(m) - 1, 1));
+}
+
+/** The log's worth: its quantity (one when missing) at the unit price. */
+export function logValue(log: Pick<ValuedLog, "quantity" | "unitPrice">): number {
+  if (log.unitPrice == null) return 0;
+  const qty = Number(log.quantity) > 0 ? Number(log.quantity) : 1;
+  return roundMoney(qty * log.unitPrice);
+}
+
+/** The currency most prices were entered in. */
+function mainCurrency(logs: ValuedLog[], purchases: Purchase[]): string | null {
+  const counts = new Map<string, number>();
+  const entries = [
+    ...logs.map((l) => [l.currency, l.logs ?? 1] as const),
+    ...purchases.map((p) => [p.currency, p.rows ?? 1] as const),
+  ];
+  for (const [c, n] of entries) {
+    if (c) counts.set(c, (counts.get(c) ?? 0) + n);
+  }
+  let best: string | null = null;
+  for (const [c, n] of counts) {
+    if (best == null || n > counts.get(best)!) best = c;
+  }
+  return best;
+}
+
+function toRows(
+  totals: Map<string, { label: string; amount: number }>,
+  limit: number
+): MoneyRow[] {
+  const sorted = [...totals.entries()].sort((a, b) => b[1].amount - a[1].amount);
+  const max = sorted[0]?.[1].amount ?? 0;
+  return sorted.slice(0, limit).map(([key, v]) => ({
+    key,
+    label: v.label,
+    amount: roundMoney(v.amount),
+    barPct: max > 0 ? Math.round((v.amount / max) * 100) : 0,
+  }));
+}
+
+function addTo(
+  totals: Map<string, { label: string; amount: number }>,
+  key: string,
+  label: string,
+  amount: number
+) {
+  const cur = totals.get(key);
+  if (cur) cur.amount += amount;
+  else totals.set(key, { label, amount });
+}
+
+/**
+ * Money wasted per month, category and item, plus what was spent and what was
+ * eaten, from priced logs and purchases. Null when nothing has a price.
+ */
+export function summarizeWasteCost(
+  logs: ValuedLog[],
+  purchases: Purchase[],
+  limits: { months?: number; top?: number } = {}
+): WasteCostSummary | null {
+  const currency = mainCurrency(
+    logs.filter((l) => l.unitPrice != null),
+    purchases.filter((p) => p.price != null)
+  );
+  if (!currency) return null;
+
+  const other = new Set<string>();
+  let wastedValue = 0;
+  let consumedValue = 0;
+  let unpricedWasteLogs = 0;
+  const byMonth = new Map<string, { label: string; amount: number }>();
+  const byCategory = new Map<string, { label: string; amount: number }>();
+  const byItem = new Map<string, { label: string; amount: number }>();
+
+  for (const log of logs) {
+    const wasted = log.status !== "used";
+    if (log.unitPrice == null) {
+      if (wasted) unpricedWasteLogs += log.logs ?? 1;
+      continue;
+    }
+    if (log.currency && log.currency !== currency) {
+      other.add(log.currency);
+      continue;
+    }
+    const value = logValue(log);
+    if (!wasted) {
+      consumedValue += value;
+      continue;
+    }
+    wastedValue += value;
+    const month = monthKey(log.loggedAt);
+    if (month) addTo(byMonth, month, monthKeyLabel(month), value);
+    addTo(byCategory, log.categoryLabel, log.categoryLabel, value);
+    addTo(byItem, log.itemKey, log.itemName, value);
+  }
+
+  let totalSpend = 0;
+  for (const p of purchases) {
+    if (p.price == null) continue;
+    if (p.currency && p.currency !== currency) {
+      other.add(p.currency);
+      continue;
+    }
+    totalSpend += Number(p.price);
+  }
+
+  const monthRows = [...byMonth.entries()]
+    .sort((a, b) => (a[0] < b[0] ? 1 : -1))
+    .slice(0, limits.months ?? 12);
+  const maxMonth = Math.max(0, ...monthRows.map(([, v]) => v.amount));
+
+  return {
+    currency,
+    wastedValue: roundMoney(wastedValue),
+    consumedValue: roundMoney(consumedValue),
+    totalSpend: roundMoney(totalSpend),
+    unpricedWasteLogs,
+    byMonth: monthRows.map(([key, v]) => ({
+      key,
+      label: v.label,
+      amount: roundMoney(v.amount),
+      barPct: maxMonth > 0 ? Math.round((v.amount / maxMonth) * 100) : 0,
+    })),
+    byCategory: toRows(byCategory, limits.top ?? 5),
+    byItem: toRows(byItem, limits.top ?? 5),
+    otherCurrencies: [...other].sort(),
+  };
+}